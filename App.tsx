@@ -67,6 +67,11 @@ const App = () => {
   }, []);
 
   const initializeApp = async () => {
+    if (__DEV__) {
+      // Required here so release bundles leave the mock backend out
+      require('./src/shared/services/mockServer').registerMockServerDevMenu();
+    }
+
     // Load language preferences
     await localizationService.loadLanguagePreference();
 
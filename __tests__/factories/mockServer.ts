@@ -0,0 +1,17 @@
+/**
+ * Seed the mock backend with entities from the test data factories
+ */
+
+import { MOCK_PASSWORD, mockServer, MockSeed } from '@shared/services/mockServer';
+
+/**
+ * Replace the mock backend's data with `seed` and answer without delays.
+ * Seeded users sign in with `MOCK_PASSWORD`.
+ */
+export const seedMockServer = (seed: MockSeed): void => {
+  mockServer.configure({ latencyMs: 0, reactionDelayMs: null });
+  mockServer.reset({
+    passwords: Object.fromEntries((seed.users ?? []).map(user => [user._id, MOCK_PASSWORD])),
+    ...seed,
+  });
+};
@@ -0,0 +1,32 @@
+/**
+ * Redux store for tests that dispatch through the root store
+ */
+
+import { combineReducers, configureStore, Middleware, Reducer } from '@reduxjs/toolkit';
+import authReducer from '@features/auth/store/authSlice';
+import outboxReducer from '@store/slices/outboxSlice';
+
+interface TestApi {
+  reducerPath: string;
+  reducer: Reducer;
+  middleware: Middleware;
+}
+
+/**
+ * A store with auth, the outbox and only the given RTK Query APIs, standing in for
+ * `@/store` where loading every feature is not wanted:
+ *
+ *   jest.mock('../../src/store', () => ({
+ *     store: require('../factories/store').createTestStore(require('...').tournamentApi),
+ *   }));
+ */
+export const createTestStore = (...apis: TestApi[]) =>
+  configureStore({
+    reducer: combineReducers({
+      auth: authReducer,
+      outbox: outboxReducer,
+      ...Object.fromEntries(apis.map(api => [api.reducerPath, api.reducer])),
+    }),
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware({ serializableCheck: false }).concat(apis.map(api => api.middleware)),
+  });
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Provider } from 'react-redux';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { store } from '../../src/store';
+import { apiService } from '../../src/shared/services/api';
+import { MOCK_PASSWORD, MOCK_USER_EMAIL, MOCK_USER_ID, mockServer } from '../../src/shared/services/mockServer';
+import { chatApi } from '../../src/features/chat/store/chatApi';
+import { setUser } from '../../src/features/auth/store/authSlice';
+import { networkStatusChanged, selectOutboxEntries } from '../../src/store/slices/outboxSlice';
+import { useChatDetailScreen } from '../../src/features/chat/hooks/useChatDetailScreen';
+
+jest.mock('../../src/store', () => ({
+  store: require('../factories/store').createTestStore(require('../../src/features/chat/store/chatApi').chatApi),
+}));
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <Provider store={store}>{children}</Provider>;
+
+describe('useChatDetailScreen', () => {
+  beforeAll(async () => {
+    await mockServer.setEnabled(true);
+    mockServer.configure({ latencyMs: 0, reactionDelayMs: null });
+    mockServer.reset();
+
+    const { body } = await mockServer.handle({
+      method: 'POST',
+      url: '/auth/login',
+      body: { email: MOCK_USER_EMAIL, password: MOCK_PASSWORD },
+    });
+    mockApiService.getAccessToken.mockResolvedValue((body as any).data.accessToken);
+    store.dispatch(setUser(mockServer.database.users.find(user => user._id === MOCK_USER_ID)!));
+  });
+
+  afterAll(async () => {
+    store.dispatch(chatApi.util.resetApiState());
+    // RTK Query copies its subscriptions into the store 500ms after a request
+    await new Promise(resolve => setTimeout(resolve, 500));
+  });
+
+  it('should queue a message sent offline and show it as pending', async () => {
+    const { result } = renderHook(() => useChatDetailScreen('chat-1'), { wrapper });
+    await waitFor(() => expect(result.current.messages).toHaveLength(3));
+
+    store.dispatch(networkStatusChanged(false));
+    act(() => result.current.setMessageText('  Running late  '));
+    await act(() => result.current.handleSend());
+
+    expect(selectOutboxEntries(store.getState())).toEqual([
+      expect.objectContaining({
+        endpoint: 'sendMessage',
+        label: 'Send message',
+        request: expect.objectContaining({ url: '/chats/chat-1/messages', method: 'POST', body: { content: 'Running late' } }),
+      }),
+    ]);
+    expect(result.current.messages[3]).toEqual(
+      expect.objectContaining({ content: 'Running late', sender: expect.objectContaining({ _id: MOCK_USER_ID }) })
+    );
+    expect(result.current.isMyMessage(result.current.messages[3])).toBe(true);
+    expect(result.current.messageText).toBe('');
+    expect(result.current.sendError).toBeNull();
+  });
+});
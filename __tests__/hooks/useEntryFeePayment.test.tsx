@@ -0,0 +1,73 @@
+import React from 'react';
+import { Provider } from 'react-redux';
+import { act, renderHook } from '@testing-library/react-native';
+import { store } from '../../src/store';
+import { apiService } from '../../src/shared/services/api';
+import { MOCK_PASSWORD, mockServer } from '../../src/shared/services/mockServer';
+import { paymentApi } from '../../src/features/profile/store/paymentApi';
+import { TournamentRuleError } from '../../src/features/tournaments/services/tournamentRules';
+import { useEntryFeePayment } from '../../src/features/tournaments/hooks/useEntryFeePayment';
+import { createMockTournament, createMockUser } from '../factories/mockData';
+import { seedMockServer } from '../factories/mockServer';
+
+jest.mock('../../src/store', () => ({
+  store: require('../factories/store').createTestStore(require('../../src/features/profile/store/paymentApi').paymentApi),
+}));
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <Provider store={store}>{children}</Provider>;
+
+const player = createMockUser({ _id: 'player-1', email: 'player@example.com' });
+const tournament = createMockTournament({
+  _id: 'paid',
+  registrationDeadline: '2099-01-01T00:00:00Z',
+  entryFee: { amount: 1500, currency: 'usd' },
+});
+
+describe('useEntryFeePayment', () => {
+  beforeAll(async () => {
+    await mockServer.setEnabled(true);
+    seedMockServer({ users: [player], tournaments: [tournament] });
+
+    const { body } = await mockServer.handle({
+      method: 'POST',
+      url: '/auth/login',
+      body: { email: player.email, password: MOCK_PASSWORD },
+    });
+    mockApiService.getAccessToken.mockResolvedValue((body as any).data.accessToken);
+  });
+
+  afterAll(async () => {
+    store.dispatch(paymentApi.util.resetApiState());
+    // RTK Query copies its subscriptions into the store 500ms after a request
+    await new Promise(resolve => setTimeout(resolve, 500));
+  });
+
+  it('should refund the fee when the entry is turned down after payment', async () => {
+    const onPaid = jest.fn().mockRejectedValue(new TournamentRuleError('TOURNAMENT_FULL', 'Tournament is full'));
+    const { result } = renderHook(() => useEntryFeePayment(tournament), { wrapper });
+
+    await act(() => result.current.requestPayment(onPaid));
+    const [payment] = mockServer.database.payments;
+    await act(() => result.current.onPaymentSuccess(payment.stripePaymentIntentId));
+
+    expect(onPaid).toHaveBeenCalledWith(payment.stripePaymentIntentId);
+    expect(payment.status).toBe('refunded');
+    expect(result.current.error).toBe(
+      'Your payment went through but the entry could not be completed. Your entry fee has been refunded.'
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Provider } from 'react-redux';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { store } from '../../src/store';
+import { apiService } from '../../src/shared/services/api';
+import { MOCK_PASSWORD, mockServer } from '../../src/shared/services/mockServer';
+import { matchApi } from '../../src/features/matches/store/matchApi';
+import { setUser } from '../../src/features/auth/store/authSlice';
+import { networkStatusChanged, selectOutboxEntries } from '../../src/store/slices/outboxSlice';
+import { useLiveScoreScreen } from '../../src/features/matches/hooks/useLiveScoreScreen';
+import { createMockMatch, createMockUser } from '../factories/mockData';
+import { seedMockServer } from '../factories/mockServer';
+
+jest.mock('../../src/store', () => ({
+  store: require('../factories/store').createTestStore(require('../../src/features/matches/store/matchApi').matchApi),
+}));
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <Provider store={store}>{children}</Provider>;
+
+const scorekeeper = createMockUser({ _id: 'scorekeeper-1', email: 'scorekeeper@example.com' });
+
+describe('useLiveScoreScreen', () => {
+  beforeAll(async () => {
+    await mockServer.setEnabled(true);
+    seedMockServer({
+      users: [scorekeeper],
+      matches: [
+        createMockMatch({
+          _id: 'live',
+          sport: 'Basketball',
+          status: 'in-progress',
+          organizer: { _id: scorekeeper._id, firstName: scorekeeper.firstName, lastName: scorekeeper.lastName },
+          participants: [{ _id: scorekeeper._id, firstName: scorekeeper.firstName, lastName: scorekeeper.lastName }],
+        }),
+      ],
+    });
+
+    const { body } = await mockServer.handle({
+      method: 'POST',
+      url: '/auth/login',
+      body: { email: scorekeeper.email, password: MOCK_PASSWORD },
+    });
+    mockApiService.getAccessToken.mockResolvedValue((body as any).data.accessToken);
+    store.dispatch(setUser(scorekeeper));
+  });
+
+  afterAll(async () => {
+    store.dispatch(matchApi.util.resetApiState());
+    // RTK Query copies its subscriptions into the store 500ms after a request
+    await new Promise(resolve => setTimeout(resolve, 500));
+  });
+
+  it('should save each change as it happens and queue changes made offline', async () => {
+    const { result } = renderHook(() => useLiveScoreScreen({ params: { matchId: 'live' } }, { goBack: jest.fn() }), {
+      wrapper,
+    });
+    await waitFor(() => expect(result.current.score).not.toBeNull());
+
+    await act(() => result.current.onScore('team1', 2));
+    await waitFor(() => expect(mockServer.database.matches[0].score?.team1).toBe(2));
+
+    store.dispatch(networkStatusChanged(false));
+    await act(() => result.current.onScore('team2', 3));
+
+    await waitFor(() =>
+      expect(selectOutboxEntries(store.getState())).toEqual([
+        expect.objectContaining({
+          endpoint: 'saveLiveScore',
+          request: expect.objectContaining({ url: '/matches/live/score', method: 'PATCH' }),
+        }),
+      ])
+    );
+    expect(mockServer.database.matches[0].score?.team2).toBe(0);
+    expect(result.current.score?.totals).toEqual({ team1: 2, team2: 3 });
+    expect(result.current.error).toBeNull();
+  });
+});
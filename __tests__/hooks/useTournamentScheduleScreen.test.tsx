@@ -0,0 +1,112 @@
+import React from 'react';
+import { Provider } from 'react-redux';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { store } from '../../src/store';
+import { apiService } from '../../src/shared/services/api';
+import { MOCK_PASSWORD, mockServer } from '../../src/shared/services/mockServer';
+import { tournamentApi } from '../../src/features/tournaments/store/tournamentApi';
+import { venueApi } from '../../src/features/venues/store/venueApi';
+import { generateBracket } from '../../src/features/tournaments/utils';
+import { useTournamentScheduleScreen } from '../../src/features/tournaments/hooks/useTournamentScheduleScreen';
+import { createMockTournament, createMockUser, createMockVenue } from '../factories/mockData';
+import { seedMockServer } from '../factories/mockServer';
+
+jest.mock('../../src/store', () => ({
+  store: require('../factories/store').createTestStore(
+    require('../../src/features/tournaments/store/tournamentApi').tournamentApi,
+    require('../../src/features/venues/store/venueApi').venueApi
+  ),
+}));
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <Provider store={store}>{children}</Provider>;
+
+const organizer = createMockUser({ _id: 'organizer-1', email: 'organizer@example.com' });
+const venue = createMockVenue({ _id: 'venue-1' });
+const entrants = ['a', 'b', 'c', 'd'].map(id => ({ _id: `entrant-${id}`, firstName: 'Entrant', lastName: id }));
+
+describe('useTournamentScheduleScreen', () => {
+  let handle: jest.SpyInstance;
+
+  beforeAll(async () => {
+    await mockServer.setEnabled(true);
+    seedMockServer({
+      users: [organizer],
+      venues: [venue],
+      tournaments: [
+        createMockTournament({
+          _id: 'scheduled',
+          organizer: { _id: organizer._id },
+          venue: { _id: venue._id, name: venue.name, location: { address: venue.location.address } },
+          status: 'in_progress',
+          participants: entrants,
+          bracket: generateBracket('single_elimination', entrants),
+          startDate: '2099-03-01',
+          endDate: '2099-03-01',
+        }),
+      ],
+    });
+
+    const { body } = await mockServer.handle({
+      method: 'POST',
+      url: '/auth/login',
+      body: { email: organizer.email, password: MOCK_PASSWORD },
+    });
+    mockApiService.getAccessToken.mockResolvedValue((body as any).data.accessToken);
+  });
+
+  afterAll(async () => {
+    handle.mockRestore();
+    store.dispatch(tournamentApi.util.resetApiState());
+    store.dispatch(venueApi.util.resetApiState());
+    // RTK Query copies its subscriptions into the store 500ms after a request
+    await new Promise(resolve => setTimeout(resolve, 500));
+  });
+
+  it('should keep the venue bookings for a retry when the schedule fails to save', async () => {
+    const navigation = { goBack: jest.fn() };
+    const { result } = renderHook(
+      () => useTournamentScheduleScreen({ params: { tournamentId: 'scheduled' } }, navigation),
+      { wrapper }
+    );
+    await waitFor(() => expect(result.current.venue).toBeDefined());
+
+    await act(() => result.current.onPropose({ courts: '2', matchDuration: '60', restTime: '30' }));
+    expect(result.current.proposal?.matches.length).toBeGreaterThan(0);
+
+    // The first save fails after the venue is booked
+    const handleRequest = mockServer.handle.bind(mockServer);
+    let failures = 1;
+    handle = jest.spyOn(mockServer, 'handle').mockImplementation(async request =>
+      request.method === 'PUT' && request.url.endsWith('/schedule') && failures-- > 0
+        ? { status: 503, body: { success: false, message: 'Service unavailable' } as any }
+        : handleRequest(request)
+    );
+
+    await act(() => result.current.onConfirm());
+    const bookings = [...mockServer.database.bookings];
+    expect(result.current.error).toBe(
+      'The venue is booked, but the schedule could not be saved. Confirm again to retry with the same bookings.'
+    );
+    expect(bookings.length).toBeGreaterThan(0);
+    expect(bookings.every(booking => booking.court !== undefined)).toBe(true);
+
+    await act(() => result.current.onConfirm());
+    expect(navigation.goBack).toHaveBeenCalled();
+    expect(mockServer.database.bookings).toEqual(bookings);
+    expect(mockServer.database.tournaments[0].bracket!.rounds[0].matches[0].bookingId).toBe(bookings[0]._id);
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  baseQuery,
+  CORRELATION_ID_HEADER,
+  IDEMPOTENCY_KEY_HEADER,
+  isQueuedOffline,
+  toAppError,
+} from '../../src/shared/services/baseQuery';
+import { apiService } from '../../src/shared/services/api';
+import {
+  AuthenticationError,
+  BusinessError,
+  NetworkError,
+  NotFoundError,
+  OfflineQueuedError,
+  ValidationError,
+} from '../../src/core/errors/AppError';
+import { clearUser } from '../../src/features/auth/store/authSlice';
+import { entryQueued, OutboxEntry } from '../../src/store/slices/outboxSlice';
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const createApi = () => ({
+  signal: new AbortController().signal,
+  abort: jest.fn(),
+  dispatch: jest.fn(),
+  getState: jest.fn(),
+  extra: undefined,
+  endpoint: 'getMatches',
+  type: 'query' as const,
+});
+
+describe('baseQuery', () => {
+  const fetchMock = jest.fn();
+  const sentRequests = () => fetchMock.mock.calls.map(([request]) => request as Request);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = fetchMock;
+    mockApiService.getAccessToken.mockResolvedValue('old-token');
+  });
+
+  it('should send the access token and a correlation ID', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, data: [] }));
+
+    const result = await baseQuery('/matches', createApi(), {});
+
+    expect(result.data).toEqual({ success: true, data: [] });
+    const [request] = sentRequests();
+    expect(request.headers.get('Authorization')).toBe('Bearer old-token');
+    expect(request.headers.get(CORRELATION_ID_HEADER)).toBeTruthy();
+  });
+
+  it('should refresh the session once and replay a request rejected with 401', async () => {
+    mockApiService.refreshSession.mockResolvedValueOnce('new-token');
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(401, { success: false, message: 'Token expired' }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, data: { match: { _id: 'm1' } } }));
+
+    const result = await baseQuery({ url: '/matches/m1', method: 'GET' }, createApi(), {});
+
+    expect(result.data).toEqual({ success: true, data: { match: { _id: 'm1' } } });
+    expect(mockApiService.refreshSession).toHaveBeenCalledWith('old-token');
+    const [first, replay] = sentRequests();
+    expect(replay.headers.get('Authorization')).toBe('Bearer new-token');
+    expect(replay.headers.get(CORRELATION_ID_HEADER)).toBe(first.headers.get(CORRELATION_ID_HEADER));
+  });
+
+  it('should sign out when the refresh fails', async () => {
+    const api = createApi();
+    mockApiService.refreshSession.mockRejectedValueOnce(new Error('Refresh token expired'));
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, { success: false, message: 'Token expired' }));
+
+    const result = await baseQuery('/matches', api, {});
+
+    expect(result.error).toBeInstanceOf(AuthenticationError);
+    expect(mockApiService.clearTokens).toHaveBeenCalled();
+    expect(api.dispatch).toHaveBeenCalledWith(clearUser());
+  });
+
+  it('should not refresh when signing in fails', async () => {
+    mockApiService.getAccessToken.mockResolvedValue('stale-token');
+    fetchMock.mockResolvedValueOnce(jsonResponse(401, { success: false, message: 'Wrong password' }));
+
+    const result = await baseQuery({ url: '/auth/login', method: 'POST', body: {} }, createApi(), {});
+
+    expect(result.error?.message).toBe('Wrong password');
+    expect(mockApiService.refreshSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('baseQuery offline outbox', () => {
+  const fetchMock = jest.fn();
+  const outbox = { outbox: { label: 'Join match', invalidates: ['Match', 'Matches'] } };
+  const joinRequest = { url: '/matches/m1/join', method: 'POST' };
+
+  const createMutationApi = (isOnline: boolean, entries: Partial<OutboxEntry>[] = []) => ({
+    ...createApi(),
+    endpoint: 'joinMatch',
+    type: 'mutation' as const,
+    getState: jest.fn(() => ({ outbox: { isOnline, entries } })),
+  });
+  const queuedEntries = (api: ReturnType<typeof createMutationApi>) =>
+    api.dispatch.mock.calls.map(([action]) => action).filter(entryQueued.match).map(({ payload }) => payload);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = fetchMock;
+    mockApiService.getAccessToken.mockResolvedValue('token');
+  });
+
+  it('should queue an outbox mutation while offline without sending it', async () => {
+    const api = createMutationApi(false);
+
+    const result = await baseQuery(joinRequest, api, outbox);
+
+    expect(result.error).toBeInstanceOf(OfflineQueuedError);
+    expect(isQueuedOffline(result.error)).toBe(true);
+    expect(isQueuedOffline({ error: result.error })).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(queuedEntries(api)).toEqual([
+      expect.objectContaining({
+        endpoint: 'joinMatch',
+        label: 'Join match',
+        request: { url: '/matches/m1/join', method: 'POST', body: undefined },
+        invalidates: ['Match', 'Matches'],
+        status: 'pending',
+      }),
+    ]);
+  });
+
+  it('should queue behind requests still waiting in the outbox', async () => {
+    const api = createMutationApi(true, [{ id: 'earlier', status: 'pending' }]);
+
+    await baseQuery(joinRequest, api, outbox);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(queuedEntries(api)).toHaveLength(1);
+  });
+
+  it('should queue with the idempotency key it sent when the connection drops', async () => {
+    const api = createMutationApi(true, [{ id: 'rejected', status: 'failed' }]);
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+
+    const result = await baseQuery(joinRequest, api, outbox);
+
+    expect(isQueuedOffline(result.error)).toBe(true);
+    const [request] = fetchMock.mock.calls.map(([sent]) => sent as Request);
+    const [entry] = queuedEntries(api);
+    expect(request.headers.get(IDEMPOTENCY_KEY_HEADER)).toBe(entry.id);
+  });
+
+  it('should not queue requests the server turned down', async () => {
+    const api = createMutationApi(true);
+    fetchMock.mockResolvedValueOnce(jsonResponse(409, { success: false, message: 'Match is full' }));
+
+    const result = await baseQuery(joinRequest, api, outbox);
+
+    expect(result.error).toBeInstanceOf(BusinessError);
+    expect(isQueuedOffline(result.error)).toBe(false);
+    expect(queuedEntries(api)).toHaveLength(0);
+  });
+});
+
+describe('toAppError', () => {
+  it('should map HTTP failures to AppError subclasses', () => {
+    expect(toAppError({ status: 404, data: { success: false, message: 'Match not found' } })).toBeInstanceOf(
+      NotFoundError
+    );
+    expect(toAppError({ status: 422, data: { success: false, message: 'Match is full' } })).toEqual(
+      new BusinessError('Match is full')
+    );
+
+    const error = toAppError({ status: 500, data: undefined }, 'abc');
+    expect(error.statusCode).toBe(500);
+    expect(error.code).toBe('HTTP_500');
+    expect(error.details).toMatchObject({ correlationId: 'abc' });
+  });
+
+  it('should collect field errors into a validation error', () => {
+    const error = toAppError({
+      status: 400,
+      data: {
+        success: false,
+        message: 'Validation failed',
+        errors: [
+          { field: 'title', message: 'Too short', code: 'min' },
+          { field: 'title', message: 'Required', code: 'required' },
+        ],
+      },
+    }) as ValidationError;
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors).toEqual({ title: ['Too short', 'Required'] });
+  });
+
+  it('should treat unreachable servers as network errors', () => {
+    expect(toAppError({ status: 'FETCH_ERROR', error: 'TypeError: Network request failed' })).toBeInstanceOf(
+      NetworkError
+    );
+    expect(toAppError({ status: 'TIMEOUT_ERROR', error: 'AbortError' }).message).toBe('Request timed out');
+  });
+});
@@ -0,0 +1,155 @@
+import { store } from '../../src/store';
+import { apiService } from '../../src/shared/services/api';
+import { MOCK_PASSWORD, mockServer } from '../../src/shared/services/mockServer';
+import { BusinessError } from '../../src/core/errors/AppError';
+import { matchApi } from '../../src/features/matches/store/matchApi';
+import { matchService } from '../../src/features/matches/services/MatchService';
+import { createMockMatch, createMockUser } from '../factories/mockData';
+import { seedMockServer } from '../factories/mockServer';
+
+jest.mock('../../src/store', () => ({
+  store: require('../factories/store').createTestStore(
+    require('../../src/features/matches/store/matchApi').matchApi
+  ),
+}));
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+jest.mock('@react-native-community/geolocation', () => ({
+  getCurrentPosition: jest.fn(),
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const player = createMockUser({ _id: 'player-1', email: 'player@example.com' });
+const organizer = createMockUser({ _id: 'organizer-1', email: 'organizer@example.com' });
+const nextInLine = createMockUser({ _id: 'player-2', email: 'next@example.com' });
+
+const createParticipants = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ _id: `entrant-${index + 1}`, firstName: 'Entrant', lastName: `${index + 1}` }));
+
+const createMatch = (_id: string, maxParticipants: number, participantCount: number) =>
+  createMockMatch({
+    _id,
+    organizer: { _id: organizer._id, firstName: 'Olive', lastName: 'Organizer' },
+    schedule: { date: '2099-01-15', time: '14:00', timezone: 'UTC', duration: 120 },
+    maxParticipants,
+    currentParticipants: participantCount,
+    participants: createParticipants(participantCount),
+  });
+
+const signIn = async (email: string) => {
+  const { body } = await mockServer.handle({ method: 'POST', url: '/auth/login', body: { email, password: MOCK_PASSWORD } });
+  return (body as any).data.accessToken as string;
+};
+
+/** Requests the service sent, as `METHOD /path` */
+const sentRequests = (handle: jest.SpyInstance) =>
+  handle.mock.calls.map(([{ method, url }]) => `${method.toUpperCase()} ${new URL(url).pathname}`);
+
+describe('MatchService', () => {
+  let handle: jest.SpyInstance;
+
+  beforeAll(async () => {
+    await mockServer.setEnabled(true);
+  });
+
+  beforeEach(async () => {
+    seedMockServer({
+      users: [player, organizer, nextInLine],
+      matches: [createMatch('full', 4, 4), createMatch('open', 4, 2), createMatch('offered', 4, 3)],
+      waitlists: [
+        {
+          matchId: 'offered',
+          entries: [
+            {
+              _id: 'entry-1',
+              user: { _id: player._id, firstName: player.firstName, lastName: player.lastName, username: player.username },
+              status: 'offered',
+              joinedAt: '2026-01-01T10:00:00Z',
+              offerExpiresAt: '2099-01-01T00:00:00Z',
+            },
+            {
+              _id: 'entry-2',
+              user: {
+                _id: nextInLine._id,
+                firstName: nextInLine.firstName,
+                lastName: nextInLine.lastName,
+                username: nextInLine.username,
+              },
+              status: 'waiting',
+              joinedAt: '2026-01-01T11:00:00Z',
+            },
+          ],
+        },
+      ],
+    });
+    mockApiService.getAccessToken.mockResolvedValue(await signIn(player.email));
+    handle = jest.spyOn(mockServer, 'handle');
+  });
+
+  afterEach(() => {
+    handle.mockRestore();
+  });
+
+  afterAll(async () => {
+    store.dispatch(matchApi.util.resetApiState());
+    // RTK Query copies its subscriptions into the store 500ms after a request
+    await new Promise(resolve => setTimeout(resolve, 500));
+  });
+
+  describe('joinWaitlist', () => {
+    it('should queue the user for a full match', async () => {
+      const waitlist = await matchService.joinWaitlist('full', player._id);
+
+      expect(waitlist.entries).toEqual([expect.objectContaining({ user: expect.objectContaining({ _id: player._id }) })]);
+      expect(sentRequests(handle)).toEqual([
+        'GET /api/v1/matches/full',
+        'GET /api/v1/matches/full/waitlist',
+        'POST /api/v1/matches/full/waitlist',
+      ]);
+    });
+
+    it('should never reach the API when the match still has open spots', async () => {
+      await expect(matchService.joinWaitlist('open', player._id)).rejects.toBeInstanceOf(BusinessError);
+
+      expect(sentRequests(handle)).not.toContain('POST /api/v1/matches/open/waitlist');
+    });
+  });
+
+  describe('respondToWaitlistOffer', () => {
+    it('should take the spot held for the user', async () => {
+      await matchService.respondToWaitlistOffer('offered', player._id, true);
+
+      expect(sentRequests(handle)).toContain('PATCH /api/v1/matches/offered/waitlist/offer');
+      expect(mockServer.database.matches[2].participants).toContainEqual(expect.objectContaining({ _id: player._id }));
+    });
+
+    it('should leave passing a declined spot on to the server', async () => {
+      await matchService.respondToWaitlistOffer('offered', player._id, false);
+
+      expect(sentRequests(handle)).not.toContain('POST /api/v1/matches/offered/waitlist/entry-2/offer');
+      expect(mockServer.database.waitlists[0].entries).toEqual([
+        expect.objectContaining({ _id: 'entry-2', status: 'offered' }),
+      ]);
+    });
+  });
+
+  describe('promoteFromWaitlist', () => {
+    it('should never reach the API for anyone but the organizer', async () => {
+      await expect(matchService.promoteFromWaitlist('offered', player._id)).rejects.toBeInstanceOf(BusinessError);
+
+      expect(sentRequests(handle)).not.toContain('POST /api/v1/matches/offered/waitlist/entry-2/offer');
+    });
+  });
+});
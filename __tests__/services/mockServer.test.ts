@@ -0,0 +1,187 @@
+import { baseQuery } from '../../src/shared/services/baseQuery';
+import { apiService } from '../../src/shared/services/api';
+import {
+  MOCK_PASSWORD,
+  MOCK_USER_EMAIL,
+  MOCK_USER_ID,
+  mockServer,
+} from '../../src/shared/services/mockServer';
+import { AuthenticationError, NotFoundError } from '../../src/core/errors/AppError';
+import { createMockList, createMockMatch, createMockUser } from '../factories/mockData';
+import { seedMockServer } from '../factories/mockServer';
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const createApi = () => ({
+  signal: new AbortController().signal,
+  abort: jest.fn(),
+  dispatch: jest.fn(),
+  getState: jest.fn(),
+  extra: undefined,
+  endpoint: 'getMatches',
+  type: 'query' as const,
+});
+
+/** Let pending responses and pushed events arrive */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const signIn = async (email = MOCK_USER_EMAIL) => {
+  const { body } = await mockServer.handle({
+    method: 'POST',
+    url: '/auth/login',
+    body: { email, password: MOCK_PASSWORD },
+  });
+  return (body as any).data.accessToken as string;
+};
+
+const connect = async (token: string) => {
+  const socket = mockServer.createSocket(token);
+  const received: Array<[string, any]> = [];
+  ['connect', 'connect_error', 'new_message', 'match_participant_joined', 'typing_start', 'error'].forEach(event =>
+    socket.on(event, (payload?: unknown) => received.push([event, payload]))
+  );
+  await flush();
+  return { socket, received };
+};
+
+describe('mockServer', () => {
+  beforeAll(async () => {
+    mockServer.configure({ latencyMs: 0, reactionDelayMs: null });
+    await mockServer.setEnabled(true);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockServer.reset();
+  });
+
+  it('should sign in the demo user and reject a wrong password', async () => {
+    const token = await signIn();
+    const { status, body } = await mockServer.handle({
+      method: 'POST',
+      url: '/auth/login',
+      body: JSON.stringify({ email: MOCK_USER_EMAIL, password: 'wrong' }),
+    });
+
+    expect(token).toBeTruthy();
+    expect(status).toBe(401);
+    expect(body).toMatchObject({ success: false, code: 'AUTH_ERROR' });
+  });
+
+  it('should answer RTK Query requests with the API envelope', async () => {
+    mockApiService.getAccessToken.mockResolvedValue(await signIn());
+
+    const result = await baseQuery('/matches?limit=2', createApi(), {});
+
+    expect(result.data).toMatchObject({ success: true });
+    expect((result.data as any).data).toHaveLength(2);
+  });
+
+  it('should map failures to the same errors as the real API', async () => {
+    mockApiService.getAccessToken.mockResolvedValue(await signIn());
+    const missing = await baseQuery('/matches/unknown', createApi(), {});
+
+    mockApiService.getAccessToken.mockResolvedValue(null);
+    const signedOut = await baseQuery('/users/friends', createApi(), {});
+
+    expect(missing.error).toBeInstanceOf(NotFoundError);
+    expect(signedOut.error).toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should push a join to sockets in the match room', async () => {
+    const match = mockServer.database.matches.find(
+      item =>
+        item.status === 'upcoming' &&
+        item.type === 'public' &&
+        item.currentParticipants < item.maxParticipants &&
+        item.participants.some(participant => participant._id === MOCK_USER_ID)
+    )!;
+    const newcomer = mockServer.database.users.find(
+      user => !match.participants.some(participant => participant._id === user._id)
+    )!;
+    const { socket, received } = await connect(await signIn());
+    socket.emit('join_match', { matchId: match._id });
+
+    const response = await mockServer.handle({
+      method: 'POST',
+      url: `/matches/${match._id}/join`,
+      authorization: `Bearer ${await signIn(newcomer.email)}`,
+    });
+    await flush();
+
+    expect(response.status).toBe(200);
+    expect(received).toContainEqual([
+      'match_participant_joined',
+      expect.objectContaining({ matchId: match._id }),
+    ]);
+  });
+
+  it('should deliver chat messages and typing to the other participants', async () => {
+    const chat = mockServer.database.chats.find(item =>
+      item.participants.some(participant => participant._id === MOCK_USER_ID)
+    )!;
+    const other = chat.participants.find(participant => participant._id !== MOCK_USER_ID)!;
+    const otherUser = mockServer.database.users.find(user => user._id === other._id)!;
+    const sender = await connect(await signIn());
+    const recipient = await connect(await signIn(otherUser.email));
+
+    sender.socket.emit('typing_start', { chatId: chat._id });
+    sender.socket.emit('send_message', { chatId: chat._id, content: 'On my way' });
+    await flush();
+
+    expect(recipient.received).toContainEqual(['typing_start', expect.objectContaining({ userId: MOCK_USER_ID })]);
+    expect(recipient.received).toContainEqual(['new_message', expect.objectContaining({ content: 'On my way' })]);
+  });
+
+  it('should have the other player answer in a direct chat', async () => {
+    mockServer.configure({ reactionDelayMs: 0 });
+    const chat = mockServer.database.chats.find(
+      item => item.type === 'direct' && item.participants.some(participant => participant._id === MOCK_USER_ID)
+    )!;
+    const { socket, received } = await connect(await signIn());
+
+    socket.emit('send_message', { chatId: chat._id, content: 'Still on for tonight?' });
+    for (let step = 0; step < 4; step += 1) {
+      await flush();
+    }
+    mockServer.configure({ reactionDelayMs: null });
+
+    expect(received).toContainEqual(['typing_start', expect.objectContaining({ chatId: chat._id })]);
+    expect(received).toContainEqual([
+      'new_message',
+      expect.objectContaining({ chat: chat._id, sender: expect.not.objectContaining({ _id: MOCK_USER_ID }) }),
+    ]);
+  });
+
+  it('should serve data seeded from the factories', async () => {
+    const user = createMockUser();
+    seedMockServer({
+      users: [user],
+      matches: createMockList(createMockMatch, 3, [{ _id: 'm1' }, { _id: 'm2' }, { _id: 'm3' }]),
+    });
+
+    const { body } = await mockServer.handle({
+      method: 'GET',
+      url: '/api/v1/matches/m2',
+      authorization: `Bearer ${await signIn(user.email)}`,
+    });
+
+    expect(mockServer.database.matches).toHaveLength(3);
+    expect(body).toMatchObject({ success: true, data: { match: { _id: 'm2' } } });
+  });
+
+  it('should refuse sockets without a valid token', async () => {
+    const { socket, received } = await connect('not-a-token');
+
+    expect(socket.connected).toBe(false);
+    expect(received.map(([event]) => event)).toEqual(['connect_error']);
+  });
+});
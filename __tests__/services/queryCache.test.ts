@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
+import { persistReducer, persistStore, REHYDRATE } from 'redux-persist';
+import authReducer, { clearUser, setUser } from '../../src/features/auth/store/authSlice';
+import { matchApi } from '../../src/features/matches/store/matchApi';
+import { queryCacheMiddleware } from '../../src/store/middleware/queryCacheMiddleware';
+import {
+  extractPersistedQueries,
+  persistMigrations,
+  recordQueryUse,
+  restoreApiCache,
+  selectPersistedQueryKeys,
+  toPersistedApiCache,
+} from '../../src/shared/services/queryCache';
+import { createMockMatch, createMockUser } from '../factories/mockData';
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+
+const entry = (endpointName: string, originalArgs: unknown, fetchedAt: number, data: unknown = [{ _id: 'x' }]) => ({
+  status: 'fulfilled',
+  endpointName,
+  originalArgs,
+  data,
+  fulfilledTimeStamp: fetchedAt,
+});
+
+describe('selectPersistedQueryKeys', () => {
+  it('should keep unexpired responses from persisted endpoints only', () => {
+    const kept = selectPersistedQueryKeys(
+      {
+        matchApi: {
+          queries: {
+            'getMatches({"page":1})': entry('getMatches', { page: 1 }, NOW - HOUR),
+            'getMatches({"page":2})': entry('getMatches', { page: 2 }, NOW - HOUR),
+            'getMatch("old")': entry('getMatch', 'old', NOW - 4 * 24 * HOUR),
+            'getWaitlist("m1")': entry('getWaitlist', 'm1', NOW - HOUR),
+            'getMatch("loading")': { status: 'pending', endpointName: 'getMatch', originalArgs: 'loading' },
+          },
+        },
+        chatApi: {
+          queries: {
+            'getChatMessages({"chatId":"c1"})': entry('getChatMessages', { chatId: 'c1' }, NOW - HOUR),
+            'getChatMessages({"before":"m9","chatId":"c1"})': entry(
+              'getChatMessages',
+              { chatId: 'c1', before: 'm9' },
+              NOW - HOUR
+            ),
+          },
+        },
+      },
+      NOW
+    );
+
+    expect([...kept].sort()).toEqual(['chatApi:getChatMessages({"chatId":"c1"})', 'matchApi:getMatches({"page":1})']);
+  });
+
+  it('should drop the least recently used entries once over budget', () => {
+    const data = [{ _id: 'x', title: 'y'.repeat(200) }];
+    const queries = {
+      'getTeam("t1")': entry('getTeam', 't1', NOW - 3 * HOUR, data),
+      'getTeam("t2")': entry('getTeam', 't2', NOW - 2 * HOUR, data),
+      'getTeam("t3")': entry('getTeam', 't3', NOW - HOUR, data),
+    };
+    const budget = 2 * JSON.stringify(queries['getTeam("t1")']).length + 10;
+
+    // Fetched first, but read from the cache most recently
+    recordQueryUse({ type: 'teamApi/executeQuery/rejected', meta: { arg: { queryCacheKey: 'getTeam("t1")' } } }, NOW);
+
+    const kept = selectPersistedQueryKeys({ teamApi: { queries } }, NOW, budget);
+
+    expect([...kept].sort()).toEqual(['teamApi:getTeam("t1")', 'teamApi:getTeam("t3")']);
+  });
+});
+
+describe('toPersistedApiCache', () => {
+  it('should save only kept entries and the tags they provide', () => {
+    const cache = toPersistedApiCache(
+      'venueApi',
+      {
+        queries: {
+          'getBooking("b1")': { ...entry('getBooking', 'b1', NOW), status: 'rejected', error: { message: 'Offline' } },
+          'getBooking("b2")': entry('getBooking', 'b2', NOW),
+        },
+        provided: {
+          tags: { Booking: { b1: ['getBooking("b1")'], b2: ['getBooking("b2")'] } },
+          keys: { 'getBooking("b1")': [{ type: 'Booking', id: 'b1' }], 'getBooking("b2")': [{ type: 'Booking', id: 'b2' }] },
+        },
+      },
+      new Set(['venueApi:getBooking("b1")'])
+    );
+
+    expect(Object.keys(cache.queries)).toEqual(['getBooking("b1")']);
+    expect(cache.queries['getBooking("b1")']).toMatchObject({ status: 'fulfilled', error: undefined });
+    expect(cache.provided).toEqual({
+      tags: { Booking: { b1: ['getBooking("b1")'] } },
+      keys: { 'getBooking("b1")': [{ type: 'Booking', id: 'b1' }] },
+    });
+    expect(cache.mutations).toEqual({});
+  });
+});
+
+describe('restoreApiCache', () => {
+  it('should leave out entries that expired while the app was closed', () => {
+    const saved = {
+      queries: {
+        'getChats({})': entry('getChats', {}, NOW - 4 * 24 * HOUR),
+        'getChat("c1")': entry('getChat', 'c1', NOW - HOUR),
+      },
+      mutations: {},
+      provided: { tags: {}, keys: {} },
+      lastUsedAt: {},
+    };
+
+    expect(Object.keys(restoreApiCache('chatApi', saved, NOW).queries)).toEqual(['getChat("c1")']);
+  });
+});
+
+describe('extractPersistedQueries', () => {
+  it('should hand an API its saved cache on rehydration only', () => {
+    const saved = { queries: {}, mutations: {}, provided: { tags: {}, keys: {} } };
+
+    expect(extractPersistedQueries({ type: REHYDRATE, payload: { matchApi: saved } }, { reducerPath: 'matchApi' })).toBe(
+      saved
+    );
+    expect(extractPersistedQueries({ type: REHYDRATE, payload: undefined }, { reducerPath: 'matchApi' })).toBeUndefined();
+    expect(extractPersistedQueries({ type: 'matchApi/executeQuery/fulfilled' }, { reducerPath: 'matchApi' })).toBeUndefined();
+  });
+});
+
+describe('persistMigrations', () => {
+  it('should start version 2 without any saved API responses', () => {
+    const migrated = persistMigrations[2]({
+      _persist: { version: 1, rehydrated: false },
+      auth: { user: null },
+      matchApi: { queries: {} },
+    } as any) as any;
+
+    expect(migrated.auth).toEqual({ user: null });
+    expect(migrated.matchApi).toBeUndefined();
+  });
+});
+
+describe('queryCacheMiddleware', () => {
+  it('should reset the saved APIs and purge the saved state when the user signs out', async () => {
+    const store = configureStore({
+      reducer: persistReducer(
+        // No timeout: the rehydration timer would outlive the test
+        { key: 'root', storage: AsyncStorage, whitelist: ['auth', matchApi.reducerPath], timeout: 0 },
+        combineReducers({ auth: authReducer, [matchApi.reducerPath]: matchApi.reducer })
+      ),
+      middleware: getDefaultMiddleware =>
+        getDefaultMiddleware({ serializableCheck: false }).concat(matchApi.middleware, queryCacheMiddleware),
+    });
+    const persistor = persistStore(store);
+    store.dispatch(setUser(createMockUser()));
+    await store.dispatch(matchApi.util.upsertQueryData('getMatch', 'm1', createMockMatch({ _id: 'm1' })));
+    expect(matchApi.util.selectCachedArgsForQuery(store.getState(), 'getMatch')).toEqual(['m1']);
+
+    store.dispatch(clearUser());
+
+    expect(matchApi.util.selectCachedArgsForQuery(store.getState(), 'getMatch')).toEqual([]);
+    expect(AsyncStorage.removeItem).toHaveBeenCalledWith('persist:root', expect.any(Function));
+    await persistor.flush();
+    // RTK Query copies its subscriptions into the store 500ms after a cache update
+    await new Promise(resolve => setTimeout(resolve, 500));
+  });
+});
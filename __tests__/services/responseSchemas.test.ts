@@ -0,0 +1,112 @@
+import {
+  bookingSchema,
+  chatSchema,
+  listOf,
+  matchSchema,
+  messageSchema,
+  notificationSchema,
+  parseResponse,
+  teamSchema,
+  tournamentSchema,
+  userSchema,
+  venueSchema,
+} from '../../src/shared/services/responseSchemas';
+import { analyticsService } from '../../src/shared/services/analyticsService';
+import { createSeed } from '../../src/shared/services/mockServer';
+import { InvalidResponseError } from '../../src/core/errors/AppError';
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+const seed = createSeed(new Date('2026-03-02T10:00:00Z'));
+const [match] = seed.matches!;
+
+describe('responseSchemas', () => {
+  const globals = global as unknown as { __DEV__: boolean };
+
+  afterEach(() => {
+    globals.__DEV__ = true;
+    jest.clearAllMocks();
+  });
+
+  it('should accept the mock backend data for every core type', () => {
+    const tables = [
+      [userSchema, seed.users],
+      [matchSchema, seed.matches],
+      [tournamentSchema, seed.tournaments],
+      [teamSchema, seed.teams],
+      [venueSchema, seed.venues],
+      [bookingSchema, seed.bookings],
+      [chatSchema, seed.chats],
+      [messageSchema, seed.messages],
+      [notificationSchema, seed.notifications],
+    ] as const;
+
+    tables.forEach(([schema, rows]) => {
+      expect(rows?.length).toBeGreaterThan(0);
+      expect(parseResponse(listOf(schema), rows)).toEqual(rows);
+    });
+  });
+
+  it('should keep fields the schema does not check', () => {
+    const parsed = parseResponse<typeof match>(matchSchema, match);
+
+    expect(parsed.venue).toEqual(match.venue);
+  });
+
+  describe('in development', () => {
+    it('should fail with a diff of every mismatched field', () => {
+      const broken = { ...match, currentParticipants: '5', status: 'postponed', organizer: undefined };
+
+      expect(() => parseResponse(matchSchema, broken)).toThrow(InvalidResponseError);
+      try {
+        parseResponse(matchSchema, broken);
+      } catch (error) {
+        const { message } = error as InvalidResponseError;
+        expect(message).toContain('Match response does not match its schema');
+        expect(message).toContain('currentParticipants\n    - expected: number\n    + received: "5"');
+        expect(message).toContain('status\n    - expected: one of');
+        expect(message).toContain('organizer\n    - expected: a value\n    + received: undefined');
+      }
+    });
+
+    it('should not coerce values', () => {
+      expect(() => parseResponse(matchSchema, { ...match, maxParticipants: '10' })).toThrow(InvalidResponseError);
+    });
+  });
+
+  describe('in production', () => {
+    beforeEach(() => {
+      globals.__DEV__ = false;
+    });
+
+    it('should coerce values without reporting', () => {
+      const parsed = parseResponse<typeof match>(matchSchema, { ...match, maxParticipants: '10' });
+
+      expect(parsed.maxParticipants).toBe(10);
+      expect(analyticsService.recordError).not.toHaveBeenCalled();
+    });
+
+    it('should report a mismatch and keep the list items that match', () => {
+      const parsed = parseResponse(listOf(matchSchema), [match, { ...match, _id: undefined }]);
+
+      expect(parsed).toEqual([match]);
+      expect(analyticsService.recordError).toHaveBeenCalledWith(
+        expect.any(InvalidResponseError),
+        'API response validation'
+      );
+    });
+
+    it('should pass on an entity that does not match', () => {
+      const parsed = parseResponse<typeof match>(matchSchema, { ...match, title: undefined });
+
+      expect(parsed._id).toBe(match._id);
+      expect(analyticsService.recordError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when there is no entity at all', () => {
+      expect(() => parseResponse(matchSchema, null)).toThrow(InvalidResponseError);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { io } from 'socket.io-client';
+import { socketService } from '../../src/shared/services/socketService';
+import { parseSocketPayload } from '../../src/shared/services/socketEvents';
+
+jest.mock('socket.io-client', () => ({
+  io: jest.fn(),
+}));
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn().mockResolvedValue('token'),
+  },
+}));
+
+type Listener = (payload?: unknown) => void;
+
+const createMockSocket = () => {
+  const listeners = new Map<string, Set<Listener>>();
+  return {
+    connected: true,
+    id: 'socket-1',
+    emit: jest.fn(),
+    on: jest.fn((event: string, listener: Listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    }),
+    off: jest.fn((event: string, listener?: Listener) => {
+      if (listener) listeners.get(event)?.delete(listener);
+      else listeners.delete(event);
+    }),
+    disconnect: jest.fn(),
+    /** Deliver an event from the server */
+    receive: (event: string, payload?: unknown) => {
+      listeners.get(event)?.forEach(listener => listener(payload));
+    },
+  };
+};
+
+describe('SocketService', () => {
+  let socket: ReturnType<typeof createMockSocket>;
+
+  beforeEach(async () => {
+    socket = createMockSocket();
+    (io as jest.Mock).mockReturnValue(socket);
+    (socketService as any).socket = null;
+    (socketService as any).eventHandlers.clear();
+    (socketService as any).listeners.clear();
+    (socketService as any).rooms.clear();
+    await socketService.connect();
+  });
+
+  describe('events', () => {
+    const update = { matchId: 'm1', userId: 'u1' };
+
+    it('should deliver valid payloads to every handler', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      socketService.on('match_participant_left', first);
+      socketService.on('match_participant_left', second);
+
+      socket.receive('match_participant_left', update);
+
+      expect(first).toHaveBeenCalledWith(update);
+      expect(second).toHaveBeenCalledWith(update);
+      expect(socket.on.mock.calls.filter(([event]) => event === 'match_participant_left')).toHaveLength(1);
+    });
+
+    it('should drop payloads that do not match the event schema', () => {
+      const handler = jest.fn();
+      socketService.on('match_participant_left', handler);
+
+      socket.receive('match_participant_left', { matchId: 'm1' });
+      socket.receive('match_participant_left', { matchId: 42, userId: 'u1' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should keep fields the schema does not mention', () => {
+      const payload = { ...update, reason: 'left' };
+      expect(parseSocketPayload('match_participant_left', payload)).toBe(payload);
+    });
+
+    it('should stop listening once the last handler is removed', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      socketService.on('match_participant_left', first);
+      socketService.on('match_participant_left', second);
+
+      socketService.off('match_participant_left', first);
+      socket.receive('match_participant_left', update);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(socket.off).not.toHaveBeenCalledWith('match_participant_left', expect.anything());
+
+      socketService.off('match_participant_left', second);
+      expect(socket.off).toHaveBeenCalledWith('match_participant_left', expect.any(Function));
+    });
+  });
+
+  describe('rooms', () => {
+    it('should only leave a room when its last subscriber leaves', () => {
+      socketService.joinMatch('m1');
+      socketService.joinMatch('m1');
+      expect(socket.emit).toHaveBeenCalledTimes(1);
+      expect(socket.emit).toHaveBeenCalledWith('join_match', { matchId: 'm1' });
+
+      socketService.leaveMatch('m1');
+      expect(socket.emit).not.toHaveBeenCalledWith('leave_match', expect.anything());
+
+      socketService.leaveMatch('m1');
+      expect(socket.emit).toHaveBeenCalledWith('leave_match', { matchId: 'm1' });
+
+      socketService.leaveMatch('m1');
+      expect(socket.emit).toHaveBeenCalledTimes(2);
+    });
+
+    it('should rejoin rooms when the connection is restored', () => {
+      socketService.joinTournament('t1');
+      socketService.joinChat('c1');
+      socket.emit.mockClear();
+
+      socket.receive('connect');
+
+      expect(socket.emit).toHaveBeenCalledWith('join_tournament', { tournamentId: 't1' });
+      expect(socket.emit).toHaveBeenCalledWith('join_chat', { chatId: 'c1' });
+    });
+  });
+});
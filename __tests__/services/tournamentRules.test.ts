@@ -0,0 +1,333 @@
+import { BusinessError } from '@core';
+import {
+  assertCanCreate,
+  assertCanJoin,
+  assertCanLeave,
+  assertCanPairRound,
+  assertCanRegisterTeam,
+  assertCanStart,
+  getMinimumParticipants,
+  isEntryFeeRefundable,
+  TournamentRuleError,
+  TournamentRuleReason,
+} from '@features/tournaments/services/tournamentRules';
+import { Tournament } from '@features/tournaments/types';
+import { generateBracket } from '@features/tournaments/utils';
+import { Team } from '@features/teams/types';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const createTournament = (overrides: Partial<Tournament> = {}): Tournament => ({
+  _id: 't1',
+  name: 'Summer Cup',
+  sport: 'Tennis',
+  type: 'elimination',
+  format: 'single_elimination',
+  maxParticipants: 8,
+  currentParticipants: 0,
+  participants: [],
+  status: 'registration_open',
+  registrationDeadline: '2025-06-10T00:00:00Z',
+  startDate: '2025-06-12',
+  endDate: '2025-06-14',
+  organizer: { _id: 'org', firstName: 'Olive', lastName: 'Organizer' },
+  createdAt: '2025-05-01T00:00:00Z',
+  ...overrides,
+});
+
+const createParticipants = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    _id: `p${index + 1}`,
+    firstName: 'Player',
+    lastName: `${index + 1}`,
+  }));
+
+const createTeam = (memberIds: string[]): Team => {
+  const profile = (id: string) => ({ firstName: 'Member', lastName: id, username: id });
+  return {
+    _id: 'team1',
+    name: 'Net Ninjas',
+    sport: 'Tennis',
+    captain: { _id: memberIds[0], profile: profile(memberIds[0]) },
+    members: memberIds.map((id, index) => ({
+      user: { _id: id, profile: profile(id) },
+      role: index === 0 ? 'captain' : 'member',
+      joinedAt: '2025-01-01T00:00:00Z',
+    })),
+    memberCount: memberIds.length,
+    maxMembers: 8,
+    isFull: false,
+    isActive: true,
+    createdAt: '2025-01-01T00:00:00Z',
+  };
+};
+
+const getReason = (action: () => void): TournamentRuleReason | undefined => {
+  try {
+    action();
+  } catch (error) {
+    return error instanceof TournamentRuleError ? error.reason : undefined;
+  }
+  return undefined;
+};
+
+describe('tournamentRules', () => {
+  describe('TournamentRuleError', () => {
+    it('should be a BusinessError carrying its reason', () => {
+      const error = new TournamentRuleError('TOURNAMENT_FULL', 'Tournament is full');
+
+      expect(error).toBeInstanceOf(BusinessError);
+      expect(error.reason).toBe('TOURNAMENT_FULL');
+      expect(error.details).toEqual({ reason: 'TOURNAMENT_FULL' });
+    });
+  });
+
+  describe('getMinimumParticipants', () => {
+    it('should read the minimum for each format', () => {
+      expect(getMinimumParticipants('single_elimination')).toBe(4);
+      expect(getMinimumParticipants('round_robin')).toBe(3);
+    });
+  });
+
+  describe('assertCanCreate', () => {
+    it('should reject short names and capacities below the format minimum', () => {
+      expect(getReason(() => assertCanCreate({ name: 'ab' }))).toBe('INVALID_NAME');
+      expect(
+        getReason(() =>
+          assertCanCreate({
+            name: 'League',
+            format: 'round_robin',
+            maxParticipants: 2,
+          })
+        )
+      ).toBe('INVALID_CAPACITY');
+      expect(() =>
+        assertCanCreate({
+          name: 'League',
+          format: 'round_robin',
+          maxParticipants: 3,
+        })
+      ).not.toThrow();
+    });
+  });
+
+  describe('assertCanJoin', () => {
+    it('should allow joining an open tournament', () => {
+      expect(() => assertCanJoin(createTournament(), { userId: 'me' }, NOW)).not.toThrow();
+    });
+
+    it('should reject when registration is closed or past the deadline', () => {
+      expect(
+        getReason(() => assertCanJoin(createTournament({ status: 'in_progress' }), {}, NOW))
+      ).toBe('REGISTRATION_CLOSED');
+      expect(
+        getReason(() =>
+          assertCanJoin(createTournament({ registrationDeadline: '2025-05-31T00:00:00Z' }), {}, NOW)
+        )
+      ).toBe('REGISTRATION_DEADLINE_PASSED');
+    });
+
+    it('should reject full tournaments and duplicate registrations', () => {
+      const tournament = createTournament({
+        maxParticipants: 4,
+        participants: createParticipants(4),
+      });
+
+      expect(getReason(() => assertCanJoin(tournament, { userId: 'me' }, NOW))).toBe(
+        'TOURNAMENT_FULL'
+      );
+      expect(getReason(() => assertCanJoin(tournament, { userId: 'p2' }, NOW))).toBe(
+        'ALREADY_REGISTERED'
+      );
+    });
+
+    it('should require the entry fee to be paid', () => {
+      const tournament = createTournament({
+        entryFee: { amount: 1500, currency: 'usd' },
+      });
+
+      expect(getReason(() => assertCanJoin(tournament, {}, NOW))).toBe('ENTRY_FEE_REQUIRED');
+      expect(() => assertCanJoin(tournament, { entryFeePaymentId: 'pi_123' }, NOW)).not.toThrow();
+    });
+  });
+
+  describe('assertCanStart', () => {
+    it('should require the minimum participants for the format', () => {
+      expect(
+        getReason(() => assertCanStart(createTournament({ participants: createParticipants(3) })))
+      ).toBe('NOT_ENOUGH_PARTICIPANTS');
+      expect(() =>
+        assertCanStart(
+          createTournament({
+            format: 'round_robin',
+            participants: createParticipants(3),
+          })
+        )
+      ).not.toThrow();
+    });
+
+    it('should not start a tournament twice', () => {
+      expect(
+        getReason(() =>
+          assertCanStart(
+            createTournament({
+              status: 'in_progress',
+              participants: createParticipants(8),
+            })
+          )
+        )
+      ).toBe('ALREADY_STARTED');
+    });
+  });
+
+  describe('assertCanRegisterTeam', () => {
+    const team = createTeam(['cap', 'm1', 'm2', 'm3']);
+    const teamTournament = createTournament({ entryType: 'team', rosterSize: 2 });
+
+    it('should accept a captain entering a roster of team members', () => {
+      expect(() =>
+        assertCanRegisterTeam(teamTournament, team, ['cap', 'm1'], { userId: 'cap' }, NOW)
+      ).not.toThrow();
+    });
+
+    it('should keep individual and team tournaments apart', () => {
+      expect(getReason(() => assertCanJoin(teamTournament, { userId: 'me' }, NOW))).toBe(
+        'TEAM_ENTRIES_ONLY'
+      );
+      expect(
+        getReason(() => assertCanRegisterTeam(createTournament(), team, ['cap', 'm1'], {}, NOW))
+      ).toBe('INDIVIDUAL_ENTRIES_ONLY');
+    });
+
+    it('should only let the captain enter the team', () => {
+      expect(
+        getReason(() =>
+          assertCanRegisterTeam(teamTournament, team, ['cap', 'm1'], { userId: 'm1' }, NOW)
+        )
+      ).toBe('NOT_TEAM_CAPTAIN');
+    });
+
+    it('should validate the roster against members and roster size', () => {
+      expect(
+        getReason(() => assertCanRegisterTeam(teamTournament, team, ['cap', 'stranger'], {}, NOW))
+      ).toBe('INVALID_ROSTER');
+      expect(
+        getReason(() => assertCanRegisterTeam(teamTournament, team, ['cap', 'm1', 'm2'], {}, NOW))
+      ).toBe('INVALID_ROSTER');
+    });
+
+    it('should reject players already entered with another team', () => {
+      const tournament = createTournament({
+        entryType: 'team',
+        participants: [
+          {
+            _id: 'team2',
+            firstName: '',
+            lastName: '',
+            team: { _id: 'team2', name: 'Rivals', captainId: 'x', roster: ['x', 'm2'] },
+          },
+        ],
+      });
+
+      expect(getReason(() => assertCanRegisterTeam(tournament, team, ['cap', 'm2'], {}, NOW))).toBe(
+        'PLAYER_ALREADY_ENTERED'
+      );
+    });
+  });
+
+  describe('assertCanCreate prize distribution', () => {
+    it('should reject percentages above 100 in total or below zero', () => {
+      const prize = (distribution: { first?: number; second?: number; third?: number }) => ({
+        total: 10000,
+        currency: 'USD',
+        distribution,
+      });
+
+      expect(
+        getReason(() => assertCanCreate({ name: 'Cup', prize: prize({ first: 70, second: 40 }) }))
+      ).toBe('INVALID_PRIZE_DISTRIBUTION');
+      expect(
+        getReason(() => assertCanCreate({ name: 'Cup', prize: prize({ first: 110, second: -10 }) }))
+      ).toBe('INVALID_PRIZE_DISTRIBUTION');
+      expect(() =>
+        assertCanCreate({ name: 'Cup', prize: prize({ first: 60, second: 30, third: 10 }) })
+      ).not.toThrow();
+    });
+  });
+
+  describe('leaving', () => {
+    const paidTournament = createTournament({
+      entryFee: { amount: 1500, currency: 'USD' },
+      participants: [{ _id: 'p1', firstName: 'Player', lastName: '1', entryFeePaymentId: 'pi_1' }],
+    });
+
+    it('should only let registered entries leave before the start', () => {
+      expect(getReason(() => assertCanLeave(paidTournament, 'p2'))).toBe('NOT_REGISTERED');
+      expect(
+        getReason(() => assertCanLeave({ ...paidTournament, status: 'in_progress' }, 'p1'))
+      ).toBe('ALREADY_STARTED');
+      expect(assertCanLeave(paidTournament, 'p1')._id).toBe('p1');
+    });
+
+    it('should only let the captain withdraw a team', () => {
+      const tournament = createTournament({
+        entryType: 'team',
+        participants: [
+          {
+            _id: 'team1',
+            firstName: '',
+            lastName: '',
+            team: { _id: 'team1', name: 'Net Ninjas', captainId: 'cap', roster: ['m1', 'm2'] },
+          },
+        ],
+      });
+
+      expect(getReason(() => assertCanLeave(tournament, 'm1'))).toBe('NOT_TEAM_CAPTAIN');
+      expect(assertCanLeave(tournament, 'cap')._id).toBe('team1');
+    });
+
+    it('should refund the entry fee only before the registration deadline', () => {
+      const [entry] = paidTournament.participants;
+
+      expect(isEntryFeeRefundable(paidTournament, entry, NOW)).toBe(true);
+      expect(isEntryFeeRefundable(paidTournament, entry, new Date('2025-06-11T00:00:00Z'))).toBe(false);
+      expect(isEntryFeeRefundable(paidTournament, { ...entry, entryFeePaymentId: undefined }, NOW)).toBe(
+        false
+      );
+      expect(isEntryFeeRefundable(createTournament(), entry, NOW)).toBe(false);
+    });
+  });
+
+  describe('assertCanPairRound', () => {
+    const participants = createParticipants(4);
+    const firstRound = generateBracket('swiss', participants);
+    const playedRound = {
+      ...firstRound,
+      rounds: firstRound.rounds.map(round => ({
+        ...round,
+        matches: round.matches.map(match => ({ ...match, winner: match.player1, status: 'completed' as const })),
+      })),
+    };
+    const swissTournament = createTournament({ format: 'swiss', status: 'in_progress', participants, rounds: 2 });
+
+    it('should pair the next round once the current one is finished', () => {
+      expect(() => assertCanPairRound(swissTournament, playedRound)).not.toThrow();
+      expect(getReason(() => assertCanPairRound(swissTournament, firstRound))).toBe('ROUND_IN_PROGRESS');
+    });
+
+    it('should stop at the tournament round count', () => {
+      const finished = { ...playedRound, rounds: [...playedRound.rounds, ...playedRound.rounds] };
+
+      expect(getReason(() => assertCanPairRound(swissTournament, finished))).toBe('ALL_ROUNDS_PLAYED');
+    });
+
+    it('should only pair Swiss tournaments in progress', () => {
+      expect(
+        getReason(() => assertCanPairRound({ ...swissTournament, format: 'round_robin' }, playedRound))
+      ).toBe('NOT_SWISS_FORMAT');
+      expect(getReason(() => assertCanPairRound({ ...swissTournament, status: 'completed' }, playedRound))).toBe(
+        'NOT_IN_PROGRESS'
+      );
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { store } from '../../src/store';
+import { apiService } from '../../src/shared/services/api';
+import { MOCK_PASSWORD, mockServer } from '../../src/shared/services/mockServer';
+import { tournamentApi } from '../../src/features/tournaments/store/tournamentApi';
+import { tournamentService } from '../../src/features/tournaments/services/TournamentService';
+import { NotFoundError } from '../../src/core/errors/AppError';
+import { paymentApi } from '../../src/features/profile/store/paymentApi';
+import { TournamentRuleError } from '../../src/features/tournaments/services/tournamentRules';
+import { generateBracket } from '../../src/features/tournaments/utils';
+import { createMockTournament, createMockUser } from '../factories/mockData';
+import { seedMockServer } from '../factories/mockServer';
+
+jest.mock('../../src/shared/services/api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+    clearTokens: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/store', () => ({
+  store: require('../factories/store').createTestStore(
+    require('../../src/features/tournaments/store/tournamentApi').tournamentApi,
+    require('../../src/features/profile/store/paymentApi').paymentApi
+  ),
+}));
+
+jest.mock('../../src/shared/services/analyticsService', () => ({
+  analyticsService: { recordError: jest.fn() },
+}));
+
+const mockApiService = apiService as jest.Mocked<typeof apiService>;
+
+const player = createMockUser({ _id: 'player-1', email: 'player@example.com' });
+const organizer = createMockUser({ _id: 'organizer-1', email: 'organizer@example.com' });
+
+const swissEntrants = ['a', 'b', 'c', 'd'].map(id => ({ _id: `swiss-${id}`, firstName: 'Swiss', lastName: id }));
+const firstSwissRound = generateBracket('swiss', swissEntrants);
+
+const signIn = async (email: string) => {
+  const { body } = await mockServer.handle({ method: 'POST', url: '/auth/login', body: { email, password: MOCK_PASSWORD } });
+  return (body as any).data.accessToken as string;
+};
+
+/** Requests the service sent, as `METHOD /path` */
+const sentRequests = (handle: jest.SpyInstance) =>
+  handle.mock.calls.map(([{ method, url }]) => `${method.toUpperCase()} ${new URL(url).pathname}`);
+
+describe('TournamentService', () => {
+  let handle: jest.SpyInstance;
+
+  beforeAll(async () => {
+    await mockServer.setEnabled(true);
+  });
+
+  beforeEach(async () => {
+    seedMockServer({
+      users: [player, organizer],
+      tournaments: [
+        createMockTournament({
+          _id: 'open',
+          organizer: { _id: organizer._id },
+          registrationDeadline: '2099-01-01T00:00:00Z',
+        }),
+        createMockTournament({
+          _id: 'full',
+          organizer: { _id: organizer._id },
+          registrationDeadline: '2099-01-01T00:00:00Z',
+          maxParticipants: 2,
+          currentParticipants: 2,
+          participants: [
+            { _id: 'entrant-1', firstName: 'Sam', lastName: 'Entrant' },
+            { _id: 'entrant-2', firstName: 'Kim', lastName: 'Entrant' },
+          ],
+        }),
+        createMockTournament({
+          _id: 'paid',
+          organizer: { _id: organizer._id },
+          registrationDeadline: '2099-01-01T00:00:00Z',
+          entryFee: { amount: 1500, currency: 'usd' },
+          participants: [
+            { _id: player._id, firstName: 'Pat', lastName: 'Player', entryFeePaymentId: 'pi_unknown' },
+          ],
+        }),
+        createMockTournament({
+          _id: 'refundable',
+          organizer: { _id: organizer._id },
+          registrationDeadline: '2099-01-01T00:00:00Z',
+          entryFee: { amount: 1500, currency: 'usd' },
+          participants: [{ _id: player._id, firstName: 'Pat', lastName: 'Player', entryFeePaymentId: 'pi_paid' }],
+        }),
+        createMockTournament({
+          _id: 'swiss',
+          organizer: { _id: organizer._id },
+          format: 'swiss',
+          status: 'in_progress',
+          rounds: 2,
+          participants: swissEntrants,
+          bracket: {
+            ...firstSwissRound,
+            rounds: firstSwissRound.rounds.map(round => ({
+              ...round,
+              matches: round.matches.map(match => ({ ...match, winner: match.player1, status: 'completed' as const })),
+            })),
+          },
+        }),
+      ],
+      payments: [
+        {
+          _id: 'payment-1',
+          user: player._id,
+          amount: 1500,
+          currency: 'usd',
+          status: 'succeeded',
+          paymentMethod: 'card',
+          tournament: { _id: 'refundable', name: 'Refundable' },
+          stripePaymentIntentId: 'pi_paid',
+          createdAt: '2026-01-01T10:00:00Z',
+        },
+      ],
+    });
+    mockApiService.getAccessToken.mockResolvedValue(await signIn(player.email));
+    handle = jest.spyOn(mockServer, 'handle');
+  });
+
+  afterEach(() => {
+    handle.mockRestore();
+  });
+
+  afterAll(async () => {
+    store.dispatch(tournamentApi.util.resetApiState());
+    store.dispatch(paymentApi.util.resetApiState());
+    // RTK Query copies its subscriptions into the store 500ms after a request
+    await new Promise(resolve => setTimeout(resolve, 500));
+  });
+
+  describe('joinTournament', () => {
+    it('should send the join for a tournament the rules accept', async () => {
+      await tournamentService.joinTournament('open', { userId: player._id });
+
+      expect(sentRequests(handle)).toEqual(['GET /api/v1/tournaments/open', 'POST /api/v1/tournaments/open/join']);
+      expect(mockServer.database.tournaments[0].participants).toContainEqual(
+        expect.objectContaining({ _id: player._id })
+      );
+    });
+
+    it('should never reach the API with a join the rules reject', async () => {
+      await expect(tournamentService.joinTournament('full', { userId: player._id })).rejects.toMatchObject({
+        reason: 'TOURNAMENT_FULL',
+      });
+
+      expect(sentRequests(handle)).toEqual(['GET /api/v1/tournaments/full']);
+    });
+
+    it('should check the latest tournament rather than a cached one', async () => {
+      await tournamentService.joinTournament('open', { userId: player._id });
+
+      await expect(tournamentService.joinTournament('open', { userId: player._id })).rejects.toBeInstanceOf(
+        TournamentRuleError
+      );
+      expect(sentRequests(handle)).toHaveLength(3);
+    });
+  });
+
+  describe('leaveTournament', () => {
+    it('should withdraw the entry and report a refund the server turns down', async () => {
+      const result = await tournamentService.leaveTournament('paid', player._id);
+
+      expect(result).toEqual({ refunded: false, refundError: expect.any(NotFoundError) });
+      expect(sentRequests(handle)).toEqual([
+        'GET /api/v1/tournaments/paid',
+        'POST /api/v1/tournaments/paid/leave',
+        'POST /api/v1/payments/refund',
+      ]);
+      expect(mockServer.database.tournaments[2].participants).toEqual([]);
+    });
+
+    it('should refund an entry fee by the payment intent it was paid with', async () => {
+      const result = await tournamentService.leaveTournament('refundable', player._id);
+
+      expect(result).toEqual({ refunded: true });
+      expect(mockServer.database.payments[0].status).toBe('refunded');
+    });
+  });
+
+  describe('pairNextRound', () => {
+    beforeEach(async () => {
+      mockApiService.getAccessToken.mockResolvedValue(await signIn(organizer.email));
+      handle.mockClear();
+    });
+
+    it('should pair each Swiss round up to the tournament round count', async () => {
+      const bracket = await tournamentService.pairNextRound('swiss');
+
+      expect(bracket.rounds).toHaveLength(2);
+      expect(sentRequests(handle)).toEqual(['GET /api/v1/tournaments/swiss', 'POST /api/v1/tournaments/swiss/rounds']);
+
+      await expect(tournamentService.pairNextRound('swiss')).rejects.toMatchObject({ reason: 'ALL_ROUNDS_PLAYED' });
+      expect(sentRequests(handle)).toHaveLength(3);
+    });
+  });
+});
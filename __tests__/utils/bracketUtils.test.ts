@@ -0,0 +1,277 @@
+import {
+  generateBracket,
+  recordMatchResult,
+  getSeedOrder,
+  sortBySeed,
+  getPlayableMatches,
+  getBracketChampion,
+  getBracketPlacings,
+  getParticipantPath,
+  validateBracket,
+} from '@features/tournaments/utils/bracketUtils';
+import { TournamentBracket, TournamentParticipant } from '@features/tournaments/types';
+
+const createParticipants = (count: number): TournamentParticipant[] =>
+  Array.from({ length: count }, (_, index) => ({
+    _id: `p${index + 1}`,
+    firstName: `Player`,
+    lastName: `${index + 1}`,
+    seed: index + 1,
+  }));
+
+const findMatch = (bracket: TournamentBracket, matchId: string) =>
+  bracket.rounds.flatMap(round => round.matches).find(match => match.matchId === matchId)!;
+
+/**
+ * Play every playable match, letting the higher seed (lower id number) win
+ */
+const playOut = (bracket: TournamentBracket): TournamentBracket => {
+  let current = bracket;
+  let playable = getPlayableMatches(current);
+  while (playable.length > 0) {
+    const match = playable[0];
+    const seed1 = Number(match.player1!.slice(1));
+    const seed2 = Number(match.player2!.slice(1));
+    current = recordMatchResult(
+      current,
+      match.matchId,
+      seed1 < seed2 ? { player1: 2, player2: 0 } : { player1: 0, player2: 2 }
+    );
+    playable = getPlayableMatches(current);
+  }
+  return current;
+};
+
+describe('bracketUtils', () => {
+  describe('getSeedOrder', () => {
+    it('should keep top seeds apart', () => {
+      expect(getSeedOrder(2)).toEqual([1, 2]);
+      expect(getSeedOrder(4)).toEqual([1, 4, 2, 3]);
+      expect(getSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+  });
+
+  describe('sortBySeed', () => {
+    it('should put seeded participants first, then registration order', () => {
+      const participants: TournamentParticipant[] = [
+        { _id: 'late', firstName: 'A', lastName: 'A', joinedAt: '2025-01-03T00:00:00Z' },
+        { _id: 'seed2', firstName: 'B', lastName: 'B', seed: 2 },
+        { _id: 'early', firstName: 'C', lastName: 'C', joinedAt: '2025-01-01T00:00:00Z' },
+        { _id: 'seed1', firstName: 'D', lastName: 'D', seed: 1 },
+      ];
+      expect(sortBySeed(participants).map(p => p._id)).toEqual(['seed1', 'seed2', 'early', 'late']);
+    });
+  });
+
+  describe('single elimination', () => {
+    it('should build a full bracket for a power of two', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(8));
+      expect(bracket.rounds.map(round => round.matches.length)).toEqual([4, 2, 1]);
+      expect(bracket.rounds[2].name).toBe('Final');
+      expect(findMatch(bracket, 'wb-r1-m1')).toMatchObject({ player1: 'p1', player2: 'p8' });
+      expect(validateBracket(bracket).isValid).toBe(true);
+    });
+
+    it('should give byes to the top seeds', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(6));
+      const firstRound = bracket.rounds[0].matches;
+      const byes = firstRound.filter(match => match.isBye);
+
+      expect(byes.map(match => match.winner)).toEqual(['p1', 'p2']);
+      expect(findMatch(bracket, 'wb-r2-m1').player1).toBe('p1');
+      expect(findMatch(bracket, 'wb-r2-m2').player1).toBe('p2');
+      expect(getPlayableMatches(bracket)).toHaveLength(2);
+    });
+
+    it('should advance winners and crown a champion', () => {
+      let bracket = generateBracket('single_elimination', createParticipants(4));
+      bracket = recordMatchResult(bracket, 'wb-r1-m1', { player1: 3, player2: 1 });
+      bracket = recordMatchResult(bracket, 'wb-r1-m2', { player1: 0, player2: 2 });
+
+      expect(findMatch(bracket, 'wb-r2-m1')).toMatchObject({ player1: 'p1', player2: 'p3' });
+
+      bracket = recordMatchResult(bracket, 'wb-r2-m1', { player1: 1, player2: 4 });
+      expect(getBracketChampion(bracket)).toBe('p3');
+    });
+
+    it('should not mutate the input bracket', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(4));
+      recordMatchResult(bracket, 'wb-r1-m1', { player1: 3, player2: 1 });
+      expect(findMatch(bracket, 'wb-r1-m1').status).toBe('scheduled');
+    });
+
+    it('should reject draws and unknown winners', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(4));
+      expect(() => recordMatchResult(bracket, 'wb-r1-m1', { player1: 1, player2: 1 })).toThrow(
+        'Elimination matches need a winner'
+      );
+      expect(() => recordMatchResult(bracket, 'wb-r1-m1', { player1: 1, player2: 1 }, 'p2')).toThrow(
+        'Winner must be one of the match players'
+      );
+      expect(() => recordMatchResult(bracket, 'wb-r2-m1', { player1: 1, player2: 0 })).toThrow(
+        'Both players must be known before recording a result'
+      );
+    });
+
+    it('should allow correcting a result until the next match is played', () => {
+      let bracket = generateBracket('single_elimination', createParticipants(4));
+      bracket = recordMatchResult(bracket, 'wb-r1-m1', { player1: 3, player2: 1 });
+      bracket = recordMatchResult(bracket, 'wb-r1-m1', { player1: 1, player2: 3 });
+      expect(findMatch(bracket, 'wb-r2-m1').player1).toBe('p4');
+
+      bracket = recordMatchResult(bracket, 'wb-r1-m2', { player1: 2, player2: 0 });
+      bracket = recordMatchResult(bracket, 'wb-r2-m1', { player1: 2, player2: 0 });
+      expect(() => recordMatchResult(bracket, 'wb-r1-m1', { player1: 3, player2: 1 })).toThrow(
+        'Cannot change a result once the following match has been played'
+      );
+    });
+
+    it('should require at least two participants', () => {
+      expect(() => generateBracket('single_elimination', createParticipants(1))).toThrow();
+    });
+  });
+
+  describe('double elimination', () => {
+    it('should build winners, losers and grand final rounds', () => {
+      const bracket = generateBracket('double_elimination', createParticipants(8));
+      const sides = bracket.rounds.map(round => `${round.side}:${round.matches.length}`);
+
+      expect(sides).toEqual([
+        'winners:4',
+        'winners:2',
+        'winners:1',
+        'losers:2',
+        'losers:2',
+        'losers:1',
+        'losers:1',
+        'grand_final:1',
+        'grand_final:1',
+      ]);
+      expect(validateBracket(bracket).isValid).toBe(true);
+    });
+
+    it('should drop winners bracket losers into the losers bracket', () => {
+      let bracket = generateBracket('double_elimination', createParticipants(4));
+      bracket = recordMatchResult(bracket, 'wb-r1-m1', { player1: 2, player2: 0 });
+      bracket = recordMatchResult(bracket, 'wb-r1-m2', { player1: 2, player2: 0 });
+
+      expect(findMatch(bracket, 'lb-r1-m1')).toMatchObject({ player1: 'p4', player2: 'p3' });
+
+      bracket = recordMatchResult(bracket, 'wb-r2-m1', { player1: 2, player2: 0 });
+      expect(findMatch(bracket, 'lb-r2-m1').player2).toBe('p2');
+    });
+
+    it('should skip the reset when the winners bracket champion wins the grand final', () => {
+      const bracket = playOut(generateBracket('double_elimination', createParticipants(5)));
+      const reset = findMatch(bracket, 'gf-r2-m1');
+
+      expect(reset.isBye).toBe(true);
+      expect(getBracketChampion(bracket)).toBe('p1');
+    });
+
+    it('should play the reset when the losers bracket champion wins the grand final', () => {
+      let bracket = generateBracket('double_elimination', createParticipants(4));
+      bracket = recordMatchResult(bracket, 'wb-r1-m1', { player1: 2, player2: 0 });
+      bracket = recordMatchResult(bracket, 'wb-r1-m2', { player1: 2, player2: 0 });
+      bracket = recordMatchResult(bracket, 'wb-r2-m1', { player1: 2, player2: 0 });
+      bracket = recordMatchResult(bracket, 'lb-r1-m1', { player1: 0, player2: 2 });
+      bracket = recordMatchResult(bracket, 'lb-r2-m1', { player1: 0, player2: 2 });
+      bracket = recordMatchResult(bracket, 'gf-r1-m1', { player1: 0, player2: 2 });
+
+      expect(findMatch(bracket, 'gf-r2-m1')).toMatchObject({ player1: 'p2', player2: 'p1' });
+      expect(getBracketChampion(bracket)).toBeUndefined();
+
+      bracket = recordMatchResult(bracket, 'gf-r2-m1', { player1: 3, player2: 1 });
+      expect(getBracketChampion(bracket)).toBe('p2');
+    });
+
+    it('should resolve byes that reach the losers bracket', () => {
+      const bracket = playOut(generateBracket('double_elimination', createParticipants(3)));
+      expect(validateBracket(bracket).isValid).toBe(true);
+      expect(getBracketChampion(bracket)).toBe('p1');
+    });
+  });
+
+  describe('round robin', () => {
+    it('should pair every participant exactly once', () => {
+      const bracket = generateBracket('round_robin', createParticipants(5));
+      const pairings = bracket.rounds
+        .flatMap(round => round.matches)
+        .map(match => [match.player1, match.player2].sort().join('-'));
+
+      expect(bracket.rounds).toHaveLength(5);
+      expect(pairings).toHaveLength(10);
+      expect(new Set(pairings).size).toBe(10);
+    });
+
+    it('should allow draws', () => {
+      const bracket = generateBracket('round_robin', createParticipants(4));
+      const matchId = bracket.rounds[0].matches[0].matchId;
+      const result = recordMatchResult(bracket, matchId, { player1: 1, player2: 1 });
+
+      expect(findMatch(result, matchId)).toMatchObject({ status: 'completed', winner: undefined });
+    });
+  });
+
+  describe('getBracketPlacings', () => {
+    it('should have no placings before the final is played', () => {
+      expect(getBracketPlacings(generateBracket('single_elimination', createParticipants(4)))).toEqual([]);
+    });
+
+    it('should share third place between the losing semi-finalists', () => {
+      const bracket = playOut(generateBracket('single_elimination', createParticipants(8)));
+      expect(getBracketPlacings(bracket)).toEqual([['p1'], ['p2'], ['p4', 'p3']]);
+    });
+
+    it('should give third place to the losers bracket finalist', () => {
+      const bracket = playOut(generateBracket('double_elimination', createParticipants(5)));
+      expect(getBracketPlacings(bracket)).toEqual([['p1'], ['p2'], ['p3']]);
+    });
+  });
+
+  describe('getParticipantPath', () => {
+    it('should list the matches a participant reached', () => {
+      let bracket = generateBracket('single_elimination', createParticipants(4));
+      bracket = recordMatchResult(bracket, 'wb-r1-m2', { player1: 0, player2: 2 });
+
+      expect(getParticipantPath(bracket, 'p3')).toEqual(['wb-r1-m2', 'wb-r2-m1']);
+      expect(getParticipantPath(bracket, 'p2')).toEqual(['wb-r1-m2']);
+    });
+  });
+
+  describe('validateBracket', () => {
+    it('should report inconsistent results', () => {
+      const bracket: TournamentBracket = {
+        format: 'single_elimination',
+        rounds: [
+          {
+            round: 1,
+            matches: [
+              {
+                matchId: 'm1',
+                player1: 'a',
+                player2: 'b',
+                winner: 'a',
+                status: 'completed',
+                score: { player1: 0, player2: 2 },
+                nextMatchId: 'missing',
+              },
+              { matchId: 'm2', player1: 'a', player2: 'c', status: 'completed' },
+            ],
+          },
+        ],
+      };
+
+      const result = validateBracket(bracket);
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          'm1: next match missing does not exist',
+          'm1: winner has the lower score',
+          'Round 1: participant a is drawn more than once',
+          'm2: completed without a winner',
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  encodeCheckInCode,
+  getAbsentParticipantIds,
+  getCheckInWindow,
+  getReliabilityScore,
+  getVenueCoordinates,
+  isCheckedIn,
+  isCheckInOpen,
+  parseCheckInCode,
+} from '@features/matches/utils/checkInUtils';
+import { Match } from '@features/matches/types';
+
+const createMatch = (overrides: Partial<Match> = {}): Match =>
+  ({
+    _id: 'm1',
+    schedule: { date: '2025-07-01T00:00:00.000Z', time: '19:00', timezone: 'UTC', duration: 90 },
+    participants: [
+      { _id: 'a', firstName: 'A', lastName: 'A', username: 'a' },
+      { _id: 'b', firstName: 'B', lastName: 'B', username: 'b' },
+      { _id: 'c', firstName: 'C', lastName: 'C', username: 'c' },
+    ],
+    attendance: [
+      { userId: 'a', status: 'checked_in', method: 'qr', checkedInAt: '2025-07-01T18:50:00' },
+      { userId: 'b', status: 'no_show' },
+    ],
+    ...overrides,
+  }) as Match;
+
+describe('checkInUtils', () => {
+  describe('check-in window', () => {
+    it('should open 30 minutes before the start and close 30 minutes after', () => {
+      const { opensAt, closesAt } = getCheckInWindow(createMatch());
+
+      expect(opensAt).toEqual(new Date('2025-07-01T18:30'));
+      expect(closesAt).toEqual(new Date('2025-07-01T19:30'));
+    });
+
+    it('should only be open inside the window', () => {
+      const match = createMatch();
+
+      expect(isCheckInOpen(match, new Date('2025-07-01T18:29'))).toBe(false);
+      expect(isCheckInOpen(match, new Date('2025-07-01T18:30'))).toBe(true);
+      expect(isCheckInOpen(match, new Date('2025-07-01T19:30'))).toBe(true);
+      expect(isCheckInOpen(match, new Date('2025-07-01T19:31'))).toBe(false);
+    });
+  });
+
+  it('should tell who has checked in', () => {
+    const match = createMatch();
+
+    expect(isCheckedIn(match, 'a')).toBe(true);
+    expect(isCheckedIn(match, 'b')).toBe(false);
+    expect(isCheckedIn(match, null)).toBe(false);
+    expect(getAbsentParticipantIds(match)).toEqual(['b', 'c']);
+  });
+
+  it('should read the venue coordinates when the venue has them', () => {
+    const venue = { _id: 'v1', name: 'Park', location: { address: 'Main St', coordinates: { lat: 51.5, lng: -0.1 } } };
+
+    expect(getVenueCoordinates(createMatch({ venue }))).toEqual({ latitude: 51.5, longitude: -0.1 });
+    expect(getVenueCoordinates(createMatch())).toBeNull();
+  });
+
+  describe('check-in codes', () => {
+    it('should round-trip the match and token', () => {
+      const code = encodeCheckInCode('m1', 'a+b/c=');
+
+      expect(code.startsWith('sportification://check-in?')).toBe(true);
+      expect(parseCheckInCode(code)).toEqual({ matchId: 'm1', token: 'a+b/c=' });
+    });
+
+    it('should reject other codes', () => {
+      expect(parseCheckInCode('https://example.com')).toBeNull();
+      expect(parseCheckInCode('sportification://check-in?match=m1')).toBeNull();
+    });
+  });
+
+  describe('getReliabilityScore', () => {
+    it('should have no score before any attendance is recorded', () => {
+      expect(getReliabilityScore()).toBeNull();
+      expect(getReliabilityScore({ matchesAttended: 0, noShows: 0 })).toBeNull();
+    });
+
+    it('should soften early no-shows', () => {
+      expect(getReliabilityScore({ matchesAttended: 8, noShows: 0 })).toBe(100);
+      expect(getReliabilityScore({ noShows: 1 })).toBe(67);
+      expect(getReliabilityScore({ matchesAttended: 18, noShows: 2 })).toBe(91);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  canPayCostShare,
+  getBookingCost,
+  getCostSettlement,
+  getCostSplitError,
+  parseCostAmount,
+  splitCostEqually,
+} from '@features/matches/utils/costSplitUtils';
+import { CostSplit, Match } from '@features/matches/types';
+import { Booking } from '@features/venues/types';
+
+const match = {
+  _id: 'm1',
+  status: 'upcoming',
+  participants: [
+    { _id: 'a', firstName: 'A', lastName: 'A', username: 'a' },
+    { _id: 'b', firstName: 'B', lastName: 'B', username: 'b' },
+    { _id: 'c', firstName: 'C', lastName: 'C', username: 'c' },
+  ],
+} as Match;
+
+const createBooking = (overrides: Partial<Booking> = {}): Booking =>
+  ({
+    _id: 'bk1',
+    user: { _id: 'a', profile: { firstName: 'A', lastName: 'A' } },
+    matchId: 'm1',
+    status: 'confirmed',
+    pricing: { baseRate: 40, totalCost: 40, currency: 'GBP' },
+    ...overrides,
+  }) as Booking;
+
+const split: CostSplit = {
+  _id: 's1',
+  matchId: 'm1',
+  bookingId: 'bk1',
+  payerId: 'a',
+  total: 4000,
+  currency: 'GBP',
+  method: 'equal',
+  shares: [
+    { userId: 'a', amount: 1334, status: 'pending' },
+    { userId: 'b', amount: 1333, status: 'paid', paymentIntentId: 'pi_1' },
+    { userId: 'c', amount: 1333, status: 'pending' },
+  ],
+  createdAt: '2025-07-01T10:00:00.000Z',
+};
+
+describe('costSplitUtils', () => {
+  it('should read booking prices in the smallest unit', () => {
+    expect(getBookingCost(createBooking({ pricing: { baseRate: 1, totalCost: 24.99, currency: 'GBP' } }))).toBe(2499);
+  });
+
+  it('should parse amounts typed in the major unit', () => {
+    expect(parseCostAmount('12.5')).toBe(1250);
+    expect(parseCostAmount(' 7,25 ')).toBe(725);
+    expect(parseCostAmount('10')).toBe(1000);
+    expect(parseCostAmount('1.234')).toBeNull();
+    expect(parseCostAmount('-3')).toBeNull();
+    expect(parseCostAmount('')).toBeNull();
+  });
+
+  it('should split equally with the leftover going to the payer first', () => {
+    expect(splitCostEqually(4000, ['b', 'c', 'a'], 'a')).toEqual([
+      { userId: 'b', amount: 1333 },
+      { userId: 'c', amount: 1333 },
+      { userId: 'a', amount: 1334 },
+    ]);
+    expect(splitCostEqually(1001, ['b', 'c'])).toEqual([
+      { userId: 'b', amount: 501 },
+      { userId: 'c', amount: 500 },
+    ]);
+    expect(splitCostEqually(1000, [])).toEqual([]);
+  });
+
+  describe('getCostSplitError', () => {
+    const shares = splitCostEqually(4000, ['a', 'b', 'c'], 'a');
+
+    it('should accept shares adding up to the booking cost', () => {
+      expect(getCostSplitError(match, createBooking(), 'a', shares)).toBeNull();
+    });
+
+    it('should only let the booker split a booking made for the match', () => {
+      expect(getCostSplitError(match, createBooking(), 'b', shares)).toMatch(/who booked/);
+      expect(getCostSplitError(match, createBooking({ matchId: 'm2' }), 'a', shares)).toMatch(/not for this match/);
+      expect(getCostSplitError(match, createBooking({ status: 'cancelled' }), 'a', shares)).toMatch(/cancelled/);
+    });
+
+    it('should only share with other players in the match, once each', () => {
+      expect(getCostSplitError(match, createBooking(), 'a', [...shares, { userId: 'z', amount: 0 }])).toMatch(
+        /players in the match/
+      );
+      expect(getCostSplitError(match, createBooking(), 'a', [{ userId: 'a', amount: 4000 }])).toMatch(
+        /other player/
+      );
+      expect(
+        getCostSplitError(match, createBooking(), 'a', [
+          { userId: 'b', amount: 2000 },
+          { userId: 'b', amount: 2000 },
+        ])
+      ).toMatch(/one share/);
+    });
+
+    it('should require the shares to cover the cost exactly', () => {
+      expect(
+        getCostSplitError(match, createBooking(), 'a', [
+          { userId: 'b', amount: 2000 },
+          { userId: 'c', amount: 1999 },
+        ])
+      ).toMatch(/less than/);
+      expect(
+        getCostSplitError(match, createBooking(), 'a', [
+          { userId: 'b', amount: 2500 },
+          { userId: 'c', amount: 2500 },
+        ])
+      ).toMatch(/more than/);
+      expect(
+        getCostSplitError(match, createBooking(), 'a', [
+          { userId: 'b', amount: 5000 },
+          { userId: 'c', amount: -1000 },
+        ])
+      ).toMatch(/positive/);
+    });
+  });
+
+  it('should count the booker as settled', () => {
+    expect(getCostSettlement(split)).toEqual({ settled: 2667, outstanding: 1333, settledCount: 2, shareCount: 3 });
+  });
+
+  it('should only ask players with a pending share to pay', () => {
+    expect(canPayCostShare(split, 'c')).toBe(true);
+    expect(canPayCostShare(split, 'b')).toBe(false);
+    expect(canPayCostShare(split, 'a')).toBe(false);
+    expect(canPayCostShare(split, 'z')).toBe(false);
+    expect(canPayCostShare(null, 'c')).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  applyFilterIds,
+  countActiveFilters,
+  DEFAULT_DISCOVERY_FILTERS,
+  getDiscoveryDateWindow,
+  getFilterIds,
+  getFilterPresetError,
+  getSkillWindowError,
+  isSameDiscoveryFilters,
+  MAX_FILTER_PRESETS,
+  mergeMatchPages,
+  toMatchQuery,
+} from '@features/matches/utils/discoveryUtils';
+import { Match, MatchDiscoveryFilters, MatchFilterPreset } from '@features/matches/types';
+
+const filters: MatchDiscoveryFilters = {
+  search: 'five a side',
+  sports: ['Football', 'Tennis'],
+  dateRange: 'weekend',
+  timeOfDay: 'evening',
+  radiusKm: 10,
+  minSkillLevel: 'intermediate',
+  maxSkillLevel: 'advanced',
+  openSpotsOnly: true,
+  maxPrice: 0,
+  sort: 'price',
+};
+
+// A Wednesday
+const now = new Date(2025, 6, 2, 15, 30);
+
+describe('discoveryUtils', () => {
+  it('should round-trip filters through the sheet chips', () => {
+    const ids = getFilterIds(filters);
+
+    expect(ids).toContain('sport:Tennis');
+    expect(ids).toContain('price:0');
+    expect(applyFilterIds(DEFAULT_DISCOVERY_FILTERS, ids)).toEqual({ ...filters, search: undefined, sort: 'startTime' });
+    expect(countActiveFilters(filters)).toBe(9);
+    expect(countActiveFilters(DEFAULT_DISCOVERY_FILTERS)).toBe(0);
+  });
+
+  it('should treat the any chips as no filter', () => {
+    const next = applyFilterIds(filters, ['date:any', 'distance:any', 'price:any']);
+
+    expect(next.dateRange).toBeUndefined();
+    expect(next.radiusKm).toBeUndefined();
+    expect(next.maxPrice).toBeUndefined();
+    expect(next.sports).toEqual([]);
+    expect(next.search).toBe('five a side');
+  });
+
+  it('should compare filters regardless of chip order', () => {
+    expect(isSameDiscoveryFilters(filters, { ...filters, sports: ['Tennis', 'Football'] })).toBe(true);
+    expect(isSameDiscoveryFilters(filters, { ...filters, sort: 'startTime' })).toBe(false);
+  });
+
+  it('should reject a skill window that matches nothing', () => {
+    expect(getSkillWindowError('advanced', 'beginner')).toMatch(/cannot be above/);
+    expect(getSkillWindowError('beginner', 'beginner')).toBeNull();
+    expect(getSkillWindowError(undefined, 'beginner')).toBeNull();
+  });
+
+  it('should resolve relative date ranges from now', () => {
+    const weekend = getDiscoveryDateWindow('weekend', now);
+    expect(weekend.from).toEqual(new Date(2025, 6, 5));
+    expect(weekend.to).toEqual(new Date(2025, 6, 6, 23, 59, 59, 999));
+
+    const sunday = new Date(2025, 6, 6, 9);
+    expect(getDiscoveryDateWindow('weekend', sunday)).toEqual({ from: sunday, to: new Date(2025, 6, 6, 23, 59, 59, 999) });
+
+    expect(getDiscoveryDateWindow('tomorrow', now).from).toEqual(new Date(2025, 6, 3));
+    expect(getDiscoveryDateWindow('week', now).to).toEqual(new Date(2025, 6, 8, 23, 59, 59, 999));
+  });
+
+  it('should build the matches query', () => {
+    const query = toMatchQuery(filters, { now });
+
+    expect(query).toMatchObject({
+      search: 'five a side',
+      sports: 'Football,Tennis',
+      from: new Date(2025, 6, 5).toISOString(),
+      fromTime: '17:00',
+      toTime: '23:00',
+      minSkillLevel: 'intermediate',
+      maxSkillLevel: 'advanced',
+      openSpots: true,
+      maxPrice: 0,
+      sort: 'price',
+      order: 'asc',
+    });
+    expect(toMatchQuery(DEFAULT_DISCOVERY_FILTERS, { now })).toEqual({ sort: 'startTime', order: 'asc' });
+  });
+
+  it('should only sort by distance with a location', () => {
+    const nearest = { ...DEFAULT_DISCOVERY_FILTERS, sort: 'distance' as const };
+
+    expect(toMatchQuery(nearest, { now }).sort).toBe('startTime');
+    expect(toMatchQuery(nearest, { now, hasLocation: true }).sort).toBe('distance');
+  });
+
+  it('should append pages without repeating matches', () => {
+    const match = (id: string) => ({ _id: id }) as Match;
+
+    expect(mergeMatchPages([match('a'), match('b')], [match('b'), match('c')]).map(m => m._id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should only save presets under a new name while there is room', () => {
+    const preset = (name: string): MatchFilterPreset => ({
+      id: name,
+      name,
+      filters,
+      createdAt: '2025-07-01T10:00:00.000Z',
+    });
+
+    expect(getFilterPresetError('  ', [])).toMatch(/name/);
+    expect(getFilterPresetError('x'.repeat(31), [])).toMatch(/30 characters/);
+    expect(getFilterPresetError('weekend tennis', [preset('Weekend Tennis')])).toMatch(/already have/);
+    expect(
+      getFilterPresetError('One more', Array.from({ length: MAX_FILTER_PRESETS }, (_, i) => preset(`P${i}`)))
+    ).toMatch(/up to 10/);
+    expect(getFilterPresetError('Weekend Tennis', [])).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { GLICKO2_DEFAULTS, getExpectedScore, updateRating } from '@features/ratings/utils/glicko2Utils';
+import { GameOutcome, RatingValues } from '@features/ratings/types';
+
+// Worked example from Glickman's "Example of the Glicko-2 system"
+const player: RatingValues = { rating: 1500, deviation: 200, volatility: 0.06 };
+const outcomes: GameOutcome[] = [
+  { opponent: { rating: 1400, deviation: 30 }, score: 1 },
+  { opponent: { rating: 1550, deviation: 100 }, score: 0 },
+  { opponent: { rating: 1700, deviation: 300 }, score: 0 },
+];
+
+describe('glicko2Utils', () => {
+  describe('updateRating', () => {
+    it('should match the worked example from the Glicko-2 paper', () => {
+      const updated = updateRating(player, outcomes);
+
+      expect(updated.rating).toBeCloseTo(1464.06, 1);
+      expect(updated.deviation).toBeCloseTo(151.52, 1);
+      expect(updated.volatility).toBeCloseTo(0.059996, 6);
+    });
+
+    it('should grow the deviation of an inactive player', () => {
+      const updated = updateRating(player, []);
+
+      expect(updated.rating).toBe(1500);
+      expect(updated.volatility).toBe(0.06);
+      expect(updated.deviation).toBeCloseTo(200.27, 2);
+    });
+
+    it('should not let an inactive player become less certain than a new one', () => {
+      expect(updateRating(GLICKO2_DEFAULTS, []).deviation).toBe(GLICKO2_DEFAULTS.deviation);
+    });
+
+    it('should move a new player further than an established one', () => {
+      const win: GameOutcome[] = [{ opponent: { rating: 1500, deviation: 50 }, score: 1 }];
+      const established = { ...GLICKO2_DEFAULTS, deviation: 50 };
+
+      const newGain = updateRating(GLICKO2_DEFAULTS, win).rating - 1500;
+      const establishedGain = updateRating(established, win).rating - 1500;
+
+      expect(newGain).toBeGreaterThan(establishedGain);
+      expect(establishedGain).toBeGreaterThan(0);
+    });
+
+    it('should leave an even draw between equal players unchanged', () => {
+      const updated = updateRating(player, [{ opponent: { rating: 1500, deviation: 200 }, score: 0.5 }]);
+
+      expect(updated.rating).toBeCloseTo(1500, 6);
+      expect(updated.deviation).toBeLessThan(player.deviation);
+    });
+  });
+
+  it('should expect the stronger player to win', () => {
+    expect(getExpectedScore({ rating: 1500 }, { rating: 1500, deviation: 100 })).toBeCloseTo(0.5);
+    expect(getExpectedScore({ rating: 1700 }, { rating: 1500, deviation: 30 })).toBeGreaterThan(0.7);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  escapeICalText,
+  foldICalLine,
+  formatCalendarFeed,
+  formatICalendar,
+  getBookingEvent,
+  getMatchEvent,
+  getTournamentEvent,
+  toWebcalUrl,
+  zonedTimeToDate,
+} from '@features/calendar/utils';
+import { Match } from '@features/matches/types';
+import { Tournament } from '@features/tournaments/types';
+import { Booking } from '@features/venues/types';
+
+const createMatch = (overrides: Partial<Match> = {}): Match =>
+  ({
+    _id: 'm1',
+    title: 'Sunday 5-a-side',
+    sport: 'football',
+    schedule: { date: '2025-07-06T00:00:00.000Z', time: '19:30', timezone: 'Europe/London', duration: 90 },
+    organizer: { _id: 'u1', firstName: 'Sam', lastName: 'Lee' },
+    participants: [],
+    venue: { _id: 'v1', name: 'Hackney Marshes', location: { address: 'Homerton Rd, London' } },
+    status: 'upcoming',
+    updatedAt: '2025-06-01T10:00:00.000Z',
+    ...overrides,
+  }) as Match;
+
+const now = new Date('2025-06-02T08:00:00Z');
+
+describe('icalUtils', () => {
+  describe('zonedTimeToDate', () => {
+    it('should read wall-clock times in the given zone', () => {
+      expect(zonedTimeToDate('2025-07-06T19:30', 'Europe/London').toISOString()).toBe('2025-07-06T18:30:00.000Z');
+      expect(zonedTimeToDate('2025-01-06T19:30', 'Europe/London').toISOString()).toBe('2025-01-06T19:30:00.000Z');
+      expect(zonedTimeToDate('2025-07-06T19:30', 'America/New_York').toISOString()).toBe('2025-07-06T23:30:00.000Z');
+      expect(zonedTimeToDate('2025-07-06T19:30', 'UTC').toISOString()).toBe('2025-07-06T19:30:00.000Z');
+    });
+
+    it('should handle times just after a DST change', () => {
+      expect(zonedTimeToDate('2025-03-30T03:30', 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    });
+  });
+
+  it('should escape text values', () => {
+    expect(escapeICalText('Bring boots; shin pads, water\nand \\ a ball')).toBe(
+      'Bring boots\\; shin pads\\, water\\nand \\\\ a ball'
+    );
+  });
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const folded = foldICalLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBe(2);
+    expect(Buffer.byteLength(lines[0])).toBeLessThanOrEqual(75);
+    expect(Buffer.byteLength(lines[1])).toBeLessThanOrEqual(75);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.map((line, index) => (index ? line.slice(1) : line)).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+
+  describe('formatICalendar', () => {
+    it('should write a match as a timed UTC event', () => {
+      const ics = formatICalendar([getMatchEvent(createMatch())], { now });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('UID:match-m1@sportification.app\r\n');
+      expect(ics).toContain('DTSTAMP:20250602T080000Z\r\n');
+      expect(ics).toContain('DTSTART:20250706T183000Z\r\n');
+      expect(ics).toContain('DTEND:20250706T200000Z\r\n');
+      expect(ics).toContain('LOCATION:Hackney Marshes\\, Homerton Rd\\, London\r\n');
+      expect(ics).toContain('STATUS:CONFIRMED\r\n');
+      expect(ics).toContain(`SEQUENCE:${Date.parse('2025-06-01T10:00:00.000Z') / 1000}\r\n`);
+    });
+
+    it('should keep cancelled matches so calendars remove them', () => {
+      const ics = formatICalendar([getMatchEvent(createMatch({ status: 'cancelled' }))], { now });
+
+      expect(ics).toContain('STATUS:CANCELLED\r\n');
+    });
+
+    it('should write tournaments as all-day events ending the day after', () => {
+      const tournament = {
+        _id: 't1',
+        name: 'Summer Cup',
+        startDate: '2025-08-01T00:00:00.000Z',
+        endDate: '2025-08-03',
+        status: 'registration_open',
+      } as Tournament;
+
+      const ics = formatICalendar([getTournamentEvent(tournament)], { now });
+
+      expect(ics).toContain('DTSTART;VALUE=DATE:20250801\r\n');
+      expect(ics).toContain('DTEND;VALUE=DATE:20250804\r\n');
+    });
+  });
+
+  it('should mark pending bookings as tentative', () => {
+    const booking = {
+      _id: 'b1',
+      sport: 'tennis',
+      date: '2025-07-10',
+      startTime: '10:00',
+      endTime: '11:00',
+      venue: { _id: 'v1', name: 'Court 3', location: { address: 'Park Lane' } },
+      status: 'pending',
+      createdAt: '2025-06-01T10:00:00.000Z',
+    } as Booking;
+
+    const event = getBookingEvent(booking);
+
+    expect(event.status).toBe('tentative');
+    expect(event.end.getTime() - event.start.getTime()).toBe(60 * 60 * 1000);
+  });
+
+  describe('calendar feed', () => {
+    it('should name the calendar and ask subscribers to refresh hourly', () => {
+      const feed = formatCalendarFeed([], { name: 'Sam Lee · Sportification', now });
+
+      expect(feed).toContain('X-WR-CALNAME:Sam Lee · Sportification\r\n');
+      expect(feed).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M\r\n');
+      expect(feed).toContain('X-PUBLISHED-TTL:PT60M\r\n');
+    });
+
+    it('should turn the feed URL into a webcal link', () => {
+      expect(toWebcalUrl('https://api.example.com/calendar/abc.ics')).toBe('webcal://api.example.com/calendar/abc.ics');
+    });
+  });
+});
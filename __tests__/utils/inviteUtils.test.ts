@@ -0,0 +1,32 @@
+import {
+  buildInviteLink,
+  buildInviteWebLink,
+  isValidInviteCode,
+  parseInviteLink,
+} from '@features/matches/utils/inviteUtils';
+
+describe('inviteUtils', () => {
+  it('should build both forms of invite link', () => {
+    expect(buildInviteLink('AbC123')).toBe('sportification://match/join/AbC123');
+    expect(buildInviteWebLink('AbC123')).toBe('https://sportification.app/match/join/AbC123');
+  });
+
+  it('should read the code back from either form', () => {
+    expect(parseInviteLink(buildInviteLink('AbC123'))).toBe('AbC123');
+    expect(parseInviteLink(buildInviteWebLink('AbC123'))).toBe('AbC123');
+    expect(parseInviteLink('https://sportification.app/match/join/AbC123?utm_source=chat')).toBe('AbC123');
+  });
+
+  it('should ignore other links and malformed codes', () => {
+    expect(parseInviteLink('sportification://check-in?match=m1&token=t')).toBeNull();
+    expect(parseInviteLink('https://example.com/match/join/AbC123')).toBeNull();
+    expect(parseInviteLink('sportification://match/join/')).toBeNull();
+    expect(parseInviteLink('sportification://match/join/a%20b')).toBeNull();
+  });
+
+  it('should validate invite codes', () => {
+    expect(isValidInviteCode('x7-K_9q')).toBe(true);
+    expect(isValidInviteCode('abc')).toBe(false);
+    expect(isValidInviteCode('abc def')).toBe(false);
+  });
+});
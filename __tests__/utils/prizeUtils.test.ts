@@ -0,0 +1,102 @@
+import {
+  calculatePrizePayouts,
+  getFinalPlacings,
+  getPrizeDistributionTotal,
+} from '@features/tournaments/utils/prizeUtils';
+import { generateBracket, recordMatchResult } from '@features/tournaments/utils/bracketUtils';
+import { TournamentStanding } from '@features/tournaments/types';
+
+const prize = {
+  total: 10000,
+  currency: 'USD',
+  distribution: { first: 50, second: 30, third: 20 },
+};
+
+const createStanding = (participantId: string, rank: number): TournamentStanding => ({
+  participantId,
+  name: participantId,
+  wins: 0,
+  losses: 0,
+  points: 0,
+  rank,
+});
+
+describe('prizeUtils', () => {
+  describe('getPrizeDistributionTotal', () => {
+    it('should add up the percentages', () => {
+      expect(getPrizeDistributionTotal({ first: 60, second: 25 })).toBe(85);
+      expect(getPrizeDistributionTotal(undefined)).toBe(0);
+    });
+
+    it('should reject negative percentages and totals above 100', () => {
+      expect(getPrizeDistributionTotal({ first: 80, second: 30 })).toBeNull();
+      expect(getPrizeDistributionTotal({ first: 50, second: -5 })).toBeNull();
+    });
+  });
+
+  describe('calculatePrizePayouts', () => {
+    it('should pay each place its share of the fund', () => {
+      const summary = calculatePrizePayouts(prize, [['a'], ['b'], ['c'], ['d']]);
+
+      expect(summary.payouts).toEqual([
+        { participantId: 'a', position: 1, amount: 5000 },
+        { participantId: 'b', position: 2, amount: 3000 },
+        { participantId: 'c', position: 3, amount: 2000 },
+      ]);
+      expect(summary.unallocated).toBe(0);
+    });
+
+    it('should split the pooled prizes between participants sharing a position', () => {
+      const summary = calculatePrizePayouts(prize, [['a'], ['b', 'c']]);
+
+      expect(summary.payouts).toEqual([
+        { participantId: 'a', position: 1, amount: 5000 },
+        { participantId: 'b', position: 2, amount: 2500 },
+        { participantId: 'c', position: 2, amount: 2500 },
+      ]);
+    });
+
+    it('should give the remainder of an uneven split to those listed first', () => {
+      const summary = calculatePrizePayouts(
+        { total: 100, currency: 'USD', distribution: { first: 100 } },
+        [['a', 'b', 'c']]
+      );
+
+      expect(summary.payouts.map(payout => payout.amount)).toEqual([34, 33, 33]);
+      expect(summary.unallocated).toBe(0);
+    });
+
+    it('should report the part of the fund left unallocated', () => {
+      const summary = calculatePrizePayouts(
+        { total: 10000, currency: 'USD', distribution: { first: 60, second: 20 } },
+        [['a']]
+      );
+
+      expect(summary.payouts).toHaveLength(1);
+      expect(summary.unallocated).toBe(4000);
+    });
+  });
+
+  describe('getFinalPlacings', () => {
+    it('should group league participants by rank', () => {
+      const standings = [createStanding('c', 2), createStanding('a', 1), createStanding('b', 2)];
+      expect(getFinalPlacings({ format: 'round_robin' }, undefined, standings)).toEqual([
+        ['a'],
+        ['c', 'b'],
+      ]);
+    });
+
+    it('should read elimination placings from the bracket', () => {
+      const participants = ['p1', 'p2'].map((id, index) => ({
+        _id: id,
+        firstName: 'Player',
+        lastName: id,
+        seed: index + 1,
+      }));
+      let bracket = generateBracket('single_elimination', participants);
+      bracket = recordMatchResult(bracket, 'wb-r1-m1', { player1: 1, player2: 3 });
+
+      expect(getFinalPlacings({ format: 'single_elimination' }, bracket, [])).toEqual([['p2'], ['p1']]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  formatRating,
+  formatRatingRange,
+  getCompositeRating,
+  getEntryRating,
+  getRatingRange,
+  getRatingRangeError,
+  getSkillLevelForRating,
+  rateGame,
+} from '@features/ratings/utils/ratingUtils';
+import { RatedGame, RatingValues } from '@features/ratings/types';
+
+const rating = (value: number, deviation = 80): RatingValues => ({ rating: value, deviation, volatility: 0.06 });
+
+const createGame = (sides: [string[], string[]], winner: RatedGame['winner']): RatedGame => ({
+  sport: 'Football',
+  source: { type: 'match', id: 'm1' },
+  sides,
+  winner,
+});
+
+describe('ratingUtils', () => {
+  it('should combine a side into one opponent', () => {
+    const composite = getCompositeRating([rating(1400, 30), rating(1600, 40)]);
+
+    expect(composite.rating).toBe(1500);
+    expect(composite.deviation).toBeCloseTo(Math.sqrt((30 ** 2 + 40 ** 2) / 2));
+  });
+
+  describe('rateGame', () => {
+    it('should raise the winners and lower the losers', () => {
+      const ratings = { a: rating(1500), b: rating(1500), c: rating(1500), d: rating(1500) };
+      const updated = rateGame(ratings, createGame([['a', 'b'], ['c', 'd']], 0));
+
+      expect(updated.a.rating).toBeGreaterThan(1500);
+      expect(updated.b.rating).toBeCloseTo(updated.a.rating);
+      expect(updated.c.rating).toBeLessThan(1500);
+      expect(Object.keys(updated).sort()).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should start unrated players from the defaults', () => {
+      const updated = rateGame({ a: rating(1500) }, createGame([['a'], ['new']], 1));
+
+      expect(updated.new.rating).toBeGreaterThan(1500);
+      expect(updated.new.deviation).toBeLessThan(350);
+    });
+
+    it('should reward the underdog more for a draw', () => {
+      const updated = rateGame({ a: rating(1800), b: rating(1400) }, createGame([['a'], ['b']], 'draw'));
+
+      expect(updated.a.rating).toBeLessThan(1800);
+      expect(updated.b.rating).toBeGreaterThan(1400);
+    });
+  });
+
+  it('should map ratings to skill levels', () => {
+    expect(getSkillLevelForRating(1000)).toBe('beginner');
+    expect(getSkillLevelForRating(1300)).toBe('intermediate');
+    expect(getSkillLevelForRating(1750)).toBe('advanced');
+    expect(getSkillLevelForRating(2100)).toBe('expert');
+  });
+
+  describe('getRatingRange', () => {
+    it('should prefer explicit ratings over skill levels', () => {
+      expect(getRatingRange({ minSkillLevel: 'Advanced', maxRating: 1800 })).toEqual({ min: 1600, max: 1800 });
+      expect(getRatingRange({ minSkillLevel: 'advanced', minRating: 1500 })).toEqual({ min: 1500, max: undefined });
+    });
+
+    it('should leave the range open without requirements', () => {
+      expect(getRatingRange()).toEqual({ min: undefined, max: undefined });
+      expect(formatRatingRange(getRatingRange())).toBeNull();
+    });
+  });
+
+  it('should explain ratings outside the range', () => {
+    const range = { min: 1400, max: 1700 };
+
+    expect(getRatingRangeError(range, { rating: 1550 })).toBeNull();
+    expect(getRatingRangeError(range, { rating: 1800.4 })).toBe(
+      'This match is for players rated 1400–1700. Your rating is 1800.'
+    );
+    expect(getRatingRangeError({ min: 1600 }, undefined)).toBe(
+      'This match is for players rated 1600+. Your rating is 1500.'
+    );
+  });
+
+  it('should mark provisional ratings', () => {
+    expect(formatRating({ rating: 1623.4, deviation: 60 })).toBe('1623');
+    expect(formatRating({ rating: 1623.4, deviation: 200 })).toBe('1623?');
+  });
+
+  it('should average a roster into an entry rating', () => {
+    expect(getEntryRating(['a', 'b', 'c'], { a: { rating: 1700 }, b: { rating: 1600 } })).toBe(1600);
+  });
+});
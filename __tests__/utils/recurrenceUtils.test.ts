@@ -0,0 +1,135 @@
+import {
+  describeRecurrence,
+  formatRRule,
+  getOccurrenceDates,
+  getSeriesOccurrences,
+  isOccurrenceDate,
+} from '@features/matches/utils/recurrenceUtils';
+import { MatchSeries, OccurrenceOverride, RecurrenceRule } from '@features/matches/types';
+
+// 2025-07-01 is a Tuesday
+const weekly: RecurrenceRule = { frequency: 'weekly', interval: 1 };
+
+const createSeries = (overrides: OccurrenceOverride[] = []): MatchSeries => ({
+  _id: 's1',
+  template: {
+    type: 'public',
+    sport: 'Football',
+    title: 'Tuesday pickup',
+    maxParticipants: 10,
+    schedule: { date: '2025-07-01', time: '19:00', timezone: 'UTC', duration: 90 },
+  },
+  recurrence: weekly,
+  overrides,
+  subscribers: [],
+  organizer: { _id: 'u1', firstName: 'Org', lastName: 'Anizer' },
+  createdAt: '2025-06-01T00:00:00Z',
+  updatedAt: '2025-06-01T00:00:00Z',
+});
+
+describe('recurrenceUtils', () => {
+  describe('getOccurrenceDates', () => {
+    it('should repeat on the weekday of the first match by default', () => {
+      expect(getOccurrenceDates(weekly, '2025-07-01', '2025-07-29')).toEqual([
+        '2025-07-01',
+        '2025-07-08',
+        '2025-07-15',
+        '2025-07-22',
+        '2025-07-29',
+      ]);
+    });
+
+    it('should skip weeks and list chosen weekdays in week order', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, byWeekday: ['TH', 'TU'] };
+      expect(getOccurrenceDates(rule, '2025-07-01', '2025-07-20')).toEqual([
+        '2025-07-01',
+        '2025-07-03',
+        '2025-07-15',
+        '2025-07-17',
+      ]);
+    });
+
+    it('should not produce dates before the first match', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly', interval: 1, byWeekday: ['MO', 'TU'] };
+      expect(getOccurrenceDates(rule, '2025-07-01', '2025-07-08')).toEqual(['2025-07-01', '2025-07-07', '2025-07-08']);
+    });
+
+    it('should stop after the occurrence count', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', interval: 3, count: 4 };
+      expect(getOccurrenceDates(rule, '2025-07-01', '2025-12-31')).toEqual([
+        '2025-07-01',
+        '2025-07-04',
+        '2025-07-07',
+        '2025-07-10',
+      ]);
+    });
+
+    it('should stop at the until date', () => {
+      expect(getOccurrenceDates({ ...weekly, until: '2025-07-15' }, '2025-07-01', '2025-12-31')).toEqual([
+        '2025-07-01',
+        '2025-07-08',
+        '2025-07-15',
+      ]);
+    });
+
+    it('should skip months without the start day', () => {
+      const rule: RecurrenceRule = { frequency: 'monthly', interval: 1 };
+      expect(getOccurrenceDates(rule, '2025-01-31', '2025-06-30')).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+    });
+  });
+
+  it('should recognise dates the rule produces', () => {
+    expect(isOccurrenceDate(weekly, '2025-07-01', '2025-07-22')).toBe(true);
+    expect(isOccurrenceDate(weekly, '2025-07-01', '2025-07-23')).toBe(false);
+  });
+
+  describe('getSeriesOccurrences', () => {
+    it('should apply cancellations and moves within the window', () => {
+      const series = createSeries([
+        { occurrenceDate: '2025-07-01', schedule: { date: '2025-07-23', time: '18:00' } },
+        { occurrenceDate: '2025-07-08', cancelled: true },
+        { occurrenceDate: '2025-07-15', schedule: { date: '2025-07-16', time: '20:00' } },
+        { occurrenceDate: '2025-07-29', schedule: { date: '2025-08-05', time: '19:00' } },
+      ]);
+
+      const occurrences = getSeriesOccurrences(series, '2025-07-08', '2025-07-29');
+
+      expect(occurrences.map(o => [o.occurrenceDate, o.date, o.time])).toEqual([
+        ['2025-07-08', '2025-07-08', '19:00'],
+        ['2025-07-15', '2025-07-16', '20:00'],
+        ['2025-07-22', '2025-07-22', '19:00'],
+        ['2025-07-01', '2025-07-23', '18:00'],
+      ]);
+      expect(occurrences[0].isCancelled).toBe(true);
+      expect(occurrences[1].isMoved).toBe(true);
+      expect(occurrences[2]).toMatchObject({ isCancelled: false, isMoved: false });
+    });
+
+    it('should include occurrences moved in from beyond the window', () => {
+      const series = createSeries([{ occurrenceDate: '2025-08-12', schedule: { date: '2025-07-10', time: '19:00' } }]);
+      expect(getSeriesOccurrences(series, '2025-07-09', '2025-07-14').map(o => o.occurrenceDate)).toEqual([
+        '2025-08-12',
+      ]);
+    });
+  });
+
+  it('should format the rule as an RRULE value', () => {
+    expect(formatRRule({ frequency: 'weekly', interval: 2, byWeekday: ['TU', 'TH'], count: 10 })).toBe(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10'
+    );
+    expect(formatRRule({ frequency: 'daily', interval: 1, until: '2025-08-01' })).toBe(
+      'FREQ=DAILY;INTERVAL=1;UNTIL=20250801'
+    );
+  });
+
+  it('should describe the rule', () => {
+    expect(describeRecurrence(weekly, '2025-07-01')).toBe('Every Tuesday');
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, byWeekday: ['TH', 'TU'], count: 10 }, '2025-07-01')).toBe(
+      'Every 2 weeks on Tuesday and Thursday, 10 times'
+    );
+    expect(describeRecurrence({ frequency: 'daily', interval: 1 }, '2025-07-01')).toBe('Every day');
+    expect(describeRecurrence({ frequency: 'monthly', interval: 1, until: '2025-06-30' }, '2025-01-31')).toBe(
+      'Every month on day 31, until Jun 30, 2025'
+    );
+  });
+});
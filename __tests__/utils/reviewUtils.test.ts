@@ -0,0 +1,103 @@
+import {
+  getDampenedAverage,
+  getReviewableParticipants,
+  getReviewError,
+  getReviewSummary,
+  isReviewOpen,
+} from '@features/matches/utils/reviewUtils';
+import { Match, MatchReview } from '@features/matches/types';
+
+const createMatch = (overrides: Partial<Match> = {}): Match =>
+  ({
+    _id: 'm1',
+    status: 'completed',
+    participants: [
+      { _id: 'a', firstName: 'Ana', lastName: 'A', username: 'a' },
+      { _id: 'b', firstName: 'Ben', lastName: 'B', username: 'b' },
+      { _id: 'c', firstName: 'Cai', lastName: 'C', username: 'c' },
+    ],
+    attendance: [{ userId: 'b', status: 'checked_in', method: 'qr', checkedInAt: '2025-07-01T18:50:00' }],
+    ...overrides,
+  }) as Match;
+
+const createReview = (overrides: Partial<MatchReview> = {}): MatchReview => ({
+  _id: 'r1',
+  matchId: 'm1',
+  reviewerId: 'a',
+  revieweeId: 'b',
+  sportsmanship: 4,
+  skillAccuracy: 4,
+  createdAt: '2025-07-01T21:00:00.000Z',
+  ...overrides,
+});
+
+describe('reviewUtils', () => {
+  it('should list the other players not reviewed yet', () => {
+    const ids = getReviewableParticipants(createMatch(), 'a', ['c']).map(participant => participant._id);
+
+    expect(ids).toEqual(['b']);
+  });
+
+  it('should close reviews after the window', () => {
+    const pending = { closesAt: '2025-07-08T21:00:00.000Z' };
+
+    expect(isReviewOpen(pending, new Date('2025-07-08T20:59:00.000Z'))).toBe(true);
+    expect(isReviewOpen(pending, new Date('2025-07-08T21:01:00.000Z'))).toBe(false);
+  });
+
+  describe('getReviewError', () => {
+    const valid = { revieweeId: 'b', sportsmanship: 5, skillAccuracy: 3 };
+
+    it('should accept ratings from a participant of a completed match', () => {
+      expect(getReviewError(createMatch(), 'a', [valid, { revieweeId: 'c', noShow: true }])).toBeNull();
+    });
+
+    it('should only allow participants to review completed matches', () => {
+      expect(getReviewError(createMatch({ status: 'in_progress' }), 'a', [valid])).toMatch(/completed/);
+      expect(getReviewError(createMatch(), 'z', [valid])).toMatch(/Only players/);
+    });
+
+    it('should allow one review per player per match', () => {
+      expect(getReviewError(createMatch(), 'a', [valid, valid])).toBe('You have already reviewed Ben');
+      expect(getReviewError(createMatch(), 'a', [valid], ['b'])).toBe('You have already reviewed Ben');
+      expect(getReviewError(createMatch(), 'a', [{ ...valid, revieweeId: 'a' }])).toMatch(/other players/);
+    });
+
+    it('should require whole scores from 1 to 5', () => {
+      expect(getReviewError(createMatch(), 'a', [{ ...valid, sportsmanship: 6 }])).toMatch(/from 1 to 5/);
+      expect(getReviewError(createMatch(), 'a', [{ ...valid, skillAccuracy: 2.5 }])).toMatch(/from 1 to 5/);
+      expect(getReviewError(createMatch(), 'a', [{ revieweeId: 'b' }])).toMatch(/from 1 to 5/);
+    });
+
+    it('should not let players who checked in be flagged as no-shows', () => {
+      expect(getReviewError(createMatch(), 'a', [{ revieweeId: 'b', noShow: true }])).toMatch(/checked in/);
+    });
+
+    it('should limit comment length', () => {
+      expect(getReviewError(createMatch(), 'a', [{ ...valid, comment: 'x'.repeat(501) }])).toMatch(/500 characters/);
+    });
+  });
+
+  describe('getDampenedAverage', () => {
+    it('should pull the first few reviews towards the neutral score', () => {
+      expect(getDampenedAverage([])).toBeNull();
+      expect(getDampenedAverage([1])).toBe(3.3);
+      expect(getDampenedAverage([5, 5, 5, 5, 5, 5, 5, 5, 5, 5, 5, 5])).toBe(4.8);
+    });
+
+    it('should count outliers for less', () => {
+      // 4.2 if the 1 counted in full
+      expect(getDampenedAverage([5, 5, 5, 5, 5, 1])).toBe(4.5);
+    });
+  });
+
+  it('should count only the latest review from each reviewer', () => {
+    const summary = getReviewSummary([
+      createReview({ sportsmanship: 1, skillAccuracy: 1 }),
+      createReview({ _id: 'r2', sportsmanship: 5, skillAccuracy: 5, createdAt: '2025-07-02T09:00:00.000Z' }),
+      createReview({ _id: 'r3', reviewerId: 'c', noShow: true, sportsmanship: undefined, skillAccuracy: undefined }),
+    ]);
+
+    expect(summary).toEqual({ averageRating: 4.3, skillAccuracy: 4.3, reviewCount: 1, noShowReports: 1 });
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  applyAvailability,
+  getDatesBetween,
+  getOpeningWindow,
+  getScheduleBookings,
+  getScheduleDays,
+  proposeSchedule,
+  ScheduleDay,
+} from '@features/tournaments/utils/schedulingUtils';
+import { generateBracket } from '@features/tournaments/utils/bracketUtils';
+import { TournamentParticipant } from '@features/tournaments/types';
+import { OperatingHours } from '@features/venues/types';
+
+const createParticipants = (count: number): TournamentParticipant[] =>
+  Array.from({ length: count }, (_, index) => ({
+    _id: `p${index + 1}`,
+    firstName: 'Player',
+    lastName: `${index + 1}`,
+    seed: index + 1,
+  }));
+
+const day = (date: string, startTime = '09:00', endTime = '17:00'): ScheduleDay => ({
+  date,
+  windows: [{ startTime, endTime }],
+});
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+
+describe('schedulingUtils', () => {
+  describe('opening hours', () => {
+    const hours: OperatingHours[] = [
+      { day: 'Saturday', open: '10:00', close: '18:00', isClosed: false },
+      { day: 'sun', open: '12:00', close: '16:00', isClosed: true },
+    ];
+
+    it('should list every date in the range', () => {
+      expect(getDatesBetween('2025-06-28', '2025-07-01T00:00:00Z')).toEqual([
+        '2025-06-28',
+        '2025-06-29',
+        '2025-06-30',
+        '2025-07-01',
+      ]);
+    });
+
+    it('should match day names case-insensitively and skip closed days', () => {
+      expect(getOpeningWindow('2025-06-28', hours)).toEqual({ startTime: '10:00', endTime: '18:00' });
+      expect(getOpeningWindow('2025-06-29', hours)).toBeNull();
+      expect(getOpeningWindow('2025-06-30', hours)).toBeNull();
+      expect(getScheduleDays('2025-06-28', '2025-06-30', hours).map(entry => entry.date)).toEqual([
+        '2025-06-28',
+      ]);
+    });
+
+    it('should fall back to default hours when the venue publishes none', () => {
+      expect(getOpeningWindow('2025-06-29', undefined)).toEqual({ startTime: '08:00', endTime: '22:00' });
+    });
+  });
+
+  describe('applyAvailability', () => {
+    it('should block conflicting bookings', () => {
+      const result = applyAvailability(day('2025-06-28'), {
+        available: false,
+        conflictingBookings: [{ _id: 'b1', startTime: '10:00', endTime: '11:00' }],
+      });
+      expect(result.blocked).toEqual([{ startTime: '10:00', endTime: '11:00' }]);
+    });
+
+    it('should narrow the day to suggested slots inside opening hours', () => {
+      const result = applyAvailability(day('2025-06-28'), {
+        available: false,
+        suggestedSlots: [
+          { startTime: '08:00', endTime: '10:00' },
+          { startTime: '15:00', endTime: '19:00' },
+        ],
+      });
+      expect(result.windows).toEqual([
+        { startTime: '09:00', endTime: '10:00' },
+        { startTime: '15:00', endTime: '17:00' },
+      ]);
+    });
+  });
+
+  describe('proposeSchedule', () => {
+    it('should use every court and give players their rest between rounds', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(8));
+      const proposal = proposeSchedule(bracket, [day('2025-06-28')], {
+        courts: 2,
+        matchDuration: 60,
+        restTime: 30,
+      });
+      const byId = new Map(proposal.matches.map(match => [match.matchId, match]));
+
+      expect(proposal.unscheduled).toEqual([]);
+      expect(proposal.matches).toHaveLength(7);
+      expect(['wb-r1-m1', 'wb-r1-m2', 'wb-r1-m3', 'wb-r1-m4'].map(id => byId.get(id)!.startTime)).toEqual([
+        '09:00',
+        '09:00',
+        '10:00',
+        '10:00',
+      ]);
+      // Semi-final 2 waits for the 10:00 quarter-finals plus 30 minutes of rest
+      expect(byId.get('wb-r2-m2')!.startTime).toBe('11:30');
+      expect(byId.get('wb-r3-m1')!.startTime).toBe('13:00');
+    });
+
+    it('should never double-book a court or a player', () => {
+      const bracket = generateBracket('round_robin', createParticipants(6));
+      const proposal = proposeSchedule(bracket, [day('2025-06-28'), day('2025-06-29')], {
+        courts: 3,
+        matchDuration: 45,
+        restTime: 15,
+      });
+      const matches = new Map(
+        bracket.rounds.flatMap(round => round.matches).map(match => [match.matchId, match])
+      );
+      const scheduled = proposal.matches.map(match => ({
+        ...match,
+        start: toMinutes(match.startTime),
+        end: toMinutes(match.endTime),
+        players: [matches.get(match.matchId)!.player1, matches.get(match.matchId)!.player2],
+      }));
+
+      expect(scheduled).toHaveLength(15);
+      scheduled.forEach((a, i) =>
+        scheduled.slice(i + 1).forEach(b => {
+          if (a.date !== b.date) return;
+          const overlap = a.start < b.end && b.start < a.end;
+          if (a.court === b.court) expect(overlap).toBe(false);
+          if (a.players.some(player => b.players.includes(player))) {
+            expect(a.start < b.end + 15 && b.start < a.end + 15).toBe(false);
+          }
+        })
+      );
+    });
+
+    it('should keep a court free for each existing booking', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(4));
+      const proposal = proposeSchedule(
+        bracket,
+        [{ ...day('2025-06-28'), blocked: [{ startTime: '09:00', endTime: '10:00' }] }],
+        { courts: 2, matchDuration: 60, restTime: 0 }
+      );
+
+      expect(proposal.matches.map(match => match.startTime)).toEqual(['09:00', '10:00', '11:00']);
+    });
+
+    it('should report matches that do not fit', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(4));
+      const proposal = proposeSchedule(bracket, [day('2025-06-28', '09:00', '11:00')], {
+        courts: 1,
+        matchDuration: 60,
+        restTime: 0,
+      });
+
+      expect(proposal.matches.map(match => match.matchId)).toEqual(['wb-r1-m1', 'wb-r1-m2']);
+      expect(proposal.unscheduled).toEqual(['wb-r2-m1']);
+    });
+
+    it('should skip byes and completed matches', () => {
+      const bracket = generateBracket('single_elimination', createParticipants(3));
+      const proposal = proposeSchedule(bracket, [day('2025-06-28')], {
+        courts: 2,
+        matchDuration: 60,
+        restTime: 0,
+      });
+
+      expect(proposal.matches).toHaveLength(2);
+    });
+  });
+
+  describe('getScheduleBookings', () => {
+    it('should merge back-to-back matches on the same court', () => {
+      const bookings = getScheduleBookings({
+        matches: [
+          { matchId: 'a', court: 1, date: '2025-06-28', startTime: '09:00', endTime: '10:00' },
+          { matchId: 'b', court: 2, date: '2025-06-28', startTime: '09:00', endTime: '10:00' },
+          { matchId: 'c', court: 1, date: '2025-06-28', startTime: '10:00', endTime: '11:00' },
+          { matchId: 'd', court: 1, date: '2025-06-28', startTime: '12:00', endTime: '13:00' },
+        ],
+        unscheduled: [],
+      });
+
+      expect(bookings).toEqual([
+        { court: 1, date: '2025-06-28', startTime: '09:00', endTime: '11:00', matchIds: ['a', 'c'] },
+        { court: 1, date: '2025-06-28', startTime: '12:00', endTime: '13:00', matchIds: ['d'] },
+        { court: 2, date: '2025-06-28', startTime: '09:00', endTime: '10:00', matchIds: ['b'] },
+      ]);
+    });
+  });
+});
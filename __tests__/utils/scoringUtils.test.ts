@@ -0,0 +1,213 @@
+import {
+  calculateLiveScore,
+  createScoreEvent,
+  getScoringModel,
+  toMatchScore,
+} from '@features/matches/utils/scoringUtils';
+import { ScoreEvent, ScoreSide, ScoringModel } from '@features/matches/types';
+
+const points = (side: ScoreSide, count: number): ScoreEvent[] =>
+  Array.from({ length: count }, () => createScoreEvent('point', side));
+
+const score = (side: ScoreSide, value: number): ScoreEvent => createScoreEvent('point', side, value);
+
+const outs = (count: number): ScoreEvent[] => Array.from({ length: count }, () => createScoreEvent('out'));
+
+const endPeriod = (): ScoreEvent => createScoreEvent('end_period');
+
+/** Games in tennis: four straight points each */
+const games = (side: ScoreSide, count: number): ScoreEvent[] => points(side, count * 4);
+
+const model = (sport: string): ScoringModel => getScoringModel(sport)!;
+
+describe('scoringUtils', () => {
+  describe('getScoringModel', () => {
+    it('should match sports case-insensitively', () => {
+      expect(getScoringModel('Tennis')?.structure).toBe('sets');
+      expect(getScoringModel(' table tennis ')?.structure).toBe('sets');
+      expect(getScoringModel('soccer')).toBe(getScoringModel('Football'));
+      expect(getScoringModel('Other')).toBeUndefined();
+    });
+  });
+
+  describe('sets and games', () => {
+    it('should show tennis points, deuce and advantage', () => {
+      const tennis = model('Tennis');
+
+      expect(calculateLiveScore(tennis, points('team1', 2)).gamePoints).toEqual({ team1: '30', team2: '0' });
+      const deuce = [...points('team1', 3), ...points('team2', 3)];
+      expect(calculateLiveScore(tennis, deuce).gamePoints).toEqual({ team1: '40', team2: '40' });
+      expect(calculateLiveScore(tennis, [...deuce, ...points('team2', 1)]).gamePoints).toEqual({
+        team1: '40',
+        team2: 'AD',
+      });
+
+      const game = calculateLiveScore(tennis, [...deuce, ...points('team2', 2)]);
+      expect(game.units[0]).toMatchObject({ team1: 0, team2: 1 });
+      expect(game.gamePoints).toEqual({ team1: '0', team2: '0' });
+    });
+
+    it('should play a tiebreak at six games all', () => {
+      const tennis = model('Tennis');
+      const sixAll = [...games('team1', 5), ...games('team2', 6), ...games('team1', 1)];
+
+      const tiebreak = calculateLiveScore(tennis, [...sixAll, ...points('team1', 6), ...points('team2', 6)]);
+      expect(tiebreak.units[0]).toMatchObject({ team1: 6, team2: 6, isComplete: false });
+      expect(tiebreak.gamePoints).toEqual({ team1: '6', team2: '6' });
+
+      const set = calculateLiveScore(tennis, [
+        ...sixAll,
+        ...points('team1', 6),
+        ...points('team2', 6),
+        ...points('team2', 2),
+      ]);
+      expect(set.units[0]).toMatchObject({ team1: 6, team2: 7, winner: 'team2', isComplete: true });
+      expect(set.units).toHaveLength(2);
+      expect(set.totals).toEqual({ team1: 0, team2: 1 });
+    });
+
+    it('should win the match in straight sets and ignore later events', () => {
+      const result = calculateLiveScore(model('Tennis'), [
+        ...games('team1', 6),
+        ...games('team1', 6),
+        ...points('team2', 4),
+      ]);
+
+      expect(result.isComplete).toBe(true);
+      expect(result.winner).toBe('team1');
+      expect(result.units).toHaveLength(2);
+      expect(result.gamePoints).toBeUndefined();
+    });
+
+    it('should count badminton points straight towards the game up to the cap', () => {
+      const badminton = model('Badminton');
+
+      const extended = calculateLiveScore(badminton, [...points('team1', 20), ...points('team2', 20), ...points('team1', 1)]);
+      expect(extended.units[0].isComplete).toBe(false);
+
+      const rallies = Array.from({ length: 29 }, () => [...points('team1', 1), ...points('team2', 1)]).flat();
+      const capped = calculateLiveScore(badminton, [...rallies, ...points('team2', 1)]);
+      expect(capped.units[0]).toMatchObject({ team1: 29, team2: 30, winner: 'team2' });
+    });
+
+    it('should use the deciding set target', () => {
+      const volleyball = model('Volleyball');
+      const twoAll = [
+        ...points('team1', 25),
+        ...points('team2', 25),
+        ...points('team1', 25),
+        ...points('team2', 25),
+      ];
+
+      const result = calculateLiveScore(volleyball, [...twoAll, ...points('team1', 15)]);
+      expect(result.units[4]).toMatchObject({ label: 'Set 5', team1: 15, winner: 'team1' });
+      expect(result.winner).toBe('team1');
+    });
+  });
+
+  describe('innings', () => {
+    it('should end the chase as soon as the side batting second goes ahead', () => {
+      const cricket = model('Cricket');
+      const firstInnings = [score('team1', 4), score('team1', 6), ...outs(10)];
+
+      const chasing = calculateLiveScore(cricket, [...firstInnings, score('team2', 6)]);
+      expect(chasing.batting).toBe('team2');
+      expect(chasing.outs).toBe(0);
+      expect(chasing.isComplete).toBe(false);
+
+      const result = calculateLiveScore(cricket, [...firstInnings, score('team2', 6), score('team2', 6)]);
+      expect(result.isComplete).toBe(true);
+      expect(result.winner).toBe('team2');
+      expect(result.totals).toEqual({ team1: 10, team2: 12 });
+    });
+
+    it('should credit runs to the batting side and switch after three outs', () => {
+      const result = calculateLiveScore(model('Baseball'), [
+        score('team2', 1),
+        ...outs(3),
+        score('team1', 1),
+        ...outs(3),
+      ]);
+
+      expect(result.units[0]).toMatchObject({ team1: 1, team2: 1, isComplete: true });
+      expect(result.units[1].label).toBe('Inning 2');
+      expect(result.batting).toBe('team1');
+    });
+
+    it('should skip the last turn when the home side is already ahead', () => {
+      const eightInnings = Array.from({ length: 8 }, () => [...outs(3), ...outs(3)]).flat();
+      const result = calculateLiveScore(model('Baseball'), [
+        ...outs(3),
+        score('team2', 2),
+        ...outs(3),
+        ...eightInnings.slice(0, 7 * 6),
+        ...outs(3),
+      ]);
+
+      expect(result.units).toHaveLength(9);
+      expect(result.isComplete).toBe(true);
+      expect(result.winner).toBe('team2');
+    });
+
+    it('should play extra innings after a tie', () => {
+      const nineInnings = Array.from({ length: 9 }, () => [...outs(3), ...outs(3)]).flat();
+      const result = calculateLiveScore(model('Baseball'), nineInnings);
+
+      expect(result.isComplete).toBe(false);
+      expect(result.units).toHaveLength(10);
+    });
+  });
+
+  describe('periods', () => {
+    it('should add up points per quarter and go to overtime on a tie', () => {
+      const basketball = model('Basketball');
+      const regulation = [
+        score('team1', 3),
+        endPeriod(),
+        score('team2', 2),
+        score('team2', 1),
+        endPeriod(),
+        endPeriod(),
+        endPeriod(),
+      ];
+
+      const overtime = calculateLiveScore(basketball, regulation);
+      expect(overtime.units.map(unit => unit.label)).toEqual(['Quarter 1', 'Quarter 2', 'Quarter 3', 'Quarter 4', 'OT']);
+      expect(overtime.isComplete).toBe(false);
+
+      const result = calculateLiveScore(basketball, [...regulation, score('team1', 2), endPeriod()]);
+      expect(result.totals).toEqual({ team1: 5, team2: 3 });
+      expect(result.winner).toBe('team1');
+    });
+
+    it('should allow a football draw', () => {
+      const result = calculateLiveScore(model('Football'), [score('team1', 1), endPeriod(), score('team2', 1), endPeriod()]);
+
+      expect(result.isComplete).toBe(true);
+      expect(result.winner).toBe('draw');
+    });
+  });
+
+  describe('undo', () => {
+    it('should restore the previous score when the last event is dropped', () => {
+      const tennis = model('Tennis');
+      const events = [...games('team1', 5), ...points('team1', 4)];
+
+      const undone = calculateLiveScore(tennis, events.slice(0, -1));
+      expect(undone.units).toHaveLength(1);
+      expect(undone.units[0].team1).toBe(5);
+      expect(undone.gamePoints).toEqual({ team1: '40', team2: '0' });
+    });
+  });
+
+  describe('toMatchScore', () => {
+    it('should carry totals, breakdown and the event log', () => {
+      const events = [score('team1', 2), endPeriod()];
+      const matchScore = toMatchScore(calculateLiveScore(model('Basketball'), events), events);
+
+      expect(matchScore).toMatchObject({ team1: 2, team2: 0, events });
+      expect(matchScore.winner).toBeUndefined();
+      expect(matchScore.breakdown).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  calculateStandings,
+  compareStandings,
+  getStandingsOptions,
+  DEFAULT_POINTS_SCHEME,
+} from '@features/tournaments/utils/standingsUtils';
+import {
+  BracketMatch,
+  TournamentBracket,
+  TournamentParticipant,
+} from '@features/tournaments/types';
+
+const createParticipants = (count: number): TournamentParticipant[] =>
+  Array.from({length: count}, (_, index) => ({
+    _id: `p${index + 1}`,
+    firstName: `Player`,
+    lastName: `${index + 1}`,
+    seed: index + 1,
+  }));
+
+let matchCount = 0;
+
+/**
+ * Completed match; the higher score wins and equal scores are a draw
+ */
+const result = (
+  player1: string,
+  player2: string,
+  score1: number,
+  score2: number,
+): BracketMatch => ({
+  matchId: `rr-r1-m${++matchCount}`,
+  player1,
+  player2,
+  score: {player1: score1, player2: score2},
+  winner: score1 === score2 ? undefined : score1 > score2 ? player1 : player2,
+  status: 'completed',
+});
+
+const createBracket = (matches: BracketMatch[]): TournamentBracket => ({
+  format: 'round_robin',
+  rounds: [{round: 1, matches}],
+});
+
+const ranking = (
+  bracket: TournamentBracket,
+  participants: TournamentParticipant[],
+  options = {},
+) =>
+  calculateStandings(bracket, participants, options).map(standing => [
+    standing.participantId,
+    standing.rank,
+  ]);
+
+describe('standingsUtils', () => {
+  describe('calculateStandings', () => {
+    it('should tally results with the default 3-1-0 scheme', () => {
+      const participants = createParticipants(3);
+      const bracket = createBracket([
+        result('p1', 'p2', 2, 1),
+        result('p1', 'p3', 1, 1),
+        result('p2', 'p3', 3, 0),
+      ]);
+
+      const [first, second, third] = calculateStandings(bracket, participants);
+
+      expect(first).toMatchObject({
+        participantId: 'p1',
+        played: 2,
+        wins: 1,
+        draws: 1,
+        losses: 0,
+        points: 4,
+      });
+      expect(second).toMatchObject({
+        participantId: 'p2',
+        points: 3,
+        scoreFor: 4,
+        scoreAgainst: 2,
+        scoreDifference: 2,
+      });
+      expect(third).toMatchObject({participantId: 'p3', points: 1, rank: 3});
+    });
+
+    it('should use a custom points scheme', () => {
+      const participants = createParticipants(2);
+      const bracket = createBracket([result('p1', 'p2', 1, 1)]);
+
+      const standings = calculateStandings(bracket, participants, {
+        pointsScheme: {win: 2, draw: 1, loss: 0},
+      });
+      expect(standings.map(standing => standing.points)).toEqual([1, 1]);
+    });
+
+    it('should ignore byes and unfinished matches', () => {
+      const participants = createParticipants(2);
+      const bracket = createBracket([
+        {
+          matchId: 'bye',
+          player1: 'p1',
+          winner: 'p1',
+          status: 'completed',
+          isBye: true,
+        },
+        {matchId: 'later', player1: 'p1', player2: 'p2', status: 'scheduled'},
+      ]);
+
+      expect(
+        calculateStandings(bracket, participants).map(
+          standing => standing.played,
+        ),
+      ).toEqual([0, 0]);
+    });
+
+    describe('tiebreakers', () => {
+      const participants = createParticipants(4);
+      // p2 and p3 finish level on 3 points: p3 won their meeting, p2 has the better difference
+      const bracket = createBracket([
+        result('p3', 'p2', 1, 0),
+        result('p2', 'p4', 6, 0),
+        result('p1', 'p3', 1, 0),
+        result('p1', 'p4', 1, 0),
+      ]);
+
+      it('should break ties head-to-head before score difference by default', () => {
+        expect(ranking(bracket, participants)).toEqual([
+          ['p1', 1],
+          ['p3', 2],
+          ['p2', 3],
+          ['p4', 4],
+        ]);
+      });
+
+      it('should apply tiebreakers in the configured order', () => {
+        expect(
+          ranking(bracket, participants, {tiebreakers: ['score_difference']}),
+        ).toEqual([
+          ['p1', 1],
+          ['p2', 2],
+          ['p3', 3],
+          ['p4', 4],
+        ]);
+        expect(
+          ranking(bracket, participants, {
+            tiebreakers: ['fewest_losses', 'points_scored'],
+          }),
+        ).toEqual([
+          ['p1', 1],
+          ['p2', 2],
+          ['p3', 3],
+          ['p4', 4],
+        ]);
+      });
+
+      it('should share a rank when still level after every tiebreaker', () => {
+        expect(
+          ranking(bracket, participants, {tiebreakers: ['fewest_losses']}),
+        ).toEqual([
+          ['p1', 1],
+          ['p2', 2],
+          ['p3', 2],
+          ['p4', 4],
+        ]);
+      });
+    });
+
+    it('should rank participants without results together', () => {
+      expect(ranking(createBracket([]), createParticipants(3))).toEqual([
+        ['p1', 1],
+        ['p2', 1],
+        ['p3', 1],
+      ]);
+    });
+
+    it('should score a Swiss event 1 for a win and ½ for a draw', () => {
+      const standings = calculateStandings(
+        createBracket([result('p1', 'p2', 1, 0), result('p3', 'p4', 1, 1)]),
+        createParticipants(4),
+        {format: 'swiss', pointsScheme: DEFAULT_POINTS_SCHEME},
+      );
+
+      expect(
+        standings.map(standing => [standing.participantId, standing.points]),
+      ).toEqual([
+        ['p1', 1],
+        ['p3', 0.5],
+        ['p4', 0.5],
+        ['p2', 0],
+      ]);
+    });
+  });
+
+  describe('getStandingsOptions', () => {
+    it('should fall back to the defaults', () => {
+      expect(getStandingsOptions({}).pointsScheme).toEqual(
+        DEFAULT_POINTS_SCHEME,
+      );
+      expect(
+        getStandingsOptions({rules: {tiebreakers: ['fewest_losses']}})
+          .tiebreakers,
+      ).toEqual(['fewest_losses']);
+      expect(getStandingsOptions({format: 'swiss'}).format).toBe('swiss');
+    });
+  });
+
+  describe('compareStandings', () => {
+    it('should report missing participants and differing values', () => {
+      const participants = createParticipants(3);
+      const expected = calculateStandings(
+        createBracket([result('p1', 'p2', 2, 0)]),
+        participants,
+      );
+      const actual = [{...expected[0], points: 0}, expected[1]];
+
+      expect(compareStandings(expected, actual)).toEqual([
+        {participantId: 'p1', field: 'points', expected: 3, actual: 0},
+        {participantId: expected[2].participantId, field: 'missing'},
+      ]);
+    });
+  });
+});
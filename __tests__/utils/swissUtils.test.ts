@@ -0,0 +1,178 @@
+import { generateBracket, recordMatchResult } from '@features/tournaments/utils/bracketUtils';
+import {
+  addSwissRound,
+  calculateSwissStandings,
+  generateSwissRound,
+  getRecommendedSwissRounds,
+} from '@features/tournaments/utils/swissUtils';
+import { TournamentBracket, TournamentParticipant } from '@features/tournaments/types';
+
+const createParticipants = (count: number): TournamentParticipant[] =>
+  Array.from({ length: count }, (_, index) => ({
+    _id: `p${index + 1}`,
+    firstName: `Player`,
+    lastName: `${index + 1}`,
+    seed: index + 1,
+  }));
+
+const latestRound = (bracket: TournamentBracket) => bracket.rounds[bracket.rounds.length - 1];
+
+const pairingKey = (player1?: string, player2?: string) => [player1, player2].sort().join('-');
+
+/**
+ * Complete the latest round, letting the higher seed (lower id number) win
+ */
+const playRound = (bracket: TournamentBracket): TournamentBracket => {
+  return latestRound(bracket)
+    .matches.filter(match => match.status !== 'completed')
+    .reduce((current, match) => {
+      const seed1 = Number(match.player1!.slice(1));
+      const seed2 = Number(match.player2!.slice(1));
+      return recordMatchResult(
+        current,
+        match.matchId,
+        seed1 < seed2 ? { player1: 1, player2: 0 } : { player1: 0, player2: 1 }
+      );
+    }, bracket);
+};
+
+describe('swissUtils', () => {
+  describe('getRecommendedSwissRounds', () => {
+    it('should play enough rounds to separate a single winner', () => {
+      expect(getRecommendedSwissRounds(2)).toBe(1);
+      expect(getRecommendedSwissRounds(8)).toBe(3);
+      expect(getRecommendedSwissRounds(9)).toBe(4);
+    });
+  });
+
+  describe('pairings', () => {
+    it('should pair the top half against the bottom half in round one', () => {
+      const bracket = generateBracket('swiss', createParticipants(8));
+
+      expect(bracket.format).toBe('swiss');
+      expect(bracket.rounds[0].matches.map(match => [match.player1, match.player2])).toEqual([
+        ['p1', 'p5'],
+        ['p2', 'p6'],
+        ['p3', 'p7'],
+        ['p4', 'p8'],
+      ]);
+    });
+
+    it('should pair players on equal points in later rounds', () => {
+      const participants = createParticipants(8);
+      const bracket = addSwissRound(playRound(generateBracket('swiss', participants)), participants);
+
+      const winners = ['p1', 'p2', 'p3', 'p4'];
+      latestRound(bracket).matches.forEach(match => {
+        expect(winners.includes(match.player1!)).toBe(winners.includes(match.player2!));
+      });
+    });
+
+    it('should never repeat a pairing while an alternative exists', () => {
+      const participants = createParticipants(8);
+      let bracket = generateBracket('swiss', participants);
+      bracket = playRound(bracket);
+      bracket = playRound(addSwissRound(bracket, participants));
+      bracket = playRound(addSwissRound(bracket, participants));
+
+      const pairings = bracket.rounds
+        .flatMap(round => round.matches)
+        .map(match => pairingKey(match.player1, match.player2));
+      expect(new Set(pairings).size).toBe(pairings.length);
+    });
+
+    it('should allow rematches once every player has met every other', () => {
+      const participants = createParticipants(4);
+      let bracket = playRound(generateBracket('swiss', participants));
+      bracket = playRound(addSwissRound(bracket, participants, 4));
+      bracket = playRound(addSwissRound(bracket, participants, 4));
+
+      const matches = latestRound(addSwissRound(bracket, participants, 4)).matches;
+
+      expect(matches).toHaveLength(2);
+      expect(matches.flatMap(match => [match.player1, match.player2]).sort()).toEqual(['p1', 'p2', 'p3', 'p4']);
+    });
+
+    it('should pair a large field that needs a rematch within the test timeout', () => {
+      // p1-p15 have each played p16-p30, so one pair must cross between the two odd groups
+      const participants = createParticipants(30);
+      const played = participants.slice(0, 15).flatMap((player, row) =>
+        participants.slice(15).map((opponent, column) => ({
+          matchId: `m${row * 15 + column + 1}`,
+          player1: player._id,
+          player2: opponent._id,
+          winner: player._id,
+          status: 'completed' as const,
+        }))
+      );
+
+      const round = generateSwissRound(participants, { format: 'swiss', rounds: [{ round: 1, matches: played }] });
+
+      const previous = new Set(played.map(match => pairingKey(match.player1, match.player2)));
+      const rematches = round.matches.filter(match => previous.has(pairingKey(match.player1, match.player2)));
+      expect(round.matches).toHaveLength(15);
+      expect(rematches).toHaveLength(1);
+    });
+
+    it('should give the bye to a different low-ranked player each round', () => {
+      const participants = createParticipants(5);
+      let bracket = playRound(generateBracket('swiss', participants));
+      bracket = playRound(addSwissRound(bracket, participants));
+
+      const byes = bracket.rounds.map(round => round.matches.find(match => match.isBye)!);
+      expect(byes[0].player1).toBe('p5');
+      expect(byes[1].player1).not.toBe('p5');
+      expect(byes.every(match => match.status === 'completed' && match.winner === match.player1)).toBe(
+        true
+      );
+    });
+
+    it('should wait for the current round and stop after the last round', () => {
+      const participants = createParticipants(4);
+      const bracket = generateBracket('swiss', participants);
+
+      expect(() => addSwissRound(bracket, participants)).toThrow(
+        'Finish the current round before pairing the next one'
+      );
+      expect(() => addSwissRound(playRound(bracket), participants, 1)).toThrow(
+        'All Swiss rounds have been played'
+      );
+    });
+  });
+
+  describe('calculateSwissStandings', () => {
+    it('should score draws as half a point', () => {
+      const participants = createParticipants(2);
+      const bracket = recordMatchResult(generateBracket('swiss', participants), 'sw-r1-m1', {
+        player1: 1,
+        player2: 1,
+      });
+
+      const standings = calculateSwissStandings(bracket, participants);
+      expect(standings.map(standing => [standing.participantId, standing.points, standing.draws])).toEqual([
+        ['p1', 0.5, 1],
+        ['p2', 0.5, 1],
+      ]);
+    });
+
+    it('should break ties with Buchholz and Sonneborn-Berger', () => {
+      const participants = createParticipants(4);
+      let bracket = playRound(generateBracket('swiss', participants));
+      bracket = playRound(addSwissRound(bracket, participants));
+
+      const standings = calculateSwissStandings(bracket, participants);
+      const byId = Object.fromEntries(standings.map(standing => [standing.participantId, standing]));
+
+      expect(standings[0].participantId).toBe('p1');
+      expect(byId.p1.points).toBe(2);
+      // p1 beat p3 (1 point) and p2 (1 point)
+      expect(byId.p1.buchholz).toBe(2);
+      expect(byId.p1.sonnebornBerger).toBe(2);
+      // p2 and p3 are level on every tiebreak, so seed decides
+      expect(byId.p2.points).toBe(byId.p3.points);
+      expect(byId.p2.buchholz).toBe(byId.p3.buchholz);
+      expect(byId.p2.rank).toBeLessThan(byId.p3.rank);
+      expect(standings.map(standing => standing.rank)).toEqual([1, 2, 3, 4]);
+    });
+  });
+});
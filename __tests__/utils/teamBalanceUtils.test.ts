@@ -0,0 +1,95 @@
+import {
+  balanceTeams,
+  getPlayerRating,
+  getSkillGap,
+  swapPlayers,
+  toTeamLineups,
+} from '@features/matches/utils/teamBalanceUtils';
+import { Participant } from '@features/matches/types';
+
+const createParticipant = (id: string, profile?: Participant['profile']): Participant => ({
+  _id: id,
+  firstName: 'Player',
+  lastName: id,
+  username: id,
+  profile,
+});
+
+const ratings = { a: 4, b: 3, c: 3, d: 2, e: 2, f: 1 };
+
+const teamOf = (teams: string[][], id: string) => teams.findIndex(team => team.includes(id));
+
+describe('teamBalanceUtils', () => {
+  describe('getPlayerRating', () => {
+    it('should rate players by skill level', () => {
+      expect(getPlayerRating(createParticipant('a', { skillLevel: 'expert' }))).toBe(4);
+      expect(getPlayerRating(createParticipant('a', { skillLevel: 'Beginner' }))).toBe(1);
+    });
+
+    it('should fall back to the match skill level, then intermediate', () => {
+      expect(getPlayerRating(createParticipant('a'), 'advanced')).toBe(3);
+      expect(getPlayerRating(createParticipant('a'))).toBe(2);
+    });
+
+    it('should nudge the rating by win rate as matches are played', () => {
+      const unbeaten = (played: number) =>
+        createParticipant('a', { skillLevel: 'advanced', statistics: { matchesPlayed: played, matchesWon: played } });
+
+      expect(getPlayerRating(unbeaten(10))).toBeCloseTo(3.5);
+      expect(getPlayerRating(unbeaten(90))).toBeCloseTo(3.9);
+      expect(
+        getPlayerRating(
+          createParticipant('a', { skillLevel: 'advanced', statistics: { matchesPlayed: 10, matchesWon: 0 } })
+        )
+      ).toBeCloseTo(2.5);
+    });
+  });
+
+  describe('balanceTeams', () => {
+    it('should split players into even sides with the smallest gap', () => {
+      const teams = balanceTeams(ratings, 2);
+
+      expect(teams.map(team => team.length)).toEqual([3, 3]);
+      expect(getSkillGap(teams, ratings)).toBe(1);
+    });
+
+    it('should keep sides within one player of each other', () => {
+      const teams = balanceTeams({ ...ratings, g: 2 }, 3);
+      expect(teams.map(team => team.length).sort()).toEqual([2, 2, 3]);
+    });
+
+    it('should keep pairs on the same side', () => {
+      const teams = balanceTeams(ratings, 2, [['a', 'b'], ['e', 'f']]);
+
+      expect(teamOf(teams, 'a')).toBe(teamOf(teams, 'b'));
+      expect(teamOf(teams, 'e')).toBe(teamOf(teams, 'f'));
+      expect(teams.map(team => team.length)).toEqual([3, 3]);
+    });
+
+    it('should ignore pairs with players who are no longer in the match', () => {
+      expect(() => balanceTeams(ratings, 2, [['a', 'gone']])).not.toThrow();
+    });
+
+    it('should reject groups too large for one side', () => {
+      expect(() => balanceTeams(ratings, 2, [['a', 'b'], ['b', 'c'], ['c', 'd']])).toThrow(
+        'Players kept together cannot fill more than a team of 3'
+      );
+    });
+
+    it('should reject splits without enough players', () => {
+      expect(() => balanceTeams(ratings, 1)).toThrow('Split into at least 2 teams');
+      expect(() => balanceTeams({ a: 1, b: 2 }, 3)).toThrow('3 teams need at least 3 players');
+    });
+  });
+
+  it('should swap two players between sides', () => {
+    expect(swapPlayers([['a', 'b'], ['c', 'd']], 'b', 'c')).toEqual([['a', 'c'], ['b', 'd']]);
+  });
+
+  it('should name the sides in order', () => {
+    expect(toTeamLineups([['a'], ['b']])).toEqual([
+      { name: 'Team A', playerIds: ['a'] },
+      { name: 'Team B', playerIds: ['b'] },
+    ]);
+  });
+});
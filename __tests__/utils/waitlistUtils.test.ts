@@ -0,0 +1,92 @@
+import {
+  getOfferExpiry,
+  getOpenSpots,
+  getPromotions,
+  getWaitlistPosition,
+  hasActiveOffer,
+  isWaitlistFull,
+  moveWaitlistEntry,
+} from '@features/matches/utils/waitlistUtils';
+import { Match, MatchWaitlist, WaitlistEntry } from '@features/matches/types';
+
+const now = new Date('2025-06-28T10:00:00Z');
+
+const createEntry = (id: string, overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  _id: id,
+  user: { _id: `user-${id}`, firstName: 'Player', lastName: id, username: id },
+  status: 'waiting',
+  joinedAt: '2025-06-27T10:00:00Z',
+  ...overrides,
+});
+
+const createWaitlist = (entries: WaitlistEntry[], maxLength?: number): MatchWaitlist => ({
+  matchId: 'm1',
+  entries,
+  maxLength,
+});
+
+const createMatch = (currentParticipants: number, maxParticipants = 4): Match =>
+  ({ _id: 'm1', currentParticipants, maxParticipants, participants: [], status: 'upcoming' } as unknown as Match);
+
+const offered = (id: string, expiresAt: string) =>
+  createEntry(id, { status: 'offered', offerExpiresAt: expiresAt });
+
+describe('waitlistUtils', () => {
+  it('should count positions among waiting players only', () => {
+    const waitlist = createWaitlist([
+      offered('a', '2025-06-28T10:30:00Z'),
+      createEntry('b'),
+      createEntry('c'),
+    ]);
+
+    expect(getWaitlistPosition(waitlist, 'user-c')).toBe(2);
+    expect(getWaitlistPosition(waitlist, 'user-a')).toBeNull();
+    expect(getWaitlistPosition(undefined, 'user-c')).toBeNull();
+  });
+
+  it('should hold a spot only while the offer is active', () => {
+    expect(hasActiveOffer(offered('a', '2025-06-28T10:30:00Z'), now)).toBe(true);
+    expect(hasActiveOffer(offered('a', '2025-06-28T09:59:00Z'), now)).toBe(false);
+
+    const match = createMatch(3);
+    expect(getOpenSpots(match, createWaitlist([offered('a', '2025-06-28T10:30:00Z')]), now)).toBe(0);
+    expect(getOpenSpots(match, createWaitlist([offered('a', '2025-06-28T09:00:00Z')]), now)).toBe(1);
+  });
+
+  it('should promote the first players in line into the open spots', () => {
+    const waitlist = createWaitlist([createEntry('a'), createEntry('b'), createEntry('c')]);
+
+    expect(getPromotions(createMatch(2), waitlist, now).map(entry => entry._id)).toEqual(['a', 'b']);
+    expect(getPromotions(createMatch(4), waitlist, now)).toEqual([]);
+  });
+
+  it('should not promote past spots already held for someone', () => {
+    const waitlist = createWaitlist([offered('a', '2025-06-28T10:30:00Z'), createEntry('b')]);
+    expect(getPromotions(createMatch(3), waitlist, now)).toEqual([]);
+  });
+
+  it('should report a capped queue as full', () => {
+    const entries = [createEntry('a'), createEntry('b')];
+    expect(isWaitlistFull(createWaitlist(entries, 2))).toBe(true);
+    expect(isWaitlistFull(createWaitlist(entries, 3))).toBe(false);
+    expect(isWaitlistFull(createWaitlist(entries))).toBe(false);
+  });
+
+  it('should move an entry within the waiting queue', () => {
+    const waitlist = createWaitlist([
+      offered('x', '2025-06-28T10:30:00Z'),
+      createEntry('a'),
+      createEntry('b'),
+      createEntry('c'),
+    ]);
+
+    expect(moveWaitlistEntry(waitlist, 'c', 0)).toEqual(['c', 'a', 'b']);
+    expect(moveWaitlistEntry(waitlist, 'a', 10)).toEqual(['b', 'c', 'a']);
+    expect(moveWaitlistEntry(waitlist, 'x', 0)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should expire offers after the confirm window', () => {
+    expect(getOfferExpiry(now)).toBe('2025-06-28T10:30:00.000Z');
+    expect(getOfferExpiry(now, 5)).toBe('2025-06-28T10:05:00.000Z');
+  });
+});
@@ -1,6 +1,7 @@
 declare module '@env' {
   export const API_BASE_URL: string;
   export const SOCKET_URL: string;
+  export const WEB_URL: string;
   export const STRIPE_PUBLISHABLE_KEY: string;
   export const GOOGLE_MAPS_API_KEY_ANDROID: string;
   export const GOOGLE_MAPS_API_KEY_IOS: string;
@@ -1,7 +1,7 @@
 module.exports = {
   preset: 'react-native',
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|react-redux|@reduxjs/toolkit|@react-native-firebase|@stripe|react-native-maps|@react-native-community|react-native-biometrics|@react-native-google-signin|@invertase|react-native-fbsdk-next)/)',
+    'node_modules/(?!(react-native|@react-native|react-redux|@reduxjs/toolkit|immer|@react-native-firebase|@stripe|react-native-maps|@react-native-community|react-native-biometrics|@react-native-google-signin|@invertase|react-native-fbsdk-next)/)',
   ],
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
   moduleNameMapper: {
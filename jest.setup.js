@@ -18,6 +18,11 @@ jest.mock('react-native-keychain', () => ({
   resetGenericPassword: jest.fn(() => Promise.resolve()),
 }));
 
+// Mock NetInfo with the package's own jest mock
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
 // Suppress console errors during tests (but keep them for debugging)
 const originalError = console.error;
 const originalWarn = console.warn;
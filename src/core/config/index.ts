@@ -1,3 +1,4 @@
 // Export all configuration
 export * from './api';
 export * from './firebase';
+export * from './linking';
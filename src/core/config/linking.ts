@@ -0,0 +1,4 @@
+export const LINKING_CONFIG = {
+  SCHEME: 'sportification',
+  WEB_URL: process.env.WEB_URL || 'https://sportification.app',
+};
@@ -20,9 +20,17 @@ export const SPORTS: Sport[] = [
   { name: 'Other', icon: 'dots-horizontal' },
 ];
 
-export const TOURNAMENT_FORMATS = [
-  { name: 'single-elimination', icon: 'tournament', label: 'Single Elimination' },
-  { name: 'double-elimination', icon: 'tournament', label: 'Double Elimination' },
-  { name: 'round-robin', icon: 'repeat', label: 'Round Robin' },
-  { name: 'swiss', icon: 'chess-rook', label: 'Swiss' },
+export interface TournamentFormatOption {
+  name: string;
+  icon: string;
+  label: string;
+  /** Fewest participants needed to start a tournament in this format */
+  minParticipants: number;
+}
+
+export const TOURNAMENT_FORMATS: TournamentFormatOption[] = [
+  { name: 'single_elimination', icon: 'tournament', label: 'Single Elimination', minParticipants: 4 },
+  { name: 'double_elimination', icon: 'tournament', label: 'Double Elimination', minParticipants: 4 },
+  { name: 'round_robin', icon: 'repeat', label: 'Round Robin', minParticipants: 3 },
+  { name: 'swiss', icon: 'chess-rook', label: 'Swiss', minParticipants: 4 },
 ];
@@ -93,6 +93,28 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Error for requests held in the offline outbox until the device is back online
+ */
+export class OfflineQueuedError extends AppError {
+  constructor(message: string = 'Saved and will be sent when you are back online', details?: any) {
+    super(message, 'QUEUED_OFFLINE', 0, details);
+    this.name = 'OfflineQueuedError';
+    Object.setPrototypeOf(this, OfflineQueuedError.prototype);
+  }
+}
+
+/**
+ * Error for API responses that do not have the shape the app expects
+ */
+export class InvalidResponseError extends AppError {
+  constructor(message: string = 'The server sent an unexpected response', details?: any) {
+    super(message, 'INVALID_RESPONSE', undefined, details);
+    this.name = 'InvalidResponseError';
+    Object.setPrototypeOf(this, InvalidResponseError.prototype);
+  }
+}
+
 /**
  * Error handler utility
  */
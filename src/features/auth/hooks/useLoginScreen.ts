@@ -1,10 +1,13 @@
 import { useState, useCallback } from 'react';
 import { useForm } from '@shared/hooks';
+import { useAppSelector } from '@store/hooks';
+import { selectPendingInviteCode } from '@features/matches/store';
 import { authService } from '../services';
 
 export function useLoginScreen(navigation: any) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const pendingInviteCode = useAppSelector(selectPendingInviteCode);
 
   const { values, errors, handleChange, validate } = useForm({
     initialValues: {
@@ -58,6 +61,7 @@ export function useLoginScreen(navigation: any) {
     errors,
     error,
     isSubmitting,
+    hasPendingInvite: Boolean(pendingInviteCode),
     onChange: handleChange,
     onSubmit: handleSubmit,
     onRegister: handleRegister,
@@ -64,7 +64,9 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
                 { color: theme.colors.textSecondary },
               ]}
             >
-              Sign in to continue your sports journey
+              {props.hasPendingInvite
+                ? 'Sign in to join the match you were invited to'
+                : 'Sign in to continue your sports journey'}
             </Text>
           </Animated.View>
 
@@ -1,6 +1,5 @@
 import { logger } from '@core';
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { 
   LoginRequest, 
   LoginResponse, 
@@ -11,20 +10,13 @@ import {
 } from '@features/auth/types';
 import { ApiResponse } from '../../types/api';
 import { apiService } from '@shared/services/api';
-import { unwrapApiResponse } from '@shared/utils/apiHelpers';
+import { baseQuery } from '@shared/services/baseQuery';
+import { unwrapApiResponse, unwrapNestedData } from '@shared/utils/apiHelpers';
+import { listOf, userSchema } from '@shared/services/responseSchemas';
 
 export const authApi = createApi({
   reducerPath: 'authApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
   tagTypes: ['User', 'Profile', 'Stats', 'Friends'],
   endpoints: (builder) => ({
     login: builder.mutation<LoginResponse, LoginRequest>({
@@ -67,10 +59,7 @@ export const authApi = createApi({
     }),
     getProfile: builder.query<User, void>({
       query: () => '/auth/profile',
-      transformResponse: (response: ApiResponse<{ user: User }>) => {
-        const data = unwrapApiResponse(response);
-        return data.user;
-      },
+      transformResponse: (response: ApiResponse<{ user: User }>) => unwrapNestedData(response, 'user', userSchema),
       providesTags: ['Profile'],
     }),
     updateProfile: builder.mutation<User, Partial<User>>({
@@ -79,7 +68,7 @@ export const authApi = createApi({
         method: 'PUT',
         body: profileData,
       }),
-      transformResponse: (response: ApiResponse<User>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<User>) => unwrapApiResponse(response, userSchema),
       invalidatesTags: ['Profile'],
     }),
     changePassword: builder.mutation<void, { currentPassword: string; newPassword: string }>({
@@ -165,7 +154,7 @@ export const authApi = createApi({
         if (params.limit) queryParams.append('limit', String(params.limit));
         return `/users?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response, listOf(userSchema)),
     }),
     addFriend: builder.mutation<void, string>({
       query: (userId) => ({
@@ -185,7 +174,7 @@ export const authApi = createApi({
     }),
     getFriends: builder.query<User[], void>({
       query: () => '/users/friends',
-      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response, listOf(userSchema)),
       providesTags: ['Friends'],
     }),
   }),
@@ -1,22 +1,13 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { User } from '@features/auth/types';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery } from '@shared/services/baseQuery';
 import { unwrapApiResponse, unwrapNestedData } from '@shared/utils/apiHelpers';
+import { listOf, userSchema } from '@shared/services/responseSchemas';
 
 export const userApi = createApi({
   reducerPath: 'userApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
   tagTypes: ['Friends', 'Users', 'User', 'Profile'],
   endpoints: (builder) => ({
     getUsers: builder.query<User[], { page?: number; limit?: number; search?: string; sport?: string; skillLevel?: string; location?: string }>({
@@ -30,7 +21,7 @@ export const userApi = createApi({
         if (params.location) queryParams.append('location', params.location);
         return `/users?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response, listOf(userSchema)),
       providesTags: ['Users'],
     }),
     getUser: builder.query<{ user: User; relationship?: { isFriend: boolean; friendshipDate?: string } }, string>({
@@ -44,12 +35,12 @@ export const userApi = createApi({
         method: 'PATCH',
         body: profileData,
       }),
-      transformResponse: (response: ApiResponse<{ user: User }>) => unwrapNestedData(response, 'user'),
+      transformResponse: (response: ApiResponse<{ user: User }>) => unwrapNestedData(response, 'user', userSchema),
       invalidatesTags: ['Profile'],
     }),
     getFriends: builder.query<User[], void>({
       query: () => '/users/friends',
-      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response, listOf(userSchema)),
       providesTags: ['Friends'],
     }),
     searchUsers: builder.query<User[], { search?: string; page?: number; limit?: number }>({
@@ -60,7 +51,7 @@ export const userApi = createApi({
         if (params.limit) queryParams.append('limit', String(params.limit));
         return `/users?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response, listOf(userSchema)),
       providesTags: ['Users'],
     }),
     addFriend: builder.mutation<void, string>({
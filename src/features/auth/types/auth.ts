@@ -46,7 +46,15 @@ export interface UserStats {
   winRate?: number;
   tournamentsJoined: number;
   tournamentsWon: number;
+  /** Sportsmanship from post-match reviews, 1–5 */
   averageRating?: number;
+  /** How well the listed skill level matches play, from post-match reviews, 1–5 */
+  skillAccuracy?: number;
+  reviewCount?: number;
+  /** Matches the player checked in to */
+  matchesAttended?: number;
+  /** Matches the player joined but did not check in to */
+  noShows?: number;
 }
 
 export interface Achievement {
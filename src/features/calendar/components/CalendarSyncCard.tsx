@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, Switch, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { Button } from '@shared/components/atoms';
+import { useCalendarSettings } from '../hooks';
+
+/**
+ * CalendarSyncCard
+ *
+ * Opt-in sync of the user's matches, bookings and tournaments to the device
+ * calendar, plus subscribing to the calendar feed or exporting a `.ics` file
+ */
+const CalendarSyncCard: React.FC = () => {
+  const { theme } = useTheme();
+  const props = useCalendarSettings();
+
+  return (
+    <View style={{ padding: theme.spacing.base }}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.md }]}>
+        Calendar
+      </Text>
+
+      <View style={[styles.syncRow, { marginBottom: theme.spacing.md }]}>
+        <View style={styles.syncText}>
+          <Text style={[theme.typography.bodyLarge, { color: theme.colors.text }]}>Sync to device calendar</Text>
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+            Matches, bookings and tournaments stay up to date as they change
+          </Text>
+        </View>
+        <Switch value={props.isSyncEnabled} onValueChange={props.onToggleSync} disabled={props.isUpdating} />
+      </View>
+
+      {props.hasFeed && (
+        <Button
+          title="Subscribe in Calendar App"
+          variant="secondary"
+          icon="calendar-sync"
+          onPress={props.onSubscribe}
+          fullWidth
+          style={{ marginBottom: theme.spacing.sm }}
+        />
+      )}
+      <Button
+        title="Export .ics"
+        variant="outline"
+        icon="calendar-export"
+        onPress={props.onExport}
+        loading={props.isExporting}
+        fullWidth
+      />
+
+      {props.error && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginTop: theme.spacing.sm }]}>
+          {props.error}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  syncText: {
+    flex: 1,
+    marginRight: 12,
+  },
+});
+
+export default CalendarSyncCard;
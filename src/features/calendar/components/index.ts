@@ -0,0 +1 @@
+export { default as CalendarSyncCard } from './CalendarSyncCard';
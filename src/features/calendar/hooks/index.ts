@@ -0,0 +1,2 @@
+export { useCalendarSync } from './useCalendarSync';
+export { useCalendarSettings } from './useCalendarSettings';
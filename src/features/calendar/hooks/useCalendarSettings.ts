@@ -0,0 +1,88 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useEffect, useState } from 'react';
+import { Linking, Share } from 'react-native';
+import { useGetCalendarFeedQuery, useLazyGetMyScheduleQuery } from '../store';
+import { calendarSyncService } from '../services';
+import { formatICalendar, getScheduleEvents, toWebcalUrl } from '../utils';
+
+const CALENDAR_NAME = 'Sportification';
+
+/**
+ * Calendar options on the profile: device sync, the subscribable feed and a
+ * one-off `.ics` export of everything coming up
+ */
+export function useCalendarSettings() {
+  const [isSyncEnabled, setIsSyncEnabled] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadSchedule, { isFetching: isLoadingSchedule }] = useLazyGetMyScheduleQuery();
+  const { data: feed } = useGetCalendarFeedQuery();
+
+  useEffect(() => {
+    calendarSyncService.isEnabled().then(setIsSyncEnabled);
+  }, []);
+
+  const handleToggleSync = useCallback(async () => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      if (isSyncEnabled) {
+        await calendarSyncService.disable();
+        setIsSyncEnabled(false);
+      } else {
+        const schedule = await loadSchedule().unwrap();
+        await calendarSyncService.enable(schedule);
+        setIsSyncEnabled(true);
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error && err instanceof BusinessError
+          ? err.message
+          : 'Could not update calendar sync. Please try again.'
+      );
+      logger.error('Failed to toggle calendar sync:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [isSyncEnabled, loadSchedule]);
+
+  const handleExport = useCallback(async () => {
+    setError(null);
+    try {
+      const schedule = await loadSchedule().unwrap();
+      await Share.share({
+        title: `${CALENDAR_NAME}.ics`,
+        message: formatICalendar(getScheduleEvents(schedule), { name: CALENDAR_NAME }),
+      });
+    } catch (err) {
+      setError('Could not export your calendar. Please try again.');
+      logger.error('Failed to export calendar:', err instanceof Error ? err : undefined);
+    }
+  }, [loadSchedule]);
+
+  // Calendar apps register for webcal links; without one the https link is shared to add by hand
+  const handleSubscribe = useCallback(async () => {
+    if (!feed) return;
+    const webcalUrl = toWebcalUrl(feed.url);
+    try {
+      if (await Linking.canOpenURL(webcalUrl)) {
+        await Linking.openURL(webcalUrl);
+      } else {
+        await Share.share({ message: feed.url });
+      }
+    } catch (err) {
+      logger.error('Failed to open calendar feed:', err instanceof Error ? err : undefined);
+    }
+  }, [feed]);
+
+  return {
+    isSyncEnabled,
+    isUpdating,
+    isExporting: isLoadingSchedule && !isUpdating,
+    hasFeed: Boolean(feed),
+    error,
+    onToggleSync: handleToggleSync,
+    onExport: handleExport,
+    onSubscribe: handleSubscribe,
+  };
+}
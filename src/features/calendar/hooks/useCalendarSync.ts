@@ -0,0 +1,28 @@
+import { logger } from '@core';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { useSocketEvent } from '@shared/hooks';
+import { calendarSyncService } from '../services';
+
+/**
+ * Keeps the device calendar in step with realtime match and tournament
+ * changes. Mounted once for the signed-in app; does nothing unless the user
+ * turned calendar sync on.
+ */
+export function useCalendarSync() {
+  const userId = useAppSelector(selectUserId);
+
+  useSocketEvent('match_updated', (match) => {
+    if (!userId) return;
+    calendarSyncService.syncMatch(match, userId).catch((err) => {
+      logger.warn('Calendar sync skipped a match update', { matchId: match._id, err });
+    });
+  });
+
+  useSocketEvent('tournament_updated', (tournament) => {
+    if (!userId) return;
+    calendarSyncService.syncTournament(tournament, userId).catch((err) => {
+      logger.warn('Calendar sync skipped a tournament update', { tournamentId: tournament._id, err });
+    });
+  });
+}
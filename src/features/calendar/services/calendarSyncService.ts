@@ -0,0 +1,183 @@
+import { BusinessError, logger } from '@core';
+import RNCalendarEvents, { CalendarEventWritable } from 'react-native-calendar-events';
+import type { Match } from '@features/matches/types';
+import type { Tournament } from '@features/tournaments/types';
+import { STORAGE_KEYS, TypedStorage } from '@shared/utils/storageUtils';
+import { CalendarEvent, CalendarSchedule, CalendarSyncState } from '../types';
+import { getMatchEvent, getScheduleEvents, getTournamentEvent, isInMatch, isInTournament } from '../utils';
+
+const CALENDAR_TITLE = 'Sportification';
+const CALENDAR_COLOR = '#007AFF';
+
+const DEFAULT_STATE: CalendarSyncState = { enabled: false, calendarId: null, events: {} };
+
+/**
+ * Device calendar sync
+ *
+ * Keeps the user's matches, bookings and tournaments in a calendar of the
+ * app's own on the device. Opt-in; turning it off removes that calendar.
+ */
+class CalendarSyncService {
+  private storage = new TypedStorage<CalendarSyncState>(STORAGE_KEYS.CALENDAR_SYNC);
+
+  // Updates can arrive together; they run one at a time so no device ids are lost
+  private queue: Promise<unknown> = Promise.resolve();
+
+  async isEnabled(): Promise<boolean> {
+    return (await this.loadState()).enabled;
+  }
+
+  /**
+   * Turn sync on and copy the user's schedule into the device calendar
+   */
+  async enable(schedule: CalendarSchedule): Promise<void> {
+    const status = await RNCalendarEvents.requestPermissions();
+
+    // Business rule: Sync needs write access to the device calendar
+    if (status !== 'authorized') {
+      throw new BusinessError('Allow calendar access in Settings to sync your matches');
+    }
+
+    await this.storage.save({ ...(await this.loadState()), enabled: true });
+    await this.syncEvents(getScheduleEvents(schedule));
+    logger.info('Calendar sync enabled');
+  }
+
+  /**
+   * Turn sync off, removing the app's calendar and everything synced to it
+   */
+  async disable(): Promise<void> {
+    return this.serialize(async () => {
+      const { calendarId } = await this.loadState();
+      if (calendarId) {
+        try {
+          await RNCalendarEvents.removeCalendar(calendarId);
+        } catch (error) {
+          logger.warn('Failed to remove synced calendar', { calendarId, error });
+        }
+      }
+      await this.storage.save(DEFAULT_STATE);
+      logger.info('Calendar sync disabled');
+    });
+  }
+
+  /**
+   * Bring a changed match into the calendar, or take it out once the user
+   * is no longer playing
+   */
+  async syncMatch(match: Match, userId: string): Promise<void> {
+    const event = getMatchEvent(match);
+    return isInMatch(match, userId) ? this.syncEvents([event]) : this.removeEvent(event.uid);
+  }
+
+  async syncTournament(tournament: Tournament, userId: string): Promise<void> {
+    const event = getTournamentEvent(tournament);
+    return isInTournament(tournament, userId) ? this.syncEvents([event]) : this.removeEvent(event.uid);
+  }
+
+  /**
+   * Add or update events; cancelled ones are removed. Does nothing while sync is off.
+   */
+  async syncEvents(events: CalendarEvent[]): Promise<void> {
+    return this.serialize(async () => {
+      try {
+        const state = await this.loadState();
+        if (!state.enabled) return;
+
+        const calendarId = state.calendarId ?? (await this.findOrCreateCalendar());
+        const synced = { ...state.events };
+
+        for (const event of events) {
+          const deviceId = synced[event.uid];
+          if (event.status === 'cancelled') {
+            if (deviceId) await RNCalendarEvents.removeEvent(deviceId);
+            delete synced[event.uid];
+          } else {
+            synced[event.uid] = await this.saveDeviceEvent(event, calendarId, deviceId);
+          }
+        }
+
+        await this.storage.save({ enabled: true, calendarId, events: synced });
+      } catch (error) {
+        logger.error('Failed to sync calendar events', error as Error, { count: events.length });
+        throw error;
+      }
+    });
+  }
+
+  async removeEvent(uid: string): Promise<void> {
+    return this.serialize(async () => {
+      const state = await this.loadState();
+      const deviceId = state.events[uid];
+      if (!state.enabled || !deviceId) return;
+
+      try {
+        await RNCalendarEvents.removeEvent(deviceId);
+        const events = { ...state.events };
+        delete events[uid];
+        await this.storage.save({ ...state, events });
+      } catch (error) {
+        logger.error('Failed to remove calendar event', error as Error, { uid });
+        throw error;
+      }
+    });
+  }
+
+  private async loadState(): Promise<CalendarSyncState> {
+    return this.storage.loadWithDefault(DEFAULT_STATE);
+  }
+
+  private async findOrCreateCalendar(): Promise<string> {
+    const calendars = await RNCalendarEvents.findCalendars();
+    const existing = calendars.find(calendar => calendar.title === CALENDAR_TITLE && calendar.allowsModifications);
+    if (existing) {
+      return existing.id;
+    }
+
+    return RNCalendarEvents.saveCalendar({
+      title: CALENDAR_TITLE,
+      color: CALENDAR_COLOR,
+      entityType: 'event',
+      name: CALENDAR_TITLE,
+      accessLevel: 'owner',
+      ownerAccount: CALENDAR_TITLE,
+      source: { name: CALENDAR_TITLE, isLocalAccount: true },
+    });
+  }
+
+  private async saveDeviceEvent(event: CalendarEvent, calendarId: string, deviceId?: string): Promise<string> {
+    const details: CalendarEventWritable = {
+      calendarId,
+      startDate: this.toDeviceDate(event.start, event.allDay).toISOString(),
+      endDate: this.toDeviceDate(event.end, event.allDay).toISOString(),
+      allDay: event.allDay,
+      location: event.location,
+      // iOS shows notes, Android the description
+      notes: event.description,
+      description: event.description,
+    };
+
+    if (deviceId) {
+      try {
+        return await RNCalendarEvents.saveEvent(event.title, { ...details, id: deviceId });
+      } catch {
+        // Deleted from the device calendar by the user; added again below
+        logger.debug('Synced calendar event is gone from the device', { uid: event.uid });
+      }
+    }
+    return RNCalendarEvents.saveEvent(event.title, details);
+  }
+
+  /** All-day dates are kept as UTC midnight; device calendars expect local midnight */
+  private toDeviceDate(date: Date, allDay?: boolean): Date {
+    return allDay ? new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) : date;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const calendarSyncService = new CalendarSyncService();
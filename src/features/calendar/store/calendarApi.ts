@@ -0,0 +1,40 @@
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { CalendarFeed, CalendarSchedule } from '@features/calendar/types';
+import { ApiResponse } from '../../types/api';
+import { baseQuery } from '@shared/services/baseQuery';
+import { unwrapNestedData } from '@shared/utils/apiHelpers';
+
+export const calendarApi = createApi({
+  reducerPath: 'calendarApi',
+  baseQuery,
+  tagTypes: ['CalendarFeed'],
+  endpoints: (builder) => ({
+    /** The signed-in user's upcoming matches, bookings and tournaments */
+    getMySchedule: builder.query<CalendarSchedule, void>({
+      query: () => '/calendar/schedule',
+      transformResponse: (response: ApiResponse<{ schedule: CalendarSchedule }>) =>
+        unwrapNestedData(response, 'schedule'),
+    }),
+    getCalendarFeed: builder.query<CalendarFeed, void>({
+      query: () => '/calendar/feed',
+      transformResponse: (response: ApiResponse<{ feed: CalendarFeed }>) => unwrapNestedData(response, 'feed'),
+      providesTags: ['CalendarFeed'],
+    }),
+    /** Issues a new feed URL; calendars subscribed to the old one stop updating */
+    resetCalendarFeed: builder.mutation<CalendarFeed, void>({
+      query: () => ({
+        url: '/calendar/feed/reset',
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<{ feed: CalendarFeed }>) => unwrapNestedData(response, 'feed'),
+      invalidatesTags: ['CalendarFeed'],
+    }),
+  }),
+});
+
+export const {
+  useGetMyScheduleQuery,
+  useLazyGetMyScheduleQuery,
+  useGetCalendarFeedQuery,
+  useResetCalendarFeedMutation,
+} = calendarApi;
@@ -0,0 +1,2 @@
+// Export calendar-related API
+export * from './calendarApi';
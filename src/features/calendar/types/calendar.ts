@@ -0,0 +1,52 @@
+import type { Match } from '@features/matches/types';
+import type { Tournament } from '@features/tournaments/types';
+import type { Booking } from '@features/venues/types';
+
+export type CalendarSourceType = 'match' | 'booking' | 'tournament';
+
+export type CalendarEventStatus = 'confirmed' | 'tentative' | 'cancelled';
+
+/**
+ * One entry in an exported, subscribed or device calendar
+ */
+export interface CalendarEvent {
+  /** Stable per match, booking or tournament so calendars update the entry instead of adding another */
+  uid: string;
+  source: {
+    type: CalendarSourceType;
+    id: string;
+  };
+  title: string;
+  start: Date;
+  /** Exclusive; for all-day events the day after the last day */
+  end: Date;
+  /** Whole days, read from the UTC date of `start` and `end` */
+  allDay?: boolean;
+  location?: string;
+  description?: string;
+  status: CalendarEventStatus;
+  /** Grows with every change so calendars replace older copies */
+  sequence: number;
+  lastModified?: Date;
+}
+
+/** Everything the signed-in user has coming up */
+export interface CalendarSchedule {
+  matches: Match[];
+  bookings: Booking[];
+  tournaments: Tournament[];
+}
+
+/** Private feed URL calendar apps subscribe to */
+export interface CalendarFeed {
+  url: string;
+}
+
+/** Device calendar sync, kept on the device */
+export interface CalendarSyncState {
+  enabled: boolean;
+  /** The app's own calendar on the device */
+  calendarId: string | null;
+  /** Device event id for each synced event, by event uid */
+  events: Record<string, string>;
+}
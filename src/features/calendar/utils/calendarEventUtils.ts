@@ -0,0 +1,143 @@
+import type { Match } from '@features/matches/types';
+import type { Tournament } from '@features/tournaments/types';
+import type { Booking } from '@features/venues/types';
+import { getEntryPlayerIds } from '@features/tournaments/utils/seedingUtils';
+import { CalendarEvent, CalendarEventStatus, CalendarSchedule, CalendarSourceType } from '../types';
+
+/**
+ * Calendar events
+ * Turns matches, venue bookings and tournaments into calendar events, and
+ * tells which of them belong in the user's calendar.
+ */
+
+const UID_DOMAIN = 'sportification.app';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const getCalendarUid = (type: CalendarSourceType, id: string): string => `${type}-${id}@${UID_DOMAIN}`;
+
+/** Offset of the time zone from UTC at the given instant, in milliseconds */
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - date.getTime();
+};
+
+/**
+ * Instant a wall-clock time (`YYYY-MM-DDTHH:mm`) in the given IANA time zone
+ * refers to. Unknown zones fall back to the device's own.
+ */
+export const zonedTimeToDate = (local: string, timeZone: string): Date => {
+  const asUtc = Date.parse(`${local}Z`);
+  try {
+    const offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+    // A second pass corrects guesses that land on the other side of a DST change
+    const correctedOffset = getTimeZoneOffset(new Date(asUtc - offset), timeZone);
+    return new Date(asUtc - correctedOffset);
+  } catch {
+    return new Date(local);
+  }
+};
+
+/** Calendar date of an ISO date or date-time, as UTC midnight */
+const toDay = (value: string): Date => new Date(`${value.slice(0, 10)}T00:00:00Z`);
+
+/** SEQUENCE from the last change, so every update supersedes the one before */
+const getSequence = (updatedAt?: string): number =>
+  updatedAt ? Math.floor(Date.parse(updatedAt) / 1000) : 0;
+
+const toOptionalDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined);
+
+export const getMatchEvent = (match: Match): CalendarEvent => {
+  const start = zonedTimeToDate(`${match.schedule.date.slice(0, 10)}T${match.schedule.time}`, match.schedule.timezone);
+  const details = [`${match.sport} match organized by ${match.organizer.firstName} ${match.organizer.lastName}`];
+  if (match.description) details.push(match.description);
+
+  return {
+    uid: getCalendarUid('match', match._id),
+    source: { type: 'match', id: match._id },
+    title: match.title,
+    start,
+    end: new Date(start.getTime() + match.schedule.duration * MINUTE_MS),
+    location: match.venue ? `${match.venue.name}, ${match.venue.location.address}` : undefined,
+    description: details.join('\n\n'),
+    status: match.status === 'cancelled' ? 'cancelled' : 'confirmed',
+    sequence: getSequence(match.updatedAt),
+    lastModified: toOptionalDate(match.updatedAt),
+  };
+};
+
+const BOOKING_STATUSES: Record<Booking['status'], CalendarEventStatus> = {
+  pending: 'tentative',
+  confirmed: 'confirmed',
+  completed: 'confirmed',
+  no_show: 'confirmed',
+  cancelled: 'cancelled',
+};
+
+/**
+ * Bookings carry no time zone and are read in the device's, like the rest of
+ * the venue screens
+ */
+export const getBookingEvent = (booking: Booking): CalendarEvent => {
+  const day = booking.date.slice(0, 10);
+
+  return {
+    uid: getCalendarUid('booking', booking._id),
+    source: { type: 'booking', id: booking._id },
+    title: `${booking.sport} at ${booking.venue.name}`,
+    start: new Date(`${day}T${booking.startTime}`),
+    end: new Date(`${day}T${booking.endTime}`),
+    location: `${booking.venue.name}, ${booking.venue.location.address}`,
+    description: booking.notes,
+    status: BOOKING_STATUSES[booking.status],
+    sequence: getSequence(booking.updatedAt ?? booking.createdAt),
+    lastModified: toOptionalDate(booking.updatedAt),
+  };
+};
+
+/**
+ * Tournaments span whole days, from the start date through the end date
+ */
+export const getTournamentEvent = (tournament: Tournament): CalendarEvent => ({
+  uid: getCalendarUid('tournament', tournament._id),
+  source: { type: 'tournament', id: tournament._id },
+  title: tournament.name,
+  start: toDay(tournament.startDate),
+  end: new Date(toDay(tournament.endDate).getTime() + DAY_MS),
+  allDay: true,
+  location: tournament.venue ? `${tournament.venue.name}, ${tournament.venue.location.address}` : undefined,
+  description: tournament.description,
+  status: tournament.status === 'cancelled' ? 'cancelled' : 'confirmed',
+  sequence: getSequence(tournament.updatedAt),
+  lastModified: toOptionalDate(tournament.updatedAt),
+});
+
+export const isInMatch = (match: Match, userId: string): boolean =>
+  match.organizer._id === userId || match.participants.some(participant => participant._id === userId);
+
+export const isInTournament = (tournament: Tournament, userId: string): boolean =>
+  tournament.organizer._id === userId ||
+  tournament.participants.some(participant => getEntryPlayerIds(participant).includes(userId));
+
+/**
+ * Events for everything on the user's schedule, earliest first
+ */
+export const getScheduleEvents = (schedule: CalendarSchedule): CalendarEvent[] =>
+  [
+    ...schedule.matches.map(getMatchEvent),
+    ...schedule.bookings.map(getBookingEvent),
+    ...schedule.tournaments.map(getTournamentEvent),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
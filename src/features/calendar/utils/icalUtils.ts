@@ -0,0 +1,145 @@
+import { CalendarEvent } from '../types';
+
+/**
+ * iCalendar (RFC 5545)
+ * Writes `.ics` documents for exports and the subscribable feed. Timed events
+ * are written in UTC so no VTIMEZONE definitions are needed; all-day events
+ * are written as dates.
+ */
+
+const PRODUCT_ID = '-//Sportification//Sportification App//EN';
+
+/** Content lines are folded at 75 octets */
+const MAX_LINE_OCTETS = 75;
+
+/** How often subscribed calendar apps should fetch the feed again */
+export const CALENDAR_FEED_REFRESH_MINUTES = 60;
+
+export interface CalendarOptions {
+  /** Calendar name shown by calendar apps */
+  name?: string;
+  /** Time the document is written, for DTSTAMP */
+  now?: Date;
+}
+
+const STATUS_VALUES: Record<CalendarEvent['status'], string> = {
+  confirmed: 'CONFIRMED',
+  tentative: 'TENTATIVE',
+  cancelled: 'CANCELLED',
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/** UTC date, e.g. `20250701` */
+export const formatICalDate = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+/** UTC date-time, e.g. `20250701T180000Z` */
+export const formatICalDateTime = (date: Date): string =>
+  `${formatICalDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/** Escapes a TEXT value: backslashes, separators and line breaks */
+export const escapeICalText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const getUtf8Length = (char: string): number => {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Splits a content line into lines of at most 75 octets, continuation lines
+ * starting with a space. Never splits a multi-byte character.
+ */
+export const foldICalLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const length = getUtf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + length > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+};
+
+const formatEvent = (event: CalendarEvent, now: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalDateTime(now)}`,
+    event.allDay ? `DTSTART;VALUE=DATE:${formatICalDate(event.start)}` : `DTSTART:${formatICalDateTime(event.start)}`,
+    event.allDay ? `DTEND;VALUE=DATE:${formatICalDate(event.end)}` : `DTEND:${formatICalDateTime(event.end)}`,
+    `SUMMARY:${escapeICalText(event.title)}`,
+  ];
+  if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  lines.push(`STATUS:${STATUS_VALUES[event.status]}`, `SEQUENCE:${event.sequence}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDateTime(event.lastModified)}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+const formatDocument = (events: CalendarEvent[], headerLines: string[], now: Date): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...headerLines,
+    ...events.flatMap(event => formatEvent(event, now)),
+    'END:VCALENDAR',
+  ]
+    .map(foldICalLine)
+    .join('\r\n') + '\r\n';
+
+/**
+ * `.ics` document with the given events, for exporting
+ */
+export const formatICalendar = (events: CalendarEvent[], options: CalendarOptions = {}): string =>
+  formatDocument(
+    events,
+    options.name ? [`X-WR-CALNAME:${escapeICalText(options.name)}`] : [],
+    options.now ?? new Date()
+  );
+
+/**
+ * `.ics` document for a per-user feed. Calendar apps that subscribe read the
+ * name and how often to refresh from it; cancelled events stay in the feed so
+ * subscribers drop them rather than keep a stale copy.
+ */
+export const formatCalendarFeed = (events: CalendarEvent[], options: CalendarOptions & { name: string }): string => {
+  const refresh = `PT${CALENDAR_FEED_REFRESH_MINUTES}M`;
+  return formatDocument(
+    events,
+    [
+      `NAME:${escapeICalText(options.name)}`,
+      `X-WR-CALNAME:${escapeICalText(options.name)}`,
+      `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+      `X-PUBLISHED-TTL:${refresh}`,
+    ],
+    options.now ?? new Date()
+  );
+};
+
+/**
+ * Feed URL in the `webcal://` form that opens the calendar app's subscribe prompt
+ */
+export const toWebcalUrl = (url: string): string => url.replace(/^https?:\/\//, 'webcal://');
@@ -0,0 +1,2 @@
+export * from './icalUtils';
+export * from './calendarEventUtils';
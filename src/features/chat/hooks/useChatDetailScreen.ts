@@ -1,38 +1,53 @@
-import { useState, useCallback } from 'react';
-import { useGetMessagesQuery } from '../store/chatApi';
-import { chatService } from '../services';
+import { useState, useCallback, useRef } from 'react';
+import { FlatList } from 'react-native';
+import { logger } from '@core/types/ILogger';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store/authSelectors';
+import { isQueuedOffline } from '@shared/services/baseQuery';
+import { Message } from '../types';
+import { useGetChatMessagesQuery, useSendMessageMutation } from '../store/chatApi';
 
-export function useChatDetailScreen(route: any) {
-  const { chatId } = route.params;
-  const { data, isLoading, error, refetch } = useGetMessagesQuery(chatId);
-  const messages = data?.data || [];
-  const [message, setMessage] = useState('');
-  const [sending, setSending] = useState(false);
+export function useChatDetailScreen(chatId: string) {
+  const currentUserId = useAppSelector(selectUserId);
+  const { data: messages = [], isLoading, error } = useGetChatMessagesQuery({ chatId });
+  const [sendMessage, { isLoading: isSending }] = useSendMessageMutation();
+  const [messageText, setMessageText] = useState('');
+  const [sendError, setSendError] = useState<string | null>(null);
+  const flatListRef = useRef<FlatList<Message>>(null);
 
-  const handleSendMessage = useCallback(async () => {
-    if (!message.trim()) {
+  const isMyMessage = useCallback((message: Message) => message.sender._id === currentUserId, [currentUserId]);
+
+  const handleSend = useCallback(async () => {
+    const content = messageText.trim();
+    if (!content) {
       return;
     }
 
-    setSending(true);
+    setSendError(null);
     try {
-      await chatService.sendMessage(chatId, message);
-      setMessage('');
-      await refetch();
+      await sendMessage({ chatId, data: { content } }).unwrap();
+      setMessageText('');
     } catch (err) {
-      console.error('Failed to send message:', err);
-    } finally {
-      setSending(false);
+      // Queued offline: the message already shows in the conversation and is sent on reconnect
+      if (isQueuedOffline(err)) {
+        setMessageText('');
+        return;
+      }
+      logger.error('Failed to send message:', err instanceof Error ? err : undefined);
+      setSendError('Your message could not be sent. Please try again.');
     }
-  }, [chatId, message, refetch]);
+  }, [chatId, messageText, sendMessage]);
 
   return {
     messages,
     isLoading,
     error,
-    message,
-    sending,
-    onChangeMessage: setMessage,
-    onSendMessage: handleSendMessage,
+    messageText,
+    setMessageText,
+    isSending,
+    sendError,
+    isMyMessage,
+    flatListRef,
+    handleSend,
   };
 }
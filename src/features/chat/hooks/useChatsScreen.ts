@@ -2,7 +2,7 @@ import { useCallback } from 'react';
 import { useGetChatsQuery } from '../store/chatApi';
 
 export function useChatsScreen(navigation: any) {
-  const { data, isLoading, error, refetch } = useGetChatsQuery();
+  const { data, isLoading, isFetching, error, refetch, fulfilledTimeStamp } = useGetChatsQuery();
   const chats = data?.data || [];
 
   const handleChatPress = useCallback((chatId: string) => {
@@ -12,7 +12,10 @@ export function useChatsScreen(navigation: any) {
   return {
     chats,
     isLoading,
-    error,
+    // Chats saved on the device stay on screen when a refresh fails
+    error: chats.length > 0 ? undefined : error,
+    updatedAt: fulfilledTimeStamp,
+    isRefreshing: isFetching && !isLoading,
     onChatPress: handleChatPress,
     onRefresh: refetch,
   };
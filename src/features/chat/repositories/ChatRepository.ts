@@ -1,4 +1,5 @@
 import { IRepository } from '@core';
+import { store } from '@/store';
 import { Chat, Message } from '../types';
 import { chatApi } from '../store';
 
@@ -29,8 +30,7 @@ export class ChatRepository implements IRepository<Chat> {
   }
 
   async sendMessage(chatId: string, message: string): Promise<Message> {
-    const result = await chatApi.endpoints.sendMessage.initiate({ chatId, message });
-    return result.data as Message;
+    return store.dispatch(chatApi.endpoints.sendMessage.initiate({ chatId, data: { content: message } })).unwrap();
   }
 
   async getMessages(chatId: string): Promise<Message[]> {
@@ -73,7 +73,7 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({ route }) => {
         ref={props.flatListRef}
         data={props.messages}
         renderItem={renderMessage}
-        keyExtractor={(item, index) => item.id || `msg-${index}`}
+        keyExtractor={(item) => item._id}
         contentContainerStyle={styles.messagesList}
         onContentSizeChange={() => {
           if (props.messages.length > 0) {
@@ -89,6 +89,12 @@ const ChatDetailScreen: React.FC<ChatDetailScreenProps> = ({ route }) => {
         }
       />
 
+      {props.sendError && (
+        <Text style={[theme.typography.bodySmall, styles.sendError, { color: theme.colors.error }]}>
+          {props.sendError}
+        </Text>
+      )}
+
       <View style={styles.inputContainer}>
         <TextInput
           style={[theme.typography.bodyMedium, styles.input]}
@@ -160,6 +166,10 @@ const createStyles = (theme: any) =>
       opacity: 0.7,
       alignSelf: 'flex-end',
     },
+    sendError: {
+      paddingHorizontal: theme.spacing.base,
+      paddingBottom: theme.spacing.xs,
+    },
     inputContainer: {
       flexDirection: 'row',
       padding: theme.spacing.sm,
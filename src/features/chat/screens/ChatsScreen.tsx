@@ -107,6 +107,8 @@ const ChatsScreen: React.FC<ChatsScreenProps> = ({ navigation }) => {
       items={props.chats}
       renderItem={renderChatItem}
       isLoading={props.isLoading}
+      updatedAt={props.updatedAt}
+      isRefreshing={props.isRefreshing}
       onRefresh={props.onRefresh}
       emptyMessage="No chats yet. Start a conversation with your team"
       emptyIcon="message-outline"
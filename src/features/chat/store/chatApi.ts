@@ -1,22 +1,18 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { User } from '@features/auth/types';
 import { Chat, Message, SendMessageRequest, CreateChatRequest } from '@features/chat/types';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery, isQueuedOffline } from '@shared/services/baseQuery';
+import { extractPersistedQueries, QUERY_CACHE_REVALIDATE_AFTER_SECONDS } from '@shared/services/queryCache';
 import { unwrapApiResponse, unwrapNestedData } from '@shared/utils/apiHelpers';
+import { chatSchema, listOf, messageSchema } from '@shared/services/responseSchemas';
 
 export const chatApi = createApi({
   reducerPath: 'chatApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
+  // Responses saved on the device show straight away and are refetched in the background
+  extractRehydrationInfo: extractPersistedQueries,
+  refetchOnMountOrArgChange: QUERY_CACHE_REVALIDATE_AFTER_SECONDS,
   tagTypes: ['Chat', 'Chats', 'Messages'],
   endpoints: (builder) => ({
     getChats: builder.query<Chat[], { page?: number; limit?: number }>({
@@ -26,12 +22,12 @@ export const chatApi = createApi({
         if (params.limit) queryParams.append('limit', String(params.limit));
         return `/chats?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Chat[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Chat[]>) => unwrapApiResponse(response, listOf(chatSchema)),
       providesTags: ['Chats'],
     }),
     getChat: builder.query<Chat, string>({
       query: (id) => `/chats/${id}`,
-      transformResponse: (response: ApiResponse<{ chat: Chat }>) => unwrapNestedData(response, 'chat'),
+      transformResponse: (response: ApiResponse<{ chat: Chat }>) => unwrapNestedData(response, 'chat', chatSchema),
       providesTags: (result, error, id) => [{ type: 'Chat', id }],
     }),
     createChat: builder.mutation<Chat, CreateChatRequest>({
@@ -40,7 +36,7 @@ export const chatApi = createApi({
         method: 'POST',
         body: chatData,
       }),
-      transformResponse: (response: ApiResponse<{ chat: Chat }>) => unwrapNestedData(response, 'chat'),
+      transformResponse: (response: ApiResponse<{ chat: Chat }>) => unwrapNestedData(response, 'chat', chatSchema),
       invalidatesTags: ['Chats'],
     }),
     getChatMessages: builder.query<Message[], { chatId: string; page?: number; limit?: number; before?: string; after?: string }>({
@@ -52,7 +48,7 @@ export const chatApi = createApi({
         if (after) params.append('after', after);
         return `/chats/${chatId}/messages?${params.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Message[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Message[]>) => unwrapApiResponse(response, listOf(messageSchema)),
       providesTags: (result, error, { chatId }) => [{ type: 'Messages', id: chatId }],
     }),
     sendMessage: builder.mutation<Message, { chatId: string; data: SendMessageRequest }>({
@@ -61,12 +57,50 @@ export const chatApi = createApi({
         method: 'POST',
         body: data,
       }),
-      transformResponse: (response: ApiResponse<{ message: Message }>) => unwrapNestedData(response, 'message'),
-      invalidatesTags: (result, error, { chatId }) => [
-        { type: 'Messages', id: chatId },
-        { type: 'Chat', id: chatId },
-        'Chats',
-      ],
+      extraOptions: { outbox: { label: 'Send message', invalidates: ['Messages', 'Chat', 'Chats'] } },
+      transformResponse: (response: ApiResponse<{ message: Message }>) => unwrapNestedData(response, 'message', messageSchema),
+      // Optimistic update: the message shows in the latest page of the conversation
+      async onQueryStarted({ chatId, data }, { dispatch, getState, queryFulfilled }) {
+        // The API slice doesn't know the root state, which holds the signed-in user
+        const sender = (getState() as unknown as { auth: { user: User | null } }).auth.user;
+        if (!sender) return;
+
+        const now = new Date().toISOString();
+        const message: Message = {
+          _id: `pending_${Date.now()}`,
+          chat: chatId,
+          sender: {
+            _id: sender._id,
+            firstName: sender.firstName,
+            lastName: sender.lastName,
+            username: sender.username,
+          },
+          content: data.content,
+          messageType: data.messageType ?? 'text',
+          isEdited: false,
+          createdAt: now,
+        };
+        const patchResults = chatApi.util
+          .selectCachedArgsForQuery(getState(), 'getChatMessages')
+          .filter(args => args.chatId === chatId && !args.before)
+          .map(args =>
+            dispatch(
+              chatApi.util.updateQueryData('getChatMessages', args, (draft) => {
+                draft.push(message);
+              })
+            )
+          );
+        try {
+          await queryFulfilled;
+        } catch (error) {
+          // Kept while the outbox holds the request
+          if (!isQueuedOffline(error)) {
+            patchResults.forEach(patchResult => patchResult.undo());
+          }
+        }
+      },
+      invalidatesTags: (result, error, { chatId }) =>
+        isQueuedOffline(error) ? [] : [{ type: 'Messages', id: chatId }, { type: 'Chat', id: chatId }, 'Chats'],
     }),
   }),
 });
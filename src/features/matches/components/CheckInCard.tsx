@@ -0,0 +1,111 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { useTheme } from '../../../theme';
+import { Button } from '@shared/components/atoms';
+import { MatchCheckIn } from '../hooks/useMatchCheckIn';
+import { CHECK_IN_OPENS_MINUTES_BEFORE } from '../utils';
+
+interface CheckInCardProps {
+  checkIn: MatchCheckIn;
+  onScanCode: () => void;
+}
+
+/**
+ * CheckInCard
+ *
+ * Players see whether they are checked in and can scan the organizer's code.
+ * The organizer shows the rotating QR code, follows arrivals and closes
+ * check-in to record no-shows.
+ */
+const CheckInCard: React.FC<CheckInCardProps> = ({ checkIn, onScanCode }) => {
+  const { theme } = useTheme();
+
+  if (!checkIn.isVisible) {
+    return null;
+  }
+
+  const renderStatus = () => {
+    if (checkIn.isOrganizer) {
+      return checkIn.isClosed
+        ? `${checkIn.checkedInCount} of ${checkIn.participantCount} checked in · ${checkIn.absentCount} no-shows recorded`
+        : `${checkIn.checkedInCount} of ${checkIn.participantCount} checked in`;
+    }
+    if (checkIn.record?.status === 'checked_in') {
+      return checkIn.record.method === 'location' ? "You're checked in at the venue" : "You're checked in";
+    }
+    if (checkIn.record?.status === 'no_show') {
+      return 'You were marked as a no-show';
+    }
+    if (checkIn.isLocating) {
+      return 'Checking whether you are at the venue…';
+    }
+    if (checkIn.canCheckIn) {
+      return "Scan the organizer's code to check in";
+    }
+    return checkIn.isClosed
+      ? 'Check-in is closed'
+      : `Check-in opens ${CHECK_IN_OPENS_MINUTES_BEFORE} minutes before the match`;
+  };
+
+  return (
+    <View style={{ padding: theme.spacing.base }}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.sm }]}>
+        Check-in
+      </Text>
+      <Text style={[theme.typography.bodyMedium, { color: theme.colors.textSecondary, marginBottom: theme.spacing.md }]}>
+        {renderStatus()}
+      </Text>
+
+      {checkIn.isOrganizer && checkIn.isOpen && (
+        <Button
+          title={checkIn.isCodeVisible ? 'Hide Check-in Code' : 'Show Check-in Code'}
+          variant="secondary"
+          icon="qrcode"
+          onPress={checkIn.onToggleCode}
+          fullWidth
+          style={{ marginBottom: theme.spacing.md }}
+        />
+      )}
+
+      {checkIn.isCodeVisible && (
+        <View style={[styles.code, { marginBottom: theme.spacing.md }]}>
+          {checkIn.code ? (
+            <QRCode value={checkIn.code} size={200} />
+          ) : (
+            <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>Loading code…</Text>
+          )}
+        </View>
+      )}
+
+      {checkIn.canCloseCheckIn && (
+        <Button
+          title="Close Check-in"
+          variant="outline"
+          icon="clipboard-check-outline"
+          onPress={checkIn.onCloseCheckIn}
+          loading={checkIn.isClosing}
+          fullWidth
+        />
+      )}
+
+      {checkIn.canCheckIn && !checkIn.isLocating && (
+        <Button title="Scan Check-in Code" icon="qrcode-scan" onPress={onScanCode} fullWidth />
+      )}
+
+      {checkIn.error && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginTop: theme.spacing.sm }]}>
+          {checkIn.error}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  code: {
+    alignItems: 'center',
+  },
+});
+
+export default CheckInCard;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { BottomSheet } from '@shared/components/organisms';
+import PaymentForm from '@features/profile/components/PaymentForm';
+
+interface CostSharePaymentSheetProps {
+  checkout: {
+    clientSecret: string;
+    amount: number;
+    currency: string;
+  } | null;
+  payeeName: string;
+  onPaymentSuccess: (paymentIntentId: string) => void;
+  onPaymentError: (error: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * CostSharePaymentSheet
+ *
+ * Card payment for the player's share of the venue booked for a match.
+ */
+const CostSharePaymentSheet: React.FC<CostSharePaymentSheetProps> = ({
+  checkout,
+  payeeName,
+  onPaymentSuccess,
+  onPaymentError,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+
+  return (
+    <BottomSheet visible={Boolean(checkout)} onClose={onClose} height={420}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text }]}>Your share</Text>
+      <Text style={[theme.typography.bodyMedium, styles.note, { color: theme.colors.textSecondary }]}>
+        {`Pay ${payeeName} back for your share of the venue.`}
+      </Text>
+      {checkout && (
+        <PaymentForm
+          amount={checkout.amount}
+          currency={checkout.currency}
+          clientSecret={checkout.clientSecret}
+          onPaymentSuccess={onPaymentSuccess}
+          onPaymentError={onPaymentError}
+        />
+      )}
+    </BottomSheet>
+  );
+};
+
+const styles = StyleSheet.create({
+  note: {
+    marginTop: 8,
+  },
+});
+
+export default CostSharePaymentSheet;
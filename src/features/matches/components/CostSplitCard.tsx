@@ -0,0 +1,199 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { Badge, Button, Chip, Input } from '@shared/components/atoms';
+import { formatCurrency } from '@shared/utils';
+import { CostSplitState } from '../hooks/useCostSplit';
+import { CostShareStatus } from '../types';
+
+interface CostSplitCardProps {
+  costSplit: CostSplitState;
+}
+
+const STATUS_BADGES: Record<CostShareStatus, { label: string; variant: 'success' | 'warning' | 'default' }> = {
+  paid: { label: 'Paid', variant: 'success' },
+  pending: { label: 'Owes', variant: 'warning' },
+  waived: { label: 'Waived', variant: 'default' },
+};
+
+/**
+ * CostSplitCard
+ *
+ * Who owes what for the match's venue booking. The booker splits the cost;
+ * players pay their share and the booker can settle shares paid in person.
+ */
+const CostSplitCard: React.FC<CostSplitCardProps> = ({ costSplit }) => {
+  const { theme } = useTheme();
+  const names = costSplit.playerNames;
+  const formatAmount = (amount: number) => formatCurrency(amount / 100, costSplit.currency);
+
+  if (!costSplit.isVisible) {
+    return null;
+  }
+
+  const renderEditor = () => (
+    <>
+      <View style={styles.chips}>
+        <Chip
+          label="Split equally"
+          size="small"
+          selected={costSplit.method === 'equal'}
+          onPress={() => costSplit.onSetMethod('equal')}
+          style={styles.chip}
+        />
+        <Chip
+          label="Custom amounts"
+          size="small"
+          selected={costSplit.method === 'custom'}
+          onPress={() => costSplit.onSetMethod('custom')}
+          style={styles.chip}
+        />
+      </View>
+
+      {costSplit.shares.map(share => (
+        <View key={share.userId} style={[styles.row, { marginBottom: theme.spacing.sm }]}>
+          <Text style={[theme.typography.bodyMedium, styles.name, { color: theme.colors.text }]}>
+            {names[share.userId]}
+          </Text>
+          {costSplit.method === 'custom' ? (
+            <Input
+              value={costSplit.customAmounts[share.userId] ?? ''}
+              onChangeText={text => costSplit.onSetCustomAmount(share.userId, text)}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+              containerStyle={styles.amountInput}
+            />
+          ) : (
+            <Text style={[theme.typography.bodyMedium, { color: theme.colors.text }]}>{formatAmount(share.amount)}</Text>
+          )}
+        </View>
+      ))}
+
+      {costSplit.splitError && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginBottom: theme.spacing.sm }]}>
+          {costSplit.splitError}
+        </Text>
+      )}
+
+      <View style={styles.row}>
+        <Button
+          title="Request Payments"
+          icon="cash-multiple"
+          onPress={costSplit.onCreate}
+          loading={costSplit.isSaving}
+          disabled={Boolean(costSplit.splitError)}
+          style={styles.action}
+        />
+        <Button title="Cancel" variant="text" onPress={costSplit.onToggleEditing} />
+      </View>
+    </>
+  );
+
+  const renderShares = () => {
+    const { split, settlement } = costSplit;
+    if (!split || !settlement) return null;
+
+    return (
+      <>
+        <Text style={[theme.typography.bodyMedium, { color: theme.colors.textSecondary, marginBottom: theme.spacing.md }]}>
+          {settlement.outstanding === 0
+            ? `All ${formatAmount(split.total)} settled`
+            : `${settlement.settledCount} of ${settlement.shareCount} settled · ${formatAmount(settlement.outstanding)} outstanding`}
+        </Text>
+
+        {split.shares.map(share => {
+          const isPayer = share.userId === split.payerId;
+          const badge = isPayer ? { label: 'Booked', variant: 'default' as const } : STATUS_BADGES[share.status];
+
+          return (
+            <View key={share.userId} style={[styles.row, { marginBottom: theme.spacing.sm }]}>
+              <Text style={[theme.typography.bodyMedium, styles.name, { color: theme.colors.text }]}>
+                {names[share.userId] ?? 'Former player'}
+              </Text>
+              <Text style={[theme.typography.bodyMedium, styles.amount, { color: theme.colors.text }]}>
+                {formatAmount(share.amount)}
+              </Text>
+              <Badge label={badge.label} variant={badge.variant} size="small" />
+              {costSplit.isBooker && !isPayer && share.status === 'pending' && (
+                <Button
+                  title="Mark Paid"
+                  variant="text"
+                  size="small"
+                  onPress={() => costSplit.onSettle(share.userId, 'paid')}
+                />
+              )}
+            </View>
+          );
+        })}
+
+        {costSplit.canPay && costSplit.myShare && (
+          <Button
+            title={`Pay ${formatAmount(costSplit.myShare.amount)}`}
+            icon="credit-card"
+            onPress={costSplit.onPay}
+            loading={costSplit.isPreparing}
+            fullWidth
+            style={{ marginTop: theme.spacing.sm }}
+          />
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={{ padding: theme.spacing.base }}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.sm }]}>
+        Venue cost
+      </Text>
+
+      {costSplit.split && renderShares()}
+
+      {!costSplit.split && costSplit.isEditing && renderEditor()}
+
+      {!costSplit.split && !costSplit.isEditing && (
+        <>
+          <Text style={[theme.typography.bodyMedium, { color: theme.colors.textSecondary, marginBottom: theme.spacing.md }]}>
+            {`You booked the venue for ${formatAmount(costSplit.total)}. Split it so everyone pays their share.`}
+          </Text>
+          <Button title="Split Cost" icon="call-split" variant="secondary" onPress={costSplit.onToggleEditing} fullWidth />
+        </>
+      )}
+
+      {costSplit.error && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginTop: theme.spacing.sm }]}>
+          {costSplit.error}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  name: {
+    flex: 1,
+  },
+  amount: {
+    marginRight: 8,
+  },
+  amountInput: {
+    width: 110,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  action: {
+    marginRight: 8,
+  },
+});
+
+export default CostSplitCard;
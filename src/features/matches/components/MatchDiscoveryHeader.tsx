@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { Button, Chip, Input } from '@shared/components/atoms';
+import { AdvancedSearch } from '@shared/components/organisms';
+import { FilterPresetsState } from '../hooks/useFilterPresets';
+
+interface MatchDiscoveryHeaderProps {
+  searchText: string;
+  activeFilterCount: number;
+  locationNotice: string | null;
+  presets: FilterPresetsState;
+  onChangeSearch: (text: string) => void;
+  onSearch: (text: string) => void;
+  onOpenFilters: () => void;
+}
+
+/**
+ * MatchDiscoveryHeader
+ *
+ * Search, the sort and filter button and saved filter presets above the
+ * matches list. Presets apply on tap; the current filters can be saved as one.
+ */
+const MatchDiscoveryHeader: React.FC<MatchDiscoveryHeaderProps> = ({
+  searchText,
+  activeFilterCount,
+  locationNotice,
+  presets,
+  onChangeSearch,
+  onSearch,
+  onOpenFilters,
+}) => {
+  const { theme } = useTheme();
+
+  return (
+    <View style={{ marginTop: theme.spacing.sm }}>
+      <AdvancedSearch
+        value={searchText}
+        onChangeText={onChangeSearch}
+        onSearch={onSearch}
+        placeholder="Search matches..."
+        storageKey="matches"
+      />
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginTop: theme.spacing.sm }}>
+        <Chip
+          label={activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Sort & Filter'}
+          icon="tune-variant"
+          size="small"
+          selected={activeFilterCount > 0}
+          onPress={onOpenFilters}
+          style={styles.chip}
+        />
+        {presets.presets.map(preset => (
+          <Chip
+            key={preset.id}
+            label={preset.name}
+            size="small"
+            variant="outlined"
+            selected={preset.id === presets.activePresetId}
+            onPress={() => presets.onApply(preset)}
+            onDelete={() => presets.onDelete(preset)}
+            style={styles.chip}
+          />
+        ))}
+        {presets.canSave && !presets.isNaming && (
+          <Chip
+            label="Save filters"
+            icon="content-save-outline"
+            size="small"
+            variant="outlined"
+            onPress={presets.onToggleNaming}
+            style={styles.chip}
+          />
+        )}
+      </ScrollView>
+
+      {presets.isNaming && (
+        <View style={[styles.row, { marginTop: theme.spacing.sm }]}>
+          <Input
+            value={presets.presetName}
+            onChangeText={presets.onChangeName}
+            placeholder="Preset name"
+            autoFocus
+            containerStyle={styles.nameInput}
+          />
+          <Button title="Save" size="small" onPress={presets.onSave} loading={presets.isSaving} style={styles.action} />
+          <Button title="Cancel" variant="text" size="small" onPress={presets.onToggleNaming} />
+        </View>
+      )}
+
+      {presets.error && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginTop: theme.spacing.xs }]}>
+          {presets.error}
+        </Text>
+      )}
+
+      {locationNotice && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary, marginTop: theme.spacing.xs }]}>
+          {locationNotice}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chip: {
+    marginRight: 8,
+  },
+  nameInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  action: {
+    marginRight: 4,
+  },
+});
+
+export default MatchDiscoveryHeader;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../../theme';
+import { Chip, Input } from '@shared/components/atoms';
+import { Card } from '@shared/components/organisms';
+import { Match, PlayerReview } from '../types';
+import { REVIEW_COMMENT_MAX_LENGTH, REVIEW_SCORE_MAX } from '../utils';
+
+interface PlayerReviewCardProps {
+  player: Match['participants'][number];
+  review?: PlayerReview;
+  canFlagNoShow: boolean;
+  onChange: (revieweeId: string, changes: Partial<PlayerReview>) => void;
+}
+
+const SCORES = Array.from({ length: REVIEW_SCORE_MAX }, (_, index) => index + 1);
+
+/**
+ * PlayerReviewCard
+ *
+ * Star ratings for one player's sportsmanship and skill accuracy, a no-show
+ * flag and an optional comment.
+ */
+const PlayerReviewCard: React.FC<PlayerReviewCardProps> = ({ player, review, canFlagNoShow, onChange }) => {
+  const { theme } = useTheme();
+  const name = `${player.firstName} ${player.lastName}`;
+
+  const renderStars = (label: string, field: 'sportsmanship' | 'skillAccuracy') => (
+    <View style={[styles.row, { marginBottom: theme.spacing.sm }]}>
+      <Text style={[theme.typography.bodyMedium, styles.label, { color: theme.colors.text }]}>{label}</Text>
+      {SCORES.map(score => (
+        <Pressable
+          key={score}
+          onPress={() => onChange(player._id, { [field]: score })}
+          accessibilityLabel={`${label} ${score} of ${REVIEW_SCORE_MAX} for ${name}`}
+          hitSlop={4}
+        >
+          <Icon
+            name={(review?.[field] ?? 0) >= score ? 'star' : 'star-outline'}
+            size={28}
+            color={theme.colors.primary}
+          />
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <Card variant="elevated" style={{ marginBottom: theme.spacing.md }}>
+      <View style={{ padding: theme.spacing.base }}>
+        <Text style={[theme.typography.titleMedium, { color: theme.colors.text, marginBottom: theme.spacing.sm }]}>
+          {name}
+        </Text>
+
+        {!review?.noShow && (
+          <>
+            {renderStars('Sportsmanship', 'sportsmanship')}
+            {renderStars('Skill level', 'skillAccuracy')}
+          </>
+        )}
+
+        {canFlagNoShow && (
+          <View style={[styles.row, { marginBottom: theme.spacing.sm }]}>
+            <Chip
+              label="Didn't show up"
+              icon="account-off"
+              size="small"
+              selected={Boolean(review?.noShow)}
+              onPress={() => onChange(player._id, { noShow: !review?.noShow })}
+            />
+          </View>
+        )}
+
+        <Input
+          placeholder="Add a comment (optional)"
+          value={review?.comment ?? ''}
+          onChangeText={comment => onChange(player._id, { comment })}
+          maxLength={REVIEW_COMMENT_MAX_LENGTH}
+          multiline
+        />
+      </View>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  label: {
+    width: 120,
+  },
+});
+
+export default PlayerReviewCard;
@@ -0,0 +1,188 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { Button, Chip } from '@shared/components/atoms';
+import { TeamBalancer } from '../hooks/useTeamBalancer';
+import { getTeamName } from '../utils';
+
+interface TeamBalanceCardProps {
+  balancer: TeamBalancer;
+}
+
+/**
+ * TeamBalanceCard
+ *
+ * Saved line-ups for everyone. The organizer can open the balancer to split
+ * the participants, keep pairs together and swap players before saving.
+ */
+const TeamBalanceCard: React.FC<TeamBalanceCardProps> = ({ balancer }) => {
+  const { theme } = useTheme();
+  const names = balancer.playerNames;
+
+  const renderTeams = (teams: string[][], ratings: number[] = []) =>
+    teams.map((playerIds, index) => (
+      <View key={index} style={{ marginBottom: theme.spacing.md }}>
+        <Text style={[theme.typography.labelLarge, { color: theme.colors.text, marginBottom: theme.spacing.xs }]}>
+          {ratings.length > 0 ? `${getTeamName(index)} · ${ratings[index].toFixed(1)}` : getTeamName(index)}
+        </Text>
+        <View style={styles.chips}>
+          {playerIds
+            .filter(id => names[id])
+            .map(id => (
+              <Chip
+                key={id}
+                label={names[id]}
+                size="small"
+                selected={balancer.selectedId === id}
+                onPress={balancer.isOpen ? () => balancer.onPlayerPress(id) : undefined}
+                style={styles.chip}
+              />
+            ))}
+        </View>
+      </View>
+    ));
+
+  if (!balancer.isOpen) {
+    if (balancer.savedTeams.length === 0 && !balancer.canPickTeams) {
+      return null;
+    }
+    return (
+      <View style={{ padding: theme.spacing.base }}>
+        <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.md }]}>
+          Teams
+        </Text>
+        {renderTeams(balancer.savedTeams.map(team => team.playerIds))}
+        {balancer.canPickTeams && (
+          <Button
+            title={balancer.savedTeams.length > 0 ? 'Re-pick Teams' : 'Pick Teams'}
+            variant="outline"
+            icon="scale-balance"
+            onPress={balancer.onOpen}
+            fullWidth
+          />
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ padding: theme.spacing.base }}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.md }]}>
+        Pick Teams
+      </Text>
+
+      <Text style={[theme.typography.labelMedium, styles.label, { color: theme.colors.textSecondary }]}>
+        Number of teams
+      </Text>
+      <View style={styles.chips}>
+        {balancer.teamCountOptions.map(count => (
+          <Chip
+            key={count}
+            label={String(count)}
+            size="small"
+            selected={balancer.teamCount === count}
+            onPress={() => balancer.onTeamCountChange(count)}
+            style={styles.chip}
+          />
+        ))}
+      </View>
+
+      <Text style={[theme.typography.labelMedium, styles.label, { color: theme.colors.textSecondary }]}>
+        Keep together
+      </Text>
+      <View style={styles.chips}>
+        {balancer.keepTogether.map(([first, second], index) => (
+          <Chip
+            key={`${first}-${second}`}
+            label={`${names[first]} & ${names[second]}`}
+            size="small"
+            variant="outlined"
+            onDelete={() => balancer.onRemovePair(index)}
+            style={styles.chip}
+          />
+        ))}
+        {!balancer.isPairing && (
+          <Chip label="Add pair" icon="plus" size="small" onPress={balancer.onStartPair} style={styles.chip} />
+        )}
+      </View>
+      {balancer.isPairing && (
+        <>
+          <Text style={[theme.typography.bodySmall, styles.label, { color: theme.colors.textSecondary }]}>
+            {balancer.pairingId ? `Who plays with ${names[balancer.pairingId]}?` : 'Pick the first player'}
+          </Text>
+          <View style={styles.chips}>
+            {Object.entries(names).map(([id, name]) => (
+              <Chip
+                key={id}
+                label={name}
+                size="small"
+                selected={balancer.pairingId === id}
+                onPress={() => balancer.onPlayerPress(id)}
+                style={styles.chip}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      <Button
+        title={balancer.teams ? 'Balance Again' : 'Balance Teams'}
+        variant="secondary"
+        icon="scale-balance"
+        onPress={balancer.onBalance}
+        fullWidth
+        style={{ marginBottom: theme.spacing.md }}
+      />
+
+      {balancer.teams && !balancer.isPairing && (
+        <>
+          {renderTeams(balancer.teams, balancer.teamRatings)}
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary, marginBottom: theme.spacing.md }]}>
+            {`Skill gap ${balancer.skillGap.toFixed(1)}. Tap two players on different teams to swap them.`}
+          </Text>
+        </>
+      )}
+
+      {balancer.error && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginBottom: theme.spacing.sm }]}>
+          {balancer.error}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          title="Save Teams"
+          onPress={balancer.onSave}
+          loading={balancer.isSaving}
+          disabled={!balancer.teams}
+          style={styles.action}
+        />
+        <Button title="Cancel" variant="text" onPress={balancer.onClose} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  action: {
+    marginRight: 8,
+  },
+});
+
+export default TeamBalanceCard;
@@ -0,0 +1,155 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import { useTheme } from '../../../theme';
+import { Chip } from '@shared/components/atoms';
+import { IconButton } from '@shared/components/molecules';
+import { MatchWaitlist } from '../types';
+import { getQueuedEntries, hasActiveOffer } from '../utils';
+
+interface WaitlistCardProps {
+  waitlist: MatchWaitlist;
+  currentUserId?: string | null;
+  isOrganizer: boolean;
+  onMove: (entryId: string, toIndex: number) => void;
+  onSetLimit: (maxLength: number | null) => void;
+}
+
+const LIMIT_OPTIONS = [5, 10, 20];
+
+/**
+ * WaitlistCard
+ *
+ * Players queuing for a full match in order, with the spots currently held
+ * for promoted players. Organizers can move players up or down and cap how
+ * many can queue.
+ */
+const WaitlistCard: React.FC<WaitlistCardProps> = ({
+  waitlist,
+  currentUserId,
+  isOrganizer,
+  onMove,
+  onSetLimit,
+}) => {
+  const { theme } = useTheme();
+  const queued = getQueuedEntries(waitlist);
+  const offered = waitlist.entries.filter(entry => hasActiveOffer(entry));
+  const limitOptions =
+    waitlist.maxLength && !LIMIT_OPTIONS.includes(waitlist.maxLength)
+      ? [...LIMIT_OPTIONS, waitlist.maxLength].sort((a, b) => a - b)
+      : LIMIT_OPTIONS;
+
+  return (
+    <View style={{ padding: theme.spacing.base }}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.xs }]}>
+        Waitlist
+      </Text>
+      <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary, marginBottom: theme.spacing.md }]}>
+        {waitlist.maxLength ? `${queued.length} of ${waitlist.maxLength} waiting` : `${queued.length} waiting`}
+      </Text>
+
+      {offered.map(entry => (
+        <View key={entry._id} style={styles.row}>
+          <Text style={[theme.typography.labelMedium, styles.position, { color: theme.colors.success }]}>✓</Text>
+          <Text numberOfLines={1} style={[theme.typography.bodyMedium, styles.name, { color: theme.colors.text }]}>
+            {`${entry.user.firstName} ${entry.user.lastName}`}
+          </Text>
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+            {`Spot held until ${format(new Date(entry.offerExpiresAt!), 'h:mm a')}`}
+          </Text>
+        </View>
+      ))}
+
+      {queued.map((entry, index) => (
+        <View key={entry._id} style={styles.row}>
+          <Text style={[theme.typography.labelMedium, styles.position, { color: theme.colors.textSecondary }]}>
+            {index + 1}
+          </Text>
+          <Text
+            numberOfLines={1}
+            style={[
+              theme.typography.bodyMedium,
+              styles.name,
+              { color: entry.user._id === currentUserId ? theme.colors.primary : theme.colors.text },
+            ]}
+          >
+            {`${entry.user.firstName} ${entry.user.lastName}`}
+          </Text>
+          {isOrganizer && (
+            <>
+              <IconButton
+                icon="arrow-up"
+                size="small"
+                variant="text"
+                disabled={index === 0}
+                onPress={() => onMove(entry._id, index - 1)}
+                accessibilityLabel={`Move ${entry.user.firstName} up`}
+              />
+              <IconButton
+                icon="arrow-down"
+                size="small"
+                variant="text"
+                disabled={index === queued.length - 1}
+                onPress={() => onMove(entry._id, index + 1)}
+                accessibilityLabel={`Move ${entry.user.firstName} down`}
+              />
+            </>
+          )}
+        </View>
+      ))}
+
+      {isOrganizer && (
+        <View style={[styles.limits, { marginTop: theme.spacing.md }]}>
+          <Text style={[theme.typography.labelMedium, styles.limitLabel, { color: theme.colors.textSecondary }]}>
+            Limit
+          </Text>
+          <Chip
+            label="None"
+            size="small"
+            selected={!waitlist.maxLength}
+            onPress={() => onSetLimit(null)}
+            style={styles.chip}
+          />
+          {limitOptions.map(option => (
+            <Chip
+              key={option}
+              label={String(option)}
+              size="small"
+              selected={waitlist.maxLength === option}
+              onPress={() => onSetLimit(option)}
+              style={styles.chip}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  position: {
+    width: 28,
+  },
+  name: {
+    flex: 1,
+  },
+  limits: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  limitLabel: {
+    marginRight: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 4,
+  },
+});
+
+export default WaitlistCard;
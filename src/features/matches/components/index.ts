@@ -0,0 +1,7 @@
+export { default as WaitlistCard } from './WaitlistCard';
+export { default as TeamBalanceCard } from './TeamBalanceCard';
+export { default as CheckInCard } from './CheckInCard';
+export { default as PlayerReviewCard } from './PlayerReviewCard';
+export { default as CostSplitCard } from './CostSplitCard';
+export { default as CostSharePaymentSheet } from './CostSharePaymentSheet';
+export { default as MatchDiscoveryHeader } from './MatchDiscoveryHeader';
@@ -1,3 +1,13 @@
 export { useMatchesScreen } from './useMatchesScreen';
 export { useMatchDetailScreen } from './useMatchDetailScreen';
 export { useCreateMatchScreen } from './useCreateMatchScreen';
+export { useLiveScoreScreen } from './useLiveScoreScreen';
+export { useMatchSeriesScreen } from './useMatchSeriesScreen';
+export { useTeamBalancer } from './useTeamBalancer';
+export { useMatchCheckIn } from './useMatchCheckIn';
+export { useCheckInScannerScreen } from './useCheckInScannerScreen';
+export { useMatchInviteScreen } from './useMatchInviteScreen';
+export { useMatchReviewScreen } from './useMatchReviewScreen';
+export { useMatchReviewPrompt } from './useMatchReviewPrompt';
+export { useCostSplit } from './useCostSplit';
+export { useFilterPresets } from './useFilterPresets';
@@ -0,0 +1,45 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useRef, useState } from 'react';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { matchService } from '../services';
+
+export function useCheckInScannerScreen(navigation: any) {
+  const currentUserId = useAppSelector(selectUserId);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The scanner reports the same code many times a second
+  const lastCode = useRef<string | null>(null);
+
+  const handleCodeScanned = useCallback(
+    async (code: string) => {
+      if (!currentUserId || isSubmitting || code === lastCode.current) return;
+      lastCode.current = code;
+
+      setIsSubmitting(true);
+      setError(null);
+      try {
+        await matchService.checkInWithCode(code, currentUserId);
+        navigation.goBack();
+      } catch (err) {
+        setError(
+          err instanceof Error && err instanceof BusinessError ? err.message : 'Could not check in. Please try again.'
+        );
+        logger.error('Failed to check in:', err instanceof Error ? err : undefined);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [currentUserId, isSubmitting, navigation]
+  );
+
+  return {
+    isSubmitting,
+    error,
+    onCodeScanned: handleCodeScanned,
+    onRetry: () => {
+      lastCode.current = null;
+      setError(null);
+    },
+  };
+}
@@ -0,0 +1,189 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useMemo, useState } from 'react';
+import { useGetBookingQuery } from '@features/venues/store';
+import { useConfirmPaymentMutation, useCreatePaymentIntentMutation } from '@features/profile/store';
+import { matchService } from '../services';
+import { useGetCostSplitQuery } from '../store/matchApi';
+import { CostSplitMethod, Match } from '../types';
+import {
+  canPayCostShare,
+  getBookingCost,
+  getCostSettlement,
+  getCostShare,
+  getCostSplitError,
+  parseCostAmount,
+  splitCostEqually,
+} from '../utils';
+
+interface CostShareCheckout {
+  clientSecret: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Splitting the cost of the venue booked for a match. The booker divides it
+ * equally or by custom amounts; everyone else pays their share through Stripe
+ * and the booker can mark shares settled outside the app.
+ */
+export function useCostSplit(match: Match | undefined, userId: string | null | undefined) {
+  const matchId = match?._id ?? '';
+  const bookingId = match?.bookingId;
+  const { data: split, refetch } = useGetCostSplitQuery(matchId, { skip: !bookingId });
+  // Only needed to split; afterwards the split carries the total and the booker
+  const { data: booking } = useGetBookingQuery(bookingId ?? '', { skip: !bookingId || Boolean(split) });
+  const [createPaymentIntent] = useCreatePaymentIntentMutation();
+  const [confirmPayment] = useConfirmPaymentMutation();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [method, setMethod] = useState<CostSplitMethod>('equal');
+  const [customAmounts, setCustomAmounts] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [checkout, setCheckout] = useState<CostShareCheckout | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const participants = useMemo(() => match?.participants ?? [], [match?.participants]);
+  const playerNames = useMemo(
+    () => Object.fromEntries(participants.map(p => [p._id, `${p.firstName} ${p.lastName}`])),
+    [participants]
+  );
+
+  const total = booking ? getBookingCost(booking) : 0;
+  const currency = split?.currency ?? booking?.pricing.currency ?? 'USD';
+  const isBooker = Boolean(userId) && (split ? split.payerId === userId : booking?.user._id === userId);
+  const canSplit =
+    !split &&
+    isBooker &&
+    participants.length >= 2 &&
+    booking?.status !== 'cancelled' &&
+    match?.status !== 'cancelled';
+
+  const shares = useMemo(() => {
+    const ids = participants.map(p => p._id);
+    if (method === 'equal') {
+      return splitCostEqually(total, ids, userId ?? undefined);
+    }
+    return ids.map(id => ({ userId: id, amount: parseCostAmount(customAmounts[id] ?? '') ?? 0 }));
+  }, [participants, method, total, customAmounts, userId]);
+
+  const splitError =
+    match && booking && userId && isEditing ? getCostSplitError(match, booking, userId, shares) : null;
+
+  const handleSetCustomAmount = useCallback((playerId: string, text: string) => {
+    setCustomAmounts(current => ({ ...current, [playerId]: text }));
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (!match || !booking || !userId) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await matchService.createCostSplit(match._id, userId, booking, { bookingId: booking._id, method, shares });
+      setIsEditing(false);
+      await refetch();
+    } catch (err) {
+      setError(
+        err instanceof Error && err instanceof BusinessError
+          ? err.message
+          : 'Could not split the cost. Please try again.'
+      );
+      logger.error('Failed to split match cost:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [match, booking, userId, method, shares, refetch]);
+
+  const handleSettle = useCallback(
+    async (shareUserId: string, status: 'paid' | 'waived') => {
+      if (!userId) return;
+
+      setError(null);
+      try {
+        await matchService.settleCostShare(matchId, userId, shareUserId, status);
+        await refetch();
+      } catch (err) {
+        setError(
+          err instanceof Error && err instanceof BusinessError
+            ? err.message
+            : 'Could not update the share. Please try again.'
+        );
+        logger.error('Failed to settle cost share:', err instanceof Error ? err : undefined);
+      }
+    },
+    [matchId, userId, refetch]
+  );
+
+  const myShare = getCostShare(split, userId);
+
+  const handlePay = useCallback(async () => {
+    if (!split || !myShare) return;
+
+    setIsPreparing(true);
+    setError(null);
+    try {
+      const { clientSecret } = await createPaymentIntent({
+        amount: myShare.amount,
+        currency: split.currency,
+        matchId: split.matchId,
+        metadata: { matchId: split.matchId, bookingId: split.bookingId, purpose: 'match_cost_share' },
+      }).unwrap();
+
+      setCheckout({ clientSecret, amount: myShare.amount, currency: split.currency });
+    } catch (err) {
+      setError('Could not start the payment. Please try again.');
+      logger.error('Failed to create cost share payment:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsPreparing(false);
+    }
+  }, [split, myShare, createPaymentIntent]);
+
+  const handlePaymentSuccess = useCallback(
+    async (paymentIntentId: string) => {
+      setCheckout(null);
+      try {
+        await confirmPayment({ paymentIntentId, matchId }).unwrap();
+        await refetch();
+      } catch (err) {
+        setError('Your payment went through but your share could not be marked as paid yet.');
+        logger.error('Failed to confirm cost share payment:', err instanceof Error ? err : undefined);
+      }
+    },
+    [confirmPayment, matchId, refetch]
+  );
+
+  return {
+    isVisible: Boolean(split) || canSplit,
+    split,
+    settlement: split ? getCostSettlement(split) : null,
+    playerNames,
+    payeeName: (split && playerNames[split.payerId]) ?? 'the booker',
+    currency,
+    total,
+    isBooker,
+    canSplit,
+    isEditing,
+    method,
+    shares,
+    customAmounts,
+    splitError,
+    isSaving,
+    myShare,
+    canPay: canPayCostShare(split, userId),
+    checkout,
+    isPreparing,
+    error,
+    onToggleEditing: () => setIsEditing(open => !open),
+    onSetMethod: setMethod,
+    onSetCustomAmount: handleSetCustomAmount,
+    onCreate: handleCreate,
+    onSettle: handleSettle,
+    onPay: handlePay,
+    onPaymentSuccess: handlePaymentSuccess,
+    onPaymentError: setError,
+    onCancelPayment: () => setCheckout(null),
+  };
+}
+
+export type CostSplitState = ReturnType<typeof useCostSplit>;
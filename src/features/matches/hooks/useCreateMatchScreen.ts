@@ -1,73 +1,219 @@
 import { useState, useCallback } from 'react';
-import { useForm } from '@shared/hooks';
+import { FormField } from '@shared/components/templates';
+import { validateDate, validateName, validateNumber, validateTime } from '@shared/utils/validation';
 import { matchService } from '../services';
+import { CreateMatchRequest, RecurrenceFrequency, RecurrenceRule, Weekday } from '../types';
+import { getWeekday, WEEKDAY_NAMES } from '../utils';
+
+type RepeatOption = 'none' | 'daily' | 'weekly' | 'custom';
+type SeriesEnd = 'never' | 'count' | 'until';
+
+const REPEAT_OPTIONS: { value: RepeatOption; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Days' },
+  { value: 'weekly', label: 'Weeks' },
+  { value: 'monthly', label: 'Months' },
+];
+
+const WEEKDAY_OPTIONS = (Object.keys(WEEKDAY_NAMES) as Weekday[]).map(day => ({
+  value: day,
+  label: WEEKDAY_NAMES[day].slice(0, 3),
+}));
+
+const SERIES_END_OPTIONS: { value: SeriesEnd; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'count', label: 'After' },
+  { value: 'until', label: 'On date' },
+];
+
+const formFields: FormField[] = [
+  { name: 'title', label: 'Title', type: 'text', required: true },
+  { name: 'description', label: 'Description', type: 'textarea' },
+  { name: 'sport', label: 'Sport', type: 'text', required: true },
+  { name: 'maxParticipants', label: 'Max Participants', type: 'number', required: true, defaultValue: '10' },
+  { name: 'date', label: 'Date', type: 'text', placeholder: 'YYYY-MM-DD', required: true },
+  { name: 'time', label: 'Time', type: 'text', placeholder: 'HH:MM', required: true },
+  { name: 'duration', label: 'Duration (minutes)', type: 'number', required: true, defaultValue: '90' },
+  { name: 'minRating', label: 'Minimum Rating', type: 'number', placeholder: 'Any' },
+  { name: 'maxRating', label: 'Maximum Rating', type: 'number', placeholder: 'Any' },
+];
+
+/** Bounds on the rating limits an organizer can set */
+const RATING_LIMITS = { min: 100, max: 3000 };
+
+const parseOptionalNumber = (value?: string): number | undefined =>
+  value?.trim() ? parseInt(value, 10) : undefined;
 
 export function useCreateMatchScreen(navigation: any) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [repeat, setRepeat] = useState<RepeatOption>('none');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('weekly');
+  const [repeatInterval, setRepeatInterval] = useState('1');
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [seriesEnd, setSeriesEnd] = useState<SeriesEnd>('never');
+  const [endCount, setEndCount] = useState('');
+  const [endDate, setEndDate] = useState('');
 
-  const { values, errors, handleChange, validate } = useForm({
-    initialValues: {
-      title: '',
-      sport: '',
-      date: new Date(),
-      time: '',
-      location: '',
-      maxParticipants: 10,
-      description: '',
-    },
-    validationRules: {
-      title: (value) => {
-        if (!value || value.length < 3) {
-          return 'Title must be at least 3 characters';
-        }
-        return null;
-      },
-      sport: (value) => {
-        if (!value) {
-          return 'Sport is required';
-        }
-        return null;
-      },
-      time: (value) => {
-        if (!value) {
-          return 'Time is required';
+  const handleToggleWeekday = useCallback((day: Weekday) => {
+    setWeekdays(current => (current.includes(day) ? current.filter(d => d !== day) : [...current, day]));
+  }, []);
+
+  const buildRecurrence = useCallback((): RecurrenceRule | null => {
+    if (repeat === 'none') {
+      return null;
+    }
+
+    const rule: RecurrenceRule =
+      repeat === 'custom'
+        ? { frequency, interval: parseInt(repeatInterval, 10) }
+        : { frequency: repeat, interval: 1 };
+    if (rule.frequency === 'weekly' && repeat === 'custom' && weekdays.length > 0) {
+      rule.byWeekday = weekdays;
+    }
+    if (seriesEnd === 'count') {
+      rule.count = parseInt(endCount, 10);
+    }
+    if (seriesEnd === 'until') {
+      rule.until = endDate;
+    }
+    return rule;
+  }, [repeat, frequency, repeatInterval, weekdays, seriesEnd, endCount, endDate]);
+
+  const validateForm = useCallback(
+    (data: Record<string, string>): Record<string, string> => {
+      const errors: Record<string, string> = {};
+
+      const checks = {
+        title: validateName(data.title ?? '', 'Title'),
+        sport: validateName(data.sport ?? '', 'Sport', 1),
+        maxParticipants: validateNumber(data.maxParticipants ?? '', 'Max participants', 2, 100),
+        date: validateDate(data.date ?? '', 'Date'),
+        time: validateTime(data.time ?? '', 'Time'),
+        duration: validateNumber(data.duration ?? '', 'Duration', 15, 600),
+        minRating: validateNumber(data.minRating ?? '', 'Minimum rating', RATING_LIMITS.min, RATING_LIMITS.max, false),
+        maxRating: validateNumber(data.maxRating ?? '', 'Maximum rating', RATING_LIMITS.min, RATING_LIMITS.max, false),
+      };
+      Object.entries(checks).forEach(([field, result]) => {
+        if (!result.isValid) errors[field] = result.error;
+      });
+
+      const minRating = parseOptionalNumber(data.minRating);
+      const maxRating = parseOptionalNumber(data.maxRating);
+      const ratingsValid = !errors.minRating && !errors.maxRating;
+      if (ratingsValid && minRating !== undefined && maxRating !== undefined && minRating > maxRating) {
+        errors.maxRating = 'Maximum rating must be at least the minimum rating';
+      }
+
+      if (repeat === 'custom') {
+        const intervalCheck = validateNumber(repeatInterval, 'Repeat interval', 1, 52);
+        if (!intervalCheck.isValid) errors.interval = intervalCheck.error;
+
+        // The first match is the first occurrence, so it must be a repeat day
+        if (frequency === 'weekly' && weekdays.length > 0 && !errors.date) {
+          const firstDay = getWeekday(data.date);
+          if (!weekdays.includes(firstDay)) {
+            errors.weekdays = `Include ${WEEKDAY_NAMES[firstDay]}, the day of the first match`;
+          }
         }
-        return null;
-      },
-      location: (value) => {
-        if (!value) {
-          return 'Location is required';
+      }
+
+      if (repeat !== 'none' && seriesEnd === 'count') {
+        const countCheck = validateNumber(endCount, 'Number of matches', 2, 200);
+        if (!countCheck.isValid) errors.endCount = countCheck.error;
+      }
+
+      if (repeat !== 'none' && seriesEnd === 'until') {
+        const untilCheck = validateDate(endDate, 'End date');
+        if (!untilCheck.isValid) {
+          errors.endDate = untilCheck.error;
+        } else if (!errors.date && endDate <= data.date) {
+          errors.endDate = 'The series must end after the first match';
         }
-        return null;
-      },
+      }
+
+      return errors;
     },
-  });
+    [repeat, frequency, repeatInterval, weekdays, seriesEnd, endCount, endDate]
+  );
 
-  const handleSubmit = useCallback(async () => {
-    if (!validate()) {
-      return;
-    }
+  const handleSubmit = useCallback(
+    async (data: Record<string, string>) => {
+      const errors = validateForm(data);
+      setValidationErrors(errors);
+      if (Object.keys(errors).length > 0) {
+        return;
+      }
 
-    setIsSubmitting(true);
-    setError(null);
+      const request: CreateMatchRequest = {
+        type: 'public',
+        title: data.title.trim(),
+        description: data.description?.trim() || undefined,
+        sport: data.sport.trim(),
+        maxParticipants: parseInt(data.maxParticipants, 10),
+        schedule: {
+          date: data.date,
+          time: data.time,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          duration: parseInt(data.duration, 10),
+        },
+      };
+      const minRating = parseOptionalNumber(data.minRating);
+      const maxRating = parseOptionalNumber(data.maxRating);
+      if (minRating !== undefined || maxRating !== undefined) {
+        request.requirements = { minRating, maxRating };
+      }
+      const recurrence = buildRecurrence();
 
-    try {
-      await matchService.createMatch(values);
-      navigation.goBack();
-    } catch (err: any) {
-      setError(err.message || 'Failed to create match');
-    } finally {
-      setIsSubmitting(false);
-    }
-  }, [values, validate, navigation]);
+      setIsSubmitting(true);
+      setError(null);
+
+      try {
+        if (recurrence) {
+          await matchService.createSeries({ template: request, recurrence });
+        } else {
+          await matchService.createMatch(request);
+        }
+        navigation.goBack();
+      } catch (err: any) {
+        setError(err.message || 'Failed to create match');
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [validateForm, buildRecurrence, navigation]
+  );
 
   return {
-    values,
-    errors,
+    formFields,
+    repeatOptions: REPEAT_OPTIONS,
+    repeat,
+    frequencyOptions: FREQUENCY_OPTIONS,
+    frequency,
+    repeatInterval,
+    weekdayOptions: WEEKDAY_OPTIONS,
+    weekdays,
+    seriesEndOptions: SERIES_END_OPTIONS,
+    seriesEnd,
+    endCount,
+    endDate,
+    validationErrors,
     error,
     isSubmitting,
-    onChange: handleChange,
-    onSubmit: handleSubmit,
+    onRepeatChange: setRepeat,
+    onFrequencyChange: setFrequency,
+    onRepeatIntervalChange: setRepeatInterval,
+    onToggleWeekday: handleToggleWeekday,
+    onSeriesEndChange: setSeriesEnd,
+    onEndCountChange: setEndCount,
+    onEndDateChange: setEndDate,
+    handleSubmit,
   };
 }
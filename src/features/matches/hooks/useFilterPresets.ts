@@ -0,0 +1,83 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { filterPresetService } from '../services';
+import { MatchDiscoveryFilters, MatchFilterPreset } from '../types';
+import { DEFAULT_DISCOVERY_FILTERS, isSameDiscoveryFilters } from '../utils';
+
+/**
+ * Saving the current discovery filters under a name and switching back to
+ * them later. Presets live on the device.
+ */
+export function useFilterPresets(filters: MatchDiscoveryFilters, onApply: (filters: MatchDiscoveryFilters) => void) {
+  const [presets, setPresets] = useState<MatchFilterPreset[]>([]);
+  const [isNaming, setIsNaming] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    filterPresetService
+      .getPresets()
+      .then(setPresets)
+      .catch(err => logger.error('Failed to load filter presets:', err instanceof Error ? err : undefined));
+  }, []);
+
+  const activePresetId = presets.find(preset => isSameDiscoveryFilters(preset.filters, filters))?.id ?? null;
+
+  const handleToggleNaming = useCallback(() => {
+    setIsNaming(open => !open);
+    setPresetName('');
+    setError(null);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      setPresets(await filterPresetService.savePreset(presetName, filters));
+      setIsNaming(false);
+      setPresetName('');
+    } catch (err) {
+      setError(
+        err instanceof Error && err instanceof BusinessError ? err.message : 'Could not save the preset. Please try again.'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }, [presetName, filters]);
+
+  const handleDelete = useCallback((preset: MatchFilterPreset) => {
+    Alert.alert('Delete Preset', `Delete the "${preset.name}" preset?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setPresets(await filterPresetService.deletePreset(preset.id));
+          } catch {
+            setError('Could not delete the preset. Please try again.');
+          }
+        },
+      },
+    ]);
+  }, []);
+
+  return {
+    presets,
+    activePresetId,
+    canSave: !activePresetId && !isSameDiscoveryFilters(filters, DEFAULT_DISCOVERY_FILTERS),
+    isNaming,
+    presetName,
+    isSaving,
+    error,
+    onToggleNaming: handleToggleNaming,
+    onChangeName: setPresetName,
+    onSave: handleSave,
+    onApply: (preset: MatchFilterPreset) => onApply(preset.filters),
+    onDelete: handleDelete,
+  };
+}
+
+export type FilterPresetsState = ReturnType<typeof useFilterPresets>;
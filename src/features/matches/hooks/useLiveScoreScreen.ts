@@ -0,0 +1,148 @@
+import { logger } from '@core';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store/authSelectors';
+import { isQueuedOffline } from '@shared/services/baseQuery';
+import {
+  matchApi,
+  useGetMatchQuery,
+  useSaveLiveScoreMutation,
+  useUpdateScoreMutation,
+  useUpdateStatusMutation,
+} from '../store/matchApi';
+import { ScoreEvent, ScoreEventType, ScoreSide } from '../types';
+import {
+  calculateLiveScore,
+  createScoreEvent,
+  getScoreValues,
+  getScoringModel,
+  toMatchScore,
+} from '../utils';
+
+/**
+ * Live scorekeeping for the match organizer. Every change is replayed from
+ * the event log, mirrored into the cached match and saved as it happens; the
+ * server pushes it to followers. Changes made offline wait in the outbox. The
+ * final score is saved when the match is finished.
+ */
+export function useLiveScoreScreen(route: any, navigation: any) {
+  const { matchId } = route.params;
+  const dispatch = useAppDispatch();
+  const currentUserId = useAppSelector(selectUserId);
+  const { data: match, isLoading } = useGetMatchQuery(matchId);
+  const [updateScore] = useUpdateScoreMutation();
+  const [saveLiveScore] = useSaveLiveScoreMutation();
+  const [updateStatus] = useUpdateStatusMutation();
+
+  const [savedEvents, setSavedEvents] = useState<ScoreEvent[] | null>(null);
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const model = useMemo(() => (match ? getScoringModel(match.sport) : undefined), [match]);
+  const isOrganizer = Boolean(currentUserId) && match?.organizer._id === currentUserId;
+
+  // Resume from the log saved with the match, once it has loaded
+  useEffect(() => {
+    if (match && savedEvents === null) setSavedEvents(match.score?.events ?? []);
+  }, [match, savedEvents]);
+
+  const events = useMemo(() => savedEvents ?? [], [savedEvents]);
+  const score = useMemo(() => (model ? calculateLiveScore(model, events) : null), [model, events]);
+
+  const sideNames = useMemo((): Record<ScoreSide, string> => {
+    if (match?.participants.length === 2) {
+      const [first, second] = match.participants;
+      return {
+        team1: `${first.firstName} ${first.lastName}`,
+        team2: `${second.firstName} ${second.lastName}`,
+      };
+    }
+    return { team1: 'Team 1', team2: 'Team 2' };
+  }, [match?.participants]);
+
+  const publish = useCallback(
+    (nextEvents: ScoreEvent[]) => {
+      if (!model) return;
+
+      const nextScore = toMatchScore(calculateLiveScore(model, nextEvents), nextEvents);
+      setSavedEvents(nextEvents);
+      dispatch(
+        matchApi.util.updateQueryData('getMatch', matchId, (draft) => {
+          draft.score = nextScore;
+        })
+      );
+
+      // The whole live score, so followers also see the game in progress
+      setError(null);
+      saveLiveScore({ id: matchId, score: nextScore })
+        .unwrap()
+        .catch((err) => {
+          // Queued offline: the outbox banner shows the score until it is sent
+          if (isQueuedOffline(err)) return;
+          setError('The latest score could not be saved. It is saved again with the next change.');
+          logger.error('Failed to save live score:', err instanceof Error ? err : undefined);
+        });
+    },
+    [model, matchId, dispatch, saveLiveScore]
+  );
+
+  const record = useCallback(
+    (type: ScoreEventType, side?: ScoreSide, value?: number) => {
+      if (!score || score.isComplete) return;
+
+      if (events.length === 0 && match?.status === 'upcoming') {
+        updateStatus({ id: matchId, status: 'in-progress' })
+          .unwrap()
+          .catch((err) =>
+            logger.error('Failed to start match:', err instanceof Error ? err : undefined)
+          );
+      }
+
+      const event = createScoreEvent(type, side, value);
+      publish([...events, event]);
+    },
+    [score, events, match?.status, matchId, updateStatus, publish]
+  );
+
+  const handleUndo = useCallback(() => {
+    const lastEvent = events[events.length - 1];
+    if (!lastEvent) return;
+    publish(events.slice(0, -1));
+  }, [events, publish]);
+
+  const handleFinish = useCallback(async () => {
+    if (!score?.isComplete) return;
+
+    setIsFinishing(true);
+    setError(null);
+    try {
+      const { team1, team2, winner, breakdown } = toMatchScore(score, events);
+      await updateScore({ id: matchId, score: { team1, team2, winner, breakdown, events } }).unwrap();
+      await updateStatus({ id: matchId, status: 'completed' }).unwrap();
+      navigation.goBack();
+    } catch (err) {
+      setError('Could not save the final score. Please try again.');
+      logger.error('Failed to finish match:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsFinishing(false);
+    }
+  }, [score, events, matchId, updateScore, updateStatus, navigation]);
+
+  return {
+    match,
+    model,
+    score,
+    events,
+    sideNames,
+    scoreValues: model ? getScoreValues(model) : [],
+    isOrganizer,
+    isLoading,
+    isFinishing,
+    error,
+    onScore: (side: ScoreSide, value?: number) => record('point', side, value),
+    onOut: () => record('out'),
+    onEndPeriod: () => record('end_period'),
+    onUndo: handleUndo,
+    onFinish: handleFinish,
+  };
+}
@@ -0,0 +1,115 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { mapService } from '@features/venues/services/mapService';
+import { matchService } from '../services';
+import { useGetCheckInTokenQuery } from '../store/matchApi';
+import { Match } from '../types';
+import {
+  CHECK_IN_TOKEN_REFRESH_MS,
+  encodeCheckInCode,
+  getAbsentParticipantIds,
+  getAttendanceRecord,
+  getMatchStart,
+  getVenueCoordinates,
+  isCheckInOpen,
+} from '../utils';
+
+/**
+ * Check-in on the match detail screen. Players are checked in from their
+ * location once when the screen opens during the check-in window, and can
+ * scan the organizer's code otherwise. The organizer shows the code and
+ * closes check-in to record no-shows.
+ */
+export function useMatchCheckIn(
+  match: Match | undefined,
+  userId: string | null | undefined,
+  onChange: () => void
+) {
+  const [isCodeVisible, setIsCodeVisible] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasTriedLocation = useRef(false);
+
+  const matchId = match?._id;
+  const isActive = Boolean(match) && match!.status !== 'cancelled' && match!.status !== 'completed';
+  const isOpen = isActive && !match!.checkInClosedAt && isCheckInOpen(match!);
+  const isOrganizer = Boolean(userId) && match?.organizer._id === userId;
+  const isParticipant = Boolean(match?.participants.some(p => p._id === userId));
+  const record = match ? getAttendanceRecord(match, userId) : undefined;
+  const canCheckIn = isParticipant && isOpen && record?.status !== 'checked_in';
+  const hasVenueLocation = Boolean(match && getVenueCoordinates(match));
+
+  const { data: token } = useGetCheckInTokenQuery(matchId ?? '', {
+    skip: !matchId || !isOrganizer || !isCodeVisible || !isOpen,
+    pollingInterval: CHECK_IN_TOKEN_REFRESH_MS,
+  });
+
+  // Try the player's location once per visit; scanning stays available if it fails
+  useEffect(() => {
+    if (!canCheckIn || !hasVenueLocation || !matchId || !userId || hasTriedLocation.current) return;
+    hasTriedLocation.current = true;
+
+    const checkInByLocation = async () => {
+      setIsLocating(true);
+      try {
+        const location = await mapService.getCurrentLocation();
+        if (!location) return;
+        await matchService.checkInByLocation(matchId, userId, location);
+        onChange();
+      } catch (err) {
+        logger.debug('Automatic check-in skipped', {
+          matchId,
+          reason: err instanceof Error ? err.message : undefined,
+        });
+      } finally {
+        setIsLocating(false);
+      }
+    };
+    checkInByLocation();
+  }, [canCheckIn, hasVenueLocation, matchId, userId, onChange]);
+
+  const handleCloseCheckIn = useCallback(async () => {
+    if (!matchId || !userId) return;
+
+    setIsClosing(true);
+    setError(null);
+    try {
+      await matchService.closeCheckIn(matchId, userId);
+      setIsCodeVisible(false);
+      onChange();
+    } catch (err) {
+      setError(
+        err instanceof Error && err instanceof BusinessError ? err.message : 'Could not close check-in. Please try again.'
+      );
+      logger.error('Failed to close check-in:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsClosing(false);
+    }
+  }, [matchId, userId, onChange]);
+
+  const checkedInCount = match?.attendance?.filter(entry => entry.status === 'checked_in').length ?? 0;
+
+  return {
+    isVisible: isActive && (isOrganizer || isParticipant),
+    isOpen,
+    isOrganizer,
+    record,
+    canCheckIn,
+    isLocating,
+    checkedInCount,
+    participantCount: match?.participants.length ?? 0,
+    absentCount: match?.checkInClosedAt ? getAbsentParticipantIds(match).length : 0,
+    isClosed: Boolean(match?.checkInClosedAt),
+    canCloseCheckIn:
+      isOrganizer && isActive && !match!.checkInClosedAt && new Date() >= getMatchStart(match!),
+    isCodeVisible,
+    code: token && matchId ? encodeCheckInCode(matchId, token.token) : null,
+    error,
+    isClosing,
+    onToggleCode: () => setIsCodeVisible(visible => !visible),
+    onCloseCheckIn: handleCloseCheckIn,
+  };
+}
+
+export type MatchCheckIn = ReturnType<typeof useMatchCheckIn>;
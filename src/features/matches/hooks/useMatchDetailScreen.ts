@@ -1,30 +1,189 @@
-import { logger } from '@core';
-import { useCallback } from 'react';
-import { useGetMatchByIdQuery } from '../store/matchApi';
+import { BusinessError, logger } from '@core';
+import { useCallback, useMemo, useState } from 'react';
+import { Share } from 'react-native';
+import { useAppDispatch, useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { useSocketEvent, useSocketRoom } from '@shared/hooks';
+import { useGetPlayerRatingsQuery } from '@features/ratings/store';
+import { formatRatingRange, getRatingRange, getRatingRangeError } from '@features/ratings/utils';
+import { isQueuedOffline } from '@shared/services/baseQuery';
+import {
+  matchApi,
+  useGetMatchQuery,
+  useGetWaitlistQuery,
+  useJoinMatchMutation,
+  useLeaveMatchMutation,
+} from '../store/matchApi';
 import { matchService } from '../services';
+import { useTeamBalancer } from './useTeamBalancer';
+import { useMatchCheckIn } from './useMatchCheckIn';
+import { useCostSplit } from './useCostSplit';
+import {
+  buildInviteWebLink,
+  getOpenSpots,
+  getScoringModel,
+  getWaitlistEntry,
+  getWaitlistPosition,
+  hasActiveOffer,
+  moveWaitlistEntry,
+} from '../utils';
 
-export function useMatchDetailScreen(route: any, _navigation: any) {
+export function useMatchDetailScreen(route: any, navigation: any) {
   const { matchId } = route.params;
-  const { data, isLoading, error, refetch } = useGetMatchByIdQuery(matchId);
-  const match = data?.data;
+  const dispatch = useAppDispatch();
+  const currentUserId = useAppSelector(selectUserId);
+  const { data: match, isLoading, isFetching, error, refetch, fulfilledTimeStamp } = useGetMatchQuery(matchId);
+  const { data: waitlist, refetch: refetchWaitlist } = useGetWaitlistQuery(matchId);
+  const [joinMatch] = useJoinMatchMutation();
+  const [leaveMatch] = useLeaveMatchMutation();
+  const [waitlistError, setWaitlistError] = useState<string | null>(null);
+  const teamBalancer = useTeamBalancer(match, currentUserId);
+  const checkIn = useMatchCheckIn(match, currentUserId, refetch);
+  const costSplit = useCostSplit(match, currentUserId);
+  const { data: myRatings } = useGetPlayerRatingsQuery(currentUserId ?? '', { skip: !currentUserId });
+  const myRating = myRatings?.find(rating => rating.sport === match?.sport);
+  const ratingRange = useMemo(() => getRatingRange(match?.requirements), [match?.requirements]);
+  const isParticipant = Boolean(match?.participants.some(p => p._id === currentUserId));
+  const ratingError = currentUserId && !isParticipant ? getRatingRangeError(ratingRange, myRating) : null;
+
+  const isOrganizer = Boolean(currentUserId) && match?.organizer._id === currentUserId;
+  const canKeepScore =
+    isOrganizer &&
+    Boolean(match && getScoringModel(match.sport)) &&
+    match?.status !== 'completed' &&
+    match?.status !== 'cancelled';
+
+  const waitlistEntry = getWaitlistEntry(waitlist, currentUserId);
+  const waitlistOffer = waitlistEntry && hasActiveOffer(waitlistEntry) ? waitlistEntry : undefined;
+  const canJoinWaitlist =
+    Boolean(match && currentUserId) && matchService.canJoinWaitlist(match!, waitlist, currentUserId!);
+
+  // Follow live score changes pushed by the scorekeeper
+  useSocketRoom('match', matchId);
+  useSocketEvent('match_updated', (updated) => {
+    if (updated._id !== matchId) return;
+    dispatch(matchApi.util.updateQueryData('getMatch', matchId, () => updated));
+  });
 
   const handleJoinMatch = useCallback(async () => {
+    if (!match) return;
     try {
-      await matchService.joinMatch(matchId);
-      await refetch();
+      matchService.assertCanJoin(match, waitlist, myRating);
+      await joinMatch(matchId).unwrap();
     } catch (err) {
+      // Queued offline: the outbox banner shows the join until it is sent
+      if (isQueuedOffline(err)) return;
       logger.error('Failed to join match:', err instanceof Error ? err : undefined);
     }
-  }, [matchId, refetch]);
+  }, [joinMatch, match, matchId, myRating, waitlist]);
 
   const handleLeaveMatch = useCallback(async () => {
+    if (!match) return;
     try {
-      await matchService.leaveMatch(matchId);
-      await refetch();
+      matchService.assertCanLeave(match);
+      await leaveMatch(matchId).unwrap();
+      // The server offers the freed spot to the waitlist
+      await Promise.all([refetch(), refetchWaitlist()]);
     } catch (err) {
+      // Queued offline: the server offers the spot once the leave reaches it
+      if (isQueuedOffline(err)) return;
       logger.error('Failed to leave match:', err instanceof Error ? err : undefined);
     }
-  }, [matchId, refetch]);
+  }, [leaveMatch, match, matchId, refetch, refetchWaitlist]);
+
+  const runWaitlistAction = useCallback(
+    async (action: () => Promise<unknown>, failureLog: string) => {
+      setWaitlistError(null);
+      try {
+        await action();
+        await Promise.all([refetch(), refetchWaitlist()]);
+      } catch (err) {
+        setWaitlistError(
+          err instanceof Error && err instanceof BusinessError ? err.message : 'Something went wrong. Please try again.'
+        );
+        logger.error(failureLog, err instanceof Error ? err : undefined);
+      }
+    },
+    [refetch, refetchWaitlist]
+  );
+
+  const handleJoinWaitlist = useCallback(() => {
+    if (!currentUserId) return;
+    runWaitlistAction(() => matchService.joinWaitlist(matchId, currentUserId), 'Failed to join waitlist:');
+  }, [currentUserId, matchId, runWaitlistAction]);
+
+  const handleLeaveWaitlist = useCallback(() => {
+    runWaitlistAction(() => matchService.leaveWaitlist(matchId), 'Failed to leave waitlist:');
+  }, [matchId, runWaitlistAction]);
+
+  const handleRespondToOffer = useCallback(
+    (accept: boolean) => {
+      if (!currentUserId) return;
+      runWaitlistAction(
+        () => matchService.respondToWaitlistOffer(matchId, currentUserId, accept),
+        'Failed to respond to waitlist offer:'
+      );
+    },
+    [currentUserId, matchId, runWaitlistAction]
+  );
+
+  const handleMoveWaitlistEntry = useCallback(
+    (entryId: string, toIndex: number) => {
+      if (!currentUserId || !waitlist) return;
+      runWaitlistAction(
+        () =>
+          matchService.updateWaitlist(matchId, currentUserId, {
+            order: moveWaitlistEntry(waitlist, entryId, toIndex),
+          }),
+        'Failed to reorder waitlist:'
+      );
+    },
+    [currentUserId, matchId, waitlist, runWaitlistAction]
+  );
+
+  const handleSetWaitlistLimit = useCallback(
+    (maxLength: number | null) => {
+      if (!currentUserId) return;
+      runWaitlistAction(
+        () => matchService.updateWaitlist(matchId, currentUserId, { maxLength }),
+        'Failed to update waitlist limit:'
+      );
+    },
+    [currentUserId, matchId, runWaitlistAction]
+  );
+
+  const handleShareInvite = useCallback(async () => {
+    if (!match?.inviteCode) return;
+    const link = buildInviteWebLink(match.inviteCode);
+    try {
+      await Share.share({ message: `Join "${match.title}" on Sportification: ${link}`, url: link });
+    } catch (err) {
+      logger.error('Failed to share invite link:', err instanceof Error ? err : undefined);
+    }
+  }, [match?.inviteCode, match?.title]);
+
+  const handleKeepScore = useCallback(() => {
+    navigation.navigate('LiveScore', { matchId });
+  }, [navigation, matchId]);
+
+  const handleScanCheckIn = useCallback(() => {
+    navigation.navigate('CheckInScanner');
+  }, [navigation]);
+
+  // The booking is made from the venues tab and linked back to this match
+  const handleBookVenue = useCallback(() => {
+    if (!match?.venue) return;
+    navigation.navigate('Venues', {
+      screen: 'CreateBooking',
+      params: { venueId: match.venue._id, matchId },
+    });
+  }, [navigation, match?.venue, matchId]);
+
+  const handleViewSeries = useCallback(() => {
+    if (match?.series) {
+      navigation.navigate('MatchSeries', { seriesId: match.series._id });
+    }
+  }, [navigation, match?.series]);
 
   const getStatusVariant = useCallback((status: string) => {
     switch (status) {
@@ -40,8 +199,40 @@ export function useMatchDetailScreen(route: any, _navigation: any) {
     match,
     isLoading,
     error,
+    updatedAt: fulfilledTimeStamp,
+    isRefreshing: isFetching && !isLoading,
+    canKeepScore,
+    currentUserId,
+    isOrganizer,
+    hasOpenSpots: match ? getOpenSpots(match, waitlist) > 0 : false,
+    waitlist,
+    waitlistPosition: getWaitlistPosition(waitlist, currentUserId),
+    waitlistOffer,
+    canJoinWaitlist,
+    waitlistError,
+    ratingRequirement: formatRatingRange(ratingRange),
+    ratingError,
+    // Anyone already in a private match can bring others in
+    canShareInvite:
+      match?.type === 'private' && Boolean(match.inviteCode) && (isOrganizer || isParticipant) &&
+      match.status === 'upcoming',
+    canBookVenue: isOrganizer && Boolean(match?.venue) && !match?.bookingId && match?.status === 'upcoming',
+    teamBalancer,
+    checkIn,
+    costSplit,
     getStatusVariant,
     onJoinMatch: handleJoinMatch,
     onLeaveMatch: handleLeaveMatch,
+    onKeepScore: handleKeepScore,
+    onViewSeries: handleViewSeries,
+    onShareInvite: handleShareInvite,
+    onScanCheckIn: handleScanCheckIn,
+    onBookVenue: handleBookVenue,
+    onJoinWaitlist: handleJoinWaitlist,
+    onLeaveWaitlist: handleLeaveWaitlist,
+    onConfirmSpot: () => handleRespondToOffer(true),
+    onDeclineSpot: () => handleRespondToOffer(false),
+    onMoveWaitlistEntry: handleMoveWaitlistEntry,
+    onSetWaitlistLimit: handleSetWaitlistLimit,
   };
 }
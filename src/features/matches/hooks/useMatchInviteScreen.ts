@@ -0,0 +1,67 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useState } from 'react';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { useGetPlayerRatingsQuery } from '@features/ratings/store';
+import { formatRatingRange, getRatingRange, getRatingRangeError } from '@features/ratings/utils';
+import { useGetMatchByInviteCodeQuery } from '../store/matchApi';
+import { matchService } from '../services';
+import { getMatchStart, isValidInviteCode } from '../utils';
+
+/**
+ * Join preview for an opened invite link: shows the match behind the code
+ * and joins it, then continues to the match itself.
+ */
+export function useMatchInviteScreen(route: any, navigation: any) {
+  const { inviteCode } = route.params;
+  const currentUserId = useAppSelector(selectUserId);
+  const isValidCode = isValidInviteCode(inviteCode);
+  const { data: match, isLoading, error } = useGetMatchByInviteCodeQuery(inviteCode, { skip: !isValidCode });
+  const { data: myRatings } = useGetPlayerRatingsQuery(currentUserId ?? '', { skip: !currentUserId });
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+
+  const myRating = myRatings?.find(rating => rating.sport === match?.sport);
+  const ratingRange = getRatingRange(match?.requirements);
+  const isParticipant = Boolean(match?.participants.some(p => p._id === currentUserId));
+  const ratingError = match && !isParticipant ? getRatingRangeError(ratingRange, myRating) : null;
+
+  const handleViewMatch = useCallback(() => {
+    if (match) {
+      navigation.replace('MatchDetail', { matchId: match._id });
+    }
+  }, [navigation, match]);
+
+  const handleJoin = useCallback(async () => {
+    setIsJoining(true);
+    setJoinError(null);
+    try {
+      const joined = await matchService.joinWithInviteCode(inviteCode, myRating);
+      navigation.replace('MatchDetail', { matchId: joined._id });
+    } catch (err) {
+      setJoinError(
+        err instanceof Error && err instanceof BusinessError ? err.message : 'Could not join the match. Please try again.'
+      );
+      logger.error('Failed to join match with invite:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsJoining(false);
+    }
+  }, [inviteCode, myRating, navigation]);
+
+  return {
+    match,
+    isLoading,
+    // Unknown, expired or malformed codes all read as an invalid invite
+    isInvalid: !isValidCode || Boolean(error),
+    startsAt: match ? getMatchStart(match) : null,
+    spotsLeft: match ? Math.max(match.maxParticipants - match.currentParticipants, 0) : 0,
+    isParticipant,
+    canJoin: Boolean(match) && !isParticipant && match!.status === 'upcoming' && !ratingError,
+    ratingRequirement: formatRatingRange(ratingRange),
+    ratingError,
+    isJoining,
+    joinError,
+    onJoin: handleJoin,
+    onViewMatch: handleViewMatch,
+  };
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import { Alert } from 'react-native';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { useSocketEvent } from '@shared/hooks';
+import { useGetPendingReviewsQuery } from '../store/matchApi';
+import { isReviewOpen } from '../utils';
+
+/**
+ * Asks the user to review the other players once a match they played in
+ * completes, or the next time the app opens if they have not yet. Each match
+ * is offered at most once per session; "Not Now" leaves it for next time.
+ */
+export function useMatchReviewPrompt(onReview: (matchId: string) => void) {
+  const userId = useAppSelector(selectUserId);
+  const { data: pendingReviews, refetch } = useGetPendingReviewsQuery(undefined, { skip: !userId });
+  const promptedIds = useRef(new Set<string>());
+
+  useSocketEvent('match_completed', () => {
+    if (userId) refetch();
+  });
+
+  useEffect(() => {
+    const next = pendingReviews?.find(
+      entry => isReviewOpen(entry) && !promptedIds.current.has(entry.match._id)
+    );
+    if (!next) return;
+
+    promptedIds.current.add(next.match._id);
+    Alert.alert('How was the match?', `Rate the players you met in ${next.match.title}.`, [
+      { text: 'Not Now', style: 'cancel' },
+      { text: 'Review Players', onPress: () => onReview(next.match._id) },
+    ]);
+  }, [pendingReviews, onReview]);
+}
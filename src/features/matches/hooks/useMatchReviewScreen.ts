@@ -0,0 +1,88 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useMemo, useState } from 'react';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { useGetPendingReviewsQuery } from '../store/matchApi';
+import { matchService } from '../services';
+import { PlayerReview } from '../types';
+import { getReviewableParticipants, isCheckedIn, isReviewOpen } from '../utils';
+
+/**
+ * Post-match review form: the user rates each other player they have not
+ * reviewed yet. Players left untouched are not reviewed.
+ */
+export function useMatchReviewScreen(route: any, navigation: any) {
+  const { matchId } = route.params;
+  const currentUserId = useAppSelector(selectUserId);
+  const { data: pendingReviews, isLoading } = useGetPendingReviewsQuery(undefined, { skip: !currentUserId });
+  const [drafts, setDrafts] = useState<Record<string, PlayerReview>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const pending = pendingReviews?.find(entry => entry.match._id === matchId);
+  const isOpen = Boolean(pending && isReviewOpen(pending));
+
+  const players = useMemo(
+    () =>
+      pending
+        ? getReviewableParticipants(pending.match, currentUserId, pending.reviewedIds).map(participant => ({
+            participant,
+            // No-show flags are only offered for players who never checked in
+            canFlagNoShow: !isCheckedIn(pending.match, participant._id),
+          }))
+        : [],
+    [pending, currentUserId]
+  );
+
+  const handleChange = useCallback((revieweeId: string, changes: Partial<PlayerReview>) => {
+    setSubmitError(null);
+    setDrafts(current => {
+      const review = { ...current[revieweeId], ...changes, revieweeId };
+      // A no-show was not there to be rated
+      return { ...current, [revieweeId]: review.noShow ? { revieweeId, noShow: true, comment: review.comment } : review };
+    });
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!currentUserId) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await matchService.submitReviews(matchId, currentUserId, Object.values(drafts));
+      navigation.goBack();
+    } catch (err) {
+      setSubmitError(
+        err instanceof Error && err instanceof BusinessError
+          ? err.message
+          : 'Could not send your reviews. Please try again.'
+      );
+      logger.error('Failed to submit match reviews:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [currentUserId, drafts, matchId, navigation]);
+
+  const handleSkip = useCallback(async () => {
+    try {
+      await matchService.skipReview(matchId);
+    } catch (err) {
+      logger.error('Failed to skip match review:', err instanceof Error ? err : undefined);
+    }
+    navigation.goBack();
+  }, [matchId, navigation]);
+
+  return {
+    match: pending?.match,
+    isLoading,
+    isOpen,
+    players,
+    drafts,
+    reviewCount: Object.keys(drafts).length,
+    isSubmitting,
+    submitError,
+    onChange: handleChange,
+    onSubmit: handleSubmit,
+    onSkip: handleSkip,
+  };
+}
@@ -0,0 +1,133 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useMemo, useState } from 'react';
+import { addWeeks } from 'date-fns';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { validateDate, validateTime } from '@shared/utils/validation';
+import { useGetMatchesQuery, useGetSeriesQuery } from '../store/matchApi';
+import { matchService } from '../services';
+import { SeriesOccurrence } from '../types';
+import { describeRecurrence, getSeriesOccurrences, toDateKey } from '../utils';
+
+/** How far ahead the series schedule is listed */
+const SCHEDULE_WEEKS = 8;
+
+export function useMatchSeriesScreen(route: any, navigation: any) {
+  const { seriesId } = route.params;
+  const currentUserId = useAppSelector(selectUserId);
+  const { data: series, isLoading, error, refetch } = useGetSeriesQuery(seriesId);
+  const { data: matches = [] } = useGetMatchesQuery({ seriesId });
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [moving, setMoving] = useState<{ occurrenceDate: string; date: string; time: string } | null>(null);
+  const [moveErrors, setMoveErrors] = useState<Record<string, string>>({});
+
+  const occurrences = useMemo(() => {
+    if (!series) return [];
+    const today = new Date();
+    return getSeriesOccurrences(series, toDateKey(today), toDateKey(addWeeks(today, SCHEDULE_WEEKS)));
+  }, [series]);
+
+  const isOrganizer = Boolean(currentUserId) && series?.organizer._id === currentUserId;
+  const isSubscribed = Boolean(currentUserId) && Boolean(series?.subscribers.includes(currentUserId!));
+
+  const runSeriesAction = useCallback(
+    async (action: () => Promise<unknown>, failureLog: string) => {
+      setActionError(null);
+      try {
+        await action();
+        await refetch();
+        return true;
+      } catch (err) {
+        setActionError(
+          err instanceof Error && err instanceof BusinessError ? err.message : 'Something went wrong. Please try again.'
+        );
+        logger.error(failureLog, err instanceof Error ? err : undefined);
+        return false;
+      }
+    },
+    [refetch]
+  );
+
+  const handleSubscribe = useCallback(() => {
+    if (!currentUserId) return;
+    runSeriesAction(() => matchService.subscribeToSeries(seriesId, currentUserId), 'Failed to subscribe to series:');
+  }, [currentUserId, seriesId, runSeriesAction]);
+
+  const handleUnsubscribe = useCallback(() => {
+    if (!currentUserId) return;
+    runSeriesAction(
+      () => matchService.unsubscribeFromSeries(seriesId, currentUserId),
+      'Failed to unsubscribe from series:'
+    );
+  }, [currentUserId, seriesId, runSeriesAction]);
+
+  const handleSetCancelled = useCallback(
+    (occurrence: SeriesOccurrence, cancelled: boolean) => {
+      if (!currentUserId) return;
+      runSeriesAction(
+        () => matchService.updateOccurrence(seriesId, occurrence.occurrenceDate, currentUserId, { cancelled }),
+        'Failed to update occurrence:'
+      );
+    },
+    [currentUserId, seriesId, runSeriesAction]
+  );
+
+  const handleStartMove = useCallback((occurrence: SeriesOccurrence) => {
+    setMoveErrors({});
+    setMoving({ occurrenceDate: occurrence.occurrenceDate, date: occurrence.date, time: occurrence.time });
+  }, []);
+
+  const handleSaveMove = useCallback(async () => {
+    if (!currentUserId || !moving) return;
+
+    const errors: Record<string, string> = {};
+    const dateCheck = validateDate(moving.date, 'Date');
+    const timeCheck = validateTime(moving.time, 'Time');
+    if (!dateCheck.isValid) errors.date = dateCheck.error;
+    if (!timeCheck.isValid) errors.time = timeCheck.error;
+    setMoveErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const moved = await runSeriesAction(
+      () =>
+        matchService.updateOccurrence(seriesId, moving.occurrenceDate, currentUserId, {
+          schedule: { date: moving.date, time: moving.time },
+        }),
+      'Failed to move occurrence:'
+    );
+    if (moved) setMoving(null);
+  }, [currentUserId, moving, seriesId, runSeriesAction]);
+
+  const handleOpenOccurrence = useCallback(
+    (occurrence: SeriesOccurrence) => {
+      const match = matches.find(m => m.series?.occurrenceDate === occurrence.occurrenceDate);
+      if (match) {
+        navigation.navigate('MatchDetail', { matchId: match._id });
+      }
+    },
+    [matches, navigation]
+  );
+
+  return {
+    series,
+    isLoading,
+    error,
+    summary: series ? describeRecurrence(series.recurrence, series.template.schedule.date) : '',
+    occurrences,
+    isOrganizer,
+    isSubscribed,
+    actionError,
+    moving,
+    moveErrors,
+    onSubscribe: handleSubscribe,
+    onUnsubscribe: handleUnsubscribe,
+    onCancelOccurrence: (occurrence: SeriesOccurrence) => handleSetCancelled(occurrence, true),
+    onRestoreOccurrence: (occurrence: SeriesOccurrence) => handleSetCancelled(occurrence, false),
+    onStartMove: handleStartMove,
+    onMoveDateChange: (date: string) => setMoving(current => (current ? { ...current, date } : current)),
+    onMoveTimeChange: (time: string) => setMoving(current => (current ? { ...current, time } : current)),
+    onSaveMove: handleSaveMove,
+    onCancelMove: () => setMoving(null),
+    onOpenOccurrence: handleOpenOccurrence,
+  };
+}
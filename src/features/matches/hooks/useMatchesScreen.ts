@@ -1,10 +1,30 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { usePagination } from '@shared/hooks/usePagination';
+import { Coordinates, mapService } from '@features/venues/services/mapService';
 import { useGetMatchesQuery } from '../store/matchApi';
+import { useGetNearbyMatchesQuery } from '../store/recommendationApi';
+import { Match, MatchDiscoveryFilters, MatchSort } from '../types';
+import {
+  DEFAULT_DISCOVERY_FILTERS,
+  DISCOVERY_PAGE_SIZE,
+  applyFilterIds,
+  countActiveFilters,
+  getFilterIds,
+  getSkillWindowError,
+  isSameDiscoveryFilters,
+  mergeMatchPages,
+  toMatchQuery,
+} from '../utils';
+import { useFilterPresets } from './useFilterPresets';
 
 /**
  * Hook for managing MatchesScreen logic
  * Separates business logic from presentation
- * 
+ *
+ * Matches are discovered by search, sport, date and time of day, distance
+ * from the user, skill window, open spots and price, and load a page at a
+ * time as the list scrolls.
+ *
  * @example
  * ```typescript
  * const MyScreen = () => {
@@ -14,10 +34,94 @@ import { useGetMatchesQuery } from '../store/matchApi';
  * ```
  */
 export function useMatchesScreen(navigation: any) {
-  const [page] = useState(1);
-  const { data, isLoading, refetch } = useGetMatchesQuery({ page, limit: 10 });
+  const { page, pageSize, nextPage, reset, hasMore, setHasMore } = usePagination({
+    pageSize: DISCOVERY_PAGE_SIZE,
+  });
+  const [filters, setFilters] = useState<MatchDiscoveryFilters>(DEFAULT_DISCOVERY_FILTERS);
+  const [searchText, setSearchText] = useState('');
+  const [isFilterSheetVisible, setIsFilterSheetVisible] = useState(false);
+  const [location, setLocation] = useState<Coordinates | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  // Relative date ranges are resolved when the filters change or the list refreshes
+  const [queriedAt, setQueriedAt] = useState(() => new Date());
+  const [matches, setMatches] = useState<Match[]>([]);
 
-  const matches = data?.data?.items || [];
+  const needsLocation = Boolean(filters.radiusKm) || filters.sort === 'distance';
+  const isNearby = needsLocation && Boolean(location);
+  const isLocating = needsLocation && !location && !locationError;
+  const filterError = getSkillWindowError(filters.minSkillLevel, filters.maxSkillLevel);
+
+  // Only asked for once the user filters or sorts by distance
+  useEffect(() => {
+    if (!needsLocation || location) return;
+
+    let cancelled = false;
+    mapService.getCurrentLocation().then(coords => {
+      if (cancelled) return;
+      if (coords) {
+        setLocation(coords);
+      } else {
+        setLocationError('Turn on location to find matches near you. Showing matches anywhere.');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsLocation, location]);
+
+  const query = useMemo(
+    () => ({ ...toMatchQuery(filters, { now: queriedAt, hasLocation: isNearby }), page, limit: pageSize }),
+    [filters, queriedAt, isNearby, page, pageSize]
+  );
+
+  // Pages are fetched fresh rather than from the cache so scrolling back in picks up new matches
+  const listResult = useGetMatchesQuery(query, {
+    skip: isNearby || isLocating || Boolean(filterError),
+    refetchOnMountOrArgChange: true,
+  });
+  const nearbyResult = useGetNearbyMatchesQuery(
+    { ...query, latitude: location?.latitude ?? 0, longitude: location?.longitude ?? 0, radius: filters.radiusKm },
+    { skip: !isNearby || Boolean(filterError), refetchOnMountOrArgChange: true }
+  );
+  const { currentData, isFetching, refetch, fulfilledTimeStamp } = isNearby ? nearbyResult : listResult;
+
+  useEffect(() => {
+    if (!currentData) return;
+    setMatches(current => (page === 1 ? currentData : mergeMatchPages(current, currentData)));
+    setHasMore(currentData.length === pageSize);
+  }, [currentData, page, pageSize, setHasMore]);
+
+  const restart = useCallback(() => {
+    setMatches([]);
+    setQueriedAt(new Date());
+    reset();
+  }, [reset]);
+
+  // The filter sheet applies sort and filters one after the other, so each
+  // update builds on the last rather than on this render's filters
+  const filtersRef = useRef(filters);
+  const updateFilters = useCallback(
+    (update: (current: MatchDiscoveryFilters) => MatchDiscoveryFilters) => {
+      const next = update(filtersRef.current);
+      if (isSameDiscoveryFilters(next, filtersRef.current)) return;
+
+      filtersRef.current = next;
+      setFilters(next);
+      restart();
+    },
+    [restart]
+  );
+
+  const presets = useFilterPresets(
+    filters,
+    useCallback(
+      (preset: MatchDiscoveryFilters) => {
+        setSearchText(preset.search ?? '');
+        updateFilters(() => preset);
+      },
+      [updateFilters]
+    )
+  );
 
   const handleMatchPress = useCallback(
     (matchId: string) => {
@@ -31,8 +135,50 @@ export function useMatchesScreen(navigation: any) {
   }, [navigation]);
 
   const handleRefresh = useCallback(() => {
-    refetch();
-  }, [refetch]);
+    // The same query again unless a date range moves with the time
+    if (page === 1 && !filters.dateRange) {
+      if (!isLocating && !filterError) refetch();
+      return;
+    }
+    restart();
+  }, [page, filters.dateRange, isLocating, filterError, refetch, restart]);
+
+  const handleEndReached = useCallback(() => {
+    if (hasMore && !isFetching && matches.length > 0) {
+      nextPage();
+    }
+  }, [hasMore, isFetching, matches.length, nextPage]);
+
+  const handleChangeSearch = useCallback(
+    (text: string) => {
+      setSearchText(text);
+      if (!text.trim()) {
+        updateFilters(current => ({ ...current, search: undefined }));
+      }
+    },
+    [updateFilters]
+  );
+
+  const handleSearch = useCallback(
+    (text: string) => {
+      updateFilters(current => ({ ...current, search: text.trim() || undefined }));
+    },
+    [updateFilters]
+  );
+
+  const handleSortChange = useCallback(
+    (sortId: string) => {
+      updateFilters(current => ({ ...current, sort: (sortId || DEFAULT_DISCOVERY_FILTERS.sort) as MatchSort }));
+    },
+    [updateFilters]
+  );
+
+  const handleFiltersChange = useCallback(
+    (filterIds: string[]) => {
+      updateFilters(current => applyFilterIds(current, filterIds));
+    },
+    [updateFilters]
+  );
 
   const getStatusVariant = useCallback((status: string) => {
     switch (status) {
@@ -51,10 +197,29 @@ export function useMatchesScreen(navigation: any) {
 
   return {
     matches,
-    isLoading,
+    isLoading: (isFetching || isLocating) && matches.length === 0,
+    isLoadingMore: isFetching && page > 1,
+    // The first page may come from the device cache while it is refetched
+    updatedAt: page === 1 ? fulfilledTimeStamp : undefined,
+    isRefreshing: isFetching && page === 1 && matches.length > 0,
+    error: filterError ?? undefined,
+    locationNotice: needsLocation ? locationError : null,
+    filters,
+    filterIds: getFilterIds(filters),
+    activeFilterCount: countActiveFilters(filters),
+    searchText,
+    isFilterSheetVisible,
+    presets,
     onMatchPress: handleMatchPress,
     onCreateMatch: handleCreateMatch,
     onRefresh: handleRefresh,
+    onEndReached: handleEndReached,
+    onChangeSearch: handleChangeSearch,
+    onSearch: handleSearch,
+    onSortChange: handleSortChange,
+    onFiltersChange: handleFiltersChange,
+    onOpenFilters: () => setIsFilterSheetVisible(true),
+    onCloseFilters: () => setIsFilterSheetVisible(false),
     getStatusVariant,
   };
 }
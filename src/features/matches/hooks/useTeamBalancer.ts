@@ -0,0 +1,144 @@
+import { BusinessError, logger } from '@core';
+import { useCallback, useMemo, useState } from 'react';
+import { matchService } from '../services';
+import { KeepTogetherPair, Match } from '../types';
+import {
+  balanceTeams,
+  getPlayerRatings,
+  getSkillGap,
+  getTeamRatings,
+  swapPlayers,
+  toTeamLineups,
+} from '../utils';
+
+/** Most sides offered when splitting a match */
+const MAX_TEAMS = 4;
+
+/**
+ * Organizer tool for splitting the participants of a match into balanced
+ * sides, with keep-together pairs and manual swaps before saving
+ */
+export function useTeamBalancer(match: Match | undefined, userId: string | null | undefined) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [teamCount, setTeamCount] = useState(2);
+  const [keepTogether, setKeepTogether] = useState<KeepTogetherPair[]>([]);
+  const [isPairing, setIsPairing] = useState(false);
+  const [pairingId, setPairingId] = useState<string | null>(null);
+  const [teams, setTeams] = useState<string[][] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const participants = useMemo(() => match?.participants ?? [], [match?.participants]);
+  const ratings = useMemo(
+    () => getPlayerRatings(participants, match?.rules?.skillLevel),
+    [participants, match?.rules?.skillLevel]
+  );
+  const playerNames = useMemo(
+    () => Object.fromEntries(participants.map(p => [p._id, `${p.firstName} ${p.lastName}`])),
+    [participants]
+  );
+
+  const canPickTeams =
+    Boolean(match && userId) &&
+    match!.organizer._id === userId &&
+    participants.length >= 2 &&
+    match!.status !== 'completed' &&
+    match!.status !== 'cancelled';
+
+  const teamCountOptions = useMemo(() => {
+    const most = Math.max(2, Math.min(MAX_TEAMS, Math.floor(participants.length / 2)));
+    return Array.from({ length: most - 1 }, (_, index) => index + 2);
+  }, [participants.length]);
+
+  const handleBalance = useCallback(() => {
+    setSelectedId(null);
+    try {
+      setTeams(balanceTeams(ratings, teamCount, keepTogether));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error && err instanceof BusinessError ? err.message : 'Could not split the teams');
+    }
+  }, [ratings, teamCount, keepTogether]);
+
+  const handlePlayerPress = useCallback(
+    (playerId: string) => {
+      if (isPairing) {
+        if (!pairingId) {
+          setPairingId(playerId);
+          return;
+        }
+        if (pairingId !== playerId) {
+          setKeepTogether(current => [...current, [pairingId, playerId]]);
+        }
+        setPairingId(null);
+        setIsPairing(false);
+        return;
+      }
+
+      // Tap two players on different sides to swap them
+      if (!teams) return;
+      if (!selectedId || selectedId === playerId) {
+        setSelectedId(selectedId === playerId ? null : playerId);
+        return;
+      }
+      setTeams(swapPlayers(teams, selectedId, playerId));
+      setSelectedId(null);
+    },
+    [isPairing, pairingId, teams, selectedId]
+  );
+
+  const handleSave = useCallback(async () => {
+    if (!match || !userId || !teams) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await matchService.saveLineups(match._id, userId, toTeamLineups(teams));
+      setIsOpen(false);
+      setTeams(null);
+    } catch (err) {
+      setError(
+        err instanceof Error && err instanceof BusinessError ? err.message : 'Could not save the teams. Please try again.'
+      );
+      logger.error('Failed to save line-ups:', err instanceof Error ? err : undefined);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [match, userId, teams]);
+
+  return {
+    canPickTeams,
+    isOpen,
+    playerNames,
+    savedTeams: match?.lineups?.teams ?? [],
+    teamCount,
+    teamCountOptions,
+    keepTogether,
+    isPairing,
+    pairingId,
+    teams,
+    teamRatings: teams ? getTeamRatings(teams, ratings) : [],
+    skillGap: teams ? getSkillGap(teams, ratings) : 0,
+    selectedId,
+    error,
+    isSaving,
+    onOpen: () => setIsOpen(true),
+    onClose: () => {
+      setIsOpen(false);
+      setTeams(null);
+      setError(null);
+    },
+    onTeamCountChange: setTeamCount,
+    onStartPair: () => {
+      setIsPairing(true);
+      setPairingId(null);
+    },
+    onRemovePair: (index: number) => setKeepTogether(current => current.filter((_, i) => i !== index)),
+    onPlayerPress: handlePlayerPress,
+    onBalance: handleBalance,
+    onSave: handleSave,
+  };
+}
+
+export type TeamBalancer = ReturnType<typeof useTeamBalancer>;
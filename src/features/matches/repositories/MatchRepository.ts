@@ -1,5 +1,24 @@
 import { IRepository } from '@core';
-import { Match, CreateMatchRequest, MatchFilters } from '../types';
+import { store } from '@/store';
+import {
+  Match,
+  CreateMatchRequest,
+  MatchFilters,
+  MatchWaitlist,
+  UpdateWaitlistRequest,
+  MatchSeries,
+  CreateMatchSeriesRequest,
+  UpdateMatchSeriesRequest,
+  UpdateOccurrenceRequest,
+  TeamLineup,
+  CheckInRequest,
+  MatchReview,
+  PendingMatchReview,
+  PlayerReview,
+  CostSplit,
+  CostShareStatus,
+  CreateCostSplitRequest,
+} from '../types';
 import { matchApi } from '../store';
 
 /**
@@ -12,11 +31,11 @@ import { matchApi } from '../store';
  */
 export class MatchRepository implements IRepository<Match> {
   /**
-   * Get a match by ID
+   * Get a match from the server; the business rules check the latest
+   * participants and status, never a cached copy
    */
   async getById(id: string): Promise<Match> {
-    const result = await matchApi.endpoints.getMatchById.initiate(id);
-    return result.data as Match;
+    return store.dispatch(matchApi.endpoints.getMatch.initiate(id, { subscribe: false, forceRefetch: true })).unwrap();
   }
 
   /**
@@ -55,14 +74,30 @@ export class MatchRepository implements IRepository<Match> {
    * Join a match
    */
   async joinMatch(matchId: string): Promise<void> {
-    await matchApi.endpoints.joinMatch.initiate(matchId);
+    await store.dispatch(matchApi.endpoints.joinMatch.initiate(matchId)).unwrap();
+  }
+
+  /**
+   * Get the match an invite code belongs to
+   */
+  async getByInviteCode(inviteCode: string): Promise<Match> {
+    return store
+      .dispatch(matchApi.endpoints.getMatchByInviteCode.initiate(inviteCode, { subscribe: false, forceRefetch: true }))
+      .unwrap();
+  }
+
+  /**
+   * Join a private match through its invite code
+   */
+  async joinWithInviteCode(inviteCode: string): Promise<Match> {
+    return store.dispatch(matchApi.endpoints.joinWithInviteCode.initiate(inviteCode)).unwrap();
   }
 
   /**
    * Leave a match
    */
   async leaveMatch(matchId: string): Promise<void> {
-    await matchApi.endpoints.leaveMatch.initiate(matchId);
+    await store.dispatch(matchApi.endpoints.leaveMatch.initiate(matchId)).unwrap();
   }
 
   /**
@@ -72,6 +107,167 @@ export class MatchRepository implements IRepository<Match> {
     const result = await matchApi.endpoints.updateScore.initiate({ matchId, ...score });
     return result.data as Match;
   }
+
+  /**
+   * Save the sides picked for a match
+   */
+  async saveLineups(matchId: string, teams: TeamLineup[]): Promise<Match> {
+    return store.dispatch(matchApi.endpoints.saveLineups.initiate({ id: matchId, data: { teams } })).unwrap();
+  }
+
+  /**
+   * Check the current user in to a match
+   */
+  async checkIn(matchId: string, data: CheckInRequest): Promise<Match> {
+    return store.dispatch(matchApi.endpoints.checkIn.initiate({ id: matchId, data })).unwrap();
+  }
+
+  /**
+   * Close check-in, recording everyone not checked in as a no-show
+   */
+  async closeCheckIn(matchId: string): Promise<Match> {
+    return store.dispatch(matchApi.endpoints.closeCheckIn.initiate(matchId)).unwrap();
+  }
+
+  /**
+   * Get the completed matches the current user can still review
+   */
+  async getPendingReviews(): Promise<PendingMatchReview[]> {
+    return store.dispatch(matchApi.endpoints.getPendingReviews.initiate(undefined, { subscribe: false })).unwrap();
+  }
+
+  /**
+   * Submit the current user's reviews of other players in a match
+   */
+  async submitReviews(matchId: string, reviews: PlayerReview[]): Promise<MatchReview[]> {
+    return store.dispatch(matchApi.endpoints.submitMatchReviews.initiate({ id: matchId, data: { reviews } })).unwrap();
+  }
+
+  /**
+   * Decline to review a match
+   */
+  async skipReview(matchId: string): Promise<void> {
+    await store.dispatch(matchApi.endpoints.skipMatchReview.initiate(matchId)).unwrap();
+  }
+
+  /**
+   * Get the split of a match's booking cost, null if it has not been split
+   */
+  async getCostSplit(matchId: string): Promise<CostSplit | null> {
+    return store
+      .dispatch(matchApi.endpoints.getCostSplit.initiate(matchId, { subscribe: false, forceRefetch: true }))
+      .unwrap();
+  }
+
+  /**
+   * Split a match's booking cost between its participants
+   */
+  async createCostSplit(matchId: string, data: CreateCostSplitRequest): Promise<CostSplit> {
+    return store.dispatch(matchApi.endpoints.createCostSplit.initiate({ id: matchId, data })).unwrap();
+  }
+
+  /**
+   * Mark a participant's share as paid outside the app, or waive it
+   */
+  async settleCostShare(
+    matchId: string,
+    userId: string,
+    status: Exclude<CostShareStatus, 'pending'>
+  ): Promise<CostSplit> {
+    return store.dispatch(matchApi.endpoints.settleCostShare.initiate({ id: matchId, userId, status })).unwrap();
+  }
+
+  /**
+   * Get the waitlist of a match
+   */
+  async getWaitlist(matchId: string): Promise<MatchWaitlist> {
+    return store
+      .dispatch(matchApi.endpoints.getWaitlist.initiate(matchId, { subscribe: false, forceRefetch: true }))
+      .unwrap();
+  }
+
+  /**
+   * Queue for a full match
+   */
+  async joinWaitlist(matchId: string): Promise<MatchWaitlist> {
+    return store.dispatch(matchApi.endpoints.joinWaitlist.initiate(matchId)).unwrap();
+  }
+
+  /**
+   * Leave the waitlist of a match
+   */
+  async leaveWaitlist(matchId: string): Promise<void> {
+    await store.dispatch(matchApi.endpoints.leaveWaitlist.initiate(matchId)).unwrap();
+  }
+
+  /**
+   * Reorder or cap the waitlist
+   */
+  async updateWaitlist(matchId: string, data: UpdateWaitlistRequest): Promise<MatchWaitlist> {
+    return store.dispatch(matchApi.endpoints.updateWaitlist.initiate({ id: matchId, data })).unwrap();
+  }
+
+  /**
+   * Hold a spot for a waitlisted player until `expiresAt`
+   */
+  async offerWaitlistSpot(matchId: string, entryId: string, expiresAt: string): Promise<MatchWaitlist> {
+    return store.dispatch(matchApi.endpoints.offerWaitlistSpot.initiate({ id: matchId, entryId, expiresAt })).unwrap();
+  }
+
+  /**
+   * Confirm or decline a held spot
+   */
+  async respondToWaitlistOffer(matchId: string, accept: boolean): Promise<Match> {
+    return store.dispatch(matchApi.endpoints.respondToWaitlistOffer.initiate({ id: matchId, accept })).unwrap();
+  }
+
+  /**
+   * Get a recurring match series
+   */
+  async getSeries(seriesId: string): Promise<MatchSeries> {
+    return store
+      .dispatch(matchApi.endpoints.getSeries.initiate(seriesId, { subscribe: false, forceRefetch: true }))
+      .unwrap();
+  }
+
+  /**
+   * Create a recurring match series
+   */
+  async createSeries(data: CreateMatchSeriesRequest): Promise<MatchSeries> {
+    return store.dispatch(matchApi.endpoints.createSeries.initiate(data)).unwrap();
+  }
+
+  /**
+   * Edit a series from a date onwards
+   */
+  async updateSeries(seriesId: string, data: UpdateMatchSeriesRequest): Promise<MatchSeries> {
+    return store.dispatch(matchApi.endpoints.updateSeries.initiate({ id: seriesId, data })).unwrap();
+  }
+
+  /**
+   * Cancel, move or restore a single occurrence
+   */
+  async updateOccurrence(
+    seriesId: string,
+    occurrenceDate: string,
+    data: UpdateOccurrenceRequest
+  ): Promise<MatchSeries> {
+    return store.dispatch(matchApi.endpoints.updateOccurrence.initiate({ id: seriesId, occurrenceDate, data })).unwrap();
+  }
+
+  /**
+   * Join every occurrence of a series
+   */
+  async subscribeToSeries(seriesId: string): Promise<MatchSeries> {
+    return store.dispatch(matchApi.endpoints.subscribeToSeries.initiate(seriesId)).unwrap();
+  }
+
+  /**
+   * Stop joining the occurrences of a series
+   */
+  async unsubscribeFromSeries(seriesId: string): Promise<MatchSeries> {
+    return store.dispatch(matchApi.endpoints.unsubscribeFromSeries.initiate(seriesId)).unwrap();
+  }
 }
 
 /**
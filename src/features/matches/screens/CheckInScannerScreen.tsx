@@ -0,0 +1,88 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Camera, useCameraDevice, useCameraPermission, useCodeScanner } from 'react-native-vision-camera';
+import { useTheme } from '../../../theme';
+import { useCheckInScannerScreen } from '../hooks';
+import { Button, LoadingSpinner } from '@shared/components/atoms';
+import { EmptyState } from '@shared/components/molecules';
+
+interface CheckInScannerScreenProps {
+  navigation: any;
+}
+
+const CheckInScannerScreen: React.FC<CheckInScannerScreenProps> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const props = useCheckInScannerScreen(navigation);
+  const device = useCameraDevice('back');
+  const { hasPermission, requestPermission } = useCameraPermission();
+  const { onCodeScanned } = props;
+
+  const codeScanner = useCodeScanner({
+    codeTypes: ['qr'],
+    onCodeScanned: codes => {
+      const value = codes[0]?.value;
+      if (value) onCodeScanned(value);
+    },
+  });
+
+  useEffect(() => {
+    if (!hasPermission) {
+      requestPermission();
+    }
+  }, [hasPermission, requestPermission]);
+
+  if (!hasPermission) {
+    return (
+      <EmptyState
+        icon="camera-off"
+        title="Camera access needed"
+        message="Allow camera access to scan the organizer's check-in code"
+      />
+    );
+  }
+
+  if (!device) {
+    return <EmptyState icon="camera-off" title="No camera" message="This device has no camera to scan with" />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Camera
+        style={StyleSheet.absoluteFill}
+        device={device}
+        isActive={!props.isSubmitting && !props.error}
+        codeScanner={codeScanner}
+      />
+      <View style={[styles.footer, { padding: theme.spacing.base, backgroundColor: theme.colors.surface }]}>
+        {props.isSubmitting ? (
+          <LoadingSpinner />
+        ) : props.error ? (
+          <>
+            <Text style={[theme.typography.bodyMedium, { color: theme.colors.error, marginBottom: theme.spacing.md }]}>
+              {props.error}
+            </Text>
+            <Button title="Scan Again" icon="qrcode-scan" onPress={props.onRetry} fullWidth />
+          </>
+        ) : (
+          <Text style={[theme.typography.bodyMedium, { color: theme.colors.text }]}>
+            Point the camera at the organizer's check-in code
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+});
+
+export default CheckInScannerScreen;
@@ -1,14 +1,20 @@
 import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
 import { FormScreenTemplate } from '@shared/components/templates';
+import { Chip, Input } from '@shared/components/atoms';
+import { useTheme } from '../../../theme';
 import { useCreateMatchScreen } from '../hooks';
 
 interface CreateMatchScreenProps {
   navigation: any;
 }
 
+const FREQUENCY_UNITS = { daily: 'days', weekly: 'weeks', monthly: 'months' };
+
 const CreateMatchScreen: React.FC<CreateMatchScreenProps> = ({ navigation }) => {
   const props = useCreateMatchScreen(navigation);
-  
+  const { theme } = useTheme();
+
   return (
     <FormScreenTemplate
       title="Create Match"
@@ -16,9 +22,131 @@ const CreateMatchScreen: React.FC<CreateMatchScreenProps> = ({ navigation }) =>
       onSubmit={props.handleSubmit}
       onCancel={() => navigation.goBack()}
       isLoading={props.isSubmitting}
-      submitLabel="Create Match"
-    />
+      validationErrors={props.validationErrors}
+      submitLabel={props.repeat === 'none' ? 'Create Match' : 'Create Series'}
+    >
+      <Text style={[theme.typography.labelLarge, styles.label, { color: theme.colors.text }]}>
+        Repeat
+      </Text>
+      <View style={styles.chips}>
+        {props.repeatOptions.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={props.repeat === option.value}
+            onPress={() => props.onRepeatChange(option.value)}
+            style={styles.chip}
+          />
+        ))}
+      </View>
+
+      {props.repeat === 'custom' && (
+        <>
+          <View style={styles.chips}>
+            {props.frequencyOptions.map(option => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                selected={props.frequency === option.value}
+                onPress={() => props.onFrequencyChange(option.value)}
+                style={styles.chip}
+              />
+            ))}
+          </View>
+          <Input
+            label="Repeat every"
+            value={props.repeatInterval}
+            onChangeText={props.onRepeatIntervalChange}
+            keyboardType="numeric"
+            helperText={FREQUENCY_UNITS[props.frequency]}
+            error={props.validationErrors.interval}
+          />
+          {props.frequency === 'weekly' && (
+            <>
+              <View style={styles.chips}>
+                {props.weekdayOptions.map(option => (
+                  <Chip
+                    key={option.value}
+                    label={option.label}
+                    size="small"
+                    selected={props.weekdays.includes(option.value)}
+                    onPress={() => props.onToggleWeekday(option.value)}
+                    style={styles.chip}
+                  />
+                ))}
+              </View>
+              {props.validationErrors.weekdays && (
+                <Text style={[theme.typography.bodySmall, styles.error, { color: theme.colors.error }]}>
+                  {props.validationErrors.weekdays}
+                </Text>
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      {props.repeat !== 'none' && (
+        <>
+          <Text style={[theme.typography.labelLarge, styles.label, { color: theme.colors.text }]}>
+            Ends
+          </Text>
+          <View style={styles.chips}>
+            {props.seriesEndOptions.map(option => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                selected={props.seriesEnd === option.value}
+                onPress={() => props.onSeriesEndChange(option.value)}
+                style={styles.chip}
+              />
+            ))}
+          </View>
+          {props.seriesEnd === 'count' && (
+            <Input
+              label="Number of matches"
+              value={props.endCount}
+              onChangeText={props.onEndCountChange}
+              keyboardType="numeric"
+              error={props.validationErrors.endCount}
+            />
+          )}
+          {props.seriesEnd === 'until' && (
+            <Input
+              label="Last date"
+              value={props.endDate}
+              onChangeText={props.onEndDateChange}
+              placeholder="YYYY-MM-DD"
+              error={props.validationErrors.endDate}
+            />
+          )}
+        </>
+      )}
+
+      {props.error && (
+        <Text style={[theme.typography.bodySmall, styles.error, { color: theme.colors.error }]}>
+          {props.error}
+        </Text>
+      )}
+    </FormScreenTemplate>
   );
 };
 
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  error: {
+    marginTop: 8,
+  },
+});
+
 export default CreateMatchScreen;
@@ -0,0 +1,248 @@
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { useLiveScoreScreen } from '../hooks';
+import { Card } from '@shared/components/organisms';
+import { Button, Divider, LoadingSpinner } from '@shared/components/atoms';
+import { EmptyState } from '@shared/components/molecules';
+import { ScoreSide } from '../types';
+
+const SIDES: ScoreSide[] = ['team1', 'team2'];
+
+interface LiveScoreScreenProps {
+  navigation: any;
+  route: any;
+}
+
+const LiveScoreScreen: React.FC<LiveScoreScreenProps> = ({ navigation, route }) => {
+  const { theme } = useTheme();
+  const props = useLiveScoreScreen(route, navigation);
+
+  if (props.isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!props.match) {
+    return null;
+  }
+
+  if (!props.model || !props.score) {
+    return (
+      <EmptyState
+        icon="scoreboard-outline"
+        title="Live scoring unavailable"
+        message={`There is no scoring model for ${props.match.sport} yet`}
+      />
+    );
+  }
+
+  if (!props.isOrganizer) {
+    return (
+      <EmptyState
+        icon="scoreboard-outline"
+        title="Live scoring unavailable"
+        message="Only the organizer can keep score"
+      />
+    );
+  }
+
+  const { model, score, sideNames } = props;
+  const currentUnit = score.units[score.units.length - 1];
+  const recentEvents = props.events.slice(-10).reverse();
+
+  const renderSideControls = (side: ScoreSide) => {
+    // Only the batting side can score runs
+    if (score.batting && score.batting !== side) return null;
+
+    return (
+      <View key={side} style={styles.controls}>
+        <Text style={[theme.typography.labelMedium, styles.controlsLabel, { color: theme.colors.textSecondary }]}>
+          {sideNames[side]}
+        </Text>
+        <View style={styles.buttonRow}>
+          {props.scoreValues.map((value) => (
+            <Button
+              key={value}
+              title={props.scoreValues.length > 1 ? `+${value}` : `+ ${model.pointLabel}`}
+              onPress={() => props.onScore(side, value)}
+              disabled={score.isComplete}
+              size="small"
+              style={styles.scoreButton}
+            />
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={{ padding: theme.spacing.base }}>
+        {/* Scoreboard */}
+        <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
+          <View style={{ padding: theme.spacing.base }}>
+            <View style={styles.row}>
+              <View style={styles.name} />
+              {score.units.map((unit) => (
+                <Text
+                  key={unit.label}
+                  style={[theme.typography.labelSmall, styles.cell, { color: theme.colors.textSecondary }]}
+                >
+                  {unit.label.replace(`${model.unitLabel} `, '')}
+                </Text>
+              ))}
+              {score.gamePoints && <View style={styles.cell} />}
+              <View style={styles.cell} />
+            </View>
+            {SIDES.map((side) => (
+              <View key={side} style={styles.row}>
+                <Text
+                  numberOfLines={1}
+                  style={[theme.typography.bodyLarge, styles.name, { color: theme.colors.text }]}
+                >
+                  {`${score.batting === side ? '● ' : ''}${sideNames[side]}`}
+                </Text>
+                {score.units.map((unit) => (
+                  <Text
+                    key={unit.label}
+                    style={[
+                      theme.typography.bodyLarge,
+                      styles.cell,
+                      { color: unit.winner === side ? theme.colors.primary : theme.colors.text },
+                    ]}
+                  >
+                    {unit[side]}
+                  </Text>
+                ))}
+                {score.gamePoints && (
+                  <Text style={[theme.typography.bodyLarge, styles.cell, { color: theme.colors.textSecondary }]}>
+                    {score.gamePoints[side]}
+                  </Text>
+                )}
+                <Text style={[theme.typography.titleLarge, styles.cell, { color: theme.colors.text }]}>
+                  {score.totals[side]}
+                </Text>
+              </View>
+            ))}
+
+            <Divider style={{ marginVertical: theme.spacing.md }} />
+            <Text style={[theme.typography.bodyMedium, { color: theme.colors.textSecondary }]}>
+              {score.isComplete
+                ? score.winner === 'draw'
+                  ? 'Match drawn'
+                  : `${sideNames[score.winner ?? 'team1']} won`
+                : score.batting
+                  ? `${currentUnit.label} · ${sideNames[score.batting]} batting · ${score.outs ?? 0} out`
+                  : currentUnit.label}
+            </Text>
+          </View>
+        </Card>
+
+        {/* Controls */}
+        {!score.isComplete && (
+          <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
+            <View style={{ padding: theme.spacing.base }}>
+              {SIDES.map(renderSideControls)}
+              <View style={styles.buttonRow}>
+                {model.structure === 'innings' && (
+                  <Button title="Out" onPress={props.onOut} variant="outline" size="small" style={styles.scoreButton} />
+                )}
+                {model.structure !== 'sets' && (
+                  <Button
+                    title={`End ${model.structure === 'innings' ? 'Turn' : currentUnit.label.split(' ')[0]}`}
+                    onPress={props.onEndPeriod}
+                    variant="outline"
+                    size="small"
+                    style={styles.scoreButton}
+                  />
+                )}
+              </View>
+            </View>
+          </Card>
+        )}
+
+        <Button
+          title="Undo"
+          icon="undo"
+          onPress={props.onUndo}
+          variant="outline"
+          disabled={props.events.length === 0}
+          fullWidth
+          style={{ marginBottom: theme.spacing.sm }}
+        />
+
+        {score.isComplete && (
+          <Button
+            title="Finish Match"
+            icon="flag-checkered"
+            onPress={props.onFinish}
+            loading={props.isFinishing}
+            disabled={props.isFinishing}
+            fullWidth
+            style={{ marginBottom: theme.spacing.sm }}
+          />
+        )}
+
+        {props.error && (
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginBottom: theme.spacing.sm }]}>
+            {props.error}
+          </Text>
+        )}
+
+        {/* Event log */}
+        {recentEvents.length > 0 && (
+          <Card variant="elevated" style={{ marginBottom: theme.spacing.xl }}>
+            <View style={{ padding: theme.spacing.base }}>
+              <Text style={[theme.typography.titleMedium, { color: theme.colors.text, marginBottom: theme.spacing.sm }]}>
+                Recent
+              </Text>
+              {recentEvents.map((event) => (
+                <Text key={event.id} style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+                  {event.type === 'point'
+                    ? `${event.side ? sideNames[event.side] : ''} +${event.value ?? 1} ${model.pointLabel.toLowerCase()}`
+                    : event.type === 'out'
+                      ? 'Out'
+                      : `End of ${model.structure === 'innings' ? 'turn' : 'period'}`}
+                </Text>
+              ))}
+            </View>
+          </Card>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  name: {
+    flex: 1,
+  },
+  cell: {
+    width: 36,
+    textAlign: 'center',
+  },
+  controls: {
+    marginBottom: 12,
+  },
+  controlsLabel: {
+    marginBottom: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  scoreButton: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+});
+
+export default LiveScoreScreen;
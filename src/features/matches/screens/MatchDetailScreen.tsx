@@ -4,14 +4,16 @@ import Animated, { FadeInDown } from 'react-native-reanimated';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useTheme } from '../../../theme';
 import { useMatchDetailScreen } from '../hooks';
+import { CheckInCard, CostSharePaymentSheet, CostSplitCard, TeamBalanceCard, WaitlistCard } from '../components';
 import { ParticipantList, Card, Badge } from '@shared/components/organisms';
 import { Chip, Divider } from '@shared/components/atoms';
 import { Button, LoadingSpinner } from '@shared/components/atoms';
+import { LastUpdatedHint } from '@shared/components/molecules';
 import { format } from 'date-fns';
 
 const MATCH_STATUS_COLORS: Record<string, string> = {
-  scheduled: 'info',
-  in_progress: 'warning',
+  upcoming: 'info',
+  'in-progress': 'warning',
   completed: 'success',
   cancelled: 'error',
 };
@@ -70,23 +72,26 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ navigation, route
     );
   }
 
-  const matchDate = new Date(match.schedule.startTime);
-  const isFull = match.maxParticipants ? match.participants.length >= match.maxParticipants : false;
+  const matchDate = new Date(`${match.schedule.date.slice(0, 10)}T${match.schedule.time}`);
+  const isFull = !props.hasOpenSpots;
+  const hasWaitlist = Boolean(props.waitlist && props.waitlist.entries.length > 0);
 
   return (
     <ScrollView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <View style={{ padding: theme.spacing.base }}>
+        <LastUpdatedHint updatedAt={props.updatedAt} isRefreshing={props.isRefreshing} />
+
         {/* Header Card */}
         <Animated.View entering={FadeInDown.delay(100).springify()}>
           <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
             <View style={{ padding: theme.spacing.lg }}>
               <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing.md }}>
                 <Badge
-                  label={match.status.replace('_', ' ').toUpperCase()}
+                  label={match.status.replace('-', ' ').toUpperCase()}
                   variant={MATCH_STATUS_COLORS[match.status] as any}
                   style={{ marginRight: theme.spacing.sm }}
                 />
-                {isFull && match.status === 'scheduled' && (
+                {isFull && match.status === 'upcoming' && (
                   <Chip label="Full" icon="account-group" size="small" selected />
                 )}
               </View>
@@ -102,6 +107,12 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ navigation, route
                   {match.description}
                 </Text>
               )}
+
+              {match.series && (
+                <View style={[styles.seriesRow, { marginTop: theme.spacing.md }]}>
+                  <Chip label="Part of a series" icon="repeat" size="small" onPress={props.onViewSeries} />
+                </View>
+              )}
             </View>
           </Card>
         </Animated.View>
@@ -152,24 +163,50 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ navigation, route
                   </Text>
                 </View>
               </View>
+
+              {props.ratingRequirement && (
+                <View style={styles.detailRow}>
+                  <Icon name="chart-line" size={20} color={theme.colors.primary} />
+                  <View style={[styles.detailContent, { marginLeft: theme.spacing.md }]}>
+                    <Text style={[theme.typography.labelMedium, { color: theme.colors.textSecondary }]}>
+                      Rating
+                    </Text>
+                    <Text style={[theme.typography.bodyLarge, { color: theme.colors.text }]}>
+                      {props.ratingRequirement}
+                    </Text>
+                  </View>
+                </View>
+              )}
             </View>
           </Card>
         </Animated.View>
 
-        {/* Score Card (if completed) */}
-        {match.score && match.status === 'completed' && (
+        {/* Check-in */}
+        {props.checkIn.isVisible && (
+          <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
+            <CheckInCard checkIn={props.checkIn} onScanCode={props.onScanCheckIn} />
+          </Card>
+        )}
+
+        {/* Score Card (live or final) */}
+        {match.score && (match.status === 'completed' || match.status === 'in-progress') && (
           <Animated.View entering={FadeInDown.delay(300).springify()}>
             <Card variant="elevated" style={{ marginBottom: theme.spacing.base, backgroundColor: theme.colors.successContainer }}>
               <View style={{ padding: theme.spacing.base }}>
                 <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing.md }}>
                   <Icon name="trophy" size={24} color={theme.colors.success} />
                   <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginLeft: theme.spacing.sm }]}>
-                    Final Score
+                    {match.status === 'completed' ? 'Final Score' : 'Live Score'}
                   </Text>
                 </View>
                 <Text style={[theme.typography.headlineMedium, { color: theme.colors.text }]}>
-                  {JSON.stringify(match.score)}
+                  {`${match.score.team1 ?? 0} – ${match.score.team2 ?? 0}`}
                 </Text>
+                {match.score.breakdown && match.score.breakdown.length > 0 && (
+                  <Text style={[theme.typography.bodyMedium, { color: theme.colors.textSecondary, marginTop: theme.spacing.xs }]}>
+                    {match.score.breakdown.map((unit) => `${unit.team1}-${unit.team2}`).join('  ')}
+                  </Text>
+                )}
               </View>
             </Card>
           </Animated.View>
@@ -179,9 +216,14 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ navigation, route
         <Animated.View entering={FadeInDown.delay(400).springify()}>
           <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
             <ParticipantList
-              participants={match.participants}
+              participants={match.participants.map((participant) => ({
+                userId: participant._id,
+                username: participant.username,
+                name: `${participant.firstName} ${participant.lastName}`,
+                role: participant.role,
+              }))}
               title="Participants"
-              organizerId={match.createdBy}
+              organizerId={match.organizer._id}
               emptyIcon="account-group-outline"
               emptyTitle="No participants yet"
               emptyMessage="Be the first to join this match!"
@@ -189,21 +231,141 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ navigation, route
           </Card>
         </Animated.View>
 
+        {/* Teams */}
+        {(props.teamBalancer.canPickTeams || props.teamBalancer.savedTeams.length > 0) && (
+          <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
+            <TeamBalanceCard balancer={props.teamBalancer} />
+          </Card>
+        )}
+
+        {/* Venue cost */}
+        {props.costSplit.isVisible && (
+          <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
+            <CostSplitCard costSplit={props.costSplit} />
+          </Card>
+        )}
+
+        {/* Waitlist spot offer */}
+        {props.waitlistOffer && (
+          <Card variant="elevated" style={{ marginBottom: theme.spacing.base, backgroundColor: theme.colors.successContainer }}>
+            <View style={{ padding: theme.spacing.base }}>
+              <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.xs }]}>
+                A spot opened up for you
+              </Text>
+              <Text style={[theme.typography.bodyMedium, { color: theme.colors.textSecondary, marginBottom: theme.spacing.md }]}>
+                {`Confirm by ${format(new Date(props.waitlistOffer.offerExpiresAt!), 'h:mm a')} or it goes to the next player in line.`}
+              </Text>
+              <Button
+                title="Confirm Spot"
+                icon="check"
+                onPress={props.onConfirmSpot}
+                fullWidth
+                style={{ marginBottom: theme.spacing.sm }}
+              />
+              <Button title="Decline" onPress={props.onDeclineSpot} variant="outline" fullWidth />
+            </View>
+          </Card>
+        )}
+
+        {/* Waitlist */}
+        {props.waitlist && (hasWaitlist || (props.isOrganizer && isFull)) && (
+          <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
+            <WaitlistCard
+              waitlist={props.waitlist}
+              currentUserId={props.currentUserId}
+              isOrganizer={props.isOrganizer}
+              onMove={props.onMoveWaitlistEntry}
+              onSetLimit={props.onSetWaitlistLimit}
+            />
+          </Card>
+        )}
+
         {/* Action Buttons */}
         {/* TODO: Implement action buttons with proper auth and API integration */}
         <Animated.View entering={FadeInDown.delay(500).springify()}>
           <View style={{ marginBottom: theme.spacing.xl }}>
-            {match.status === 'scheduled' && !isFull && (
+            {props.canKeepScore && (
+              <Button
+                title="Keep Score"
+                icon="scoreboard"
+                onPress={props.onKeepScore}
+                fullWidth
+                style={{ marginBottom: theme.spacing.sm }}
+              />
+            )}
+
+            {props.canBookVenue && (
+              <Button
+                title="Book the Venue"
+                icon="calendar-check"
+                variant="secondary"
+                onPress={props.onBookVenue}
+                fullWidth
+                style={{ marginBottom: theme.spacing.sm }}
+              />
+            )}
+
+            {props.canShareInvite && (
+              <Button
+                title="Share Invite Link"
+                icon="share-variant"
+                variant="secondary"
+                onPress={props.onShareInvite}
+                fullWidth
+                style={{ marginBottom: theme.spacing.sm }}
+              />
+            )}
+
+            {match.status === 'upcoming' && !isFull && (
               <Button
                 title="Join Match"
                 icon="account-plus"
                 onPress={props.onJoinMatch}
+                disabled={Boolean(props.ratingError)}
                 fullWidth
                 style={{ marginBottom: theme.spacing.sm }}
               />
             )}
+
+            {match.status === 'upcoming' && props.ratingError && (
+              <Text style={[theme.typography.bodySmall, styles.centeredText, { color: theme.colors.textSecondary, marginBottom: theme.spacing.sm }]}>
+                {props.ratingError}
+              </Text>
+            )}
             
-            {match.status === 'scheduled' && (
+            {props.canJoinWaitlist && (
+              <Button
+                title="Join Waitlist"
+                icon="account-clock"
+                onPress={props.onJoinWaitlist}
+                fullWidth
+                style={{ marginBottom: theme.spacing.sm }}
+              />
+            )}
+
+            {props.waitlistPosition !== null && (
+              <>
+                <Text style={[theme.typography.bodyMedium, styles.centeredText, { color: theme.colors.textSecondary, marginBottom: theme.spacing.sm }]}>
+                  {`You're #${props.waitlistPosition} on the waitlist`}
+                </Text>
+                <Button
+                  title="Leave Waitlist"
+                  icon="account-remove"
+                  onPress={props.onLeaveWaitlist}
+                  variant="outline"
+                  fullWidth
+                  style={{ marginBottom: theme.spacing.sm }}
+                />
+              </>
+            )}
+
+            {props.waitlistError && (
+              <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginBottom: theme.spacing.sm }]}>
+                {props.waitlistError}
+              </Text>
+            )}
+
+            {match.status === 'upcoming' && (
               <Button
                 title="Leave Match"
                 icon="account-minus"
@@ -216,6 +378,14 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({ navigation, route
           </View>
         </Animated.View>
       </View>
+
+      <CostSharePaymentSheet
+        checkout={props.costSplit.checkout}
+        payeeName={props.costSplit.payeeName}
+        onPaymentSuccess={props.costSplit.onPaymentSuccess}
+        onPaymentError={props.costSplit.onPaymentError}
+        onClose={props.costSplit.onCancelPayment}
+      />
     </ScrollView>
   );
 };
@@ -235,6 +405,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  seriesRow: {
+    flexDirection: 'row',
+  },
+  detailContent: {
+    flex: 1,
+  },
+  centeredText: {
+    textAlign: 'center',
+  },
 });
 
 export default MatchDetailScreen;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../../theme';
+import { useMatchInviteScreen } from '../hooks';
+import { Card } from '@shared/components/organisms';
+import { Button, LoadingSpinner } from '@shared/components/atoms';
+import { EmptyState } from '@shared/components/molecules';
+
+interface MatchInviteScreenProps {
+  navigation: any;
+  route: any;
+}
+
+/**
+ * MatchInviteScreen
+ *
+ * Opened from an invite link. Previews the private match behind the code so
+ * the player can decide before joining.
+ */
+const MatchInviteScreen: React.FC<MatchInviteScreenProps> = ({ navigation, route }) => {
+  const { theme } = useTheme();
+  const props = useMatchInviteScreen(route, navigation);
+
+  if (props.isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (props.isInvalid || !props.match) {
+    return (
+      <EmptyState
+        icon="link-variant-off"
+        title="Invite not valid"
+        message="This invite link has expired or was mistyped. Ask the organizer for a new one."
+      />
+    );
+  }
+
+  const { match } = props;
+
+  const renderDetail = (icon: string, text: string) => (
+    <View style={[styles.detailRow, { marginBottom: theme.spacing.sm }]}>
+      <Icon name={icon} size={20} color={theme.colors.primary} />
+      <Text style={[theme.typography.bodyMedium, styles.detailText, { color: theme.colors.text }]}>{text}</Text>
+    </View>
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={{ padding: theme.spacing.base }}>
+        <Card variant="elevated">
+          <View style={{ padding: theme.spacing.lg }}>
+            <Text style={[theme.typography.labelMedium, { color: theme.colors.textSecondary }]}>
+              {`${match.organizer.firstName} ${match.organizer.lastName} invited you to`}
+            </Text>
+            <Text
+              style={[
+                theme.typography.headlineSmall,
+                { color: theme.colors.text, marginTop: theme.spacing.xs, marginBottom: theme.spacing.md },
+              ]}
+            >
+              {match.title}
+            </Text>
+
+            {renderDetail('soccer', match.sport)}
+            {props.startsAt && renderDetail('calendar-clock', format(props.startsAt, 'MMM dd, yyyy • h:mm a'))}
+            {match.venue && renderDetail('map-marker', match.venue.name)}
+            {renderDetail('account-group', `${match.currentParticipants}/${match.maxParticipants} players · ${props.spotsLeft} spots left`)}
+            {props.ratingRequirement && renderDetail('chart-line', `Rated ${props.ratingRequirement}`)}
+
+            <View style={{ marginTop: theme.spacing.md }}>
+              {props.isParticipant ? (
+                <Button title="View Match" icon="arrow-right" onPress={props.onViewMatch} fullWidth />
+              ) : (
+                <Button
+                  title="Join Match"
+                  icon="account-plus"
+                  onPress={props.onJoin}
+                  loading={props.isJoining}
+                  disabled={!props.canJoin}
+                  fullWidth
+                />
+              )}
+            </View>
+
+            {(props.ratingError || props.joinError) && (
+              <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginTop: theme.spacing.sm }]}>
+                {props.joinError ?? props.ratingError}
+              </Text>
+            )}
+          </View>
+        </Card>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  detailText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+});
+
+export default MatchInviteScreen;
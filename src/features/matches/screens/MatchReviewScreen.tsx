@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { useMatchReviewScreen } from '../hooks';
+import { PlayerReviewCard } from '../components';
+import { Button, LoadingSpinner } from '@shared/components/atoms';
+import { EmptyState } from '@shared/components/molecules';
+
+interface MatchReviewScreenProps {
+  navigation: any;
+  route: any;
+}
+
+/**
+ * MatchReviewScreen
+ *
+ * Post-match feedback on the other players. Reviews are private; players
+ * only see their averages.
+ */
+const MatchReviewScreen: React.FC<MatchReviewScreenProps> = ({ navigation, route }) => {
+  const { theme } = useTheme();
+  const props = useMatchReviewScreen(route, navigation);
+
+  if (props.isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!props.match || !props.isOpen || props.players.length === 0) {
+    return (
+      <EmptyState
+        icon="star-check"
+        title="Nothing to review"
+        message="You've reviewed everyone in this match, or reviews have closed."
+      />
+    );
+  }
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={{ padding: theme.spacing.base }}>
+        <Text style={[theme.typography.headlineSmall, { color: theme.colors.text }]}>{props.match.title}</Text>
+        <Text
+          style={[
+            theme.typography.bodyMedium,
+            { color: theme.colors.textSecondary, marginTop: theme.spacing.xs, marginBottom: theme.spacing.md },
+          ]}
+        >
+          How was playing with everyone? Rate skill level on how well it matched the player's profile.
+        </Text>
+
+        {props.players.map(({ participant, canFlagNoShow }) => (
+          <PlayerReviewCard
+            key={participant._id}
+            player={participant}
+            review={props.drafts[participant._id]}
+            canFlagNoShow={canFlagNoShow}
+            onChange={props.onChange}
+          />
+        ))}
+
+        {props.submitError && (
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.error, marginBottom: theme.spacing.sm }]}>
+            {props.submitError}
+          </Text>
+        )}
+
+        <Button
+          title="Send Reviews"
+          icon="send"
+          onPress={props.onSubmit}
+          loading={props.isSubmitting}
+          disabled={props.reviewCount === 0}
+          fullWidth
+        />
+        <Button
+          title="Skip"
+          variant="text"
+          onPress={props.onSkip}
+          fullWidth
+          style={{ marginTop: theme.spacing.sm }}
+        />
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
+
+export default MatchReviewScreen;
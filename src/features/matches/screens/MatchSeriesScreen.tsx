@@ -0,0 +1,179 @@
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { format, parseISO } from 'date-fns';
+import { useTheme } from '../../../theme';
+import { useMatchSeriesScreen } from '../hooks';
+import { Card } from '@shared/components/organisms';
+import { Button, Input, LoadingSpinner } from '@shared/components/atoms';
+import { EmptyState } from '@shared/components/molecules';
+
+interface MatchSeriesScreenProps {
+  navigation: any;
+  route: any;
+}
+
+/**
+ * MatchSeriesScreen
+ *
+ * Upcoming occurrences of a recurring match. Players opt into the whole
+ * series here; the organizer cancels, restores or moves single occurrences.
+ */
+const MatchSeriesScreen: React.FC<MatchSeriesScreenProps> = ({ navigation, route }) => {
+  const { theme } = useTheme();
+  const props = useMatchSeriesScreen(route, navigation);
+
+  if (props.isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!props.series) {
+    return <EmptyState icon="calendar-remove" title="Series not found" message="This series may have been deleted" />;
+  }
+
+  const { series } = props;
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={{ padding: theme.spacing.base }}>
+        <Card variant="elevated" style={{ marginBottom: theme.spacing.base }}>
+          <View style={{ padding: theme.spacing.base }}>
+            <Text style={[theme.typography.headlineSmall, { color: theme.colors.text }]}>
+              {series.template.title}
+            </Text>
+            <Text style={[theme.typography.bodyMedium, { color: theme.colors.textSecondary, marginTop: theme.spacing.xs }]}>
+              {`${props.summary} at ${series.template.schedule.time}`}
+            </Text>
+            <Text
+              style={[
+                theme.typography.bodySmall,
+                { color: theme.colors.textSecondary, marginTop: theme.spacing.xs, marginBottom: theme.spacing.md },
+              ]}
+            >
+              {`${series.subscribers.length} of ${series.template.maxParticipants} spots taken by regular players`}
+            </Text>
+            {props.isSubscribed ? (
+              <Button title="Leave Series" variant="outline" onPress={props.onUnsubscribe} fullWidth />
+            ) : (
+              <Button title="Play Every Match" onPress={props.onSubscribe} fullWidth />
+            )}
+          </View>
+        </Card>
+
+        {props.actionError && (
+          <Text style={[theme.typography.bodySmall, styles.error, { color: theme.colors.error }]}>
+            {props.actionError}
+          </Text>
+        )}
+
+        <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.sm }]}>
+          Upcoming
+        </Text>
+
+        {props.occurrences.length === 0 && (
+          <EmptyState icon="calendar-blank" title="No upcoming matches" message="This series has finished" />
+        )}
+
+        {props.occurrences.map(occurrence => {
+          const isMoving = props.moving?.occurrenceDate === occurrence.occurrenceDate;
+          return (
+            <Card key={occurrence.occurrenceDate} variant="elevated" style={{ marginBottom: theme.spacing.sm }}>
+              <View style={{ padding: theme.spacing.md }}>
+                <TouchableOpacity onPress={() => props.onOpenOccurrence(occurrence)} disabled={occurrence.isCancelled}>
+                  <Text
+                    style={[
+                      theme.typography.titleMedium,
+                      occurrence.isCancelled && styles.cancelled,
+                      { color: occurrence.isCancelled ? theme.colors.textSecondary : theme.colors.text },
+                    ]}
+                  >
+                    {`${format(parseISO(occurrence.date), 'EEE, MMM d')} • ${occurrence.time}`}
+                  </Text>
+                  {(occurrence.isCancelled || occurrence.isMoved) && (
+                    <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+                      {occurrence.isCancelled
+                        ? 'Cancelled'
+                        : `Moved from ${format(parseISO(occurrence.occurrenceDate), 'EEE, MMM d')}`}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+
+                {props.isOrganizer && isMoving && props.moving && (
+                  <View style={{ marginTop: theme.spacing.sm }}>
+                    <Input
+                      label="Date"
+                      value={props.moving.date}
+                      onChangeText={props.onMoveDateChange}
+                      placeholder="YYYY-MM-DD"
+                      error={props.moveErrors.date}
+                    />
+                    <Input
+                      label="Time"
+                      value={props.moving.time}
+                      onChangeText={props.onMoveTimeChange}
+                      placeholder="HH:MM"
+                      error={props.moveErrors.time}
+                    />
+                    <View style={styles.actions}>
+                      <Button title="Save" size="small" onPress={props.onSaveMove} style={styles.action} />
+                      <Button title="Cancel" size="small" variant="text" onPress={props.onCancelMove} />
+                    </View>
+                  </View>
+                )}
+
+                {props.isOrganizer && !isMoving && (
+                  <View style={[styles.actions, { marginTop: theme.spacing.sm }]}>
+                    {occurrence.isCancelled ? (
+                      <Button
+                        title="Restore"
+                        size="small"
+                        variant="outline"
+                        onPress={() => props.onRestoreOccurrence(occurrence)}
+                      />
+                    ) : (
+                      <>
+                        <Button
+                          title="Move"
+                          size="small"
+                          variant="outline"
+                          onPress={() => props.onStartMove(occurrence)}
+                          style={styles.action}
+                        />
+                        <Button
+                          title="Cancel Match"
+                          size="small"
+                          variant="text"
+                          onPress={() => props.onCancelOccurrence(occurrence)}
+                        />
+                      </>
+                    )}
+                  </View>
+                )}
+              </View>
+            </Card>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  cancelled: {
+    textDecorationLine: 'line-through',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  action: {
+    marginRight: 8,
+  },
+  error: {
+    marginBottom: 8,
+  },
+});
+
+export default MatchSeriesScreen;
@@ -4,10 +4,13 @@ import Animated, { FadeInDown } from 'react-native-reanimated';
 import { useMatchesScreen } from '../hooks';
 import { useTheme } from '../../../theme';
 import { ListScreenTemplate } from '@shared/components/templates';
-import { Card } from '@shared/components/organisms';
+import { Card, SortFilter } from '@shared/components/organisms';
 import { Badge } from '@shared/components/atoms';
+import { formatCurrency } from '@shared/utils';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { format } from 'date-fns';
+import { MatchDiscoveryHeader } from '../components';
+import { DISCOVERY_FILTER_CATEGORIES, MATCH_SORT_OPTIONS } from '../utils';
 
 interface MatchesScreenProps {
   navigation: any;
@@ -20,7 +23,7 @@ const MatchesScreen: React.FC<MatchesScreenProps> = ({ navigation }) => {
   const renderMatchItem = (item: any) => (
     <Animated.View entering={FadeInDown.springify()}>
       <Card
-        onPress={() => props.onMatchPress(item.id)}
+        onPress={() => props.onMatchPress(item._id)}
         style={{ marginBottom: theme.spacing.md }}
       >
         <View style={{ padding: theme.spacing.base }}>
@@ -110,22 +113,76 @@ const MatchesScreen: React.FC<MatchesScreenProps> = ({ navigation }) => {
               {item.participants.length} / {item.maxParticipants} participants
             </Text>
           </View>
+
+          <View style={[styles.row, { marginTop: theme.spacing.sm }]}>
+            <Icon
+              name="cash"
+              size={16}
+              color={theme.colors.textSecondary}
+              style={{ marginRight: theme.spacing.sm }}
+            />
+            <Text
+              style={[
+                theme.typography.bodySmall,
+                { color: theme.colors.textSecondary },
+              ]}
+            >
+              {item.price?.amount
+                ? `${formatCurrency(item.price.amount / 100, item.price.currency)} per player`
+                : 'Free'}
+            </Text>
+          </View>
         </View>
       </Card>
     </Animated.View>
   );
 
   return (
-    <ListScreenTemplate
-      title="Matches"
-      items={props.matches}
-      renderItem={renderMatchItem}
-      isLoading={props.isLoading}
-      onRefresh={props.onRefresh}
-      onAddNew={props.onCreateMatch}
-      emptyMessage="No matches found"
-      searchPlaceholder="Search matches..."
-    />
+    <>
+      <ListScreenTemplate
+        title="Matches"
+        items={props.matches}
+        renderItem={renderMatchItem}
+        keyExtractor={item => item._id}
+        isLoading={props.isLoading}
+        isLoadingMore={props.isLoadingMore}
+        updatedAt={props.updatedAt}
+        isRefreshing={props.isRefreshing}
+        error={props.error}
+        onRefresh={props.onRefresh}
+        onEndReached={props.onEndReached}
+        onAddNew={props.onCreateMatch}
+        emptyMessage={
+          props.activeFilterCount > 0 || props.filters.search
+            ? 'No matches fit your filters'
+            : 'No matches found'
+        }
+        header={
+          <MatchDiscoveryHeader
+            searchText={props.searchText}
+            activeFilterCount={props.activeFilterCount}
+            locationNotice={props.locationNotice}
+            presets={props.presets}
+            onChangeSearch={props.onChangeSearch}
+            onSearch={props.onSearch}
+            onOpenFilters={props.onOpenFilters}
+          />
+        }
+      />
+
+      <SortFilter
+        // Remounted when the filters change elsewhere, such as a preset, so the sheet starts from them
+        key={`${props.filters.sort}|${props.filterIds.join()}`}
+        sortOptions={MATCH_SORT_OPTIONS}
+        selectedSort={props.filters.sort}
+        onSortChange={props.onSortChange}
+        filterCategories={DISCOVERY_FILTER_CATEGORIES}
+        selectedFilters={props.filterIds}
+        onFiltersChange={props.onFiltersChange}
+        visible={props.isFilterSheetVisible}
+        onClose={props.onCloseFilters}
+      />
+    </>
   );
 };
 
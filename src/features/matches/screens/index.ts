@@ -1,3 +1,8 @@
 export { default as MatchesScreen } from './MatchesScreen';
 export { default as MatchDetailScreen } from './MatchDetailScreen';
 export { default as CreateMatchScreen } from './CreateMatchScreen';
+export { default as LiveScoreScreen } from './LiveScoreScreen';
+export { default as MatchSeriesScreen } from './MatchSeriesScreen';
+export { default as CheckInScannerScreen } from './CheckInScannerScreen';
+export { default as MatchInviteScreen } from './MatchInviteScreen';
+export { default as MatchReviewScreen } from './MatchReviewScreen';
@@ -1,6 +1,54 @@
 import { IService, BusinessError, logger } from '@core';
-import { Match, CreateMatchRequest, MatchFilters } from '../types';
+import {
+  Match,
+  CreateMatchRequest,
+  MatchFilters,
+  MatchWaitlist,
+  UpdateWaitlistRequest,
+  WaitlistEntry,
+  MatchSeries,
+  CreateMatchSeriesRequest,
+  UpdateMatchSeriesRequest,
+  UpdateOccurrenceRequest,
+  RecurrenceRule,
+  TeamLineup,
+  MatchReview,
+  PendingMatchReview,
+  PlayerReview,
+  CostSplit,
+  CostShareStatus,
+  CreateCostSplitRequest,
+} from '../types';
+import type { Booking } from '@features/venues/types';
+import { RatingValues } from '@features/ratings/types';
+import { getRatingRange, getRatingRangeError } from '@features/ratings/utils';
+import { Coordinates, mapService } from '@features/venues/services/mapService';
 import { MatchRepository } from '../repositories/MatchRepository';
+import {
+  getOfferExpiry,
+  getOpenSpots,
+  getPromotions,
+  getQueuedEntries,
+  getWaitlistEntry,
+  hasActiveOffer,
+  isWaitlistFull,
+  getWeekday,
+  isOccurrenceDate,
+  toDateKey,
+  CHECK_IN_CLOSES_MINUTES_AFTER,
+  CHECK_IN_OPENS_MINUTES_BEFORE,
+  CHECK_IN_RADIUS_METERS,
+  getMatchStart,
+  getVenueCoordinates,
+  isCheckedIn,
+  isCheckInOpen,
+  isValidInviteCode,
+  parseCheckInCode,
+  getReviewError,
+  isReviewOpen,
+  getCostShare,
+  getCostSplitError,
+} from '../utils';
 
 /**
  * Match Service Interface
@@ -13,10 +61,47 @@ export interface IMatchService extends IService {
   createMatch(data: CreateMatchRequest): Promise<Match>;
   updateMatch(id: string, data: Partial<Match>): Promise<Match>;
   deleteMatch(id: string): Promise<void>;
-  joinMatch(matchId: string): Promise<void>;
+  joinMatch(matchId: string, rating?: RatingValues): Promise<void>;
+  getMatchByInviteCode(inviteCode: string): Promise<Match>;
+  joinWithInviteCode(inviteCode: string, rating?: RatingValues): Promise<Match>;
   leaveMatch(matchId: string): Promise<void>;
   updateScore(matchId: string, team1Score: number, team2Score: number): Promise<Match>;
-  canJoinMatch(match: Match, userId: string): boolean;
+  saveLineups(matchId: string, userId: string, teams: TeamLineup[]): Promise<Match>;
+  checkInWithCode(code: string, userId: string): Promise<Match>;
+  checkInByLocation(matchId: string, userId: string, location: Coordinates): Promise<Match>;
+  closeCheckIn(matchId: string, userId: string): Promise<Match>;
+  getPendingReviews(): Promise<PendingMatchReview[]>;
+  submitReviews(matchId: string, reviewerId: string, reviews: PlayerReview[]): Promise<MatchReview[]>;
+  skipReview(matchId: string): Promise<void>;
+  getCostSplit(matchId: string): Promise<CostSplit | null>;
+  createCostSplit(matchId: string, userId: string, booking: Booking, data: CreateCostSplitRequest): Promise<CostSplit>;
+  settleCostShare(
+    matchId: string,
+    userId: string,
+    shareUserId: string,
+    status: Exclude<CostShareStatus, 'pending'>
+  ): Promise<CostSplit>;
+  canJoinMatch(match: Match, userId: string, waitlist?: MatchWaitlist, rating?: RatingValues): boolean;
+  getWaitlist(matchId: string): Promise<MatchWaitlist>;
+  joinWaitlist(matchId: string, userId: string): Promise<MatchWaitlist>;
+  leaveWaitlist(matchId: string): Promise<void>;
+  updateWaitlist(matchId: string, userId: string, data: UpdateWaitlistRequest): Promise<MatchWaitlist>;
+  promoteFromWaitlist(matchId: string, userId: string): Promise<WaitlistEntry[]>;
+  respondToWaitlistOffer(matchId: string, userId: string, accept: boolean): Promise<void>;
+  canJoinWaitlist(match: Match, waitlist: MatchWaitlist | undefined, userId: string): boolean;
+  assertCanJoin(match: Match, waitlist: MatchWaitlist | undefined, rating?: RatingValues): void;
+  assertCanLeave(match: Match): void;
+  getSeries(seriesId: string): Promise<MatchSeries>;
+  createSeries(data: CreateMatchSeriesRequest): Promise<MatchSeries>;
+  updateSeries(seriesId: string, userId: string, data: UpdateMatchSeriesRequest): Promise<MatchSeries>;
+  updateOccurrence(
+    seriesId: string,
+    occurrenceDate: string,
+    userId: string,
+    data: UpdateOccurrenceRequest
+  ): Promise<MatchSeries>;
+  subscribeToSeries(seriesId: string, userId: string): Promise<MatchSeries>;
+  unsubscribeFromSeries(seriesId: string, userId: string): Promise<MatchSeries>;
 }
 
 /**
@@ -75,14 +160,7 @@ export class MatchService implements IMatchService {
    */
   async createMatch(data: CreateMatchRequest): Promise<Match> {
     try {
-      // Business validation
-      if (!data.title || data.title.trim().length < 3) {
-        throw new BusinessError('Match title must be at least 3 characters');
-      }
-
-      if (data.maxParticipants < 2) {
-        throw new BusinessError('Match must allow at least 2 participants');
-      }
+      this.validateMatchRequest(data);
 
       const match = await this.repository.create(data);
       
@@ -125,24 +203,14 @@ export class MatchService implements IMatchService {
   /**
    * Join a match
    */
-  async joinMatch(matchId: string): Promise<void> {
+  async joinMatch(matchId: string, rating?: RatingValues): Promise<void> {
     try {
-      const match = await this.repository.getById(matchId);
-
-      // Business rule: Check if match is full
-      if (match.participants.length >= match.maxParticipants) {
-        throw new BusinessError('Match is full');
-      }
-
-      // Business rule: Check if match is cancelled
-      if (match.status === 'cancelled') {
-        throw new BusinessError('Cannot join a cancelled match');
-      }
+      const [match, waitlist] = await Promise.all([
+        this.repository.getById(matchId),
+        this.repository.getWaitlist(matchId),
+      ]);
 
-      // Business rule: Check if match is completed
-      if (match.status === 'completed') {
-        throw new BusinessError('Cannot join a completed match');
-      }
+      this.assertCanJoin(match, waitlist, rating);
 
       await this.repository.joinMatch(matchId);
       logger.info('User joined match', { matchId });
@@ -152,6 +220,42 @@ export class MatchService implements IMatchService {
     }
   }
 
+  /**
+   * Look up the match an invite code belongs to, for the join preview
+   */
+  async getMatchByInviteCode(inviteCode: string): Promise<Match> {
+    try {
+      // Business rule: Only well-formed codes are sent to the server
+      if (!isValidInviteCode(inviteCode)) {
+        throw new BusinessError('This invite link is not valid');
+      }
+
+      return await this.repository.getByInviteCode(inviteCode);
+    } catch (error) {
+      logger.error('Failed to fetch match by invite code', error as Error, { inviteCode });
+      throw error;
+    }
+  }
+
+  /**
+   * Join a private match through its invite code
+   */
+  async joinWithInviteCode(inviteCode: string, rating?: RatingValues): Promise<Match> {
+    try {
+      const match = await this.getMatchByInviteCode(inviteCode);
+      const waitlist = await this.repository.getWaitlist(match._id);
+
+      this.assertCanJoin(match, waitlist, rating);
+
+      const joined = await this.repository.joinWithInviteCode(inviteCode);
+      logger.info('User joined match with invite', { matchId: match._id });
+      return joined;
+    } catch (error) {
+      logger.error('Failed to join match with invite', error as Error, { inviteCode });
+      throw error;
+    }
+  }
+
   /**
    * Leave a match
    */
@@ -159,10 +263,7 @@ export class MatchService implements IMatchService {
     try {
       const match = await this.repository.getById(matchId);
 
-      // Business rule: Cannot leave if match is in progress
-      if (match.status === 'in_progress') {
-        throw new BusinessError('Cannot leave a match in progress');
-      }
+      this.assertCanLeave(match);
 
       await this.repository.leaveMatch(matchId);
       logger.info('User left match', { matchId });
@@ -193,26 +294,719 @@ export class MatchService implements IMatchService {
   }
 
   /**
-   * Check if a user can join a match
+   * Save the sides picked for a match (organizer only)
+   */
+  async saveLineups(matchId: string, userId: string, teams: TeamLineup[]): Promise<Match> {
+    try {
+      const match = await this.repository.getById(matchId);
+
+      if (match.organizer._id !== userId) {
+        throw new BusinessError('Only the organizer can pick the teams');
+      }
+
+      if (match.status === 'completed' || match.status === 'cancelled') {
+        throw new BusinessError('Teams can only be picked before or during the match');
+      }
+
+      if (teams.length < 2 || teams.some(team => team.playerIds.length === 0)) {
+        throw new BusinessError('Pick at least 2 teams with a player on each');
+      }
+
+      // Business rule: Every participant plays on exactly one side
+      const participantIds = match.participants.map(p => p._id);
+      const picked = teams.flatMap(team => team.playerIds);
+      const isPartition =
+        picked.length === participantIds.length &&
+        new Set(picked).size === picked.length &&
+        picked.every(id => participantIds.includes(id));
+      if (!isPartition) {
+        throw new BusinessError('Every participant must be on exactly one team');
+      }
+
+      const updated = await this.repository.saveLineups(matchId, teams);
+      logger.info('Match line-ups saved', { matchId, teams: teams.length });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to save line-ups', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Check in by scanning the organizer's QR code
    */
-  canJoinMatch(match: Match, userId: string): boolean {
+  async checkInWithCode(code: string, userId: string): Promise<Match> {
+    const parsed = parseCheckInCode(code);
+    if (!parsed) {
+      throw new BusinessError('This is not a match check-in code');
+    }
+
+    try {
+      const match = await this.repository.getById(parsed.matchId);
+      this.assertCanCheckIn(match, userId);
+
+      const updated = await this.repository.checkIn(match._id, { method: 'qr', token: parsed.token });
+      logger.info('Checked in with QR code', { matchId: match._id });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to check in with QR code', error as Error, { matchId: parsed.matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Check in from the player's location at the venue
+   */
+  async checkInByLocation(matchId: string, userId: string, location: Coordinates): Promise<Match> {
+    try {
+      const match = await this.repository.getById(matchId);
+      this.assertCanCheckIn(match, userId);
+
+      const venue = getVenueCoordinates(match);
+      if (!venue) {
+        throw new BusinessError('This match has no venue location; scan the check-in code instead');
+      }
+
+      // Business rule: Player must be within the check-in radius of the venue
+      const distance = mapService.calculateDistance(location, venue) * 1000;
+      if (distance > CHECK_IN_RADIUS_METERS) {
+        throw new BusinessError(`You need to be within ${CHECK_IN_RADIUS_METERS} m of the venue to check in`, {
+          distance: Math.round(distance),
+        });
+      }
+
+      const updated = await this.repository.checkIn(matchId, { method: 'location', coordinates: location });
+      logger.info('Checked in by location', { matchId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to check in by location', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Close check-in once the match has started. Participants who have not
+   * checked in are recorded as no-shows.
+   */
+  async closeCheckIn(matchId: string, userId: string): Promise<Match> {
+    try {
+      const match = await this.repository.getById(matchId);
+
+      if (match.organizer._id !== userId) {
+        throw new BusinessError('Only the organizer can close check-in');
+      }
+
+      if (match.status === 'cancelled') {
+        throw new BusinessError('Cannot record attendance for a cancelled match');
+      }
+
+      if (new Date() < getMatchStart(match)) {
+        throw new BusinessError('Check-in can only be closed once the match has started');
+      }
+
+      if (match.checkInClosedAt) {
+        throw new BusinessError('Check-in is already closed');
+      }
+
+      const updated = await this.repository.closeCheckIn(matchId);
+      logger.info('Check-in closed', { matchId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to close check-in', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the completed matches the current user can still review, ones whose
+   * review window has passed left out
+   */
+  async getPendingReviews(): Promise<PendingMatchReview[]> {
+    try {
+      const pending = await this.repository.getPendingReviews();
+      return pending.filter(entry => isReviewOpen(entry));
+    } catch (error) {
+      logger.error('Failed to fetch pending reviews', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Submit reviews of other players in a completed match
+   */
+  async submitReviews(matchId: string, reviewerId: string, reviews: PlayerReview[]): Promise<MatchReview[]> {
+    try {
+      const pending = (await this.repository.getPendingReviews()).find(entry => entry.match._id === matchId);
+
+      // Business rule: Reviews are only taken inside the review window
+      if (!pending || !isReviewOpen(pending)) {
+        throw new BusinessError('Reviews for this match are closed');
+      }
+
+      // Business rule: One review per player pair per match, from participants only
+      const reviewError = getReviewError(pending.match, reviewerId, reviews, pending.reviewedIds);
+      if (reviewError) {
+        throw new BusinessError(reviewError);
+      }
+
+      const submitted = await this.repository.submitReviews(
+        matchId,
+        reviews.map(review => ({ ...review, comment: review.comment?.trim() || undefined }))
+      );
+      logger.info('Match reviews submitted', { matchId, count: submitted.length });
+      return submitted;
+    } catch (error) {
+      logger.error('Failed to submit match reviews', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  async skipReview(matchId: string): Promise<void> {
+    try {
+      await this.repository.skipReview(matchId);
+      logger.info('Match review skipped', { matchId });
+    } catch (error) {
+      logger.error('Failed to skip match review', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  async getCostSplit(matchId: string): Promise<CostSplit | null> {
+    try {
+      return await this.repository.getCostSplit(matchId);
+    } catch (error) {
+      logger.error('Failed to fetch cost split', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Split the cost of the venue booking made for a match. Every other
+   * participant is sent a payment request for their share.
+   */
+  async createCostSplit(
+    matchId: string,
+    userId: string,
+    booking: Booking,
+    data: CreateCostSplitRequest
+  ): Promise<CostSplit> {
+    try {
+      const [match, existing] = await Promise.all([
+        this.repository.getById(matchId),
+        this.repository.getCostSplit(matchId),
+      ]);
+
+      // Business rule: A booking's cost is split once
+      if (existing) {
+        throw new BusinessError("This match's cost has already been split");
+      }
+
+      // Business rule: Only the booker splits, among participants, covering the whole cost
+      const splitError = getCostSplitError(match, booking, userId, data.shares);
+      if (splitError) {
+        throw new BusinessError(splitError);
+      }
+
+      const split = await this.repository.createCostSplit(matchId, { ...data, bookingId: booking._id });
+      logger.info('Match cost split', { matchId, bookingId: booking._id, method: data.method });
+      return split;
+    } catch (error) {
+      logger.error('Failed to split match cost', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a player's share as paid outside the app, or waive it
+   */
+  async settleCostShare(
+    matchId: string,
+    userId: string,
+    shareUserId: string,
+    status: Exclude<CostShareStatus, 'pending'>
+  ): Promise<CostSplit> {
+    try {
+      const split = await this.repository.getCostSplit(matchId);
+      if (!split) {
+        throw new BusinessError("This match's cost has not been split");
+      }
+
+      // Business rule: Only the booker, who is owed the money, settles shares
+      if (split.payerId !== userId) {
+        throw new BusinessError('Only the player who booked can settle shares');
+      }
+
+      if (getCostShare(split, shareUserId)?.status !== 'pending') {
+        throw new BusinessError('This share is already settled');
+      }
+
+      const updated = await this.repository.settleCostShare(matchId, shareUserId, status);
+      logger.info('Cost share settled', { matchId, shareUserId, status });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to settle cost share', error as Error, { matchId, shareUserId });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a user can join a match. `rating` is the user's rating in the
+   * match's sport, left out for unrated players who count as the default rating.
+   */
+  canJoinMatch(match: Match, userId: string, waitlist?: MatchWaitlist, rating?: RatingValues): boolean {
     // Already a participant
-    if (match.participants.some(p => p.id === userId)) {
+    if (match.participants.some(p => p._id === userId)) {
       return false;
     }
 
-    // Match is full
-    if (match.participants.length >= match.maxParticipants) {
+    // Match is full, or its open spots are held for the waitlist
+    if (getOpenSpots(match, waitlist) === 0) {
       return false;
     }
 
     // Match is not in the right status
-    if (match.status !== 'scheduled') {
+    if (match.status !== 'upcoming') {
+      return false;
+    }
+
+    // Rating outside the match's range
+    if (getRatingRangeError(getRatingRange(match.requirements), rating)) {
       return false;
     }
 
     return true;
   }
+
+  /**
+   * Get the waitlist of a match
+   */
+  async getWaitlist(matchId: string): Promise<MatchWaitlist> {
+    try {
+      return await this.repository.getWaitlist(matchId);
+    } catch (error) {
+      logger.error('Failed to get waitlist', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue for a full match
+   */
+  async joinWaitlist(matchId: string, userId: string): Promise<MatchWaitlist> {
+    try {
+      const [match, waitlist] = await Promise.all([
+        this.repository.getById(matchId),
+        this.repository.getWaitlist(matchId),
+      ]);
+
+      const reason = this.getWaitlistJoinError(match, waitlist, userId);
+      if (reason) {
+        throw new BusinessError(reason);
+      }
+
+      const updated = await this.repository.joinWaitlist(matchId);
+      logger.info('User joined waitlist', { matchId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to join waitlist', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Leave the waitlist of a match
+   */
+  async leaveWaitlist(matchId: string): Promise<void> {
+    try {
+      await this.repository.leaveWaitlist(matchId);
+      logger.info('User left waitlist', { matchId });
+    } catch (error) {
+      logger.error('Failed to leave waitlist', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Reorder or cap the waitlist (organizer only)
+   */
+  async updateWaitlist(matchId: string, userId: string, data: UpdateWaitlistRequest): Promise<MatchWaitlist> {
+    try {
+      const [match, waitlist] = await Promise.all([
+        this.repository.getById(matchId),
+        this.repository.getWaitlist(matchId),
+      ]);
+
+      // Business rule: Only the organizer manages the queue
+      if (match.organizer._id !== userId) {
+        throw new BusinessError('Only the organizer can manage the waitlist');
+      }
+
+      if (
+        data.maxLength !== undefined &&
+        data.maxLength !== null &&
+        (!Number.isInteger(data.maxLength) || data.maxLength < 1)
+      ) {
+        throw new BusinessError('Waitlist limit must be a whole number of at least 1');
+      }
+
+      if (data.order) {
+        const queued = getQueuedEntries(waitlist).map(entry => entry._id);
+        const isPermutation =
+          data.order.length === queued.length &&
+          new Set(data.order).size === queued.length &&
+          data.order.every(id => queued.includes(id));
+        if (!isPermutation) {
+          throw new BusinessError('Waitlist order must list every waiting player once');
+        }
+      }
+
+      const updated = await this.repository.updateWaitlist(matchId, data);
+      logger.info('Waitlist updated', { matchId, data });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update waitlist', error as Error, { matchId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Offer every open spot to the next players in line (organizer only). The
+   * server already does this when a player leaves, declines or lets an offer
+   * lapse; this lets the organizer hand out spots they opened themselves.
+   * Each spot is held until the offer expires.
+   */
+  async promoteFromWaitlist(matchId: string, userId: string): Promise<WaitlistEntry[]> {
+    try {
+      const now = new Date();
+      const [match, waitlist] = await Promise.all([
+        this.repository.getById(matchId),
+        this.repository.getWaitlist(matchId),
+      ]);
+
+      // Business rule: Only the organizer manages the queue
+      if (match.organizer._id !== userId) {
+        throw new BusinessError('Only the organizer can offer waitlist spots');
+      }
+
+      if (match.status !== 'upcoming') {
+        return [];
+      }
+
+      const promotions = getPromotions(match, waitlist, now);
+      const expiresAt = getOfferExpiry(now);
+      for (const entry of promotions) {
+        await this.repository.offerWaitlistSpot(matchId, entry._id, expiresAt);
+      }
+
+      if (promotions.length > 0) {
+        logger.info('Waitlist promoted', { matchId, entryIds: promotions.map(entry => entry._id) });
+      }
+      return promotions;
+    } catch (error) {
+      logger.error('Failed to promote from waitlist', error as Error, { matchId });
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm or decline a spot held for the user
+   */
+  async respondToWaitlistOffer(matchId: string, userId: string, accept: boolean): Promise<void> {
+    try {
+      const waitlist = await this.repository.getWaitlist(matchId);
+      const entry = getWaitlistEntry(waitlist, userId);
+
+      if (!entry || entry.status !== 'offered') {
+        throw new BusinessError('You have no spot to confirm');
+      }
+
+      // Business rule: Lapsed offers no longer hold a spot
+      if (accept && !hasActiveOffer(entry)) {
+        throw new BusinessError('This spot offer has expired');
+      }
+
+      await this.repository.respondToWaitlistOffer(matchId, accept);
+      logger.info(accept ? 'Waitlist spot confirmed' : 'Waitlist spot declined', { matchId });
+    } catch (error) {
+      logger.error('Failed to respond to waitlist offer', error as Error, { matchId, accept });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a user can queue for a match
+   */
+  canJoinWaitlist(match: Match, waitlist: MatchWaitlist | undefined, userId: string): boolean {
+    return this.getWaitlistJoinError(match, waitlist, userId) === null;
+  }
+
+  /**
+   * Joining rules, checked before a join is sent or queued offline
+   */
+  assertCanJoin(match: Match, waitlist: MatchWaitlist | undefined, rating?: RatingValues): void {
+    // Business rule: Check if match is full, counting spots held for the waitlist
+    if (getOpenSpots(match, waitlist) === 0) {
+      throw new BusinessError('Match is full');
+    }
+
+    // Business rule: Check if match is cancelled
+    if (match.status === 'cancelled') {
+      throw new BusinessError('Cannot join a cancelled match');
+    }
+
+    // Business rule: Check if match is completed
+    if (match.status === 'completed') {
+      throw new BusinessError('Cannot join a completed match');
+    }
+
+    // Business rule: Player's rating in the sport must be within the match's range
+    const ratingError = getRatingRangeError(getRatingRange(match.requirements), rating);
+    if (ratingError) {
+      throw new BusinessError(ratingError);
+    }
+  }
+
+  /**
+   * Leaving rules, checked before a leave is sent or queued offline
+   */
+  assertCanLeave(match: Match): void {
+    // Business rule: Cannot leave if match is in progress
+    if (match.status === 'in_progress') {
+      throw new BusinessError('Cannot leave a match in progress');
+    }
+  }
+
+  /**
+   * Get a recurring match series
+   */
+  async getSeries(seriesId: string): Promise<MatchSeries> {
+    try {
+      return await this.repository.getSeries(seriesId);
+    } catch (error) {
+      logger.error('Failed to get match series', error as Error, { seriesId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a recurring series. The server produces its occurrences as matches.
+   */
+  async createSeries(data: CreateMatchSeriesRequest): Promise<MatchSeries> {
+    try {
+      this.validateMatchRequest(data.template);
+      this.validateRecurrence(data.recurrence, data.template.schedule.date);
+
+      // Business rule: The first match is the first occurrence
+      const { byWeekday } = data.recurrence;
+      if (byWeekday?.length && !byWeekday.includes(getWeekday(data.template.schedule.date))) {
+        throw new BusinessError('The first match must fall on one of the repeat days');
+      }
+
+      const series = await this.repository.createSeries(data);
+      logger.info('Match series created', { seriesId: series._id });
+      return series;
+    } catch (error) {
+      logger.error('Failed to create match series', error as Error, { data });
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a series (organizer only). Changes carry forward to the occurrences
+   * from `effectiveFrom` on; single-occurrence overrides are kept.
+   */
+  async updateSeries(seriesId: string, userId: string, data: UpdateMatchSeriesRequest): Promise<MatchSeries> {
+    try {
+      const series = await this.repository.getSeries(seriesId);
+
+      if (series.organizer._id !== userId) {
+        throw new BusinessError('Only the organizer can edit the series');
+      }
+
+      if (data.effectiveFrom < toDateKey(new Date())) {
+        throw new BusinessError('Series changes can only apply from today onwards');
+      }
+
+      if (data.template) {
+        this.validateMatchRequest({ ...series.template, ...data.template });
+      }
+
+      // Business rule: Every subscriber keeps their place in each occurrence
+      const maxParticipants = data.template?.maxParticipants;
+      if (maxParticipants !== undefined && maxParticipants < series.subscribers.length) {
+        throw new BusinessError('Max participants cannot be fewer than the players subscribed to the series');
+      }
+
+      if (data.recurrence) {
+        this.validateRecurrence(data.recurrence, data.effectiveFrom);
+      }
+
+      const updated = await this.repository.updateSeries(seriesId, data);
+      logger.info('Match series updated', { seriesId, effectiveFrom: data.effectiveFrom });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update match series', error as Error, { seriesId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel, move or restore one occurrence (organizer only)
+   */
+  async updateOccurrence(
+    seriesId: string,
+    occurrenceDate: string,
+    userId: string,
+    data: UpdateOccurrenceRequest
+  ): Promise<MatchSeries> {
+    try {
+      const series = await this.repository.getSeries(seriesId);
+      const today = toDateKey(new Date());
+
+      if (series.organizer._id !== userId) {
+        throw new BusinessError('Only the organizer can change an occurrence');
+      }
+
+      if (!isOccurrenceDate(series.recurrence, series.template.schedule.date, occurrenceDate)) {
+        throw new BusinessError('The series has no match on that date');
+      }
+
+      const current = series.overrides.find(override => override.occurrenceDate === occurrenceDate);
+      if ((current?.schedule?.date ?? occurrenceDate) < today) {
+        throw new BusinessError('Past occurrences cannot be changed');
+      }
+
+      if (data.schedule && data.schedule.date < today) {
+        throw new BusinessError('An occurrence cannot be moved into the past');
+      }
+
+      const updated = await this.repository.updateOccurrence(seriesId, occurrenceDate, data);
+      logger.info('Series occurrence updated', { seriesId, occurrenceDate, data });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update series occurrence', error as Error, { seriesId, occurrenceDate, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Join every upcoming occurrence of a series, and the ones produced later
+   */
+  async subscribeToSeries(seriesId: string, userId: string): Promise<MatchSeries> {
+    try {
+      const series = await this.repository.getSeries(seriesId);
+
+      if (series.subscribers.includes(userId)) {
+        throw new BusinessError('You are already playing in this series');
+      }
+
+      // Business rule: Subscribers take a spot in every occurrence
+      if (series.subscribers.length >= series.template.maxParticipants) {
+        throw new BusinessError('This series has no room for more regular players');
+      }
+
+      const updated = await this.repository.subscribeToSeries(seriesId);
+      logger.info('User subscribed to match series', { seriesId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to subscribe to match series', error as Error, { seriesId });
+      throw error;
+    }
+  }
+
+  /**
+   * Leave the upcoming occurrences of a series
+   */
+  async unsubscribeFromSeries(seriesId: string, userId: string): Promise<MatchSeries> {
+    try {
+      const series = await this.repository.getSeries(seriesId);
+
+      if (!series.subscribers.includes(userId)) {
+        throw new BusinessError('You are not playing in this series');
+      }
+
+      const updated = await this.repository.unsubscribeFromSeries(seriesId);
+      logger.info('User unsubscribed from match series', { seriesId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to unsubscribe from match series', error as Error, { seriesId });
+      throw error;
+    }
+  }
+
+  /**
+   * Check-in rules shared by QR and location check-in
+   */
+  private assertCanCheckIn(match: Match, userId: string): void {
+    if (!match.participants.some(p => p._id === userId)) {
+      throw new BusinessError('Only participants can check in');
+    }
+
+    if (match.status === 'cancelled' || match.status === 'completed') {
+      throw new BusinessError(`Cannot check in to a ${match.status} match`);
+    }
+
+    if (isCheckedIn(match, userId)) {
+      throw new BusinessError('You are already checked in');
+    }
+
+    if (match.checkInClosedAt || !isCheckInOpen(match)) {
+      throw new BusinessError(
+        `Check-in opens ${CHECK_IN_OPENS_MINUTES_BEFORE} minutes before the match and closes ${CHECK_IN_CLOSES_MINUTES_AFTER} minutes after it starts`
+      );
+    }
+  }
+
+  private validateMatchRequest(data: CreateMatchRequest): void {
+    if (!data.title || data.title.trim().length < 3) {
+      throw new BusinessError('Match title must be at least 3 characters');
+    }
+
+    if (data.maxParticipants < 2) {
+      throw new BusinessError('Match must allow at least 2 participants');
+    }
+  }
+
+  private validateRecurrence(rule: RecurrenceRule, startDate: string): void {
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+      throw new BusinessError('Repeat interval must be a whole number of at least 1');
+    }
+    if (rule.byWeekday?.length && rule.frequency !== 'weekly') {
+      throw new BusinessError('Repeat days can only be chosen for weekly series');
+    }
+    if (rule.count !== undefined && rule.until) {
+      throw new BusinessError('A series ends after a number of matches or on a date, not both');
+    }
+    if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 2)) {
+      throw new BusinessError('A series must have at least 2 matches');
+    }
+    if (rule.until && rule.until <= startDate) {
+      throw new BusinessError('A series must end after its first match');
+    }
+  }
+
+  private getWaitlistJoinError(
+    match: Match,
+    waitlist: MatchWaitlist | undefined,
+    userId: string
+  ): string | null {
+    if (match.status !== 'upcoming') {
+      return 'Only upcoming matches have a waitlist';
+    }
+    if (match.participants.some(p => p._id === userId)) {
+      return 'You are already in this match';
+    }
+    if (getWaitlistEntry(waitlist, userId)) {
+      return 'You are already on the waitlist';
+    }
+    if (getOpenSpots(match, waitlist) > 0) {
+      return 'This match has open spots; join it directly';
+    }
+    if (isWaitlistFull(waitlist)) {
+      return 'The waitlist is full';
+    }
+    return null;
+  }
 }
 
 /**
@@ -0,0 +1,58 @@
+import { BusinessError, logger } from '@core';
+import { STORAGE_KEYS, TypedStorage } from '@shared/utils/storageUtils';
+import { MatchDiscoveryFilters, MatchFilterPreset } from '../types';
+import { getFilterPresetError } from '../utils';
+
+/**
+ * Match filter presets
+ *
+ * Discovery filters the user saved under a name, kept on the device.
+ */
+class FilterPresetService {
+  private storage = new TypedStorage<MatchFilterPreset[]>(STORAGE_KEYS.MATCH_FILTER_PRESETS);
+
+  async getPresets(): Promise<MatchFilterPreset[]> {
+    return this.storage.loadWithDefault([]);
+  }
+
+  /**
+   * Save the filters under a name, returning the updated presets
+   */
+  async savePreset(name: string, filters: MatchDiscoveryFilters): Promise<MatchFilterPreset[]> {
+    const presets = await this.getPresets();
+
+    // Business rule: Preset names are unique and only so many can be saved
+    const presetError = getFilterPresetError(name, presets);
+    if (presetError) {
+      throw new BusinessError(presetError);
+    }
+
+    try {
+      const preset: MatchFilterPreset = {
+        id: `preset_${Date.now()}`,
+        name: name.trim(),
+        filters,
+        createdAt: new Date().toISOString(),
+      };
+      const updated = [...presets, preset];
+      await this.storage.save(updated);
+      return updated;
+    } catch (error) {
+      logger.error('Failed to save filter preset', error as Error, { name });
+      throw error;
+    }
+  }
+
+  async deletePreset(id: string): Promise<MatchFilterPreset[]> {
+    try {
+      const updated = (await this.getPresets()).filter(preset => preset.id !== id);
+      await this.storage.save(updated);
+      return updated;
+    } catch (error) {
+      logger.error('Failed to delete filter preset', error as Error, { id });
+      throw error;
+    }
+  }
+}
+
+export const filterPresetService = new FilterPresetService();
@@ -1 +1,2 @@
 export * from './MatchService';
+export * from './filterPresetService';
@@ -1,23 +1,38 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
-import { Match, CreateMatchRequest, UpdateScoreRequest, MatchFilters } from '@features/matches/types';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import {
+  Match,
+  CreateMatchRequest,
+  UpdateScoreRequest,
+  MatchFilters,
+  MatchWaitlist,
+  UpdateWaitlistRequest,
+  MatchSeries,
+  CreateMatchSeriesRequest,
+  UpdateMatchSeriesRequest,
+  UpdateOccurrenceRequest,
+  SaveLineupsRequest,
+  CheckInToken,
+  CheckInRequest,
+  MatchReview,
+  PendingMatchReview,
+  SubmitMatchReviewsRequest,
+  CostSplit,
+  CostShareStatus,
+  CreateCostSplitRequest,
+} from '@features/matches/types';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery, isQueuedOffline } from '@shared/services/baseQuery';
+import { extractPersistedQueries, QUERY_CACHE_REVALIDATE_AFTER_SECONDS } from '@shared/services/queryCache';
 import { unwrapApiResponse, unwrapNestedData } from '@shared/utils/apiHelpers';
+import { listOf, matchSchema } from '@shared/services/responseSchemas';
 
 export const matchApi = createApi({
   reducerPath: 'matchApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
-  tagTypes: ['Match', 'Matches'],
+  baseQuery,
+  // Responses saved on the device show straight away and are refetched in the background
+  extractRehydrationInfo: extractPersistedQueries,
+  refetchOnMountOrArgChange: QUERY_CACHE_REVALIDATE_AFTER_SECONDS,
+  tagTypes: ['Match', 'Matches', 'Waitlist', 'Series', 'Reviews', 'CostSplit'],
   endpoints: (builder) => ({
     getMatches: builder.query<Match[], MatchFilters>({
       query: (filters) => {
@@ -29,12 +44,12 @@ export const matchApi = createApi({
         });
         return `/matches?${params.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Match[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Match[]>) => unwrapApiResponse(response, listOf(matchSchema)),
       providesTags: ['Matches'],
     }),
     getMatch: builder.query<Match, string>({
       query: (id) => `/matches/${id}`,
-      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match'),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
       providesTags: (result, error, id) => [{ type: 'Match', id }],
     }),
     createMatch: builder.mutation<Match, CreateMatchRequest>({
@@ -43,7 +58,7 @@ export const matchApi = createApi({
         method: 'POST',
         body: matchData,
       }),
-      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match'),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
       invalidatesTags: ['Matches'],
     }),
     updateMatch: builder.mutation<Match, { id: string; data: Partial<CreateMatchRequest> }>({
@@ -52,7 +67,7 @@ export const matchApi = createApi({
         method: 'PATCH',
         body: data,
       }),
-      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match'),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
       invalidatesTags: (result, error, { id }) => [{ type: 'Match', id }, 'Matches'],
     }),
     joinMatch: builder.mutation<Match, string>({
@@ -60,7 +75,8 @@ export const matchApi = createApi({
         url: `/matches/${id}/join`,
         method: 'POST',
       }),
-      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match'),
+      extraOptions: { outbox: { label: 'Join match', invalidates: ['Match', 'Matches'] } },
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
       // Optimistic update
       async onQueryStarted(id, { dispatch, queryFulfilled }) {
         const patchResult = dispatch(
@@ -71,17 +87,21 @@ export const matchApi = createApi({
         );
         try {
           await queryFulfilled;
-        } catch {
-          patchResult.undo();
+        } catch (error) {
+          // Kept while the outbox holds the request
+          if (!isQueuedOffline(error)) {
+            patchResult.undo();
+          }
         }
       },
-      invalidatesTags: (result, error, id) => [{ type: 'Match', id }, 'Matches'],
+      invalidatesTags: (result, error, id) => (isQueuedOffline(error) ? [] : [{ type: 'Match', id }, 'Matches']),
     }),
     leaveMatch: builder.mutation<void, string>({
       query: (id) => ({
         url: `/matches/${id}/leave`,
         method: 'POST',
       }),
+      extraOptions: { outbox: { label: 'Leave match', invalidates: ['Match', 'Matches'] } },
       transformResponse: (response: ApiResponse<void>) => unwrapApiResponse(response),
       // Optimistic update
       async onQueryStarted(id, { dispatch, queryFulfilled }) {
@@ -93,11 +113,27 @@ export const matchApi = createApi({
         );
         try {
           await queryFulfilled;
-        } catch {
-          patchResult.undo();
+        } catch (error) {
+          // Kept while the outbox holds the request
+          if (!isQueuedOffline(error)) {
+            patchResult.undo();
+          }
         }
       },
-      invalidatesTags: (result, error, id) => [{ type: 'Match', id }, 'Matches'],
+      invalidatesTags: (result, error, id) => (isQueuedOffline(error) ? [] : [{ type: 'Match', id }, 'Matches']),
+    }),
+    getMatchByInviteCode: builder.query<Match, string>({
+      query: (inviteCode) => `/matches/invite/${encodeURIComponent(inviteCode)}`,
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
+      providesTags: (result) => (result ? [{ type: 'Match', id: result._id }] : []),
+    }),
+    joinWithInviteCode: builder.mutation<Match, string>({
+      query: (inviteCode) => ({
+        url: `/matches/invite/${encodeURIComponent(inviteCode)}/join`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
+      invalidatesTags: (result) => (result ? [{ type: 'Match', id: result._id }, 'Matches'] : ['Matches']),
     }),
     updateScore: builder.mutation<Match, { id: string; score: UpdateScoreRequest }>({
       query: ({ id, score }) => ({
@@ -105,18 +141,229 @@ export const matchApi = createApi({
         method: 'PATCH',
         body: score,
       }),
-      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match'),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
       invalidatesTags: (result, error, { id }) => [{ type: 'Match', id }, 'Matches'],
     }),
+    // Each live scorekeeping change, saved as it happens; the scorekeeper's cached match is already up to date
+    saveLiveScore: builder.mutation<Match, { id: string; score: UpdateScoreRequest }>({
+      query: ({ id, score }) => ({
+        url: `/matches/${id}/score`,
+        method: 'PATCH',
+        body: score,
+      }),
+      extraOptions: { outbox: { label: 'Save live score', invalidates: ['Match'] } },
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
+    }),
     updateStatus: builder.mutation<Match, { id: string; status: string }>({
       query: ({ id, status }) => ({
         url: `/matches/${id}/status`,
         method: 'PATCH',
         body: { status },
       }),
-      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match'),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
       invalidatesTags: (result, error, { id }) => [{ type: 'Match', id }, 'Matches'],
     }),
+    // Everyone following the match gets the new line-ups through `match_updated`
+    saveLineups: builder.mutation<Match, { id: string; data: SaveLineupsRequest }>({
+      query: ({ id, data }) => ({
+        url: `/matches/${id}/lineups`,
+        method: 'PUT',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Match', id }],
+    }),
+    // Organizer only; the token rotates, so the QR code polls for a fresh one
+    getCheckInToken: builder.query<CheckInToken, string>({
+      query: (id) => `/matches/${id}/check-in/token`,
+      transformResponse: (response: ApiResponse<{ checkIn: CheckInToken }>) => unwrapNestedData(response, 'checkIn'),
+    }),
+    checkIn: builder.mutation<Match, { id: string; data: CheckInRequest }>({
+      query: ({ id, data }) => ({
+        url: `/matches/${id}/check-in`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Match', id }],
+    }),
+    // Records everyone not checked in as a no-show and updates their reliability
+    closeCheckIn: builder.mutation<Match, string>({
+      query: (id) => ({
+        url: `/matches/${id}/check-in/close`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
+      invalidatesTags: (result, error, id) => [{ type: 'Match', id }],
+    }),
+    // Completed matches the user still has players to review from
+    getPendingReviews: builder.query<PendingMatchReview[], void>({
+      query: () => '/matches/reviews/pending',
+      transformResponse: (response: ApiResponse<{ pending: PendingMatchReview[] }>) =>
+        unwrapNestedData(response, 'pending'),
+      providesTags: ['Reviews'],
+    }),
+    submitMatchReviews: builder.mutation<MatchReview[], { id: string; data: SubmitMatchReviewsRequest }>({
+      query: ({ id, data }) => ({
+        url: `/matches/${id}/reviews`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ reviews: MatchReview[] }>) =>
+        unwrapNestedData(response, 'reviews'),
+      invalidatesTags: ['Reviews'],
+    }),
+    // Stops the match from being offered for review again
+    skipMatchReview: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/matches/${id}/reviews/skip`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<void>) => unwrapApiResponse(response),
+      invalidatesTags: ['Reviews'],
+    }),
+    // Null until the booker splits the cost of the match's booking
+    getCostSplit: builder.query<CostSplit | null, string>({
+      query: (id) => `/matches/${id}/cost-split`,
+      transformResponse: (response: ApiResponse<{ costSplit: CostSplit | null }>) =>
+        unwrapNestedData(response, 'costSplit'),
+      providesTags: (result, error, id) => [{ type: 'CostSplit', id }],
+    }),
+    // Sends every other player a payment request for their share
+    createCostSplit: builder.mutation<CostSplit, { id: string; data: CreateCostSplitRequest }>({
+      query: ({ id, data }) => ({
+        url: `/matches/${id}/cost-split`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ costSplit: CostSplit }>) =>
+        unwrapNestedData(response, 'costSplit'),
+      invalidatesTags: (result, error, { id }) => [{ type: 'CostSplit', id }],
+    }),
+    // The booker marks a share settled outside the app, or lets it off
+    settleCostShare: builder.mutation<
+      CostSplit,
+      { id: string; userId: string; status: Exclude<CostShareStatus, 'pending'> }
+    >({
+      query: ({ id, userId, status }) => ({
+        url: `/matches/${id}/cost-split/shares/${userId}`,
+        method: 'PATCH',
+        body: { status },
+      }),
+      transformResponse: (response: ApiResponse<{ costSplit: CostSplit }>) =>
+        unwrapNestedData(response, 'costSplit'),
+      invalidatesTags: (result, error, { id }) => [{ type: 'CostSplit', id }],
+    }),
+    getWaitlist: builder.query<MatchWaitlist, string>({
+      query: (id) => `/matches/${id}/waitlist`,
+      transformResponse: (response: ApiResponse<{ waitlist: MatchWaitlist }>) =>
+        unwrapNestedData(response, 'waitlist'),
+      providesTags: (result, error, id) => [{ type: 'Waitlist', id }],
+    }),
+    joinWaitlist: builder.mutation<MatchWaitlist, string>({
+      query: (id) => ({
+        url: `/matches/${id}/waitlist`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<{ waitlist: MatchWaitlist }>) =>
+        unwrapNestedData(response, 'waitlist'),
+      invalidatesTags: (result, error, id) => [{ type: 'Waitlist', id }],
+    }),
+    leaveWaitlist: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/matches/${id}/waitlist`,
+        method: 'DELETE',
+      }),
+      transformResponse: (response: ApiResponse<void>) => unwrapApiResponse(response),
+      invalidatesTags: (result, error, id) => [{ type: 'Waitlist', id }],
+    }),
+    updateWaitlist: builder.mutation<MatchWaitlist, { id: string; data: UpdateWaitlistRequest }>({
+      query: ({ id, data }) => ({
+        url: `/matches/${id}/waitlist`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ waitlist: MatchWaitlist }>) =>
+        unwrapNestedData(response, 'waitlist'),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Waitlist', id }],
+    }),
+    // Holds a spot for the entry and sends the player a notification to confirm it
+    offerWaitlistSpot: builder.mutation<MatchWaitlist, { id: string; entryId: string; expiresAt: string }>({
+      query: ({ id, entryId, expiresAt }) => ({
+        url: `/matches/${id}/waitlist/${entryId}/offer`,
+        method: 'POST',
+        body: { expiresAt },
+      }),
+      transformResponse: (response: ApiResponse<{ waitlist: MatchWaitlist }>) =>
+        unwrapNestedData(response, 'waitlist'),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Waitlist', id }],
+    }),
+    respondToWaitlistOffer: builder.mutation<Match, { id: string; accept: boolean }>({
+      query: ({ id, accept }) => ({
+        url: `/matches/${id}/waitlist/offer`,
+        method: 'PATCH',
+        body: { accept },
+      }),
+      transformResponse: (response: ApiResponse<{ match: Match }>) => unwrapNestedData(response, 'match', matchSchema),
+      invalidatesTags: (result, error, { id }) => [
+        { type: 'Match', id },
+        { type: 'Waitlist', id },
+        'Matches',
+      ],
+    }),
+    getSeries: builder.query<MatchSeries, string>({
+      query: (id) => `/match-series/${id}`,
+      transformResponse: (response: ApiResponse<{ series: MatchSeries }>) => unwrapNestedData(response, 'series'),
+      providesTags: (result, error, id) => [{ type: 'Series', id }],
+    }),
+    createSeries: builder.mutation<MatchSeries, CreateMatchSeriesRequest>({
+      query: (seriesData) => ({
+        url: '/match-series',
+        method: 'POST',
+        body: seriesData,
+      }),
+      transformResponse: (response: ApiResponse<{ series: MatchSeries }>) => unwrapNestedData(response, 'series'),
+      invalidatesTags: ['Matches'],
+    }),
+    // Carries the changes forward to the occurrences from `effectiveFrom` on
+    updateSeries: builder.mutation<MatchSeries, { id: string; data: UpdateMatchSeriesRequest }>({
+      query: ({ id, data }) => ({
+        url: `/match-series/${id}`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ series: MatchSeries }>) => unwrapNestedData(response, 'series'),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Series', id }, 'Match', 'Matches'],
+    }),
+    updateOccurrence: builder.mutation<
+      MatchSeries,
+      { id: string; occurrenceDate: string; data: UpdateOccurrenceRequest }
+    >({
+      query: ({ id, occurrenceDate, data }) => ({
+        url: `/match-series/${id}/occurrences/${occurrenceDate}`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<{ series: MatchSeries }>) => unwrapNestedData(response, 'series'),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Series', id }, 'Match', 'Matches'],
+    }),
+    // Joins the player to every upcoming occurrence and the ones produced later
+    subscribeToSeries: builder.mutation<MatchSeries, string>({
+      query: (id) => ({
+        url: `/match-series/${id}/subscribe`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<{ series: MatchSeries }>) => unwrapNestedData(response, 'series'),
+      invalidatesTags: (result, error, id) => [{ type: 'Series', id }, 'Match', 'Matches'],
+    }),
+    unsubscribeFromSeries: builder.mutation<MatchSeries, string>({
+      query: (id) => ({
+        url: `/match-series/${id}/subscribe`,
+        method: 'DELETE',
+      }),
+      transformResponse: (response: ApiResponse<{ series: MatchSeries }>) => unwrapNestedData(response, 'series'),
+      invalidatesTags: (result, error, id) => [{ type: 'Series', id }, 'Match', 'Matches'],
+    }),
     deleteMatch: builder.mutation<void, string>({
       query: (id) => ({
         url: `/matches/${id}`,
@@ -136,7 +383,32 @@ export const {
   useUpdateMatchMutation,
   useJoinMatchMutation,
   useLeaveMatchMutation,
+  useGetMatchByInviteCodeQuery,
+  useJoinWithInviteCodeMutation,
   useUpdateScoreMutation,
+  useSaveLiveScoreMutation,
   useUpdateStatusMutation,
+  useSaveLineupsMutation,
+  useGetCheckInTokenQuery,
+  useCheckInMutation,
+  useCloseCheckInMutation,
+  useGetPendingReviewsQuery,
+  useSubmitMatchReviewsMutation,
+  useSkipMatchReviewMutation,
+  useGetCostSplitQuery,
+  useCreateCostSplitMutation,
+  useSettleCostShareMutation,
   useDeleteMatchMutation,
+  useGetWaitlistQuery,
+  useJoinWaitlistMutation,
+  useLeaveWaitlistMutation,
+  useUpdateWaitlistMutation,
+  useOfferWaitlistSpotMutation,
+  useRespondToWaitlistOfferMutation,
+  useGetSeriesQuery,
+  useCreateSeriesMutation,
+  useUpdateSeriesMutation,
+  useUpdateOccurrenceMutation,
+  useSubscribeToSeriesMutation,
+  useUnsubscribeFromSeriesMutation,
 } = matchApi;
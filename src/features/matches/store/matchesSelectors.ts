@@ -99,3 +99,5 @@ export const selectMatchesAvailableSpots = createSelector(
       0
     )
 );
+
+export const selectPendingInviteCode = (state: RootState) => state.matches.pendingInviteCode;
@@ -21,6 +21,8 @@ const initialState = matchesAdapter.getInitialState({
     status: null as string | null,
     location: null as string | null,
   },
+  // Invite link opened while signed out, opened once the user signs in
+  pendingInviteCode: null as string | null,
 });
 
 export type MatchesState = typeof initialState;
@@ -54,6 +56,9 @@ const matchesSlice = createSlice({
         location: null,
       };
     },
+    setPendingInviteCode: (state, action: PayloadAction<string | null>) => {
+      state.pendingInviteCode = action.payload;
+    },
   },
 });
 
@@ -67,6 +72,7 @@ export const {
   setError,
   setFilters,
   clearFilters,
+  setPendingInviteCode,
 } = matchesSlice.actions;
 
 export default matchesSlice.reducer;
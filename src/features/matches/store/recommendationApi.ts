@@ -1,9 +1,9 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery } from '@shared/services/baseQuery';
 import { unwrapApiResponse } from '@shared/utils/apiHelpers';
-import { Match } from '@features/matches/types';
+import { listOf, matchSchema, userSchema, venueSchema } from '@shared/services/responseSchemas';
+import { Match, MatchFilters } from '@features/matches/types';
 import { Venue } from '@features/venues/types';
 import { User } from '@features/auth/types';
 
@@ -15,16 +15,7 @@ export interface RecommendationsResponse {
 
 export const recommendationApi = createApi({
   reducerPath: 'recommendationApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
   tagTypes: ['Recommendations'],
   endpoints: (builder) => ({
     getRecommendedMatches: builder.query<Match[], { limit?: number; sport?: string }>({
@@ -32,7 +23,7 @@ export const recommendationApi = createApi({
         url: '/recommendations/matches',
         params,
       }),
-      transformResponse: (response: ApiResponse<Match[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Match[]>) => unwrapApiResponse(response, listOf(matchSchema)),
       providesTags: ['Recommendations'],
     }),
     getRecommendedVenues: builder.query<Venue[], { limit?: number; sport?: string; location?: { latitude: number; longitude: number } }>({
@@ -40,7 +31,7 @@ export const recommendationApi = createApi({
         url: '/recommendations/venues',
         params,
       }),
-      transformResponse: (response: ApiResponse<Venue[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Venue[]>) => unwrapApiResponse(response, listOf(venueSchema)),
       providesTags: ['Recommendations'],
     }),
     getRecommendedPlayers: builder.query<User[], { limit?: number }>({
@@ -48,22 +39,22 @@ export const recommendationApi = createApi({
         url: '/recommendations/players',
         params,
       }),
-      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<User[]>) => unwrapApiResponse(response, listOf(userSchema)),
       providesTags: ['Recommendations'],
     }),
-    getNearbyMatches: builder.query<Match[], { latitude: number; longitude: number; radius?: number; sport?: string }>({
+    getNearbyMatches: builder.query<Match[], MatchFilters & { latitude: number; longitude: number; radius?: number }>({
       query: (params) => ({
         url: '/matches/nearby',
         params,
       }),
-      transformResponse: (response: ApiResponse<Match[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Match[]>) => unwrapApiResponse(response, listOf(matchSchema)),
     }),
     getNearbyVenues: builder.query<Venue[], { latitude: number; longitude: number; radius?: number; sport?: string }>({
       query: (params) => ({
         url: '/venues/nearby',
         params,
       }),
-      transformResponse: (response: ApiResponse<Venue[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Venue[]>) => unwrapApiResponse(response, listOf(venueSchema)),
     }),
   }),
 });
@@ -1,3 +1,5 @@
+import type { UserStats } from '@features/auth/types';
+
 export interface Match {
   _id: string;
   type: 'public' | 'private';
@@ -24,12 +26,20 @@ export interface Match {
   requirements?: {
     minSkillLevel?: string;
     maxSkillLevel?: string;
+    /** Rating limits in the match's sport, taking precedence over skill levels */
+    minRating?: number;
+    maxRating?: number;
     ageRange?: {
       min: number;
       max: number;
     };
   };
   score?: MatchScore;
+  /** Sides picked by the organizer before the match */
+  lineups?: MatchLineups;
+  /** Check-ins, and no-shows once the organizer closes check-in */
+  attendance?: AttendanceRecord[];
+  checkInClosedAt?: string;
   organizer: {
     _id: string;
     firstName: string;
@@ -39,7 +49,21 @@ export interface Match {
     _id: string;
     unreadCount?: number;
   };
+  /** Code behind the match's invite links; private matches only */
   inviteCode?: string;
+  /** Venue booking made for the match, whose cost can be split */
+  bookingId?: string;
+  /** Fee per player in the smallest currency unit; free when absent */
+  price?: {
+    amount: number;
+    currency: string;
+  };
+  /** Set on matches produced by a recurring series */
+  series?: {
+    _id: string;
+    /** Date the series rule put this occurrence on, before any move */
+    occurrenceDate: string;
+  };
   createdAt: string;
   updatedAt: string;
 }
@@ -65,6 +89,7 @@ export interface Participant {
   role?: 'organizer' | 'participant';
   profile?: {
     skillLevel?: string;
+    statistics?: Pick<UserStats, 'matchesPlayed' | 'matchesWon'>;
   };
 }
 
@@ -72,6 +97,214 @@ export interface MatchScore {
   team1?: number;
   team2?: number;
   winner?: string;
+  /** Per set, innings or period breakdown kept by live scorekeeping */
+  breakdown?: ScoreUnit[];
+  /** Points in the game being played (sets and games scoring) */
+  gamePoints?: Record<ScoreSide, string>;
+  /** Side batting and outs so far (innings scoring) */
+  batting?: ScoreSide;
+  outs?: number;
+  /** Point-by-point log the score is replayed from */
+  events?: ScoreEvent[];
+}
+
+export type ScoreSide = 'team1' | 'team2';
+
+export type ScoreEventType = 'point' | 'out' | 'end_period';
+
+/**
+ * One entry in the live scorekeeping log. Points carry a value for sports
+ * that score more than one at a time (runs, baskets).
+ */
+export interface ScoreEvent {
+  id: string;
+  type: ScoreEventType;
+  side?: ScoreSide;
+  value?: number;
+  at: string;
+}
+
+/** A set, innings or period with each side's score in it */
+export interface ScoreUnit {
+  label: string;
+  team1: number;
+  team2: number;
+  winner?: ScoreSide;
+  isComplete: boolean;
+}
+
+export interface ScoreTarget {
+  target: number;
+  winBy: number;
+  /** Score that wins outright however close the other side is */
+  cap?: number;
+}
+
+interface ScoringModelBase {
+  sport: string;
+  /** Label for a set, innings or period */
+  unitLabel: string;
+  /** Label for a single score, e.g. "Point", "Run", "Goal" */
+  pointLabel: string;
+}
+
+/** Tennis, badminton, table tennis, volleyball */
+export interface SetsScoringModel extends ScoringModelBase {
+  structure: 'sets';
+  setsToWin: number;
+  /** Games per set, or points per set when there is no game level */
+  set: ScoreTarget;
+  /** Overrides `set` for the deciding set */
+  decidingSet?: ScoreTarget;
+  /** Points per game; omitted when points count straight towards the set */
+  game?: ScoreTarget & { display?: 'tennis' };
+  /** Tiebreak game played when both sides reach `at` games */
+  tiebreak?: ScoreTarget & { at: number };
+}
+
+/** Cricket, baseball */
+export interface InningsScoringModel extends ScoringModelBase {
+  structure: 'innings';
+  /** Innings each side bats */
+  innings: number;
+  outsPerInnings: number;
+  /** Runs a single scoring event can be worth */
+  runValues: number[];
+  extraInningsOnTie: boolean;
+}
+
+/** Basketball, football */
+export interface PeriodsScoringModel extends ScoringModelBase {
+  structure: 'periods';
+  periods: number;
+  /** Points a single scoring event can be worth */
+  pointValues: number[];
+  overtimeOnTie: boolean;
+}
+
+export type ScoringModel = SetsScoringModel | InningsScoringModel | PeriodsScoringModel;
+
+/** Score replayed from the event log */
+export interface LiveScore {
+  units: ScoreUnit[];
+  /** Sets won, or total runs or points */
+  totals: Record<ScoreSide, number>;
+  gamePoints?: Record<ScoreSide, string>;
+  batting?: ScoreSide;
+  outs?: number;
+  isComplete: boolean;
+  winner?: ScoreSide | 'draw';
+}
+
+export interface TeamLineup {
+  name: string;
+  /** Participant ids */
+  playerIds: string[];
+}
+
+export interface MatchLineups {
+  teams: TeamLineup[];
+  updatedAt: string;
+}
+
+/** Participant ids the balancer must put on the same side */
+export type KeepTogetherPair = [string, string];
+
+export interface SaveLineupsRequest {
+  teams: TeamLineup[];
+}
+
+export type CheckInMethod = 'qr' | 'location';
+
+export interface AttendanceRecord {
+  userId: string;
+  status: 'checked_in' | 'no_show';
+  method?: CheckInMethod;
+  checkedInAt?: string;
+}
+
+/**
+ * Short-lived token in the organizer's check-in QR code. The server rotates
+ * it so a photo of the code cannot be passed around.
+ */
+export interface CheckInToken {
+  token: string;
+  expiresAt: string;
+}
+
+export type CheckInRequest =
+  | { method: 'qr'; token: string }
+  | { method: 'location'; coordinates: { latitude: number; longitude: number } };
+
+/**
+ * A participant's feedback on another participant after the match
+ */
+export interface PlayerReview {
+  revieweeId: string;
+  /** 1–5; left out when the player is flagged as a no-show */
+  sportsmanship?: number;
+  /** 1–5, how well the player's listed skill level matched how they played */
+  skillAccuracy?: number;
+  noShow?: boolean;
+  comment?: string;
+}
+
+export interface MatchReview extends PlayerReview {
+  _id: string;
+  matchId: string;
+  reviewerId: string;
+  createdAt: string;
+}
+
+export interface SubmitMatchReviewsRequest {
+  reviews: PlayerReview[];
+}
+
+/** Completed match the user can still review players from */
+export interface PendingMatchReview {
+  match: Match;
+  /** Participants the user has already reviewed in this match */
+  reviewedIds: string[];
+  closesAt: string;
+}
+
+export type CostSplitMethod = 'equal' | 'custom';
+
+/** Shares the booker marks `paid` were settled outside the app; `waived` ones were let off */
+export type CostShareStatus = 'pending' | 'paid' | 'waived';
+
+export interface CostShare {
+  userId: string;
+  /** Smallest currency unit */
+  amount: number;
+  status: CostShareStatus;
+  paymentIntentId?: string;
+  settledAt?: string;
+}
+
+/**
+ * A match's venue booking cost divided among its participants. The player
+ * who booked is owed the other shares; their own is settled from the start.
+ */
+export interface CostSplit {
+  _id: string;
+  matchId: string;
+  bookingId: string;
+  /** Player who booked and paid the venue */
+  payerId: string;
+  /** Smallest currency unit */
+  total: number;
+  currency: string;
+  method: CostSplitMethod;
+  shares: CostShare[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateCostSplitRequest {
+  bookingId: string;
+  method: CostSplitMethod;
+  shares: Pick<CostShare, 'userId' | 'amount'>[];
 }
 
 export interface CreateMatchRequest {
@@ -96,6 +329,9 @@ export interface CreateMatchRequest {
   requirements?: {
     minSkillLevel?: string;
     maxSkillLevel?: string;
+    /** Rating limits in the match's sport, taking precedence over skill levels */
+    minRating?: number;
+    maxRating?: number;
     ageRange?: {
       min: number;
       max: number;
@@ -107,14 +343,175 @@ export interface UpdateScoreRequest {
   team1?: number;
   team2?: number;
   winner?: string;
+  breakdown?: ScoreUnit[];
+  events?: ScoreEvent[];
+}
+
+export type WaitlistEntryStatus = 'waiting' | 'offered';
+
+export interface WaitlistEntry {
+  _id: string;
+  user: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    username: string;
+  };
+  /** `offered` once promoted: a spot is held until the offer expires */
+  status: WaitlistEntryStatus;
+  joinedAt: string;
+  offerExpiresAt?: string;
+}
+
+export interface MatchWaitlist {
+  matchId: string;
+  /** In queue order */
+  entries: WaitlistEntry[];
+  /** Most players that can queue at once; unlimited when omitted */
+  maxLength?: number;
+}
+
+export interface UpdateWaitlistRequest {
+  /** Ids of the waiting entries in their new order */
+  order?: string[];
+  /** null removes the cap */
+  maxLength?: number | null;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/** RRULE weekday codes */
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * RRULE-style repeat pattern. `count` or `until` ends the series; without
+ * either it repeats indefinitely.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Every n days, weeks or months */
+  interval: number;
+  /** Weekly only; defaults to the weekday of the first occurrence */
+  byWeekday?: Weekday[];
+  /** Total number of occurrences */
+  count?: number;
+  /** Last date (YYYY-MM-DD) an occurrence can fall on */
+  until?: string;
+}
+
+/** Change made to a single occurrence without touching the rest of the series */
+export interface OccurrenceOverride {
+  /** Date (YYYY-MM-DD) the rule puts the occurrence on; identifies it after a move */
+  occurrenceDate: string;
+  cancelled?: boolean;
+  /** New date and time when the occurrence has been moved */
+  schedule?: {
+    date: string;
+    time: string;
+  };
 }
 
+export interface MatchSeries {
+  _id: string;
+  /** Match every occurrence is produced from; `schedule.date` is the first occurrence */
+  template: CreateMatchRequest;
+  recurrence: RecurrenceRule;
+  overrides: OccurrenceOverride[];
+  /** Players joined to every occurrence */
+  subscribers: string[];
+  organizer: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One occurrence of a series with its overrides applied */
+export interface SeriesOccurrence {
+  occurrenceDate: string;
+  date: string;
+  time: string;
+  isCancelled: boolean;
+  isMoved: boolean;
+}
+
+export interface CreateMatchSeriesRequest {
+  template: CreateMatchRequest;
+  recurrence: RecurrenceRule;
+}
+
+/**
+ * Series edits apply to occurrences on or after `effectiveFrom`; earlier
+ * occurrences and per-occurrence overrides are left as they are. A new
+ * `recurrence` restarts the series at `effectiveFrom`.
+ */
+export interface UpdateMatchSeriesRequest {
+  template?: Partial<CreateMatchRequest>;
+  recurrence?: RecurrenceRule;
+  effectiveFrom: string;
+}
+
+export type UpdateOccurrenceRequest = Omit<OccurrenceOverride, 'occurrenceDate'>;
+
 export interface MatchFilters {
+  seriesId?: string;
   sport?: string;
+  /** Comma-separated; any of them */
+  sports?: string;
   status?: string;
   type?: string;
   date?: string;
   location?: string;
+  search?: string;
+  /** Start time window, ISO date-times */
+  from?: string;
+  to?: string;
+  /** Local start time window, `HH:mm`, with the offset from UTC in minutes */
+  fromTime?: string;
+  toTime?: string;
+  utcOffset?: number;
+  /** Matches whose skill requirements overlap this window */
+  minSkillLevel?: string;
+  maxSkillLevel?: string;
+  openSpots?: boolean;
+  /** Fee per player in the smallest currency unit */
+  maxPrice?: number;
+  sort?: MatchSort;
+  order?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
+
+export type MatchSort = 'startTime' | 'distance' | 'price' | 'openSpots';
+
+export type DiscoveryDateRange = 'today' | 'tomorrow' | 'weekend' | 'week' | 'month';
+
+export type DiscoveryTimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+/**
+ * What the user is looking for on the matches screen. Dates are kept
+ * relative so saved presets stay current.
+ */
+export interface MatchDiscoveryFilters {
+  search?: string;
+  sports: string[];
+  dateRange?: DiscoveryDateRange;
+  timeOfDay?: DiscoveryTimeOfDay;
+  /** Kilometres from the user's current location */
+  radiusKm?: number;
+  minSkillLevel?: string;
+  maxSkillLevel?: string;
+  openSpotsOnly: boolean;
+  /** Fee per player in the smallest currency unit; 0 for free matches only */
+  maxPrice?: number;
+  sort: MatchSort;
+}
+
+export interface MatchFilterPreset {
+  id: string;
+  name: string;
+  filters: MatchDiscoveryFilters;
+  createdAt: string;
+}
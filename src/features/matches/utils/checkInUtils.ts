@@ -0,0 +1,96 @@
+import { UserStats } from '@features/auth/types';
+import { AttendanceRecord, Match } from '../types';
+
+/**
+ * Check-in
+ * Players check in by scanning the organizer's QR code, or automatically when
+ * their location puts them at the venue. Either way only while check-in is
+ * open around the start of the match.
+ */
+
+export const CHECK_IN_OPENS_MINUTES_BEFORE = 30;
+export const CHECK_IN_CLOSES_MINUTES_AFTER = 30;
+
+/** How close to the venue counts as arrived */
+export const CHECK_IN_RADIUS_METERS = 200;
+
+/** How often the organizer's QR code fetches a fresh token */
+export const CHECK_IN_TOKEN_REFRESH_MS = 30 * 1000;
+
+const CHECK_IN_CODE_PREFIX = 'sportification://check-in?';
+
+/** Attended matches every player starts with, so one early no-show does not sink the score */
+const RELIABILITY_PRIOR_MATCHES = 2;
+
+export const getMatchStart = (match: Pick<Match, 'schedule'>): Date =>
+  new Date(`${match.schedule.date.slice(0, 10)}T${match.schedule.time}`);
+
+export const getCheckInWindow = (match: Pick<Match, 'schedule'>): { opensAt: Date; closesAt: Date } => {
+  const start = getMatchStart(match).getTime();
+  return {
+    opensAt: new Date(start - CHECK_IN_OPENS_MINUTES_BEFORE * 60 * 1000),
+    closesAt: new Date(start + CHECK_IN_CLOSES_MINUTES_AFTER * 60 * 1000),
+  };
+};
+
+export const isCheckInOpen = (match: Pick<Match, 'schedule'>, now: Date = new Date()): boolean => {
+  const { opensAt, closesAt } = getCheckInWindow(match);
+  return now >= opensAt && now <= closesAt;
+};
+
+export const getAttendanceRecord = (
+  match: Pick<Match, 'attendance'>,
+  userId: string | null | undefined
+): AttendanceRecord | undefined => (userId ? match.attendance?.find(record => record.userId === userId) : undefined);
+
+export const isCheckedIn = (match: Pick<Match, 'attendance'>, userId: string | null | undefined): boolean =>
+  getAttendanceRecord(match, userId)?.status === 'checked_in';
+
+/**
+ * Participants who have not checked in
+ */
+export const getAbsentParticipantIds = (match: Pick<Match, 'participants' | 'attendance'>): string[] =>
+  match.participants.map(participant => participant._id).filter(id => !isCheckedIn(match, id));
+
+export const getVenueCoordinates = (match: Pick<Match, 'venue'>): { latitude: number; longitude: number } | null => {
+  const coordinates = match.venue?.location.coordinates;
+  return coordinates ? { latitude: coordinates.lat, longitude: coordinates.lng } : null;
+};
+
+/**
+ * Contents of the organizer's QR code
+ */
+export const encodeCheckInCode = (matchId: string, token: string): string =>
+  `${CHECK_IN_CODE_PREFIX}match=${encodeURIComponent(matchId)}&token=${encodeURIComponent(token)}`;
+
+/**
+ * Match and token from a scanned code, or null if it is not a check-in code
+ */
+export const parseCheckInCode = (code: string): { matchId: string; token: string } | null => {
+  if (!code.startsWith(CHECK_IN_CODE_PREFIX)) {
+    return null;
+  }
+
+  const params = Object.fromEntries(
+    code
+      .slice(CHECK_IN_CODE_PREFIX.length)
+      .split('&')
+      .map(pair => pair.split('=').map(decodeURIComponent))
+  );
+  return params.match && params.token ? { matchId: params.match, token: params.token } : null;
+};
+
+/**
+ * Share of joined matches the player turned up to, as a percentage, or null
+ * before any attendance has been recorded
+ */
+export const getReliabilityScore = (stats?: Pick<UserStats, 'matchesAttended' | 'noShows'>): number | null => {
+  const attended = stats?.matchesAttended ?? 0;
+  const noShows = stats?.noShows ?? 0;
+  if (attended + noShows === 0) {
+    return null;
+  }
+  return Math.round(
+    (100 * (attended + RELIABILITY_PRIOR_MATCHES)) / (attended + noShows + RELIABILITY_PRIOR_MATCHES)
+  );
+};
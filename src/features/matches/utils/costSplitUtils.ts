@@ -0,0 +1,125 @@
+import type { Booking } from '@features/venues/types';
+import { CostShare, CostSplit, CreateCostSplitRequest, Match } from '../types';
+
+/**
+ * Cost splitting
+ * Divides a match's venue booking between its participants, equally or by
+ * custom amounts, and sums up who has settled. Amounts are in the smallest
+ * currency unit.
+ */
+
+export interface CostSettlement {
+  /** Paid or waived, the booker's own share included */
+  settled: number;
+  outstanding: number;
+  settledCount: number;
+  shareCount: number;
+}
+
+/** Booking prices are in the major unit */
+export const getBookingCost = (booking: Pick<Booking, 'pricing'>): number =>
+  Math.round(booking.pricing.totalCost * 100);
+
+/**
+ * Amount typed in the major unit (`12.50`) in the smallest unit, or null if
+ * it is not an amount
+ */
+export const parseCostAmount = (text: string): number | null => {
+  const trimmed = text.trim().replace(',', '.');
+  if (!/^\d+(\.\d{0,2})?$/.test(trimmed)) {
+    return null;
+  }
+  return Math.round(Number(trimmed) * 100);
+};
+
+/**
+ * Equal shares of the total. What does not divide evenly goes to the payer
+ * first, then to the players listed first, a unit each.
+ */
+export const splitCostEqually = (
+  total: number,
+  userIds: string[],
+  payerId?: string
+): CreateCostSplitRequest['shares'] => {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const ordered = payerId && userIds.includes(payerId) ? [payerId, ...userIds.filter(id => id !== payerId)] : userIds;
+  const share = Math.floor(total / ordered.length);
+  const remainder = total - share * ordered.length;
+  const amounts = new Map(ordered.map((userId, index) => [userId, share + (index < remainder ? 1 : 0)]));
+
+  return userIds.map(userId => ({ userId, amount: amounts.get(userId)! }));
+};
+
+/**
+ * Why the booking's cost cannot be split this way, or null if it can
+ */
+export const getCostSplitError = (
+  match: Pick<Match, '_id' | 'participants' | 'status'>,
+  booking: Pick<Booking, 'user' | 'matchId' | 'status' | 'pricing'>,
+  userId: string,
+  shares: CreateCostSplitRequest['shares']
+): string | null => {
+  if (booking.user._id !== userId) {
+    return 'Only the player who booked can split the cost';
+  }
+  if (booking.matchId !== match._id) {
+    return 'This booking is not for this match';
+  }
+  if (booking.status === 'cancelled' || match.status === 'cancelled') {
+    return 'Cannot split the cost of a cancelled booking';
+  }
+
+  const participantIds = new Set(match.participants.map(participant => participant._id));
+  const seen = new Set<string>();
+  for (const share of shares) {
+    if (!participantIds.has(share.userId)) {
+      return 'Costs can only be shared with players in the match';
+    }
+    if (seen.has(share.userId)) {
+      return 'Each player can only have one share';
+    }
+    seen.add(share.userId);
+    if (!Number.isInteger(share.amount) || share.amount < 0) {
+      return 'Shares must be positive amounts';
+    }
+  }
+  if (![...seen].some(id => id !== userId)) {
+    return 'Share the cost with at least one other player';
+  }
+
+  const total = getBookingCost(booking);
+  const assigned = shares.reduce((sum, share) => sum + share.amount, 0);
+  if (assigned !== total) {
+    return assigned < total ? 'Shares add up to less than the booking cost' : 'Shares add up to more than the booking cost';
+  }
+
+  return null;
+};
+
+export const getCostShare = (split: CostSplit | null | undefined, userId: string | null | undefined): CostShare | undefined =>
+  split?.shares.find(share => share.userId === userId);
+
+/**
+ * Whether the user still owes the booker for their share
+ */
+export const canPayCostShare = (split: CostSplit | null | undefined, userId: string | null | undefined): boolean => {
+  const share = getCostShare(split, userId);
+  return Boolean(share) && split!.payerId !== userId && share!.status === 'pending' && share!.amount > 0;
+};
+
+export const getCostSettlement = (split: CostSplit): CostSettlement => {
+  // The booker paid the venue, so their own share never shows as owed
+  const isSettled = (share: CostShare) => share.status !== 'pending' || share.userId === split.payerId;
+  const settledShares = split.shares.filter(isSettled);
+  const settled = settledShares.reduce((sum, share) => sum + share.amount, 0);
+
+  return {
+    settled,
+    outstanding: split.shares.reduce((sum, share) => sum + share.amount, 0) - settled,
+    settledCount: settledShares.length,
+    shareCount: split.shares.length,
+  };
+};
@@ -0,0 +1,274 @@
+import { addDays, endOfDay, isSunday, isWeekend, nextSaturday, nextSunday, startOfDay } from 'date-fns';
+import { SPORTS } from '@core/constants';
+import {
+  DiscoveryDateRange,
+  DiscoveryTimeOfDay,
+  Match,
+  MatchDiscoveryFilters,
+  MatchFilterPreset,
+  MatchFilters,
+  MatchSort,
+} from '../types';
+import { SKILL_RATINGS } from './teamBalanceUtils';
+
+/**
+ * Match discovery
+ * Turns what the user picks on the matches screen into the matches query,
+ * maps it to and from the chips of the sort and filter sheet, and checks
+ * saved filter presets.
+ */
+
+export const DISCOVERY_PAGE_SIZE = 20;
+
+export const DISCOVERY_RADII_KM = [5, 10, 25, 50];
+
+/** Fee ceilings in the smallest currency unit */
+export const DISCOVERY_PRICE_CEILINGS = [0, 500, 1000, 2000];
+
+export const MAX_FILTER_PRESETS = 10;
+
+export const FILTER_PRESET_NAME_MAX_LENGTH = 30;
+
+export const DEFAULT_DISCOVERY_FILTERS: MatchDiscoveryFilters = {
+  sports: [],
+  openSpotsOnly: false,
+  sort: 'startTime',
+};
+
+/** Local start hours, the end hour excluded */
+export const TIME_OF_DAY_HOURS: Record<DiscoveryTimeOfDay, [number, number]> = {
+  morning: [6, 12],
+  afternoon: [12, 17],
+  evening: [17, 23],
+};
+
+export const MATCH_SORT_OPTIONS: { id: MatchSort; label: string; field: MatchSort; direction: 'asc' | 'desc' }[] = [
+  { id: 'startTime', label: 'Soonest', field: 'startTime', direction: 'asc' },
+  { id: 'distance', label: 'Nearest', field: 'distance', direction: 'asc' },
+  { id: 'price', label: 'Cheapest', field: 'price', direction: 'asc' },
+  { id: 'openSpots', label: 'Most spots left', field: 'openSpots', direction: 'desc' },
+];
+
+/** Picking this clears a single-choice filter */
+const ANY = 'any';
+
+const SKILL_LEVELS = Object.keys(SKILL_RATINGS);
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const option = (category: string, value: string | number, label: string) => ({
+  id: `${category}:${value}`,
+  label,
+  value: String(value),
+  category,
+});
+
+/** Filter chips for the sort and filter sheet; option ids are `category:value` */
+export const DISCOVERY_FILTER_CATEGORIES = [
+  {
+    id: 'sport',
+    label: 'Sports',
+    multiSelect: true,
+    options: SPORTS.map(sport => option('sport', sport.name, sport.name)),
+  },
+  {
+    id: 'date',
+    label: 'When',
+    options: [
+      option('date', ANY, 'Any time'),
+      option('date', 'today', 'Today'),
+      option('date', 'tomorrow', 'Tomorrow'),
+      option('date', 'weekend', 'This weekend'),
+      option('date', 'week', 'Next 7 days'),
+      option('date', 'month', 'Next 30 days'),
+    ],
+  },
+  {
+    id: 'time',
+    label: 'Time of day',
+    options: [
+      option('time', ANY, 'Any'),
+      option('time', 'morning', 'Mornings'),
+      option('time', 'afternoon', 'Afternoons'),
+      option('time', 'evening', 'Evenings'),
+    ],
+  },
+  {
+    id: 'distance',
+    label: 'Distance',
+    options: [option('distance', ANY, 'Anywhere'), ...DISCOVERY_RADII_KM.map(km => option('distance', km, `Within ${km} km`))],
+  },
+  {
+    id: 'skillMin',
+    label: 'Lowest skill level',
+    options: [option('skillMin', ANY, 'Any'), ...SKILL_LEVELS.map(level => option('skillMin', level, capitalize(level)))],
+  },
+  {
+    id: 'skillMax',
+    label: 'Highest skill level',
+    options: [option('skillMax', ANY, 'Any'), ...SKILL_LEVELS.map(level => option('skillMax', level, capitalize(level)))],
+  },
+  {
+    id: 'spots',
+    label: 'Availability',
+    multiSelect: true,
+    options: [option('spots', 'open', 'Open spots only')],
+  },
+  {
+    id: 'price',
+    label: 'Price per player',
+    options: [
+      option('price', ANY, 'Any price'),
+      ...DISCOVERY_PRICE_CEILINGS.map(amount => option('price', amount, amount === 0 ? 'Free' : `Up to ${amount / 100}`)),
+    ],
+  },
+];
+
+/**
+ * Chips selected for the filters; the sheet's own state
+ */
+export const getFilterIds = (filters: MatchDiscoveryFilters): string[] => {
+  const ids = filters.sports.map(sport => `sport:${sport}`);
+  if (filters.dateRange) ids.push(`date:${filters.dateRange}`);
+  if (filters.timeOfDay) ids.push(`time:${filters.timeOfDay}`);
+  if (filters.radiusKm) ids.push(`distance:${filters.radiusKm}`);
+  if (filters.minSkillLevel) ids.push(`skillMin:${filters.minSkillLevel}`);
+  if (filters.maxSkillLevel) ids.push(`skillMax:${filters.maxSkillLevel}`);
+  if (filters.openSpotsOnly) ids.push('spots:open');
+  if (filters.maxPrice !== undefined) ids.push(`price:${filters.maxPrice}`);
+  return ids;
+};
+
+/**
+ * Filters with the chips picked in the sheet; search and sort are kept
+ */
+export const applyFilterIds = (filters: MatchDiscoveryFilters, ids: string[]): MatchDiscoveryFilters => {
+  const values = (category: string) =>
+    ids
+      .filter(id => id.startsWith(`${category}:`))
+      .map(id => id.slice(category.length + 1))
+      .filter(value => value !== ANY);
+  const first = (category: string): string | undefined => values(category)[0];
+
+  const radius = first('distance');
+  const price = first('price');
+
+  return {
+    search: filters.search,
+    sort: filters.sort,
+    sports: values('sport'),
+    dateRange: first('date') as DiscoveryDateRange | undefined,
+    timeOfDay: first('time') as DiscoveryTimeOfDay | undefined,
+    radiusKm: radius ? Number(radius) : undefined,
+    minSkillLevel: first('skillMin'),
+    maxSkillLevel: first('skillMax'),
+    openSpotsOnly: values('spots').includes('open'),
+    maxPrice: price !== undefined ? Number(price) : undefined,
+  };
+};
+
+export const countActiveFilters = (filters: MatchDiscoveryFilters): number => getFilterIds(filters).length;
+
+export const isSameDiscoveryFilters = (a: MatchDiscoveryFilters, b: MatchDiscoveryFilters): boolean =>
+  a.sort === b.sort &&
+  (a.search ?? '') === (b.search ?? '') &&
+  getFilterIds(a).sort().join() === getFilterIds(b).sort().join();
+
+/**
+ * Why the skill window matches nothing, or null if it is fine
+ */
+export const getSkillWindowError = (minSkillLevel?: string, maxSkillLevel?: string): string | null => {
+  if (minSkillLevel && maxSkillLevel && SKILL_RATINGS[minSkillLevel] > SKILL_RATINGS[maxSkillLevel]) {
+    return 'The lowest skill level cannot be above the highest';
+  }
+  return null;
+};
+
+/**
+ * Start and end of a relative date range, from now
+ */
+export const getDiscoveryDateWindow = (range: DiscoveryDateRange, now: Date = new Date()): { from: Date; to: Date } => {
+  switch (range) {
+    case 'today':
+      return { from: now, to: endOfDay(now) };
+    case 'tomorrow': {
+      const tomorrow = addDays(now, 1);
+      return { from: startOfDay(tomorrow), to: endOfDay(tomorrow) };
+    }
+    case 'weekend':
+      return {
+        from: isWeekend(now) ? now : startOfDay(nextSaturday(now)),
+        to: endOfDay(isSunday(now) ? now : nextSunday(now)),
+      };
+    case 'week':
+      return { from: now, to: endOfDay(addDays(now, 6)) };
+    case 'month':
+      return { from: now, to: endOfDay(addDays(now, 29)) };
+  }
+};
+
+const toTime = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * Query for the matches endpoints, without paging. Sorting by distance needs
+ * the user's location and falls back to the soonest matches without it.
+ */
+export const toMatchQuery = (
+  filters: MatchDiscoveryFilters,
+  { now = new Date(), hasLocation = false }: { now?: Date; hasLocation?: boolean } = {}
+): MatchFilters => {
+  const sort = filters.sort === 'distance' && !hasLocation ? 'startTime' : filters.sort;
+  const query: MatchFilters = { sort, order: sort === 'openSpots' ? 'desc' : 'asc' };
+
+  const search = filters.search?.trim();
+  if (search) query.search = search;
+  if (filters.sports.length > 0) query.sports = filters.sports.join(',');
+
+  if (filters.dateRange) {
+    const { from, to } = getDiscoveryDateWindow(filters.dateRange, now);
+    query.from = from.toISOString();
+    query.to = to.toISOString();
+  }
+  if (filters.timeOfDay) {
+    const [fromHour, toHour] = TIME_OF_DAY_HOURS[filters.timeOfDay];
+    query.fromTime = toTime(fromHour);
+    query.toTime = toTime(toHour);
+    query.utcOffset = -now.getTimezoneOffset();
+  }
+
+  if (filters.minSkillLevel) query.minSkillLevel = filters.minSkillLevel;
+  if (filters.maxSkillLevel) query.maxSkillLevel = filters.maxSkillLevel;
+  if (filters.openSpotsOnly) query.openSpots = true;
+  if (filters.maxPrice !== undefined) query.maxPrice = filters.maxPrice;
+
+  return query;
+};
+
+/**
+ * The next page appended, skipping matches already listed when new ones
+ * shifted the pages
+ */
+export const mergeMatchPages = (current: Match[], next: Match[]): Match[] => {
+  const seen = new Set(current.map(match => match._id));
+  return [...current, ...next.filter(match => !seen.has(match._id))];
+};
+
+/**
+ * Why the filters cannot be saved under this name, or null if they can
+ */
+export const getFilterPresetError = (name: string, presets: MatchFilterPreset[]): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Give the preset a name';
+  }
+  if (trimmed.length > FILTER_PRESET_NAME_MAX_LENGTH) {
+    return `Preset names can be up to ${FILTER_PRESET_NAME_MAX_LENGTH} characters`;
+  }
+  if (presets.some(preset => preset.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `You already have a preset called ${trimmed}`;
+  }
+  if (presets.length >= MAX_FILTER_PRESETS) {
+    return `You can save up to ${MAX_FILTER_PRESETS} presets`;
+  }
+  return null;
+};
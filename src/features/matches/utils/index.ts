@@ -0,0 +1,9 @@
+export * from './scoringUtils';
+export * from './waitlistUtils';
+export * from './recurrenceUtils';
+export * from './teamBalanceUtils';
+export * from './checkInUtils';
+export * from './inviteUtils';
+export * from './reviewUtils';
+export * from './costSplitUtils';
+export * from './discoveryUtils';
@@ -0,0 +1,43 @@
+import { LINKING_CONFIG } from '@core/config/linking';
+
+/**
+ * Invite links
+ * Private matches are shared as links carrying the match's invite code, in
+ * the app scheme form and the https form that opens the app when installed.
+ */
+
+export const MATCH_INVITE_PATH = 'match/join';
+
+const INVITE_CODE_PATTERN = /^[A-Za-z0-9_-]{4,64}$/;
+
+const getInvitePrefixes = (): string[] => [
+  `${LINKING_CONFIG.SCHEME}://${MATCH_INVITE_PATH}/`,
+  `${LINKING_CONFIG.WEB_URL.replace(/\/+$/, '')}/${MATCH_INVITE_PATH}/`,
+];
+
+export const isValidInviteCode = (code: string): boolean => INVITE_CODE_PATTERN.test(code);
+
+/** App scheme link that opens the invite straight in the app */
+export const buildInviteLink = (inviteCode: string): string =>
+  `${getInvitePrefixes()[0]}${encodeURIComponent(inviteCode)}`;
+
+/** https link for sharing outside the app; opens the app when it is installed */
+export const buildInviteWebLink = (inviteCode: string): string =>
+  `${getInvitePrefixes()[1]}${encodeURIComponent(inviteCode)}`;
+
+/**
+ * Invite code from either form of invite link, or null if the URL is not one
+ */
+export const parseInviteLink = (url: string): string | null => {
+  const prefix = getInvitePrefixes().find(candidate => url.startsWith(candidate));
+  if (!prefix) {
+    return null;
+  }
+
+  try {
+    const code = decodeURIComponent(url.slice(prefix.length).split(/[?#/]/)[0]);
+    return isValidInviteCode(code) ? code : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,153 @@
+import { addDays, addMonths, addWeeks, format, getDate, parseISO, startOfWeek } from 'date-fns';
+import { MatchSeries, OccurrenceOverride, RecurrenceRule, SeriesOccurrence, Weekday } from '../types';
+
+/**
+ * Recurring match series
+ * The series rule is expanded into occurrence dates starting from the first
+ * match's date. Overrides then cancel or move single occurrences, keyed by the
+ * date the rule gave them so a moved occurrence keeps its identity.
+ */
+
+/** Indexed by `Date.getDay()` */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+/** Days after Monday, so weekly dates come out in week order */
+const weekOffset = (day: Weekday): number => (WEEKDAYS.indexOf(day) + 6) % 7;
+
+/** Stops expanding a rule whose window is unreasonably far away */
+const MAX_PERIODS = 1000;
+
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const getWeekday = (date: string): Weekday => WEEKDAYS[parseISO(date).getDay()];
+
+/**
+ * Weekdays a weekly rule falls on, Monday first
+ */
+export const getRuleWeekdays = (rule: RecurrenceRule, startDate: string): Weekday[] =>
+  (rule.byWeekday?.length ? [...rule.byWeekday] : [getWeekday(startDate)]).sort(
+    (a, b) => weekOffset(a) - weekOffset(b)
+  );
+
+const getPeriodDates = (rule: RecurrenceRule, startDate: string, period: number): Date[] => {
+  const start = parseISO(startDate);
+  const step = period * Math.max(1, rule.interval);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return [addDays(start, step)];
+    case 'weekly': {
+      const weekStart = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), step);
+      return getRuleWeekdays(rule, startDate).map(day => addDays(weekStart, weekOffset(day)));
+    }
+    case 'monthly': {
+      const date = addMonths(start, step);
+      // As in RRULE, months without the start's day (e.g. the 31st) are skipped
+      return getDate(date) === getDate(start) ? [date] : [];
+    }
+  }
+};
+
+/**
+ * Occurrence dates (YYYY-MM-DD) from `startDate` up to and including `to`
+ */
+export const getOccurrenceDates = (rule: RecurrenceRule, startDate: string, to: string): string[] => {
+  const dates: string[] = [];
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of getPeriodDates(rule, startDate, period)) {
+      const key = toDateKey(date);
+      if (key < startDate) continue;
+      if (key > to || (rule.until && key > rule.until) || (rule.count !== undefined && dates.length >= rule.count)) {
+        return dates;
+      }
+      dates.push(key);
+    }
+  }
+  return dates;
+};
+
+export const isOccurrenceDate = (rule: RecurrenceRule, startDate: string, date: string): boolean =>
+  getOccurrenceDates(rule, startDate, date).includes(date);
+
+const applyOverride = (
+  series: MatchSeries,
+  occurrenceDate: string,
+  override: OccurrenceOverride | undefined
+): SeriesOccurrence => ({
+  occurrenceDate,
+  date: override?.schedule?.date ?? occurrenceDate,
+  time: override?.schedule?.time ?? series.template.schedule.time,
+  isCancelled: Boolean(override?.cancelled),
+  isMoved: Boolean(override?.schedule),
+});
+
+/**
+ * Occurrences that take place between `from` and `to` once cancellations
+ * and moves are applied, in the order they are played
+ */
+export const getSeriesOccurrences = (series: MatchSeries, from: string, to: string): SeriesOccurrence[] => {
+  const overrides = new Map(series.overrides.map(override => [override.occurrenceDate, override]));
+  // Expand far enough to reach occurrences moved back into the window
+  const until = series.overrides.reduce(
+    (last, override) => (override.occurrenceDate > last ? override.occurrenceDate : last),
+    to
+  );
+
+  return getOccurrenceDates(series.recurrence, series.template.schedule.date, until)
+    .map(occurrenceDate => applyOverride(series, occurrenceDate, overrides.get(occurrenceDate)))
+    .filter(occurrence => occurrence.date >= from && occurrence.date <= to)
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+};
+
+/**
+ * RRULE value for the rule, e.g. `FREQ=WEEKLY;INTERVAL=1;BYDAY=TU`
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+};
+
+const joinNames = (names: string[]): string =>
+  names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+
+/**
+ * Readable summary, e.g. "Every Tuesday" or "Every 2 weeks on Monday and Thursday, 10 times"
+ */
+export const describeRecurrence = (rule: RecurrenceRule, startDate: string): string => {
+  const { interval } = rule;
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      text = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekly': {
+      const days = joinNames(getRuleWeekdays(rule, startDate).map(day => WEEKDAY_NAMES[day]));
+      text = interval === 1 ? `Every ${days}` : `Every ${interval} weeks on ${days}`;
+      break;
+    }
+    case 'monthly':
+      text = `${interval === 1 ? 'Every month' : `Every ${interval} months`} on day ${getDate(parseISO(startDate))}`;
+      break;
+  }
+
+  if (rule.count !== undefined) return `${text}, ${rule.count} times`;
+  if (rule.until) return `${text}, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  return text;
+};
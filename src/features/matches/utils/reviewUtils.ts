@@ -0,0 +1,153 @@
+import { Match, MatchReview, PendingMatchReview, PlayerReview } from '../types';
+import { isCheckedIn } from './checkInUtils';
+
+/**
+ * Post-match reviews
+ * Participants rate each other's sportsmanship and how accurate their listed
+ * skill level was, and flag no-shows. The server aggregates reviews the same
+ * way as `getReviewSummary`, damping outliers so one grudge does not define
+ * a player.
+ */
+
+export const REVIEW_SCORE_MIN = 1;
+export const REVIEW_SCORE_MAX = 5;
+export const REVIEW_COMMENT_MAX_LENGTH = 500;
+
+/** Reviews stay open this long after the match completes */
+export const REVIEW_WINDOW_DAYS = 7;
+
+/** Neutral reviews every player starts with */
+const REVIEW_PRIOR_SCORE = 4;
+const REVIEW_PRIOR_WEIGHT = 3;
+
+/** Scores this far from the player's median count for a quarter of a review */
+const OUTLIER_DISTANCE = 2;
+const OUTLIER_WEIGHT = 0.25;
+
+export interface ReviewSummary {
+  averageRating: number | null;
+  skillAccuracy: number | null;
+  reviewCount: number;
+  noShowReports: number;
+}
+
+const isValidScore = (score?: number): boolean =>
+  score !== undefined && Number.isInteger(score) && score >= REVIEW_SCORE_MIN && score <= REVIEW_SCORE_MAX;
+
+export const isReviewOpen = (pending: Pick<PendingMatchReview, 'closesAt'>, now: Date = new Date()): boolean =>
+  now <= new Date(pending.closesAt);
+
+/**
+ * Other participants the reviewer has not reviewed yet
+ */
+export const getReviewableParticipants = (
+  match: Pick<Match, 'participants'>,
+  reviewerId: string | null | undefined,
+  reviewedIds: string[] = []
+): Match['participants'] =>
+  match.participants.filter(participant => participant._id !== reviewerId && !reviewedIds.includes(participant._id));
+
+/**
+ * Why the reviews cannot be submitted, or null if they can. Each player is
+ * reviewed at most once per match by each other player.
+ */
+export const getReviewError = (
+  match: Match,
+  reviewerId: string,
+  reviews: PlayerReview[],
+  reviewedIds: string[] = []
+): string | null => {
+  if (match.status !== 'completed') {
+    return 'Players can be reviewed once the match is completed';
+  }
+  if (!match.participants.some(participant => participant._id === reviewerId)) {
+    return 'Only players in the match can review it';
+  }
+  if (reviews.length === 0) {
+    return 'Review at least one player';
+  }
+
+  const seen = new Set<string>();
+  for (const review of reviews) {
+    const reviewee = match.participants.find(participant => participant._id === review.revieweeId);
+    if (!reviewee || reviewee._id === reviewerId) {
+      return 'You can only review the other players in the match';
+    }
+    if (seen.has(reviewee._id) || reviewedIds.includes(reviewee._id)) {
+      return `You have already reviewed ${reviewee.firstName}`;
+    }
+    seen.add(reviewee._id);
+
+    if (review.noShow) {
+      if (isCheckedIn(match, reviewee._id)) {
+        return `${reviewee.firstName} checked in, so cannot be flagged as a no-show`;
+      }
+    } else if (!isValidScore(review.sportsmanship) || !isValidScore(review.skillAccuracy)) {
+      return `Rate ${reviewee.firstName}'s sportsmanship and skill from ${REVIEW_SCORE_MIN} to ${REVIEW_SCORE_MAX}`;
+    }
+    if ((review.comment?.length ?? 0) > REVIEW_COMMENT_MAX_LENGTH) {
+      return `Comments are limited to ${REVIEW_COMMENT_MAX_LENGTH} characters`;
+    }
+  }
+
+  return null;
+};
+
+const getMedian = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Weighted average of the scores to one decimal, or null without any.
+ * Scores far from the median count a quarter as much, and the neutral prior
+ * keeps a player's first few reviews from swinging it to an extreme.
+ */
+export const getDampenedAverage = (scores: number[]): number | null => {
+  if (scores.length === 0) {
+    return null;
+  }
+
+  const median = getMedian(scores);
+  let total = REVIEW_PRIOR_SCORE * REVIEW_PRIOR_WEIGHT;
+  let weight = REVIEW_PRIOR_WEIGHT;
+  scores.forEach(score => {
+    const scoreWeight = Math.abs(score - median) >= OUTLIER_DISTANCE ? OUTLIER_WEIGHT : 1;
+    total += score * scoreWeight;
+    weight += scoreWeight;
+  });
+
+  return Math.round((total / weight) * 10) / 10;
+};
+
+/**
+ * Latest review from each reviewer in each match, so resubmitting never
+ * counts twice
+ */
+export const getLatestReviews = (reviews: MatchReview[]): MatchReview[] => {
+  const latest = new Map<string, MatchReview>();
+  reviews.forEach(review => {
+    const key = `${review.matchId}:${review.reviewerId}:${review.revieweeId}`;
+    const existing = latest.get(key);
+    if (!existing || review.createdAt > existing.createdAt) {
+      latest.set(key, review);
+    }
+  });
+  return [...latest.values()];
+};
+
+/**
+ * A player's review aggregates from the reviews they received
+ */
+export const getReviewSummary = (reviews: MatchReview[]): ReviewSummary => {
+  const counted = getLatestReviews(reviews);
+  const rated = counted.filter(review => !review.noShow);
+
+  return {
+    averageRating: getDampenedAverage(rated.map(review => review.sportsmanship!).filter(isValidScore)),
+    skillAccuracy: getDampenedAverage(rated.map(review => review.skillAccuracy!).filter(isValidScore)),
+    reviewCount: rated.length,
+    noShowReports: counted.length - rated.length,
+  };
+};
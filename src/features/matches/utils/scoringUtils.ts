@@ -0,0 +1,367 @@
+import {
+  InningsScoringModel,
+  LiveScore,
+  MatchScore,
+  PeriodsScoringModel,
+  ScoreEvent,
+  ScoreEventType,
+  ScoreSide,
+  ScoreTarget,
+  ScoreUnit,
+  ScoringModel,
+  SetsScoringModel,
+} from '../types';
+
+/**
+ * Live scorekeeping
+ * The score is never stored as running totals: it is replayed from the
+ * point-by-point event log, so undo is just dropping the last event.
+ */
+
+const TENNIS: SetsScoringModel = {
+  sport: 'Tennis',
+  structure: 'sets',
+  unitLabel: 'Set',
+  pointLabel: 'Point',
+  setsToWin: 2,
+  set: { target: 6, winBy: 2 },
+  game: { target: 4, winBy: 2, display: 'tennis' },
+  tiebreak: { at: 6, target: 7, winBy: 2 },
+};
+
+const BADMINTON: SetsScoringModel = {
+  sport: 'Badminton',
+  structure: 'sets',
+  unitLabel: 'Game',
+  pointLabel: 'Point',
+  setsToWin: 2,
+  set: { target: 21, winBy: 2, cap: 30 },
+};
+
+const TABLE_TENNIS: SetsScoringModel = {
+  sport: 'Table Tennis',
+  structure: 'sets',
+  unitLabel: 'Game',
+  pointLabel: 'Point',
+  setsToWin: 3,
+  set: { target: 11, winBy: 2 },
+};
+
+const VOLLEYBALL: SetsScoringModel = {
+  sport: 'Volleyball',
+  structure: 'sets',
+  unitLabel: 'Set',
+  pointLabel: 'Point',
+  setsToWin: 3,
+  set: { target: 25, winBy: 2 },
+  decidingSet: { target: 15, winBy: 2 },
+};
+
+const CRICKET: InningsScoringModel = {
+  sport: 'Cricket',
+  structure: 'innings',
+  unitLabel: 'Innings',
+  pointLabel: 'Run',
+  innings: 1,
+  outsPerInnings: 10,
+  runValues: [1, 2, 3, 4, 6],
+  extraInningsOnTie: false,
+};
+
+const BASEBALL: InningsScoringModel = {
+  sport: 'Baseball',
+  structure: 'innings',
+  unitLabel: 'Inning',
+  pointLabel: 'Run',
+  innings: 9,
+  outsPerInnings: 3,
+  runValues: [1],
+  extraInningsOnTie: true,
+};
+
+const BASKETBALL: PeriodsScoringModel = {
+  sport: 'Basketball',
+  structure: 'periods',
+  unitLabel: 'Quarter',
+  pointLabel: 'Point',
+  periods: 4,
+  pointValues: [1, 2, 3],
+  overtimeOnTie: true,
+};
+
+const FOOTBALL: PeriodsScoringModel = {
+  sport: 'Football',
+  structure: 'periods',
+  unitLabel: 'Half',
+  pointLabel: 'Goal',
+  periods: 2,
+  pointValues: [1],
+  overtimeOnTie: false,
+};
+
+/** Scoring models keyed by lower-case sport name */
+export const SCORING_MODELS: Record<string, ScoringModel> = {
+  tennis: TENNIS,
+  badminton: BADMINTON,
+  'table tennis': TABLE_TENNIS,
+  volleyball: VOLLEYBALL,
+  cricket: CRICKET,
+  baseball: BASEBALL,
+  basketball: BASKETBALL,
+  football: FOOTBALL,
+  soccer: FOOTBALL,
+};
+
+/**
+ * Scoring model for a sport, or undefined when it has none
+ */
+export const getScoringModel = (sport: string): ScoringModel | undefined =>
+  SCORING_MODELS[sport.trim().toLowerCase()];
+
+/**
+ * Values a single scoring event can be worth
+ */
+export const getScoreValues = (model: ScoringModel): number[] => {
+  switch (model.structure) {
+    case 'innings':
+      return model.runValues;
+    case 'periods':
+      return model.pointValues;
+    default:
+      return [1];
+  }
+};
+
+export const createScoreEvent = (
+  type: ScoreEventType,
+  side?: ScoreSide,
+  value?: number,
+  now: Date = new Date()
+): ScoreEvent => ({
+  id: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  ...(side && { side }),
+  ...(value !== undefined && { value }),
+  at: now.toISOString(),
+});
+
+const getOpponent = (side: ScoreSide): ScoreSide => (side === 'team1' ? 'team2' : 'team1');
+
+const hasWon = (score: number, opponent: number, rule: ScoreTarget): boolean =>
+  (score >= rule.target && score - opponent >= rule.winBy) ||
+  (rule.cap !== undefined && score >= rule.cap);
+
+const createUnit = (label: string): ScoreUnit => ({ label, team1: 0, team2: 0, isComplete: false });
+
+const sumUnits = (units: ScoreUnit[]): Record<ScoreSide, number> => ({
+  team1: units.reduce((sum, unit) => sum + unit.team1, 0),
+  team2: units.reduce((sum, unit) => sum + unit.team2, 0),
+});
+
+const getWinner = (totals: Record<ScoreSide, number>): ScoreSide | 'draw' => {
+  if (totals.team1 === totals.team2) return 'draw';
+  return totals.team1 > totals.team2 ? 'team1' : 'team2';
+};
+
+const TENNIS_POINTS = ['0', '15', '30', '40'];
+
+const formatGamePoints = (
+  points: Record<ScoreSide, number>,
+  tennisStyle: boolean
+): Record<ScoreSide, string> => {
+  if (!tennisStyle) return { team1: String(points.team1), team2: String(points.team2) };
+  if (points.team1 >= 3 && points.team2 >= 3) {
+    if (points.team1 === points.team2) return { team1: '40', team2: '40' };
+    return points.team1 > points.team2 ? { team1: 'AD', team2: '40' } : { team1: '40', team2: 'AD' };
+  }
+  return { team1: TENNIS_POINTS[points.team1], team2: TENNIS_POINTS[points.team2] };
+};
+
+const replaySets = (model: SetsScoringModel, events: ScoreEvent[]): LiveScore => {
+  const units = [createUnit(`${model.unitLabel} 1`)];
+  const setsWon = { team1: 0, team2: 0 };
+  let points = { team1: 0, team2: 0 };
+  let inTiebreak = false;
+  let winner: ScoreSide | undefined;
+
+  const getSetRule = () =>
+    model.decidingSet && setsWon.team1 === model.setsToWin - 1 && setsWon.team2 === model.setsToWin - 1
+      ? model.decidingSet
+      : model.set;
+
+  for (const event of events) {
+    if (winner) break;
+    if (event.type !== 'point' || !event.side) continue;
+
+    const side = event.side;
+    const opponent = getOpponent(side);
+    const current = units[units.length - 1];
+    let setWon = false;
+
+    if (!model.game) {
+      current[side] += 1;
+      setWon = hasWon(current[side], current[opponent], getSetRule());
+    } else {
+      points[side] += 1;
+      const gameRule = inTiebreak && model.tiebreak ? model.tiebreak : model.game;
+      if (hasWon(points[side], points[opponent], gameRule)) {
+        points = { team1: 0, team2: 0 };
+        current[side] += 1;
+        setWon = inTiebreak || hasWon(current[side], current[opponent], getSetRule());
+        inTiebreak =
+          !setWon &&
+          model.tiebreak !== undefined &&
+          current.team1 === model.tiebreak.at &&
+          current.team2 === model.tiebreak.at;
+      }
+    }
+
+    if (setWon) {
+      current.isComplete = true;
+      current.winner = side;
+      setsWon[side] += 1;
+      if (setsWon[side] === model.setsToWin) {
+        winner = side;
+      } else {
+        units.push(createUnit(`${model.unitLabel} ${units.length + 1}`));
+      }
+    }
+  }
+
+  return {
+    units,
+    totals: setsWon,
+    ...(model.game &&
+      !winner && {
+        gamePoints: formatGamePoints(points, !inTiebreak && model.game.display === 'tennis'),
+      }),
+    isComplete: Boolean(winner),
+    winner,
+  };
+};
+
+/**
+ * Each innings is batted by team1 then team2. The side batting last stops as
+ * soon as it takes the lead, and skips its final turn when already ahead.
+ */
+const replayInnings = (model: InningsScoringModel, events: ScoreEvent[]): LiveScore => {
+  const units = [createUnit(`${model.unitLabel} 1`)];
+  let batting = 'team1' as ScoreSide;
+  let outs = 0;
+  let isComplete = false;
+
+  const isFinalInnings = () => units.length >= model.innings;
+  const isTeam2Ahead = () => {
+    const totals = sumUnits(units);
+    return totals.team2 > totals.team1;
+  };
+
+  const endTurn = () => {
+    const current = units[units.length - 1];
+    outs = 0;
+    if (batting === 'team1') {
+      batting = 'team2';
+      if (isFinalInnings() && isTeam2Ahead()) {
+        current.isComplete = true;
+        isComplete = true;
+      }
+      return;
+    }
+
+    current.isComplete = true;
+    const totals = sumUnits(units);
+    if (!isFinalInnings() || (totals.team1 === totals.team2 && model.extraInningsOnTie)) {
+      batting = 'team1';
+      units.push(createUnit(`${model.unitLabel} ${units.length + 1}`));
+      return;
+    }
+    isComplete = true;
+  };
+
+  for (const event of events) {
+    if (isComplete) break;
+    const current = units[units.length - 1];
+
+    if (event.type === 'point') {
+      current[batting] += event.value ?? 1;
+      if (batting === 'team2' && isFinalInnings() && isTeam2Ahead()) {
+        current.isComplete = true;
+        isComplete = true;
+      }
+    } else if (event.type === 'out') {
+      outs += 1;
+      if (outs >= model.outsPerInnings) endTurn();
+    } else {
+      endTurn();
+    }
+  }
+
+  const totals = sumUnits(units);
+  return {
+    units,
+    totals,
+    ...(!isComplete && { batting, outs }),
+    isComplete,
+    winner: isComplete ? getWinner(totals) : undefined,
+  };
+};
+
+const replayPeriods = (model: PeriodsScoringModel, events: ScoreEvent[]): LiveScore => {
+  const units = [createUnit(`${model.unitLabel} 1`)];
+  let isComplete = false;
+
+  const startPeriod = () => {
+    const overtime = units.length - model.periods + 1;
+    units.push(
+      createUnit(overtime > 0 ? `OT${overtime > 1 ? overtime : ''}` : `${model.unitLabel} ${units.length + 1}`)
+    );
+  };
+
+  for (const event of events) {
+    if (isComplete) break;
+    const current = units[units.length - 1];
+
+    if (event.type === 'point' && event.side) {
+      current[event.side] += event.value ?? 1;
+    } else if (event.type === 'end_period') {
+      current.isComplete = true;
+      const totals = sumUnits(units);
+      if (units.length < model.periods || (totals.team1 === totals.team2 && model.overtimeOnTie)) {
+        startPeriod();
+      } else {
+        isComplete = true;
+      }
+    }
+  }
+
+  const totals = sumUnits(units);
+  return { units, totals, isComplete, winner: isComplete ? getWinner(totals) : undefined };
+};
+
+/**
+ * Replay the event log into a score. Events after the match is decided, and
+ * events that do not apply to the sport, are ignored.
+ */
+export const calculateLiveScore = (model: ScoringModel, events: ScoreEvent[]): LiveScore => {
+  switch (model.structure) {
+    case 'sets':
+      return replaySets(model, events);
+    case 'innings':
+      return replayInnings(model, events);
+    default:
+      return replayPeriods(model, events);
+  }
+};
+
+/**
+ * Match score to save or broadcast for a live score and its log
+ */
+export const toMatchScore = (score: LiveScore, events: ScoreEvent[]): MatchScore => ({
+  team1: score.totals.team1,
+  team2: score.totals.team2,
+  ...(score.winner && { winner: score.winner }),
+  breakdown: score.units,
+  ...(score.gamePoints && { gamePoints: score.gamePoints }),
+  ...(score.batting && { batting: score.batting, outs: score.outs }),
+  events,
+});
@@ -0,0 +1,170 @@
+import { BusinessError } from '@core';
+import { KeepTogetherPair, Participant, TeamLineup } from '../types';
+
+/**
+ * Team balancing
+ * Each player is rated from their skill level, nudged by their win rate once
+ * they have played enough matches for it to mean something. Players are dealt
+ * out so sides stay within one player of each other, then swapped between
+ * sides for as long as that narrows the gap in total rating.
+ */
+
+export const SKILL_RATINGS: Record<string, number> = {
+  beginner: 1,
+  intermediate: 2,
+  advanced: 3,
+  expert: 4,
+};
+
+/** For players with no skill level on their profile or the match */
+const DEFAULT_RATING = SKILL_RATINGS.intermediate;
+
+/** Most a win rate can move a rating either way */
+const WIN_RATE_WEIGHT = 1;
+
+/** Matches played at which the win rate counts for half its weight */
+const WIN_RATE_PRIOR_MATCHES = 10;
+
+const EPSILON = 1e-9;
+
+interface PlayerGroup {
+  playerIds: string[];
+  rating: number;
+}
+
+const getSkillRating = (skillLevel?: string): number | undefined =>
+  skillLevel ? SKILL_RATINGS[skillLevel.toLowerCase()] : undefined;
+
+/**
+ * Rating used to balance sides. The match's skill level stands in for
+ * players who have not set their own.
+ */
+export const getPlayerRating = (participant: Participant, matchSkillLevel?: string): number => {
+  const base =
+    getSkillRating(participant.profile?.skillLevel) ?? getSkillRating(matchSkillLevel) ?? DEFAULT_RATING;
+  const stats = participant.profile?.statistics;
+  if (!stats || stats.matchesPlayed === 0) {
+    return base;
+  }
+
+  const winRate = stats.matchesWon / stats.matchesPlayed;
+  const confidence = stats.matchesPlayed / (stats.matchesPlayed + WIN_RATE_PRIOR_MATCHES);
+  return base + (winRate - 0.5) * 2 * WIN_RATE_WEIGHT * confidence;
+};
+
+export const getPlayerRatings = (participants: Participant[], matchSkillLevel?: string): Record<string, number> =>
+  Object.fromEntries(participants.map(participant => [participant._id, getPlayerRating(participant, matchSkillLevel)]));
+
+const sumRatings = (playerIds: string[], ratings: Record<string, number>): number =>
+  playerIds.reduce((total, id) => total + (ratings[id] ?? 0), 0);
+
+/**
+ * Players joined by keep-together pairs, chained pairs included
+ */
+const groupPlayers = (ratings: Record<string, number>, keepTogether: KeepTogetherPair[]): PlayerGroup[] => {
+  const parent = new Map(Object.keys(ratings).map(id => [id, id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    return root;
+  };
+
+  keepTogether.forEach(([a, b]) => {
+    // Pairs with a player who has since left are ignored
+    if (parent.has(a) && parent.has(b)) parent.set(find(a), find(b));
+  });
+
+  const groups = new Map<string, string[]>();
+  parent.forEach((_, id) => {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  });
+  return [...groups.values()].map(playerIds => ({ playerIds, rating: sumRatings(playerIds, ratings) }));
+};
+
+/**
+ * Split players into `teamCount` sides with the smallest gap in total rating
+ * that keeps every keep-together pair on the same side
+ */
+export const balanceTeams = (
+  ratings: Record<string, number>,
+  teamCount: number,
+  keepTogether: KeepTogetherPair[] = []
+): string[][] => {
+  const playerCount = Object.keys(ratings).length;
+  if (teamCount < 2) {
+    throw new BusinessError('Split into at least 2 teams');
+  }
+  if (playerCount < teamCount) {
+    throw new BusinessError(`${teamCount} teams need at least ${teamCount} players`, { playerCount });
+  }
+
+  const maxSize = Math.ceil(playerCount / teamCount);
+  const groups = groupPlayers(ratings, keepTogether).sort(
+    (a, b) => b.playerIds.length - a.playerIds.length || b.rating - a.rating
+  );
+  if (groups[0].playerIds.length > maxSize) {
+    throw new BusinessError(`Players kept together cannot fill more than a team of ${maxSize}`);
+  }
+
+  const teams: PlayerGroup[][] = Array.from({ length: teamCount }, () => []);
+  const size = (team: PlayerGroup[]) => team.reduce((count, group) => count + group.playerIds.length, 0);
+  const total = (team: PlayerGroup[]) => team.reduce((sum, group) => sum + group.rating, 0);
+
+  // Deal the largest and strongest groups first, each to the smallest side
+  // it fits on, the weaker side on ties
+  groups.forEach(group => {
+    const fits = teams.filter(team => size(team) + group.playerIds.length <= maxSize);
+    const [target] = (fits.length > 0 ? fits : teams).sort((a, b) => size(a) - size(b) || total(a) - total(b));
+    target.push(group);
+  });
+
+  // Swap equally sized groups between sides while the totals move closer.
+  // Each swap lowers the sum of squared totals, so this always finishes.
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < teams.length; i++) {
+      for (let j = i + 1; j < teams.length; j++) {
+        for (let a = 0; a < teams[i].length; a++) {
+          for (let b = 0; b < teams[j].length; b++) {
+            const first = teams[i][a];
+            const second = teams[j][b];
+            if (first.playerIds.length !== second.playerIds.length) continue;
+
+            const delta = second.rating - first.rating;
+            if (delta * (total(teams[i]) - total(teams[j]) + delta) < -EPSILON) {
+              teams[i][a] = second;
+              teams[j][b] = first;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return teams.map(team => team.flatMap(group => group.playerIds));
+};
+
+export const getTeamRatings = (teams: string[][], ratings: Record<string, number>): number[] =>
+  teams.map(team => sumRatings(team, ratings));
+
+/**
+ * Difference in total rating between the strongest and weakest side
+ */
+export const getSkillGap = (teams: string[][], ratings: Record<string, number>): number => {
+  const totals = getTeamRatings(teams, ratings);
+  return totals.length > 0 ? Math.max(...totals) - Math.min(...totals) : 0;
+};
+
+/**
+ * Sides after two players trade places
+ */
+export const swapPlayers = (teams: string[][], firstId: string, secondId: string): string[][] =>
+  teams.map(team => team.map(id => (id === firstId ? secondId : id === secondId ? firstId : id)));
+
+export const getTeamName = (index: number): string => `Team ${String.fromCharCode(65 + index)}`;
+
+export const toTeamLineups = (teams: string[][]): TeamLineup[] =>
+  teams.map((playerIds, index) => ({ name: getTeamName(index), playerIds }));
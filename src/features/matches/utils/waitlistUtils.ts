@@ -0,0 +1,82 @@
+import { Match, MatchWaitlist, WaitlistEntry } from '../types';
+
+/**
+ * Match waitlist
+ * Players queue on a full match in order. When a spot opens, the first in
+ * line is offered it and the spot is held for them until the offer expires;
+ * offers that lapse drop out of the queue and stop holding the spot.
+ */
+
+/** Minutes a promoted player has to confirm their spot */
+export const WAITLIST_OFFER_MINUTES = 30;
+
+export const hasActiveOffer = (entry: WaitlistEntry, now: Date = new Date()): boolean =>
+  entry.status === 'offered' &&
+  Boolean(entry.offerExpiresAt) &&
+  new Date(entry.offerExpiresAt!).getTime() > now.getTime();
+
+/**
+ * Entries still waiting for a spot, in queue order
+ */
+export const getQueuedEntries = (waitlist: MatchWaitlist | undefined): WaitlistEntry[] =>
+  (waitlist?.entries ?? []).filter(entry => entry.status === 'waiting');
+
+export const getWaitlistEntry = (
+  waitlist: MatchWaitlist | undefined,
+  userId: string | null | undefined
+): WaitlistEntry | undefined =>
+  userId ? waitlist?.entries.find(entry => entry.user._id === userId) : undefined;
+
+/**
+ * 1-based place in the queue, or null when the user is not waiting
+ */
+export const getWaitlistPosition = (
+  waitlist: MatchWaitlist | undefined,
+  userId: string | null | undefined
+): number | null => {
+  const index = getQueuedEntries(waitlist).findIndex(entry => entry.user._id === userId);
+  return index === -1 ? null : index + 1;
+};
+
+export const isMatchFull = (match: Match): boolean => match.currentParticipants >= match.maxParticipants;
+
+export const isWaitlistFull = (waitlist: MatchWaitlist | undefined): boolean =>
+  waitlist?.maxLength !== undefined && getQueuedEntries(waitlist).length >= waitlist.maxLength;
+
+/**
+ * Spots neither taken by a participant nor held for a promoted player
+ */
+export const getOpenSpots = (
+  match: Match,
+  waitlist: MatchWaitlist | undefined,
+  now: Date = new Date()
+): number => {
+  const held = (waitlist?.entries ?? []).filter(entry => hasActiveOffer(entry, now)).length;
+  return Math.max(0, match.maxParticipants - match.currentParticipants - held);
+};
+
+/**
+ * Entries to offer the open spots to, first in line first
+ */
+export const getPromotions = (
+  match: Match,
+  waitlist: MatchWaitlist | undefined,
+  now: Date = new Date()
+): WaitlistEntry[] => getQueuedEntries(waitlist).slice(0, getOpenSpots(match, waitlist, now));
+
+export const getOfferExpiry = (now: Date = new Date(), minutes: number = WAITLIST_OFFER_MINUTES): string =>
+  new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+
+/**
+ * Queue order after moving an entry to `toIndex` among the waiting entries
+ */
+export const moveWaitlistEntry = (waitlist: MatchWaitlist, entryId: string, toIndex: number): string[] => {
+  const order = getQueuedEntries(waitlist).map(entry => entry._id);
+  const fromIndex = order.indexOf(entryId);
+  if (fromIndex === -1) return order;
+
+  const target = Math.min(Math.max(toIndex, 0), order.length - 1);
+  order.splice(fromIndex, 1);
+  order.splice(target, 0, entryId);
+  return order;
+};
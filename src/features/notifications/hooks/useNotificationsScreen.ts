@@ -1,36 +1,41 @@
 import { logger } from '@core';
 import { useCallback } from 'react';
-import { useGetNotificationsQuery } from '../store/notificationApi';
-import { notificationService } from '../services';
+import { isQueuedOffline } from '@shared/services/baseQuery';
+import { useGetNotificationsQuery, useMarkAllAsReadMutation, useMarkAsReadMutation } from '../store/notificationApi';
 
 export function useNotificationsScreen(navigation: any) {
-  const { data, isLoading, error, refetch } = useGetNotificationsQuery();
-  const notifications = data?.data || [];
+  const { data: notifications = [], isLoading, error, refetch } = useGetNotificationsQuery({});
+  const [markAsRead] = useMarkAsReadMutation();
+  const [markAllAsRead] = useMarkAllAsReadMutation();
 
   const handleNotificationPress = useCallback(async (notificationId: string, notification: any) => {
     try {
-      await notificationService.markAsRead(notificationId);
-      await refetch();
-      
-      // Navigate based on notification type
-      if (notification.type === 'match' && notification.matchId) {
-        navigation.navigate('MatchDetail', { matchId: notification.matchId });
-      } else if (notification.type === 'team' && notification.teamId) {
-        navigation.navigate('TeamDetail', { teamId: notification.teamId });
-      }
+      await markAsRead(notificationId).unwrap();
     } catch (err) {
-      logger.error('Failed to handle notification:', err);
+      // Queued offline: the notification already shows as read
+      if (!isQueuedOffline(err)) {
+        logger.error('Failed to mark notification as read:', err instanceof Error ? err : undefined);
+      }
+    }
+
+    // Navigate based on notification type
+    if (notification.type === 'waitlist_promotion' && notification.data?.matchId) {
+      // The match screen holds the confirm action for the offered spot
+      navigation.navigate('MatchDetail', { matchId: notification.data.matchId });
+    } else if (notification.type === 'match' && notification.matchId) {
+      navigation.navigate('MatchDetail', { matchId: notification.matchId });
+    } else if (notification.type === 'team' && notification.teamId) {
+      navigation.navigate('TeamDetail', { teamId: notification.teamId });
     }
-  }, [navigation, refetch]);
+  }, [markAsRead, navigation]);
 
   const handleMarkAllAsRead = useCallback(async () => {
     try {
-      await notificationService.markAllAsRead();
-      await refetch();
+      await markAllAsRead().unwrap();
     } catch (err) {
-      logger.error('Failed to mark all as read:', err);
+      logger.error('Failed to mark all as read:', err instanceof Error ? err : undefined);
     }
-  }, [refetch]);
+  }, [markAllAsRead]);
 
   return {
     notifications,
@@ -10,7 +10,12 @@ const NotificationsScreen: React.FC<any> = ({ navigation }) => {
     <ListScreenTemplate
       title="Notifications"
       items={props.notifications}
-      renderItem={(notification) => <NotificationCard notification={notification} />}
+      renderItem={(notification) => (
+        <NotificationCard
+          notification={notification}
+          onPress={() => props.onNotificationPress(notification._id, notification)}
+        />
+      )}
       isLoading={props.isLoading}
       onRefresh={props.onRefresh}
       emptyMessage="No notifications"
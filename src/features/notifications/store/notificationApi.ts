@@ -1,22 +1,13 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { Notification } from '@features/notifications/types';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery, isQueuedOffline } from '@shared/services/baseQuery';
 import { unwrapApiResponse } from '@shared/utils/apiHelpers';
+import { listOf, notificationSchema } from '@shared/services/responseSchemas';
 
 export const notificationApi = createApi({
   reducerPath: 'notificationApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
   tagTypes: ['Notification', 'Notifications'],
   endpoints: (builder) => ({
     getNotifications: builder.query<Notification[], { page?: number; limit?: number; read?: boolean; type?: string }>({
@@ -28,7 +19,7 @@ export const notificationApi = createApi({
         if (params.type) queryParams.append('type', params.type);
         return `/notifications?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Notification[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Notification[]>) => unwrapApiResponse(response, listOf(notificationSchema)),
       providesTags: ['Notifications'],
     }),
     markAsRead: builder.mutation<void, string>({
@@ -36,8 +27,32 @@ export const notificationApi = createApi({
         url: `/notifications/${id}/read`,
         method: 'PATCH',
       }),
+      extraOptions: { outbox: { label: 'Mark notification as read', invalidates: ['Notifications'] } },
       transformResponse: (response: ApiResponse<void>) => unwrapApiResponse(response),
-      invalidatesTags: ['Notifications'],
+      // Optimistic update
+      async onQueryStarted(id, { dispatch, getState, queryFulfilled }) {
+        const patchResults = notificationApi.util
+          .selectCachedArgsForQuery(getState(), 'getNotifications')
+          .map(args =>
+            dispatch(
+              notificationApi.util.updateQueryData('getNotifications', args, (draft) => {
+                const notification = draft.find(({ _id }) => _id === id);
+                if (notification) {
+                  notification.isRead = true;
+                }
+              })
+            )
+          );
+        try {
+          await queryFulfilled;
+        } catch (error) {
+          // Kept while the outbox holds the request
+          if (!isQueuedOffline(error)) {
+            patchResults.forEach(patchResult => patchResult.undo());
+          }
+        }
+      },
+      invalidatesTags: (result, error) => (isQueuedOffline(error) ? [] : ['Notifications']),
     }),
     markAllAsRead: builder.mutation<void, void>({
       query: () => ({
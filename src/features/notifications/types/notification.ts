@@ -10,6 +10,7 @@ export interface Notification {
     | 'booking_confirmation'
     | 'booking_reminder'
     | 'team_invitation'
+    | 'waitlist_promotion'
     | 'system';
   title: string;
   message: string;
@@ -1,9 +1,12 @@
 import { useCallback } from 'react';
+import { useGetUserStatsQuery } from '@features/auth/store';
+import { getReliabilityScore } from '@features/matches/utils';
 import { useGetCurrentUserQuery } from '../store/paymentApi';
 
 export function useProfileScreen(navigation: any) {
   const { data, isLoading, error, refetch } = useGetCurrentUserQuery();
   const user = data?.data;
+  const { data: stats } = useGetUserStatsQuery(user?._id ?? '', { skip: !user });
 
   const handleEditProfile = useCallback(() => {
     navigation.navigate('EditProfile');
@@ -19,6 +22,12 @@ export function useProfileScreen(navigation: any) {
 
   return {
     user,
+    reliability: getReliabilityScore(stats),
+    noShows: stats?.noShows ?? 0,
+    // Sportsmanship and skill accuracy from post-match reviews
+    averageRating: stats?.reviewCount ? stats.averageRating ?? null : null,
+    skillAccuracy: stats?.reviewCount ? stats.skillAccuracy ?? null : null,
+    reviewCount: stats?.reviewCount ?? 0,
     isLoading,
     error,
     onEditProfile: handleEditProfile,
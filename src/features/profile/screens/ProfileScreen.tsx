@@ -1,9 +1,13 @@
 import React from 'react';
-import { View } from 'react-native';
+import { View, Text } from 'react-native';
+import { useTheme } from '../../../theme';
 import { DetailScreenTemplate } from '@shared/components/templates';
+import { PlayerRatingsCard } from '@features/ratings/components';
+import { CalendarSyncCard } from '@features/calendar/components';
 import { useProfileScreen } from '../hooks';
 
 const ProfileScreen: React.FC<any> = ({ navigation }) => {
+  const { theme } = useTheme();
   const props = useProfileScreen(navigation);
   
   if (!props.user) return null;
@@ -16,7 +20,33 @@ const ProfileScreen: React.FC<any> = ({ navigation }) => {
       primaryAction={{ label: 'Edit Profile', onPress: props.onEditProfile }}
       secondaryAction={{ label: 'Settings', onPress: props.onSettings }}
     >
-      <View />
+      {props.reliability !== null && (
+        <View style={{ padding: theme.spacing.base }}>
+          <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.xs }]}>
+            {`Reliability ${props.reliability}%`}
+          </Text>
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+            {props.noShows === 0 ? 'Turned up to every match' : `${props.noShows} no-show${props.noShows === 1 ? '' : 's'}`}
+          </Text>
+        </View>
+      )}
+      {props.averageRating !== null && (
+        <View style={{ padding: theme.spacing.base }}>
+          <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.xs }]}>
+            {`Sportsmanship ${props.averageRating.toFixed(1)} / 5`}
+          </Text>
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+            {[
+              props.skillAccuracy !== null ? `Skill level accuracy ${props.skillAccuracy.toFixed(1)} / 5` : null,
+              `${props.reviewCount} review${props.reviewCount === 1 ? '' : 's'}`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        </View>
+      )}
+      <PlayerRatingsCard userId={props.user._id} />
+      <CalendarSyncCard />
     </DetailScreenTemplate>
   );
 };
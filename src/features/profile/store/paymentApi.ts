@@ -1,7 +1,6 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery } from '@shared/services/baseQuery';
 import { unwrapApiResponse } from '@shared/utils/apiHelpers';
 import {
   CreatePaymentIntentRequest,
@@ -12,16 +11,7 @@ import {
 
 export const paymentApi = createApi({
   reducerPath: 'paymentApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
   tagTypes: ['Payments'],
   endpoints: (builder) => ({
     createPaymentIntent: builder.mutation<CreatePaymentIntentResponse, CreatePaymentIntentRequest>({
@@ -47,7 +37,10 @@ export const paymentApi = createApi({
       }),
       invalidatesTags: ['Payments'],
     }),
-    confirmPayment: builder.mutation<void, { paymentIntentId: string; bookingId?: string }>({
+    confirmPayment: builder.mutation<
+      void,
+      { paymentIntentId: string; bookingId?: string; tournamentId?: string; matchId?: string }
+    >({
       query: (data) => ({
         url: '/payments/confirm',
         method: 'POST',
@@ -36,6 +36,10 @@ export interface CreatePaymentIntentRequest {
   amount: number;
   currency: string;
   bookingId?: string;
+  /** Set when paying a tournament entry fee */
+  tournamentId?: string;
+  /** Set when paying a share of a match's venue cost */
+  matchId?: string;
   metadata?: Record<string, string>;
 }
 
@@ -57,6 +61,10 @@ export interface PaymentHistory {
       name: string;
     };
   };
+  tournament?: {
+    _id: string;
+    name: string;
+  };
   stripePaymentIntentId: string;
   refundReason?: string;
   createdAt: string;
@@ -64,7 +72,11 @@ export interface PaymentHistory {
 }
 
 export interface RefundRequest {
-  paymentId: string;
+  /** The payment record; leave out when refunding by `paymentIntentId` */
+  paymentId?: string;
+  /** The Stripe payment intent the payment was made with, e.g. a tournament entry fee */
+  paymentIntentId?: string;
   amount?: number;
   reason?: string;
+  tournamentId?: string;
 }
@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { Chip } from '@shared/components/atoms';
+import { usePlayerRatings } from '../hooks';
+import { formatRating, getSkillLevelForRating, isProvisional } from '../utils';
+import RatingHistoryChart from './RatingHistoryChart';
+
+interface PlayerRatingsCardProps {
+  userId: string | undefined;
+}
+
+/**
+ * PlayerRatingsCard
+ *
+ * A player's rating in each sport they have played, with the history of the
+ * selected sport charted below
+ */
+const PlayerRatingsCard: React.FC<PlayerRatingsCardProps> = ({ userId }) => {
+  const { theme } = useTheme();
+  const props = usePlayerRatings(userId);
+
+  if (props.isLoading || props.ratings.length === 0) {
+    return null;
+  }
+
+  const selected = props.selectedRating;
+
+  return (
+    <View style={{ padding: theme.spacing.base }}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text, marginBottom: theme.spacing.md }]}>
+        Ratings
+      </Text>
+
+      <View style={styles.chips}>
+        {props.ratings.map(rating => (
+          <Chip
+            key={rating.sport}
+            label={`${rating.sport} · ${formatRating(rating)}`}
+            size="small"
+            selected={rating.sport === props.selectedSport}
+            onPress={() => props.onSelectSport(rating.sport)}
+            style={styles.chip}
+          />
+        ))}
+      </View>
+
+      {selected && (
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary, marginBottom: theme.spacing.md }]}>
+          {isProvisional(selected)
+            ? `Provisional after ${selected.gamesRated} games. Play more to settle your rating.`
+            : `±${Math.round(selected.deviation * 2)} · plays at ${getSkillLevelForRating(selected.rating)} level`}
+        </Text>
+      )}
+
+      {!props.isHistoryLoading && <RatingHistoryChart history={props.history} />}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+});
+
+export default PlayerRatingsCard;
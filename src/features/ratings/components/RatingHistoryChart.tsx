@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import { useTheme } from '../../../theme';
+import { RatingHistoryEntry } from '../types';
+
+/** Most recent entries drawn; older ones scroll off the left */
+const MAX_POINTS = 20;
+
+const CHART_HEIGHT = 120;
+
+interface RatingHistoryChartProps {
+  history: RatingHistoryEntry[];
+}
+
+/**
+ * RatingHistoryChart
+ *
+ * Rating after each rated game as a column, scaled between the lowest and
+ * highest rating shown. The shaded band is the rating deviation.
+ */
+const RatingHistoryChart: React.FC<RatingHistoryChartProps> = ({ history }) => {
+  const { theme } = useTheme();
+  const points = history.slice(-MAX_POINTS);
+
+  if (points.length === 0) {
+    return (
+      <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+        No rated games yet
+      </Text>
+    );
+  }
+
+  const low = Math.min(...points.map(point => point.rating - point.deviation));
+  const high = Math.max(...points.map(point => point.rating + point.deviation));
+  const span = Math.max(high - low, 1);
+  const toHeight = (rating: number) => ((rating - low) / span) * CHART_HEIGHT;
+
+  return (
+    <View>
+      <View style={styles.chart}>
+        <View style={styles.axis}>
+          <Text style={[theme.typography.labelSmall, { color: theme.colors.textSecondary }]}>{Math.round(high)}</Text>
+          <Text style={[theme.typography.labelSmall, { color: theme.colors.textSecondary }]}>{Math.round(low)}</Text>
+        </View>
+        {points.map(point => (
+          <View key={`${point.source.id}-${point.date}`} style={styles.column}>
+            <View
+              style={[
+                styles.band,
+                {
+                  bottom: toHeight(point.rating - point.deviation),
+                  height: toHeight(point.rating + point.deviation) - toHeight(point.rating - point.deviation),
+                  backgroundColor: theme.colors.primaryContainer,
+                },
+              ]}
+            />
+            <View
+              style={[styles.marker, { bottom: toHeight(point.rating) - 2, backgroundColor: theme.colors.primary }]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.dates}>
+        <Text style={[theme.typography.labelSmall, { color: theme.colors.textSecondary }]}>
+          {format(new Date(points[0].date), 'MMM d')}
+        </Text>
+        <Text style={[theme.typography.labelSmall, { color: theme.colors.textSecondary }]}>
+          {format(new Date(points[points.length - 1].date), 'MMM d')}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    height: CHART_HEIGHT,
+  },
+  axis: {
+    justifyContent: 'space-between',
+    marginRight: 8,
+  },
+  column: {
+    flex: 1,
+    marginHorizontal: 1,
+  },
+  band: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderRadius: 2,
+  },
+  marker: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 4,
+    borderRadius: 2,
+  },
+  dates: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+});
+
+export default RatingHistoryChart;
@@ -0,0 +1,2 @@
+export { default as RatingHistoryChart } from './RatingHistoryChart';
+export { default as PlayerRatingsCard } from './PlayerRatingsCard';
@@ -0,0 +1,31 @@
+import { useMemo, useState } from 'react';
+import { useGetPlayerRatingsQuery, useGetRatingHistoryQuery } from '../store';
+
+/**
+ * A player's per-sport ratings and the history of the selected sport,
+ * defaulting to the sport they have played the most
+ */
+export function usePlayerRatings(userId: string | undefined) {
+  const { data: ratings = [], isLoading } = useGetPlayerRatingsQuery(userId ?? '', { skip: !userId });
+  const [selectedSport, setSelectedSport] = useState<string | null>(null);
+
+  const sortedRatings = useMemo(() => [...ratings].sort((a, b) => b.gamesRated - a.gamesRated), [ratings]);
+  const sport = selectedSport ?? sortedRatings[0]?.sport ?? null;
+
+  const { data: history = [], isFetching: isHistoryLoading } = useGetRatingHistoryQuery(
+    { userId: userId ?? '', sport: sport ?? '' },
+    { skip: !userId || !sport }
+  );
+
+  return {
+    ratings: sortedRatings,
+    selectedSport: sport,
+    selectedRating: sortedRatings.find(rating => rating.sport === sport),
+    history,
+    isLoading,
+    isHistoryLoading,
+    onSelectSport: setSelectedSport,
+  };
+}
+
+export type PlayerRatings = ReturnType<typeof usePlayerRatings>;
@@ -0,0 +1,2 @@
+// Export rating-related API
+export * from './ratingApi';
@@ -0,0 +1,41 @@
+import { createApi } from '@reduxjs/toolkit/query/react';
+import { PlayerRating, RatingHistoryEntry } from '@features/ratings/types';
+import { ApiResponse } from '../../types/api';
+import { baseQuery } from '@shared/services/baseQuery';
+import { unwrapNestedData } from '@shared/utils/apiHelpers';
+
+export const ratingApi = createApi({
+  reducerPath: 'ratingApi',
+  baseQuery,
+  tagTypes: ['Rating', 'RatingHistory'],
+  endpoints: (builder) => ({
+    /** A player's rating in every sport they have been rated in */
+    getPlayerRatings: builder.query<PlayerRating[], string>({
+      query: (userId) => `/users/${userId}/ratings`,
+      transformResponse: (response: ApiResponse<{ ratings: PlayerRating[] }>) => unwrapNestedData(response, 'ratings'),
+      providesTags: (result, error, userId) => [{ type: 'Rating', id: userId }],
+    }),
+    getRatingHistory: builder.query<RatingHistoryEntry[], { userId: string; sport: string }>({
+      query: ({ userId, sport }) => `/users/${userId}/ratings/${encodeURIComponent(sport)}/history`,
+      transformResponse: (response: ApiResponse<{ history: RatingHistoryEntry[] }>) =>
+        unwrapNestedData(response, 'history'),
+      providesTags: (result, error, { userId, sport }) => [{ type: 'RatingHistory', id: `${userId}:${sport}` }],
+    }),
+    /** Ratings of several players in one sport, e.g. a tournament field */
+    getSportRatings: builder.query<PlayerRating[], { sport: string; userIds: string[] }>({
+      query: ({ sport, userIds }) => {
+        const queryParams = new URLSearchParams();
+        queryParams.append('userIds', userIds.join(','));
+        return `/ratings/${encodeURIComponent(sport)}?${queryParams.toString()}`;
+      },
+      transformResponse: (response: ApiResponse<{ ratings: PlayerRating[] }>) => unwrapNestedData(response, 'ratings'),
+      providesTags: ['Rating'],
+    }),
+  }),
+});
+
+export const {
+  useGetPlayerRatingsQuery,
+  useGetRatingHistoryQuery,
+  useGetSportRatingsQuery,
+} = ratingApi;
@@ -0,0 +1,59 @@
+/**
+ * Glicko-2 rating on the familiar Elo-like scale
+ */
+export interface RatingValues {
+  rating: number;
+  /** Rating deviation (RD): how uncertain the rating is, shrinking as games are rated */
+  deviation: number;
+  /** How erratic the player's results are */
+  volatility: number;
+}
+
+export interface PlayerRating extends RatingValues {
+  userId: string;
+  sport: string;
+  /** Games counted towards the rating */
+  gamesRated: number;
+  updatedAt: string;
+}
+
+export type RatingSourceType = 'match' | 'tournament';
+
+export interface RatingSource {
+  type: RatingSourceType;
+  id: string;
+}
+
+export interface RatingHistoryEntry extends RatingValues {
+  date: string;
+  source: RatingSource;
+}
+
+/**
+ * Result of one game against one opponent, from the player's side
+ */
+export interface GameOutcome {
+  opponent: Pick<RatingValues, 'rating' | 'deviation'>;
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number;
+}
+
+/**
+ * A completed match or tournament game between two sides of one or more players
+ */
+export interface RatedGame {
+  sport: string;
+  source: RatingSource;
+  /** User ids on each side */
+  sides: [string[], string[]];
+  /** Index of the winning side, or 'draw' */
+  winner: 0 | 1 | 'draw';
+}
+
+/**
+ * Rating range a match is open to. Either bound may be left open.
+ */
+export interface RatingRange {
+  min?: number;
+  max?: number;
+}
@@ -0,0 +1,116 @@
+import { GameOutcome, RatingValues } from '../types';
+
+/**
+ * Glicko-2
+ * Implements Mark Glickman's "Example of the Glicko-2 system" step by step so
+ * the app and server arrive at the same numbers. Ratings are kept on the
+ * Elo-like scale and converted to the Glicko-2 scale only inside the update.
+ */
+
+export const GLICKO2_DEFAULTS: RatingValues = {
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06,
+};
+
+/** System constant limiting how fast volatility can change between periods */
+export const GLICKO2_TAU = 0.5;
+
+/** Converts between the Elo-like and Glicko-2 scales */
+const SCALE = 173.7178;
+
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+const toMu = (rating: number): number => (rating - GLICKO2_DEFAULTS.rating) / SCALE;
+const toPhi = (deviation: number): number => deviation / SCALE;
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number): number =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+/**
+ * Chance of the player beating the opponent, allowing for the opponent's uncertainty
+ */
+export const getExpectedScore = (
+  player: Pick<RatingValues, 'rating'>,
+  opponent: Pick<RatingValues, 'rating' | 'deviation'>
+): number => expectedScore(toMu(player.rating), toMu(opponent.rating), toPhi(opponent.deviation));
+
+/**
+ * New volatility, found with the Illinois algorithm (step 5)
+ */
+const getNewVolatility = (delta: number, phi: number, variance: number, volatility: number, tau: number): number => {
+  const a = Math.log(volatility * volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + variance + ex;
+    return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * d * d) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + variance) {
+    B = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+};
+
+/**
+ * Rating after one rating period. A player with no games keeps their rating
+ * but grows less certain, up to the deviation of a new player.
+ */
+export const updateRating = (player: RatingValues, outcomes: GameOutcome[], tau = GLICKO2_TAU): RatingValues => {
+  const mu = toMu(player.rating);
+  const phi = toPhi(player.deviation);
+
+  if (outcomes.length === 0) {
+    const deviation = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+    return { ...player, deviation: Math.min(deviation, GLICKO2_DEFAULTS.deviation) };
+  }
+
+  const games = outcomes.map(({ opponent, score }) => {
+    const opponentPhi = toPhi(opponent.deviation);
+    return {
+      g: g(opponentPhi),
+      expected: expectedScore(mu, toMu(opponent.rating), opponentPhi),
+      score,
+    };
+  });
+
+  // Steps 3 and 4: estimated variance and improvement from the games alone
+  const variance = 1 / games.reduce((sum, game) => sum + game.g * game.g * game.expected * (1 - game.expected), 0);
+  const improvement = games.reduce((sum, game) => sum + game.g * (game.score - game.expected), 0);
+  const delta = variance * improvement;
+
+  // Steps 5 to 7: new volatility, deviation and rating
+  const volatility = getNewVolatility(delta, phi, variance, player.volatility, tau);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + GLICKO2_DEFAULTS.rating,
+    deviation: newPhi * SCALE,
+    volatility,
+  };
+};
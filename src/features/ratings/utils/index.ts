@@ -0,0 +1,2 @@
+export * from './glicko2Utils';
+export * from './ratingUtils';
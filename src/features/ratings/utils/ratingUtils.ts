@@ -0,0 +1,103 @@
+import { GameOutcome, PlayerRating, RatedGame, RatingRange, RatingValues } from '../types';
+import { GLICKO2_DEFAULTS, updateRating } from './glicko2Utils';
+
+/**
+ * Ratings
+ * Each game is rated as one rating period. In team games every player is rated
+ * against a composite of the other side: its average rating, with a deviation
+ * that keeps the uncertainty of the players in it.
+ */
+
+/** Ratings less certain than this are shown as provisional */
+export const PROVISIONAL_DEVIATION = 110;
+
+/** Rating bands matching the skill levels players pick on their profile */
+export const SKILL_LEVEL_RATINGS: Record<string, RatingRange> = {
+  beginner: { max: 1300 },
+  intermediate: { min: 1300, max: 1600 },
+  advanced: { min: 1600, max: 1900 },
+  expert: { min: 1900 },
+};
+
+/** Skill and rating limits as stored on a match */
+export interface RatingRequirements {
+  minSkillLevel?: string;
+  maxSkillLevel?: string;
+  minRating?: number;
+  maxRating?: number;
+}
+
+export const isProvisional = (rating: Pick<RatingValues, 'deviation'>): boolean =>
+  rating.deviation > PROVISIONAL_DEVIATION;
+
+export const formatRating = (rating: Pick<RatingValues, 'rating' | 'deviation'>): string =>
+  `${Math.round(rating.rating)}${isProvisional(rating) ? '?' : ''}`;
+
+export const toRatingMap = (ratings: PlayerRating[]): Record<string, PlayerRating> =>
+  Object.fromEntries(ratings.map(rating => [rating.userId, rating]));
+
+/**
+ * A side of one or more players as a single opponent
+ */
+export const getCompositeRating = (players: RatingValues[]): Pick<RatingValues, 'rating' | 'deviation'> => {
+  const rating = players.reduce((sum, player) => sum + player.rating, 0) / players.length;
+  const deviation = Math.sqrt(players.reduce((sum, player) => sum + player.deviation ** 2, 0) / players.length);
+  return { rating, deviation };
+};
+
+/**
+ * New ratings for everyone in a game. Players without a rating start from the defaults.
+ */
+export const rateGame = (ratings: Record<string, RatingValues>, game: RatedGame): Record<string, RatingValues> => {
+  const current = (userId: string) => ratings[userId] ?? GLICKO2_DEFAULTS;
+  const composites = game.sides.map(side => getCompositeRating(side.map(current)));
+
+  return Object.fromEntries(
+    game.sides.flatMap((side, index) => {
+      const outcome: GameOutcome = {
+        opponent: composites[1 - index],
+        score: game.winner === 'draw' ? 0.5 : game.winner === index ? 1 : 0,
+      };
+      return side.map(userId => [userId, updateRating(current(userId), [outcome])]);
+    })
+  );
+};
+
+export const getSkillLevelForRating = (rating: number): string =>
+  Object.entries(SKILL_LEVEL_RATINGS).find(
+    ([, range]) => (range.min === undefined || rating >= range.min) && (range.max === undefined || rating < range.max)
+  )![0];
+
+/**
+ * Rating range a match is open to. Explicit ratings win over skill levels.
+ */
+export const getRatingRange = (requirements?: RatingRequirements): RatingRange => ({
+  min: requirements?.minRating ?? SKILL_LEVEL_RATINGS[requirements?.minSkillLevel?.toLowerCase() ?? '']?.min,
+  max: requirements?.maxRating ?? SKILL_LEVEL_RATINGS[requirements?.maxSkillLevel?.toLowerCase() ?? '']?.max,
+});
+
+export const formatRatingRange = (range: RatingRange): string | null => {
+  if (range.min !== undefined && range.max !== undefined) return `${range.min}–${range.max}`;
+  if (range.min !== undefined) return `${range.min}+`;
+  if (range.max !== undefined) return `Up to ${range.max}`;
+  return null;
+};
+
+/**
+ * Why a player cannot join a match with this range, or null if they can.
+ * Unrated players count as the default rating.
+ */
+export const getRatingRangeError = (range: RatingRange, rating?: Pick<RatingValues, 'rating'>): string | null => {
+  const value = Math.round(rating?.rating ?? GLICKO2_DEFAULTS.rating);
+  const inRange = (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+  return inRange ? null : `This match is for players rated ${formatRatingRange(range)}. Your rating is ${value}.`;
+};
+
+/**
+ * Rating of a tournament entry: the player's own, or the average of a team roster
+ */
+export const getEntryRating = (userIds: string[], ratings: Record<string, Pick<RatingValues, 'rating'>>): number =>
+  userIds.length === 0
+    ? GLICKO2_DEFAULTS.rating
+    : userIds.reduce((sum, userId) => sum + (ratings[userId]?.rating ?? GLICKO2_DEFAULTS.rating), 0) /
+      userIds.length;
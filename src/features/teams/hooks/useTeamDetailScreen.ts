@@ -1,12 +1,13 @@
 import { logger } from '@core';
 import { useCallback } from 'react';
-import { useGetTeamByIdQuery } from '../store/teamApi';
+import { useGetTeamQuery } from '../store/teamApi';
+import { useGetTournamentsQuery } from '@features/tournaments/store';
 import { teamService } from '../services';
 
 export function useTeamDetailScreen(route: any, navigation: any) {
   const { teamId } = route.params;
-  const { data, isLoading, error, refetch } = useGetTeamByIdQuery(teamId);
-  const team = data?.data;
+  const { data: team, isLoading, error, refetch } = useGetTeamQuery(teamId);
+  const { data: tournaments = [] } = useGetTournamentsQuery({ teamId });
 
   const handleJoinTeam = useCallback(async () => {
     try {
@@ -30,12 +31,21 @@ export function useTeamDetailScreen(route: any, navigation: any) {
     navigation.navigate('EditTeam', { teamId });
   }, [teamId, navigation]);
 
+  const handleTournamentPress = useCallback(
+    (tournamentId: string) => {
+      navigation.navigate('TournamentDetail', { tournamentId });
+    },
+    [navigation]
+  );
+
   return {
     team,
+    tournaments,
     isLoading,
     error,
     onJoinTeam: handleJoinTeam,
     onLeaveTeam: handleLeaveTeam,
     onEditTeam: handleEditTeam,
+    onTournamentPress: handleTournamentPress,
   };
 }
@@ -2,7 +2,7 @@ import { useCallback } from 'react';
 import { useGetTeamsQuery } from '../store/teamApi';
 
 export function useTeamsScreen(navigation: any) {
-  const { data, isLoading, error, refetch } = useGetTeamsQuery({ page: 1, limit: 10 });
+  const { data, isLoading, isFetching, error, refetch, fulfilledTimeStamp } = useGetTeamsQuery({ page: 1, limit: 10 });
   const teams = data?.data?.items || [];
 
   const handleTeamPress = useCallback((teamId: string) => {
@@ -20,7 +20,10 @@ export function useTeamsScreen(navigation: any) {
   return {
     teams,
     isLoading,
-    error,
+    // Teams saved on the device stay on screen when a refresh fails
+    error: teams.length > 0 ? undefined : error,
+    updatedAt: fulfilledTimeStamp,
+    isRefreshing: isFetching && !isLoading,
     onTeamPress: handleTeamPress,
     onCreateTeam: handleCreateTeam,
     onRefresh: handleRefresh,
@@ -1,8 +1,9 @@
 import React from 'react';
-import { View } from 'react-native';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
 import { DetailScreenTemplate } from '@shared/components/templates';
 import { useTeamDetailScreen } from '../hooks';
 import { DetailRow } from '@shared/components/molecules';
+import { useTheme } from '../../../theme';
 
 interface TeamDetailScreenProps {
   navigation: any;
@@ -11,7 +12,8 @@ interface TeamDetailScreenProps {
 
 const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({ navigation, route }) => {
   const props = useTeamDetailScreen(route, navigation);
-  
+  const { theme } = useTheme();
+
   if (!props.team) {
     return null;
   }
@@ -21,16 +23,45 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({ navigation, route }
       title={props.team.name}
       subtitle={props.team.description}
       isLoading={props.isLoading}
-      error={props.error}
+      error={props.error ? 'Failed to load team' : undefined}
       primaryAction={{ label: 'Join Team', onPress: props.onJoinTeam }}
       secondaryAction={{ label: 'Leave Team', onPress: props.onLeaveTeam }}
     >
       <View>
-        <DetailRow label="Sport" value={props.team.sport} />
-        <DetailRow label="Members" value={`${props.team.members?.length || 0}`} />
+        <DetailRow icon="soccer" label="Sport" value={props.team.sport} />
+        <DetailRow icon="account-group" label="Members" value={`${props.team.members?.length || 0}`} />
       </View>
+
+      {props.tournaments.length > 0 && (
+        <View style={styles.section}>
+          <Text style={[theme.typography.titleMedium, styles.sectionTitle, { color: theme.colors.text }]}>
+            Tournaments
+          </Text>
+          {props.tournaments.map((tournament) => (
+            <Pressable
+              key={tournament._id}
+              accessibilityRole="button"
+              onPress={() => props.onTournamentPress(tournament._id)}>
+              <DetailRow
+                icon="tournament"
+                label={tournament.status.replace('_', ' ')}
+                value={tournament.name}
+              />
+            </Pressable>
+          ))}
+        </View>
+      )}
     </DetailScreenTemplate>
   );
 };
 
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+});
+
 export default TeamDetailScreen;
@@ -143,6 +143,8 @@ const TeamsScreen: React.FC<TeamsScreenProps> = ({ navigation }) => {
       renderItem={renderTeamItem}
       isLoading={props.isLoading}
       error={props.error}
+      updatedAt={props.updatedAt}
+      isRefreshing={props.isRefreshing}
       onRefresh={props.onRefresh}
       onAddNew={props.onCreateTeam}
       emptyMessage="No teams found"
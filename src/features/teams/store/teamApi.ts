@@ -1,22 +1,17 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { Team, CreateTeamRequest, UpdateTeamRequest } from '@features/teams/types';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery } from '@shared/services/baseQuery';
+import { extractPersistedQueries, QUERY_CACHE_REVALIDATE_AFTER_SECONDS } from '@shared/services/queryCache';
 import { unwrapApiResponse, unwrapNestedData } from '@shared/utils/apiHelpers';
+import { listOf, teamSchema } from '@shared/services/responseSchemas';
 
 export const teamApi = createApi({
   reducerPath: 'teamApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
+  // Responses saved on the device show straight away and are refetched in the background
+  extractRehydrationInfo: extractPersistedQueries,
+  refetchOnMountOrArgChange: QUERY_CACHE_REVALIDATE_AFTER_SECONDS,
   tagTypes: ['Team', 'Teams', 'MyTeams'],
   endpoints: (builder) => ({
     getTeams: builder.query<Team[], { page?: number; limit?: number; sport?: string; search?: string }>({
@@ -28,17 +23,17 @@ export const teamApi = createApi({
         if (params.search) queryParams.append('search', params.search);
         return `/teams?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Team[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Team[]>) => unwrapApiResponse(response, listOf(teamSchema)),
       providesTags: ['Teams'],
     }),
     getMyTeams: builder.query<Team[], void>({
       query: () => '/teams/my/teams',
-      transformResponse: (response: ApiResponse<{ teams: Team[] }>) => unwrapNestedData(response, 'teams'),
+      transformResponse: (response: ApiResponse<{ teams: Team[] }>) => unwrapNestedData(response, 'teams', listOf(teamSchema)),
       providesTags: ['MyTeams'],
     }),
     getTeam: builder.query<Team, string>({
       query: (id) => `/teams/${id}`,
-      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team'),
+      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team', teamSchema),
       providesTags: (result, error, id) => [{ type: 'Team', id }],
     }),
     createTeam: builder.mutation<Team, CreateTeamRequest>({
@@ -47,7 +42,7 @@ export const teamApi = createApi({
         method: 'POST',
         body: teamData,
       }),
-      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team'),
+      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team', teamSchema),
       invalidatesTags: ['Teams', 'MyTeams'],
     }),
     updateTeam: builder.mutation<Team, { id: string; data: UpdateTeamRequest }>({
@@ -56,7 +51,7 @@ export const teamApi = createApi({
         method: 'PATCH',
         body: data,
       }),
-      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team'),
+      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team', teamSchema),
       invalidatesTags: (result, error, { id }) => [{ type: 'Team', id }, 'Teams', 'MyTeams'],
     }),
     joinTeam: builder.mutation<Team, string>({
@@ -64,7 +59,7 @@ export const teamApi = createApi({
         url: `/teams/${id}/join`,
         method: 'POST',
       }),
-      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team'),
+      transformResponse: (response: ApiResponse<{ team: Team }>) => unwrapNestedData(response, 'team', teamSchema),
       invalidatesTags: (result, error, id) => [{ type: 'Team', id }, 'Teams', 'MyTeams'],
     }),
     leaveTeam: builder.mutation<void, string>({
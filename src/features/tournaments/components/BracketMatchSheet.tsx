@@ -0,0 +1,108 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import { useTheme } from '../../../theme';
+import { BottomSheet } from '@shared/components/organisms';
+import { Badge, Divider } from '@shared/components/atoms';
+import { BracketMatch } from '../types';
+
+const MATCH_STATUS_VARIANTS: Record<string, 'info' | 'warning' | 'success'> = {
+  scheduled: 'info',
+  in_progress: 'warning',
+  completed: 'success',
+};
+
+interface BracketMatchSheetProps {
+  match: BracketMatch | null;
+  participantNames: Record<string, string>;
+  onClose: () => void;
+}
+
+/**
+ * BracketMatchSheet
+ *
+ * Bottom sheet with the score, status and schedule of a single bracket match.
+ */
+const BracketMatchSheet: React.FC<BracketMatchSheetProps> = ({ match, participantNames, onClose }) => {
+  const { theme } = useTheme();
+
+  const getName = (participantId?: string) =>
+    participantId ? participantNames[participantId] ?? participantId : 'To be decided';
+
+  const renderPlayer = (slot: 'player1' | 'player2') => {
+    if (!match) return null;
+    const participantId = match[slot];
+    const isWinner = Boolean(participantId) && match.winner === participantId;
+
+    return (
+      <View style={styles.playerRow}>
+        <Text
+          style={[
+            theme.typography.titleMedium,
+            styles.playerName,
+            { color: theme.colors.text },
+            isWinner && styles.winner,
+          ]}>
+          {getName(participantId)}
+        </Text>
+        <Text style={[theme.typography.headlineSmall, { color: theme.colors.text }]}>
+          {match.score?.[slot] ?? '-'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <BottomSheet visible={Boolean(match)} onClose={onClose} height={320}>
+      {match && (
+        <View>
+          <View style={[styles.header, { marginBottom: theme.spacing.md }]}>
+            <Text style={[theme.typography.titleLarge, { color: theme.colors.text }]}>Match</Text>
+            <Badge
+              label={match.isBye ? 'BYE' : (match.status ?? 'scheduled').replace('_', ' ').toUpperCase()}
+              variant={MATCH_STATUS_VARIANTS[match.status ?? 'scheduled']}
+              size="small"
+            />
+          </View>
+
+          {renderPlayer('player1')}
+          <Divider style={{ marginVertical: theme.spacing.sm }} />
+          {renderPlayer('player2')}
+
+          <Text
+            style={[
+              theme.typography.bodyMedium,
+              { color: theme.colors.textSecondary, marginTop: theme.spacing.base },
+            ]}>
+            {match.scheduledAt
+              ? format(new Date(match.scheduledAt), 'EEE, MMM dd • h:mm a') +
+                (match.court ? ` • Court ${match.court}` : '')
+              : 'Not scheduled yet'}
+          </Text>
+        </View>
+      )}
+    </BottomSheet>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  playerName: {
+    flex: 1,
+    marginRight: 12,
+  },
+  winner: {
+    fontWeight: '700',
+  },
+});
+
+export default BracketMatchSheet;
@@ -0,0 +1,269 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, Image } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import { useTheme } from '../../../theme';
+import { BracketMatch, TournamentBracket } from '../types';
+import { DEFAULT_BRACKET_LAYOUT, getParticipantPath, layoutBracket } from '../utils';
+
+const MIN_SCALE = 0.4;
+const MAX_SCALE = 2;
+
+interface BracketViewProps {
+  bracket: TournamentBracket;
+  /** Display names keyed by participant id */
+  participantNames: Record<string, string>;
+  /** Avatar URLs keyed by participant id (team entries) */
+  participantAvatars?: Record<string, string>;
+  /** Participant whose route through the bracket is highlighted */
+  highlightedParticipantId?: string | null;
+  onMatchPress?: (match: BracketMatch) => void;
+  height?: number;
+}
+
+/**
+ * BracketView
+ *
+ * Zoomable, pannable drawing of a tournament bracket. Pinch to zoom, drag to
+ * pan and double tap to reset. Matches on the highlighted participant's path
+ * and the connectors between them are emphasised.
+ */
+const BracketView: React.FC<BracketViewProps> = ({
+  bracket,
+  participantNames,
+  participantAvatars = {},
+  highlightedParticipantId,
+  onMatchPress,
+  height = 420,
+}) => {
+  const { theme } = useTheme();
+  const layout = useMemo(() => layoutBracket(bracket), [bracket]);
+  const highlightedMatches = useMemo(
+    () =>
+      new Set(highlightedParticipantId ? getParticipantPath(bracket, highlightedParticipantId) : []),
+    [bracket, highlightedParticipantId]
+  );
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(MAX_SCALE, Math.max(MIN_SCALE, savedScale.value * event.scale));
+    })
+    .onEnd(() => {
+      savedScale.value = scale.value;
+    });
+
+  const pan = Gesture.Pan()
+    .minDistance(8)
+    .onUpdate((event) => {
+      translateX.value = savedTranslateX.value + event.translationX;
+      translateY.value = savedTranslateY.value + event.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      scale.value = withTiming(1);
+      translateX.value = withTiming(0);
+      translateY.value = withTiming(0);
+      savedScale.value = 1;
+      savedTranslateX.value = 0;
+      savedTranslateY.value = 0;
+    });
+
+  const gesture = Gesture.Simultaneous(pinch, pan, doubleTap);
+
+  const canvasStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  const getName = (participantId?: string) => {
+    if (!participantId) return 'TBD';
+    return participantNames[participantId] ?? participantId;
+  };
+
+  const renderPlayer = (match: BracketMatch, slot: 'player1' | 'player2') => {
+    const participantId = match[slot];
+    const isWinner = Boolean(participantId) && match.winner === participantId;
+    const isHighlighted = Boolean(participantId) && participantId === highlightedParticipantId;
+
+    const avatar = participantId ? participantAvatars[participantId] : undefined;
+
+    return (
+      <View style={styles.playerRow}>
+        {avatar && <Image source={{ uri: avatar }} style={styles.avatar} />}
+        <Text
+          numberOfLines={1}
+          style={[
+            theme.typography.bodySmall,
+            styles.playerName,
+            { color: participantId ? theme.colors.text : theme.colors.textTertiary },
+            (isWinner || isHighlighted) && styles.emphasised,
+          ]}>
+          {match.isBye && !participantId ? 'Bye' : getName(participantId)}
+        </Text>
+        {match.score?.[slot] !== undefined && (
+          <Text style={[theme.typography.labelMedium, { color: theme.colors.text }]}>
+            {match.score[slot]}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View
+      style={[
+        styles.viewport,
+        { height, backgroundColor: theme.colors.surfaceVariant, borderRadius: theme.borderRadius.md },
+      ]}>
+      <GestureDetector gesture={gesture}>
+        <Animated.View
+          style={[
+            styles.canvas,
+            { width: layout.width + theme.spacing.base * 2, height: layout.height + theme.spacing.base * 2 },
+            canvasStyle,
+          ]}>
+          {layout.headers.map((header) => (
+            <Text
+              key={`${header.label}-${header.x}-${header.y}`}
+              style={[
+                theme.typography.labelMedium,
+                styles.absolute,
+                {
+                  left: header.x + theme.spacing.base,
+                  top: header.y + theme.spacing.base,
+                  width: DEFAULT_BRACKET_LAYOUT.matchWidth,
+                  color: theme.colors.textSecondary,
+                },
+              ]}>
+              {header.label}
+            </Text>
+          ))}
+
+          {layout.connectors.map((segment, index) => {
+            const isHighlighted =
+              highlightedMatches.has(segment.fromMatchId) && highlightedMatches.has(segment.toMatchId);
+            return (
+              <View
+                key={`${segment.fromMatchId}-${index}`}
+                style={[
+                  styles.absolute,
+                  {
+                    left: segment.x + theme.spacing.base,
+                    top: segment.y + theme.spacing.base,
+                    width: Math.max(segment.width, isHighlighted ? 3 : 1),
+                    height: Math.max(segment.height, isHighlighted ? 3 : 1),
+                    backgroundColor: isHighlighted ? theme.colors.primary : theme.colors.border,
+                  },
+                ]}
+              />
+            );
+          })}
+
+          {layout.matches.map(({ match, x, y }) => {
+            const isHighlighted = highlightedMatches.has(match.matchId);
+            return (
+              <Pressable
+                key={match.matchId}
+                accessibilityRole="button"
+                accessibilityLabel={`${getName(match.player1)} versus ${getName(match.player2)}`}
+                onPress={() => onMatchPress?.(match)}
+                style={[
+                  styles.absolute,
+                  styles.match,
+                  {
+                    left: x + theme.spacing.base,
+                    top: y + theme.spacing.base,
+                    width: DEFAULT_BRACKET_LAYOUT.matchWidth,
+                    height: DEFAULT_BRACKET_LAYOUT.matchHeight,
+                    borderRadius: theme.borderRadius.sm,
+                    backgroundColor: theme.colors.surface,
+                    borderColor: isHighlighted ? theme.colors.primary : theme.colors.border,
+                  },
+                  isHighlighted && styles.highlightedMatch,
+                  match.isBye && styles.byeMatch,
+                ]}>
+                {renderPlayer(match, 'player1')}
+                <View style={[styles.divider, { backgroundColor: theme.colors.border }]} />
+                {renderPlayer(match, 'player2')}
+                {match.status === 'in_progress' && (
+                  <View style={[styles.liveDot, { backgroundColor: theme.colors.error }]} />
+                )}
+              </Pressable>
+            );
+          })}
+        </Animated.View>
+      </GestureDetector>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  viewport: {
+    overflow: 'hidden',
+  },
+  canvas: {
+    position: 'relative',
+  },
+  absolute: {
+    position: 'absolute',
+  },
+  match: {
+    justifyContent: 'center',
+    paddingHorizontal: 8,
+    borderWidth: 1,
+  },
+  highlightedMatch: {
+    borderWidth: 2,
+  },
+  byeMatch: {
+    opacity: 0.6,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  playerName: {
+    flex: 1,
+    marginRight: 8,
+  },
+  avatar: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    marginRight: 6,
+  },
+  emphasised: {
+    fontWeight: '700',
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+  },
+  liveDot: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+});
+
+export default BracketView;
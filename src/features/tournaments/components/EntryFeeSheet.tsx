@@ -0,0 +1,59 @@
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { BottomSheet } from '@shared/components/organisms';
+import PaymentForm from '@features/profile/components/PaymentForm';
+
+interface EntryFeeSheetProps {
+  checkout: {
+    clientSecret: string;
+    amount: number;
+    currency: string;
+  } | null;
+  tournamentName: string;
+  onPaymentSuccess: (paymentIntentId: string) => void;
+  onPaymentError: (error: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * EntryFeeSheet
+ *
+ * Card payment for a tournament's entry fee, shown before the entry is
+ * registered.
+ */
+const EntryFeeSheet: React.FC<EntryFeeSheetProps> = ({
+  checkout,
+  tournamentName,
+  onPaymentSuccess,
+  onPaymentError,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+
+  return (
+    <BottomSheet visible={Boolean(checkout)} onClose={onClose} height={420}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text }]}>Entry fee</Text>
+      <Text style={[theme.typography.bodyMedium, styles.note, { color: theme.colors.textSecondary }]}>
+        {`Pay to enter ${tournamentName}. The fee is refunded if you withdraw before the registration deadline.`}
+      </Text>
+      {checkout && (
+        <PaymentForm
+          amount={checkout.amount}
+          currency={checkout.currency}
+          clientSecret={checkout.clientSecret}
+          onPaymentSuccess={onPaymentSuccess}
+          onPaymentError={onPaymentError}
+        />
+      )}
+    </BottomSheet>
+  );
+};
+
+const styles = StyleSheet.create({
+  note: {
+    marginTop: 8,
+  },
+});
+
+export default EntryFeeSheet;
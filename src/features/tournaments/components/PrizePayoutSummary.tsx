@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { formatCurrency } from '@shared/utils';
+import { PrizePayoutSummary as PrizePayoutSummaryData } from '../utils';
+
+interface PrizePayoutSummaryProps {
+  summary: PrizePayoutSummaryData;
+  participantNames: Record<string, string>;
+}
+
+const POSITION_LABELS = ['1st', '2nd', '3rd'];
+
+/**
+ * PrizePayoutSummary
+ *
+ * What each placed participant is owed from the prize fund, shown to the
+ * organizer once the tournament is complete.
+ */
+const PrizePayoutSummary: React.FC<PrizePayoutSummaryProps> = ({ summary, participantNames }) => {
+  const { theme } = useTheme();
+  const format = (amount: number) => formatCurrency(amount / 100, summary.currency);
+
+  return (
+    <View style={[styles.container, { borderColor: theme.colors.border, borderRadius: theme.borderRadius.md }]}>
+      <Text style={[theme.typography.titleMedium, { color: theme.colors.text }]}>Prize payouts</Text>
+
+      {summary.payouts.map(payout => (
+        <View key={payout.participantId} style={styles.row}>
+          <Text style={[theme.typography.labelMedium, styles.position, { color: theme.colors.textSecondary }]}>
+            {POSITION_LABELS[payout.position - 1] ?? `${payout.position}th`}
+          </Text>
+          <Text numberOfLines={1} style={[theme.typography.bodyMedium, styles.name, { color: theme.colors.text }]}>
+            {participantNames[payout.participantId] ?? payout.participantId}
+          </Text>
+          <Text style={[theme.typography.labelLarge, { color: theme.colors.text }]}>{format(payout.amount)}</Text>
+        </View>
+      ))}
+
+      <Text style={[theme.typography.bodySmall, styles.footnote, { color: theme.colors.textSecondary }]}>
+        {summary.unallocated > 0
+          ? `${format(summary.unallocated)} of the ${format(summary.total)} fund is not allocated to a place`
+          : `Total ${format(summary.total)}`}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: StyleSheet.hairlineWidth,
+    padding: 12,
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  position: {
+    width: 40,
+  },
+  name: {
+    flex: 1,
+    marginRight: 8,
+  },
+  footnote: {
+    marginTop: 8,
+  },
+});
+
+export default PrizePayoutSummary;
@@ -0,0 +1,150 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../theme';
+import { Avatar } from '@shared/components/atoms';
+import { TournamentFormat, TournamentStanding } from '../types';
+
+interface StandingsTableProps {
+  standings: TournamentStanding[];
+  /** Swiss tables show the Buchholz and Sonneborn-Berger tiebreaks instead of score difference */
+  format?: TournamentFormat;
+  /** Avatar URLs keyed by participant id (team entries) */
+  participantAvatars?: Record<string, string>;
+  /** Participant whose row is emphasised */
+  highlightedParticipantId?: string | null;
+  /** Note shown under the table, e.g. when the server's standings disagree */
+  footnote?: string;
+}
+
+const COLUMNS: { key: keyof TournamentStanding; label: string }[] = [
+  { key: 'played', label: 'P' },
+  { key: 'wins', label: 'W' },
+  { key: 'draws', label: 'D' },
+  { key: 'losses', label: 'L' },
+  { key: 'scoreDifference', label: '+/-' },
+  { key: 'points', label: 'Pts' },
+];
+
+const SWISS_COLUMNS: { key: keyof TournamentStanding; label: string }[] = [
+  { key: 'wins', label: 'W' },
+  { key: 'draws', label: 'D' },
+  { key: 'losses', label: 'L' },
+  { key: 'points', label: 'Pts' },
+  { key: 'buchholz', label: 'Bu' },
+  { key: 'sonnebornBerger', label: 'SB' },
+];
+
+/**
+ * StandingsTable
+ *
+ * League table with rank, record, score difference and points, or for Swiss
+ * events the record, points and tiebreaks.
+ */
+const StandingsTable: React.FC<StandingsTableProps> = ({
+  standings,
+  format,
+  participantAvatars = {},
+  highlightedParticipantId,
+  footnote,
+}) => {
+  const { theme } = useTheme();
+  const columns = format === 'swiss' ? SWISS_COLUMNS : COLUMNS;
+
+  const renderCell = (value: React.ReactNode, key: string, isHeader = false) => (
+    <Text
+      key={key}
+      style={[
+        isHeader ? theme.typography.labelMedium : theme.typography.bodySmall,
+        styles.cell,
+        { color: isHeader ? theme.colors.textSecondary : theme.colors.text },
+      ]}>
+      {value}
+    </Text>
+  );
+
+  return (
+    <View style={[styles.table, { borderColor: theme.colors.border, borderRadius: theme.borderRadius.md }]}>
+      <View style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+        {renderCell('#', 'rank', true)}
+        <Text style={[theme.typography.labelMedium, styles.name, { color: theme.colors.textSecondary }]}>
+          Participant
+        </Text>
+        {columns.map(column => renderCell(column.label, column.key, true))}
+      </View>
+
+      {standings.map(standing => {
+        const isHighlighted = standing.participantId === highlightedParticipantId;
+        return (
+          <View
+            key={standing.participantId}
+            style={[
+              styles.row,
+              { borderBottomColor: theme.colors.border },
+              isHighlighted && { backgroundColor: theme.colors.surfaceVariant },
+            ]}>
+            {renderCell(standing.rank, 'rank')}
+            {participantAvatars[standing.participantId] && (
+              <Avatar
+                source={{ uri: participantAvatars[standing.participantId] }}
+                name={standing.name}
+                size="small"
+                style={styles.avatar}
+              />
+            )}
+            <Text
+              numberOfLines={1}
+              style={[
+                theme.typography.bodySmall,
+                styles.name,
+                { color: theme.colors.text },
+                isHighlighted && styles.emphasised,
+              ]}>
+              {standing.name}
+            </Text>
+            {columns.map(column => renderCell(standing[column.key] ?? '-', column.key))}
+          </View>
+        );
+      })}
+
+      {footnote && (
+        <Text
+          style={[theme.typography.bodySmall, styles.footnote, { color: theme.colors.textSecondary }]}>
+          {footnote}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  table: {
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  cell: {
+    width: 32,
+    textAlign: 'center',
+  },
+  name: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  avatar: {
+    marginLeft: 8,
+  },
+  emphasised: {
+    fontWeight: '700',
+  },
+  footnote: {
+    padding: 12,
+  },
+});
+
+export default StandingsTable;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../../../theme';
+import { BottomSheet } from '@shared/components/organisms';
+import { Avatar, Button, Chip } from '@shared/components/atoms';
+import { Team } from '@features/teams/types';
+import { TournamentRuleReason } from '../services';
+
+interface TeamEntrySheetProps {
+  visible: boolean;
+  /** Teams the current user captains */
+  teams: Team[];
+  selectedTeam: Team | null;
+  /** User ids picked for the roster */
+  roster: string[];
+  rosterSize?: number;
+  isSubmitting: boolean;
+  rejection: TournamentRuleReason | null;
+  onSelectTeam: (teamId: string) => void;
+  onToggleMember: (userId: string) => void;
+  onSubmit: () => void;
+  onClose: () => void;
+}
+
+/**
+ * TeamEntrySheet
+ *
+ * Bottom sheet where a captain enters one of their teams into a tournament
+ * and picks the roster from its members.
+ */
+const TeamEntrySheet: React.FC<TeamEntrySheetProps> = ({
+  visible,
+  teams,
+  selectedTeam,
+  roster,
+  rosterSize,
+  isSubmitting,
+  rejection,
+  onSelectTeam,
+  onToggleMember,
+  onSubmit,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+
+  return (
+    <BottomSheet visible={visible} onClose={onClose} height={520}>
+      <Text style={[theme.typography.titleLarge, { color: theme.colors.text }]}>Enter a team</Text>
+
+      {teams.length === 0 ? (
+        <Text style={[theme.typography.bodyMedium, styles.section, { color: theme.colors.textSecondary }]}>
+          Only team captains can enter a team. Create a team for this sport to take part.
+        </Text>
+      ) : (
+        <>
+          <View style={[styles.section, styles.wrap]}>
+            {teams.map((team) => (
+              <Chip
+                key={team._id}
+                label={team.name}
+                selected={selectedTeam?._id === team._id}
+                onPress={() => onSelectTeam(team._id)}
+                style={styles.chip}
+              />
+            ))}
+          </View>
+
+          {selectedTeam && (
+            <>
+              <Text style={[theme.typography.labelLarge, styles.section, { color: theme.colors.text }]}>
+                {rosterSize ? `Roster (${roster.length}/${rosterSize})` : `Roster (${roster.length})`}
+              </Text>
+              <View style={styles.wrap}>
+                {selectedTeam.members.map((member) => {
+                  const name = `${member.user.profile.firstName} ${member.user.profile.lastName}`;
+                  return (
+                    <View key={member.user._id} style={styles.member}>
+                      <Avatar name={name} size="small" />
+                      <Chip
+                        label={name}
+                        selected={roster.includes(member.user._id)}
+                        onPress={() => onToggleMember(member.user._id)}
+                        size="small"
+                        style={styles.memberChip}
+                      />
+                    </View>
+                  );
+                })}
+              </View>
+            </>
+          )}
+        </>
+      )}
+
+      {rejection && (
+        <Text style={[theme.typography.bodySmall, styles.section, { color: theme.colors.error }]}>
+          {t(`tournamentErrors.${rejection}`)}
+        </Text>
+      )}
+
+      <Button
+        title="Register team"
+        onPress={onSubmit}
+        loading={isSubmitting}
+        disabled={!selectedTeam || roster.length === 0 || isSubmitting}
+        fullWidth
+        style={styles.section}
+      />
+    </BottomSheet>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 16,
+  },
+  wrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  member: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+    marginBottom: 8,
+  },
+  memberChip: {
+    marginLeft: 6,
+  },
+});
+
+export default TeamEntrySheet;
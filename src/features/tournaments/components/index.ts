@@ -0,0 +1,6 @@
+export { default as BracketView } from './BracketView';
+export { default as BracketMatchSheet } from './BracketMatchSheet';
+export { default as StandingsTable } from './StandingsTable';
+export { default as TeamEntrySheet } from './TeamEntrySheet';
+export { default as EntryFeeSheet } from './EntryFeeSheet';
+export { default as PrizePayoutSummary } from './PrizePayoutSummary';
@@ -1,3 +1,7 @@
 export { useTournamentsScreen } from './useTournamentsScreen';
 export { useTournamentDetailScreen } from './useTournamentDetailScreen';
 export { useCreateTournamentScreen } from './useCreateTournamentScreen';
+export { useTournamentStandings } from './useTournamentStandings';
+export { useTeamEntry } from './useTeamEntry';
+export { useEntryFeePayment } from './useEntryFeePayment';
+export { useTournamentScheduleScreen } from './useTournamentScheduleScreen';
@@ -1,61 +1,156 @@
-import { useState, useCallback } from 'react';
-import { useForm } from '@shared/hooks';
+import { useState, useCallback, useMemo } from 'react';
+import { TOURNAMENT_FORMATS } from '@core/constants';
+import { FormField } from '@shared/components/templates';
+import { validateDate, validateName, validateNumber } from '@shared/utils/validation';
 import { tournamentService } from '../services';
+import { CreateTournamentRequest, TournamentEntryType, TournamentFormat } from '../types';
+import { getRecommendedSwissRounds } from '../utils';
+
+const DEFAULT_MAX_PARTICIPANTS = 16;
+
+const ENTRY_TYPE_OPTIONS: { value: TournamentEntryType; label: string }[] = [
+  { value: 'individual', label: 'Individual' },
+  { value: 'team', label: 'Teams' },
+];
+
+const formFields: FormField[] = [
+  { name: 'name', label: 'Tournament Name', type: 'text', required: true },
+  { name: 'description', label: 'Description', type: 'textarea' },
+  { name: 'sport', label: 'Sport', type: 'text', required: true },
+  {
+    name: 'maxParticipants',
+    label: 'Max Participants',
+    type: 'number',
+    required: true,
+    defaultValue: String(DEFAULT_MAX_PARTICIPANTS),
+  },
+  {
+    name: 'registrationDeadline',
+    label: 'Registration Deadline',
+    type: 'text',
+    placeholder: 'YYYY-MM-DD',
+    required: true,
+  },
+  { name: 'startDate', label: 'Start Date', type: 'text', placeholder: 'YYYY-MM-DD', required: true },
+  { name: 'endDate', label: 'End Date', type: 'text', placeholder: 'YYYY-MM-DD', required: true },
+];
 
 export function useCreateTournamentScreen(navigation: any) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [rounds, setRounds] = useState('');
+  const [entryType, setEntryType] = useState<TournamentEntryType>('individual');
+  const [rosterSize, setRosterSize] = useState('');
+
+  const formatOptions = useMemo(
+    () => TOURNAMENT_FORMATS.map(option => ({ value: option.name as TournamentFormat, label: option.label })),
+    []
+  );
+
+  const validateForm = useCallback(
+    (data: Record<string, string>): Record<string, string> => {
+      const errors: Record<string, string> = {};
+
+      const checks = {
+        name: validateName(data.name ?? '', 'Tournament name'),
+        sport: validateName(data.sport ?? '', 'Sport', 1),
+        maxParticipants: validateNumber(data.maxParticipants ?? '', 'Max participants', 2, 256),
+        registrationDeadline: validateDate(data.registrationDeadline ?? '', 'Registration deadline'),
+        startDate: validateDate(data.startDate ?? '', 'Start date'),
+        endDate: validateDate(data.endDate ?? '', 'End date'),
+      };
+      Object.entries(checks).forEach(([field, result]) => {
+        if (!result.isValid) errors[field] = result.error;
+      });
+
+      if (!errors.startDate && !errors.endDate && data.endDate < data.startDate) {
+        errors.endDate = 'End date cannot be before the start date';
+      }
+      if (!errors.registrationDeadline && !errors.startDate && data.registrationDeadline > data.startDate) {
+        errors.registrationDeadline = 'Registration must close before the tournament starts';
+      }
 
-  const { values, errors, handleChange, validate } = useForm({
-    initialValues: {
-      name: '',
-      sport: '',
-      format: 'single_elimination',
-      startDate: new Date(),
-      endDate: new Date(),
-      maxTeams: 16,
-      registrationDeadline: new Date(),
+      if (format === 'swiss' && !errors.maxParticipants) {
+        // A Swiss event cannot run more rounds than there are distinct opponents
+        const roundsCheck = validateNumber(
+          rounds,
+          'Rounds',
+          1,
+          parseInt(data.maxParticipants, 10) - 1,
+          false
+        );
+        if (!roundsCheck.isValid) errors.rounds = roundsCheck.error;
+      }
+
+      if (entryType === 'team') {
+        const rosterCheck = validateNumber(rosterSize, 'Roster size', 1, 50, false);
+        if (!rosterCheck.isValid) errors.rosterSize = rosterCheck.error;
+      }
+
+      return errors;
     },
-    validationRules: {
-      name: (value) => {
-        if (!value || value.length < 3) {
-          return 'Tournament name must be at least 3 characters';
-        }
-        return null;
-      },
-      sport: (value) => {
-        if (!value) {
-          return 'Sport is required';
-        }
-        return null;
-      },
+    [format, rounds, entryType, rosterSize]
+  );
+
+  const handleSubmit = useCallback(
+    async (data: Record<string, string>) => {
+      const errors = validateForm(data);
+      setValidationErrors(errors);
+      if (Object.keys(errors).length > 0) {
+        return;
+      }
+
+      const maxParticipants = parseInt(data.maxParticipants, 10);
+      const request: CreateTournamentRequest = {
+        name: data.name.trim(),
+        description: data.description?.trim() || undefined,
+        sport: data.sport.trim(),
+        format,
+        entryType,
+        maxParticipants,
+        registrationDeadline: data.registrationDeadline,
+        startDate: data.startDate,
+        endDate: data.endDate,
+      };
+      if (entryType === 'team' && rosterSize) {
+        request.rosterSize = parseInt(rosterSize, 10);
+      }
+      if (format === 'swiss') {
+        request.rounds = rounds ? parseInt(rounds, 10) : getRecommendedSwissRounds(maxParticipants);
+      }
+
+      setIsSubmitting(true);
+      setError(null);
+
+      try {
+        await tournamentService.createTournament(request);
+        navigation.goBack();
+      } catch (err: any) {
+        setError(err.message || 'Failed to create tournament');
+      } finally {
+        setIsSubmitting(false);
+      }
     },
-  });
-
-  const handleSubmit = useCallback(async () => {
-    if (!validate()) {
-      return;
-    }
-
-    setIsSubmitting(true);
-    setError(null);
-
-    try {
-      await tournamentService.createTournament(values);
-      navigation.goBack();
-    } catch (err: any) {
-      setError(err.message || 'Failed to create tournament');
-    } finally {
-      setIsSubmitting(false);
-    }
-  }, [values, validate, navigation]);
+    [format, rounds, entryType, rosterSize, validateForm, navigation]
+  );
 
   return {
-    values,
-    errors,
+    formFields,
+    formatOptions,
+    format,
+    rounds,
+    entryTypeOptions: ENTRY_TYPE_OPTIONS,
+    entryType,
+    rosterSize,
+    validationErrors,
     error,
     isSubmitting,
-    onChange: handleChange,
-    onSubmit: handleSubmit,
+    onFormatChange: setFormat,
+    onRoundsChange: setRounds,
+    onEntryTypeChange: setEntryType,
+    onRosterSizeChange: setRosterSize,
+    handleSubmit,
   };
 }
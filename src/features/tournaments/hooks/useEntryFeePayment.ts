@@ -0,0 +1,108 @@
+import { logger } from '@core';
+import { useCallback, useRef, useState } from 'react';
+import {
+  useConfirmPaymentMutation,
+  useCreatePaymentIntentMutation,
+  useRequestRefundMutation,
+} from '@features/profile/store';
+import { getEntryFeeAmount } from '../services';
+import { Tournament } from '../types';
+
+interface EntryFeeCheckout {
+  clientSecret: string;
+  amount: number;
+  currency: string;
+}
+
+type OnEntryFeePaid = (paymentIntentId: string) => Promise<void>;
+
+/**
+ * Entry fee collection through Stripe. `requestPayment` creates a payment
+ * intent scoped to the tournament and opens the checkout; once the card
+ * payment succeeds `onPaid` registers the entry with the payment attached.
+ * `onPaid` must throw when the entry is turned down, so the fee is refunded.
+ */
+export function useEntryFeePayment(tournament: Tournament | undefined) {
+  const [createPaymentIntent] = useCreatePaymentIntentMutation();
+  const [confirmPayment] = useConfirmPaymentMutation();
+  const [requestRefund] = useRequestRefundMutation();
+  const [checkout, setCheckout] = useState<EntryFeeCheckout | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onPaidRef = useRef<OnEntryFeePaid | null>(null);
+
+  const requestPayment = useCallback(
+    async (onPaid: OnEntryFeePaid) => {
+      if (!tournament?.entryFee) return;
+
+      setIsPreparing(true);
+      setError(null);
+      try {
+        const amount = getEntryFeeAmount(tournament);
+        const { clientSecret } = await createPaymentIntent({
+          amount,
+          currency: tournament.entryFee.currency,
+          tournamentId: tournament._id,
+          metadata: { tournamentId: tournament._id, purpose: 'tournament_entry_fee' },
+        }).unwrap();
+
+        onPaidRef.current = onPaid;
+        setCheckout({ clientSecret, amount, currency: tournament.entryFee.currency });
+      } catch (err) {
+        setError('Could not start the entry fee payment. Please try again.');
+        logger.error('Failed to create entry fee payment:', err instanceof Error ? err : undefined);
+      } finally {
+        setIsPreparing(false);
+      }
+    },
+    [tournament, createPaymentIntent]
+  );
+
+  const handlePaymentSuccess = useCallback(
+    async (paymentIntentId: string) => {
+      setCheckout(null);
+      try {
+        await confirmPayment({ paymentIntentId, tournamentId: tournament?._id }).unwrap();
+        await onPaidRef.current?.(paymentIntentId);
+      } catch (err) {
+        logger.error('Failed to complete paid tournament entry:', err instanceof Error ? err : undefined);
+        try {
+          await requestRefund({
+            paymentIntentId,
+            tournamentId: tournament?._id,
+            reason: 'Entry could not be completed after payment',
+          }).unwrap();
+          setError('Your payment went through but the entry could not be completed. Your entry fee has been refunded.');
+        } catch (refundErr) {
+          setError(
+            'Your payment went through but the entry could not be completed, and the refund could not be ' +
+              'requested. Please contact the organizer.'
+          );
+          logger.error('Failed to refund entry fee:', refundErr instanceof Error ? refundErr : undefined);
+        }
+      } finally {
+        onPaidRef.current = null;
+      }
+    },
+    [confirmPayment, requestRefund, tournament?._id]
+  );
+
+  const handlePaymentError = useCallback((message: string) => {
+    setError(message);
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    setCheckout(null);
+    onPaidRef.current = null;
+  }, []);
+
+  return {
+    checkout,
+    isPreparing,
+    error,
+    requestPayment,
+    onPaymentSuccess: handlePaymentSuccess,
+    onPaymentError: handlePaymentError,
+    onCancel: handleCancel,
+  };
+}
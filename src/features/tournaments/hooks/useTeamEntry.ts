@@ -0,0 +1,131 @@
+import { logger } from '@core';
+import { useCallback, useMemo, useState } from 'react';
+import { useGetMyTeamsQuery } from '@features/teams/store';
+import {
+  assertCanRegisterTeam,
+  tournamentService,
+  TournamentRuleError,
+  TournamentRuleReason,
+} from '../services';
+import { Tournament } from '../types';
+
+/**
+ * Team registration for a team tournament: the captain picks one of their
+ * teams and a roster from its members. When the tournament charges an entry
+ * fee, `payEntryFee` collects it before the team is registered.
+ */
+export function useTeamEntry(
+  tournament: Tournament | undefined,
+  currentUserId: string | null | undefined,
+  onRegistered?: () => void,
+  payEntryFee?: (onPaid: (paymentIntentId: string) => Promise<void>) => Promise<void>
+) {
+  const isTeamTournament = tournament?.entryType === 'team';
+  const { data: myTeams } = useGetMyTeamsQuery(undefined, { skip: !isTeamTournament });
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rejection, setRejection] = useState<TournamentRuleReason | null>(null);
+
+  const captainedTeams = useMemo(
+    () =>
+      (myTeams ?? []).filter(
+        (team) =>
+          team.captain._id === currentUserId &&
+          (!tournament?.sport || team.sport === tournament.sport)
+      ),
+    [myTeams, currentUserId, tournament?.sport]
+  );
+
+  const selectedTeam = captainedTeams.find((team) => team._id === selectedTeamId) ?? null;
+
+  const handleSelectTeam = useCallback(
+    (teamId: string) => {
+      setSelectedTeamId(teamId);
+      setRejection(null);
+      const team = captainedTeams.find((candidate) => candidate._id === teamId);
+      // Start from the full squad, trimmed to the roster size
+      const members = team?.members.map((member) => member.user._id) ?? [];
+      setRoster(tournament?.rosterSize ? members.slice(0, tournament.rosterSize) : members);
+    },
+    [captainedTeams, tournament?.rosterSize]
+  );
+
+  const handleToggleMember = useCallback((userId: string) => {
+    setRoster((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
+  }, []);
+
+  const handleOpen = useCallback(() => setIsOpen(true), []);
+
+  const handleClose = useCallback(() => setIsOpen(false), []);
+
+  const register = useCallback(
+    async (entryFeePaymentId?: string) => {
+      if (!tournament || !selectedTeam) return;
+
+      setIsSubmitting(true);
+      setRejection(null);
+      try {
+        await tournamentService.registerTeam(tournament._id, selectedTeam, roster, {
+          userId: currentUserId,
+          entryFeePaymentId,
+        });
+        setIsOpen(false);
+        onRegistered?.();
+      } catch (err) {
+        if (err instanceof TournamentRuleError) {
+          setRejection(err.reason);
+          setIsOpen(true);
+        }
+        logger.error('Failed to register team:', err instanceof Error ? err : undefined);
+        // A paid entry that failed is refunded by the entry fee checkout
+        if (entryFeePaymentId) {
+          throw err;
+        }
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [tournament, selectedTeam, roster, currentUserId, onRegistered]
+  );
+
+  const handleSubmit = useCallback(async () => {
+    if (!tournament || !selectedTeam) return;
+
+    setRejection(null);
+    try {
+      // Check the entry locally first so nobody pays for an entry that would be rejected
+      assertCanRegisterTeam(tournament, selectedTeam, roster, { userId: currentUserId });
+    } catch (err) {
+      if (err instanceof TournamentRuleError && err.reason === 'ENTRY_FEE_REQUIRED' && payEntryFee) {
+        setIsOpen(false);
+        await payEntryFee(register);
+        return;
+      }
+      if (err instanceof TournamentRuleError) {
+        setRejection(err.reason);
+        return;
+      }
+    }
+    await register();
+  }, [tournament, selectedTeam, roster, currentUserId, payEntryFee, register]);
+
+  return {
+    isTeamTournament,
+    isOpen,
+    teams: captainedTeams,
+    selectedTeam,
+    roster,
+    rosterSize: tournament?.rosterSize,
+    isSubmitting,
+    rejection,
+    onOpen: handleOpen,
+    onClose: handleClose,
+    onSelectTeam: handleSelectTeam,
+    onToggleMember: handleToggleMember,
+    onSubmit: handleSubmit,
+  };
+}
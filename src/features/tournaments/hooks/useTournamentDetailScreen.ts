@@ -1,36 +1,264 @@
 import { logger } from '@core';
-import { useCallback } from 'react';
-import { useGetTournamentByIdQuery } from '../store/tournamentApi';
-import { tournamentService } from '../services';
+import { useCallback, useMemo, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store';
+import { useSocketEvent, useSocketRoom } from '@shared/hooks';
+import { tournamentApi, useGetBracketQuery, useGetTournamentQuery } from '../store/tournamentApi';
+import {
+  assertCanJoin,
+  assertCanPairRound,
+  isEntryFeeRefundable,
+  tournamentService,
+  TournamentRuleError,
+  TournamentRuleReason,
+} from '../services';
+import { BracketMatch } from '../types';
+import {
+  calculatePrizePayouts,
+  getFinalPlacings,
+  getParticipantAvatar,
+  getParticipantName,
+  isParticipantMember,
+} from '../utils';
+import { useTournamentStandings } from './useTournamentStandings';
+import { useTeamEntry } from './useTeamEntry';
+import { useEntryFeePayment } from './useEntryFeePayment';
 
-export function useTournamentDetailScreen(route: any, _navigation: any) {
+export function useTournamentDetailScreen(route: any, navigation: any) {
   const { tournamentId } = route.params;
-  const { data, isLoading, error, refetch } = useGetTournamentByIdQuery(tournamentId);
-  const tournament = data?.data;
+  const dispatch = useAppDispatch();
+  const currentUserId = useAppSelector(selectUserId);
+  const { data: tournament, isLoading, error, refetch } = useGetTournamentQuery(tournamentId);
+  const hasBracket = tournament ? tournament.status !== 'registration_open' : false;
+  const { data: fetchedBracket } = useGetBracketQuery(tournamentId, { skip: !hasBracket });
+  const bracket = fetchedBracket ?? tournament?.bracket;
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  const [ruleViolation, setRuleViolation] = useState<TournamentRuleReason | null>(null);
+  const [refundRequested, setRefundRequested] = useState(false);
+  const [refundError, setRefundError] = useState<string | null>(null);
+  const { standings, discrepancies: standingsDiscrepancies } = useTournamentStandings(tournament, bracket);
+  const entryFee = useEntryFeePayment(tournament);
+  const { requestPayment: requestEntryFee } = entryFee;
+  const teamEntry = useTeamEntry(tournament, currentUserId, refetch, requestEntryFee);
+  const isOrganizer = Boolean(currentUserId) && tournament?.organizer._id === currentUserId;
+
+  const { participantNames, participantAvatars } = useMemo(() => {
+    const names: Record<string, string> = {};
+    const avatars: Record<string, string> = {};
+    tournament?.participants.forEach((participant) => {
+      names[participant._id] = getParticipantName(participant);
+      const avatar = getParticipantAvatar(participant);
+      if (avatar) avatars[participant._id] = avatar;
+    });
+    return { participantNames: names, participantAvatars: avatars };
+  }, [tournament?.participants]);
+
+  // In team tournaments the bracket holds team ids, so follow the user's team
+  const currentEntryId = useMemo(() => {
+    if (!currentUserId) return null;
+    return (
+      tournament?.participants.find((participant) => isParticipantMember(participant, currentUserId))
+        ?._id ?? currentUserId
+    );
+  }, [tournament?.participants, currentUserId]);
+
+  const currentEntry = useMemo(() => {
+    if (!currentUserId) return undefined;
+    return tournament?.participants.find(
+      (participant) =>
+        isParticipantMember(participant, currentUserId) || participant.team?.captainId === currentUserId
+    );
+  }, [tournament?.participants, currentUserId]);
+
+  const canLeave = Boolean(currentEntry) && tournament?.status === 'registration_open';
+  const isLeaveRefundable = Boolean(
+    tournament && currentEntry && isEntryFeeRefundable(tournament, currentEntry)
+  );
+
+  // Swiss organizers pair each round once the previous one is finished
+  const canPairRound = useMemo(() => {
+    if (!isOrganizer || !tournament) return false;
+    try {
+      assertCanPairRound(tournament, bracket);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [isOrganizer, tournament, bracket]);
+
+  // Organizers see what each placed participant is owed once the tournament is over
+  const prizePayouts = useMemo(() => {
+    if (!isOrganizer || tournament?.status !== 'completed' || !tournament.prize?.total) return null;
+    return calculatePrizePayouts(tournament.prize, getFinalPlacings(tournament, bracket, standings));
+  }, [isOrganizer, tournament, bracket, standings]);
+
+  // Look the match up on every render so the sheet follows live score updates
+  const selectedMatch = useMemo(() => {
+    if (!selectedMatchId || !bracket) return null;
+    return (
+      bracket.rounds
+        .flatMap((round) => round.matches)
+        .find((match) => match.matchId === selectedMatchId) ?? null
+    );
+  }, [bracket, selectedMatchId]);
+
+  useSocketRoom('tournament', tournamentId);
+  useSocketEvent('tournament_match_completed', (data) => {
+    if (data.tournamentId !== tournamentId) return;
+
+    // Show the result straight away, then pull the server's advancement
+    dispatch(
+      tournamentApi.util.updateQueryData('getBracket', tournamentId, (draft) => {
+        const match = draft.rounds
+          .flatMap((round) => round.matches)
+          .find((candidate) => candidate.matchId === data.matchId);
+        if (match) {
+          match.status = 'completed';
+          if (data.result.score) match.score = data.result.score;
+          if (data.result.winner) match.winner = data.result.winner;
+        }
+      })
+    );
+    dispatch(
+      tournamentApi.util.invalidateTags([
+        { type: 'Bracket', id: tournamentId },
+        { type: 'Standings', id: tournamentId },
+      ])
+    );
+  });
+
+  const join = useCallback(
+    async (entryFeePaymentId?: string) => {
+      try {
+        await tournamentService.joinTournament(tournamentId, { userId: currentUserId, entryFeePaymentId });
+        await refetch();
+      } catch (err) {
+        if (err instanceof TournamentRuleError) {
+          setRuleViolation(err.reason);
+        }
+        logger.error('Failed to join tournament:', err instanceof Error ? err : undefined);
+        // A paid entry that failed is refunded by the entry fee checkout
+        if (entryFeePaymentId) {
+          throw err;
+        }
+      }
+    },
+    [tournamentId, currentUserId, refetch]
+  );
 
   const handleJoinTournament = useCallback(async () => {
+    if (!tournament) return;
+
+    setRuleViolation(null);
+    setRefundRequested(false);
+    setRefundError(null);
     try {
-      await tournamentService.joinTournament(tournamentId);
+      // Check the entry locally first so nobody pays for an entry that would be rejected
+      assertCanJoin(tournament, { userId: currentUserId });
+    } catch (err) {
+      if (err instanceof TournamentRuleError && err.reason === 'ENTRY_FEE_REQUIRED') {
+        await requestEntryFee(join);
+        return;
+      }
+      if (err instanceof TournamentRuleError) {
+        setRuleViolation(err.reason);
+        return;
+      }
+    }
+    await join();
+  }, [tournament, currentUserId, requestEntryFee, join]);
+
+  const handleLeaveTournament = useCallback(async () => {
+    if (!currentUserId) return;
+
+    setRuleViolation(null);
+    setRefundError(null);
+    try {
+      const { refunded, refundError: failedRefund } = await tournamentService.leaveTournament(
+        tournamentId,
+        currentUserId
+      );
+      setRefundRequested(refunded);
+      setRefundError(
+        failedRefund
+          ? 'You have left the tournament, but your entry fee refund could not be requested. Please contact the organizer.'
+          : null
+      );
       await refetch();
     } catch (err) {
-      logger.error('Failed to join tournament:', err instanceof Error ? err : undefined);
+      if (err instanceof TournamentRuleError) {
+        setRuleViolation(err.reason);
+      }
+      logger.error('Failed to leave tournament:', err instanceof Error ? err : undefined);
     }
-  }, [tournamentId, refetch]);
+  }, [tournamentId, currentUserId, refetch]);
 
   const handleStartTournament = useCallback(async () => {
+    setRuleViolation(null);
     try {
       await tournamentService.startTournament(tournamentId);
       await refetch();
     } catch (err) {
+      if (err instanceof TournamentRuleError) {
+        setRuleViolation(err.reason);
+      }
       logger.error('Failed to start tournament:', err instanceof Error ? err : undefined);
     }
   }, [tournamentId, refetch]);
 
+  const handlePairRound = useCallback(async () => {
+    setRuleViolation(null);
+    try {
+      await tournamentService.pairNextRound(tournamentId);
+    } catch (err) {
+      if (err instanceof TournamentRuleError) {
+        setRuleViolation(err.reason);
+      }
+      logger.error('Failed to pair the next round:', err instanceof Error ? err : undefined);
+    }
+  }, [tournamentId]);
+
+  const handleSchedulePress = useCallback(() => {
+    navigation.navigate('TournamentSchedule', { tournamentId });
+  }, [navigation, tournamentId]);
+
+  const handleMatchPress = useCallback((match: BracketMatch) => {
+    setSelectedMatchId(match.matchId);
+  }, []);
+
+  const handleCloseMatch = useCallback(() => {
+    setSelectedMatchId(null);
+  }, []);
+
   return {
     tournament,
+    bracket,
+    participantNames,
+    participantAvatars,
+    currentUserId,
+    currentEntryId,
+    selectedMatch,
+    standings,
+    standingsDiscrepancies,
+    ruleViolation,
+    teamEntry,
+    entryFee,
+    isOrganizer,
+    canLeave,
+    canSchedule: isOrganizer && Boolean(bracket?.rounds.length) && tournament?.status !== 'completed',
+    canPairRound,
+    isLeaveRefundable,
+    refundRequested,
+    refundError,
+    prizePayouts,
     isLoading,
     error,
     onJoinTournament: handleJoinTournament,
+    onLeaveTournament: handleLeaveTournament,
+    onSchedulePress: handleSchedulePress,
     onStartTournament: handleStartTournament,
+    onPairRound: handlePairRound,
+    onMatchPress: handleMatchPress,
+    onCloseMatch: handleCloseMatch,
   };
 }
@@ -0,0 +1,241 @@
+import { logger } from '@core';
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { useAppSelector } from '@store/hooks';
+import { selectUserId } from '@features/auth/store/authSelectors';
+import {
+  useCancelBookingMutation,
+  useCreateBookingsMutation,
+  useGetVenueQuery,
+  useLazyCheckAvailabilityQuery,
+} from '@features/venues/store';
+import { FormField } from '@shared/components/templates';
+import { validateNumber } from '@shared/utils/validation';
+import {
+  useGetBracketQuery,
+  useGetTournamentQuery,
+  useScheduleMatchesMutation,
+} from '../store/tournamentApi';
+import {
+  applyAvailability,
+  getParticipantName,
+  getScheduleBookings,
+  getScheduleDays,
+  getScheduledAt,
+  proposeSchedule,
+  ScheduleProposal,
+} from '../utils';
+
+const formFields: FormField[] = [
+  { name: 'courts', label: 'Courts', type: 'number', required: true, defaultValue: '2' },
+  {
+    name: 'matchDuration',
+    label: 'Match duration (minutes)',
+    type: 'number',
+    required: true,
+    defaultValue: '60',
+  },
+  {
+    name: 'restTime',
+    label: 'Rest between matches (minutes)',
+    type: 'number',
+    required: true,
+    defaultValue: '30',
+  },
+];
+
+interface HeldBookings {
+  proposal: ScheduleProposal;
+  /** Booking id for each scheduled match */
+  bookingIds: Map<string, string>;
+}
+
+/**
+ * Scheduling assistant for organizers: proposes a court and start time for
+ * every unplayed bracket match at the tournament venue, then books the venue
+ * and saves the schedule once confirmed. When saving the schedule fails the
+ * bookings are kept for a retry, and released if a new schedule is proposed.
+ */
+export function useTournamentScheduleScreen(route: any, navigation: any) {
+  const { tournamentId } = route.params;
+  const currentUserId = useAppSelector(selectUserId);
+  const { data: tournament, isLoading: isLoadingTournament } = useGetTournamentQuery(tournamentId);
+  const { data: fetchedBracket, isLoading: isLoadingBracket } = useGetBracketQuery(tournamentId);
+  const bracket = fetchedBracket ?? tournament?.bracket;
+  const venueId = tournament?.venue?._id;
+  const { data: venue } = useGetVenueQuery(venueId ?? '', { skip: !venueId });
+  const [checkAvailability] = useLazyCheckAvailabilityQuery();
+  const [createBookings] = useCreateBookingsMutation();
+  const [cancelBooking] = useCancelBookingMutation();
+  const [scheduleMatches] = useScheduleMatchesMutation();
+  const heldBookings = useRef<HeldBookings | null>(null);
+
+  const [proposal, setProposal] = useState<ScheduleProposal | null>(null);
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [isProposing, setIsProposing] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOrganizer = Boolean(currentUserId) && tournament?.organizer._id === currentUserId;
+
+  const matchLabels = useMemo(() => {
+    const names: Record<string, string> = {};
+    tournament?.participants.forEach((participant) => {
+      names[participant._id] = getParticipantName(participant);
+    });
+
+    const labels: Record<string, string> = {};
+    bracket?.rounds.forEach((round) => {
+      round.matches.forEach((match, index) => {
+        const players = [match.player1, match.player2].map((id) => (id ? names[id] ?? 'TBD' : 'TBD'));
+        labels[match.matchId] = `${round.name ?? `Round ${round.round}`} · Match ${index + 1}: ${players.join(' vs ')}`;
+      });
+    });
+    return labels;
+  }, [bracket, tournament?.participants]);
+
+  const releaseHeldBookings = useCallback(async () => {
+    const held = heldBookings.current;
+    heldBookings.current = null;
+    if (!held) return;
+
+    const results = await Promise.allSettled(
+      [...new Set(held.bookingIds.values())].map((bookingId) => cancelBooking(bookingId).unwrap())
+    );
+    if (results.some((result) => result.status === 'rejected')) {
+      logger.warn('Some bookings for an earlier schedule could not be cancelled', { tournamentId });
+    }
+  }, [cancelBooking, tournamentId]);
+
+  const handlePropose = useCallback(
+    async (data: Record<string, string>) => {
+      if (!tournament || !bracket || !venueId) return;
+
+      const checks = {
+        courts: validateNumber(data.courts ?? '', 'Courts', 1, 50),
+        matchDuration: validateNumber(data.matchDuration ?? '', 'Match duration', 5, 600),
+        restTime: validateNumber(data.restTime ?? '', 'Rest time', 0, 600),
+      };
+      const errors: Record<string, string> = {};
+      Object.entries(checks).forEach(([field, result]) => {
+        if (!result.isValid) errors[field] = result.error;
+      });
+      setValidationErrors(errors);
+      if (Object.keys(errors).length > 0) return;
+
+      setIsProposing(true);
+      setError(null);
+      try {
+        await releaseHeldBookings();
+        const days = await Promise.all(
+          getScheduleDays(tournament.startDate, tournament.endDate, venue?.operatingHours).map(
+            async (day) => {
+              try {
+                const availability = await checkAvailability(
+                  { venueId, date: day.date, ...day.windows[0] },
+                  true
+                ).unwrap();
+                return applyAvailability(day, availability);
+              } catch (err) {
+                // Schedule against opening hours alone; the booking step still checks conflicts
+                logger.warn(`Venue availability check failed for ${day.date}`, err);
+                return day;
+              }
+            }
+          )
+        );
+
+        const result = proposeSchedule(bracket, days, {
+          courts: Number(data.courts),
+          matchDuration: Number(data.matchDuration),
+          restTime: Number(data.restTime),
+        });
+        setProposal(result);
+        if (result.matches.length === 0) {
+          setError('No matches fit in the venue opening hours between the start and end dates');
+        }
+      } catch (err) {
+        setError('Could not propose a schedule. Please try again.');
+        logger.error('Failed to propose tournament schedule:', err instanceof Error ? err : undefined);
+      } finally {
+        setIsProposing(false);
+      }
+    },
+    [tournament, bracket, venueId, venue?.operatingHours, checkAvailability, releaseHeldBookings]
+  );
+
+  const handleConfirm = useCallback(async () => {
+    if (!tournament || !venueId || !proposal || proposal.matches.length === 0) return;
+
+    setIsConfirming(true);
+    setError(null);
+    try {
+      // A retry after the schedule failed to save reuses the bookings already made
+      let bookingIds = heldBookings.current?.proposal === proposal ? heldBookings.current.bookingIds : null;
+      if (!bookingIds) {
+        try {
+          const scheduleBookings = getScheduleBookings(proposal);
+          const bookings = await createBookings(
+            scheduleBookings.map((booking) => ({
+              venueId,
+              sport: tournament.sport,
+              date: booking.date,
+              startTime: booking.startTime,
+              endTime: booking.endTime,
+              court: booking.court,
+              notes: `${tournament.name} · Court ${booking.court}`,
+              tournamentId: tournament._id,
+            }))
+          ).unwrap();
+
+          bookingIds = new Map<string, string>();
+          scheduleBookings.forEach((booking, index) => {
+            booking.matchIds.forEach((matchId) => {
+              if (bookings[index]) bookingIds!.set(matchId, bookings[index]._id);
+            });
+          });
+          heldBookings.current = { proposal, bookingIds };
+        } catch (err) {
+          setError('Could not book the venue for this schedule. Adjust the settings and try again.');
+          logger.error('Failed to book the venue for the tournament schedule:', err instanceof Error ? err : undefined);
+          return;
+        }
+      }
+
+      try {
+        await scheduleMatches({
+          id: tournament._id,
+          matches: proposal.matches.map((match) => ({
+            matchId: match.matchId,
+            scheduledAt: getScheduledAt(match),
+            court: match.court,
+            bookingId: bookingIds.get(match.matchId),
+          })),
+        }).unwrap();
+        heldBookings.current = null;
+        navigation.goBack();
+      } catch (err) {
+        setError('The venue is booked, but the schedule could not be saved. Confirm again to retry with the same bookings.');
+        logger.error('Failed to save the tournament schedule:', err instanceof Error ? err : undefined);
+      }
+    } finally {
+      setIsConfirming(false);
+    }
+  }, [tournament, venueId, proposal, createBookings, scheduleMatches, navigation]);
+
+  return {
+    tournament,
+    venue,
+    hasVenue: Boolean(venueId),
+    isOrganizer,
+    formFields,
+    validationErrors,
+    proposal,
+    matchLabels,
+    error,
+    isLoading: isLoadingTournament || isLoadingBracket,
+    isProposing,
+    isConfirming,
+    onPropose: handlePropose,
+    onConfirm: handleConfirm,
+  };
+}
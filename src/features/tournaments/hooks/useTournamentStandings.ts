@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import { useGetStandingsQuery } from '../store/tournamentApi';
+import { Tournament, TournamentBracket } from '../types';
+import { calculateStandings, compareStandings, getStandingsOptions } from '../utils';
+
+/**
+ * League table for a tournament. Uses the server's standings when they cover
+ * every participant and falls back to the locally computed table otherwise.
+ * `discrepancies` lists where the two disagree.
+ */
+export function useTournamentStandings(
+  tournament: Tournament | undefined,
+  bracket: TournamentBracket | undefined
+) {
+  const { data: serverStandings, isLoading } = useGetStandingsQuery(tournament?._id ?? '', {
+    skip: !tournament || tournament.status === 'registration_open',
+  });
+
+  const localStandings = useMemo(
+    () =>
+      tournament ? calculateStandings(bracket, tournament.participants, getStandingsOptions(tournament)) : [],
+    [bracket, tournament]
+  );
+
+  const discrepancies = useMemo(
+    () => (serverStandings ? compareStandings(localStandings, serverStandings) : []),
+    [localStandings, serverStandings]
+  );
+
+  const isServerComplete =
+    Boolean(serverStandings) && !discrepancies.some(discrepancy => discrepancy.field === 'missing');
+
+  return {
+    standings: isServerComplete ? serverStandings! : localStandings,
+    discrepancies,
+    isLocal: !isServerComplete,
+    isLoading,
+  };
+}
@@ -1,14 +1,23 @@
 import { IRepository } from '@core';
-import { Tournament } from '../types';
+import { store } from '@/store';
+import { ParticipantSeed, RegisterTeamRequest, Tournament, TournamentBracket } from '../types';
 import { tournamentApi } from '../store';
+import { paymentApi } from '@features/profile/store';
+import { ratingApi } from '@features/ratings/store';
+import { PlayerRating } from '@features/ratings/types';
 
 /**
  * Tournament Repository
  */
 export class TournamentRepository implements IRepository<Tournament> {
+  /**
+   * Get a tournament from the server; the business rules check the latest
+   * participants and status, never a cached copy
+   */
   async getById(id: string): Promise<Tournament> {
-    const result = await tournamentApi.endpoints.getTournamentById.initiate(id);
-    return result.data as Tournament;
+    return store
+      .dispatch(tournamentApi.endpoints.getTournament.initiate(id, { subscribe: false, forceRefetch: true }))
+      .unwrap();
   }
 
   async getAll(params?: any): Promise<Tournament[]> {
@@ -31,13 +40,46 @@ export class TournamentRepository implements IRepository<Tournament> {
     await tournamentApi.endpoints.deleteTournament.initiate(id);
   }
 
-  async joinTournament(tournamentId: string): Promise<void> {
-    await tournamentApi.endpoints.joinTournament.initiate(tournamentId);
+  async joinTournament(tournamentId: string, paymentIntentId?: string): Promise<void> {
+    await store.dispatch(tournamentApi.endpoints.joinTournament.initiate({ id: tournamentId, paymentIntentId })).unwrap();
+  }
+
+  async registerTeam(tournamentId: string, request: RegisterTeamRequest): Promise<void> {
+    await store.dispatch(tournamentApi.endpoints.registerTeam.initiate({ id: tournamentId, ...request })).unwrap();
+  }
+
+  async leaveTournament(tournamentId: string): Promise<void> {
+    await store.dispatch(tournamentApi.endpoints.leaveTournament.initiate(tournamentId)).unwrap();
+  }
+
+  async requestEntryFeeRefund(tournamentId: string, paymentIntentId: string): Promise<void> {
+    await store
+      .dispatch(
+        paymentApi.endpoints.requestRefund.initiate({
+          paymentIntentId,
+          tournamentId,
+          reason: 'Withdrew from tournament before the registration deadline',
+        })
+      )
+      .unwrap();
   }
 
   async startTournament(tournamentId: string): Promise<Tournament> {
-    const result = await tournamentApi.endpoints.startTournament.initiate(tournamentId);
-    return result.data as Tournament;
+    return store.dispatch(tournamentApi.endpoints.startTournament.initiate(tournamentId)).unwrap();
+  }
+
+  async pairNextRound(tournamentId: string): Promise<TournamentBracket> {
+    return store.dispatch(tournamentApi.endpoints.pairNextRound.initiate(tournamentId)).unwrap();
+  }
+
+  async updateSeeds(tournamentId: string, seeds: ParticipantSeed[]): Promise<Tournament> {
+    return store.dispatch(tournamentApi.endpoints.updateSeeds.initiate({ id: tournamentId, seeds })).unwrap();
+  }
+
+  async getPlayerRatings(sport: string, userIds: string[]): Promise<PlayerRating[]> {
+    return store
+      .dispatch(ratingApi.endpoints.getSportRatings.initiate({ sport, userIds }, { subscribe: false }))
+      .unwrap();
   }
 }
 
@@ -1,10 +1,14 @@
 import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
 import { FormScreenTemplate } from '@shared/components/templates';
+import { Chip, Input } from '@shared/components/atoms';
+import { useTheme } from '../../../theme';
 import { useCreateTournamentScreen } from '../hooks';
 
 const CreateTournamentScreen: React.FC<any> = ({ navigation }) => {
   const props = useCreateTournamentScreen(navigation);
-  
+  const { theme } = useTheme();
+
   return (
     <FormScreenTemplate
       title="Create Tournament"
@@ -12,8 +16,87 @@ const CreateTournamentScreen: React.FC<any> = ({ navigation }) => {
       onSubmit={props.handleSubmit}
       onCancel={() => navigation.goBack()}
       isLoading={props.isSubmitting}
-    />
+      validationErrors={props.validationErrors}
+    >
+      <Text style={[theme.typography.labelLarge, styles.label, { color: theme.colors.text }]}>
+        Format
+      </Text>
+      <View style={styles.formats}>
+        {props.formatOptions.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={props.format === option.value}
+            onPress={() => props.onFormatChange(option.value)}
+            style={styles.formatChip}
+          />
+        ))}
+      </View>
+
+      <Text style={[theme.typography.labelLarge, styles.label, { color: theme.colors.text }]}>
+        Entries
+      </Text>
+      <View style={styles.formats}>
+        {props.entryTypeOptions.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={props.entryType === option.value}
+            onPress={() => props.onEntryTypeChange(option.value)}
+            style={styles.formatChip}
+          />
+        ))}
+      </View>
+
+      {props.entryType === 'team' && (
+        <Input
+          label="Roster size"
+          value={props.rosterSize}
+          onChangeText={props.onRosterSizeChange}
+          keyboardType="numeric"
+          placeholder="Players per team"
+          helperText="Leave blank to let captains choose any number of members"
+          error={props.validationErrors.rosterSize}
+        />
+      )}
+
+      {props.format === 'swiss' && (
+        <Input
+          label="Rounds"
+          value={props.rounds}
+          onChangeText={props.onRoundsChange}
+          keyboardType="numeric"
+          placeholder="Recommended for your field size"
+          helperText="Leave blank to play enough rounds to find a single winner"
+          error={props.validationErrors.rounds}
+        />
+      )}
+
+      {props.error && (
+        <Text style={[theme.typography.bodySmall, styles.error, { color: theme.colors.error }]}>
+          {props.error}
+        </Text>
+      )}
+    </FormScreenTemplate>
   );
 };
 
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: 8,
+  },
+  formats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  formatChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  error: {
+    marginTop: 8,
+  },
+});
+
 export default CreateTournamentScreen;
@@ -1,23 +1,141 @@
 import React from 'react';
-import { View } from 'react-native';
+import { Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { EmptyState } from '@shared/components/molecules';
 import { DetailScreenTemplate } from '@shared/components/templates';
 import { useTournamentDetailScreen } from '../hooks';
+import { useTheme } from '../../../theme';
+import { formatCurrency } from '@shared/utils';
+import {
+  BracketMatchSheet,
+  BracketView,
+  EntryFeeSheet,
+  PrizePayoutSummary,
+  StandingsTable,
+  TeamEntrySheet,
+} from '../components';
 
 const TournamentDetailScreen: React.FC<any> = ({ navigation, route }) => {
   const props = useTournamentDetailScreen(route, navigation);
-  
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+
   if (!props.tournament) return null;
 
+  const { entryFee } = props.tournament;
+  const feeLabel = entryFee?.amount ? ` · ${formatCurrency(entryFee.amount / 100, entryFee.currency)}` : '';
+  const { format } = props.tournament;
+  const hasStandings = (format === 'round_robin' || format === 'swiss') && props.standings.length > 0;
+
   return (
     <DetailScreenTemplate
       title={props.tournament.name}
       subtitle={props.tournament.description}
       isLoading={props.isLoading}
-      primaryAction={{ label: 'Join', onPress: props.onJoinTournament }}
+      primaryAction={
+        props.canPairRound
+          ? { label: `Pair Round ${(props.bracket?.rounds.length ?? 0) + 1}`, onPress: props.onPairRound }
+          : props.canLeave
+            ? { label: 'Leave', onPress: props.onLeaveTournament }
+            : props.teamEntry.isTeamTournament
+              ? { label: `Enter Team${feeLabel}`, onPress: props.teamEntry.onOpen }
+              : { label: `Join${feeLabel}`, onPress: props.onJoinTournament }
+      }
+      secondaryAction={
+        props.canSchedule ? { label: 'Schedule', onPress: props.onSchedulePress } : undefined
+      }
     >
-      <View />
+      {props.ruleViolation && (
+        <Text style={[theme.typography.bodyMedium, styles.ruleViolation, { color: theme.colors.error }]}>
+          {t(`tournamentErrors.${props.ruleViolation}`)}
+        </Text>
+      )}
+      {props.entryFee.error && (
+        <Text style={[theme.typography.bodyMedium, styles.ruleViolation, { color: theme.colors.error }]}>
+          {props.entryFee.error}
+        </Text>
+      )}
+      {props.refundError && (
+        <Text style={[theme.typography.bodyMedium, styles.ruleViolation, { color: theme.colors.error }]}>
+          {props.refundError}
+        </Text>
+      )}
+      {(props.refundRequested || (props.canLeave && Boolean(entryFee?.amount))) && (
+        <Text style={[theme.typography.bodySmall, styles.notice, { color: theme.colors.textSecondary }]}>
+          {props.refundRequested
+            ? 'Your entry fee refund has been requested.'
+            : props.isLeaveRefundable
+              ? 'Your entry fee is refunded if you leave before the registration deadline.'
+              : 'Entry fees are not refunded after the registration deadline.'}
+        </Text>
+      )}
+      {props.bracket && props.bracket.rounds.length > 0 ? (
+        <BracketView
+          bracket={props.bracket}
+          participantNames={props.participantNames}
+          participantAvatars={props.participantAvatars}
+          highlightedParticipantId={props.currentEntryId}
+          onMatchPress={props.onMatchPress}
+        />
+      ) : (
+        <EmptyState
+          icon="tournament"
+          title="No bracket yet"
+          message="The bracket will appear once registration closes"
+        />
+      )}
+      {hasStandings && (
+        <StandingsTable
+          standings={props.standings}
+          format={format}
+          participantAvatars={props.participantAvatars}
+          highlightedParticipantId={props.currentEntryId}
+          footnote={
+            props.standingsDiscrepancies.length > 0
+              ? 'Some results are still syncing with the server'
+              : undefined
+          }
+        />
+      )}
+      {props.prizePayouts && (
+        <PrizePayoutSummary summary={props.prizePayouts} participantNames={props.participantNames} />
+      )}
+      <BracketMatchSheet
+        match={props.selectedMatch}
+        participantNames={props.participantNames}
+        onClose={props.onCloseMatch}
+      />
+      <TeamEntrySheet
+        visible={props.teamEntry.isOpen}
+        teams={props.teamEntry.teams}
+        selectedTeam={props.teamEntry.selectedTeam}
+        roster={props.teamEntry.roster}
+        rosterSize={props.teamEntry.rosterSize}
+        isSubmitting={props.teamEntry.isSubmitting}
+        rejection={props.teamEntry.rejection}
+        onSelectTeam={props.teamEntry.onSelectTeam}
+        onToggleMember={props.teamEntry.onToggleMember}
+        onSubmit={props.teamEntry.onSubmit}
+        onClose={props.teamEntry.onClose}
+      />
+      <EntryFeeSheet
+        checkout={props.entryFee.checkout}
+        tournamentName={props.tournament.name}
+        onPaymentSuccess={props.entryFee.onPaymentSuccess}
+        onPaymentError={props.entryFee.onPaymentError}
+        onClose={props.entryFee.onCancel}
+      />
     </DetailScreenTemplate>
   );
 };
 
+const styles = StyleSheet.create({
+  ruleViolation: {
+    marginBottom: 12,
+  },
+  notice: {
+    marginBottom: 12,
+  },
+});
+
 export default TournamentDetailScreen;
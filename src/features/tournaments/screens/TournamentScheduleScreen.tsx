@@ -0,0 +1,106 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { FormScreenTemplate } from '@shared/components/templates';
+import { EmptyState } from '@shared/components/molecules';
+import { Button } from '@shared/components/atoms';
+import { useTheme } from '../../../theme';
+import { useTournamentScheduleScreen } from '../hooks';
+
+const TournamentScheduleScreen: React.FC<any> = ({ navigation, route }) => {
+  const props = useTournamentScheduleScreen(route, navigation);
+  const { theme } = useTheme();
+
+  if (!props.tournament) return null;
+
+  if (!props.isOrganizer || !props.hasVenue) {
+    return (
+      <EmptyState
+        icon="calendar-clock"
+        title="Scheduling unavailable"
+        message={
+          props.isOrganizer
+            ? 'Set a venue for the tournament to schedule its matches'
+            : 'Only the organizer can schedule matches'
+        }
+      />
+    );
+  }
+
+  return (
+    <FormScreenTemplate
+      title="Schedule Matches"
+      fields={props.formFields}
+      onSubmit={props.onPropose}
+      onCancel={() => navigation.goBack()}
+      isLoading={props.isLoading || props.isProposing}
+      submitLabel="Propose Schedule"
+      validationErrors={props.validationErrors}
+    >
+      {props.venue && (
+        <Text style={[theme.typography.bodyMedium, styles.section, { color: theme.colors.textSecondary }]}>
+          {`Matches are placed within ${props.venue.name}'s opening hours, around existing bookings.`}
+        </Text>
+      )}
+
+      {props.proposal && props.proposal.matches.length > 0 && (
+        <View style={styles.section}>
+          {props.proposal.matches.map((match) => (
+            <View key={match.matchId} style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+              <Text style={[theme.typography.labelMedium, styles.time, { color: theme.colors.text }]}>
+                {`${match.date}\n${match.startTime}–${match.endTime}`}
+              </Text>
+              <View style={styles.details}>
+                <Text numberOfLines={2} style={[theme.typography.bodySmall, { color: theme.colors.text }]}>
+                  {props.matchLabels[match.matchId] ?? match.matchId}
+                </Text>
+                <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+                  {`Court ${match.court}`}
+                </Text>
+              </View>
+            </View>
+          ))}
+
+          {props.proposal.unscheduled.length > 0 && (
+            <Text style={[theme.typography.bodySmall, styles.section, { color: theme.colors.error }]}>
+              {`${props.proposal.unscheduled.length} matches do not fit before the tournament ends. Add courts or shorten the matches.`}
+            </Text>
+          )}
+
+          <Button
+            title="Book Venue & Save Schedule"
+            onPress={props.onConfirm}
+            loading={props.isConfirming}
+            disabled={props.isConfirming}
+            fullWidth
+            style={styles.section}
+          />
+        </View>
+      )}
+
+      {props.error && (
+        <Text style={[theme.typography.bodySmall, styles.section, { color: theme.colors.error }]}>
+          {props.error}
+        </Text>
+      )}
+    </FormScreenTemplate>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  time: {
+    width: 110,
+  },
+  details: {
+    flex: 1,
+  },
+});
+
+export default TournamentScheduleScreen;
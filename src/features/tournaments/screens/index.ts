@@ -1,3 +1,4 @@
 export { default as TournamentsScreen } from './TournamentsScreen';
 export { default as TournamentDetailScreen } from './TournamentDetailScreen';
 export { default as CreateTournamentScreen } from './CreateTournamentScreen';
+export { default as TournamentScheduleScreen } from './TournamentScheduleScreen';
@@ -1,6 +1,26 @@
-import { IService, BusinessError, logger } from '@core';
-import { Tournament } from '../types';
+import { IService, logger } from '@core';
+import { Team } from '@features/teams/types';
+import { toRatingMap } from '@features/ratings/utils';
+import { Tournament, TournamentBracket } from '../types';
 import { TournamentRepository } from '../repositories/TournamentRepository';
+import {
+  assertCanCreate,
+  assertCanJoin,
+  assertCanLeave,
+  assertCanPairRound,
+  assertCanRegisterTeam,
+  assertCanStart,
+  isEntryFeeRefundable,
+  JoinTournamentOptions,
+} from './tournamentRules';
+import { getEntryPlayerIds, getRatingSeeds } from '../utils/seedingUtils';
+
+export interface LeaveTournamentResult {
+  /** Whether a refund of the entry fee was requested */
+  refunded: boolean;
+  /** Why a refund that was due could not be requested; the entry is withdrawn either way */
+  refundError?: Error;
+}
 
 export interface ITournamentService extends IService {
   getTournaments(filters?: any): Promise<Tournament[]>;
@@ -8,8 +28,16 @@ export interface ITournamentService extends IService {
   createTournament(data: Partial<Tournament>): Promise<Tournament>;
   updateTournament(id: string, data: Partial<Tournament>): Promise<Tournament>;
   deleteTournament(id: string): Promise<void>;
-  joinTournament(tournamentId: string): Promise<void>;
+  joinTournament(tournamentId: string, options?: JoinTournamentOptions): Promise<void>;
+  registerTeam(
+    tournamentId: string,
+    team: Team,
+    roster: string[],
+    options?: JoinTournamentOptions
+  ): Promise<void>;
+  leaveTournament(tournamentId: string, userId: string): Promise<LeaveTournamentResult>;
   startTournament(tournamentId: string): Promise<Tournament>;
+  pairNextRound(tournamentId: string): Promise<TournamentBracket>;
 }
 
 export class TournamentService implements ITournamentService {
@@ -43,16 +71,10 @@ export class TournamentService implements ITournamentService {
 
   async createTournament(data: Partial<Tournament>): Promise<Tournament> {
     try {
-      if (!data.name || data.name.trim().length < 3) {
-        throw new BusinessError('Tournament name must be at least 3 characters');
-      }
-
-      if (data.maxTeams && data.maxTeams < 4) {
-        throw new BusinessError('Tournament must allow at least 4 teams');
-      }
+      assertCanCreate(data);
 
       const tournament = await this.repository.create(data);
-      logger.info('Tournament created', { tournamentId: tournament.id });
+      logger.info('Tournament created', { tournamentId: tournament._id });
       return tournament;
     } catch (error) {
       logger.error('Failed to create tournament', error as Error, { data });
@@ -81,19 +103,12 @@ export class TournamentService implements ITournamentService {
     }
   }
 
-  async joinTournament(tournamentId: string): Promise<void> {
+  async joinTournament(tournamentId: string, options: JoinTournamentOptions = {}): Promise<void> {
     try {
       const tournament = await this.repository.getById(tournamentId);
+      assertCanJoin(tournament, options);
 
-      if (tournament.status !== 'registration') {
-        throw new BusinessError('Tournament registration is closed');
-      }
-
-      if (tournament.teams.length >= tournament.maxTeams) {
-        throw new BusinessError('Tournament is full');
-      }
-
-      await this.repository.joinTournament(tournamentId);
+      await this.repository.joinTournament(tournamentId, options.entryFeePaymentId);
       logger.info('Joined tournament', { tournamentId });
     } catch (error) {
       logger.error('Failed to join tournament', error as Error, { tournamentId });
@@ -101,16 +116,66 @@ export class TournamentService implements ITournamentService {
     }
   }
 
-  async startTournament(tournamentId: string): Promise<Tournament> {
+  async registerTeam(
+    tournamentId: string,
+    team: Team,
+    roster: string[],
+    options: JoinTournamentOptions = {}
+  ): Promise<void> {
     try {
       const tournament = await this.repository.getById(tournamentId);
+      assertCanRegisterTeam(tournament, team, roster, options);
+
+      await this.repository.registerTeam(tournamentId, {
+        teamId: team._id,
+        roster,
+        paymentIntentId: options.entryFeePaymentId,
+      });
+      logger.info('Team registered for tournament', { tournamentId, teamId: team._id });
+    } catch (error) {
+      logger.error('Failed to register team', error as Error, { tournamentId, teamId: team._id });
+      throw error;
+    }
+  }
+
+  async leaveTournament(tournamentId: string, userId: string): Promise<LeaveTournamentResult> {
+    try {
+      const tournament = await this.repository.getById(tournamentId);
+      const participant = assertCanLeave(tournament, userId);
+      const refundable = isEntryFeeRefundable(tournament, participant);
+
+      await this.repository.leaveTournament(tournamentId);
+      logger.info('Left tournament', { tournamentId });
 
-      if (tournament.teams.length < 4) {
-        throw new BusinessError('Tournament needs at least 4 teams to start');
+      if (!refundable) {
+        return { refunded: false };
       }
+      try {
+        await this.repository.requestEntryFeeRefund(tournamentId, participant.entryFeePaymentId!);
+        logger.info('Entry fee refund requested', { tournamentId });
+        return { refunded: true };
+      } catch (error) {
+        logger.error('Failed to request entry fee refund', error as Error, { tournamentId });
+        return { refunded: false, refundError: error as Error };
+      }
+    } catch (error) {
+      logger.error('Failed to leave tournament', error as Error, { tournamentId });
+      throw error;
+    }
+  }
 
-      if (tournament.status !== 'registration') {
-        throw new BusinessError('Tournament cannot be started');
+  async startTournament(tournamentId: string): Promise<Tournament> {
+    try {
+      const tournament = await this.repository.getById(tournamentId);
+      assertCanStart(tournament);
+
+      // Without seeds from the organizer, seed by rating in the tournament's sport
+      if (tournament.participants.every(participant => participant.seed === undefined)) {
+        const userIds = tournament.participants.flatMap(getEntryPlayerIds);
+        const ratings = await this.repository.getPlayerRatings(tournament.sport, userIds);
+        const seeds = getRatingSeeds(tournament.participants, toRatingMap(ratings));
+        await this.repository.updateSeeds(tournamentId, seeds);
+        logger.info('Tournament seeded by rating', { tournamentId });
       }
 
       const startedTournament = await this.repository.startTournament(tournamentId);
@@ -121,6 +186,23 @@ export class TournamentService implements ITournamentService {
       throw error;
     }
   }
+
+  /**
+   * Pair the next Swiss round from the results so far
+   */
+  async pairNextRound(tournamentId: string): Promise<TournamentBracket> {
+    try {
+      const tournament = await this.repository.getById(tournamentId);
+      assertCanPairRound(tournament);
+
+      const bracket = await this.repository.pairNextRound(tournamentId);
+      logger.info('Swiss round paired', { tournamentId, round: bracket.rounds.length });
+      return bracket;
+    } catch (error) {
+      logger.error('Failed to pair the next round', error as Error, { tournamentId });
+      throw error;
+    }
+  }
 }
 
 export const tournamentService = new TournamentService(new TournamentRepository());
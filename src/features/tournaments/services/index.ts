@@ -1 +1,2 @@
 export * from './TournamentService';
+export * from './tournamentRules';
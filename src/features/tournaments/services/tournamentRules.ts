@@ -0,0 +1,321 @@
+import { BusinessError } from '@core/errors/AppError';
+import { TOURNAMENT_FORMATS } from '@core/constants';
+import { Team } from '@features/teams/types';
+import { Tournament, TournamentBracket, TournamentFormat, TournamentParticipant } from '../types';
+import { getPrizeDistributionTotal, getSwissRoundCount, isParticipantMember } from '../utils';
+
+/**
+ * Tournament business rules
+ * Pure checks run before registration and start requests are sent. Each
+ * rejection carries a reason code the UI can localize.
+ */
+
+export type TournamentRuleReason =
+  | 'REGISTRATION_CLOSED'
+  | 'REGISTRATION_DEADLINE_PASSED'
+  | 'TOURNAMENT_FULL'
+  | 'ALREADY_REGISTERED'
+  | 'ENTRY_FEE_REQUIRED'
+  | 'NOT_ENOUGH_PARTICIPANTS'
+  | 'ALREADY_STARTED'
+  | 'INVALID_NAME'
+  | 'INVALID_CAPACITY'
+  | 'TEAM_ENTRIES_ONLY'
+  | 'INDIVIDUAL_ENTRIES_ONLY'
+  | 'NOT_TEAM_CAPTAIN'
+  | 'INVALID_ROSTER'
+  | 'PLAYER_ALREADY_ENTERED'
+  | 'NOT_REGISTERED'
+  | 'INVALID_PRIZE_DISTRIBUTION'
+  | 'NOT_SWISS_FORMAT'
+  | 'NOT_IN_PROGRESS'
+  | 'ROUND_IN_PROGRESS'
+  | 'ALL_ROUNDS_PLAYED';
+
+export interface JoinTournamentOptions {
+  /** User registering; used to reject duplicate registrations */
+  userId?: string | null;
+  /** Succeeded payment intent covering the entry fee */
+  entryFeePaymentId?: string;
+}
+
+/**
+ * Business rule violation with a machine-readable reason
+ */
+export class TournamentRuleError extends BusinessError {
+  constructor(
+    public reason: TournamentRuleReason,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message, { reason, ...details });
+    this.name = 'TournamentRuleError';
+    Object.setPrototypeOf(this, TournamentRuleError.prototype);
+  }
+}
+
+/**
+ * Fewest participants needed to start a tournament in the given format
+ */
+export const getMinimumParticipants = (format: TournamentFormat): number => {
+  return TOURNAMENT_FORMATS.find(option => option.name === format)?.minParticipants ?? 2;
+};
+
+/**
+ * Entry fee in the smallest currency unit, or 0 for free tournaments
+ */
+export const getEntryFeeAmount = (tournament: Pick<Tournament, 'entryFee'>): number => {
+  return tournament.entryFee?.amount && tournament.entryFee.amount > 0
+    ? tournament.entryFee.amount
+    : 0;
+};
+
+export const assertCanCreate = (data: Partial<Tournament>): void => {
+  if (!data.name || data.name.trim().length < 3) {
+    throw new TournamentRuleError('INVALID_NAME', 'Tournament name must be at least 3 characters');
+  }
+
+  if (data.format && data.maxParticipants !== undefined) {
+    const minimum = getMinimumParticipants(data.format);
+    if (data.maxParticipants < minimum) {
+      throw new TournamentRuleError(
+        'INVALID_CAPACITY',
+        `Tournament must allow at least ${minimum} participants`,
+        { format: data.format, minimum }
+      );
+    }
+  }
+
+  if (data.prize && getPrizeDistributionTotal(data.prize.distribution) === null) {
+    throw new TournamentRuleError(
+      'INVALID_PRIZE_DISTRIBUTION',
+      'Prize percentages must be positive and add up to 100 or less',
+      { distribution: data.prize.distribution }
+    );
+  }
+};
+
+/**
+ * Checks shared by individual and team registration
+ */
+const assertRegistrationOpen = (
+  tournament: Tournament,
+  options: JoinTournamentOptions,
+  now: Date
+): void => {
+  const details = { tournamentId: tournament._id };
+
+  if (tournament.status !== 'registration_open') {
+    throw new TournamentRuleError('REGISTRATION_CLOSED', 'Tournament registration is closed', details);
+  }
+
+  if (now.getTime() > new Date(tournament.registrationDeadline).getTime()) {
+    throw new TournamentRuleError(
+      'REGISTRATION_DEADLINE_PASSED',
+      'The registration deadline has passed',
+      { ...details, registrationDeadline: tournament.registrationDeadline }
+    );
+  }
+
+  if (tournament.participants.length >= tournament.maxParticipants) {
+    throw new TournamentRuleError('TOURNAMENT_FULL', 'Tournament is full', {
+      ...details,
+      maxParticipants: tournament.maxParticipants,
+    });
+  }
+
+  if (getEntryFeeAmount(tournament) > 0 && !options.entryFeePaymentId) {
+    throw new TournamentRuleError('ENTRY_FEE_REQUIRED', 'The entry fee must be paid before joining', {
+      ...details,
+      entryFee: tournament.entryFee,
+    });
+  }
+};
+
+export const assertCanJoin = (
+  tournament: Tournament,
+  options: JoinTournamentOptions = {},
+  now: Date = new Date()
+): void => {
+  if (tournament.entryType === 'team') {
+    throw new TournamentRuleError('TEAM_ENTRIES_ONLY', 'This tournament only accepts team entries', {
+      tournamentId: tournament._id,
+    });
+  }
+
+  const { userId } = options;
+  if (userId && tournament.participants.some(participant => isParticipantMember(participant, userId))) {
+    throw new TournamentRuleError('ALREADY_REGISTERED', 'You are already registered', {
+      tournamentId: tournament._id,
+    });
+  }
+
+  assertRegistrationOpen(tournament, options, now);
+};
+
+/**
+ * A team captain entering their team with a roster picked from its members
+ */
+export const assertCanRegisterTeam = (
+  tournament: Tournament,
+  team: Team,
+  roster: string[],
+  options: JoinTournamentOptions = {},
+  now: Date = new Date()
+): void => {
+  const details = { tournamentId: tournament._id, teamId: team._id };
+
+  if (tournament.entryType !== 'team') {
+    throw new TournamentRuleError(
+      'INDIVIDUAL_ENTRIES_ONLY',
+      'This tournament only accepts individual entries',
+      details
+    );
+  }
+
+  if (options.userId && team.captain._id !== options.userId) {
+    throw new TournamentRuleError('NOT_TEAM_CAPTAIN', 'Only the team captain can enter the team', details);
+  }
+
+  if (tournament.participants.some(participant => participant._id === team._id)) {
+    throw new TournamentRuleError('ALREADY_REGISTERED', 'This team is already registered', details);
+  }
+
+  const memberIds = new Set(team.members.map(member => member.user._id));
+  const uniqueRoster = new Set(roster);
+  if (
+    roster.length === 0 ||
+    uniqueRoster.size !== roster.length ||
+    roster.some(userId => !memberIds.has(userId)) ||
+    (tournament.rosterSize !== undefined && roster.length !== tournament.rosterSize)
+  ) {
+    throw new TournamentRuleError(
+      'INVALID_ROSTER',
+      tournament.rosterSize !== undefined
+        ? `Pick ${tournament.rosterSize} players from the team`
+        : 'Pick players from the team',
+      { ...details, rosterSize: tournament.rosterSize }
+    );
+  }
+
+  const alreadyEntered = roster.filter(userId =>
+    tournament.participants.some(participant => isParticipantMember(participant, userId))
+  );
+  if (alreadyEntered.length > 0) {
+    throw new TournamentRuleError(
+      'PLAYER_ALREADY_ENTERED',
+      'Some players are already entered with another team',
+      { ...details, userIds: alreadyEntered }
+    );
+  }
+
+  assertRegistrationOpen(tournament, options, now);
+};
+
+/**
+ * Withdrawal before the tournament starts. Team entries can only be withdrawn
+ * by their captain. Returns the entry being withdrawn.
+ */
+export const assertCanLeave = (tournament: Tournament, userId: string): TournamentParticipant => {
+  const details = { tournamentId: tournament._id };
+
+  const participant = tournament.participants.find(
+    entry => isParticipantMember(entry, userId) || entry.team?.captainId === userId
+  );
+  if (!participant) {
+    throw new TournamentRuleError('NOT_REGISTERED', 'You are not registered for this tournament', details);
+  }
+
+  if (tournament.status !== 'registration_open') {
+    throw new TournamentRuleError('ALREADY_STARTED', 'You cannot leave a tournament once it has started', {
+      ...details,
+      status: tournament.status,
+    });
+  }
+
+  if (participant.team && participant.team.captainId !== userId) {
+    throw new TournamentRuleError('NOT_TEAM_CAPTAIN', 'Only the team captain can withdraw the team', {
+      ...details,
+      teamId: participant.team._id,
+    });
+  }
+
+  return participant;
+};
+
+/**
+ * Entry fees are refunded when the entry withdraws before the registration
+ * deadline
+ */
+export const isEntryFeeRefundable = (
+  tournament: Tournament,
+  participant: TournamentParticipant,
+  now: Date = new Date()
+): boolean => {
+  return (
+    getEntryFeeAmount(tournament) > 0 &&
+    Boolean(participant.entryFeePaymentId) &&
+    now.getTime() <= new Date(tournament.registrationDeadline).getTime()
+  );
+};
+
+export const assertCanStart = (tournament: Tournament): void => {
+  const details = { tournamentId: tournament._id };
+
+  if (tournament.status !== 'registration_open') {
+    throw new TournamentRuleError('ALREADY_STARTED', 'Tournament cannot be started', {
+      ...details,
+      status: tournament.status,
+    });
+  }
+
+  const minimum = getMinimumParticipants(tournament.format);
+  if (tournament.participants.length < minimum) {
+    throw new TournamentRuleError(
+      'NOT_ENOUGH_PARTICIPANTS',
+      `Tournament needs at least ${minimum} participants to start`,
+      { ...details, minimum, participantCount: tournament.participants.length }
+    );
+  }
+};
+
+/**
+ * Swiss rounds are paired one at a time, once every match of the current
+ * round is complete, until the tournament's round count is reached
+ */
+export const assertCanPairRound = (
+  tournament: Tournament,
+  bracket: TournamentBracket | null | undefined = tournament.bracket
+): void => {
+  const details = { tournamentId: tournament._id };
+
+  if (tournament.format !== 'swiss') {
+    throw new TournamentRuleError('NOT_SWISS_FORMAT', 'Only Swiss tournaments are paired round by round', {
+      ...details,
+      format: tournament.format,
+    });
+  }
+
+  if (tournament.status !== 'in_progress' || !bracket) {
+    throw new TournamentRuleError('NOT_IN_PROGRESS', 'Rounds are paired while the tournament is in progress', {
+      ...details,
+      status: tournament.status,
+    });
+  }
+
+  const totalRounds = getSwissRoundCount(tournament);
+  if (bracket.rounds.length >= totalRounds) {
+    throw new TournamentRuleError('ALL_ROUNDS_PLAYED', 'All Swiss rounds have been played', {
+      ...details,
+      totalRounds,
+    });
+  }
+
+  const current = bracket.rounds[bracket.rounds.length - 1];
+  if (current?.matches.some(match => match.status !== 'completed')) {
+    throw new TournamentRuleError('ROUND_IN_PROGRESS', 'Finish the current round before pairing the next one', {
+      ...details,
+      round: current.round,
+    });
+  }
+};
@@ -1,38 +1,41 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
-import { Tournament, CreateTournamentRequest, TournamentBracket } from '@features/tournaments/types';
+import { createApi } from '@reduxjs/toolkit/query/react';
+import {
+  Tournament,
+  CreateTournamentRequest,
+  TournamentBracket,
+  TournamentStanding,
+  RegisterTeamRequest,
+  MatchScheduleEntry,
+  ParticipantSeed,
+} from '@features/tournaments/types';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery } from '@shared/services/baseQuery';
 import { unwrapApiResponse, unwrapNestedData } from '@shared/utils/apiHelpers';
+import { listOf, tournamentSchema } from '@shared/services/responseSchemas';
 
 export const tournamentApi = createApi({
   reducerPath: 'tournamentApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
   tagTypes: ['Tournament', 'Tournaments', 'Bracket', 'Standings'],
   endpoints: (builder) => ({
-    getTournaments: builder.query<Tournament[], { page?: number; limit?: number; sport?: string }>({
+    getTournaments: builder.query<
+      Tournament[],
+      { page?: number; limit?: number; sport?: string; teamId?: string }
+    >({
       query: (params) => {
         const queryParams = new URLSearchParams();
         if (params.page) queryParams.append('page', String(params.page));
         if (params.limit) queryParams.append('limit', String(params.limit));
         if (params.sport) queryParams.append('sport', params.sport);
+        if (params.teamId) queryParams.append('teamId', params.teamId);
         return `/tournaments?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Tournament[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Tournament[]>) => unwrapApiResponse(response, listOf(tournamentSchema)),
       providesTags: ['Tournaments'],
     }),
     getTournament: builder.query<Tournament, string>({
       query: (id) => `/tournaments/${id}`,
-      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament'),
+      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament', tournamentSchema),
       providesTags: (result, error, id) => [{ type: 'Tournament', id }],
     }),
     createTournament: builder.mutation<Tournament, CreateTournamentRequest>({
@@ -41,7 +44,7 @@ export const tournamentApi = createApi({
         method: 'POST',
         body: tournamentData,
       }),
-      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament'),
+      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament', tournamentSchema),
       invalidatesTags: ['Tournaments'],
     }),
     updateTournament: builder.mutation<Tournament, { id: string; data: Partial<CreateTournamentRequest> }>({
@@ -50,16 +53,26 @@ export const tournamentApi = createApi({
         method: 'PATCH',
         body: data,
       }),
-      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament'),
+      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament', tournamentSchema),
       invalidatesTags: (result, error, { id }) => [{ type: 'Tournament', id }, 'Tournaments'],
     }),
-    joinTournament: builder.mutation<Tournament, string>({
-      query: (id) => ({
+    joinTournament: builder.mutation<Tournament, { id: string; paymentIntentId?: string }>({
+      query: ({ id, paymentIntentId }) => ({
         url: `/tournaments/${id}/join`,
         method: 'POST',
+        body: paymentIntentId ? { paymentIntentId } : undefined,
       }),
-      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament'),
-      invalidatesTags: (result, error, id) => [{ type: 'Tournament', id }, 'Tournaments'],
+      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament', tournamentSchema),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Tournament', id }, 'Tournaments'],
+    }),
+    registerTeam: builder.mutation<Tournament, { id: string } & RegisterTeamRequest>({
+      query: ({ id, ...body }) => ({
+        url: `/tournaments/${id}/teams`,
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament', tournamentSchema),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Tournament', id }, 'Tournaments'],
     }),
     leaveTournament: builder.mutation<void, string>({
       query: (id) => ({
@@ -74,18 +87,48 @@ export const tournamentApi = createApi({
         url: `/tournaments/${id}/start`,
         method: 'POST',
       }),
-      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament'),
+      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament', tournamentSchema),
       invalidatesTags: (result, error, id) => [{ type: 'Tournament', id }, 'Bracket'],
     }),
+    updateSeeds: builder.mutation<Tournament, { id: string; seeds: ParticipantSeed[] }>({
+      query: ({ id, seeds }) => ({
+        url: `/tournaments/${id}/seeds`,
+        method: 'PATCH',
+        body: { seeds },
+      }),
+      transformResponse: (response: ApiResponse<{ tournament: Tournament }>) => unwrapNestedData(response, 'tournament', tournamentSchema),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Tournament', id }],
+    }),
+    pairNextRound: builder.mutation<TournamentBracket, string>({
+      query: (id) => ({
+        url: `/tournaments/${id}/rounds`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<{ bracket: TournamentBracket }>) => unwrapNestedData(response, 'bracket'),
+      invalidatesTags: (result, error, id) => [
+        { type: 'Bracket', id },
+        { type: 'Standings', id },
+        { type: 'Tournament', id },
+      ],
+    }),
     getBracket: builder.query<TournamentBracket, string>({
       query: (id) => `/tournaments/${id}/bracket`,
       transformResponse: (response: ApiResponse<{ bracket: TournamentBracket }>) => unwrapNestedData(response, 'bracket'),
       providesTags: (result, error, id) => [{ type: 'Bracket', id }],
     }),
-    getStandings: builder.query<any, string>({
+    scheduleMatches: builder.mutation<TournamentBracket, { id: string; matches: MatchScheduleEntry[] }>({
+      query: ({ id, matches }) => ({
+        url: `/tournaments/${id}/schedule`,
+        method: 'PUT',
+        body: { matches },
+      }),
+      transformResponse: (response: ApiResponse<{ bracket: TournamentBracket }>) => unwrapNestedData(response, 'bracket'),
+      invalidatesTags: (result, error, { id }) => [{ type: 'Bracket', id }, { type: 'Tournament', id }],
+    }),
+    getStandings: builder.query<TournamentStanding[], string>({
       query: (id) => `/tournaments/${id}/standings`,
-      transformResponse: (response: ApiResponse<any>) => unwrapApiResponse(response),
-      providesTags: ['Standings'],
+      transformResponse: (response: ApiResponse<TournamentStanding[]>) => unwrapApiResponse(response),
+      providesTags: (result, error, id) => [{ type: 'Standings', id }],
     }),
     deleteTournament: builder.mutation<void, string>({
       query: (id) => ({
@@ -106,7 +149,11 @@ export const {
   useJoinTournamentMutation,
   useLeaveTournamentMutation,
   useStartTournamentMutation,
+  useUpdateSeedsMutation,
+  usePairNextRoundMutation,
   useGetBracketQuery,
+  useScheduleMatchesMutation,
   useGetStandingsQuery,
+  useRegisterTeamMutation,
   useDeleteTournamentMutation,
 } = tournamentApi;
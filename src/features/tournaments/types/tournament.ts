@@ -1,10 +1,28 @@
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'round_robin' | 'swiss';
+
+export type TiebreakRule = 'head_to_head' | 'score_difference' | 'points_scored' | 'fewest_losses';
+
+export type TournamentEntryType = 'individual' | 'team';
+
+export interface PointsScheme {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
 export interface Tournament {
   _id: string;
   name: string;
   description?: string;
   sport: string;
   type: 'elimination';
-  format: 'single_elimination' | 'double_elimination' | 'round_robin';
+  format: TournamentFormat;
+  /** Number of rounds to play (Swiss format) */
+  rounds?: number;
+  /** Whether players enter on their own or as teams; individual when omitted */
+  entryType?: TournamentEntryType;
+  /** Players each team must name on its roster (team tournaments) */
+  rosterSize?: number;
   maxParticipants: number;
   currentParticipants: number;
   participants: TournamentParticipant[];
@@ -22,12 +40,18 @@ export interface Tournament {
   rules?: {
     matchFormat?: string;
     scoringSystem?: string;
+    /** Free-text description shown to participants */
     tiebreakRules?: string;
+    /** Tiebreakers applied in order when participants are level on points */
+    tiebreakers?: TiebreakRule[];
+    pointsScheme?: PointsScheme;
     skillLevelRequired?: string;
   };
   prize?: {
+    /** Prize fund in the smallest currency unit, like `entryFee.amount` */
     total: number;
     currency: string;
+    /** Percentage of the prize fund paid to each place */
     distribution?: {
       first?: number;
       second?: number;
@@ -58,14 +82,52 @@ export interface TournamentParticipant {
   };
   seed?: number;
   joinedAt?: string;
+  /** Payment intent that covered the entry fee; refunded when the entry withdraws in time */
+  entryFeePaymentId?: string;
+  /** Set for team entries; `_id` is then the team id */
+  team?: TournamentTeamEntry;
 }
 
+export interface ParticipantSeed {
+  participantId: string;
+  seed: number;
+}
+
+export interface TournamentTeamEntry {
+  _id: string;
+  name: string;
+  avatar?: string;
+  captainId: string;
+  /** User ids of the players picked from the team's members */
+  roster: string[];
+}
+
+export interface RegisterTeamRequest {
+  teamId: string;
+  roster: string[];
+  paymentIntentId?: string;
+}
+
+export interface MatchScheduleEntry {
+  matchId: string;
+  scheduledAt: string;
+  court: number;
+  bookingId?: string;
+}
+
+export type BracketSide = 'winners' | 'losers' | 'grand_final';
+
+export type BracketSlot = 'player1' | 'player2';
+
 export interface TournamentBracket {
+  format?: TournamentFormat;
   rounds: BracketRound[];
 }
 
 export interface BracketRound {
   round: number;
+  side?: BracketSide;
+  name?: string;
   matches: BracketMatch[];
 }
 
@@ -75,11 +137,21 @@ export interface BracketMatch {
   player2?: string;
   winner?: string;
   status?: 'scheduled' | 'in_progress' | 'completed';
+  /** Venue-local start time, `YYYY-MM-DDTHH:mm:ss` */
   scheduledAt?: string;
+  /** 1-based court at the tournament venue */
+  court?: number;
+  /** Venue booking covering the match */
+  bookingId?: string;
   score?: {
     player1?: number;
     player2?: number;
   };
+  isBye?: boolean;
+  nextMatchId?: string;
+  nextMatchSlot?: BracketSlot;
+  loserNextMatchId?: string;
+  loserNextMatchSlot?: BracketSlot;
 }
 
 export interface TournamentStanding {
@@ -87,15 +159,28 @@ export interface TournamentStanding {
   name: string;
   wins: number;
   losses: number;
+  draws?: number;
+  played?: number;
   points: number;
   rank: number;
+  /** Total score for and against across completed matches */
+  scoreFor?: number;
+  scoreAgainst?: number;
+  scoreDifference?: number;
+  /** Sum of opponents' points (Swiss tiebreak) */
+  buchholz?: number;
+  /** Sum of beaten opponents' points plus half of drawn opponents' points (Swiss tiebreak) */
+  sonnebornBerger?: number;
 }
 
 export interface CreateTournamentRequest {
   name: string;
   description?: string;
   sport: string;
-  format: 'single_elimination' | 'double_elimination' | 'round_robin';
+  format: TournamentFormat;
+  rounds?: number;
+  entryType?: TournamentEntryType;
+  rosterSize?: number;
   maxParticipants: number;
   registrationDeadline: string;
   startDate: string;
@@ -105,4 +190,5 @@ export interface CreateTournamentRequest {
     amount: number;
     currency: string;
   };
+  prize?: Tournament['prize'];
 }
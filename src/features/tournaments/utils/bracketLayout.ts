@@ -0,0 +1,145 @@
+import { BracketMatch, BracketRound, BracketSide, TournamentBracket } from '../types';
+
+/**
+ * Bracket layout
+ * Positions bracket matches on a 2D canvas and computes the connector lines
+ * between rounds. Pure geometry so the view only has to draw boxes and lines.
+ */
+
+export interface BracketLayoutOptions {
+  matchWidth: number;
+  matchHeight: number;
+  columnGap: number;
+  rowGap: number;
+  sectionGap: number;
+  headerHeight: number;
+}
+
+export interface PositionedMatch {
+  match: BracketMatch;
+  x: number;
+  y: number;
+}
+
+export interface PositionedRoundHeader {
+  label: string;
+  x: number;
+  y: number;
+}
+
+export interface ConnectorSegment {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fromMatchId: string;
+  toMatchId: string;
+}
+
+export interface BracketLayout {
+  matches: PositionedMatch[];
+  headers: PositionedRoundHeader[];
+  connectors: ConnectorSegment[];
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_BRACKET_LAYOUT: BracketLayoutOptions = {
+  matchWidth: 180,
+  matchHeight: 64,
+  columnGap: 48,
+  rowGap: 16,
+  sectionGap: 40,
+  headerHeight: 28,
+};
+
+const SECTION_ORDER: (BracketSide | undefined)[] = ['winners', undefined, 'losers', 'grand_final'];
+
+/**
+ * Group rounds into horizontal sections: winners, losers and grand final are
+ * drawn as separate bands; brackets without sides (round robin) form one band.
+ */
+const groupSections = (rounds: BracketRound[]): BracketRound[][] => {
+  return SECTION_ORDER.map(side => rounds.filter(round => round.side === side)).filter(
+    section => section.length > 0
+  );
+};
+
+/**
+ * Compute match positions, round headers and connector segments for a bracket
+ */
+export const layoutBracket = (
+  bracket: TournamentBracket,
+  options: BracketLayoutOptions = DEFAULT_BRACKET_LAYOUT
+): BracketLayout => {
+  const { matchWidth, matchHeight, columnGap, rowGap, sectionGap, headerHeight } = options;
+  const positions = new Map<string, PositionedMatch>();
+  const headers: PositionedRoundHeader[] = [];
+  let sectionTop = 0;
+  let width = 0;
+
+  groupSections(bracket.rounds).forEach(section => {
+    // Matches feeding a later match in the same section, keyed by target id
+    const feeders = new Map<string, string[]>();
+    section.forEach(round =>
+      round.matches.forEach(match => {
+        if (!match.nextMatchId) return;
+        feeders.set(match.nextMatchId, [...(feeders.get(match.nextMatchId) ?? []), match.matchId]);
+      })
+    );
+
+    let sectionBottom = sectionTop + headerHeight;
+
+    section.forEach((round, column) => {
+      const x = column * (matchWidth + columnGap);
+      let nextFreeY = sectionTop + headerHeight;
+
+      headers.push({ label: round.name ?? `Round ${round.round}`, x, y: sectionTop });
+
+      round.matches.forEach(match => {
+        // Centre a match between the matches that feed it, when they are drawn
+        const feederYs = (feeders.get(match.matchId) ?? [])
+          .map(id => positions.get(id)?.y)
+          .filter((y): y is number => y !== undefined);
+        const centredY =
+          feederYs.length > 0 ? feederYs.reduce((sum, y) => sum + y, 0) / feederYs.length : nextFreeY;
+        const y = Math.max(centredY, nextFreeY);
+
+        positions.set(match.matchId, { match, x, y });
+        nextFreeY = y + matchHeight + rowGap;
+        sectionBottom = Math.max(sectionBottom, y + matchHeight);
+      });
+
+      width = Math.max(width, x + matchWidth);
+    });
+
+    sectionTop = sectionBottom + sectionGap;
+  });
+
+  const connectors: ConnectorSegment[] = [];
+  positions.forEach(from => {
+    const to = from.match.nextMatchId ? positions.get(from.match.nextMatchId) : undefined;
+    // Only connect forward within the drawing; cross-section links would cut through other rounds
+    if (!to || to.x <= from.x) return;
+
+    const fromX = from.x + matchWidth;
+    const fromY = from.y + matchHeight / 2;
+    const toY = to.y + matchHeight / 2;
+    const midX = fromX + (to.x - fromX) / 2;
+    const ids = { fromMatchId: from.match.matchId, toMatchId: to.match.matchId };
+
+    connectors.push(
+      { x: fromX, y: fromY, width: midX - fromX, height: 0, ...ids },
+      { x: midX, y: Math.min(fromY, toY), width: 0, height: Math.abs(toY - fromY), ...ids },
+      { x: midX, y: toY, width: to.x - midX, height: 0, ...ids }
+    );
+  });
+
+  return {
+    matches: Array.from(positions.values()),
+    headers,
+    connectors,
+    width,
+    height: Math.max(0, sectionTop - sectionGap),
+  };
+};
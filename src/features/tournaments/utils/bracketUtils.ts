@@ -0,0 +1,674 @@
+import { BusinessError } from '@core';
+import {
+  BracketMatch,
+  BracketRound,
+  BracketSide,
+  BracketSlot,
+  TournamentBracket,
+  TournamentFormat,
+  TournamentParticipant,
+} from '../types';
+import { sortBySeed } from './seedingUtils';
+import { generateSwissRound } from './swissUtils';
+
+export { sortBySeed };
+
+/**
+ * Bracket engine
+ * Builds, advances and validates tournament brackets entirely on the client so
+ * organizers can preview a draw before the server starts the tournament.
+ */
+
+export interface BracketOptions {
+  /** Play a deciding rematch when the losers' bracket champion wins the grand final */
+  grandFinalReset?: boolean;
+}
+
+export interface BracketMatchScore {
+  player1: number;
+  player2: number;
+}
+
+export interface BracketValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+type SlotState = 'filled' | 'pending' | 'empty';
+
+interface SlotFeeder {
+  match: BracketMatch;
+  outcome: 'winner' | 'loser';
+}
+
+const SIDE_PREFIX: Record<BracketSide | 'round_robin', string> = {
+  winners: 'wb',
+  losers: 'lb',
+  grand_final: 'gf',
+  round_robin: 'rr',
+};
+
+const createMatchId = (side: BracketSide | 'round_robin', round: number, index: number): string =>
+  `${SIDE_PREFIX[side]}-r${round}-m${index + 1}`;
+
+const slotFor = (index: number): BracketSlot => (index % 2 === 0 ? 'player1' : 'player2');
+
+/**
+ * Smallest power of two that can hold the given number of participants
+ */
+export const nextPowerOfTwo = (count: number): number => {
+  let size = 1;
+  while (size < count) {
+    size *= 2;
+  }
+  return size;
+};
+
+/**
+ * Standard bracket seed positions, e.g. 8 => [1, 8, 4, 5, 2, 7, 3, 6].
+ * Top seeds can only meet in the latest possible round.
+ */
+export const getSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap(seed => [seed, length + 1 - seed]);
+  }
+  return order;
+};
+
+/** Points-based formats can end a match level */
+const allowsDraws = (bracket: TournamentBracket): boolean =>
+  bracket.format === 'round_robin' || bracket.format === 'swiss';
+
+const getRoundName = (side: BracketSide, round: number, totalRounds: number): string => {
+  const remaining = totalRounds - round;
+  if (side === 'grand_final') {
+    return round === 1 ? 'Grand Final' : 'Grand Final Reset';
+  }
+  if (side === 'losers') {
+    return remaining === 0 ? 'Losers Final' : `Losers Round ${round}`;
+  }
+  if (remaining === 0) return 'Final';
+  if (remaining === 1) return 'Semifinals';
+  if (remaining === 2) return 'Quarterfinals';
+  return `Round ${round}`;
+};
+
+const buildWinnersBracket = (participantIds: string[]): BracketRound[] => {
+  const size = nextPowerOfTwo(participantIds.length);
+  const totalRounds = Math.log2(size);
+  const order = getSeedOrder(size);
+  const rounds: BracketRound[] = [];
+
+  for (let round = 1; round <= totalRounds; round++) {
+    const matchCount = size / Math.pow(2, round);
+    const matches: BracketMatch[] = [];
+
+    for (let index = 0; index < matchCount; index++) {
+      const match: BracketMatch = {
+        matchId: createMatchId('winners', round, index),
+        status: 'scheduled',
+      };
+
+      if (round === 1) {
+        match.player1 = participantIds[order[index * 2] - 1];
+        match.player2 = participantIds[order[index * 2 + 1] - 1];
+      }
+
+      if (round < totalRounds) {
+        match.nextMatchId = createMatchId('winners', round + 1, Math.floor(index / 2));
+        match.nextMatchSlot = slotFor(index);
+      }
+
+      matches.push(match);
+    }
+
+    rounds.push({
+      round,
+      side: 'winners',
+      name: getRoundName('winners', round, totalRounds),
+      matches,
+    });
+  }
+
+  return rounds;
+};
+
+/**
+ * Losers' bracket for a winners' bracket of the given size. Odd rounds pair
+ * survivors of the losers' bracket; even rounds take the players dropping out
+ * of the winners' bracket, in reverse order to postpone rematches.
+ */
+const buildLosersBracket = (size: number, winners: BracketRound[]): BracketRound[] => {
+  const winnersRounds = winners.length;
+  const totalRounds = 2 * (winnersRounds - 1);
+  const rounds: BracketRound[] = [];
+
+  for (let round = 1; round <= totalRounds; round++) {
+    const isDropRound = round % 2 === 0;
+    const matchCount = isDropRound
+      ? size / Math.pow(2, round / 2 + 1)
+      : size / Math.pow(2, (round - 1) / 2 + 2);
+
+    const matches: BracketMatch[] = Array.from({ length: matchCount }, (_, index) => ({
+      matchId: createMatchId('losers', round, index),
+      status: 'scheduled' as const,
+    }));
+
+    rounds.push({
+      round,
+      side: 'losers',
+      name: getRoundName('losers', round, totalRounds),
+      matches,
+    });
+  }
+
+  // Wire winners' bracket losers into the losers' bracket
+  winners.forEach((winnersRound, roundIndex) => {
+    const targetRound = roundIndex === 0 ? 1 : roundIndex * 2;
+    const target = rounds[targetRound - 1];
+    if (!target) return;
+
+    winnersRound.matches.forEach((match, index) => {
+      if (roundIndex === 0) {
+        match.loserNextMatchId = target.matches[Math.floor(index / 2)].matchId;
+        match.loserNextMatchSlot = slotFor(index);
+      } else {
+        match.loserNextMatchId = target.matches[target.matches.length - 1 - index].matchId;
+        match.loserNextMatchSlot = 'player2';
+      }
+    });
+  });
+
+  // Wire losers' bracket winners forward
+  rounds.forEach((losersRound, roundIndex) => {
+    const next = rounds[roundIndex + 1];
+    if (!next) return;
+
+    losersRound.matches.forEach((match, index) => {
+      const nextIsDropRound = next.round % 2 === 0;
+      match.nextMatchId = nextIsDropRound
+        ? next.matches[index].matchId
+        : next.matches[Math.floor(index / 2)].matchId;
+      match.nextMatchSlot = nextIsDropRound ? 'player1' : slotFor(index);
+    });
+  });
+
+  return rounds;
+};
+
+const buildGrandFinal = (
+  winners: BracketRound[],
+  losers: BracketRound[],
+  options: BracketOptions
+): BracketRound[] => {
+  const totalRounds = options.grandFinalReset === false ? 1 : 2;
+  const opener: BracketMatch = {
+    matchId: createMatchId('grand_final', 1, 0),
+    status: 'scheduled',
+  };
+  const rounds: BracketRound[] = [
+    { round: 1, side: 'grand_final', name: getRoundName('grand_final', 1, totalRounds), matches: [opener] },
+  ];
+
+  const winnersFinal = winners[winners.length - 1].matches[0];
+  winnersFinal.nextMatchId = opener.matchId;
+  winnersFinal.nextMatchSlot = 'player1';
+
+  const losersFinal = losers[losers.length - 1]?.matches[0];
+  if (losersFinal) {
+    losersFinal.nextMatchId = opener.matchId;
+    losersFinal.nextMatchSlot = 'player2';
+  } else {
+    // Two-player draw: the winners' final loser goes straight to the grand final
+    winnersFinal.loserNextMatchId = opener.matchId;
+    winnersFinal.loserNextMatchSlot = 'player2';
+  }
+
+  if (totalRounds === 2) {
+    const reset: BracketMatch = {
+      matchId: createMatchId('grand_final', 2, 0),
+      status: 'scheduled',
+    };
+    opener.nextMatchId = reset.matchId;
+    opener.nextMatchSlot = 'player1';
+    opener.loserNextMatchId = reset.matchId;
+    opener.loserNextMatchSlot = 'player2';
+    rounds.push({
+      round: 2,
+      side: 'grand_final',
+      name: getRoundName('grand_final', 2, totalRounds),
+      matches: [reset],
+    });
+  }
+
+  return rounds;
+};
+
+/**
+ * Round robin schedule using the circle method. Every participant meets every
+ * other participant once; with an odd field one participant sits out each round.
+ */
+const buildRoundRobin = (participantIds: string[]): BracketRound[] => {
+  const field: (string | undefined)[] = [...participantIds];
+  if (field.length % 2 !== 0) {
+    field.push(undefined);
+  }
+
+  const size = field.length;
+  const rounds: BracketRound[] = [];
+
+  for (let round = 1; round < size; round++) {
+    const matches: BracketMatch[] = [];
+
+    for (let index = 0; index < size / 2; index++) {
+      let home = field[index];
+      let away = field[size - 1 - index];
+      if (!home || !away) continue;
+
+      // Alternate the fixed participant's side so nobody is always player1
+      if (index === 0 && round % 2 === 0) {
+        [home, away] = [away, home];
+      }
+
+      matches.push({
+        matchId: createMatchId('round_robin', round, matches.length),
+        player1: home,
+        player2: away,
+        status: 'scheduled',
+      });
+    }
+
+    rounds.push({ round, name: `Round ${round}`, matches });
+    field.splice(1, 0, field.pop());
+  }
+
+  return rounds;
+};
+
+const cloneBracket = (bracket: TournamentBracket): TournamentBracket => ({
+  ...bracket,
+  rounds: bracket.rounds.map(round => ({
+    ...round,
+    matches: round.matches.map(match => ({
+      ...match,
+      ...(match.score ? { score: { ...match.score } } : {}),
+    })),
+  })),
+});
+
+const indexMatches = (bracket: TournamentBracket): Map<string, BracketMatch> => {
+  const index = new Map<string, BracketMatch>();
+  bracket.rounds.forEach(round => round.matches.forEach(match => index.set(match.matchId, match)));
+  return index;
+};
+
+const indexFeeders = (bracket: TournamentBracket): Map<string, SlotFeeder> => {
+  const feeders = new Map<string, SlotFeeder>();
+  bracket.rounds.forEach(round =>
+    round.matches.forEach(match => {
+      if (match.nextMatchId && match.nextMatchSlot) {
+        feeders.set(`${match.nextMatchId}:${match.nextMatchSlot}`, { match, outcome: 'winner' });
+      }
+      if (match.loserNextMatchId && match.loserNextMatchSlot) {
+        feeders.set(`${match.loserNextMatchId}:${match.loserNextMatchSlot}`, { match, outcome: 'loser' });
+      }
+    })
+  );
+  return feeders;
+};
+
+const getLoser = (match: BracketMatch): string | undefined => {
+  if (!match.winner) return undefined;
+  return match.winner === match.player1 ? match.player2 : match.player1;
+};
+
+/**
+ * A grand final opener feeds both of its players into the reset match
+ */
+const isGrandFinalOpener = (match: BracketMatch): boolean =>
+  match.matchId === createMatchId('grand_final', 1, 0) &&
+  Boolean(match.nextMatchId) &&
+  match.nextMatchId === match.loserNextMatchId;
+
+const advance = (index: Map<string, BracketMatch>, match: BracketMatch): void => {
+  if (isGrandFinalOpener(match) && match.winner && match.winner === match.player1) {
+    // The winners' bracket champion is still unbeaten, so the reset is not needed
+    const reset = index.get(match.nextMatchId!);
+    if (reset) {
+      reset.player1 = match.winner;
+      reset.player2 = undefined;
+      reset.winner = match.winner;
+      reset.status = 'completed';
+      reset.isBye = true;
+    }
+    return;
+  }
+
+  const loser = getLoser(match);
+  if (match.nextMatchId && match.nextMatchSlot && match.winner) {
+    const next = index.get(match.nextMatchId);
+    if (next) next[match.nextMatchSlot] = match.winner;
+  }
+  if (match.loserNextMatchId && match.loserNextMatchSlot && loser) {
+    const next = index.get(match.loserNextMatchId);
+    if (next) next[match.loserNextMatchSlot] = loser;
+  }
+};
+
+const resetMatch = (match: BracketMatch): void => {
+  match.winner = undefined;
+  match.score = undefined;
+  match.status = 'scheduled';
+  match.isBye = undefined;
+};
+
+/**
+ * Remove a match's winner and loser from the matches they advanced into.
+ * Automatically resolved byes downstream are unwound; played matches are not.
+ */
+const retract = (index: Map<string, BracketMatch>, match: BracketMatch): void => {
+  const targets: [string | undefined, BracketSlot | undefined][] = [
+    [match.nextMatchId, match.nextMatchSlot],
+    [match.loserNextMatchId, match.loserNextMatchSlot],
+  ];
+
+  targets.forEach(([targetId, slot]) => {
+    if (!targetId || !slot) return;
+    const target = index.get(targetId);
+    if (!target) return;
+
+    if (target.status === 'completed') {
+      if (!target.isBye) {
+        throw new BusinessError('Cannot change a result once the following match has been played', {
+          matchId: match.matchId,
+          nextMatchId: target.matchId,
+        });
+      }
+      retract(index, target);
+      resetMatch(target);
+    }
+
+    target[slot] = undefined;
+  });
+};
+
+const getSlotState = (
+  match: BracketMatch,
+  slot: BracketSlot,
+  feeders: Map<string, SlotFeeder>
+): SlotState => {
+  if (match[slot]) return 'filled';
+  const feeder = feeders.get(`${match.matchId}:${slot}`);
+  if (!feeder) return 'empty';
+  return feeder.match.status === 'completed' ? 'empty' : 'pending';
+};
+
+/**
+ * Complete every match that can no longer receive a second player and push
+ * the remaining player forward, repeating until the bracket settles.
+ */
+const resolveByes = (bracket: TournamentBracket, index: Map<string, BracketMatch>): void => {
+  const feeders = indexFeeders(bracket);
+  // Without advancement links there is no way to tell a bye from an unplayed slot
+  if (feeders.size === 0) return;
+
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+
+    bracket.rounds.forEach(round =>
+      round.matches.forEach(match => {
+        if (match.status === 'completed') return;
+
+        const player1 = getSlotState(match, 'player1', feeders);
+        const player2 = getSlotState(match, 'player2', feeders);
+        if (player1 === 'pending' || player2 === 'pending') return;
+        if (player1 === 'filled' && player2 === 'filled') return;
+
+        match.winner = match.player1 ?? match.player2;
+        match.status = 'completed';
+        match.isBye = true;
+        advance(index, match);
+        changed = true;
+      })
+    );
+  }
+};
+
+/**
+ * Generate a bracket for the given format from seeded participants.
+ * Byes go to the top seeds when the field is not a power of two.
+ */
+export const generateBracket = (
+  format: TournamentFormat,
+  participants: TournamentParticipant[],
+  options: BracketOptions = {}
+): TournamentBracket => {
+  if (participants.length < 2) {
+    throw new BusinessError('A bracket needs at least 2 participants', {
+      participantCount: participants.length,
+    });
+  }
+
+  const participantIds = sortBySeed(participants).map(participant => participant._id);
+  if (new Set(participantIds).size !== participantIds.length) {
+    throw new BusinessError('Each participant can only be entered once');
+  }
+
+  let rounds: BracketRound[];
+  switch (format) {
+    case 'single_elimination':
+      rounds = buildWinnersBracket(participantIds);
+      break;
+    case 'double_elimination': {
+      const winners = buildWinnersBracket(participantIds);
+      const losers = buildLosersBracket(nextPowerOfTwo(participantIds.length), winners);
+      rounds = [...winners, ...losers, ...buildGrandFinal(winners, losers, options)];
+      break;
+    }
+    case 'round_robin':
+      rounds = buildRoundRobin(participantIds);
+      break;
+    case 'swiss':
+      // Later rounds are paired from results with addSwissRound
+      rounds = [generateSwissRound(participants, null)];
+      break;
+    default:
+      throw new BusinessError(`Unsupported tournament format: ${format}`);
+  }
+
+  const bracket: TournamentBracket = { format, rounds };
+  resolveByes(bracket, indexMatches(bracket));
+  return bracket;
+};
+
+/**
+ * Record a match score and advance the winner (and, in double elimination,
+ * the loser). Returns a new bracket; the input is left untouched.
+ *
+ * A result can be corrected as long as the matches it fed into are unplayed.
+ */
+export const recordMatchResult = (
+  bracket: TournamentBracket,
+  matchId: string,
+  score: BracketMatchScore,
+  winnerId?: string
+): TournamentBracket => {
+  const next = cloneBracket(bracket);
+  const index = indexMatches(next);
+  const match = index.get(matchId);
+
+  if (!match) {
+    throw new BusinessError('Bracket match not found', { matchId });
+  }
+  if (match.isBye) {
+    throw new BusinessError('Cannot record a result for a bye', { matchId });
+  }
+  if (!match.player1 || !match.player2) {
+    throw new BusinessError('Both players must be known before recording a result', { matchId });
+  }
+  if (score.player1 < 0 || score.player2 < 0) {
+    throw new BusinessError('Scores cannot be negative', { matchId });
+  }
+  if (winnerId && winnerId !== match.player1 && winnerId !== match.player2) {
+    throw new BusinessError('Winner must be one of the match players', { matchId, winnerId });
+  }
+
+  let winner = winnerId;
+  if (!winner && score.player1 !== score.player2) {
+    winner = score.player1 > score.player2 ? match.player1 : match.player2;
+  }
+  if (!winner && !allowsDraws(next)) {
+    throw new BusinessError('Elimination matches need a winner', { matchId });
+  }
+
+  if (match.status === 'completed') {
+    retract(index, match);
+  }
+
+  match.score = { player1: score.player1, player2: score.player2 };
+  match.winner = winner;
+  match.status = 'completed';
+
+  advance(index, match);
+  resolveByes(next, index);
+  return next;
+};
+
+/**
+ * Matches that have both players and are waiting to be played
+ */
+export const getPlayableMatches = (bracket: TournamentBracket): BracketMatch[] => {
+  return bracket.rounds.flatMap(round =>
+    round.matches.filter(
+      match => match.status !== 'completed' && Boolean(match.player1) && Boolean(match.player2)
+    )
+  );
+};
+
+/**
+ * Ids of every match a participant has played or is drawn into, in bracket order
+ */
+export const getParticipantPath = (bracket: TournamentBracket, participantId: string): string[] => {
+  return bracket.rounds.flatMap(round =>
+    round.matches
+      .filter(match => match.player1 === participantId || match.player2 === participantId)
+      .map(match => match.matchId)
+  );
+};
+
+/**
+ * Champion of an elimination bracket, once the deciding match is complete
+ */
+export const getBracketChampion = (bracket: TournamentBracket): string | undefined => {
+  if (bracket.format === 'round_robin' || bracket.format === 'swiss') return undefined;
+
+  const finals = bracket.rounds.flatMap(round =>
+    round.matches.filter(match => !match.nextMatchId && !match.loserNextMatchId)
+  );
+  const deciding = finals[finals.length - 1];
+  return deciding?.status === 'completed' ? deciding.winner : undefined;
+};
+
+/**
+ * Finishing positions of an elimination bracket once the deciding match is
+ * complete: champion, runner-up, then third place. In single elimination both
+ * losing semi-finalists share third; in double elimination third goes to the
+ * loser of the losers' bracket final.
+ */
+export const getBracketPlacings = (bracket: TournamentBracket): string[][] => {
+  const champion = getBracketChampion(bracket);
+  if (!champion) return [];
+
+  const matches = bracket.rounds.flatMap(round => round.matches);
+  const finals = matches.filter(match => !match.nextMatchId && !match.loserNextMatchId);
+  const deciding = finals[finals.length - 1];
+  // An unneeded grand final reset is a bye, so the opener decided the title
+  const decider = deciding.isBye
+    ? matches.find(match => match.nextMatchId === deciding.matchId) ?? deciding
+    : deciding;
+
+  const placings: string[][] = [[champion]];
+  const runnerUp = getLoser(decider);
+  if (runnerUp) placings.push([runnerUp]);
+
+  const losersRounds = bracket.rounds.filter(round => round.side === 'losers');
+  const thirdPlaceMatches =
+    losersRounds.length > 0
+      ? losersRounds[losersRounds.length - 1].matches
+      : matches.filter(match => match.nextMatchId === decider.matchId && !match.isBye);
+  const placed = new Set(placings.flat());
+  const third = thirdPlaceMatches
+    .map(getLoser)
+    .filter((id): id is string => Boolean(id) && !placed.has(id!));
+  if (third.length > 0) placings.push(third);
+
+  return placings;
+};
+
+/**
+ * Check a bracket (generated locally or returned by the server) for
+ * structural problems and inconsistent results.
+ */
+export const validateBracket = (bracket: TournamentBracket): BracketValidationResult => {
+  const errors: string[] = [];
+  const matchIds = new Set<string>();
+
+  bracket.rounds.forEach(round =>
+    round.matches.forEach(match => {
+      if (matchIds.has(match.matchId)) {
+        errors.push(`Duplicate match id ${match.matchId}`);
+      }
+      matchIds.add(match.matchId);
+    })
+  );
+
+  bracket.rounds.forEach(round => {
+    const label = round.name ?? `Round ${round.round}`;
+    const seen = new Set<string>();
+
+    round.matches.forEach(match => {
+      [match.player1, match.player2].forEach(player => {
+        if (!player) return;
+        if (seen.has(player)) {
+          errors.push(`${label}: participant ${player} is drawn more than once`);
+        }
+        seen.add(player);
+      });
+
+      if (match.player1 && match.player1 === match.player2) {
+        errors.push(`${match.matchId}: participant cannot play themselves`);
+      }
+      if (match.nextMatchId && !matchIds.has(match.nextMatchId)) {
+        errors.push(`${match.matchId}: next match ${match.nextMatchId} does not exist`);
+      }
+      if (match.loserNextMatchId && !matchIds.has(match.loserNextMatchId)) {
+        errors.push(`${match.matchId}: loser match ${match.loserNextMatchId} does not exist`);
+      }
+
+      if (match.winner && match.winner !== match.player1 && match.winner !== match.player2) {
+        errors.push(`${match.matchId}: winner is not one of the players`);
+      }
+
+      if (match.status === 'completed' && !match.isBye) {
+        if (!match.winner && !allowsDraws(bracket)) {
+          errors.push(`${match.matchId}: completed without a winner`);
+        }
+
+        const { player1: score1, player2: score2 } = match.score ?? {};
+        if (match.winner && score1 !== undefined && score2 !== undefined) {
+          const winnerScore = match.winner === match.player1 ? score1 : score2;
+          const loserScore = match.winner === match.player1 ? score2 : score1;
+          if (winnerScore < loserScore) {
+            errors.push(`${match.matchId}: winner has the lower score`);
+          }
+        }
+      }
+    });
+  });
+
+  return { isValid: errors.length === 0, errors };
+};
@@ -0,0 +1,7 @@
+export * from './bracketUtils';
+export * from './bracketLayout';
+export * from './swissUtils';
+export * from './standingsUtils';
+export * from './participantUtils';
+export * from './prizeUtils';
+export * from './schedulingUtils';
@@ -0,0 +1,22 @@
+import { TournamentParticipant } from '../types';
+
+/**
+ * Display name of a participant: the team name for team entries
+ */
+export const getParticipantName = (participant: TournamentParticipant): string => {
+  return participant.team?.name ?? `${participant.firstName} ${participant.lastName}`;
+};
+
+/**
+ * Avatar URL of a team entry, if the team has one
+ */
+export const getParticipantAvatar = (participant: TournamentParticipant): string | undefined => {
+  return participant.team?.avatar;
+};
+
+/**
+ * Whether a user plays in this entry, either directly or on its team roster
+ */
+export const isParticipantMember = (participant: TournamentParticipant, userId: string): boolean => {
+  return participant._id === userId || Boolean(participant.team?.roster.includes(userId));
+};
@@ -0,0 +1,101 @@
+import { Tournament, TournamentBracket, TournamentStanding } from '../types';
+import { getBracketPlacings } from './bracketUtils';
+
+/**
+ * Prize payouts
+ * Splits a completed tournament's prize fund between the top three places
+ * using the organizer's percentage distribution.
+ */
+
+export type PrizePlace = 'first' | 'second' | 'third';
+
+export const PRIZE_PLACES: PrizePlace[] = ['first', 'second', 'third'];
+
+export interface PrizePayout {
+  participantId: string;
+  /** Finishing position; participants sharing a position split its prize */
+  position: number;
+  /** Smallest currency unit */
+  amount: number;
+}
+
+export interface PrizePayoutSummary {
+  total: number;
+  currency: string;
+  payouts: PrizePayout[];
+  /** Part of the fund the distribution or the final positions leave unpaid */
+  unallocated: number;
+}
+
+/**
+ * Sum of the distribution percentages, or null when one is negative or the
+ * total exceeds 100
+ */
+export const getPrizeDistributionTotal = (
+  distribution: NonNullable<Tournament['prize']>['distribution'] = {}
+): number | null => {
+  const percentages = PRIZE_PLACES.map(place => distribution[place] ?? 0);
+  const total = percentages.reduce((sum, percentage) => sum + percentage, 0);
+  return percentages.some(percentage => percentage < 0) || total > 100 ? null : total;
+};
+
+/**
+ * Participant ids grouped by finishing position. League formats use the
+ * standings, where participants sharing a rank share a position; elimination
+ * formats use the bracket.
+ */
+export const getFinalPlacings = (
+  tournament: Pick<Tournament, 'format'>,
+  bracket: TournamentBracket | null | undefined,
+  standings: TournamentStanding[]
+): string[][] => {
+  if (tournament.format === 'round_robin' || tournament.format === 'swiss') {
+    const byRank = new Map<number, string[]>();
+    [...standings]
+      .sort((a, b) => a.rank - b.rank)
+      .forEach(standing => {
+        byRank.set(standing.rank, [...(byRank.get(standing.rank) ?? []), standing.participantId]);
+      });
+    return [...byRank.values()];
+  }
+
+  return bracket ? getBracketPlacings({ ...bracket, format: bracket.format ?? tournament.format }) : [];
+};
+
+/**
+ * Prize owed to each placed participant. Participants sharing a position pool
+ * the prizes for the places they cover and split them evenly; any remainder
+ * from the split goes to those listed first.
+ */
+export const calculatePrizePayouts = (
+  prize: NonNullable<Tournament['prize']>,
+  placings: string[][]
+): PrizePayoutSummary => {
+  const distribution = prize.distribution ?? {};
+  const payouts: PrizePayout[] = [];
+
+  let position = 1;
+  for (const group of placings) {
+    if (position > PRIZE_PLACES.length || group.length === 0) break;
+
+    const pool = PRIZE_PLACES.slice(position - 1, position - 1 + group.length).reduce(
+      (sum, place) => sum + Math.floor((prize.total * (distribution[place] ?? 0)) / 100),
+      0
+    );
+    const share = Math.floor(pool / group.length);
+    const remainder = pool - share * group.length;
+    group.forEach((participantId, index) => {
+      payouts.push({ participantId, position, amount: share + (index < remainder ? 1 : 0) });
+    });
+
+    position += group.length;
+  }
+
+  const paid = payouts.reduce((sum, payout) => sum + payout.amount, 0);
+  return {
+    total: prize.total,
+    currency: prize.currency,
+    payouts: payouts.filter(payout => payout.amount > 0),
+    unallocated: prize.total - paid,
+  };
+};
@@ -0,0 +1,332 @@
+import { CheckAvailabilityResponse, OperatingHours } from '@features/venues/types';
+import { BracketMatch, TournamentBracket } from '../types';
+
+/**
+ * Scheduling assistant
+ * Proposes a court and start time for every unplayed bracket match within the
+ * venue's opening hours. Times are venue-local `HH:mm` on `YYYY-MM-DD` dates,
+ * the format bookings use, so no time zone conversion is involved.
+ */
+
+export interface TimeWindow {
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduleDay {
+  date: string;
+  /** When matches can be played */
+  windows: TimeWindow[];
+  /** Existing bookings; each one takes up a court */
+  blocked?: TimeWindow[];
+}
+
+export interface ScheduleOptions {
+  courts: number;
+  /** Minutes per match */
+  matchDuration: number;
+  /** Minutes a participant rests between matches */
+  restTime: number;
+}
+
+export interface ScheduledMatch {
+  matchId: string;
+  /** 1-based court number */
+  court: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduleProposal {
+  matches: ScheduledMatch[];
+  /** Matches that do not fit before the last day */
+  unscheduled: string[];
+}
+
+export interface ScheduleBooking {
+  court: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+  /** Matches played back to back on the court during the booking */
+  matchIds: string[];
+}
+
+/** Used when the venue does not publish opening hours */
+export const DEFAULT_OPENING_WINDOW: TimeWindow = { startTime: '08:00', endTime: '22:00' };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const toTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const toInterval = (window: TimeWindow, dayIndex: number): Interval => ({
+  start: dayIndex * MINUTES_PER_DAY + toMinutes(window.startTime),
+  end: dayIndex * MINUTES_PER_DAY + toMinutes(window.endTime),
+});
+
+const overlaps = (a: Interval, b: Interval): boolean => a.start < b.end && b.start < a.end;
+
+/**
+ * Every date from `startDate` to `endDate` inclusive, as `YYYY-MM-DD`
+ */
+export const getDatesBetween = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const current = new Date(`${startDate.slice(0, 10)}T00:00:00Z`);
+  const last = new Date(`${endDate.slice(0, 10)}T00:00:00Z`);
+  while (current.getTime() <= last.getTime()) {
+    dates.push(current.toISOString().slice(0, 10));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+/**
+ * Opening window for a date, or null when the venue is closed that day.
+ * Day names match case-insensitively and may be abbreviated ("Mon").
+ */
+export const getOpeningWindow = (
+  date: string,
+  operatingHours: OperatingHours[] | undefined
+): TimeWindow | null => {
+  if (!operatingHours || operatingHours.length === 0) return DEFAULT_OPENING_WINDOW;
+
+  const dayName = DAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  const hours = operatingHours.find(entry => dayName.startsWith(entry.day.trim().toLowerCase().slice(0, 3)));
+  if (!hours || hours.isClosed) return null;
+  return { startTime: hours.open, endTime: hours.close };
+};
+
+/**
+ * Days the venue is open between the tournament's start and end dates
+ */
+export const getScheduleDays = (
+  startDate: string,
+  endDate: string,
+  operatingHours?: OperatingHours[]
+): ScheduleDay[] => {
+  return getDatesBetween(startDate, endDate).flatMap(date => {
+    const window = getOpeningWindow(date, operatingHours);
+    return window ? [{ date, windows: [window] }] : [];
+  });
+};
+
+/**
+ * Fold a venue availability check into a schedule day. Conflicting bookings
+ * take up a court each; when the venue reports the day unavailable without
+ * naming conflicts, only its suggested slots stay open.
+ */
+export const applyAvailability = (
+  day: ScheduleDay,
+  availability: CheckAvailabilityResponse | undefined
+): ScheduleDay => {
+  if (!availability || availability.available) return day;
+
+  if (availability.conflictingBookings?.length) {
+    return {
+      ...day,
+      blocked: [
+        ...(day.blocked ?? []),
+        ...availability.conflictingBookings.map(({ startTime, endTime }) => ({ startTime, endTime })),
+      ],
+    };
+  }
+
+  const windows = day.windows.flatMap(window =>
+    (availability.suggestedSlots ?? []).flatMap(slot => {
+      const startTime = toMinutes(slot.startTime) > toMinutes(window.startTime) ? slot.startTime : window.startTime;
+      const endTime = toMinutes(slot.endTime) < toMinutes(window.endTime) ? slot.endTime : window.endTime;
+      return toMinutes(startTime) < toMinutes(endTime) ? [{ startTime, endTime }] : [];
+    })
+  );
+  return { ...day, windows };
+};
+
+/**
+ * Matches that still need a time, ordered so each comes after the matches
+ * that feed players into it
+ */
+const getMatchesToSchedule = (bracket: TournamentBracket) => {
+  const matches = bracket.rounds.flatMap(round => round.matches);
+  const feeders = new Map<string, BracketMatch[]>();
+  matches.forEach(match => {
+    [match.nextMatchId, match.loserNextMatchId].forEach(nextId => {
+      if (nextId && nextId !== match.matchId) {
+        feeders.set(nextId, [...(feeders.get(nextId) ?? []), match]);
+      }
+    });
+  });
+
+  const depths = new Map<string, number>();
+  const getDepth = (match: BracketMatch): number => {
+    if (!depths.has(match.matchId)) {
+      const feederDepths = (feeders.get(match.matchId) ?? []).map(getDepth);
+      depths.set(match.matchId, 1 + Math.max(0, ...feederDepths));
+    }
+    return depths.get(match.matchId)!;
+  };
+
+  const pending = matches
+    .map((match, order) => ({ match, order, depth: getDepth(match) }))
+    .filter(({ match }) => !match.isBye && match.status !== 'completed')
+    .sort((a, b) => a.depth - b.depth || a.order - b.order)
+    .map(({ match }) => match);
+
+  return { pending, feeders };
+};
+
+/**
+ * Earliest interval of `duration` minutes at or after `earliest` that fits in
+ * an opening window with a court to spare
+ */
+const findSlot = (
+  windows: Interval[],
+  blocked: Interval[],
+  booked: (Interval & { court: number })[],
+  earliest: number,
+  duration: number,
+  courts: number
+): (Interval & { court: number }) | null => {
+  for (const window of windows) {
+    let start = Math.max(window.start, earliest);
+    while (start + duration <= window.end) {
+      const candidate = { start, end: start + duration };
+      const busy = booked.filter(interval => overlaps(interval, candidate));
+      const blockedCount = blocked.filter(interval => overlaps(interval, candidate)).length;
+
+      if (busy.length + blockedCount < courts) {
+        const taken = new Set(busy.map(interval => interval.court));
+        let court = 1;
+        while (taken.has(court)) court += 1;
+        return { ...candidate, court };
+      }
+
+      // Try again once the first overlapping match or booking finishes
+      start = Math.min(
+        ...[...busy, ...blocked.filter(interval => overlaps(interval, candidate))].map(
+          interval => interval.end
+        )
+      );
+    }
+  }
+  return null;
+};
+
+/**
+ * Greedy schedule: each match takes the earliest court that is free for the
+ * whole match, inside an opening window, once its players have rested after
+ * their previous match. Matches still waiting on an earlier result are placed
+ * after that result plus the rest time.
+ */
+export const proposeSchedule = (
+  bracket: TournamentBracket,
+  days: ScheduleDay[],
+  options: ScheduleOptions
+): ScheduleProposal => {
+  const { courts, matchDuration, restTime } = options;
+  const windows = days.flatMap((day, index) => day.windows.map(window => toInterval(window, index)));
+  const blocked = days.flatMap((day, index) => (day.blocked ?? []).map(window => toInterval(window, index)));
+
+  const { pending, feeders } = getMatchesToSchedule(bracket);
+  const booked: (Interval & { court: number; matchId: string })[] = [];
+  const scheduledEnd = new Map<string, number>();
+  const playerFreeAt = new Map<string, number>();
+  const unscheduled: string[] = [];
+
+  pending.forEach(match => {
+    const matchFeeders = (feeders.get(match.matchId) ?? []).filter(
+      feeder => !feeder.isBye && feeder.status !== 'completed'
+    );
+    if (matchFeeders.some(feeder => !scheduledEnd.has(feeder.matchId))) {
+      unscheduled.push(match.matchId);
+      return;
+    }
+
+    const players = [match.player1, match.player2].filter((id): id is string => Boolean(id));
+    const earliest = Math.max(
+      0,
+      ...matchFeeders.map(feeder => scheduledEnd.get(feeder.matchId)! + restTime),
+      ...players.map(id => playerFreeAt.get(id) ?? 0)
+    );
+
+    const slot = findSlot(windows, blocked, booked, earliest, matchDuration, courts);
+    if (!slot) {
+      unscheduled.push(match.matchId);
+      return;
+    }
+
+    booked.push({ ...slot, matchId: match.matchId });
+    scheduledEnd.set(match.matchId, slot.end);
+    players.forEach(id => playerFreeAt.set(id, slot.end + restTime));
+  });
+
+  return {
+    matches: booked
+      .sort((a, b) => a.start - b.start || a.court - b.court)
+      .map(({ matchId, court, start, end }) => {
+        const dayIndex = Math.floor(start / MINUTES_PER_DAY);
+        return {
+          matchId,
+          court,
+          date: days[dayIndex].date,
+          startTime: toTime(start - dayIndex * MINUTES_PER_DAY),
+          endTime: toTime(end - dayIndex * MINUTES_PER_DAY),
+        };
+      }),
+    unscheduled,
+  };
+};
+
+/**
+ * Venue bookings covering a schedule: one per court per run of back-to-back
+ * matches
+ */
+export const getScheduleBookings = (proposal: ScheduleProposal): ScheduleBooking[] => {
+  const bookings: ScheduleBooking[] = [];
+  [...proposal.matches]
+    .sort(
+      (a, b) =>
+        a.court - b.court || a.date.localeCompare(b.date) || toMinutes(a.startTime) - toMinutes(b.startTime)
+    )
+    .forEach(match => {
+      const previous = bookings[bookings.length - 1];
+      if (
+        previous &&
+        previous.court === match.court &&
+        previous.date === match.date &&
+        previous.endTime === match.startTime
+      ) {
+        previous.endTime = match.endTime;
+        previous.matchIds.push(match.matchId);
+      } else {
+        bookings.push({
+          court: match.court,
+          date: match.date,
+          startTime: match.startTime,
+          endTime: match.endTime,
+          matchIds: [match.matchId],
+        });
+      }
+    });
+  return bookings;
+};
+
+/**
+ * `scheduledAt` value for a proposed match (venue-local date and time)
+ */
+export const getScheduledAt = (match: ScheduledMatch): string => `${match.date}T${match.startTime}:00`;
@@ -0,0 +1,43 @@
+import { RatingValues } from '@features/ratings/types';
+import { getEntryRating } from '@features/ratings/utils';
+import { ParticipantSeed, TournamentParticipant } from '../types';
+
+/**
+ * Order participants by seed. Unseeded participants follow in registration order.
+ */
+export const sortBySeed = (participants: TournamentParticipant[]): TournamentParticipant[] => {
+  return participants
+    .map((participant, index) => ({ participant, index }))
+    .sort((a, b) => {
+      const seedA = a.participant.seed ?? Number.POSITIVE_INFINITY;
+      const seedB = b.participant.seed ?? Number.POSITIVE_INFINITY;
+      if (seedA !== seedB) {
+        return seedA - seedB;
+      }
+      const joinedA = a.participant.joinedAt ? new Date(a.participant.joinedAt).getTime() : 0;
+      const joinedB = b.participant.joinedAt ? new Date(b.participant.joinedAt).getTime() : 0;
+      return joinedA - joinedB || a.index - b.index;
+    })
+    .map(({ participant }) => participant);
+};
+
+/**
+ * Players whose ratings count towards an entry: the roster of a team entry,
+ * otherwise the player themselves
+ */
+export const getEntryPlayerIds = (participant: TournamentParticipant): string[] =>
+  participant.team?.roster ?? [participant._id];
+
+/**
+ * Seeds from rating in the tournament's sport, highest first. Team entries
+ * are rated as the average of their roster and equal ratings keep
+ * registration order.
+ */
+export const getRatingSeeds = (
+  participants: TournamentParticipant[],
+  ratings: Record<string, Pick<RatingValues, 'rating'>>
+): ParticipantSeed[] =>
+  sortBySeed(participants.map(participant => ({ ...participant, seed: undefined })))
+    .map(participant => ({ participant, rating: getEntryRating(getEntryPlayerIds(participant), ratings) }))
+    .sort((a, b) => b.rating - a.rating)
+    .map(({ participant }, index) => ({ participantId: participant._id, seed: index + 1 }));
@@ -0,0 +1,271 @@
+import {
+  PointsScheme,
+  TiebreakRule,
+  Tournament,
+  TournamentBracket,
+  TournamentFormat,
+  TournamentParticipant,
+  TournamentStanding,
+} from '../types';
+import { getParticipantName } from './participantUtils';
+import { sortBySeed } from './seedingUtils';
+import { calculateSwissStandings } from './swissUtils';
+
+/**
+ * Standings calculator
+ * Builds a league table from completed bracket matches so standings can be
+ * shown, and checked against the server's, without a round trip.
+ */
+
+export const DEFAULT_POINTS_SCHEME: PointsScheme = { win: 3, draw: 1, loss: 0 };
+
+export const DEFAULT_TIEBREAKERS: TiebreakRule[] = [
+  'head_to_head',
+  'score_difference',
+  'points_scored',
+  'fewest_losses',
+];
+
+export interface StandingsOptions {
+  /** Swiss events score and break ties by their own rules, see `calculateSwissStandings` */
+  format?: TournamentFormat;
+  pointsScheme?: PointsScheme;
+  /** Applied in order to participants level on points */
+  tiebreakers?: TiebreakRule[];
+}
+
+export interface StandingsDiscrepancy {
+  participantId: string;
+  field: 'missing' | 'rank' | 'points' | 'wins' | 'losses';
+  expected?: number;
+  actual?: number;
+}
+
+type StandingRow = Required<
+  Pick<
+    TournamentStanding,
+    | 'participantId'
+    | 'name'
+    | 'played'
+    | 'wins'
+    | 'draws'
+    | 'losses'
+    | 'points'
+    | 'rank'
+    | 'scoreFor'
+    | 'scoreAgainst'
+    | 'scoreDifference'
+  >
+>;
+
+interface MatchResult {
+  player1: string;
+  player2: string;
+  winner?: string;
+}
+
+const COMPARED_FIELDS: Exclude<StandingsDiscrepancy['field'], 'missing'>[] = [
+  'rank',
+  'points',
+  'wins',
+  'losses',
+];
+
+/**
+ * Format, points and tiebreakers configured on the tournament, falling back
+ * to 3-1-0 and the default tiebreak order
+ */
+export const getStandingsOptions = (
+  tournament: Pick<Tournament, 'rules'> & Partial<Pick<Tournament, 'format'>>
+): StandingsOptions => ({
+  format: tournament.format,
+  pointsScheme: tournament.rules?.pointsScheme ?? DEFAULT_POINTS_SCHEME,
+  tiebreakers: tournament.rules?.tiebreakers ?? DEFAULT_TIEBREAKERS,
+});
+
+/**
+ * Points each player earned from the matches played between members of `group`
+ */
+const getHeadToHeadPoints = (
+  group: StandingRow[],
+  results: MatchResult[],
+  pointsScheme: PointsScheme
+): Map<string, number> => {
+  const members = new Set(group.map(row => row.participantId));
+  const points = new Map(group.map(row => [row.participantId, 0]));
+
+  results
+    .filter(result => members.has(result.player1) && members.has(result.player2))
+    .forEach(result => {
+      [result.player1, result.player2].forEach(participantId => {
+        const earned = !result.winner
+          ? pointsScheme.draw
+          : result.winner === participantId
+            ? pointsScheme.win
+            : pointsScheme.loss;
+        points.set(participantId, points.get(participantId)! + earned);
+      });
+    });
+
+  return points;
+};
+
+/**
+ * Split a group of participants level on points into ordered clusters using
+ * the tiebreakers in turn. Participants still level after every tiebreaker
+ * stay in the same cluster.
+ */
+const breakTies = (
+  group: StandingRow[],
+  tiebreakers: TiebreakRule[],
+  results: MatchResult[],
+  pointsScheme: PointsScheme
+): StandingRow[][] => {
+  if (group.length <= 1 || tiebreakers.length === 0) {
+    return [group];
+  }
+
+  const [rule, ...remaining] = tiebreakers;
+  const headToHead = rule === 'head_to_head' ? getHeadToHeadPoints(group, results, pointsScheme) : undefined;
+  const getKey = (row: StandingRow): number => {
+    switch (rule) {
+      case 'head_to_head':
+        return headToHead!.get(row.participantId)!;
+      case 'score_difference':
+        return row.scoreDifference;
+      case 'points_scored':
+        return row.scoreFor;
+      case 'fewest_losses':
+        return -row.losses;
+    }
+  };
+
+  const keys = [...new Set(group.map(getKey))].sort((a, b) => b - a);
+  return keys.flatMap(key =>
+    breakTies(
+      group.filter(row => getKey(row) === key),
+      remaining,
+      results,
+      pointsScheme
+    )
+  );
+};
+
+/**
+ * League table from every completed match in the bracket. Byes and matches
+ * with a missing player are ignored. Participants level after all
+ * tiebreakers share a rank and are listed in seed order. Swiss events use
+ * `calculateSwissStandings` instead, ignoring the points and tiebreakers.
+ */
+export const calculateStandings = (
+  bracket: TournamentBracket | null | undefined,
+  participants: TournamentParticipant[],
+  options: StandingsOptions = {}
+): TournamentStanding[] => {
+  if (options.format === 'swiss') {
+    return calculateSwissStandings(bracket ?? null, participants);
+  }
+
+  const pointsScheme = options.pointsScheme ?? DEFAULT_POINTS_SCHEME;
+  const tiebreakers = options.tiebreakers ?? DEFAULT_TIEBREAKERS;
+
+  const ordered = sortBySeed(participants);
+  const rows = new Map<string, StandingRow>(
+    ordered.map(participant => [
+      participant._id,
+      {
+        participantId: participant._id,
+        name: getParticipantName(participant),
+        played: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        points: 0,
+        rank: 0,
+        scoreFor: 0,
+        scoreAgainst: 0,
+        scoreDifference: 0,
+      },
+    ])
+  );
+
+  const results: MatchResult[] = [];
+  bracket?.rounds.forEach(round =>
+    round.matches.forEach(match => {
+      if (match.status !== 'completed' || match.isBye || !match.player1 || !match.player2) return;
+      const row1 = rows.get(match.player1);
+      const row2 = rows.get(match.player2);
+      if (!row1 || !row2) return;
+
+      results.push({ player1: match.player1, player2: match.player2, winner: match.winner });
+
+      const score1 = match.score?.player1 ?? 0;
+      const score2 = match.score?.player2 ?? 0;
+      [
+        { row: row1, scored: score1, conceded: score2 },
+        { row: row2, scored: score2, conceded: score1 },
+      ].forEach(({ row, scored, conceded }) => {
+        row.played += 1;
+        row.scoreFor += scored;
+        row.scoreAgainst += conceded;
+        row.scoreDifference = row.scoreFor - row.scoreAgainst;
+
+        if (!match.winner) {
+          row.draws += 1;
+          row.points += pointsScheme.draw;
+        } else if (match.winner === row.participantId) {
+          row.wins += 1;
+          row.points += pointsScheme.win;
+        } else {
+          row.losses += 1;
+          row.points += pointsScheme.loss;
+        }
+      });
+    })
+  );
+
+  const seedOrder = ordered.map(participant => participant._id);
+  const pointTotals = [...new Set([...rows.values()].map(row => row.points))].sort((a, b) => b - a);
+  const clusters = pointTotals.flatMap(points =>
+    breakTies(
+      [...rows.values()].filter(row => row.points === points),
+      tiebreakers,
+      results,
+      pointsScheme
+    )
+  );
+
+  const standings: TournamentStanding[] = [];
+  clusters.forEach(cluster => {
+    const rank = standings.length + 1;
+    cluster
+      .sort((a, b) => seedOrder.indexOf(a.participantId) - seedOrder.indexOf(b.participantId))
+      .forEach(row => standings.push({ ...row, rank }));
+  });
+  return standings;
+};
+
+/**
+ * Differences between locally computed standings and the ones reported by
+ * the server. Participants the server left out are reported as `missing`.
+ */
+export const compareStandings = (
+  expected: TournamentStanding[],
+  actual: TournamentStanding[]
+): StandingsDiscrepancy[] => {
+  const actualById = new Map(actual.map(standing => [standing.participantId, standing]));
+
+  return expected.flatMap((standing): StandingsDiscrepancy[] => {
+    const reported = actualById.get(standing.participantId);
+    if (!reported) {
+      return [{ participantId: standing.participantId, field: 'missing' }];
+    }
+
+    return COMPARED_FIELDS.filter(field => reported[field] !== standing[field]).map(field => ({
+      participantId: standing.participantId,
+      field,
+      expected: standing[field],
+      actual: reported[field],
+    }));
+  });
+};
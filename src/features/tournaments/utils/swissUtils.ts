@@ -0,0 +1,318 @@
+import { BusinessError } from '@core';
+import {
+  BracketMatch,
+  BracketRound,
+  Tournament,
+  TournamentBracket,
+  TournamentParticipant,
+  TournamentStanding,
+} from '../types';
+import { getParticipantName } from './participantUtils';
+import { sortBySeed } from './seedingUtils';
+
+/**
+ * Swiss system
+ * Round-by-round pairings that keep players on equal points together and
+ * avoid repeating a pairing, plus Buchholz and Sonneborn-Berger tiebreaks.
+ * Scoring follows chess: 1 win, ½ draw, 0 loss.
+ */
+
+const WIN_POINTS = 1;
+const DRAW_POINTS = 0.5;
+
+interface SwissRecord {
+  participantId: string;
+  points: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  hadBye: boolean;
+  /** Points earned against each opponent, in order played */
+  results: { opponentId: string; points: number }[];
+}
+
+const createSwissMatchId = (round: number, index: number): string => `sw-r${round}-m${index + 1}`;
+
+/**
+ * Rounds needed to separate a clear winner: ceil(log2(participants))
+ */
+export const getRecommendedSwissRounds = (participantCount: number): number => {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(participantCount, 2))));
+};
+
+/**
+ * Rounds a Swiss tournament plays: the organizer's choice, or the recommended
+ * number for its field
+ */
+export const getSwissRoundCount = (tournament: Pick<Tournament, 'rounds' | 'participants'>): number => {
+  return tournament.rounds ?? getRecommendedSwissRounds(tournament.participants.length);
+};
+
+/**
+ * Tally points, opponents and byes from every completed match
+ */
+const collectRecords = (
+  bracket: TournamentBracket | null,
+  participantIds: string[]
+): Map<string, SwissRecord> => {
+  const records = new Map<string, SwissRecord>();
+  participantIds.forEach(participantId =>
+    records.set(participantId, {
+      participantId,
+      points: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      hadBye: false,
+      results: [],
+    })
+  );
+
+  bracket?.rounds.forEach(round =>
+    round.matches.forEach(match => {
+      if (match.status !== 'completed') return;
+
+      if (match.isBye) {
+        const record = match.winner ? records.get(match.winner) : undefined;
+        if (record) {
+          record.points += WIN_POINTS;
+          record.wins += 1;
+          record.hadBye = true;
+        }
+        return;
+      }
+
+      const player1 = match.player1 ? records.get(match.player1) : undefined;
+      const player2 = match.player2 ? records.get(match.player2) : undefined;
+      if (!player1 || !player2) return;
+
+      const player1Points = !match.winner
+        ? DRAW_POINTS
+        : match.winner === player1.participantId
+          ? WIN_POINTS
+          : 0;
+      const player2Points = !match.winner ? DRAW_POINTS : WIN_POINTS - player1Points;
+
+      applyResult(player1, player2.participantId, player1Points);
+      applyResult(player2, player1.participantId, player2Points);
+    })
+  );
+
+  return records;
+};
+
+const applyResult = (record: SwissRecord, opponentId: string, points: number): void => {
+  record.points += points;
+  record.results.push({ opponentId, points });
+  if (points === WIN_POINTS) record.wins += 1;
+  else if (points === DRAW_POINTS) record.draws += 1;
+  else record.losses += 1;
+};
+
+const hasPlayed = (record: SwissRecord, opponentId: string): boolean =>
+  record.results.some(result => result.opponentId === opponentId);
+
+/**
+ * Opponents for `player` in order of preference: its own score group first,
+ * starting halfway down the group (top half meets bottom half), then the
+ * groups below in ranking order.
+ */
+const getCandidates = (player: SwissRecord, remaining: SwissRecord[]): SwissRecord[] => {
+  const sameGroup = remaining.filter(record => record.points === player.points);
+  const others = remaining.filter(record => record.points !== player.points);
+  const ideal = Math.max(0, Math.ceil((sameGroup.length + 1) / 2) - 1);
+  return [...sameGroup.slice(ideal), ...sameGroup.slice(0, ideal).reverse(), ...others];
+};
+
+// Bounds the search for a round without rematches in large fields
+const MAX_PAIRING_STEPS = 10000;
+
+/**
+ * Every player paired with an opponent it has not played, in `getCandidates`
+ * order, or null when there is no such round or the search runs out of
+ * steps. Groups of players found impossible to pair are remembered, so no
+ * group is searched twice.
+ */
+const pairWithoutRematches = (ranked: SwissRecord[]): [SwissRecord, SwissRecord][] | null => {
+  const deadEnds = new Set<string>();
+  let steps = 0;
+
+  const search = (remaining: SwissRecord[]): [SwissRecord, SwissRecord][] | null => {
+    if (remaining.length === 0) return [];
+
+    const key = remaining.map(record => record.participantId).join(',');
+    if (deadEnds.has(key) || ++steps > MAX_PAIRING_STEPS) return null;
+
+    const [player, ...rest] = remaining;
+    for (const opponent of getCandidates(player, rest)) {
+      if (hasPlayed(player, opponent.participantId)) continue;
+
+      const pairings = search(rest.filter(record => record !== opponent));
+      if (pairings) {
+        return [[player, opponent], ...pairings];
+      }
+    }
+
+    deadEnds.add(key);
+    return null;
+  };
+
+  return search(ranked);
+};
+
+/**
+ * Pairings for a round that cannot avoid rematches: in ranking order, each
+ * player takes the first candidate it has not played, or the first
+ * candidate when it has played them all
+ */
+const pairWithFewRematches = (ranked: SwissRecord[]): [SwissRecord, SwissRecord][] => {
+  const pairings: [SwissRecord, SwissRecord][] = [];
+  let remaining = ranked;
+
+  while (remaining.length > 0) {
+    const [player, ...rest] = remaining;
+    const candidates = getCandidates(player, rest);
+    const opponent = candidates.find(record => !hasPlayed(player, record.participantId)) ?? candidates[0];
+    pairings.push([player, opponent]);
+    remaining = rest.filter(record => record !== opponent);
+  }
+
+  return pairings;
+};
+
+/**
+ * Ranked records: points, then seed order
+ */
+const rankRecords = (records: Map<string, SwissRecord>, participantIds: string[]): SwissRecord[] => {
+  return participantIds
+    .map(participantId => records.get(participantId)!)
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        participantIds.indexOf(a.participantId) - participantIds.indexOf(b.participantId)
+    );
+};
+
+/**
+ * Pair the next Swiss round from the results so far. With an odd field the
+ * lowest-ranked player who has not yet had a bye sits out and scores a win.
+ */
+export const generateSwissRound = (
+  participants: TournamentParticipant[],
+  bracket: TournamentBracket | null
+): BracketRound => {
+  const participantIds = sortBySeed(participants).map(participant => participant._id);
+  if (participantIds.length < 2) {
+    throw new BusinessError('A Swiss round needs at least 2 participants', {
+      participantCount: participantIds.length,
+    });
+  }
+
+  const round = (bracket?.rounds.length ?? 0) + 1;
+  const records = collectRecords(bracket, participantIds);
+  let ranked = rankRecords(records, participantIds);
+  const matches: BracketMatch[] = [];
+
+  let byeRecord: SwissRecord | undefined;
+  if (ranked.length % 2 !== 0) {
+    byeRecord = [...ranked].reverse().find(record => !record.hadBye) ?? ranked[ranked.length - 1];
+    ranked = ranked.filter(record => record !== byeRecord);
+  }
+
+  // Rematches are only allowed when no round without them is found
+  const pairings = pairWithoutRematches(ranked) ?? pairWithFewRematches(ranked);
+
+  pairings.forEach(([player1, player2]) => {
+    matches.push({
+      matchId: createSwissMatchId(round, matches.length),
+      player1: player1.participantId,
+      player2: player2.participantId,
+      status: 'scheduled',
+    });
+  });
+
+  if (byeRecord) {
+    matches.push({
+      matchId: createSwissMatchId(round, matches.length),
+      player1: byeRecord.participantId,
+      winner: byeRecord.participantId,
+      status: 'completed',
+      isBye: true,
+    });
+  }
+
+  return { round, name: `Round ${round}`, matches };
+};
+
+/**
+ * Append the next Swiss round once every match of the current round is done
+ */
+export const addSwissRound = (
+  bracket: TournamentBracket,
+  participants: TournamentParticipant[],
+  totalRounds: number = getRecommendedSwissRounds(participants.length)
+): TournamentBracket => {
+  if (bracket.rounds.length >= totalRounds) {
+    throw new BusinessError('All Swiss rounds have been played', { totalRounds });
+  }
+
+  const current = bracket.rounds[bracket.rounds.length - 1];
+  if (current?.matches.some(match => match.status !== 'completed')) {
+    throw new BusinessError('Finish the current round before pairing the next one', {
+      round: current.round,
+    });
+  }
+
+  return {
+    ...bracket,
+    format: 'swiss',
+    rounds: [...bracket.rounds, generateSwissRound(participants, bracket)],
+  };
+};
+
+/**
+ * Standings with Buchholz and Sonneborn-Berger tiebreaks. Ties are broken by
+ * points, Buchholz, Sonneborn-Berger, wins and finally seed.
+ */
+export const calculateSwissStandings = (
+  bracket: TournamentBracket | null,
+  participants: TournamentParticipant[]
+): TournamentStanding[] => {
+  const ordered = sortBySeed(participants);
+  const participantIds = ordered.map(participant => participant._id);
+  const records = collectRecords(bracket, participantIds);
+
+  const standings = ordered.map(participant => {
+    const record = records.get(participant._id)!;
+    const opponentPoints = (opponentId: string) => records.get(opponentId)?.points ?? 0;
+
+    const buchholz = record.results.reduce((sum, result) => sum + opponentPoints(result.opponentId), 0);
+    const sonnebornBerger = record.results.reduce(
+      (sum, result) => sum + result.points * opponentPoints(result.opponentId),
+      0
+    );
+
+    return {
+      participantId: participant._id,
+      name: getParticipantName(participant),
+      wins: record.wins,
+      losses: record.losses,
+      draws: record.draws,
+      points: record.points,
+      rank: 0,
+      buchholz,
+      sonnebornBerger,
+    };
+  });
+
+  return standings
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.buchholz - a.buchholz ||
+        b.sonnebornBerger - a.sonnebornBerger ||
+        b.wins - a.wins ||
+        participantIds.indexOf(a.participantId) - participantIds.indexOf(b.participantId)
+    )
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
+};
@@ -3,13 +3,15 @@ import { useForm } from '@shared/hooks';
 import { venueService } from '../services';
 
 export function useCreateBookingScreen(route: any, navigation: any) {
-  const { venueId } = route.params;
+  // `matchId` is set when booking the venue for a match, so its cost can be split
+  const { venueId, matchId } = route.params;
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const { values, errors, handleChange, validate } = useForm({
     initialValues: {
       venueId,
+      matchId,
       date: new Date(),
       startTime: '',
       endTime: '',
@@ -59,6 +61,7 @@ export function useCreateBookingScreen(route: any, navigation: any) {
     values,
     errors,
     error,
+    isForMatch: Boolean(matchId),
     isSubmitting,
     onChange: handleChange,
     onSubmit: handleSubmit,
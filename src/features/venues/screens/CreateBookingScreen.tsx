@@ -2,12 +2,12 @@ import React from 'react';
 import { FormScreenTemplate } from '@shared/components/templates';
 import { useCreateBookingScreen } from '../hooks';
 
-const CreateBookingScreen: React.FC<any> = ({ navigation }) => {
-  const props = useCreateBookingScreen(navigation);
+const CreateBookingScreen: React.FC<any> = ({ navigation, route }) => {
+  const props = useCreateBookingScreen(route, navigation);
   
   return (
     <FormScreenTemplate
-      title="Create Booking"
+      title={props.isForMatch ? 'Book Venue for Match' : 'Create Booking'}
       fields={props.formFields}
       onSubmit={props.handleSubmit}
       onCancel={() => navigation.goBack()}
@@ -1,5 +1,4 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import { API_CONFIG } from '@core/config';
+import { createApi } from '@reduxjs/toolkit/query/react';
 import { 
   Venue, 
   Booking, 
@@ -8,21 +7,17 @@ import {
   CheckAvailabilityResponse 
 } from '@features/venues/types';
 import { ApiResponse } from '../../types/api';
-import { apiService } from '@shared/services/api';
+import { baseQuery, isQueuedOffline } from '@shared/services/baseQuery';
+import { extractPersistedQueries, QUERY_CACHE_REVALIDATE_AFTER_SECONDS } from '@shared/services/queryCache';
 import { unwrapApiResponse, unwrapNestedData } from '@shared/utils/apiHelpers';
+import { bookingSchema, listOf, venueSchema } from '@shared/services/responseSchemas';
 
 export const venueApi = createApi({
   reducerPath: 'venueApi',
-  baseQuery: fetchBaseQuery({
-    baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
-    prepareHeaders: async (headers) => {
-      const token = await apiService.getAccessToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery,
+  // Responses saved on the device show straight away and are refetched in the background
+  extractRehydrationInfo: extractPersistedQueries,
+  refetchOnMountOrArgChange: QUERY_CACHE_REVALIDATE_AFTER_SECONDS,
   tagTypes: ['Venue', 'Venues', 'Booking', 'Bookings', 'MyBookings'],
   endpoints: (builder) => ({
     getVenues: builder.query<Venue[], { page?: number; limit?: number; sport?: string; city?: string; search?: string }>({
@@ -35,12 +30,12 @@ export const venueApi = createApi({
         if (params.search) queryParams.append('search', params.search);
         return `/venues?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Venue[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Venue[]>) => unwrapApiResponse(response, listOf(venueSchema)),
       providesTags: ['Venues'],
     }),
     getVenue: builder.query<Venue, string>({
       query: (id) => `/venues/${id}`,
-      transformResponse: (response: ApiResponse<{ venue: Venue }>) => unwrapNestedData(response, 'venue'),
+      transformResponse: (response: ApiResponse<{ venue: Venue }>) => unwrapNestedData(response, 'venue', venueSchema),
       providesTags: (result, error, id) => [{ type: 'Venue', id }],
     }),
     checkAvailability: builder.query<CheckAvailabilityResponse, CheckAvailabilityRequest>({
@@ -57,7 +52,17 @@ export const venueApi = createApi({
         method: 'POST',
         body: bookingData,
       }),
-      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking'),
+      extraOptions: { outbox: { label: 'Book venue', invalidates: ['Bookings', 'MyBookings'] } },
+      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking', bookingSchema),
+      invalidatesTags: (result, error) => (isQueuedOffline(error) ? [] : ['Bookings', 'MyBookings']),
+    }),
+    createBookings: builder.mutation<Booking[], CreateBookingRequest[]>({
+      query: (bookings) => ({
+        url: '/bookings/batch',
+        method: 'POST',
+        body: { bookings },
+      }),
+      transformResponse: (response: ApiResponse<{ bookings: Booking[] }>) => unwrapNestedData(response, 'bookings', listOf(bookingSchema)),
       invalidatesTags: ['Bookings', 'MyBookings'],
     }),
     getMyBookings: builder.query<Booking[], { page?: number; limit?: number; status?: string }>({
@@ -68,12 +73,12 @@ export const venueApi = createApi({
         if (params.status) queryParams.append('status', params.status);
         return `/bookings/my-bookings?${queryParams.toString()}`;
       },
-      transformResponse: (response: ApiResponse<Booking[]>) => unwrapApiResponse(response),
+      transformResponse: (response: ApiResponse<Booking[]>) => unwrapApiResponse(response, listOf(bookingSchema)),
       providesTags: ['MyBookings'],
     }),
     getBooking: builder.query<Booking, string>({
       query: (id) => `/bookings/${id}`,
-      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking'),
+      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking', bookingSchema),
       providesTags: (result, error, id) => [{ type: 'Booking', id }],
     }),
     updateBooking: builder.mutation<Booking, { id: string; data: Partial<CreateBookingRequest> }>({
@@ -82,7 +87,7 @@ export const venueApi = createApi({
         method: 'PATCH',
         body: data,
       }),
-      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking'),
+      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking', bookingSchema),
       invalidatesTags: (result, error, { id }) => [{ type: 'Booking', id }, 'Bookings', 'MyBookings'],
     }),
     cancelBooking: builder.mutation<Booking, string>({
@@ -90,7 +95,7 @@ export const venueApi = createApi({
         url: `/bookings/${id}/cancel`,
         method: 'POST',
       }),
-      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking'),
+      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking', bookingSchema),
       invalidatesTags: (result, error, id) => [{ type: 'Booking', id }, 'Bookings', 'MyBookings'],
     }),
     confirmBooking: builder.mutation<Booking, string>({
@@ -98,7 +103,7 @@ export const venueApi = createApi({
         url: `/bookings/${id}/confirm`,
         method: 'POST',
       }),
-      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking'),
+      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking', bookingSchema),
       invalidatesTags: (result, error, id) => [{ type: 'Booking', id }, 'Bookings', 'MyBookings'],
     }),
     checkInBooking: builder.mutation<Booking, string>({
@@ -106,7 +111,7 @@ export const venueApi = createApi({
         url: `/bookings/${id}/check-in`,
         method: 'POST',
       }),
-      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking'),
+      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking', bookingSchema),
       invalidatesTags: (result, error, id) => [{ type: 'Booking', id }, 'Bookings', 'MyBookings'],
     }),
     checkOutBooking: builder.mutation<Booking, string>({
@@ -114,7 +119,7 @@ export const venueApi = createApi({
         url: `/bookings/${id}/check-out`,
         method: 'POST',
       }),
-      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking'),
+      transformResponse: (response: ApiResponse<{ booking: Booking }>) => unwrapNestedData(response, 'booking', bookingSchema),
       invalidatesTags: (result, error, id) => [{ type: 'Booking', id }, 'Bookings', 'MyBookings'],
     }),
   }),
@@ -126,6 +131,7 @@ export const {
   useCheckAvailabilityQuery,
   useLazyCheckAvailabilityQuery,
   useCreateBookingMutation,
+  useCreateBookingsMutation,
   useGetMyBookingsQuery,
   useGetBookingQuery,
   useUpdateBookingMutation,
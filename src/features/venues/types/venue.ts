@@ -79,8 +79,13 @@ export interface Booking {
   endTime: string;
   duration: number;
   participants?: number;
+  /** Court booked at a multi-court venue; without one the whole venue is booked */
+  court?: number;
+  /** Match the booking was made for */
+  matchId?: string;
   pricing: {
     baseRate: number;
+    /** Major currency unit, e.g. 24.5 */
     totalCost: number;
     currency: string;
     discount?: number;
@@ -102,7 +107,13 @@ export interface CreateBookingRequest {
   startTime: string;
   endTime: string;
   participants?: number;
+  /** Court to book at a multi-court venue; bookings on different courts may overlap */
+  court?: number;
   notes?: string;
+  /** Set for bookings made by a tournament's scheduling assistant */
+  tournamentId?: string;
+  /** Set when booking the venue for a match, so its cost can be split */
+  matchId?: string;
 }
 
 export interface CheckAvailabilityRequest {
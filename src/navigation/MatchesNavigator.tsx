@@ -3,6 +3,11 @@ import { createStackNavigator } from '@react-navigation/stack';
 import MatchesScreen from '@features/matches/screens/MatchesScreen';
 import MatchDetailScreen from '@features/matches/screens/MatchDetailScreen';
 import CreateMatchScreen from '@features/matches/screens/CreateMatchScreen';
+import LiveScoreScreen from '@features/matches/screens/LiveScoreScreen';
+import MatchSeriesScreen from '@features/matches/screens/MatchSeriesScreen';
+import CheckInScannerScreen from '@features/matches/screens/CheckInScannerScreen';
+import MatchInviteScreen from '@features/matches/screens/MatchInviteScreen';
+import MatchReviewScreen from '@features/matches/screens/MatchReviewScreen';
 
 const Stack = createStackNavigator();
 
@@ -24,6 +29,31 @@ const MatchesNavigator = () => {
         component={CreateMatchScreen}
         options={{ title: 'Create Match' }}
       />
+      <Stack.Screen 
+        name="LiveScore" 
+        component={LiveScoreScreen}
+        options={{ title: 'Live Score' }}
+      />
+      <Stack.Screen 
+        name="MatchSeries" 
+        component={MatchSeriesScreen}
+        options={{ title: 'Match Series' }}
+      />
+      <Stack.Screen 
+        name="CheckInScanner" 
+        component={CheckInScannerScreen}
+        options={{ title: 'Check In' }}
+      />
+      <Stack.Screen 
+        name="MatchInvite" 
+        component={MatchInviteScreen}
+        options={{ title: 'Match Invite' }}
+      />
+      <Stack.Screen 
+        name="MatchReview" 
+        component={MatchReviewScreen}
+        options={{ title: 'Rate Players' }}
+      />
     </Stack.Navigator>
   );
 };
@@ -1,5 +1,5 @@
-import React, { useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
 import { setUser, setLoading } from '../store/slices/authSlice';
@@ -9,13 +9,33 @@ import AuthNavigator from './AuthNavigator';
 import MainNavigator from './MainNavigator';
 import { LoadingSpinner } from '@shared/components/atoms';
 import { logger } from '@core';
+import { selectPendingInviteCode, setPendingInviteCode } from '@features/matches/store';
+import { createLinking } from './linking';
+import { ROUTES } from './routes';
+import { RootStackParamList } from './types';
 
-const Stack = createStackNavigator();
+const Stack = createStackNavigator<RootStackParamList>();
+
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 
 const RootNavigator = () => {
   const { isAuthenticated, isLoading } = useAppSelector((state) => state.auth);
+  const pendingInviteCode = useAppSelector(selectPendingInviteCode);
   const dispatch = useAppDispatch();
 
+  // Read by the linking handlers, which are created once
+  const isAuthenticatedRef = useRef(isAuthenticated);
+  isAuthenticatedRef.current = isAuthenticated;
+
+  const linking = useMemo(
+    () =>
+      createLinking({
+        isAuthenticated: () => isAuthenticatedRef.current,
+        onDeferredInvite: (inviteCode) => dispatch(setPendingInviteCode(inviteCode)),
+      }),
+    [dispatch]
+  );
+
   useEffect(() => {
     const checkAuth = async () => {
       try {
@@ -24,8 +44,8 @@ const RootNavigator = () => {
           const axiosInstance = apiService.getAxiosInstance();
           const response = await axiosInstance.get('/auth/profile');
 
-          if (response.data.success && response.data.data) {
-            dispatch(setUser(response.data.data));
+          if (response.data.success && response.data.data?.user) {
+            dispatch(setUser(response.data.data.user));
             await socketService.connect();
           }
         }
@@ -40,17 +60,30 @@ const RootNavigator = () => {
     checkAuth();
   }, [dispatch]);
 
+  // Open an invite that arrived before sign-in once the user is signed in
+  useEffect(() => {
+    if (!isAuthenticated || !pendingInviteCode || !navigationRef.isReady()) {
+      return;
+    }
+
+    navigationRef.navigate(ROUTES.ROOT.MAIN, {
+      screen: ROUTES.TABS.MATCHES,
+      params: { screen: ROUTES.MATCHES.INVITE, params: { inviteCode: pendingInviteCode } },
+    });
+    dispatch(setPendingInviteCode(null));
+  }, [isAuthenticated, pendingInviteCode, dispatch]);
+
   if (isLoading) {
     return <LoadingSpinner />;
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} linking={linking}>
       <Stack.Navigator screenOptions={{ headerShown: false }}>
         {isAuthenticated ? (
-          <Stack.Screen name="Main" component={MainNavigator} />
+          <Stack.Screen name={ROUTES.ROOT.MAIN} component={MainNavigator} />
         ) : (
-          <Stack.Screen name="Auth" component={AuthNavigator} />
+          <Stack.Screen name={ROUTES.ROOT.AUTH} component={AuthNavigator} />
         )}
       </Stack.Navigator>
     </NavigationContainer>
@@ -3,6 +3,7 @@ import { createStackNavigator } from '@react-navigation/stack';
 import TournamentsScreen from '@features/tournaments/screens/TournamentsScreen';
 import TournamentDetailScreen from '@features/tournaments/screens/TournamentDetailScreen';
 import CreateTournamentScreen from '@features/tournaments/screens/CreateTournamentScreen';
+import TournamentScheduleScreen from '@features/tournaments/screens/TournamentScheduleScreen';
 
 const Stack = createStackNavigator();
 
@@ -24,6 +25,11 @@ const TournamentsNavigator = () => {
         component={CreateTournamentScreen}
         options={{ title: 'Create Tournament' }}
       />
+      <Stack.Screen 
+        name="TournamentSchedule" 
+        component={TournamentScheduleScreen}
+        options={{ title: 'Schedule Matches' }}
+      />
     </Stack.Navigator>
   );
 };
@@ -0,0 +1,58 @@
+import { Linking } from 'react-native';
+import { LinkingOptions } from '@react-navigation/native';
+import { parseInviteLink } from '@features/matches/utils/inviteUtils';
+import { LINK_PATHS, LINK_PREFIXES, ROUTES } from './routes';
+import { RootStackParamList } from './types';
+
+interface LinkingHandlers {
+  isAuthenticated: () => boolean;
+  onDeferredInvite: (inviteCode: string) => void;
+}
+
+/**
+ * Invites opened while signed out cannot be routed: the Main navigator is not
+ * mounted. They are handed to `onDeferredInvite` instead, and opened after
+ * sign-in. Any other URL is passed through.
+ */
+const deferInvite = (url: string | null, handlers: LinkingHandlers): string | null => {
+  if (!url || handlers.isAuthenticated()) {
+    return url;
+  }
+
+  const inviteCode = parseInviteLink(url);
+  if (!inviteCode) {
+    return url;
+  }
+
+  handlers.onDeferredInvite(inviteCode);
+  return null;
+};
+
+export const createLinking = (handlers: LinkingHandlers): LinkingOptions<RootStackParamList> => ({
+  prefixes: LINK_PREFIXES,
+  config: {
+    screens: {
+      [ROUTES.ROOT.MAIN]: {
+        screens: {
+          [ROUTES.TABS.MATCHES]: {
+            screens: {
+              [ROUTES.MATCHES.INVITE]: LINK_PATHS.MATCH_INVITE,
+            },
+          },
+        },
+      },
+    },
+  },
+  async getInitialURL() {
+    return deferInvite(await Linking.getInitialURL(), handlers);
+  },
+  subscribe(listener) {
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      const next = deferInvite(url, handlers);
+      if (next) {
+        listener(next);
+      }
+    });
+    return () => subscription.remove();
+  },
+});
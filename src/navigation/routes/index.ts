@@ -1,3 +1,41 @@
 // Route constants for type-safe navigation
-// This file will be populated with route definitions
-export {};
+import { LINKING_CONFIG } from '@core/config/linking';
+import { MATCH_INVITE_PATH } from '@features/matches/utils/inviteUtils';
+
+export const ROUTES = {
+  ROOT: {
+    MAIN: 'Main',
+    AUTH: 'Auth',
+  },
+  TABS: {
+    MATCHES: 'Matches',
+    TOURNAMENTS: 'Tournaments',
+    TEAMS: 'Teams',
+    VENUES: 'Venues',
+    CHATS: 'Chats',
+    PROFILE: 'Profile',
+  },
+  MATCHES: {
+    LIST: 'MatchesList',
+    DETAIL: 'MatchDetail',
+    CREATE: 'CreateMatch',
+    LIVE_SCORE: 'LiveScore',
+    SERIES: 'MatchSeries',
+    CHECK_IN_SCANNER: 'CheckInScanner',
+    INVITE: 'MatchInvite',
+    REVIEW: 'MatchReview',
+  },
+  VENUES: {
+    LIST: 'VenuesList',
+    DETAIL: 'VenueDetail',
+    CREATE_BOOKING: 'CreateBooking',
+  },
+} as const;
+
+// URL prefixes the app opens links for: its own scheme and the website
+export const LINK_PREFIXES = [`${LINKING_CONFIG.SCHEME}://`, LINKING_CONFIG.WEB_URL];
+
+// Paths of the screens that can be opened from a link
+export const LINK_PATHS = {
+  MATCH_INVITE: `${MATCH_INVITE_PATH}/:inviteCode`,
+} as const;
@@ -1,3 +1,34 @@
 // Navigation type definitions
-// This file will be populated with navigation types
-export {};
+import { NavigatorScreenParams } from '@react-navigation/native';
+
+export type MatchesStackParamList = {
+  MatchesList: undefined;
+  MatchDetail: { matchId: string };
+  CreateMatch: undefined;
+  LiveScore: { matchId: string };
+  MatchSeries: { seriesId: string };
+  CheckInScanner: undefined;
+  MatchInvite: { inviteCode: string };
+  MatchReview: { matchId: string };
+};
+
+export type VenuesStackParamList = {
+  VenuesList: undefined;
+  VenueDetail: { venueId: string };
+  // `matchId` links the booking to a match so its cost can be split
+  CreateBooking: { venueId: string; matchId?: string };
+};
+
+export type MainTabParamList = {
+  Matches: NavigatorScreenParams<MatchesStackParamList> | undefined;
+  Tournaments: undefined;
+  Teams: undefined;
+  Venues: NavigatorScreenParams<VenuesStackParamList> | undefined;
+  Chats: undefined;
+  Profile: undefined;
+};
+
+export type RootStackParamList = {
+  Main: NavigatorScreenParams<MainTabParamList> | undefined;
+  Auth: undefined;
+};
@@ -0,0 +1,48 @@
+/**
+ * LastUpdatedHint Component
+ * Says how old the data on screen is when it was restored from the device cache
+ * or couldn't be refreshed, and whether a refresh is under way
+ */
+
+import React from 'react';
+import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+import { useTheme } from '../../theme';
+import { formatRelativeTime } from '@shared/utils/dateUtils';
+
+// Fresher data needs no hint
+const STALE_AFTER_MS = 60 * 1000;
+
+interface LastUpdatedHintProps {
+  /** When the data was fetched, such as a query's `fulfilledTimeStamp` */
+  updatedAt?: number;
+  isRefreshing?: boolean;
+}
+
+const LastUpdatedHint: React.FC<LastUpdatedHintProps> = ({ updatedAt, isRefreshing = false }) => {
+  const { theme } = useTheme();
+
+  if (!updatedAt || Date.now() - updatedAt < STALE_AFTER_MS) return null;
+
+  return (
+    <View style={[styles.container, { marginVertical: theme.spacing.xs }]}>
+      {isRefreshing && (
+        <ActivityIndicator size="small" color={theme.colors.textSecondary} style={styles.spinner} />
+      )}
+      <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+        {isRefreshing ? 'Refreshing... ' : ''}Last updated {formatRelativeTime(new Date(updatedAt))}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  spinner: {
+    marginRight: 6,
+  },
+});
+
+export default LastUpdatedHint;
@@ -3,6 +3,7 @@ export { default as DatePicker } from './DatePicker';
 export { default as DetailRow } from './DetailRow';
 export { default as EmptyState } from './EmptyState';
 export { default as IconButton } from './IconButton';
+export { default as LastUpdatedHint } from './LastUpdatedHint';
 export { default as SearchBar } from './SearchBar';
 export { default as SectionHeader } from './SectionHeader';
 export { default as SkeletonLoader } from './SkeletonLoader';
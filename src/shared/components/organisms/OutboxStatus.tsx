@@ -0,0 +1,159 @@
+/**
+ * Outbox Status Component
+ * Shows requests waiting in the offline outbox, with retry and discard for failed ones
+ */
+
+import React, { useState } from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../../theme';
+import { Button } from '../atoms';
+import BottomSheet from './BottomSheet';
+import { OutboxEntry } from '@store/slices/outboxSlice';
+
+interface OutboxStatusProps {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  pendingCount: number;
+  failedCount: number;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const getEntryStatusText = (entry: OutboxEntry, isOnline: boolean): string => {
+  if (entry.status === 'sending') return 'Sending...';
+  if (entry.status === 'pending') return isOnline ? 'Waiting to send' : 'Waiting for a connection';
+  if (entry.isConflict) return `${entry.error ?? 'This changed while you were offline'}. Discard to see the latest.`;
+  return entry.error ?? "Couldn't be sent";
+};
+
+const OutboxStatus: React.FC<OutboxStatusProps> = ({
+  entries,
+  isOnline,
+  pendingCount,
+  failedCount,
+  onRetry,
+  onDiscard,
+}) => {
+  const { theme } = useTheme();
+  const [isSheetVisible, setIsSheetVisible] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  const summary =
+    failedCount > 0
+      ? `${failedCount} ${failedCount === 1 ? 'change' : 'changes'} couldn't be sent`
+      : `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} waiting to send`;
+
+  return (
+    <>
+      <Pressable
+        onPress={() => setIsSheetVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel={`${summary}. Review`}
+        style={[
+          styles.bar,
+          {
+            backgroundColor: failedCount > 0 ? theme.colors.error : theme.colors.surface,
+            borderRadius: theme.borderRadius.lg,
+            padding: theme.spacing.md,
+          },
+        ]}
+      >
+        <Icon
+          name={failedCount > 0 ? 'alert-circle-outline' : 'cloud-upload-outline'}
+          size={20}
+          color={failedCount > 0 ? theme.colors.onError : theme.colors.primary}
+          style={{ marginRight: theme.spacing.sm }}
+        />
+        <Text
+          style={[
+            theme.typography.labelMedium,
+            styles.summary,
+            { color: failedCount > 0 ? theme.colors.onError : theme.colors.text },
+          ]}
+        >
+          {summary}
+        </Text>
+        <Text
+          style={[
+            theme.typography.labelMedium,
+            { color: failedCount > 0 ? theme.colors.onError : theme.colors.primary },
+          ]}
+        >
+          Review
+        </Text>
+      </Pressable>
+
+      <BottomSheet visible={isSheetVisible} onClose={() => setIsSheetVisible(false)}>
+        <Text style={[theme.typography.titleMedium, { color: theme.colors.text, marginBottom: theme.spacing.md }]}>
+          Waiting to send
+        </Text>
+        <ScrollView>
+          {entries.map(entry => (
+            <View
+              key={entry.id}
+              style={[styles.entry, { borderBottomColor: theme.colors.divider, paddingVertical: theme.spacing.md }]}
+            >
+              <Text style={[theme.typography.bodyMedium, { color: theme.colors.text }]}>{entry.label}</Text>
+              <Text
+                style={[
+                  theme.typography.bodySmall,
+                  {
+                    color: entry.status === 'failed' ? theme.colors.error : theme.colors.textSecondary,
+                    marginTop: theme.spacing.xs,
+                  },
+                ]}
+              >
+                {getEntryStatusText(entry, isOnline)}
+              </Text>
+              {entry.status === 'failed' && (
+                <View style={[styles.actions, { marginTop: theme.spacing.sm }]}>
+                  {!entry.isConflict && (
+                    <Button
+                      title="Retry"
+                      size="small"
+                      variant="outline"
+                      onPress={() => onRetry(entry.id)}
+                      style={{ marginRight: theme.spacing.sm }}
+                    />
+                  )}
+                  <Button title="Discard" size="small" variant="text" onPress={() => onDiscard(entry.id)} />
+                </View>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      </BottomSheet>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    // Just above the tab bar
+    bottom: Platform.OS === 'ios' ? 100 : 76,
+    flexDirection: 'row',
+    alignItems: 'center',
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+  },
+  summary: {
+    flex: 1,
+  },
+  entry: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+});
+
+export default OutboxStatus;
@@ -11,6 +11,7 @@ export { default as MapComponent } from './MapComponent';
 export { default as NotificationCard } from './NotificationCard';
 export { default as OfflineIndicator } from './OfflineIndicator';
 export { default as OptimizedImage } from './OptimizedImage';
+export { default as OutboxStatus } from './OutboxStatus';
 export { default as ParticipantList } from './ParticipantList';
 export { default as SortFilter } from './SortFilter';
 export { default as SportSelector } from './SportSelector';
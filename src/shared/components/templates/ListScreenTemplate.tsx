@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
-import { View, FlatList, RefreshControl, StyleSheet } from 'react-native';
+import { View, FlatList, RefreshControl, ActivityIndicator, StyleSheet } from 'react-native';
 import { SearchBar } from '../molecules/SearchBar';
 import { EmptyState } from '../molecules/EmptyState';
 import { SkeletonLoader } from '../molecules/SkeletonLoader';
 import { SectionHeader } from '../molecules/SectionHeader';
+import LastUpdatedHint from '../molecules/LastUpdatedHint';
 import { FilterChips } from '../organisms/FilterChips';
 import { SortFilter } from '../organisms/SortFilter';
 import { FAB } from '../organisms/FAB';
@@ -18,6 +19,9 @@ import { FAB } from '../organisms/FAB';
  * - Pull-to-refresh
  * - Filter chips
  * - Sort options
+ * - Custom header content
+ * - Infinite scroll
+ * - Last updated hint for cached data
  * - Floating action button
  * 
  * @example
@@ -71,6 +75,16 @@ export interface ListScreenTemplateProps<T> {
   sortOptions?: SortOption[];
   /** Item key extractor */
   keyExtractor?: (item: T, index: number) => string;
+  /** Content below the title, such as richer search and filter controls; stays visible when the list is empty */
+  header?: React.ReactNode;
+  /** Called near the end of the list to load the next page */
+  onEndReached?: () => void;
+  /** Shows a spinner below the list while the next page loads */
+  isLoadingMore?: boolean;
+  /** When the items were fetched; older data, such as a restored cache, gets a last updated hint */
+  updatedAt?: number;
+  /** The items are being refetched in the background */
+  isRefreshing?: boolean;
 }
 
 export function ListScreenTemplate<T>({
@@ -89,6 +103,11 @@ export function ListScreenTemplate<T>({
   filters,
   sortOptions,
   keyExtractor = (_, index) => index.toString(),
+  header,
+  onEndReached,
+  isLoadingMore = false,
+  updatedAt,
+  isRefreshing = false,
 }: ListScreenTemplateProps<T>) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilters, setSelectedFilters] = useState<string[]>([]);
@@ -119,6 +138,10 @@ export function ListScreenTemplate<T>({
   const renderHeader = () => (
     <View style={styles.header}>
       <SectionHeader title={title} />
+
+      <LastUpdatedHint updatedAt={updatedAt} isRefreshing={isRefreshing} />
+
+      {header}
       
       {onSearch && (
         <SearchBar
@@ -148,27 +171,36 @@ export function ListScreenTemplate<T>({
   const renderContent = () => {
     if (isLoading && items.length === 0) {
       return (
-        <View style={styles.loadingContainer}>
-          <SkeletonLoader count={5} />
-        </View>
+        <>
+          {header && renderHeader()}
+          <View style={styles.loadingContainer}>
+            <SkeletonLoader count={5} />
+          </View>
+        </>
       );
     }
 
     if (error) {
       return (
-        <EmptyState
-          message={error}
-          icon="alert-circle"
-        />
+        <>
+          {header && renderHeader()}
+          <EmptyState
+            message={error}
+            icon="alert-circle"
+          />
+        </>
       );
     }
 
     if (items.length === 0) {
       return (
-        <EmptyState
-          message={emptyMessage}
-          icon="inbox"
-        />
+        <>
+          {header && renderHeader()}
+          <EmptyState
+            message={emptyMessage}
+            icon="inbox"
+          />
+        </>
       );
     }
 
@@ -187,6 +219,11 @@ export function ListScreenTemplate<T>({
           ) : undefined
         }
         ListHeaderComponent={renderHeader}
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator style={styles.footer} /> : null
+        }
       />
     );
   };
@@ -220,6 +257,9 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 80, // Space for FAB
   },
+  footer: {
+    paddingVertical: 16,
+  },
   fab: {
     position: 'absolute',
     right: 16,
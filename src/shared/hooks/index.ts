@@ -12,6 +12,8 @@ export * from './useCelebration';
 export * from './useConfirmation';
 export * from './useEntityActions';
 export * from './useForm';
+export * from './useSocketEvent';
+export * from './useOutbox';
 
 // Phase 8 performance hooks
 export * from './usePerformance';
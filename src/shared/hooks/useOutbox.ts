@@ -0,0 +1,46 @@
+import { useCallback, useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '@store/hooks';
+import {
+  discardEntry,
+  networkStatusChanged,
+  restoreOutbox,
+  retryEntry,
+  selectOutboxEntries,
+} from '@store/slices/outboxSlice';
+import { useNetworkStatus } from '@shared/utils/offline';
+
+/**
+ * Offline outbox hook
+ *
+ * Mount once for the signed-in app. Restores requests saved by an earlier
+ * session, tells the outbox when the device comes back online so it replays
+ * them, and exposes the waiting and failed requests for the user to retry
+ * or discard.
+ */
+export function useOutbox() {
+  const dispatch = useAppDispatch();
+  const { isFullyOnline } = useNetworkStatus();
+  const entries = useAppSelector(selectOutboxEntries);
+
+  useEffect(() => {
+    dispatch(restoreOutbox());
+  }, [dispatch]);
+
+  useEffect(() => {
+    dispatch(networkStatusChanged(isFullyOnline));
+  }, [dispatch, isFullyOnline]);
+
+  const handleRetry = useCallback((id: string) => dispatch(retryEntry(id)), [dispatch]);
+  const handleDiscard = useCallback((id: string) => dispatch(discardEntry(id)), [dispatch]);
+
+  return {
+    entries,
+    isOnline: isFullyOnline,
+    pendingCount: entries.filter(({ status }) => status !== 'failed').length,
+    failedCount: entries.filter(({ status }) => status === 'failed').length,
+    onRetry: handleRetry,
+    onDiscard: handleDiscard,
+  };
+}
+
+export type OutboxViewState = ReturnType<typeof useOutbox>;
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { socketService } from '../services/socketService';
+import { SocketEventHandlers, SocketEventName, SocketRoom } from '../services/socketEvents';
+
+/**
+ * Hook for listening to a realtime event
+ *
+ * Payloads are validated against the event registry before the handler runs.
+ * The handler can change between renders without resubscribing; the listener
+ * is removed when the component unmounts.
+ *
+ * @param event Event name from the registry
+ * @param handler Called with each valid payload
+ *
+ * @example
+ * ```typescript
+ * useSocketEvent('match_updated', (match) => {
+ *   if (match._id === matchId) setMatch(match);
+ * });
+ * ```
+ */
+export function useSocketEvent<K extends SocketEventName>(
+  event: K,
+  handler: SocketEventHandlers[K]
+): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    const listener = ((payload: Parameters<SocketEventHandlers[K]>[0]) =>
+      (handlerRef.current as (data: typeof payload) => void)(payload)) as SocketEventHandlers[K];
+
+    socketService.on(event, listener);
+    return () => {
+      socketService.off(event, listener);
+    };
+  }, [event]);
+}
+
+/**
+ * Hook for staying in a realtime room while the component is mounted
+ *
+ * Rooms are reference-counted, so several screens can watch the same match
+ * without unsubscribing each other.
+ *
+ * @param room Kind of room
+ * @param id Chat, match or tournament id; nothing is joined while undefined
+ */
+export function useSocketRoom(room: SocketRoom, id: string | undefined): void {
+  useEffect(() => {
+    if (!id) return;
+
+    socketService.joinRoom(room, id);
+    return () => {
+      socketService.leaveRoom(room, id);
+    };
+  }, [room, id]);
+}
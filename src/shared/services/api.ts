@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import * as Keychain from 'react-native-keychain';
 import { API_CONFIG, getApiUrl } from '@core/config';
+import { getEnabledMockServer } from './devMockServer';
 
 const KEYCHAIN_SERVICE = 'com.sportification.app';
 
@@ -27,6 +28,10 @@ class ApiService {
         if (token && config.headers) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+        const mockServer = await getEnabledMockServer();
+        if (mockServer) {
+          config.adapter = mockServer.axiosAdapter;
+        }
         return config;
       },
       (error) => Promise.reject(error)
@@ -57,6 +62,24 @@ class ApiService {
     );
   }
 
+  /**
+   * A new access token after `staleToken` was rejected. Requests rejected
+   * while a refresh is in flight wait for it, and those rejected just after
+   * get the token it produced, so the session is refreshed once.
+   */
+  async refreshSession(staleToken: string): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    const currentToken = await this.getAccessToken();
+    if (currentToken && currentToken !== staleToken) {
+      return currentToken;
+    }
+
+    return this.refreshToken();
+  }
+
   private async refreshToken(): Promise<string> {
     if (this.refreshPromise) {
       return this.refreshPromise;
@@ -71,9 +94,11 @@ class ApiService {
 
         const { password: refreshToken } = credentials;
 
+        const mockServer = await getEnabledMockServer();
         const response = await axios.post(
           getApiUrl('/auth/refresh'),
-          { refreshToken }
+          { refreshToken },
+          mockServer ? { adapter: mockServer.axiosAdapter } : undefined
         );
 
         const { accessToken } = response.data.data;
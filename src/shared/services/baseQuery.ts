@@ -0,0 +1,201 @@
+import { fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type { BaseQueryFn, FetchArgs, FetchBaseQueryError, FetchBaseQueryMeta } from '@reduxjs/toolkit/query';
+import { API_CONFIG } from '@core/config';
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+  BusinessError,
+  NetworkError,
+  NotFoundError,
+  OfflineQueuedError,
+  ValidationError,
+} from '@core/errors/AppError';
+import type { ApiError } from '@core/types/api';
+import { logger } from '@core/types/ILogger';
+import { clearUser } from '@features/auth/store/authSlice';
+import { getHttpErrorMessage } from '@shared/helpers/errorHelpers';
+import { entryQueued, selectOutbox } from '@store/slices/outboxSlice';
+import { apiService } from './api';
+import { getEnabledMockServer } from './devMockServer';
+
+/**
+ * Shared RTK Query base query
+ *
+ * Used by every `createApi` slice. Adds the access token and a correlation
+ * ID to each request, refreshes the session once when a request is rejected
+ * with 401 and replays it, and signs the user out when the refresh fails.
+ * Errors reach endpoints and `unwrap()` callers as `AppError` subclasses.
+ *
+ * Mutations marked with the `outbox` extra option are queued in the offline
+ * outbox instead of failing while the device is offline.
+ */
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Per-endpoint options, set with `extraOptions` on the endpoint definition
+ */
+export interface BaseQueryExtraOptions {
+  outbox?: {
+    /** Shown to the user while the request waits to be sent */
+    label: string;
+    /** Tag types refetched once the outbox has sent it */
+    invalidates: string[];
+  };
+}
+
+// A 401 from these means wrong credentials, not an expired session
+const SESSION_PATHS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+const rawBaseQuery = fetchBaseQuery({
+  baseUrl: `${API_CONFIG.BASE_URL}${API_CONFIG.API_VERSION}`,
+  timeout: API_CONFIG.TIMEOUT,
+  fetchFn: async (input, init) => {
+    const mockServer = await getEnabledMockServer();
+    return mockServer ? mockServer.fetch(input, init) : fetch(input, init);
+  },
+});
+
+export const createCorrelationId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const getFieldErrors = (body?: Partial<ApiError>): Record<string, string[]> | undefined => {
+  if (!body?.errors?.length) {
+    return undefined;
+  }
+
+  return body.errors.reduce<Record<string, string[]>>((fields, { field, message }) => {
+    fields[field] = [...(fields[field] ?? []), message];
+    return fields;
+  }, {});
+};
+
+/**
+ * The `AppError` subclass for a failed request
+ */
+export const toAppError = (error: FetchBaseQueryError, correlationId?: string): AppError => {
+  switch (error.status) {
+    case 'FETCH_ERROR':
+      return new NetworkError(undefined, { correlationId });
+    case 'TIMEOUT_ERROR':
+      return new NetworkError('Request timed out', { correlationId });
+    case 'PARSING_ERROR':
+      return new AppError('Unexpected response from the server', 'PARSING_ERROR', error.originalStatus, {
+        correlationId,
+      });
+    case 'CUSTOM_ERROR':
+      return new AppError(error.error, 'CUSTOM_ERROR', undefined, { correlationId });
+  }
+
+  const status = error.status;
+  const body = (error.data ?? undefined) as Partial<ApiError> | undefined;
+  const message = body?.message || getHttpErrorMessage(status);
+  const details = { correlationId, requestId: body?.requestId, code: body?.code };
+  const fieldErrors = getFieldErrors(body);
+
+  if (fieldErrors || status === 400) {
+    return new ValidationError(message, fieldErrors);
+  }
+
+  switch (status) {
+    case 401:
+      return new AuthenticationError(message, details);
+    case 403:
+      return new AuthorizationError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 409:
+    case 422:
+      return new BusinessError(message, details);
+    default:
+      return new AppError(message, body?.code ?? `HTTP_${status}`, status, details);
+  }
+};
+
+/**
+ * Whether a mutation failed only because it went to the offline outbox, in
+ * which case its optimistic update stays. Takes the error itself or the
+ * rejection of `queryFulfilled`.
+ */
+export const isQueuedOffline = (error: unknown): boolean =>
+  error instanceof OfflineQueuedError ||
+  (error as { error?: unknown } | undefined)?.error instanceof OfflineQueuedError;
+
+export const baseQuery: BaseQueryFn<
+  string | FetchArgs,
+  unknown,
+  AppError,
+  BaseQueryExtraOptions,
+  FetchBaseQueryMeta
+> = async (args, api, extraOptions) => {
+  const request: FetchArgs = typeof args === 'string' ? { url: args } : args;
+  // Kept on the replay so the server can tie both attempts together
+  const correlationId = createCorrelationId();
+  const outbox = extraOptions?.outbox;
+  // Sent on the first attempt too, in case it reached the server before the connection dropped
+  const idempotencyKey = outbox ? createCorrelationId() : undefined;
+
+  const queue = () => {
+    api.dispatch(
+      entryQueued({
+        id: idempotencyKey!,
+        endpoint: api.endpoint,
+        label: outbox!.label,
+        request: { url: request.url, method: request.method, body: request.body },
+        invalidates: outbox!.invalidates,
+        status: 'pending',
+        createdAt: Date.now(),
+      })
+    );
+    logger.info('Request queued in the offline outbox', { endpoint: api.endpoint, correlationId });
+    return { error: new OfflineQueuedError(undefined, { correlationId }) };
+  };
+
+  if (outbox) {
+    const { isOnline, entries } = selectOutbox(api.getState());
+    // Waiting behind earlier requests keeps the outbox in order
+    if (!isOnline || entries.some(({ status }) => status !== 'failed')) {
+      return queue();
+    }
+  }
+
+  const send = (token: string | null) => {
+    // Endpoints only ever pass defined header values
+    const headers = new Headers(request.headers as ConstructorParameters<typeof Headers>[0]);
+    headers.set(CORRELATION_ID_HEADER, correlationId);
+    if (idempotencyKey) {
+      headers.set(IDEMPOTENCY_KEY_HEADER, idempotencyKey);
+    }
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return rawBaseQuery({ ...request, headers }, api, extraOptions);
+  };
+
+  const token = await apiService.getAccessToken();
+  let result = await send(token);
+
+  if (result.error?.status === 401 && token && !SESSION_PATHS.some(path => request.url.startsWith(path))) {
+    try {
+      result = await send(await apiService.refreshSession(token));
+    } catch (error) {
+      logger.warn('Session refresh failed, signing out', { correlationId, url: request.url, error });
+      await apiService.clearTokens();
+      api.dispatch(clearUser());
+    }
+  }
+
+  if (outbox && (result.error?.status === 'FETCH_ERROR' || result.error?.status === 'TIMEOUT_ERROR')) {
+    return queue();
+  }
+
+  if (result.error) {
+    const appError = toAppError(result.error, correlationId);
+    logger.debug('API request failed', { url: request.url, status: result.error.status, correlationId });
+    return { error: appError, meta: result.meta };
+  }
+
+  return { data: result.data, meta: result.meta };
+};
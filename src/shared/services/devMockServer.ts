@@ -0,0 +1,13 @@
+import type { mockServer as MockServerInstance } from './mockServer';
+
+type MockServer = typeof MockServerInstance;
+
+/**
+ * The mock backend, when it is switched on in a development build.
+ * Its module is only required behind `__DEV__`, so release bundles leave
+ * it out; import the mock server directly in dev-only code and tests.
+ */
+export const getEnabledMockServer = async (): Promise<MockServer | null> => {
+  const mockServer: MockServer | null = __DEV__ ? require('./mockServer').mockServer : null;
+  return mockServer && (await mockServer.isEnabled()) ? mockServer : null;
+};
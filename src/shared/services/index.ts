@@ -1,6 +1,9 @@
 // Export all shared services
 export * from './api';
+export * from './baseQuery';
+export * from './queryCache';
 export * from './analyticsService';
 export * from './socketService';
 export * from './localizationService';
 export * from './notificationService';
+export * from './socketEvents';
@@ -69,6 +69,29 @@ const en = {
       participants: 'Participants',
       rounds: 'Rounds',
     },
+    // Tournament rule rejections, keyed by reason code
+    tournamentErrors: {
+      REGISTRATION_CLOSED: 'Registration for this tournament is closed.',
+      REGISTRATION_DEADLINE_PASSED: 'The registration deadline has passed.',
+      TOURNAMENT_FULL: 'This tournament is full.',
+      ALREADY_REGISTERED: 'You are already registered for this tournament.',
+      ENTRY_FEE_REQUIRED: 'Pay the entry fee to join this tournament.',
+      NOT_ENOUGH_PARTICIPANTS: 'More participants are needed before the tournament can start.',
+      ALREADY_STARTED: 'This tournament has already started.',
+      INVALID_NAME: 'Tournament name must be at least 3 characters.',
+      INVALID_CAPACITY: 'Allow more participants for this format.',
+      TEAM_ENTRIES_ONLY: 'This tournament only accepts team entries.',
+      INDIVIDUAL_ENTRIES_ONLY: 'This tournament only accepts individual entries.',
+      NOT_TEAM_CAPTAIN: 'Only the team captain can enter the team.',
+      INVALID_ROSTER: 'Pick the required number of players from your team.',
+      PLAYER_ALREADY_ENTERED: 'Some players are already entered with another team.',
+      NOT_REGISTERED: 'You are not registered for this tournament.',
+      INVALID_PRIZE_DISTRIBUTION: 'Prize percentages must add up to 100 or less.',
+      NOT_SWISS_FORMAT: 'Only Swiss tournaments are paired round by round.',
+      NOT_IN_PROGRESS: 'Rounds are paired while the tournament is in progress.',
+      ROUND_IN_PROGRESS: 'Finish every match of the current round before pairing the next one.',
+      ALL_ROUNDS_PLAYED: 'All rounds of this tournament have been played.',
+    },
     // Teams
     teams: {
       title: 'Teams',
@@ -215,6 +238,29 @@ const hi = {
       participants: 'प्रतिभागी',
       rounds: 'राउंड',
     },
+    // Tournament rule rejections, keyed by reason code
+    tournamentErrors: {
+      REGISTRATION_CLOSED: 'इस टूर्नामेंट का पंजीकरण बंद है।',
+      REGISTRATION_DEADLINE_PASSED: 'पंजीकरण की अंतिम तिथि निकल चुकी है।',
+      TOURNAMENT_FULL: 'यह टूर्नामेंट भर चुका है।',
+      ALREADY_REGISTERED: 'आप इस टूर्नामेंट के लिए पहले से पंजीकृत हैं।',
+      ENTRY_FEE_REQUIRED: 'इस टूर्नामेंट में शामिल होने के लिए प्रवेश शुल्क का भुगतान करें।',
+      NOT_ENOUGH_PARTICIPANTS: 'टूर्नामेंट शुरू करने के लिए और प्रतिभागियों की आवश्यकता है।',
+      ALREADY_STARTED: 'यह टूर्नामेंट पहले ही शुरू हो चुका है।',
+      INVALID_NAME: 'टूर्नामेंट का नाम कम से कम 3 अक्षरों का होना चाहिए।',
+      INVALID_CAPACITY: 'इस प्रारूप के लिए अधिक प्रतिभागियों की अनुमति दें।',
+      TEAM_ENTRIES_ONLY: 'यह टूर्नामेंट केवल टीम प्रविष्टियाँ स्वीकार करता है।',
+      INDIVIDUAL_ENTRIES_ONLY: 'यह टूर्नामेंट केवल व्यक्तिगत प्रविष्टियाँ स्वीकार करता है।',
+      NOT_TEAM_CAPTAIN: 'केवल टीम कप्तान ही टीम को दर्ज कर सकता है।',
+      INVALID_ROSTER: 'अपनी टीम से आवश्यक संख्या में खिलाड़ी चुनें।',
+      PLAYER_ALREADY_ENTERED: 'कुछ खिलाड़ी पहले से किसी अन्य टीम के साथ दर्ज हैं।',
+      NOT_REGISTERED: 'आप इस टूर्नामेंट के लिए पंजीकृत नहीं हैं।',
+      INVALID_PRIZE_DISTRIBUTION: 'पुरस्कार प्रतिशत का योग 100 या उससे कम होना चाहिए।',
+      NOT_SWISS_FORMAT: 'केवल स्विस टूर्नामेंट में राउंड दर राउंड जोड़ियाँ बनती हैं।',
+      NOT_IN_PROGRESS: 'टूर्नामेंट चलने के दौरान ही राउंड की जोड़ियाँ बनती हैं।',
+      ROUND_IN_PROGRESS: 'अगले राउंड की जोड़ियाँ बनाने से पहले मौजूदा राउंड के सभी मैच पूरे करें।',
+      ALL_ROUNDS_PLAYED: 'इस टूर्नामेंट के सभी राउंड खेले जा चुके हैं।',
+    },
     // Teams
     teams: {
       title: 'टीमें',
@@ -0,0 +1,135 @@
+import { NotFoundError } from '@core/errors/AppError';
+import type { User } from '@features/auth/types';
+import type { Chat, Message } from '@features/chat/types';
+import type {
+  CostSplit,
+  Match,
+  MatchReview,
+  MatchSeries,
+  MatchWaitlist,
+} from '@features/matches/types';
+import type { Notification } from '@features/notifications/types';
+import type { PaymentHistory } from '@features/profile/types';
+import type { PlayerRating, RatingHistoryEntry } from '@features/ratings/types';
+import type { Team } from '@features/teams/types';
+import type { Tournament } from '@features/tournaments/types';
+import type { Booking, Venue } from '@features/venues/types';
+
+export interface MockNotification extends Notification {
+  recipientId: string;
+}
+
+export interface MockRatingHistoryEntry extends RatingHistoryEntry {
+  userId: string;
+  sport: string;
+}
+
+export interface MockFriendship {
+  userId: string;
+  friendId: string;
+  since: string;
+}
+
+export interface MockChatState {
+  chatId: string;
+  userId: string;
+  /** Messages after this one are unread */
+  lastReadAt: string;
+}
+
+/**
+ * Everything the mock backend stores. Seeds may hold entities built by test
+ * factories, so shapes are only as strict as the routes need.
+ */
+export interface MockTables {
+  users: User[];
+  /** Sign-in password by user id */
+  passwords: Record<string, string>;
+  friendships: MockFriendship[];
+  matches: Match[];
+  series: MatchSeries[];
+  waitlists: MatchWaitlist[];
+  costSplits: CostSplit[];
+  reviews: MatchReview[];
+  /** Completed matches each user skipped reviewing */
+  skippedReviews: { userId: string; matchId: string }[];
+  teams: Team[];
+  tournaments: Tournament[];
+  venues: Venue[];
+  bookings: Booking[];
+  chats: Chat[];
+  messages: Message[];
+  chatStates: MockChatState[];
+  notifications: MockNotification[];
+  payments: PaymentHistory[];
+  ratings: PlayerRating[];
+  ratingHistory: MockRatingHistoryEntry[];
+  /** Private calendar feed token by user id */
+  calendarFeeds: Record<string, string>;
+}
+
+export type MockSeed = Partial<MockTables>;
+
+const createEmptyTables = (): MockTables => ({
+  users: [],
+  passwords: {},
+  friendships: [],
+  matches: [],
+  series: [],
+  waitlists: [],
+  costSplits: [],
+  reviews: [],
+  skippedReviews: [],
+  teams: [],
+  tournaments: [],
+  venues: [],
+  bookings: [],
+  chats: [],
+  messages: [],
+  chatStates: [],
+  notifications: [],
+  payments: [],
+  ratings: [],
+  ratingHistory: [],
+  calendarFeeds: {},
+});
+
+/**
+ * In-memory store behind the mock backend. Routes read and change the
+ * tables directly; the seed is copied so resetting always starts over.
+ */
+export class MockDatabase {
+  tables: MockTables;
+  private lastId = 0;
+
+  constructor(seed: MockSeed = {}) {
+    this.tables = { ...createEmptyTables(), ...JSON.parse(JSON.stringify(seed)) };
+  }
+
+  createId(prefix: string): string {
+    this.lastId += 1;
+    return `${prefix}-${Date.now().toString(36)}${this.lastId}`;
+  }
+
+  /**
+   * The entity with this id, or a 404 naming what was missing
+   */
+  require<T extends { _id: string }>(items: T[], id: string, name: string): T {
+    const item = items.find(({ _id }) => _id === id);
+    if (!item) {
+      throw new NotFoundError(`${name} not found`, { id });
+    }
+    return item;
+  }
+
+  remove<T extends { _id: string }>(items: T[], id: string): void {
+    const index = items.findIndex(({ _id }) => _id === id);
+    if (index !== -1) {
+      items.splice(index, 1);
+    }
+  }
+
+  getUser(id: string): User {
+    return this.require(this.tables.users, id, 'User');
+  }
+}
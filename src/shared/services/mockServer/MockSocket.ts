@@ -0,0 +1,97 @@
+import type { SocketRoom } from '../socketEvents';
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * The server side of a mock socket connection
+ */
+export interface MockSocketHost {
+  handleClientEvent(socket: MockSocket, event: string, data: unknown): void;
+  detach(socket: MockSocket): void;
+}
+
+let lastSocketId = 0;
+
+/**
+ * Stand-in for a socket.io client socket with the members `socketService`
+ * uses. Events the app emits go to the mock server, and the server pushes
+ * events back through `receive`.
+ */
+export class MockSocket {
+  readonly id: string;
+  connected = false;
+  private listeners = new Map<string, Set<Listener>>();
+  private rooms = new Set<string>();
+
+  constructor(
+    private host: MockSocketHost,
+    /** Signed-in user, from the token the socket connected with */
+    readonly userId: string | null
+  ) {
+    lastSocketId += 1;
+    this.id = `mock-socket-${lastSocketId}`;
+  }
+
+  on(event: string, listener: Listener): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event: string, listener?: Listener): this {
+    if (listener) {
+      this.listeners.get(event)?.delete(listener);
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  emit(event: string, data?: unknown): this {
+    if (this.connected) {
+      this.host.handleClientEvent(this, event, data);
+    }
+    return this;
+  }
+
+  disconnect(): this {
+    if (this.connected) {
+      this.connected = false;
+      this.rooms.clear();
+      this.host.detach(this);
+      this.receive('disconnect', 'io client disconnect');
+    }
+    return this;
+  }
+
+  /**
+   * Finish connecting, or fail as an unauthenticated socket.io handshake does
+   */
+  open(): void {
+    if (this.userId) {
+      this.connected = true;
+      this.receive('connect');
+    } else {
+      this.host.detach(this);
+      this.receive('connect_error', new Error('Authentication failed'));
+    }
+  }
+
+  join(room: SocketRoom, id: string): void {
+    this.rooms.add(`${room}:${id}`);
+  }
+
+  leave(room: SocketRoom, id: string): void {
+    this.rooms.delete(`${room}:${id}`);
+  }
+
+  isInRoom(room: SocketRoom, id: string): boolean {
+    return this.rooms.has(`${room}:${id}`);
+  }
+
+  receive(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach(listener => listener(...args));
+  }
+}
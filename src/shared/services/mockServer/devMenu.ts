@@ -0,0 +1,17 @@
+import { DevSettings } from 'react-native';
+import { mockServer } from './mockServer';
+
+/**
+ * Add "Toggle mock backend" to the React Native dev menu. The app reloads
+ * so every client starts over against the chosen backend.
+ */
+export const registerMockServerDevMenu = (): void => {
+  if (!__DEV__) {
+    return;
+  }
+
+  DevSettings.addMenuItem('Toggle mock backend', async () => {
+    await mockServer.setEnabled(!(await mockServer.isEnabled()));
+    DevSettings.reload('Mock backend toggled');
+  });
+};
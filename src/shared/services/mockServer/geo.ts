@@ -0,0 +1,28 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance, close enough for sorting and radius filters
+ */
+export const getDistanceKm = (from: LatLng, to: LatLng): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * The `latitude` and `longitude` query parameters, when both are given
+ */
+export const getQueryOrigin = (query: URLSearchParams): LatLng | null => {
+  const lat = Number(query.get('latitude') ?? NaN);
+  const lng = Number(query.get('longitude') ?? NaN);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+};
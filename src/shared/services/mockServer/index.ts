@@ -0,0 +1,6 @@
+export { mockServer } from './mockServer';
+export type { MockHttpRequest, MockServerOptions } from './mockServer';
+export { registerMockServerDevMenu } from './devMenu';
+export { MockSocket } from './MockSocket';
+export type { MockSeed, MockTables } from './MockDatabase';
+export { createSeed, MOCK_PASSWORD, MOCK_USER_EMAIL, MOCK_USER_ID } from './seed';
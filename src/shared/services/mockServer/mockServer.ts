@@ -0,0 +1,297 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { API_CONFIG } from '@core/config';
+import { logger } from '@core/types/ILogger';
+import { STORAGE_KEYS, TypedStorage } from '@shared/utils/storageUtils';
+import type { SocketRoom } from '../socketEvents';
+import { MockDatabase, MockSeed, MockTables } from './MockDatabase';
+import { MockSocket, MockSocketHost } from './MockSocket';
+import { createRouter, MockContext, MockEmit, MockMethod, MockResponse } from './router';
+import { findUserChat, getTokenUserId, markMessageRead, mockRoutes, sendMessage } from './routes';
+import { createSeed } from './seed';
+
+/**
+ * Mock backend
+ *
+ * An in-process stand-in for the API and realtime server, so the app runs
+ * end to end without a backend. RTK Query, `apiService` and `socketService`
+ * hand their traffic here while the mock backend is switched on; routes
+ * answer with the same envelopes and errors as the real API, and changes
+ * are pushed to mock sockets as the real server pushes them. Data lives in
+ * memory and starts over from the seed on every launch.
+ */
+
+export interface MockServerOptions {
+  /** Delay before each response and pushed event, as a network would add */
+  latencyMs: number;
+  /** Pause before other players react, e.g. reply in a chat; null turns them off */
+  reactionDelayMs: number | null;
+}
+
+export interface MockHttpRequest {
+  method: string;
+  /** Absolute, or relative to the API version */
+  url: string;
+  authorization?: string | null;
+  /** JSON text or an already parsed body */
+  body?: unknown;
+}
+
+const DEFAULT_OPTIONS: MockServerOptions = {
+  latencyMs: 250,
+  reactionDelayMs: 2000,
+};
+
+const ROOM_EVENT = /^(join|leave)_(chat|match|tournament)$/;
+
+const enabledStorage = new TypedStorage<boolean>(STORAGE_KEYS.MOCK_SERVER);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Path below the API version and its query, from an absolute or relative URL
+ */
+const parseUrl = (url: string) => {
+  const [path, search = ''] = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?');
+  const apiPath = path.startsWith(API_CONFIG.API_VERSION) ? path.slice(API_CONFIG.API_VERSION.length) : path;
+  return { path: apiPath.replace(/\/+$/, '') || '/', query: new URLSearchParams(search) };
+};
+
+const parseBody = (body: unknown) => {
+  if (typeof body !== 'string') {
+    return body;
+  }
+  return body ? JSON.parse(body) : undefined;
+};
+
+class MockServer implements MockSocketHost {
+  private options: MockServerOptions = DEFAULT_OPTIONS;
+  private db = new MockDatabase(createSeed(new Date()));
+  private router = createRouter(mockRoutes);
+  private sockets = new Set<MockSocket>();
+  private enabled: Promise<boolean> | null = null;
+
+  /**
+   * Whether the app talks to the mock backend. Only development builds can
+   * switch it on; the choice is kept across launches.
+   */
+  isEnabled(): Promise<boolean> {
+    if (!__DEV__) {
+      return Promise.resolve(false);
+    }
+    this.enabled ??= enabledStorage.loadWithDefault(false);
+    return this.enabled;
+  }
+
+  async setEnabled(enabled: boolean): Promise<void> {
+    this.enabled = Promise.resolve(enabled);
+    await enabledStorage.save(enabled);
+    logger.info(`Mock backend ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  configure(options: Partial<MockServerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Start over from the demo data, or from `seed` alone when given.
+   * Connected mock sockets are dropped.
+   */
+  reset(seed?: MockSeed): void {
+    this.sockets.forEach(socket => socket.disconnect());
+    this.db = new MockDatabase(seed ?? createSeed(new Date()));
+  }
+
+  /** The live tables, for tests and debugging */
+  get database(): MockTables {
+    return this.db.tables;
+  }
+
+  /**
+   * Answer an API request after the configured latency
+   */
+  async handle({ method, url, authorization, body }: MockHttpRequest): Promise<MockResponse> {
+    await this.delay();
+    const { path, query } = parseUrl(url);
+
+    try {
+      const response = this.router(
+        {
+          method: method.toUpperCase() as MockMethod,
+          path,
+          query,
+          body: clone(parseBody(body)),
+          userId: getTokenUserId(authorization),
+        },
+        this.createContext()
+      );
+      return { ...response, body: clone(response.body) };
+    } catch (error) {
+      logger.error(
+        'Mock backend failed to handle a request',
+        error instanceof Error ? error : undefined,
+        { method, url }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * `fetch` for RTK Query's base query
+   */
+  fetch = async (input: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const { status, body } = await this.handle({
+      method: request.method,
+      url: request.url,
+      authorization: request.headers.get('Authorization'),
+      body: await request.text(),
+    });
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  /**
+   * Axios adapter for `apiService`, rejecting like the default adapters do
+   * for statuses outside `validateStatus`
+   */
+  axiosAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const url = /^[a-z]+:\/\//i.test(config.url ?? '') ? config.url! : `${config.baseURL ?? ''}${config.url ?? ''}`;
+    const { status, body } = await this.handle({
+      method: config.method ?? 'get',
+      url,
+      authorization: config.headers?.Authorization as string | undefined,
+      body: config.data,
+    });
+
+    const response: AxiosResponse = { data: body, status, statusText: String(status), headers: {}, config };
+    if (config.validateStatus && !config.validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+        config,
+        null,
+        response
+      );
+    }
+    return response;
+  };
+
+  /**
+   * A socket.io-like connection for the user the token belongs to. It
+   * connects after the configured latency, or fails with `connect_error`
+   * for a token the mock backend did not issue.
+   */
+  createSocket(token: string): MockSocket {
+    const socket = new MockSocket(this, getTokenUserId(`Bearer ${token}`));
+    this.sockets.add(socket);
+
+    setTimeout(() => {
+      socket.open();
+      if (socket.connected) {
+        const timestamp = new Date().toISOString();
+        this.db.tables.users
+          .filter(user => user.isOnline && user._id !== socket.userId)
+          .forEach(user => this.emit('user_online', { userId: user._id, timestamp }, { toUserIds: [socket.userId!] }));
+      }
+    }, this.options.latencyMs);
+    return socket;
+  }
+
+  /**
+   * Push an event to the connected sockets it is meant for. Recipients are
+   * chosen now and reached after the configured latency.
+   */
+  emit: MockEmit = (event, payload, target = {}) => {
+    const { room, toUserIds } = target;
+    const recipients = [...this.sockets].filter(
+      socket =>
+        socket.connected &&
+        (!room || socket.isInRoom(room.type, room.id)) &&
+        (!toUserIds || toUserIds.includes(socket.userId!))
+    );
+    const data = clone(payload);
+    setTimeout(() => recipients.forEach(socket => socket.receive(event, data)), this.options.latencyMs);
+  };
+
+  handleClientEvent(socket: MockSocket, event: string, data: any): void {
+    const userId = socket.userId!;
+    const context = this.createContext();
+
+    try {
+      const roomEvent = ROOM_EVENT.exec(event);
+      if (roomEvent) {
+        const [, action, room] = roomEvent;
+        const id = data?.[`${room}Id`];
+        if (action === 'join') {
+          socket.join(room as SocketRoom, id);
+        } else {
+          socket.leave(room as SocketRoom, id);
+        }
+        return;
+      }
+
+      switch (event) {
+        case 'send_message':
+          sendMessage(context, data?.chatId, userId, data ?? {});
+          break;
+        case 'typing_start':
+        case 'typing_stop': {
+          const chat = findUserChat(context, data?.chatId, userId);
+          const toUserIds = chat.participants.map(participant => participant._id).filter(id => id !== userId);
+          if (event === 'typing_start') {
+            const { username } = this.db.getUser(userId);
+            this.emit(event, { chatId: chat._id, userId, username }, { toUserIds });
+          } else {
+            this.emit(event, { chatId: chat._id, userId }, { toUserIds });
+          }
+          break;
+        }
+        case 'mark_message_read':
+          markMessageRead(context, data?.chatId, userId, data?.messageId);
+          break;
+        default:
+          logger.debug(`Mock backend ignored socket event ${event}`);
+      }
+    } catch (error) {
+      socket.receive('error', { message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  detach(socket: MockSocket): void {
+    this.sockets.delete(socket);
+  }
+
+  private delay(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+  }
+
+  private createContext(): MockContext {
+    const db = this.db;
+    return {
+      db,
+      emit: this.emit,
+      now: new Date(),
+      simulate: task => {
+        const { reactionDelayMs } = this.options;
+        if (reactionDelayMs === null) {
+          return;
+        }
+        setTimeout(() => {
+          // Reactions planned before a reset belong to data that is gone
+          if (this.db !== db) {
+            return;
+          }
+          try {
+            task(this.createContext());
+          } catch (error) {
+            logger.warn('Simulated player reaction failed', { error });
+          }
+        }, reactionDelayMs);
+      },
+    };
+  }
+}
+
+export const mockServer = new MockServer();
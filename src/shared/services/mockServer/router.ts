@@ -0,0 +1,141 @@
+import { AppError, AuthenticationError, ValidationError } from '@core/errors/AppError';
+import type { ApiError, ApiResponse } from '@core/types/api';
+import type { MockDatabase } from './MockDatabase';
+import type { SocketEventName, SocketEventPayloads, SocketRoom } from '../socketEvents';
+
+export type MockMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface MockRequest {
+  method: MockMethod;
+  /** Path below the API version, e.g. `/matches/m1` */
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  /** Signed-in user, from the bearer token */
+  userId: string | null;
+}
+
+export interface MockResponse {
+  status: number;
+  body: ApiResponse | ApiError;
+}
+
+/**
+ * Push a realtime event. Room events reach clients that joined the room;
+ * `toUserIds` limits other events to those users.
+ */
+export type MockEmit = <K extends SocketEventName>(
+  event: K,
+  payload: SocketEventPayloads[K],
+  target?: { room?: { type: SocketRoom; id: string }; toUserIds?: string[] }
+) => void;
+
+export interface MockContext {
+  db: MockDatabase;
+  emit: MockEmit;
+  now: Date;
+  /**
+   * Run another player's reaction after a pause, with the context at that
+   * time. Does nothing when the server is not simulating other players.
+   */
+  simulate: (task: (context: MockContext) => void) => void;
+}
+
+/** The signed-in user's request; routes marked `isPublic` receive the others */
+export type AuthedRequest = MockRequest & { userId: string };
+
+export type MockHandler = (request: AuthedRequest, context: MockContext) => MockResponse;
+
+export interface MockRoute {
+  method: MockMethod;
+  path: string;
+  handler: MockHandler;
+  isPublic?: boolean;
+}
+
+export const route = (
+  method: MockMethod,
+  path: string,
+  handler: MockHandler,
+  options: { isPublic?: boolean } = {}
+): MockRoute => ({ method, path, handler, ...options });
+
+export const ok = <T>(data?: T, status = 200): MockResponse => ({
+  status,
+  body: { success: true, data, timestamp: new Date().toISOString() },
+});
+
+export const created = <T>(data: T): MockResponse => ok(data, 201);
+
+/**
+ * The error body the real API sends, so `toAppError` maps it the same way
+ */
+export const toErrorResponse = (error: unknown, path: string): MockResponse => {
+  const appError = error instanceof AppError ? error : new AppError('Internal server error');
+  const status = appError.statusCode || 500;
+  const errors =
+    appError instanceof ValidationError && appError.errors
+      ? Object.entries(appError.errors).flatMap(([field, messages]) =>
+          messages.map(message => ({ field, message, code: 'invalid' }))
+        )
+      : undefined;
+
+  return {
+    status,
+    body: { success: false, message: appError.message, code: appError.code, errors, path, timestamp: new Date().toISOString() },
+  };
+};
+
+/**
+ * One page of a list, using the `page` and `limit` query parameters
+ */
+export const paginate = <T>(items: T[], query: URLSearchParams, defaultLimit = 20): T[] => {
+  const page = Math.max(Number(query.get('page')) || 1, 1);
+  const limit = Math.max(Number(query.get('limit')) || defaultLimit, 1);
+  return items.slice((page - 1) * limit, page * limit);
+};
+
+const toPattern = (path: string) => {
+  const names: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_match, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  return { regex: new RegExp(`^${source}$`), names };
+};
+
+/**
+ * Find the route for a request and run it. Static segments win over
+ * parameters, so `/matches/nearby` is never read as a match id.
+ */
+export const createRouter = (routes: MockRoute[]) => {
+  const compiled = routes
+    .map(definition => ({ ...definition, ...toPattern(definition.path) }))
+    .sort((a, b) => a.names.length - b.names.length);
+
+  return (request: Omit<MockRequest, 'params'>, context: MockContext): MockResponse => {
+    const methodMatches = compiled.filter(({ regex }) => regex.test(request.path));
+    const match = methodMatches.find(({ method }) => method === request.method);
+
+    if (!match) {
+      const status = methodMatches.length > 0 ? 405 : 404;
+      return toErrorResponse(
+        new AppError(`No mock route for ${request.method} ${request.path}`, 'NOT_FOUND', status),
+        request.path
+      );
+    }
+
+    const values = match.regex.exec(request.path)!.slice(1);
+    const params = Object.fromEntries(match.names.map((name, index) => [name, decodeURIComponent(values[index])]));
+
+    try {
+      if (!request.userId && !match.isPublic) {
+        throw new AuthenticationError('Authentication required');
+      }
+      return match.handler({ ...request, params } as AuthedRequest, context);
+    } catch (error) {
+      return toErrorResponse(error, request.path);
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { API_CONFIG } from '@core/config/api';
+import { getMatchStart } from '@features/matches/utils';
+import { isParticipantMember } from '@features/tournaments/utils';
+import { ok, route, MockContext, MockRoute } from '../router';
+import { isParticipant } from './matchHelpers';
+
+const toFeed = ({ db }: MockContext, userId: string) => {
+  if (!db.tables.calendarFeeds[userId]) {
+    db.tables.calendarFeeds[userId] = db.createId('feed');
+  }
+  return { url: `${API_CONFIG.BASE_URL}/calendar/${db.tables.calendarFeeds[userId]}.ics` };
+};
+
+export const calendarRoutes: MockRoute[] = [
+  // Cancelled entries stay in the schedule so synced calendars can remove them
+  route('GET', '/calendar/schedule', ({ userId }, { db, now }) => {
+    const today = now.toISOString().slice(0, 10);
+    return ok({
+      schedule: {
+        matches: db.tables.matches.filter(match => isParticipant(match, userId) && getMatchStart(match) >= now),
+        bookings: db.tables.bookings.filter(booking => booking.user._id === userId && booking.date >= today),
+        tournaments: db.tables.tournaments.filter(
+          tournament =>
+            tournament.endDate >= now.toISOString() &&
+            tournament.participants.some(participant => isParticipantMember(participant, userId))
+        ),
+      },
+    });
+  }),
+
+  route('GET', '/calendar/feed', ({ userId }, context) => ok({ feed: toFeed(context, userId) })),
+
+  route('POST', '/calendar/feed/reset', ({ userId }, context) => {
+    delete context.db.tables.calendarFeeds[userId];
+    return ok({ feed: toFeed(context, userId) });
+  }),
+];
@@ -0,0 +1,208 @@
+import { AuthorizationError, ValidationError } from '@core/errors/AppError';
+import type { Chat, CreateChatRequest, Message, SendMessageRequest } from '@features/chat/types';
+import { created, ok, paginate, route, MockContext, MockRoute } from '../router';
+import { toChatParticipant, toSender } from '../shapes';
+
+const getChatMessages = ({ db }: MockContext, chatId: string): Message[] =>
+  db.tables.messages
+    .filter(message => message.chat === chatId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * The chat as the user sees it, with their unread count and the latest message
+ */
+const toUserChat = (context: MockContext, chat: Chat, userId: string): Chat => {
+  const messages = getChatMessages(context, chat._id);
+  const lastReadAt = context.db.tables.chatStates.find(
+    state => state.chatId === chat._id && state.userId === userId
+  )?.lastReadAt;
+
+  return {
+    ...chat,
+    lastMessage: messages[messages.length - 1],
+    unreadCount: messages.filter(
+      message => message.sender._id !== userId && (!lastReadAt || message.createdAt > lastReadAt)
+    ).length,
+  };
+};
+
+/**
+ * The chat, if the user is in it
+ */
+export const findUserChat = ({ db }: Pick<MockContext, 'db'>, chatId: string, userId: string): Chat => {
+  const chat = db.require(db.tables.chats, chatId, 'Chat');
+  if (!chat.participants.some(participant => participant._id === userId)) {
+    throw new AuthorizationError('You are not in this chat');
+  }
+  return chat;
+};
+
+const AUTO_REPLIES = [
+  'Sounds good!',
+  'Count me in.',
+  'Let me check and get back to you.',
+  'See you there 👍',
+];
+
+/**
+ * The other player in a direct chat reads the message, types for a moment
+ * and answers
+ */
+const simulateReply = (context: MockContext, chat: Chat, message: Message) => {
+  const partner = chat.participants.find(participant => participant._id !== message.sender._id);
+  if (chat.type !== 'direct' || !partner) {
+    return;
+  }
+
+  const target = { toUserIds: [message.sender._id] };
+  context.simulate(reading => {
+    markMessageRead(reading, chat._id, partner._id, message._id);
+    reading.emit('typing_start', { chatId: chat._id, userId: partner._id, username: partner.username ?? '' }, target);
+
+    reading.simulate(replying => {
+      replying.emit('typing_stop', { chatId: chat._id, userId: partner._id }, target);
+      const count = replying.db.tables.messages.filter(item => item.chat === chat._id).length;
+      sendMessage(replying, chat._id, partner._id, { content: AUTO_REPLIES[count % AUTO_REPLIES.length] }, false);
+    });
+  });
+};
+
+/**
+ * Save a message and deliver it: `new_message` to the other participants,
+ * and `message_sent` then `message_delivered` back to the sender
+ */
+export const sendMessage = (
+  context: MockContext,
+  chatId: string,
+  senderId: string,
+  { content, messageType = 'text', replyTo }: SendMessageRequest,
+  expectsReply = true
+): Message => {
+  const { db, emit, now } = context;
+  const chat = findUserChat(context, chatId, senderId);
+  if (!content?.trim()) {
+    throw new ValidationError('Messages cannot be empty', { content: ['Message is required'] });
+  }
+
+  const repliedTo = replyTo ? db.require(db.tables.messages, replyTo, 'Message') : undefined;
+  const message: Message = {
+    _id: db.createId('message'),
+    chat: chat._id,
+    sender: toSender(db.getUser(senderId)),
+    content,
+    messageType,
+    isEdited: false,
+    replyTo: repliedTo && {
+      _id: repliedTo._id,
+      content: repliedTo.content,
+      sender: { firstName: repliedTo.sender.firstName },
+    },
+    readBy: [senderId],
+    createdAt: now.toISOString(),
+  };
+  db.tables.messages.push(message);
+  chat.updatedAt = message.createdAt;
+
+  const recipientIds = chat.participants.map(participant => participant._id).filter(id => id !== senderId);
+  emit('new_message', message, { toUserIds: recipientIds });
+  emit('message_sent', message, { toUserIds: [senderId] });
+  emit('message_delivered', { messageId: message._id, deliveredAt: now.toISOString() }, { toUserIds: [senderId] });
+
+  if (expectsReply) {
+    simulateReply(context, chat, message);
+  }
+  return message;
+};
+
+/**
+ * Mark the chat read up to the message and tell its sender
+ */
+export const markMessageRead = (context: MockContext, chatId: string, userId: string, messageId: string): void => {
+  const { db, emit, now } = context;
+  findUserChat(context, chatId, userId);
+  const message = db.require(db.tables.messages, messageId, 'Message');
+
+  const state = db.tables.chatStates.find(item => item.chatId === chatId && item.userId === userId);
+  if (!state) {
+    db.tables.chatStates.push({ chatId, userId, lastReadAt: message.createdAt });
+  } else if (message.createdAt > state.lastReadAt) {
+    state.lastReadAt = message.createdAt;
+  }
+
+  if (!message.readBy?.includes(userId)) {
+    message.readBy = [...(message.readBy ?? []), userId];
+    emit(
+      'message_read',
+      { messageId: message._id, readBy: userId, readAt: now.toISOString() },
+      { toUserIds: [message.sender._id] }
+    );
+  }
+};
+
+export const chatRoutes: MockRoute[] = [
+  route('GET', '/chats', ({ userId, query }, context) => {
+    const chats = context.db.tables.chats
+      .filter(chat => chat.participants.some(participant => participant._id === userId))
+      .map(chat => toUserChat(context, chat, userId))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    return ok(paginate(chats, query));
+  }),
+
+  route('GET', '/chats/:id', ({ userId, params }, context) =>
+    ok({ chat: toUserChat(context, findUserChat(context, params.id, userId), userId) })
+  ),
+
+  // Starting a direct chat with someone you already talk to reopens that chat
+  route('POST', '/chats', ({ userId, body }, context) => {
+    const { db, now } = context;
+    const { type, participantIds = [], name } = (body ?? {}) as CreateChatRequest;
+    const memberIds = [userId, ...participantIds.filter(id => id !== userId)];
+    if (memberIds.length < 2 || (type === 'direct' && memberIds.length !== 2)) {
+      throw new ValidationError('Pick who to chat with', { participantIds: ['Choose the chat participants'] });
+    }
+
+    const existing =
+      type === 'direct' &&
+      db.tables.chats.find(
+        chat =>
+          chat.type === 'direct' &&
+          memberIds.every(memberId => chat.participants.some(participant => participant._id === memberId))
+      );
+    if (existing) {
+      return ok({ chat: toUserChat(context, existing, userId) });
+    }
+
+    const chat: Chat = {
+      _id: db.createId('chat'),
+      type,
+      name,
+      participants: memberIds.map(memberId => toChatParticipant(db.getUser(memberId))),
+      unreadCount: 0,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    db.tables.chats.push(chat);
+    return created({ chat });
+  }),
+
+  // Loading the latest page counts as reading the chat
+  route('GET', '/chats/:id/messages', ({ userId, params, query }, context) => {
+    findUserChat(context, params.id, userId);
+    const before = query.get('before');
+    const after = query.get('after');
+    const messages = getChatMessages(context, params.id).filter(
+      message => (!before || message.createdAt < before) && (!after || message.createdAt > after)
+    );
+
+    const latest = messages[messages.length - 1];
+    if (!before && latest) {
+      markMessageRead(context, params.id, userId, latest._id);
+    }
+    // Pages count back from the newest message, each in the order it was sent
+    return ok(paginate([...messages].reverse(), query, 50).reverse());
+  }),
+
+  route('POST', '/chats/:id/messages', ({ userId, params, body }, context) =>
+    created({ message: sendMessage(context, params.id, userId, body as SendMessageRequest) })
+  ),
+];
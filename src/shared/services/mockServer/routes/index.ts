@@ -0,0 +1,31 @@
+import type { MockRoute } from '../router';
+import { calendarRoutes } from './calendarRoutes';
+import { chatRoutes } from './chatRoutes';
+import { matchRoutes } from './matchRoutes';
+import { notificationRoutes } from './notificationRoutes';
+import { paymentRoutes } from './paymentRoutes';
+import { recommendationRoutes } from './recommendationRoutes';
+import { seriesRoutes } from './seriesRoutes';
+import { teamRoutes } from './teamRoutes';
+import { tournamentRoutes } from './tournamentRoutes';
+import { userRoutes } from './userRoutes';
+import { venueRoutes } from './venueRoutes';
+import { waitlistRoutes } from './waitlistRoutes';
+
+export { getTokenUserId } from './userRoutes';
+export { findUserChat, markMessageRead, sendMessage } from './chatRoutes';
+
+export const mockRoutes: MockRoute[] = [
+  ...userRoutes,
+  ...matchRoutes,
+  ...waitlistRoutes,
+  ...seriesRoutes,
+  ...recommendationRoutes,
+  ...tournamentRoutes,
+  ...teamRoutes,
+  ...venueRoutes,
+  ...chatRoutes,
+  ...notificationRoutes,
+  ...paymentRoutes,
+  ...calendarRoutes,
+];
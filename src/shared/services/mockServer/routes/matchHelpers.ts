@@ -0,0 +1,149 @@
+import { AuthorizationError, BusinessError } from '@core/errors/AppError';
+import type { CreateMatchRequest, Match, MatchScore, MatchWaitlist } from '@features/matches/types';
+import { getOfferExpiry, getOpenSpots, getPromotions } from '@features/matches/utils';
+import type { Venue } from '@features/venues/types';
+import type { MockContext } from '../router';
+import { notify, toParticipant, toPersonRef } from '../shapes';
+
+export const findMatch = ({ db }: Pick<MockContext, 'db'>, id: string): Match =>
+  db.require(db.tables.matches, id, 'Match');
+
+export const assertOrganizer = (match: Match, userId: string, action: string): void => {
+  if (match.organizer._id !== userId) {
+    throw new AuthorizationError(`Only the organizer can ${action}`);
+  }
+};
+
+export const isParticipant = (match: Match, userId: string): boolean =>
+  match.participants.some(participant => participant._id === userId);
+
+export const matchRoom = (match: Match) => ({ room: { type: 'match' as const, id: match._id } });
+
+export const toMatchVenue = (venue: Venue): Match['venue'] => {
+  const [lng, lat] = venue.location.coordinates?.coordinates ?? [];
+  return {
+    _id: venue._id,
+    name: venue.name,
+    location: {
+      address: venue.location.address,
+      coordinates: lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
+    },
+    amenities: venue.amenities,
+  };
+};
+
+const createInviteCode = () => Math.random().toString(36).slice(2, 10).toUpperCase();
+
+/**
+ * A new upcoming match with its organizer as the first player
+ */
+export const createMatch = (
+  { db, now }: MockContext,
+  organizerId: string,
+  { venue: venueId, ...request }: CreateMatchRequest,
+  extra: Partial<Match> = {}
+): Match => {
+  const organizer = db.getUser(organizerId);
+  const match: Match = {
+    ...request,
+    _id: db.createId('match'),
+    venue: venueId ? toMatchVenue(db.require(db.tables.venues, venueId, 'Venue')) : undefined,
+    participants: [toParticipant(organizer, 'organizer')],
+    currentParticipants: 1,
+    status: 'upcoming',
+    organizer: toPersonRef(organizer),
+    inviteCode: request.type === 'private' ? createInviteCode() : undefined,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    ...extra,
+  };
+  db.tables.matches.push(match);
+  return match;
+};
+
+/**
+ * Save a change to a match and push it to everyone following it
+ */
+export const saveMatch = (context: MockContext, match: Match): Match => {
+  match.updatedAt = context.now.toISOString();
+  context.emit('match_updated', match, matchRoom(match));
+  return match;
+};
+
+/**
+ * Keep score, from the score screen or a live scorekeeping update
+ */
+export const updateScore = (context: MockContext, match: Match, userId: string, score: Partial<MatchScore>): Match => {
+  if (!isParticipant(match, userId)) {
+    throw new AuthorizationError('Only players in the match can keep score');
+  }
+  match.score = { ...match.score, ...score };
+  return saveMatch(context, match);
+};
+
+export const addParticipant = (context: MockContext, match: Match, userId: string): void => {
+  const participant = toParticipant(context.db.getUser(userId));
+  match.participants.push(participant);
+  match.currentParticipants = match.participants.length;
+  context.emit('match_participant_joined', { matchId: match._id, participant }, matchRoom(match));
+  saveMatch(context, match);
+};
+
+/**
+ * Add the user to the match, taking them off its waitlist. Players holding a
+ * waitlist offer join into the spot kept for them.
+ */
+export const joinMatch = (
+  context: MockContext,
+  match: Match,
+  userId: string,
+  { holdsSpot = false }: { holdsSpot?: boolean } = {}
+): void => {
+  if (match.status !== 'upcoming') {
+    throw new BusinessError('This match is no longer open to join');
+  }
+  if (isParticipant(match, userId)) {
+    throw new BusinessError('You are already in this match');
+  }
+  const waitlist = getMatchWaitlist(context, match._id);
+  if (!holdsSpot && getOpenSpots(match, waitlist, context.now) === 0) {
+    throw new BusinessError('This match is full');
+  }
+
+  waitlist.entries = waitlist.entries.filter(entry => entry.user._id !== userId);
+  addParticipant(context, match, userId);
+};
+
+export const removeParticipant = (context: MockContext, match: Match, userId: string): void => {
+  match.participants = match.participants.filter(participant => participant._id !== userId);
+  match.currentParticipants = match.participants.length;
+  context.emit('match_participant_left', { matchId: match._id, userId }, matchRoom(match));
+  saveMatch(context, match);
+};
+
+export const getMatchWaitlist = ({ db }: Pick<MockContext, 'db'>, matchId: string): MatchWaitlist => {
+  let waitlist = db.tables.waitlists.find(item => item.matchId === matchId);
+  if (!waitlist) {
+    waitlist = { matchId, entries: [] };
+    db.tables.waitlists.push(waitlist);
+  }
+  return waitlist;
+};
+
+/**
+ * Hold each open spot for the next player in line and tell them, as the
+ * real server does when someone leaves a full match
+ */
+export const offerOpenSpots = (context: MockContext, match: Match): void => {
+  const waitlist = getMatchWaitlist(context, match._id);
+  getPromotions(match, waitlist, context.now).forEach(entry => {
+    entry.status = 'offered';
+    entry.offerExpiresAt = getOfferExpiry(context.now);
+    notify(context, entry.user._id, {
+      type: 'waitlist_promotion',
+      title: 'A spot opened up',
+      message: `Confirm your spot in ${match.title} before the offer expires`,
+      data: { matchId: match._id, matchTitle: match.title },
+    });
+  });
+};
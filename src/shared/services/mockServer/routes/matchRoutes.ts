@@ -0,0 +1,449 @@
+import { AppError, AuthorizationError, BusinessError, NotFoundError, ValidationError } from '@core/errors/AppError';
+import type {
+  AttendanceRecord,
+  CheckInRequest,
+  CostShareStatus,
+  CostSplit,
+  CreateCostSplitRequest,
+  CreateMatchRequest,
+  Match,
+  MatchReview,
+  MatchSort,
+  PendingMatchReview,
+  SaveLineupsRequest,
+  SubmitMatchReviewsRequest,
+  UpdateScoreRequest,
+} from '@features/matches/types';
+import {
+  CHECK_IN_RADIUS_METERS,
+  CHECK_IN_TOKEN_REFRESH_MS,
+  REVIEW_WINDOW_DAYS,
+  SKILL_RATINGS,
+  getAbsentParticipantIds,
+  getBookingCost,
+  getCostSplitError,
+  getMatchStart,
+  getOpenSpots,
+  getReviewError,
+  getVenueCoordinates,
+  isCheckInOpen,
+  isCheckedIn,
+} from '@features/matches/utils';
+import { getDistanceKm, LatLng } from '../geo';
+import { created, ok, paginate, route, MockContext, MockRoute } from '../router';
+import { getFullName, notify } from '../shapes';
+import {
+  assertOrganizer,
+  createMatch,
+  findMatch,
+  isParticipant,
+  joinMatch,
+  matchRoom,
+  offerOpenSpots,
+  removeParticipant,
+  saveMatch,
+  toMatchVenue,
+  updateScore,
+} from './matchHelpers';
+
+const MATCH_STATUSES: Match['status'][] = ['upcoming', 'in-progress', 'completed', 'cancelled'];
+
+/** Fields the organizer cannot change through an update */
+const READ_ONLY_FIELDS = ['_id', 'participants', 'currentParticipants', 'organizer', 'inviteCode', 'createdAt'];
+
+const getSkillWindow = (match: Match): [number, number] => {
+  const fallback = match.rules?.skillLevel ?? '';
+  return [
+    SKILL_RATINGS[match.requirements?.minSkillLevel ?? fallback] ?? SKILL_RATINGS.beginner,
+    SKILL_RATINGS[match.requirements?.maxSkillLevel ?? fallback] ?? SKILL_RATINGS.expert,
+  ];
+};
+
+const getMatchDistanceKm = (match: Match, origin: LatLng | null): number | null => {
+  const coordinates = match.venue?.location.coordinates;
+  return origin && coordinates ? getDistanceKm(origin, coordinates) : null;
+};
+
+/**
+ * Matches the user can see that pass the list filters, sorted as asked.
+ * Private matches are only listed for their players, and `radius` needs an
+ * origin to measure from.
+ */
+export const queryMatches = (
+  { db, now }: MockContext,
+  userId: string,
+  query: URLSearchParams,
+  origin: LatLng | null = null
+): Match[] => {
+  const get = (key: string) => query.get(key) || undefined;
+  const sports = get('sports')?.split(',') ?? (get('sport') ? [get('sport')!] : undefined);
+  const search = get('search')?.toLowerCase();
+  const location = get('location')?.toLowerCase();
+  const from = get('from') ? new Date(get('from')!) : undefined;
+  const to = get('to') ? new Date(get('to')!) : undefined;
+  const minSkill = SKILL_RATINGS[get('minSkillLevel') ?? ''] ?? SKILL_RATINGS.beginner;
+  const maxSkill = SKILL_RATINGS[get('maxSkillLevel') ?? ''] ?? SKILL_RATINGS.expert;
+  const maxPrice = get('maxPrice') !== undefined ? Number(get('maxPrice')) : undefined;
+  const radius = get('radius') !== undefined ? Number(get('radius')) : undefined;
+
+  const matches = db.tables.matches.filter(match => {
+    const start = getMatchStart(match);
+    const [matchMinSkill, matchMaxSkill] = getSkillWindow(match);
+    const distance = getMatchDistanceKm(match, origin);
+    const waitlist = db.tables.waitlists.find(item => item.matchId === match._id);
+
+    return (
+      (match.type === 'public' || isParticipant(match, userId)) &&
+      (!get('seriesId') || match.series?._id === get('seriesId')) &&
+      (!sports || sports.includes(match.sport)) &&
+      (!get('status') || match.status === get('status')) &&
+      (!get('type') || match.type === get('type')) &&
+      (!get('date') || match.schedule.date.startsWith(get('date')!)) &&
+      (!search || [match.title, match.description, match.venue?.name].some(value => value?.toLowerCase().includes(search))) &&
+      (!location || match.venue?.location.address.toLowerCase().includes(location)) &&
+      (!from || start >= from) &&
+      (!to || start <= to) &&
+      // Schedule times are local to the match already, so the offset is not needed
+      (!get('fromTime') || match.schedule.time >= get('fromTime')!) &&
+      (!get('toTime') || match.schedule.time < get('toTime')!) &&
+      matchMinSkill <= maxSkill &&
+      matchMaxSkill >= minSkill &&
+      (get('openSpots') !== 'true' || getOpenSpots(match, waitlist, now) > 0) &&
+      (maxPrice === undefined || (match.price?.amount ?? 0) <= maxPrice) &&
+      (radius === undefined || (distance !== null && distance <= radius))
+    );
+  });
+
+  const sortValues: Record<MatchSort, (match: Match) => number> = {
+    startTime: match => getMatchStart(match).getTime(),
+    distance: match => getMatchDistanceKm(match, origin) ?? Number.MAX_SAFE_INTEGER,
+    price: match => match.price?.amount ?? 0,
+    openSpots: match => match.maxParticipants - match.currentParticipants,
+  };
+  const sortValue = sortValues[get('sort') as MatchSort] ?? sortValues.startTime;
+  const direction = get('order') === 'desc' ? -1 : 1;
+  return matches.sort((a, b) => (sortValue(a) - sortValue(b)) * direction);
+};
+
+const findByInviteCode = ({ db }: MockContext, code: string): Match => {
+  const match = db.tables.matches.find(item => item.inviteCode?.toUpperCase() === code.toUpperCase());
+  if (!match) {
+    throw new NotFoundError('This invite link is no longer valid', { code });
+  }
+  return match;
+};
+
+/*
+ * Check-in tokens are derived from the clock rather than stored: each one is
+ * good for its refresh interval and the one after, so a code scanned just
+ * before the QR refreshes still works.
+ */
+const getTokenSlot = (now: Date) => Math.floor(now.getTime() / CHECK_IN_TOKEN_REFRESH_MS);
+
+const toCheckInToken = (match: Match, slot: number) => `${match._id}.${slot.toString(36)}`;
+
+const isValidCheckInToken = (match: Match, token: string, now: Date) => {
+  const slot = getTokenSlot(now);
+  return token === toCheckInToken(match, slot) || token === toCheckInToken(match, slot - 1);
+};
+
+const getReviewClosesAt = (match: Match): Date =>
+  new Date(getMatchStart(match).getTime() + (match.schedule.duration + REVIEW_WINDOW_DAYS * 24 * 60) * 60 * 1000);
+
+const getReviewedIds = ({ db }: MockContext, matchId: string, reviewerId: string): string[] =>
+  db.tables.reviews
+    .filter(review => review.matchId === matchId && review.reviewerId === reviewerId)
+    .map(review => review.revieweeId);
+
+const findCostSplit = ({ db }: MockContext, matchId: string): CostSplit | undefined =>
+  db.tables.costSplits.find(split => split.matchId === matchId);
+
+export const matchRoutes: MockRoute[] = [
+  route('GET', '/matches', ({ userId, query }, context) => ok(paginate(queryMatches(context, userId, query), query))),
+
+  route('POST', '/matches', ({ userId, body }, context) => {
+    const request = (body ?? {}) as CreateMatchRequest;
+    if (!request.title || !request.sport || !request.schedule?.date) {
+      throw new ValidationError('Add a title, sport and date', {
+        ...(!request.title && { title: ['Title is required'] }),
+        ...(!request.sport && { sport: ['Sport is required'] }),
+        ...(!request.schedule?.date && { date: ['Date is required'] }),
+      });
+    }
+    return created({ match: createMatch(context, userId, request) });
+  }),
+
+  route('GET', '/matches/:id', ({ params }, context) => ok({ match: findMatch(context, params.id) })),
+
+  route('PATCH', '/matches/:id', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'edit this match');
+
+    const { venue, ...changes } = (body ?? {}) as Partial<CreateMatchRequest> & Partial<Match>;
+    READ_ONLY_FIELDS.forEach(field => delete changes[field as keyof typeof changes]);
+    Object.assign(match, changes);
+    if (typeof venue === 'string') {
+      match.venue = toMatchVenue(context.db.require(context.db.tables.venues, venue, 'Venue'));
+    }
+    return ok({ match: saveMatch(context, match) });
+  }),
+
+  route('DELETE', '/matches/:id', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'delete this match');
+    context.db.remove(context.db.tables.matches, match._id);
+    return ok();
+  }),
+
+  route('POST', '/matches/:id/join', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    if (match.type === 'private') {
+      throw new AuthorizationError('This match is invite only');
+    }
+    joinMatch(context, match, userId);
+    return ok({ match });
+  }),
+
+  route('POST', '/matches/:id/leave', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    if (match.organizer._id === userId) {
+      throw new BusinessError('The organizer cannot leave their own match');
+    }
+    if (!isParticipant(match, userId)) {
+      throw new BusinessError('You are not in this match');
+    }
+    removeParticipant(context, match, userId);
+    offerOpenSpots(context, match);
+    return ok();
+  }),
+
+  route('GET', '/matches/invite/:code', ({ params }, context) => ok({ match: findByInviteCode(context, params.code) })),
+
+  route('POST', '/matches/invite/:code/join', ({ userId, params }, context) => {
+    const match = findByInviteCode(context, params.code);
+    joinMatch(context, match, userId);
+    return ok({ match });
+  }),
+
+  route('PATCH', '/matches/:id/score', ({ userId, params, body }, context) =>
+    ok({ match: updateScore(context, findMatch(context, params.id), userId, body as UpdateScoreRequest) })
+  ),
+
+  route('PATCH', '/matches/:id/status', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'change the match status');
+    if (!MATCH_STATUSES.includes(body?.status)) {
+      throw new ValidationError('Unknown match status', { status: ['Unknown match status'] });
+    }
+
+    match.status = body.status;
+    if (match.status === 'in-progress') {
+      context.emit('match_started', { matchId: match._id, startTime: context.now.toISOString() }, matchRoom(match));
+    } else if (match.status === 'completed') {
+      context.emit('match_completed', { matchId: match._id, result: match.score ?? {} }, matchRoom(match));
+    }
+    return ok({ match: saveMatch(context, match) });
+  }),
+
+  route('PUT', '/matches/:id/lineups', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'pick the lineups');
+
+    const { teams = [] } = (body ?? {}) as SaveLineupsRequest;
+    if (teams.some(team => team.playerIds.some(playerId => !isParticipant(match, playerId)))) {
+      throw new BusinessError('Lineups can only include players in the match');
+    }
+    match.lineups = { teams, updatedAt: context.now.toISOString() };
+    return ok({ match: saveMatch(context, match) });
+  }),
+
+  route('GET', '/matches/:id/check-in/token', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'show the check-in code');
+    const slot = getTokenSlot(context.now);
+    return ok({
+      checkIn: {
+        token: toCheckInToken(match, slot),
+        expiresAt: new Date((slot + 1) * CHECK_IN_TOKEN_REFRESH_MS).toISOString(),
+      },
+    });
+  }),
+
+  route('POST', '/matches/:id/check-in', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    if (!isParticipant(match, userId)) {
+      throw new AuthorizationError('Only players in the match can check in');
+    }
+    if (match.checkInClosedAt || !isCheckInOpen(match, context.now)) {
+      throw new BusinessError('Check-in is not open for this match');
+    }
+    if (isCheckedIn(match, userId)) {
+      return ok({ match });
+    }
+
+    const request = body as CheckInRequest;
+    if (request?.method === 'qr') {
+      if (!isValidCheckInToken(match, request.token, context.now)) {
+        throw new BusinessError('This check-in code has expired, scan it again');
+      }
+    } else if (request?.method === 'location') {
+      const venue = getVenueCoordinates(match);
+      if (!venue) {
+        throw new BusinessError('This match has no venue location to check in at');
+      }
+      const distanceKm = getDistanceKm(
+        { lat: request.coordinates.latitude, lng: request.coordinates.longitude },
+        { lat: venue.latitude, lng: venue.longitude }
+      );
+      if (distanceKm * 1000 > CHECK_IN_RADIUS_METERS) {
+        throw new BusinessError('You need to be at the venue to check in');
+      }
+    } else {
+      throw new ValidationError('Choose how to check in', { method: ['Check in with a QR code or your location'] });
+    }
+
+    const record: AttendanceRecord = {
+      userId,
+      status: 'checked_in',
+      method: request.method,
+      checkedInAt: context.now.toISOString(),
+    };
+    match.attendance = [...(match.attendance ?? []).filter(item => item.userId !== userId), record];
+    return ok({ match: saveMatch(context, match) });
+  }),
+
+  route('POST', '/matches/:id/check-in/close', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'close check-in');
+    if (!match.checkInClosedAt) {
+      const noShows = getAbsentParticipantIds(match).map((id): AttendanceRecord => ({ userId: id, status: 'no_show' }));
+      match.attendance = [...(match.attendance ?? []), ...noShows];
+      match.checkInClosedAt = context.now.toISOString();
+    }
+    return ok({ match: saveMatch(context, match) });
+  }),
+
+  route('GET', '/matches/reviews/pending', ({ userId }, context) => {
+    const { db, now } = context;
+    const pending = db.tables.matches
+      .filter(
+        match =>
+          match.status === 'completed' &&
+          isParticipant(match, userId) &&
+          getReviewClosesAt(match) >= now &&
+          !db.tables.skippedReviews.some(skip => skip.matchId === match._id && skip.userId === userId)
+      )
+      .map(
+        (match): PendingMatchReview => ({
+          match,
+          reviewedIds: getReviewedIds(context, match._id, userId),
+          closesAt: getReviewClosesAt(match).toISOString(),
+        })
+      )
+      .filter(({ match, reviewedIds }) => match.participants.length - 1 > reviewedIds.length);
+    return ok({ pending });
+  }),
+
+  route('POST', '/matches/:id/reviews', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    if (getReviewClosesAt(match) < context.now) {
+      throw new BusinessError('Reviews for this match have closed');
+    }
+    const { reviews = [] } = (body ?? {}) as SubmitMatchReviewsRequest;
+    const error = getReviewError(match, userId, reviews, getReviewedIds(context, match._id, userId));
+    if (error) {
+      throw new BusinessError(error);
+    }
+
+    const saved = reviews.map(
+      (review): MatchReview => ({
+        ...review,
+        _id: context.db.createId('review'),
+        matchId: match._id,
+        reviewerId: userId,
+        createdAt: context.now.toISOString(),
+      })
+    );
+    context.db.tables.reviews.push(...saved);
+    return created({ reviews: saved });
+  }),
+
+  route('POST', '/matches/:id/reviews/skip', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    const { skippedReviews } = context.db.tables;
+    if (!skippedReviews.some(skip => skip.matchId === match._id && skip.userId === userId)) {
+      skippedReviews.push({ userId, matchId: match._id });
+    }
+    return ok();
+  }),
+
+  route('GET', '/matches/:id/cost-split', ({ params }, context) => {
+    const match = findMatch(context, params.id);
+    return ok({ costSplit: findCostSplit(context, match._id) ?? null });
+  }),
+
+  route('POST', '/matches/:id/cost-split', ({ userId, params, body }, context) => {
+    const { db, now } = context;
+    const match = findMatch(context, params.id);
+    if (findCostSplit(context, match._id)) {
+      throw new AppError('The cost of this match is already split', 'CONFLICT', 409);
+    }
+
+    const request = (body ?? {}) as CreateCostSplitRequest;
+    const booking = db.require(db.tables.bookings, request.bookingId, 'Booking');
+    const error = getCostSplitError(match, booking, userId, request.shares ?? []);
+    if (error) {
+      throw new BusinessError(error);
+    }
+
+    const costSplit: CostSplit = {
+      _id: db.createId('split'),
+      matchId: match._id,
+      bookingId: booking._id,
+      payerId: userId,
+      total: getBookingCost(booking),
+      currency: booking.pricing.currency,
+      method: request.method,
+      // The booker already paid the venue, so their own share starts settled
+      shares: request.shares.map(share =>
+        share.userId === userId
+          ? { ...share, status: 'paid', settledAt: now.toISOString() }
+          : { ...share, status: 'pending' }
+      ),
+      createdAt: now.toISOString(),
+    };
+    db.tables.costSplits.push(costSplit);
+
+    const payerName = getFullName(db.getUser(userId));
+    costSplit.shares
+      .filter(share => share.userId !== userId && share.amount > 0)
+      .forEach(share =>
+        notify(context, share.userId, {
+          type: 'match_update',
+          title: 'Venue cost split',
+          message: `${payerName} split the venue cost for ${match.title}`,
+          data: { matchId: match._id, matchTitle: match.title },
+        })
+      );
+    return created({ costSplit });
+  }),
+
+  route('PATCH', '/matches/:id/cost-split/shares/:userId', ({ userId, params, body }, context) => {
+    const costSplit = findCostSplit(context, params.id);
+    if (!costSplit) {
+      throw new NotFoundError('The cost of this match has not been split');
+    }
+    if (costSplit.payerId !== userId) {
+      throw new AuthorizationError('Only the player who booked can settle shares');
+    }
+    const share = costSplit.shares.find(item => item.userId === params.userId);
+    if (!share) {
+      throw new NotFoundError('This player has no share of the cost');
+    }
+
+    share.status = body?.status as CostShareStatus;
+    share.settledAt = share.status === 'pending' ? undefined : context.now.toISOString();
+    costSplit.updatedAt = context.now.toISOString();
+    return ok({ costSplit });
+  }),
+];
@@ -0,0 +1,38 @@
+import type { Notification } from '@features/notifications/types';
+import type { MockNotification } from '../MockDatabase';
+import { ok, paginate, route, MockContext, MockRoute } from '../router';
+
+const toNotification = ({ recipientId: _recipientId, ...notification }: MockNotification): Notification => notification;
+
+const getUserNotifications = ({ db }: MockContext, userId: string) =>
+  db.tables.notifications.filter(notification => notification.recipientId === userId);
+
+const markRead = (notification: MockNotification, now: Date) => {
+  if (!notification.isRead) {
+    notification.isRead = true;
+    notification.readAt = now.toISOString();
+  }
+};
+
+export const notificationRoutes: MockRoute[] = [
+  route('GET', '/notifications', ({ userId, query }, context) => {
+    const read = query.get('read');
+    const type = query.get('type');
+    const notifications = getUserNotifications(context, userId).filter(
+      notification =>
+        (read === null || notification.isRead === (read === 'true')) && (!type || notification.type === type)
+    );
+    return ok(paginate(notifications, query).map(toNotification));
+  }),
+
+  route('PATCH', '/notifications/:id/read', ({ userId, params }, context) => {
+    const notification = context.db.require(getUserNotifications(context, userId), params.id, 'Notification');
+    markRead(notification, context.now);
+    return ok();
+  }),
+
+  route('PATCH', '/notifications/read-all', ({ userId }, context) => {
+    getUserNotifications(context, userId).forEach(notification => markRead(notification, context.now));
+    return ok();
+  }),
+];
@@ -0,0 +1,109 @@
+import { BusinessError, NotFoundError, ValidationError } from '@core/errors/AppError';
+import type { CreatePaymentIntentRequest, PaymentHistory, RefundRequest } from '@features/profile/types';
+import { created, ok, paginate, route, MockContext, MockRoute } from '../router';
+import { getFullName, notify } from '../shapes';
+
+/**
+ * Payments
+ * Intents are recorded as pending payments. There is no card processor
+ * behind them, so confirming an intent always succeeds.
+ */
+
+const findUserPayment = (
+  { db }: MockContext,
+  userId: string,
+  matches: (payment: PaymentHistory) => boolean
+): PaymentHistory => {
+  const payment = db.tables.payments.find(item => item.user === userId && matches(item));
+  if (!payment) {
+    throw new NotFoundError('Payment not found');
+  }
+  return payment;
+};
+
+/**
+ * Settle the payer's share of a match's split venue cost
+ */
+const settleCostShare = (context: MockContext, matchId: string, userId: string, paymentIntentId: string) => {
+  const costSplit = context.db.tables.costSplits.find(split => split.matchId === matchId);
+  const share = costSplit?.shares.find(item => item.userId === userId);
+  if (!costSplit || !share) {
+    throw new NotFoundError('You have no share of this match to pay');
+  }
+
+  Object.assign(share, { status: 'paid', paymentIntentId, settledAt: context.now.toISOString() });
+  costSplit.updatedAt = context.now.toISOString();
+  notify(context, costSplit.payerId, {
+    type: 'match_update',
+    title: 'Share paid',
+    message: `${getFullName(context.db.getUser(userId))} paid their share of the venue`,
+    data: { matchId },
+  });
+};
+
+export const paymentRoutes: MockRoute[] = [
+  route('POST', '/payments/create-intent', ({ userId, body }, context) => {
+    const { db, now } = context;
+    const request = (body ?? {}) as CreatePaymentIntentRequest;
+    if (!Number.isInteger(request.amount) || request.amount <= 0) {
+      throw new ValidationError('Enter an amount to pay', { amount: ['Amount must be a positive whole number'] });
+    }
+
+    const booking = request.bookingId ? db.require(db.tables.bookings, request.bookingId, 'Booking') : undefined;
+    const tournament = request.tournamentId
+      ? db.require(db.tables.tournaments, request.tournamentId, 'Tournament')
+      : undefined;
+    const paymentIntentId = `pi_mock_${db.createId('intent').replace(/-/g, '_')}`;
+    db.tables.payments.unshift({
+      _id: db.createId('payment'),
+      user: userId,
+      amount: request.amount,
+      currency: request.currency,
+      status: 'pending',
+      paymentMethod: 'card',
+      booking: booking && { _id: booking._id, venue: { name: booking.venue.name } },
+      tournament: tournament && { _id: tournament._id, name: tournament.name },
+      stripePaymentIntentId: paymentIntentId,
+      createdAt: now.toISOString(),
+    });
+    return created({ clientSecret: `${paymentIntentId}_secret_mock`, paymentIntentId });
+  }),
+
+  route('GET', '/payments/history', ({ userId, query }, { db }) =>
+    ok(paginate(db.tables.payments.filter(payment => payment.user === userId), query))
+  ),
+
+  route('POST', '/payments/confirm', ({ userId, body }, context) => {
+    const { paymentIntentId, bookingId, matchId } = body ?? {};
+    const payment = findUserPayment(context, userId, item => item.stripePaymentIntentId === paymentIntentId);
+    payment.status = 'succeeded';
+    payment.updatedAt = context.now.toISOString();
+
+    if (bookingId) {
+      const booking = context.db.require(context.db.tables.bookings, bookingId, 'Booking');
+      booking.paymentStatus = 'paid';
+      if (booking.status === 'pending') {
+        booking.status = 'confirmed';
+      }
+    }
+    if (matchId) {
+      settleCostShare(context, matchId, userId, paymentIntentId);
+    }
+    return ok();
+  }),
+
+  route('POST', '/payments/refund', ({ userId, body }, context) => {
+    const { paymentId, paymentIntentId, amount, reason } = (body ?? {}) as RefundRequest;
+    const payment = findUserPayment(context, userId, item =>
+      paymentIntentId ? item.stripePaymentIntentId === paymentIntentId : item._id === paymentId
+    );
+    if (payment.status !== 'succeeded') {
+      throw new BusinessError('Only completed payments can be refunded');
+    }
+    if (amount !== undefined && amount > payment.amount) {
+      throw new ValidationError('Refunds cannot be more than the payment', { amount: ['Amount is too high'] });
+    }
+    Object.assign(payment, { status: 'refunded', refundReason: reason, updatedAt: context.now.toISOString() });
+    return ok();
+  }),
+];
@@ -0,0 +1,89 @@
+import { getMatchStart } from '@features/matches/utils';
+import type { Venue } from '@features/venues/types';
+import { getDistanceKm, getQueryOrigin, LatLng } from '../geo';
+import { ok, paginate, route, MockContext, MockRoute } from '../router';
+import { isParticipant } from './matchHelpers';
+import { queryMatches } from './matchRoutes';
+
+/**
+ * Recommendations
+ * Stand-ins for the server's ranking: upcoming public matches and venues in
+ * the user's sports come first, and players who share a sport.
+ */
+
+const DEFAULT_LIMIT = 10;
+
+/** Kilometres searched when a nearby query has no radius */
+const DEFAULT_RADIUS_KM = 25;
+
+const getLimit = (query: URLSearchParams) => Number(query.get('limit')) || DEFAULT_LIMIT;
+
+const getVenueDistanceKm = (venue: Venue, origin: LatLng): number | null => {
+  const [lng, lat] = venue.location.coordinates?.coordinates ?? [];
+  return lat !== undefined && lng !== undefined ? getDistanceKm(origin, { lat, lng }) : null;
+};
+
+const getUserSports = ({ db }: MockContext, userId: string): string[] => db.getUser(userId).profile?.sports ?? [];
+
+export const recommendationRoutes: MockRoute[] = [
+  route('GET', '/recommendations/matches', ({ userId, query }, context) => {
+    const sports = query.get('sport') ? [query.get('sport')!] : getUserSports(context, userId);
+    const matches = context.db.tables.matches
+      .filter(
+        match =>
+          match.type === 'public' &&
+          match.status === 'upcoming' &&
+          !isParticipant(match, userId) &&
+          getMatchStart(match) >= context.now
+      )
+      .sort((a, b) => Number(sports.includes(b.sport)) - Number(sports.includes(a.sport)));
+    return ok(matches.slice(0, getLimit(query)));
+  }),
+
+  route('GET', '/recommendations/venues', ({ userId, query }, context) => {
+    const sports = query.get('sport') ? [query.get('sport')!] : getUserSports(context, userId);
+    const matchesSport = (venue: Venue) => Number(venue.sports.some(sport => sports.includes(sport)));
+    const venues = context.db.tables.venues
+      .filter(venue => venue.status === 'active')
+      .sort((a, b) => matchesSport(b) - matchesSport(a) || (b.ratings?.average ?? 0) - (a.ratings?.average ?? 0));
+    return ok(venues.slice(0, getLimit(query)));
+  }),
+
+  route('GET', '/recommendations/players', ({ userId, query }, context) => {
+    const sports = getUserSports(context, userId);
+    const { friendships, users } = context.db.tables;
+    const friendIds = new Set(
+      friendships.flatMap(friendship =>
+        friendship.userId === userId ? [friendship.friendId] : friendship.friendId === userId ? [friendship.userId] : []
+      )
+    );
+    const players = users.filter(
+      user =>
+        user._id !== userId && !friendIds.has(user._id) && (user.profile?.sports ?? []).some(sport => sports.includes(sport))
+    );
+    return ok(players.slice(0, getLimit(query)));
+  }),
+
+  route('GET', '/matches/nearby', ({ userId, query }, context) => {
+    const nearbyQuery = new URLSearchParams(query.toString());
+    if (!nearbyQuery.has('radius')) nearbyQuery.set('radius', String(DEFAULT_RADIUS_KM));
+    if (!nearbyQuery.has('sort')) nearbyQuery.set('sort', 'distance');
+    return ok(paginate(queryMatches(context, userId, nearbyQuery, getQueryOrigin(query)), query));
+  }),
+
+  route('GET', '/venues/nearby', ({ query }, { db }) => {
+    const origin = getQueryOrigin(query);
+    const radius = Number(query.get('radius')) || DEFAULT_RADIUS_KM;
+    const sport = query.get('sport');
+    if (!origin) {
+      return ok([]);
+    }
+
+    const venues = db.tables.venues
+      .map(venue => ({ venue, distance: getVenueDistanceKm(venue, origin) }))
+      .filter(({ venue, distance }) => distance !== null && distance <= radius && (!sport || venue.sports.includes(sport)))
+      .sort((a, b) => a.distance! - b.distance!)
+      .map(({ venue }) => venue);
+    return ok(venues);
+  }),
+];
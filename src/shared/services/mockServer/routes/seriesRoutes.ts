@@ -0,0 +1,155 @@
+import { AuthorizationError, BusinessError, ValidationError } from '@core/errors/AppError';
+import type {
+  CreateMatchSeriesRequest,
+  MatchSeries,
+  UpdateMatchSeriesRequest,
+  UpdateOccurrenceRequest,
+} from '@features/matches/types';
+import { getSeriesOccurrences, toDateKey } from '@features/matches/utils';
+import { addDays } from 'date-fns';
+import { created, ok, route, MockContext, MockRoute } from '../router';
+import { toPersonRef } from '../shapes';
+import { addParticipant, createMatch, isParticipant, removeParticipant, saveMatch } from './matchHelpers';
+
+/** How far ahead the matches of a series exist */
+const SERIES_HORIZON_DAYS = 56;
+
+const findSeries = ({ db }: MockContext, id: string): MatchSeries => db.require(db.tables.series, id, 'Match series');
+
+const assertSeriesOrganizer = (series: MatchSeries, userId: string, action: string): void => {
+  if (series.organizer._id !== userId) {
+    throw new AuthorizationError(`Only the organizer can ${action}`);
+  }
+};
+
+/**
+ * Bring the series' matches from `from` onwards in line with its template,
+ * rule and overrides, as the real server does after every series change.
+ * Subscribers are put in each new occurrence while it has room.
+ */
+const syncSeriesMatches = (context: MockContext, series: MatchSeries, from: string = toDateKey(context.now)) => {
+  const { db, now } = context;
+  const to = toDateKey(addDays(now, SERIES_HORIZON_DAYS));
+  const occurrences = getSeriesOccurrences(series, from, to);
+  const seriesMatches = db.tables.matches.filter(match => match.series?._id === series._id);
+
+  occurrences.forEach(occurrence => {
+    const schedule = { ...series.template.schedule, date: occurrence.date, time: occurrence.time };
+    let match = seriesMatches.find(item => item.series!.occurrenceDate === occurrence.occurrenceDate);
+
+    if (!match) {
+      if (occurrence.isCancelled) {
+        return;
+      }
+      match = createMatch(context, series.organizer._id, { ...series.template, schedule }, {
+        series: { _id: series._id, occurrenceDate: occurrence.occurrenceDate },
+      });
+      series.subscribers
+        .filter(userId => !isParticipant(match!, userId) && match!.currentParticipants < match!.maxParticipants)
+        .forEach(userId => addParticipant(context, match!, userId));
+      return;
+    }
+
+    const { title, description, maxParticipants, rules, requirements } = series.template;
+    Object.assign(match, { title, description, maxParticipants, rules, requirements, schedule });
+    if (occurrence.isCancelled) {
+      match.status = 'cancelled';
+    } else if (match.status === 'cancelled') {
+      match.status = 'upcoming';
+    }
+    saveMatch(context, match);
+  });
+
+  // Occurrences a new rule no longer produces
+  const kept = new Set(occurrences.map(occurrence => occurrence.occurrenceDate));
+  seriesMatches
+    .filter(match => match.status === 'upcoming' && match.series!.occurrenceDate >= from && !kept.has(match.series!.occurrenceDate))
+    .forEach(match => db.remove(db.tables.matches, match._id));
+};
+
+const getUpcomingMatches = ({ db }: MockContext, series: MatchSeries) =>
+  db.tables.matches.filter(match => match.series?._id === series._id && match.status === 'upcoming');
+
+export const seriesRoutes: MockRoute[] = [
+  route('POST', '/match-series', ({ userId, body }, context) => {
+    const { template, recurrence } = (body ?? {}) as CreateMatchSeriesRequest;
+    if (!template?.schedule?.date || !recurrence?.frequency) {
+      throw new ValidationError('A series needs a first match and a repeat rule');
+    }
+
+    const organizer = context.db.getUser(userId);
+    const series: MatchSeries = {
+      _id: context.db.createId('series'),
+      template,
+      recurrence,
+      overrides: [],
+      subscribers: [userId],
+      organizer: toPersonRef(organizer),
+      createdAt: context.now.toISOString(),
+      updatedAt: context.now.toISOString(),
+    };
+    context.db.tables.series.push(series);
+    syncSeriesMatches(context, series, template.schedule.date);
+    return created({ series });
+  }),
+
+  route('GET', '/match-series/:id', ({ params }, context) => ok({ series: findSeries(context, params.id) })),
+
+  route('PATCH', '/match-series/:id', ({ userId, params, body }, context) => {
+    const series = findSeries(context, params.id);
+    assertSeriesOrganizer(series, userId, 'edit this series');
+
+    const { template, recurrence, effectiveFrom } = (body ?? {}) as UpdateMatchSeriesRequest;
+    series.template = {
+      ...series.template,
+      ...template,
+      schedule: { ...series.template.schedule, ...template?.schedule },
+    };
+    if (recurrence) {
+      // A new rule restarts the series from the date it takes effect
+      series.recurrence = recurrence;
+      series.template.schedule.date = effectiveFrom;
+      series.overrides = series.overrides.filter(override => override.occurrenceDate < effectiveFrom);
+    }
+    series.updatedAt = context.now.toISOString();
+    syncSeriesMatches(context, series, effectiveFrom);
+    return ok({ series });
+  }),
+
+  route('PATCH', '/match-series/:id/occurrences/:date', ({ userId, params, body }, context) => {
+    const series = findSeries(context, params.id);
+    assertSeriesOrganizer(series, userId, 'change occurrences of this series');
+
+    const override = { ...(body as UpdateOccurrenceRequest), occurrenceDate: params.date };
+    series.overrides = [...series.overrides.filter(item => item.occurrenceDate !== params.date), override];
+    series.updatedAt = context.now.toISOString();
+    syncSeriesMatches(context, series);
+    return ok({ series });
+  }),
+
+  route('POST', '/match-series/:id/subscribe', ({ userId, params }, context) => {
+    const series = findSeries(context, params.id);
+    if (!series.subscribers.includes(userId)) {
+      if (series.subscribers.length >= series.template.maxParticipants) {
+        throw new BusinessError('This series has no spots left to subscribe to');
+      }
+      series.subscribers.push(userId);
+      getUpcomingMatches(context, series)
+        .filter(match => !isParticipant(match, userId) && match.currentParticipants < match.maxParticipants)
+        .forEach(match => addParticipant(context, match, userId));
+    }
+    return ok({ series });
+  }),
+
+  route('DELETE', '/match-series/:id/subscribe', ({ userId, params }, context) => {
+    const series = findSeries(context, params.id);
+    if (series.organizer._id === userId) {
+      throw new BusinessError('The organizer cannot unsubscribe from their own series');
+    }
+    series.subscribers = series.subscribers.filter(id => id !== userId);
+    getUpcomingMatches(context, series)
+      .filter(match => isParticipant(match, userId))
+      .forEach(match => removeParticipant(context, match, userId));
+    return ok({ series });
+  }),
+];
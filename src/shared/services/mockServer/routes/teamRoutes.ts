@@ -0,0 +1,136 @@
+import { AuthorizationError, BusinessError, ValidationError } from '@core/errors/AppError';
+import type { CreateTeamRequest, Team, UpdateTeamRequest } from '@features/teams/types';
+import { created, ok, paginate, route, MockContext, MockRoute } from '../router';
+import { toProfileRef } from '../shapes';
+
+const DEFAULT_MAX_MEMBERS = 10;
+
+const findTeam = ({ db }: MockContext, id: string): Team => db.require(db.tables.teams, id, 'Team');
+
+const assertCaptain = (team: Team, userId: string, action: string): void => {
+  if (team.captain._id !== userId) {
+    throw new AuthorizationError(`Only the captain can ${action}`);
+  }
+};
+
+const isMember = (team: Team, userId: string) => team.members.some(member => member.user._id === userId);
+
+const saveTeam = ({ now }: MockContext, team: Team): Team => {
+  team.memberCount = team.members.length;
+  team.isFull = team.memberCount >= team.maxMembers;
+  team.updatedAt = now.toISOString();
+  return team;
+};
+
+const removeMember = (context: MockContext, team: Team, userId: string) => {
+  team.members = team.members.filter(member => member.user._id !== userId);
+  saveTeam(context, team);
+};
+
+export const teamRoutes: MockRoute[] = [
+  route('GET', '/teams', ({ query }, { db }) => {
+    const sport = query.get('sport');
+    const search = query.get('search')?.toLowerCase();
+    const teams = db.tables.teams.filter(
+      team =>
+        team.isActive &&
+        (!sport || team.sport === sport) &&
+        (!search || [team.name, team.description].some(value => value?.toLowerCase().includes(search)))
+    );
+    return ok(paginate(teams, query));
+  }),
+
+  route('GET', '/teams/my/teams', ({ userId }, { db }) =>
+    ok({ teams: db.tables.teams.filter(team => team.isActive && isMember(team, userId)) })
+  ),
+
+  route('GET', '/teams/:id', ({ params }, context) => ok({ team: findTeam(context, params.id) })),
+
+  route('POST', '/teams', ({ userId, body }, context) => {
+    const request = (body ?? {}) as CreateTeamRequest;
+    if (!request.name?.trim() || !request.sport) {
+      throw new ValidationError('Give the team a name and sport', {
+        ...(!request.name?.trim() && { name: ['Name is required'] }),
+        ...(!request.sport && { sport: ['Sport is required'] }),
+      });
+    }
+
+    const captain = toProfileRef(context.db.getUser(userId));
+    const team: Team = {
+      _id: context.db.createId('team'),
+      name: request.name.trim(),
+      description: request.description,
+      sport: request.sport,
+      captain,
+      members: [{ user: captain, role: 'captain', joinedAt: context.now.toISOString() }],
+      memberCount: 1,
+      maxMembers: request.maxMembers ?? DEFAULT_MAX_MEMBERS,
+      isFull: false,
+      isActive: true,
+      createdAt: context.now.toISOString(),
+    };
+    context.db.tables.teams.push(saveTeam(context, team));
+    return created({ team });
+  }),
+
+  route('PATCH', '/teams/:id', ({ userId, params, body }, context) => {
+    const team = findTeam(context, params.id);
+    assertCaptain(team, userId, 'edit the team');
+    const { name, description, sport, maxMembers } = (body ?? {}) as UpdateTeamRequest;
+    if (maxMembers !== undefined && maxMembers < team.members.length) {
+      throw new BusinessError('The team already has more members than that');
+    }
+    Object.assign(team, {
+      name: name ?? team.name,
+      description: description ?? team.description,
+      sport: sport ?? team.sport,
+      maxMembers: maxMembers ?? team.maxMembers,
+    });
+    return ok({ team: saveTeam(context, team) });
+  }),
+
+  route('DELETE', '/teams/:id', ({ userId, params }, context) => {
+    const team = findTeam(context, params.id);
+    assertCaptain(team, userId, 'delete the team');
+    context.db.remove(context.db.tables.teams, team._id);
+    return ok();
+  }),
+
+  route('POST', '/teams/:id/join', ({ userId, params }, context) => {
+    const team = findTeam(context, params.id);
+    if (isMember(team, userId)) {
+      throw new BusinessError('You are already on this team');
+    }
+    if (team.members.length >= team.maxMembers) {
+      throw new BusinessError('This team is full');
+    }
+    team.members.push({
+      user: toProfileRef(context.db.getUser(userId)),
+      role: 'member',
+      joinedAt: context.now.toISOString(),
+    });
+    return ok({ team: saveTeam(context, team) });
+  }),
+
+  route('POST', '/teams/:id/leave', ({ userId, params }, context) => {
+    const team = findTeam(context, params.id);
+    if (team.captain._id === userId) {
+      throw new BusinessError('The captain cannot leave the team');
+    }
+    if (!isMember(team, userId)) {
+      throw new BusinessError('You are not on this team');
+    }
+    removeMember(context, team, userId);
+    return ok();
+  }),
+
+  route('DELETE', '/teams/:teamId/members/:userId', ({ userId, params }, context) => {
+    const team = findTeam(context, params.teamId);
+    assertCaptain(team, userId, 'remove members');
+    if (params.userId === userId) {
+      throw new BusinessError('The captain cannot remove themselves');
+    }
+    removeMember(context, team, params.userId);
+    return ok();
+  }),
+];
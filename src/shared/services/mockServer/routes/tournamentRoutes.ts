@@ -0,0 +1,218 @@
+import { AuthorizationError, NotFoundError, ValidationError } from '@core/errors/AppError';
+import {
+  assertCanCreate,
+  assertCanJoin,
+  assertCanLeave,
+  assertCanPairRound,
+  assertCanRegisterTeam,
+  assertCanStart,
+} from '@features/tournaments/services/tournamentRules';
+import type {
+  CreateTournamentRequest,
+  MatchScheduleEntry,
+  ParticipantSeed,
+  RegisterTeamRequest,
+  Tournament,
+} from '@features/tournaments/types';
+import {
+  addSwissRound,
+  calculateStandings,
+  generateBracket,
+  getStandingsOptions,
+  getSwissRoundCount,
+} from '@features/tournaments/utils';
+import { created, ok, paginate, route, MockContext, MockRoute } from '../router';
+import { toPersonRef, toTournamentParticipant } from '../shapes';
+
+const findTournament = ({ db }: MockContext, id: string): Tournament =>
+  db.require(db.tables.tournaments, id, 'Tournament');
+
+const assertTournamentOrganizer = (tournament: Tournament, userId: string, action: string): void => {
+  if (tournament.organizer._id !== userId) {
+    throw new AuthorizationError(`Only the organizer can ${action}`);
+  }
+};
+
+const tournamentRoom = (tournament: Tournament) => ({ room: { type: 'tournament' as const, id: tournament._id } });
+
+const saveTournament = (context: MockContext, tournament: Tournament): Tournament => {
+  tournament.currentParticipants = tournament.participants.length;
+  tournament.updatedAt = context.now.toISOString();
+  context.emit('tournament_updated', tournament, tournamentRoom(tournament));
+  return tournament;
+};
+
+const toTournamentVenue = ({ db }: MockContext, venueId: string): Tournament['venue'] => {
+  const venue = db.require(db.tables.venues, venueId, 'Venue');
+  return { _id: venue._id, name: venue.name, location: { address: venue.location.address } };
+};
+
+const getStandings = (tournament: Tournament) => {
+  if (!tournament.bracket) {
+    return [];
+  }
+  return calculateStandings(tournament.bracket, tournament.participants, getStandingsOptions(tournament));
+};
+
+export const tournamentRoutes: MockRoute[] = [
+  route('GET', '/tournaments', ({ query }, { db }) => {
+    const sport = query.get('sport');
+    const teamId = query.get('teamId');
+    const tournaments = db.tables.tournaments.filter(
+      tournament =>
+        (!sport || tournament.sport === sport) &&
+        (!teamId || tournament.participants.some(participant => participant._id === teamId))
+    );
+    return ok(paginate(tournaments, query));
+  }),
+
+  route('GET', '/tournaments/:id', ({ params }, context) => ok({ tournament: findTournament(context, params.id) })),
+
+  route('POST', '/tournaments', ({ userId, body }, context) => {
+    const { venueId, ...request } = (body ?? {}) as CreateTournamentRequest;
+    assertCanCreate(request);
+
+    const tournament: Tournament = {
+      ...request,
+      _id: context.db.createId('tournament'),
+      type: 'elimination',
+      venue: venueId ? toTournamentVenue(context, venueId) : undefined,
+      participants: [],
+      currentParticipants: 0,
+      status: 'registration_open',
+      organizer: toPersonRef(context.db.getUser(userId)),
+      createdAt: context.now.toISOString(),
+    };
+    context.db.tables.tournaments.push(tournament);
+    return created({ tournament });
+  }),
+
+  route('PATCH', '/tournaments/:id', ({ userId, params, body }, context) => {
+    const tournament = findTournament(context, params.id);
+    assertTournamentOrganizer(tournament, userId, 'edit this tournament');
+
+    const { venueId, ...changes } = (body ?? {}) as Partial<CreateTournamentRequest>;
+    assertCanCreate({ ...tournament, ...changes });
+    Object.assign(tournament, changes);
+    if (venueId) {
+      tournament.venue = toTournamentVenue(context, venueId);
+    }
+    return ok({ tournament: saveTournament(context, tournament) });
+  }),
+
+  route('DELETE', '/tournaments/:id', ({ userId, params }, context) => {
+    const tournament = findTournament(context, params.id);
+    assertTournamentOrganizer(tournament, userId, 'delete this tournament');
+    context.db.remove(context.db.tables.tournaments, tournament._id);
+    return ok();
+  }),
+
+  route('POST', '/tournaments/:id/join', ({ userId, params, body }, context) => {
+    const tournament = findTournament(context, params.id);
+    const entryFeePaymentId = body?.paymentIntentId;
+    assertCanJoin(tournament, { userId, entryFeePaymentId }, context.now);
+
+    tournament.participants.push({
+      ...toTournamentParticipant(context.db.getUser(userId), context.now.toISOString()),
+      entryFeePaymentId,
+    });
+    return ok({ tournament: saveTournament(context, tournament) });
+  }),
+
+  route('POST', '/tournaments/:id/teams', ({ userId, params, body }, context) => {
+    const tournament = findTournament(context, params.id);
+    const { teamId, roster = [], paymentIntentId } = (body ?? {}) as RegisterTeamRequest;
+    const team = context.db.require(context.db.tables.teams, teamId, 'Team');
+    assertCanRegisterTeam(tournament, team, roster, { userId, entryFeePaymentId: paymentIntentId }, context.now);
+
+    tournament.participants.push({
+      _id: team._id,
+      firstName: team.name,
+      lastName: '',
+      joinedAt: context.now.toISOString(),
+      entryFeePaymentId: paymentIntentId,
+      team: { _id: team._id, name: team.name, avatar: team.avatar, captainId: team.captain._id, roster },
+    });
+    return ok({ tournament: saveTournament(context, tournament) });
+  }),
+
+  route('POST', '/tournaments/:id/leave', ({ userId, params }, context) => {
+    const tournament = findTournament(context, params.id);
+    // The app requests the entry fee refund itself, through /payments/refund
+    const participant = assertCanLeave(tournament, userId);
+    tournament.participants = tournament.participants.filter(entry => entry !== participant);
+    saveTournament(context, tournament);
+    return ok();
+  }),
+
+  route('POST', '/tournaments/:id/start', ({ userId, params }, context) => {
+    const tournament = findTournament(context, params.id);
+    assertTournamentOrganizer(tournament, userId, 'start this tournament');
+    assertCanStart(tournament);
+
+    tournament.bracket = generateBracket(tournament.format, tournament.participants);
+    tournament.status = 'in_progress';
+    tournament.standings = getStandings(tournament);
+    context.emit(
+      'tournament_started',
+      { tournamentId: tournament._id, startTime: context.now.toISOString() },
+      tournamentRoom(tournament)
+    );
+    return ok({ tournament: saveTournament(context, tournament) });
+  }),
+
+  route('POST', '/tournaments/:id/rounds', ({ userId, params }, context) => {
+    const tournament = findTournament(context, params.id);
+    assertTournamentOrganizer(tournament, userId, 'pair rounds');
+    assertCanPairRound(tournament);
+
+    tournament.bracket = addSwissRound(tournament.bracket!, tournament.participants, getSwissRoundCount(tournament));
+    tournament.standings = getStandings(tournament);
+    saveTournament(context, tournament);
+    return ok({ bracket: tournament.bracket });
+  }),
+
+  route('PATCH', '/tournaments/:id/seeds', ({ userId, params, body }, context) => {
+    const tournament = findTournament(context, params.id);
+    assertTournamentOrganizer(tournament, userId, 'seed this tournament');
+    const seeds = new Map(((body?.seeds ?? []) as ParticipantSeed[]).map(item => [item.participantId, item.seed]));
+    tournament.participants.forEach(participant => {
+      participant.seed = seeds.get(participant._id);
+    });
+    return ok({ tournament: saveTournament(context, tournament) });
+  }),
+
+  route('GET', '/tournaments/:id/bracket', ({ params }, context) => {
+    const tournament = findTournament(context, params.id);
+    if (!tournament.bracket) {
+      throw new NotFoundError('The bracket is drawn when the tournament starts');
+    }
+    return ok({ bracket: tournament.bracket });
+  }),
+
+  route('PUT', '/tournaments/:id/schedule', ({ userId, params, body }, context) => {
+    const tournament = findTournament(context, params.id);
+    assertTournamentOrganizer(tournament, userId, 'schedule matches');
+    const bracket = tournament.bracket;
+    if (!bracket) {
+      throw new NotFoundError('The bracket is drawn when the tournament starts');
+    }
+
+    const bracketMatches = new Map(bracket.rounds.flatMap(round => round.matches).map(match => [match.matchId, match]));
+    ((body?.matches ?? []) as MatchScheduleEntry[]).forEach(entry => {
+      const match = bracketMatches.get(entry.matchId);
+      if (!match) {
+        throw new ValidationError('The schedule includes a match that is not in the bracket', {
+          matches: [`Unknown match ${entry.matchId}`],
+        });
+      }
+      Object.assign(match, { scheduledAt: entry.scheduledAt, court: entry.court, bookingId: entry.bookingId });
+    });
+    saveTournament(context, tournament);
+    return ok({ bracket });
+  }),
+
+  route('GET', '/tournaments/:id/standings', ({ params }, context) =>
+    ok(getStandings(findTournament(context, params.id)))
+  ),
+];
@@ -0,0 +1,219 @@
+import { AppError, AuthenticationError, ValidationError } from '@core/errors/AppError';
+import type { RegisterRequest, User } from '@features/auth/types';
+import { GLICKO2_DEFAULTS } from '@features/ratings/utils';
+import { MOCK_USER_ID } from '../seed';
+import { ok, paginate, route, created, MockRoute, MockContext } from '../router';
+
+const ACCESS_TOKEN_PREFIX = 'mock-access.';
+const REFRESH_TOKEN_PREFIX = 'mock-refresh.';
+
+/**
+ * The user a mock access token was issued to
+ */
+export const getTokenUserId = (authorization: string | null | undefined): string | null => {
+  const token = authorization?.replace(/^Bearer /, '');
+  return token?.startsWith(ACCESS_TOKEN_PREFIX) ? token.slice(ACCESS_TOKEN_PREFIX.length) : null;
+};
+
+const issueTokens = (userId: string) => ({
+  accessToken: `${ACCESS_TOKEN_PREFIX}${userId}`,
+  refreshToken: `${REFRESH_TOKEN_PREFIX}${userId}`,
+});
+
+const signIn = (user: User) => ok({ user, ...issueTokens(user._id) });
+
+const isFriend = ({ db }: MockContext, userId: string, otherId: string) =>
+  db.tables.friendships.find(
+    friendship =>
+      (friendship.userId === userId && friendship.friendId === otherId) ||
+      (friendship.userId === otherId && friendship.friendId === userId)
+  );
+
+const updateProfile = ({ db, now }: MockContext, userId: string, changes: Partial<User>): User => {
+  const user = db.getUser(userId);
+  Object.assign(user, changes, {
+    _id: user._id,
+    email: user.email,
+    profile: { ...user.profile, ...changes.profile },
+    updatedAt: now.toISOString(),
+  });
+  return user;
+};
+
+const REQUIRED_REGISTER_FIELDS: (keyof RegisterRequest)[] = ['email', 'password', 'firstName', 'lastName', 'username'];
+
+export const userRoutes: MockRoute[] = [
+  route(
+    'POST',
+    '/auth/login',
+    ({ body }, { db }) => {
+      const user = db.tables.users.find(({ email }) => email.toLowerCase() === String(body?.email).toLowerCase());
+      if (!user || db.tables.passwords[user._id] !== body?.password) {
+        throw new AuthenticationError('Invalid email or password');
+      }
+      return signIn(user);
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/register',
+    ({ body }, { db, now }) => {
+      const request = (body ?? {}) as RegisterRequest;
+      const missing = REQUIRED_REGISTER_FIELDS.filter(field => !request[field]);
+      if (missing.length > 0) {
+        throw new ValidationError(
+          'Please fill in every field',
+          Object.fromEntries(missing.map(field => [field, [`${field} is required`]]))
+        );
+      }
+      if (db.tables.users.some(({ email }) => email.toLowerCase() === request.email.toLowerCase())) {
+        throw new AppError('An account with this email already exists', 'CONFLICT', 409);
+      }
+
+      const user: User = {
+        _id: db.createId('user'),
+        email: request.email,
+        firstName: request.firstName,
+        lastName: request.lastName,
+        username: request.username,
+        isVerified: false,
+        role: 'user',
+        profile: { firstName: request.firstName, lastName: request.lastName, ...request.profile },
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      db.tables.users.push(user);
+      db.tables.passwords[user._id] = request.password;
+      return signIn(user);
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/refresh',
+    ({ body }, { db }) => {
+      const token = String(body?.refreshToken ?? '');
+      const userId = token.startsWith(REFRESH_TOKEN_PREFIX) ? token.slice(REFRESH_TOKEN_PREFIX.length) : '';
+      if (!db.tables.users.some(({ _id }) => _id === userId)) {
+        throw new AuthenticationError('Invalid refresh token');
+      }
+      return ok(issueTokens(userId));
+    },
+    { isPublic: true }
+  ),
+
+  // Social sign-in has no provider to check with, so it signs in the demo user
+  ...(['/auth/google', '/auth/apple', '/auth/facebook'] as const).map(path =>
+    route('POST', path, (_request, { db }) => signIn(db.getUser(MOCK_USER_ID)), { isPublic: true })
+  ),
+
+  route('GET', '/auth/profile', ({ userId }, { db }) => ok({ user: db.getUser(userId) })),
+
+  route('POST', '/auth/change-password', ({ userId, body }, { db }) => {
+    if (db.tables.passwords[userId] !== body?.currentPassword) {
+      throw new ValidationError('Current password is incorrect', {
+        currentPassword: ['Current password is incorrect'],
+      });
+    }
+    db.tables.passwords[userId] = body.newPassword;
+    return ok();
+  }),
+
+  // The auth and user APIs expect different envelopes for the same update
+  route('PUT', '/users/profile', ({ userId, body }, context) => ok(updateProfile(context, userId, body))),
+  route('PATCH', '/users/profile', ({ userId, body }, context) => ok({ user: updateProfile(context, userId, body) })),
+
+  route('GET', '/users', ({ userId, query }, { db }) => {
+    const search = query.get('search')?.toLowerCase();
+    const sport = query.get('sport');
+    const skillLevel = query.get('skillLevel');
+    const location = query.get('location')?.toLowerCase();
+
+    const users = db.tables.users.filter(
+      user =>
+        user._id !== userId &&
+        (!search ||
+          [user.firstName, user.lastName, user.username].some(value => value.toLowerCase().includes(search))) &&
+        (!sport || user.profile?.sports?.includes(sport)) &&
+        (!skillLevel || user.profile?.skillLevel === skillLevel) &&
+        (!location || user.profile?.location?.toLowerCase().includes(location))
+    );
+    return ok(paginate(users, query));
+  }),
+
+  route('GET', '/users/friends', ({ userId }, context) =>
+    ok(
+      context.db.tables.users.filter(user => user._id !== userId && isFriend(context, userId, user._id))
+    )
+  ),
+
+  route('GET', '/users/:id', ({ userId, params }, context) => {
+    const user = context.db.getUser(params.id);
+    const friendship = isFriend(context, userId, user._id);
+    return ok({ user, relationship: { isFriend: !!friendship, friendshipDate: friendship?.since } });
+  }),
+
+  route('POST', '/users/:id/friend', ({ userId, params }, context) => {
+    context.db.getUser(params.id);
+    if (params.id === userId) {
+      throw new ValidationError('You cannot add yourself as a friend');
+    }
+    if (!isFriend(context, userId, params.id)) {
+      context.db.tables.friendships.push({ userId, friendId: params.id, since: context.now.toISOString() });
+    }
+    return created(undefined);
+  }),
+
+  route('DELETE', '/users/:id/friend', ({ userId, params }, context) => {
+    const friendship = isFriend(context, userId, params.id);
+    context.db.tables.friendships = context.db.tables.friendships.filter(item => item !== friendship);
+    return ok();
+  }),
+
+  route('GET', '/users/:id/stats', ({ params }, { db }) => {
+    const statistics = db.getUser(params.id).profile?.statistics ?? {
+      matchesPlayed: 0,
+      matchesWon: 0,
+      tournamentsJoined: 0,
+      tournamentsWon: 0,
+    };
+    const winRate = statistics.matchesPlayed > 0 ? statistics.matchesWon / statistics.matchesPlayed : 0;
+    return ok({ ...statistics, winRate: Math.round(winRate * 100) });
+  }),
+
+  route('GET', '/users/:id/achievements', ({ params }, { db }) =>
+    ok(db.getUser(params.id).profile?.achievements ?? [])
+  ),
+
+  route('GET', '/users/:id/ratings', ({ params }, { db }) =>
+    ok({ ratings: db.tables.ratings.filter(rating => rating.userId === params.id) })
+  ),
+
+  route('GET', '/users/:id/ratings/:sport/history', ({ params }, { db }) =>
+    ok({
+      history: db.tables.ratingHistory
+        .filter(entry => entry.userId === params.id && entry.sport === params.sport)
+        .map(({ userId: _userId, sport: _sport, ...entry }) => entry),
+    })
+  ),
+
+  // Players without a rating in the sport get the starting rating
+  route('GET', '/ratings/:sport', ({ params, query }, { db, now }) => {
+    const userIds = (query.get('userIds') ?? '').split(',').filter(Boolean);
+    return ok({
+      ratings: userIds.map(
+        userId =>
+          db.tables.ratings.find(rating => rating.userId === userId && rating.sport === params.sport) ?? {
+            ...GLICKO2_DEFAULTS,
+            userId,
+            sport: params.sport,
+            gamesRated: 0,
+            updatedAt: now.toISOString(),
+          }
+      ),
+    });
+  }),
+];
@@ -0,0 +1,276 @@
+import { AppError, AuthorizationError, BusinessError, ValidationError } from '@core/errors/AppError';
+import type { Booking, CheckAvailabilityResponse, CreateBookingRequest, Venue } from '@features/venues/types';
+import { created, ok, paginate, route, MockContext, MockRoute } from '../router';
+import { notify, toProfileRef } from '../shapes';
+import { findMatch } from './matchHelpers';
+
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+/** Suggestions offered when the asked-for slot is taken */
+const MAX_SUGGESTED_SLOTS = 3;
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const findVenue = ({ db }: MockContext, id: string): Venue => db.require(db.tables.venues, id, 'Venue');
+
+const findBooking = ({ db }: MockContext, id: string, userId: string): Booking => {
+  const booking = db.require(db.tables.bookings, id, 'Booking');
+  if (booking.user._id !== userId) {
+    throw new AuthorizationError('This booking belongs to another player');
+  }
+  return booking;
+};
+
+/**
+ * Bookings overlapping the slot. A booking for one court only clashes with
+ * that court and with bookings for the whole venue.
+ */
+const getConflicts = (
+  { db }: MockContext,
+  venueId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  ignoreId?: string,
+  court?: number
+): Booking[] =>
+  db.tables.bookings.filter(
+    booking =>
+      booking._id !== ignoreId &&
+      booking.venue._id === venueId &&
+      booking.date.startsWith(date) &&
+      booking.status !== 'cancelled' &&
+      (court === undefined || booking.court === undefined || booking.court === court) &&
+      toMinutes(booking.startTime) < toMinutes(endTime) &&
+      toMinutes(booking.endTime) > toMinutes(startTime)
+  );
+
+/**
+ * Free slots of the same length starting where each conflict ends, within
+ * the venue's opening hours
+ */
+const getSuggestedSlots = (
+  context: MockContext,
+  venue: Venue,
+  date: string,
+  startTime: string,
+  endTime: string,
+  conflicts: Booking[]
+): CheckAvailabilityResponse['suggestedSlots'] => {
+  const length = toMinutes(endTime) - toMinutes(startTime);
+  const closesAt = toMinutes(venue.operatingHours?.[0]?.close ?? '22:00');
+
+  return conflicts
+    .map(booking => toMinutes(booking.endTime))
+    .sort((a, b) => a - b)
+    .map(start => ({ startTime: toTime(start), endTime: toTime(start + length) }))
+    .filter(
+      slot =>
+        toMinutes(slot.endTime) <= closesAt &&
+        getConflicts(context, venue._id, date, slot.startTime, slot.endTime).length === 0
+    )
+    .slice(0, MAX_SUGGESTED_SLOTS);
+};
+
+/**
+ * A pending booking, priced from the venue's hourly rate for the sport.
+ * Throws for bad times and slots already taken.
+ */
+const createBooking = (context: MockContext, userId: string, request: CreateBookingRequest): Booking => {
+  const { db, now } = context;
+  const venue = findVenue(context, request.venueId);
+  if (!TIME_PATTERN.test(request.startTime ?? '') || !TIME_PATTERN.test(request.endTime ?? '')) {
+    throw new ValidationError('Pick a start and end time', { startTime: ['Times are HH:mm'] });
+  }
+  const duration = toMinutes(request.endTime) - toMinutes(request.startTime);
+  if (duration <= 0) {
+    throw new ValidationError('The booking must end after it starts', { endTime: ['End time is before start time'] });
+  }
+  if (
+    getConflicts(context, venue._id, request.date, request.startTime, request.endTime, undefined, request.court)
+      .length > 0
+  ) {
+    throw new AppError('This time is already booked', 'CONFLICT', 409, {
+      venueId: venue._id,
+      date: request.date,
+      startTime: request.startTime,
+      court: request.court,
+    });
+  }
+
+  const pricing = venue.pricing?.find(item => item.sport === request.sport) ?? venue.pricing?.[0];
+  const baseRate = pricing?.pricePerHour ?? 0;
+  const booking: Booking = {
+    _id: db.createId('booking'),
+    venue: { _id: venue._id, name: venue.name, location: { address: venue.location.address } },
+    user: toProfileRef(db.getUser(userId)),
+    sport: request.sport,
+    date: request.date,
+    startTime: request.startTime,
+    endTime: request.endTime,
+    duration,
+    participants: request.participants,
+    court: request.court,
+    matchId: request.matchId,
+    notes: request.notes,
+    pricing: { baseRate, totalCost: (baseRate * duration) / 60, currency: pricing?.currency ?? 'USD' },
+    status: 'pending',
+    paymentStatus: 'pending',
+    createdAt: now.toISOString(),
+  };
+
+  if (request.matchId) {
+    findMatch(context, request.matchId).bookingId = booking._id;
+  }
+  return booking;
+};
+
+const setBookingStatus = (context: MockContext, booking: Booking, status: Booking['status']) => {
+  booking.status = status;
+  booking.updatedAt = context.now.toISOString();
+  return ok({ booking });
+};
+
+export const venueRoutes: MockRoute[] = [
+  route('GET', '/venues', ({ query }, { db }) => {
+    const sport = query.get('sport');
+    const city = query.get('city')?.toLowerCase();
+    const search = query.get('search')?.toLowerCase();
+    const venues = db.tables.venues.filter(
+      venue =>
+        (!sport || venue.sports.includes(sport)) &&
+        (!city || venue.location.city.toLowerCase().includes(city)) &&
+        (!search || [venue.name, venue.description].some(value => value?.toLowerCase().includes(search)))
+    );
+    return ok(paginate(venues, query));
+  }),
+
+  route('GET', '/venues/:id', ({ params }, context) => ok({ venue: findVenue(context, params.id) })),
+
+  route('GET', '/venues/:id/availability', ({ params, query }, context) => {
+    const venue = findVenue(context, params.id);
+    const date = query.get('date') ?? '';
+    const startTime = query.get('startTime') ?? '';
+    const endTime = query.get('endTime') ?? '';
+    const conflicts = getConflicts(context, venue._id, date, startTime, endTime);
+
+    const availability: CheckAvailabilityResponse = {
+      available: conflicts.length === 0,
+      conflictingBookings: conflicts.map(({ _id, startTime: start, endTime: end }) => ({
+        _id,
+        startTime: start,
+        endTime: end,
+      })),
+      suggestedSlots: conflicts.length > 0 ? getSuggestedSlots(context, venue, date, startTime, endTime, conflicts) : [],
+    };
+    return ok(availability);
+  }),
+
+  route('POST', '/bookings', ({ userId, body }, context) => {
+    const booking = createBooking(context, userId, body as CreateBookingRequest);
+    context.db.tables.bookings.push(booking);
+    notify(context, userId, {
+      type: 'booking_confirmation',
+      title: 'Booking received',
+      message: `${booking.venue.name} on ${booking.date} at ${booking.startTime}`,
+      data: { bookingId: booking._id },
+    });
+    return created({ booking });
+  }),
+
+  // All or nothing: one slot already taken fails the whole batch
+  route('POST', '/bookings/batch', ({ userId, body }, context) => {
+    const requests = (body?.bookings ?? []) as CreateBookingRequest[];
+    const bookings: Booking[] = [];
+    try {
+      requests.forEach(request => {
+        const booking = createBooking(context, userId, request);
+        // Saved as it goes so later slots in the batch conflict with earlier ones
+        context.db.tables.bookings.push(booking);
+        bookings.push(booking);
+      });
+    } catch (error) {
+      bookings.forEach(booking => context.db.remove(context.db.tables.bookings, booking._id));
+      throw error;
+    }
+    return created({ bookings });
+  }),
+
+  route('GET', '/bookings', ({ userId, query }, { db }) => {
+    const status = query.get('status');
+    const bookings = db.tables.bookings.filter(
+      booking => booking.user._id === userId && (!status || booking.status === status)
+    );
+    return ok(paginate(bookings, query));
+  }),
+
+  route('GET', '/bookings/:id', ({ userId, params }, context) => ok({ booking: findBooking(context, params.id, userId) })),
+
+  route('PATCH', '/bookings/:id', ({ userId, params, body }, context) => {
+    const booking = findBooking(context, params.id, userId);
+    if (booking.status === 'cancelled' || booking.status === 'completed') {
+      throw new BusinessError('This booking can no longer be changed');
+    }
+
+    const changes = (body ?? {}) as Partial<CreateBookingRequest>;
+    const startTime = changes.startTime ?? booking.startTime;
+    const endTime = changes.endTime ?? booking.endTime;
+    const date = changes.date ?? booking.date;
+    if (getConflicts(context, booking.venue._id, date, startTime, endTime, booking._id, booking.court).length > 0) {
+      throw new AppError('This time is already booked', 'CONFLICT', 409);
+    }
+
+    const duration = toMinutes(endTime) - toMinutes(startTime);
+    Object.assign(booking, {
+      date,
+      startTime,
+      endTime,
+      duration,
+      participants: changes.participants ?? booking.participants,
+      notes: changes.notes ?? booking.notes,
+      pricing: { ...booking.pricing, totalCost: (booking.pricing.baseRate * duration) / 60 },
+      updatedAt: context.now.toISOString(),
+    });
+    return ok({ booking });
+  }),
+
+  route('POST', '/bookings/:id/cancel', ({ userId, params }, context) => {
+    const booking = findBooking(context, params.id, userId);
+    if (booking.status === 'completed') {
+      throw new BusinessError('Completed bookings cannot be cancelled');
+    }
+    if (booking.paymentStatus === 'paid') {
+      booking.paymentStatus = 'refunded';
+    }
+    return setBookingStatus(context, booking, 'cancelled');
+  }),
+
+  route('POST', '/bookings/:id/confirm', ({ userId, params }, context) => {
+    const booking = findBooking(context, params.id, userId);
+    if (booking.status !== 'pending') {
+      throw new BusinessError('Only pending bookings can be confirmed');
+    }
+    return setBookingStatus(context, booking, 'confirmed');
+  }),
+
+  route('POST', '/bookings/:id/check-in', ({ userId, params }, context) => {
+    const booking = findBooking(context, params.id, userId);
+    if (booking.status !== 'confirmed') {
+      throw new BusinessError('Only confirmed bookings can be checked in');
+    }
+    booking.checkInTime = context.now.toISOString();
+    return ok({ booking });
+  }),
+
+  route('POST', '/bookings/:id/check-out', ({ userId, params }, context) => {
+    const booking = findBooking(context, params.id, userId);
+    if (!booking.checkInTime) {
+      throw new BusinessError('Check in before checking out');
+    }
+    booking.checkOutTime = context.now.toISOString();
+    return setBookingStatus(context, booking, 'completed');
+  }),
+];
@@ -0,0 +1,128 @@
+import { AuthorizationError, BusinessError, NotFoundError } from '@core/errors/AppError';
+import type { Match, UpdateWaitlistRequest, WaitlistEntry } from '@features/matches/types';
+import { hasActiveOffer, isMatchFull, isWaitlistFull } from '@features/matches/utils';
+import { ok, route, MockContext, MockRoute } from '../router';
+import { notify, toSender } from '../shapes';
+import {
+  assertOrganizer,
+  findMatch,
+  getMatchWaitlist,
+  isParticipant,
+  joinMatch,
+  offerOpenSpots,
+} from './matchHelpers';
+
+/**
+ * The match's waitlist with lapsed offers dropped, and the spots they held
+ * offered to the next in line
+ */
+const refreshWaitlist = (context: MockContext, match: Match) => {
+  const waitlist = getMatchWaitlist(context, match._id);
+  waitlist.entries = waitlist.entries.filter(
+    entry => entry.status === 'waiting' || hasActiveOffer(entry, context.now)
+  );
+  offerOpenSpots(context, match);
+  return waitlist;
+};
+
+export const waitlistRoutes: MockRoute[] = [
+  route('GET', '/matches/:id/waitlist', ({ params }, context) =>
+    ok({ waitlist: refreshWaitlist(context, findMatch(context, params.id)) })
+  ),
+
+  route('POST', '/matches/:id/waitlist', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    const waitlist = refreshWaitlist(context, match);
+    if (isParticipant(match, userId)) {
+      throw new BusinessError('You are already in this match');
+    }
+    if (!isMatchFull(match)) {
+      throw new BusinessError('This match has open spots, join it instead');
+    }
+    if (waitlist.entries.some(entry => entry.user._id === userId)) {
+      throw new BusinessError('You are already on the waitlist');
+    }
+    if (isWaitlistFull(waitlist)) {
+      throw new BusinessError('The waitlist for this match is full');
+    }
+
+    const entry: WaitlistEntry = {
+      _id: context.db.createId('waitlist'),
+      user: toSender(context.db.getUser(userId)),
+      status: 'waiting',
+      joinedAt: context.now.toISOString(),
+    };
+    waitlist.entries.push(entry);
+    return ok({ waitlist });
+  }),
+
+  // Leaving with an offer in hand frees the held spot for the next player
+  route('DELETE', '/matches/:id/waitlist', ({ userId, params }, context) => {
+    const match = findMatch(context, params.id);
+    const waitlist = getMatchWaitlist(context, match._id);
+    waitlist.entries = waitlist.entries.filter(entry => entry.user._id !== userId);
+    offerOpenSpots(context, match);
+    return ok();
+  }),
+
+  route('PATCH', '/matches/:id/waitlist', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'manage the waitlist');
+    const waitlist = refreshWaitlist(context, match);
+    const { order, maxLength } = (body ?? {}) as UpdateWaitlistRequest;
+
+    if (order) {
+      const offered = waitlist.entries.filter(entry => entry.status === 'offered');
+      const waiting = waitlist.entries.filter(entry => entry.status === 'waiting');
+      const position = (entry: WaitlistEntry) => {
+        const index = order.indexOf(entry._id);
+        return index === -1 ? order.length : index;
+      };
+      waitlist.entries = [...offered, ...waiting.sort((a, b) => position(a) - position(b))];
+    }
+    if (maxLength !== undefined) {
+      waitlist.maxLength = maxLength ?? undefined;
+    }
+    return ok({ waitlist });
+  }),
+
+  route('POST', '/matches/:id/waitlist/:entryId/offer', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    assertOrganizer(match, userId, 'offer spots');
+    const waitlist = refreshWaitlist(context, match);
+    const entry = waitlist.entries.find(item => item._id === params.entryId);
+    if (!entry) {
+      throw new NotFoundError('This player is no longer on the waitlist');
+    }
+
+    entry.status = 'offered';
+    entry.offerExpiresAt = body?.expiresAt;
+    notify(context, entry.user._id, {
+      type: 'waitlist_promotion',
+      title: 'You have been offered a spot',
+      message: `Confirm your spot in ${match.title} before the offer expires`,
+      data: { matchId: match._id, matchTitle: match.title },
+    });
+    return ok({ waitlist });
+  }),
+
+  route('PATCH', '/matches/:id/waitlist/offer', ({ userId, params, body }, context) => {
+    const match = findMatch(context, params.id);
+    const waitlist = getMatchWaitlist(context, match._id);
+    const entry = waitlist.entries.find(item => item.user._id === userId);
+    if (!entry || entry.status !== 'offered') {
+      throw new AuthorizationError('You have not been offered a spot in this match');
+    }
+
+    if (!body?.accept) {
+      waitlist.entries = waitlist.entries.filter(item => item !== entry);
+      offerOpenSpots(context, match);
+      return ok({ match });
+    }
+    if (!hasActiveOffer(entry, context.now)) {
+      throw new BusinessError('Your offer has expired');
+    }
+    joinMatch(context, match, userId, { holdsSpot: true });
+    return ok({ match });
+  }),
+];
@@ -0,0 +1,397 @@
+import { addDays, addMinutes, format, subDays } from 'date-fns';
+import type { User } from '@features/auth/types';
+import type { Chat, Message } from '@features/chat/types';
+import type { Match } from '@features/matches/types';
+import type { Team } from '@features/teams/types';
+import type { Tournament } from '@features/tournaments/types';
+import { generateBracket, recordMatchResult } from '@features/tournaments/utils';
+import type { Booking, Venue } from '@features/venues/types';
+import type { MockTables } from './MockDatabase';
+import { toChatParticipant, toParticipant, toPersonRef, toProfileRef, toSender, toTournamentParticipant } from './shapes';
+
+/**
+ * Demo data the mock backend starts from: a handful of players around San
+ * Francisco with matches, teams, tournaments, bookings and chats involving
+ * the demo user. Dates are relative to `now`, so the data never goes stale.
+ */
+
+/** Signed in by default; every seeded user shares the demo password */
+export const MOCK_USER_ID = 'user-1';
+export const MOCK_USER_EMAIL = 'alex@example.com';
+export const MOCK_PASSWORD = 'password123';
+
+const TIMEZONE = 'America/Los_Angeles';
+
+const createUser = (
+  id: number,
+  firstName: string,
+  lastName: string,
+  profile: User['profile'],
+  joinedAt: string
+): User => ({
+  _id: `user-${id}`,
+  email: `${firstName.toLowerCase()}@example.com`,
+  firstName,
+  lastName,
+  username: firstName.toLowerCase(),
+  isVerified: true,
+  role: 'user',
+  isOnline: id % 2 === 0,
+  lastActiveAt: joinedAt,
+  profile: { firstName, lastName, location: 'San Francisco, CA', ...profile },
+  createdAt: joinedAt,
+  updatedAt: joinedAt,
+});
+
+const createVenue = (
+  id: number,
+  name: string,
+  address: string,
+  [latitude, longitude]: [number, number],
+  sports: string[],
+  pricePerHour: number,
+  createdAt: string
+): Venue => ({
+  _id: `venue-${id}`,
+  name,
+  description: `${sports.join(' and ')} in San Francisco`,
+  location: {
+    address,
+    city: 'San Francisco',
+    state: 'CA',
+    zipCode: '94158',
+    country: 'USA',
+    coordinates: { type: 'Point', coordinates: [longitude, latitude] },
+  },
+  sports,
+  facilities: ['Courts', 'Changing rooms'],
+  amenities: ['Parking', 'Water fountain'],
+  images: [],
+  operatingHours: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].map(day => ({
+    day,
+    open: '07:00',
+    close: '22:00',
+    isClosed: false,
+  })),
+  pricing: [{ pricePerHour, currency: 'USD', peakHourMultiplier: 1.25 }],
+  ratings: { average: 4.5, count: 38 },
+  status: 'active',
+  isVerified: true,
+  owner: { _id: 'user-4', profile: { firstName: 'Riley', lastName: 'Chen' } },
+  createdAt,
+});
+
+export const createSeed = (now: Date = new Date()): MockTables => {
+  const date = (days: number) => format(addDays(now, days), 'yyyy-MM-dd');
+  const at = (days: number, minutes = 0) => addMinutes(addDays(now, days), minutes).toISOString();
+  const longAgo = subDays(now, 180).toISOString();
+
+  const users = [
+    createUser(1, 'Alex', 'Morgan', { sports: ['Basketball', 'Tennis'], skillLevel: 'intermediate', bio: 'Weekend hooper, weekday tennis.', statistics: { matchesPlayed: 42, matchesWon: 24, tournamentsJoined: 3, tournamentsWon: 1, matchesAttended: 40, noShows: 1 } }, longAgo),
+    createUser(2, 'Jordan', 'Lee', { sports: ['Basketball', 'Soccer'], skillLevel: 'advanced', statistics: { matchesPlayed: 88, matchesWon: 51, tournamentsJoined: 6, tournamentsWon: 2 } }, longAgo),
+    createUser(3, 'Sam', 'Patel', { sports: ['Tennis', 'Badminton'], skillLevel: 'beginner', statistics: { matchesPlayed: 9, matchesWon: 3, tournamentsJoined: 1, tournamentsWon: 0 } }, longAgo),
+    createUser(4, 'Riley', 'Chen', { sports: ['Soccer'], skillLevel: 'expert', statistics: { matchesPlayed: 120, matchesWon: 80, tournamentsJoined: 9, tournamentsWon: 4 } }, longAgo),
+    createUser(5, 'Casey', 'Kim', { sports: ['Volleyball', 'Basketball'], skillLevel: 'intermediate', statistics: { matchesPlayed: 35, matchesWon: 17, tournamentsJoined: 2, tournamentsWon: 0 } }, longAgo),
+    createUser(6, 'Taylor', 'Brooks', { sports: ['Tennis'], skillLevel: 'advanced', statistics: { matchesPlayed: 64, matchesWon: 40, tournamentsJoined: 5, tournamentsWon: 1 } }, longAgo),
+  ];
+  const user = (id: number) => users[id - 1];
+
+  const venues = [
+    createVenue(1, 'Mission Bay Courts', '1 Mission Bay Blvd', [37.7706, -122.3892], ['Basketball', 'Volleyball'], 40, longAgo),
+    createVenue(2, 'Golden Gate Tennis Center', '50 John F Kennedy Dr', [37.7694, -122.4862], ['Tennis', 'Badminton'], 30, longAgo),
+    createVenue(3, 'Presidio Fields', '100 Lincoln Blvd', [37.7989, -122.4662], ['Soccer'], 80, longAgo),
+  ];
+  const matchVenue = (venue: Venue): Match['venue'] => {
+    const [lng, lat] = venue.location.coordinates!.coordinates;
+    return { _id: venue._id, name: venue.name, location: { address: venue.location.address, coordinates: { lat, lng } }, amenities: venue.amenities };
+  };
+
+  const createMatch = (
+    id: number,
+    fields: Pick<Match, 'sport' | 'title' | 'type' | 'maxParticipants' | 'status'> & Partial<Match>,
+    [days, time]: [number, string],
+    organizerId: number,
+    participantIds: number[]
+  ): Match => ({
+    _id: `match-${id}`,
+    description: `${fields.sport} with players around the city`,
+    schedule: { date: date(days), time, timezone: TIMEZONE, duration: 90 },
+    currentParticipants: participantIds.length,
+    participants: participantIds.map(participantId =>
+      toParticipant(user(participantId), participantId === organizerId ? 'organizer' : 'participant')
+    ),
+    organizer: toPersonRef(user(organizerId)),
+    createdAt: at(-14),
+    updatedAt: at(-1),
+    ...fields,
+  });
+
+  const matches: Match[] = [
+    createMatch(1, { sport: 'Basketball', title: 'Sunday Pickup Run', type: 'public', maxParticipants: 10, status: 'upcoming', venue: matchVenue(venues[0]), rules: { skillLevel: 'intermediate', format: '5v5' }, chat: { _id: 'chat-3' } }, [2, '10:00'], 2, [2, 1, 5]),
+    createMatch(2, { sport: 'Tennis', title: 'Doubles at Golden Gate', type: 'public', maxParticipants: 4, status: 'upcoming', venue: matchVenue(venues[1]), price: { amount: 500, currency: 'USD' }, bookingId: 'booking-1' }, [1, '18:00'], 1, [1, 3, 6]),
+    createMatch(3, { sport: 'Soccer', title: '5-a-side Friday', type: 'public', maxParticipants: 4, status: 'upcoming', venue: matchVenue(venues[2]), requirements: { minSkillLevel: 'intermediate' } }, [4, '18:30'], 4, [4, 2, 5, 6]),
+    createMatch(4, { sport: 'Volleyball', title: 'Beach Volleyball Meetup', type: 'private', maxParticipants: 8, status: 'upcoming', venue: matchVenue(venues[0]), inviteCode: 'VOLLEY24' }, [6, '11:00'], 1, [1, 5]),
+    createMatch(5, { sport: 'Basketball', title: 'Evening Shootaround', type: 'public', maxParticipants: 6, status: 'in-progress', venue: matchVenue(venues[0]), score: { team1: 12, team2: 9 } }, [0, format(addMinutes(now, -30), 'HH:mm')], 5, [5, 1, 2, 4]),
+    createMatch(6, { sport: 'Tennis', title: 'Singles Ladder', type: 'public', maxParticipants: 2, status: 'completed', venue: matchVenue(venues[1]), score: { team1: 2, team2: 1, winner: 'user-6' }, attendance: [{ userId: 'user-6', status: 'checked_in', method: 'qr', checkedInAt: at(-2) }, { userId: 'user-1', status: 'checked_in', method: 'location', checkedInAt: at(-2) }], checkInClosedAt: at(-2, 30) }, [-2, '17:00'], 6, [6, 1]),
+    createMatch(7, { sport: 'Badminton', title: 'Lunchtime Badminton', type: 'public', maxParticipants: 4, status: 'upcoming', venue: matchVenue(venues[1]), price: { amount: 300, currency: 'USD' } }, [8, '12:30'], 3, [3]),
+    createMatch(8, { sport: 'Basketball', title: 'Tuesday Night Hoops', type: 'public', maxParticipants: 10, status: 'upcoming', venue: matchVenue(venues[0]), series: { _id: 'series-1', occurrenceDate: date(3) } }, [3, '19:30'], 1, [1, 2]),
+  ];
+
+  const bookingFor = (
+    id: number,
+    venue: Venue,
+    sport: string,
+    [days, startTime, endTime]: [number, string, string],
+    fields: Pick<Booking, 'status' | 'paymentStatus'> & Partial<Booking>
+  ): Booking => {
+    const duration = Number(endTime.slice(0, 2)) - Number(startTime.slice(0, 2));
+    const baseRate = venue.pricing![0].pricePerHour;
+    return {
+      _id: `booking-${id}`,
+      venue: { _id: venue._id, name: venue.name, location: { address: venue.location.address } },
+      user: toProfileRef(user(1)),
+      sport,
+      date: date(days),
+      startTime,
+      endTime,
+      duration: duration * 60,
+      pricing: { baseRate, totalCost: baseRate * duration, currency: 'USD' },
+      createdAt: at(days - 7),
+      ...fields,
+    };
+  };
+
+  const bookings = [
+    bookingFor(1, venues[1], 'Tennis', [1, '18:00', '20:00'], { status: 'confirmed', paymentStatus: 'paid', matchId: 'match-2', participants: 4 }),
+    bookingFor(2, venues[0], 'Basketball', [5, '19:00', '20:00'], { status: 'pending', paymentStatus: 'pending' }),
+    bookingFor(3, venues[2], 'Soccer', [-10, '09:00', '11:00'], { status: 'completed', paymentStatus: 'paid', checkInTime: at(-10), checkOutTime: at(-10, 120) }),
+  ];
+
+  const teamMember = (id: number, role: 'captain' | 'member') => ({ user: toProfileRef(user(id)), role, joinedAt: at(-60) });
+  const createTeam = (id: number, name: string, sport: string, captainId: number, memberIds: number[], maxMembers: number): Team => ({
+    _id: `team-${id}`,
+    name,
+    description: `${sport} team based in San Francisco`,
+    sport,
+    captain: toProfileRef(user(captainId)),
+    members: [captainId, ...memberIds].map(memberId => teamMember(memberId, memberId === captainId ? 'captain' : 'member')),
+    memberCount: memberIds.length + 1,
+    maxMembers,
+    isFull: memberIds.length + 1 >= maxMembers,
+    isActive: true,
+    createdAt: at(-90),
+  });
+
+  const teams = [
+    createTeam(1, 'Mission Bay Ballers', 'Basketball', 1, [2, 5], 8),
+    createTeam(2, 'Presidio United', 'Soccer', 4, [2, 1], 11),
+    createTeam(3, 'Net Setters', 'Volleyball', 5, [], 6),
+  ];
+
+  const tennisField = [1, 3, 6, 2].map((id, index) => ({
+    ...toTournamentParticipant(user(id), at(-20)),
+    seed: index + 1,
+  }));
+  const firstRound = generateBracket('round_robin', tennisField);
+  const [opener, second] = firstRound.rounds[0].matches;
+  const cityOpenBracket = recordMatchResult(
+    recordMatchResult(firstRound, opener.matchId, { player1: 2, player2: 0 }),
+    second.matchId,
+    { player1: 1, player2: 2 }
+  );
+
+  const tournaments: Tournament[] = [
+    {
+      _id: 'tournament-1',
+      name: 'Summer Hoops Classic',
+      description: 'Eight-player knockout at Mission Bay',
+      sport: 'Basketball',
+      type: 'elimination',
+      format: 'single_elimination',
+      maxParticipants: 8,
+      currentParticipants: 3,
+      participants: [2, 4, 5].map(id => toTournamentParticipant(user(id), at(-5))),
+      status: 'registration_open',
+      registrationDeadline: at(10),
+      startDate: at(14),
+      endDate: at(15),
+      venue: { _id: venues[0]._id, name: venues[0].name, location: { address: venues[0].location.address } },
+      prize: { total: 10000, currency: 'USD', distribution: { first: 60, second: 30, third: 10 } },
+      organizer: toPersonRef(user(2)),
+      entryFee: { amount: 2000, currency: 'USD' },
+      createdAt: at(-30),
+    },
+    {
+      _id: 'tournament-2',
+      name: 'City Tennis Open',
+      description: 'Round robin; everyone plays everyone',
+      sport: 'Tennis',
+      type: 'elimination',
+      format: 'round_robin',
+      maxParticipants: 4,
+      currentParticipants: 4,
+      participants: tennisField,
+      status: 'in_progress',
+      registrationDeadline: at(-5),
+      startDate: at(-3),
+      endDate: at(4),
+      venue: { _id: venues[1]._id, name: venues[1].name, location: { address: venues[1].location.address } },
+      rules: { pointsScheme: { win: 3, draw: 1, loss: 0 }, tiebreakers: ['head_to_head', 'score_difference'] },
+      bracket: cityOpenBracket,
+      organizer: toPersonRef(user(6)),
+      entryFee: { amount: 1500, currency: 'USD' },
+      createdAt: at(-40),
+    },
+    {
+      _id: 'tournament-3',
+      name: 'Presidio Team Cup',
+      description: 'Five-a-side teams, double elimination',
+      sport: 'Soccer',
+      type: 'elimination',
+      format: 'double_elimination',
+      entryType: 'team',
+      rosterSize: 5,
+      maxParticipants: 8,
+      currentParticipants: 0,
+      participants: [],
+      status: 'registration_open',
+      registrationDeadline: at(20),
+      startDate: at(25),
+      endDate: at(26),
+      venue: { _id: venues[2]._id, name: venues[2].name, location: { address: venues[2].location.address } },
+      organizer: toPersonRef(user(4)),
+      createdAt: at(-10),
+    },
+  ];
+
+  const message = (id: number, chatId: string, senderId: number, content: string, minutesAgo: number): Message => ({
+    _id: `message-${id}`,
+    chat: chatId,
+    sender: toSender(user(senderId)),
+    content,
+    messageType: 'text',
+    isEdited: false,
+    readBy: [`user-${senderId}`],
+    createdAt: addMinutes(now, -minutesAgo).toISOString(),
+  });
+
+  const messages = [
+    message(1, 'chat-1', 2, 'You in for Sunday?', 180),
+    message(2, 'chat-1', 1, 'Definitely, bringing a ball.', 170),
+    message(3, 'chat-1', 2, 'Great, see you at 10.', 30),
+    message(4, 'chat-2', 6, 'Court 3 is booked for tomorrow.', 600),
+    message(5, 'chat-2', 3, 'I might be 10 minutes late.', 540),
+    message(6, 'chat-2', 1, 'No worries, we will warm up.', 500),
+    message(7, 'chat-3', 2, 'Teams will be picked on the day.', 240),
+    message(8, 'chat-3', 5, 'Sounds good!', 200),
+  ];
+
+  const createChat = (id: number, type: Chat['type'], participantIds: number[], name?: string): Chat => {
+    const chatId = `chat-${id}`;
+    const chatMessages = messages.filter(({ chat }) => chat === chatId);
+    return {
+      _id: chatId,
+      type,
+      name,
+      participants: participantIds.map(participantId => toChatParticipant(user(participantId))),
+      lastMessage: chatMessages[chatMessages.length - 1],
+      unreadCount: 0,
+      createdAt: at(-30),
+      updatedAt: chatMessages[chatMessages.length - 1]?.createdAt ?? at(-30),
+    };
+  };
+
+  return {
+    users,
+    passwords: Object.fromEntries(users.map(({ _id }) => [_id, MOCK_PASSWORD])),
+    friendships: [
+      { userId: 'user-1', friendId: 'user-2', since: at(-100) },
+      { userId: 'user-1', friendId: 'user-3', since: at(-40) },
+    ],
+    matches,
+    series: [
+      {
+        _id: 'series-1',
+        template: {
+          type: 'public',
+          sport: 'Basketball',
+          title: 'Tuesday Night Hoops',
+          maxParticipants: 10,
+          schedule: { date: date(3), time: '19:30', timezone: TIMEZONE, duration: 90 },
+          venue: venues[0]._id,
+        },
+        recurrence: { frequency: 'weekly', interval: 1, count: 8 },
+        overrides: [],
+        subscribers: ['user-2'],
+        organizer: toPersonRef(user(1)),
+        createdAt: at(-7),
+        updatedAt: at(-7),
+      },
+    ],
+    waitlists: [
+      {
+        matchId: 'match-3',
+        entries: [{ _id: 'waitlist-1', user: toSender(user(3)), status: 'waiting', joinedAt: at(-1) }],
+        maxLength: 5,
+      },
+    ],
+    costSplits: [
+      {
+        _id: 'split-1',
+        matchId: 'match-2',
+        bookingId: 'booking-1',
+        payerId: 'user-1',
+        total: 6000,
+        currency: 'USD',
+        method: 'equal',
+        shares: [
+          { userId: 'user-1', amount: 2000, status: 'paid', settledAt: at(-3) },
+          { userId: 'user-3', amount: 2000, status: 'pending' },
+          { userId: 'user-6', amount: 2000, status: 'paid', paymentIntentId: 'pi_mock_seed', settledAt: at(-1) },
+        ],
+        createdAt: at(-3),
+      },
+    ],
+    reviews: [],
+    skippedReviews: [],
+    teams,
+    tournaments,
+    venues,
+    bookings,
+    chats: [
+      createChat(1, 'direct', [1, 2]),
+      createChat(2, 'group', [1, 3, 6], 'Weekend Tennis Crew'),
+      createChat(3, 'match', [2, 1, 5], 'Sunday Pickup Run'),
+    ],
+    messages,
+    chatStates: [{ chatId: 'chat-1', userId: 'user-1', lastReadAt: addMinutes(now, -60).toISOString() }],
+    notifications: [
+      { _id: 'notification-1', recipientId: 'user-1', type: 'match_update', title: 'Match coming up', message: 'Sunday Pickup Run starts in 2 days', data: { matchId: 'match-1', matchTitle: 'Sunday Pickup Run' }, isRead: false, priority: 'medium', createdAt: at(0, -120) },
+      { _id: 'notification-2', recipientId: 'user-1', type: 'new_message', title: 'Jordan Lee', message: 'Great, see you at 10.', data: { chatId: 'chat-1', senderId: 'user-2', messagePreview: 'Great, see you at 10.' }, isRead: false, priority: 'low', createdAt: at(0, -30) },
+      { _id: 'notification-3', recipientId: 'user-1', type: 'tournament_invitation', title: 'Summer Hoops Classic', message: 'Jordan invited you to the Summer Hoops Classic', data: { tournamentId: 'tournament-1', inviterId: 'user-2' }, isRead: true, priority: 'medium', createdAt: at(-2), readAt: at(-1) },
+      { _id: 'notification-4', recipientId: 'user-1', type: 'booking_confirmation', title: 'Booking confirmed', message: 'Golden Gate Tennis Center is booked for tomorrow at 18:00', data: { bookingId: 'booking-1' }, isRead: true, priority: 'low', createdAt: at(-3) },
+      { _id: 'notification-5', recipientId: 'user-1', type: 'friend_request', title: 'Riley Chen', message: 'Riley wants to be friends', data: { senderId: 'user-4' }, isRead: false, actionRequired: true, priority: 'medium', createdAt: at(-1) },
+    ],
+    payments: [
+      { _id: 'payment-1', user: 'user-1', amount: 6000, currency: 'USD', status: 'succeeded', paymentMethod: 'card', booking: { _id: 'booking-1', venue: { name: venues[1].name } }, stripePaymentIntentId: 'pi_mock_booking_1', createdAt: at(-6) },
+      { _id: 'payment-2', user: 'user-1', amount: 1500, currency: 'USD', status: 'succeeded', paymentMethod: 'card', tournament: { _id: 'tournament-2', name: 'City Tennis Open' }, stripePaymentIntentId: 'pi_mock_tournament_2', createdAt: at(-21) },
+    ],
+    ratings: [
+      { userId: 'user-1', sport: 'Basketball', rating: 1620, deviation: 80, volatility: 0.06, gamesRated: 24, updatedAt: at(-4) },
+      { userId: 'user-1', sport: 'Tennis', rating: 1480, deviation: 120, volatility: 0.06, gamesRated: 6, updatedAt: at(-2) },
+      { userId: 'user-2', sport: 'Basketball', rating: 1750, deviation: 60, volatility: 0.06, gamesRated: 70, updatedAt: at(-4) },
+      { userId: 'user-3', sport: 'Tennis', rating: 1310, deviation: 150, volatility: 0.06, gamesRated: 4, updatedAt: at(-9) },
+      { userId: 'user-4', sport: 'Soccer', rating: 1890, deviation: 55, volatility: 0.06, gamesRated: 110, updatedAt: at(-6) },
+      { userId: 'user-5', sport: 'Basketball', rating: 1540, deviation: 90, volatility: 0.06, gamesRated: 20, updatedAt: at(-4) },
+      { userId: 'user-6', sport: 'Tennis', rating: 1700, deviation: 70, volatility: 0.06, gamesRated: 52, updatedAt: at(-2) },
+    ],
+    ratingHistory: [
+      { userId: 'user-1', sport: 'Tennis', rating: 1500, deviation: 350, volatility: 0.06, date: at(-60), source: { type: 'match', id: 'match-history-1' } },
+      { userId: 'user-1', sport: 'Tennis', rating: 1530, deviation: 200, volatility: 0.06, date: at(-30), source: { type: 'tournament', id: 'tournament-2' } },
+      { userId: 'user-1', sport: 'Tennis', rating: 1480, deviation: 120, volatility: 0.06, date: at(-2), source: { type: 'match', id: 'match-6' } },
+      { userId: 'user-1', sport: 'Basketball', rating: 1580, deviation: 100, volatility: 0.06, date: at(-20), source: { type: 'match', id: 'match-history-2' } },
+      { userId: 'user-1', sport: 'Basketball', rating: 1620, deviation: 80, volatility: 0.06, date: at(-4), source: { type: 'match', id: 'match-history-3' } },
+    ],
+    calendarFeeds: {},
+  };
+};
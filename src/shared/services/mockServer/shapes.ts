@@ -0,0 +1,74 @@
+import type { User } from '@features/auth/types';
+import type { ChatParticipant, Message } from '@features/chat/types';
+import type { Participant } from '@features/matches/types';
+import type { TournamentParticipant } from '@features/tournaments/types';
+import type { MockNotification } from './MockDatabase';
+import type { MockContext } from './router';
+
+/**
+ * How users are embedded in other entities, matching the real API's
+ * populated references
+ */
+
+export const toPersonRef = (user: User) => ({
+  _id: user._id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+});
+
+export const toSender = (user: User): Message['sender'] => ({
+  ...toPersonRef(user),
+  username: user.username,
+});
+
+export const toProfileRef = (user: User) => ({
+  _id: user._id,
+  profile: { firstName: user.firstName, lastName: user.lastName, username: user.username },
+});
+
+export const toParticipant = (user: User, role: Participant['role'] = 'participant'): Participant => ({
+  ...toSender(user),
+  role,
+  profile: {
+    skillLevel: user.profile?.skillLevel,
+    statistics: user.profile?.statistics && {
+      matchesPlayed: user.profile.statistics.matchesPlayed,
+      matchesWon: user.profile.statistics.matchesWon,
+    },
+  },
+});
+
+export const toTournamentParticipant = (user: User, joinedAt: string): TournamentParticipant => ({
+  ...toPersonRef(user),
+  profile: { skillLevel: user.profile?.skillLevel },
+  joinedAt,
+});
+
+export const toChatParticipant = (user: User): ChatParticipant => ({
+  ...toSender(user),
+  isOnline: user.isOnline,
+  lastActiveAt: user.lastActiveAt,
+});
+
+export const getFullName = (user: Pick<User, 'firstName' | 'lastName'>): string =>
+  `${user.firstName} ${user.lastName}`;
+
+/**
+ * Save a notification and push it to its recipient
+ */
+export const notify = (
+  { db, emit, now }: Pick<MockContext, 'db' | 'emit' | 'now'>,
+  recipientId: string,
+  notification: Pick<MockNotification, 'type' | 'title' | 'message' | 'data'>
+): void => {
+  const saved: MockNotification = {
+    ...notification,
+    _id: db.createId('notification'),
+    recipientId,
+    isRead: false,
+    priority: 'medium',
+    createdAt: now.toISOString(),
+  };
+  db.tables.notifications.unshift(saved);
+  emit('notification', saved, { toUserIds: [recipientId] });
+};
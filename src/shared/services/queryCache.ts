@@ -0,0 +1,253 @@
+import type { UnknownAction } from '@reduxjs/toolkit';
+import { createTransform, MigrationManifest, PersistedState, REHYDRATE } from 'redux-persist';
+
+/**
+ * Persisted query cache
+ *
+ * Chosen RTK Query cache entries (the user's matches, teams, bookings, chats
+ * and latest messages) are saved with the rest of the persisted state, so
+ * screens have something to show on a cold start and while offline. Saved
+ * entries expire after a per-endpoint TTL, and the least recently used are
+ * left out once the cache outgrows its size budget. APIs restore them with
+ * `extractPersistedQueries` and refetch them in the background when a
+ * screen shows them.
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface QueryCachePolicy {
+  /** How long a saved response may be shown, counted from when it was fetched */
+  ttl: number;
+  /** Only save responses for the arguments this accepts */
+  shouldPersist?: (args: any) => boolean;
+}
+
+const isFirstPage = (args?: { page?: number }) => !args?.page || args.page === 1;
+
+export const QUERY_CACHE_POLICIES: Record<string, Record<string, QueryCachePolicy>> = {
+  matchApi: {
+    getMatches: { ttl: DAY, shouldPersist: isFirstPage },
+    getMatch: { ttl: 3 * DAY },
+  },
+  teamApi: {
+    getTeams: { ttl: 7 * DAY, shouldPersist: isFirstPage },
+    getMyTeams: { ttl: 7 * DAY },
+    getTeam: { ttl: 7 * DAY },
+  },
+  venueApi: {
+    getMyBookings: { ttl: 7 * DAY, shouldPersist: isFirstPage },
+    getBooking: { ttl: 7 * DAY },
+  },
+  chatApi: {
+    getChats: { ttl: 3 * DAY, shouldPersist: isFirstPage },
+    getChat: { ttl: 3 * DAY },
+    // Only the latest messages; older ones are fetched as the user scrolls back
+    getChatMessages: { ttl: 3 * DAY, shouldPersist: args => !args?.before && isFirstPage(args) },
+  },
+};
+
+export const PERSISTED_API_PATHS = Object.keys(QUERY_CACHE_POLICIES);
+
+// The persisted state is one AsyncStorage value, and Android rejects values over about 2 MB
+export const QUERY_CACHE_BUDGET_BYTES = 1024 * 1024;
+
+/** Restored responses older than this are refetched when a screen shows them */
+export const QUERY_CACHE_REVALIDATE_AFTER_SECONDS = 60;
+
+/** Persisted state version; bump it with a migration when saved responses change shape */
+export const PERSIST_VERSION = 2;
+
+interface CachedQuery {
+  status: string;
+  endpointName: string;
+  originalArgs?: unknown;
+  data?: unknown;
+  error?: unknown;
+  fulfilledTimeStamp?: number;
+}
+
+interface ApiCacheState {
+  queries: Record<string, CachedQuery | undefined>;
+  provided?: {
+    tags?: Record<string, Record<string, string[]>>;
+    keys?: Record<string, unknown[]>;
+  };
+  lastUsedAt?: Record<string, number>;
+}
+
+/**
+ * What is saved for an API: the parts of its state RTK Query rehydrates,
+ * plus when each entry was last used
+ */
+export interface PersistedApiCache {
+  queries: Record<string, CachedQuery>;
+  mutations: Record<string, never>;
+  provided: {
+    tags: Record<string, Record<string, string[]>>;
+    keys: Record<string, unknown[]>;
+  };
+  lastUsedAt: Record<string, number>;
+}
+
+/**
+ * Drop saved API responses, for migrations after their shape changed
+ */
+const withoutQueryCache = <S extends PersistedState>(state: S, reducerPaths = PERSISTED_API_PATHS): S => {
+  if (!state) return state;
+  const rest = { ...state } as Record<string, unknown>;
+  reducerPaths.forEach(path => delete rest[path]);
+  return rest as S;
+};
+
+export const persistMigrations: MigrationManifest = {
+  // Version 2 starts saving API responses; nothing saved before carries over
+  2: state => withoutQueryCache(state),
+};
+
+// When each entry was last fetched or read from the cache, by `reducerPath:queryCacheKey`
+const lastUsedAt = new Map<string, number>();
+
+const QUERY_ACTION = /^(\w+)\/executeQuery\/(pending|fulfilled|rejected)$/;
+
+/**
+ * Note a query being fetched or served from the cache, for LRU eviction
+ *
+ * RTK Query dispatches one of these actions whenever a component subscribes
+ * to a query, even when the cached response is used as it is.
+ */
+export const recordQueryUse = (action: unknown, now = Date.now()) => {
+  const { type, meta } = action as { type?: unknown; meta?: { arg?: { queryCacheKey?: string } } };
+  const match = typeof type === 'string' ? QUERY_ACTION.exec(type) : null;
+  const queryCacheKey = meta?.arg?.queryCacheKey;
+
+  if (match && queryCacheKey && match[1] in QUERY_CACHE_POLICIES) {
+    lastUsedAt.set(`${match[1]}:${queryCacheKey}`, now);
+  }
+};
+
+const getPolicy = (reducerPath: string, entry: CachedQuery) =>
+  QUERY_CACHE_POLICIES[reducerPath]?.[entry.endpointName];
+
+const isPersistable = (reducerPath: string, entry: CachedQuery | undefined, now: number): entry is CachedQuery => {
+  const policy = entry && getPolicy(reducerPath, entry);
+  if (!policy || entry.data === undefined || !entry.fulfilledTimeStamp) return false;
+  if (entry.status !== 'fulfilled' && entry.status !== 'rejected') return false;
+  if (now - entry.fulfilledTimeStamp > policy.ttl) return false;
+  return !policy.shouldPersist || policy.shouldPersist(entry.originalArgs);
+};
+
+/**
+ * The cache entries worth saving across all persisted APIs, as
+ * `reducerPath:queryCacheKey`: unexpired responses from persisted endpoints,
+ * most recently used first, until the size budget is spent
+ */
+export const selectPersistedQueryKeys = (
+  apiStates: Record<string, ApiCacheState | undefined>,
+  now: number,
+  budget: number = QUERY_CACHE_BUDGET_BYTES
+): Set<string> => {
+  const candidates = Object.entries(apiStates).flatMap(([reducerPath, apiState]) =>
+    Object.entries(apiState?.queries ?? {})
+      .filter(([, entry]) => isPersistable(reducerPath, entry, now))
+      .map(([queryCacheKey, entry]) => {
+        const key = `${reducerPath}:${queryCacheKey}`;
+        return {
+          key,
+          usedAt: Math.max(lastUsedAt.get(key) ?? 0, apiState?.lastUsedAt?.[queryCacheKey] ?? 0, entry!.fulfilledTimeStamp!),
+          size: JSON.stringify(entry).length,
+        };
+      })
+  );
+
+  const kept = new Set<string>();
+  let used = 0;
+  candidates
+    .sort((a, b) => b.usedAt - a.usedAt)
+    .forEach(({ key, size }) => {
+      if (used + size <= budget) {
+        kept.add(key);
+        used += size;
+      }
+    });
+  return kept;
+};
+
+/**
+ * The saved form of an API's cache, holding only the kept entries
+ */
+export const toPersistedApiCache = (
+  reducerPath: string,
+  apiState: ApiCacheState,
+  kept: Set<string>
+): PersistedApiCache => {
+  const isKept = (queryCacheKey: string) => kept.has(`${reducerPath}:${queryCacheKey}`);
+  const cache: PersistedApiCache = { queries: {}, mutations: {}, provided: { tags: {}, keys: {} }, lastUsedAt: {} };
+
+  Object.entries(apiState.queries ?? {}).forEach(([queryCacheKey, entry]) => {
+    if (!entry || !isKept(queryCacheKey)) return;
+    // A failed refetch keeps the last good response, which is what gets restored
+    cache.queries[queryCacheKey] = { ...entry, status: 'fulfilled', error: undefined };
+    cache.lastUsedAt[queryCacheKey] =
+      lastUsedAt.get(`${reducerPath}:${queryCacheKey}`) ?? apiState.lastUsedAt?.[queryCacheKey] ?? 0;
+    if (apiState.provided?.keys?.[queryCacheKey]) {
+      cache.provided.keys[queryCacheKey] = apiState.provided.keys[queryCacheKey];
+    }
+  });
+
+  Object.entries(apiState.provided?.tags ?? {}).forEach(([type, ids]) => {
+    Object.entries(ids).forEach(([id, queryCacheKeys]) => {
+      const keptKeys = queryCacheKeys.filter(isKept);
+      if (keptKeys.length > 0) {
+        (cache.provided.tags[type] ??= {})[id] = keptKeys;
+      }
+    });
+  });
+
+  return cache;
+};
+
+/**
+ * The saved entries that are still valid, ready for RTK Query to rehydrate
+ */
+export const restoreApiCache = (reducerPath: string, saved: PersistedApiCache, now: number): PersistedApiCache => {
+  Object.entries(saved.lastUsedAt ?? {}).forEach(([queryCacheKey, usedAt]) => {
+    const key = `${reducerPath}:${queryCacheKey}`;
+    lastUsedAt.set(key, Math.max(lastUsedAt.get(key) ?? 0, usedAt));
+  });
+
+  const kept = new Set(
+    Object.entries(saved.queries ?? {})
+      .filter(([, entry]) => isPersistable(reducerPath, entry, now))
+      .map(([queryCacheKey]) => `${reducerPath}:${queryCacheKey}`)
+  );
+  return toPersistedApiCache(reducerPath, saved, kept);
+};
+
+// Every key of one write shares the full state, so the kept entries are worked out once per write
+const keptByState = new WeakMap<object, Set<string>>();
+
+export const queryCacheTransform = createTransform<ApiCacheState, PersistedApiCache>(
+  (apiState, reducerPath, state) => {
+    let kept = keptByState.get(state);
+    if (!kept) {
+      const apiStates = Object.fromEntries(PERSISTED_API_PATHS.map(path => [path, state[path]]));
+      kept = selectPersistedQueryKeys(apiStates, Date.now());
+      keptByState.set(state, kept);
+    }
+    return toPersistedApiCache(String(reducerPath), apiState, kept);
+  },
+  (saved, reducerPath) => restoreApiCache(String(reducerPath), saved, Date.now()) as ApiCacheState,
+  { whitelist: PERSISTED_API_PATHS }
+);
+
+/**
+ * `extractRehydrationInfo` for APIs whose cache is persisted
+ */
+export const extractPersistedQueries = <State>(
+  action: UnknownAction,
+  { reducerPath }: { reducerPath: string }
+): State | undefined => {
+  if (action.type !== REHYDRATE) return undefined;
+  return (action.payload as Record<string, State> | undefined)?.[reducerPath];
+};
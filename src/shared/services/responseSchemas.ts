@@ -0,0 +1,219 @@
+import * as yup from 'yup';
+import { InvalidResponseError } from '@core/errors/AppError';
+import { logger } from '@core/types/ILogger';
+import { analyticsService } from './analyticsService';
+
+/**
+ * API response schemas
+ * Runtime schemas for the core domain types, checked by the API layer as
+ * responses arrive. Like the socket event schemas they check the fields
+ * screens rely on and keep any others untouched.
+ *
+ * In development a response that does not match fails the request with an
+ * `InvalidResponseError` listing every difference. In production the usual
+ * coercions apply (`"5"` is read as 5); what still does not match is
+ * reported to Crashlytics, lists keep the items that do match, and single
+ * entities are passed on as they are.
+ */
+
+const id = () => yup.string().required();
+const timestamp = () => yup.string().required();
+const count = () => yup.number().required();
+const ref = () => yup.object({ _id: id() }).required();
+const list = (item: yup.AnyObjectSchema) => yup.array(item).required();
+
+export const userSchema = yup
+  .object({
+    _id: id(),
+    email: yup.string().required(),
+    firstName: yup.string().defined(),
+    lastName: yup.string().defined(),
+    username: yup.string().defined(),
+    profile: yup.object().required(),
+  })
+  .label('User');
+
+export const matchSchema = yup
+  .object({
+    _id: id(),
+    type: yup.string().oneOf(['public', 'private']).required(),
+    sport: yup.string().required(),
+    title: yup.string().defined(),
+    schedule: yup.object({ date: yup.string().required(), time: yup.string().defined() }).required(),
+    maxParticipants: count(),
+    currentParticipants: count(),
+    participants: list(yup.object({ _id: id() })),
+    status: yup.string().oneOf(['upcoming', 'in-progress', 'completed', 'cancelled']).required(),
+    organizer: ref(),
+  })
+  .label('Match');
+
+export const tournamentSchema = yup
+  .object({
+    _id: id(),
+    name: yup.string().required(),
+    sport: yup.string().required(),
+    format: yup.string().required(),
+    maxParticipants: count(),
+    currentParticipants: count(),
+    participants: list(yup.object({ _id: id() })),
+    status: yup.string().oneOf(['registration_open', 'in_progress', 'completed', 'cancelled']).required(),
+    startDate: timestamp(),
+  })
+  .label('Tournament');
+
+export const teamSchema = yup
+  .object({
+    _id: id(),
+    name: yup.string().required(),
+    sport: yup.string().required(),
+    captain: ref(),
+    members: list(yup.object({ user: ref(), role: yup.string().oneOf(['captain', 'member']).required() })),
+    memberCount: count(),
+    maxMembers: count(),
+  })
+  .label('Team');
+
+export const venueSchema = yup
+  .object({
+    _id: id(),
+    name: yup.string().required(),
+    location: yup.object({ address: yup.string().defined(), city: yup.string().defined() }).required(),
+    sports: yup.array(yup.string().required()).required(),
+  })
+  .label('Venue');
+
+export const bookingSchema = yup
+  .object({
+    _id: id(),
+    venue: yup.object({ _id: id(), name: yup.string().required() }).required(),
+    date: yup.string().required(),
+    startTime: yup.string().required(),
+    endTime: yup.string().required(),
+    pricing: yup.object({ totalCost: count(), currency: yup.string().required() }).required(),
+    status: yup.string().oneOf(['pending', 'confirmed', 'cancelled', 'completed', 'no_show']).required(),
+  })
+  .label('Booking');
+
+export const messageSchema = yup
+  .object({
+    _id: id(),
+    chat: id(),
+    sender: ref(),
+    content: yup.string().defined(),
+    messageType: yup.string().oneOf(['text', 'image', 'system']).required(),
+    createdAt: timestamp(),
+  })
+  .label('Message');
+
+export const chatSchema = yup
+  .object({
+    _id: id(),
+    type: yup.string().oneOf(['direct', 'group', 'match', 'tournament', 'team']).required(),
+    participants: list(yup.object({ _id: id() })),
+    unreadCount: count(),
+  })
+  .label('Chat');
+
+export const notificationSchema = yup
+  .object({
+    _id: id(),
+    type: yup.string().required(),
+    title: yup.string().defined(),
+    message: yup.string().defined(),
+    isRead: yup.boolean().required(),
+    createdAt: timestamp(),
+  })
+  .label('Notification');
+
+/**
+ * Schema for a list of `schema` items, e.g. `listOf(matchSchema)`
+ */
+export const listOf = (schema: yup.AnyObjectSchema) =>
+  yup.array(schema).required().label(`${schema.spec.label}[]`);
+
+export type ResponseSchema = yup.AnyObjectSchema | ReturnType<typeof listOf>;
+
+const MAX_RECEIVED_LENGTH = 80;
+
+const describeExpected = ({ type, params }: yup.ValidationError): string => {
+  switch (type) {
+    case 'typeError':
+      return String(params?.type);
+    case 'required':
+    case 'defined':
+    case 'optionality':
+      return 'a value';
+    case 'oneOf':
+      return `one of ${params?.values}`;
+    default:
+      return type ?? 'a valid value';
+  }
+};
+
+const describeReceived = ({ params }: yup.ValidationError): string => {
+  const value = params?.originalValue ?? params?.value;
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > MAX_RECEIVED_LENGTH ? `${text.slice(0, MAX_RECEIVED_LENGTH)}…` : text;
+};
+
+/**
+ * Every difference between a response and its schema, one expected and
+ * received pair per field
+ */
+export const formatResponseDiff = (error: yup.ValidationError): string =>
+  (error.inner.length > 0 ? error.inner : [error])
+    .map(
+      issue =>
+        `  ${issue.path || '(response)'}\n    - expected: ${describeExpected(issue)}\n    + received: ${describeReceived(issue)}`
+    )
+    .join('\n');
+
+const toInvalidResponseError = (schema: ResponseSchema, error: yup.ValidationError) =>
+  new InvalidResponseError(
+    `${schema.spec.label ?? 'API'} response does not match its schema:\n${formatResponseDiff(error)}`,
+    { fields: error.inner.map(issue => issue.path) }
+  );
+
+/**
+ * What is left of a response that failed validation: the list items that
+ * match, or the entity coerced as far as it goes
+ */
+const recoverResponse = (schema: ResponseSchema, data: unknown, error: InvalidResponseError): unknown => {
+  if (schema instanceof yup.ArraySchema) {
+    const item = schema.innerType as yup.AnyObjectSchema;
+    return (Array.isArray(data) ? data : []).flatMap(entry => {
+      try {
+        return [item.validateSync(entry)];
+      } catch {
+        return [];
+      }
+    });
+  }
+  if (data === null || typeof data !== 'object') {
+    throw error;
+  }
+  return schema.cast(data, { assert: false });
+};
+
+/**
+ * Check response data against its schema; see the module comment for what
+ * happens when it does not match
+ */
+export const parseResponse = <T>(schema: ResponseSchema, data: unknown): T => {
+  try {
+    return schema.validateSync(data, { abortEarly: false, strict: __DEV__ }) as T;
+  } catch (validationError) {
+    if (!(validationError instanceof yup.ValidationError)) {
+      throw validationError;
+    }
+
+    const error = toInvalidResponseError(schema, validationError);
+    if (__DEV__) {
+      logger.error(error.message, error);
+      throw error;
+    }
+    analyticsService.recordError(error, 'API response validation');
+    return recoverResponse(schema, data, error) as T;
+  }
+};
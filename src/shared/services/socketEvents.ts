@@ -0,0 +1,106 @@
+import * as yup from 'yup';
+import { Message } from '@features/chat/types';
+import { Notification } from '@features/notifications/types';
+import { Match, MatchScore, Participant } from '@features/matches/types';
+import { BracketMatch, Tournament } from '@features/tournaments/types';
+
+/**
+ * Realtime event registry
+ * Payload type and runtime schema for every event the server pushes. Schemas
+ * check the fields handlers rely on and keep any others untouched, so the
+ * server can add fields without clients dropping its events.
+ */
+
+export interface TournamentMatchResult {
+  score?: BracketMatch['score'];
+  winner?: string;
+}
+
+export interface SocketEventPayloads {
+  'new_message': Message;
+  'message_sent': Message;
+  'message_delivered': { messageId: string; deliveredAt: string };
+  'message_read': { messageId: string; readBy: string; readAt: string };
+  'match_updated': Match;
+  'match_participant_joined': { matchId: string; participant: Participant };
+  'match_participant_left': { matchId: string; userId: string };
+  'match_started': { matchId: string; startTime: string };
+  'match_completed': { matchId: string; result: MatchScore };
+  'tournament_updated': Tournament;
+  'tournament_started': { tournamentId: string; startTime: string };
+  'tournament_match_completed': { tournamentId: string; matchId: string; result: TournamentMatchResult };
+  'notification': Notification;
+  'user_online': { userId: string; timestamp: string };
+  'user_offline': { userId: string; lastSeen: string };
+  'typing_start': { chatId: string; userId: string; username: string };
+  'typing_stop': { chatId: string; userId: string };
+}
+
+export type SocketEventName = keyof SocketEventPayloads;
+
+export type SocketEventHandlers = {
+  [K in SocketEventName]: (payload: SocketEventPayloads[K]) => void;
+};
+
+/** Rooms the server scopes events to */
+export type SocketRoom = 'chat' | 'match' | 'tournament';
+
+const id = () => yup.string().required();
+const timestamp = () => yup.string().required();
+
+const messageSchema = yup.object({
+  _id: id(),
+  chat: id(),
+  sender: yup.object({ _id: id() }).required(),
+  content: yup.string().defined(),
+});
+
+export const socketEventSchemas: Record<SocketEventName, yup.AnyObjectSchema> = {
+  'new_message': messageSchema,
+  'message_sent': messageSchema,
+  'message_delivered': yup.object({ messageId: id(), deliveredAt: timestamp() }),
+  'message_read': yup.object({ messageId: id(), readBy: id(), readAt: timestamp() }),
+  'match_updated': yup.object({ _id: id(), sport: yup.string().required(), status: yup.string().required() }),
+  'match_participant_joined': yup.object({
+    matchId: id(),
+    participant: yup.object({ _id: id() }).required(),
+  }),
+  'match_participant_left': yup.object({ matchId: id(), userId: id() }),
+  'match_started': yup.object({ matchId: id(), startTime: timestamp() }),
+  'match_completed': yup.object({
+    matchId: id(),
+    result: yup
+      .object({ team1: yup.number().optional(), team2: yup.number().optional(), winner: yup.string().optional() })
+      .required(),
+  }),
+  'tournament_updated': yup.object({ _id: id(), status: yup.string().required() }),
+  'tournament_started': yup.object({ tournamentId: id(), startTime: timestamp() }),
+  'tournament_match_completed': yup.object({
+    tournamentId: id(),
+    matchId: id(),
+    result: yup
+      .object({
+        score: yup.object({ player1: yup.number().optional(), player2: yup.number().optional() }).optional(),
+        winner: yup.string().optional(),
+      })
+      .required(),
+  }),
+  'notification': yup.object({ _id: id(), type: yup.string().required() }),
+  'user_online': yup.object({ userId: id(), timestamp: timestamp() }),
+  'user_offline': yup.object({ userId: id(), lastSeen: timestamp() }),
+  'typing_start': yup.object({ chatId: id(), userId: id(), username: yup.string().defined() }),
+  'typing_stop': yup.object({ chatId: id(), userId: id() }),
+};
+
+export const isSocketEventName = (event: string): event is SocketEventName =>
+  Object.prototype.hasOwnProperty.call(socketEventSchemas, event);
+
+/**
+ * Validate an incoming payload against its event schema. Throws a
+ * `ValidationError` listing every problem when the payload does not match;
+ * events outside the registry pass through unchanged.
+ */
+export const parseSocketPayload = (event: string, payload: unknown): unknown => {
+  if (!isSocketEventName(event)) return payload;
+  return socketEventSchemas[event].validateSync(payload, { abortEarly: false, strict: true });
+};
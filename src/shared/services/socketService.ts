@@ -1,40 +1,23 @@
 import { logger } from '@core';
 import { io, Socket } from 'socket.io-client';
+import { ValidationError } from 'yup';
 import { API_CONFIG } from '@core/config';
 import { apiService } from './api';
-import { Message } from '@features/chat/types';
-import { Notification } from '@features/notifications/types';
-import { Match } from '@features/matches/types';
-import { Tournament } from '@features/tournaments/types';
+import { getEnabledMockServer } from './devMockServer';
+import { parseSocketPayload, SocketEventHandlers, SocketRoom } from './socketEvents';
 
 export type SocketEventCallback = (data: any) => void;
 
-export interface SocketEventHandlers {
-  'new_message': (message: Message) => void;
-  'message_sent': (message: Message) => void;
-  'message_delivered': (data: { messageId: string; deliveredAt: string }) => void;
-  'message_read': (data: { messageId: string; readBy: string; readAt: string }) => void;
-  'match_updated': (match: Match) => void;
-  'match_participant_joined': (data: { matchId: string; participant: any }) => void;
-  'match_participant_left': (data: { matchId: string; userId: string }) => void;
-  'match_started': (data: { matchId: string; startTime: string }) => void;
-  'match_completed': (data: { matchId: string; result: any }) => void;
-  'tournament_updated': (tournament: Tournament) => void;
-  'tournament_started': (data: { tournamentId: string; startTime: string }) => void;
-  'tournament_match_completed': (data: { tournamentId: string; matchId: string; result: any }) => void;
-  'notification': (notification: Notification) => void;
-  'user_online': (data: { userId: string; timestamp: string }) => void;
-  'user_offline': (data: { userId: string; lastSeen: string }) => void;
-  'typing_start': (data: { chatId: string; userId: string; username: string }) => void;
-  'typing_stop': (data: { chatId: string; userId: string }) => void;
-}
-
 class SocketService {
   private socket: Socket | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
   private eventHandlers: Map<string, Set<SocketEventCallback>> = new Map();
+  /** One validating listener per event, fanning out to `eventHandlers` */
+  private listeners: Map<string, (payload: unknown) => void> = new Map();
+  /** Rooms joined, with how many subscribers need each one */
+  private rooms: Map<string, { room: SocketRoom; id: string; count: number }> = new Map();
 
   async connect(): Promise<void> {
     const token = await apiService.getAccessToken();
@@ -44,21 +27,27 @@ class SocketService {
     }
 
     if (this.socket?.connected) {
-      logger.log('Socket already connected');
+      logger.debug('Socket already connected');
       return;
     }
 
-    this.socket = io(API_CONFIG.SOCKET_URL, {
-      auth: {
-        token,
-      },
-      transports: ['websocket', 'polling'],
-      reconnection: true,
-      reconnectionAttempts: this.maxReconnectAttempts,
-      reconnectionDelay: this.reconnectDelay,
-      reconnectionDelayMax: 10000,
-      timeout: 20000,
-    });
+    const mockServer = await getEnabledMockServer();
+    if (mockServer) {
+      // The mock socket has the members used here
+      this.socket = mockServer.createSocket(token) as unknown as Socket;
+    } else {
+      this.socket = io(API_CONFIG.SOCKET_URL, {
+        auth: {
+          token,
+        },
+        transports: ['websocket', 'polling'],
+        reconnection: true,
+        reconnectionAttempts: this.maxReconnectAttempts,
+        reconnectionDelay: this.reconnectDelay,
+        reconnectionDelayMax: 10000,
+        timeout: 20000,
+      });
+    }
 
     this.setupEventListeners();
     this.reattachEventHandlers();
@@ -68,12 +57,14 @@ class SocketService {
     if (!this.socket) return;
 
     this.socket.on('connect', () => {
-      logger.log('Socket connected:', this.socket?.id);
+      logger.info('Socket connected', { socketId: this.socket?.id });
       this.reconnectAttempts = 0;
+      // The server forgets room membership when the connection drops
+      this.rooms.forEach(({ room, id }) => this.emitRoom('join', room, id));
     });
 
     this.socket.on('disconnect', (reason) => {
-      logger.log('Socket disconnected:', reason);
+      logger.info('Socket disconnected', { reason });
       if (reason === 'io server disconnect') {
         this.connect();
       }
@@ -89,11 +80,11 @@ class SocketService {
     });
 
     this.socket.on('reconnect', (attemptNumber) => {
-      logger.log('Socket reconnected after', attemptNumber, 'attempts');
+      logger.info('Socket reconnected', { attemptNumber });
     });
 
     this.socket.on('reconnect_attempt', (attemptNumber) => {
-      logger.log('Socket reconnection attempt:', attemptNumber);
+      logger.debug('Socket reconnection attempt', { attemptNumber });
     });
 
     this.socket.on('reconnect_error', (error) => {
@@ -108,10 +99,33 @@ class SocketService {
   private reattachEventHandlers(): void {
     if (!this.socket) return;
 
-    this.eventHandlers.forEach((callbacks, event) => {
-      callbacks.forEach((callback) => {
-        this.socket?.on(event, callback);
+    this.eventHandlers.forEach((_callbacks, event) => {
+      this.socket?.on(event, this.getListener(event));
+    });
+  }
+
+  private getListener(event: string): (payload: unknown) => void {
+    let listener = this.listeners.get(event);
+    if (!listener) {
+      listener = (payload: unknown) => this.dispatch(event, payload);
+      this.listeners.set(event, listener);
+    }
+    return listener;
+  }
+
+  private dispatch(event: string, payload: unknown): void {
+    let data: unknown;
+    try {
+      data = parseSocketPayload(event, payload);
+    } catch (error) {
+      logger.warn(`Dropped invalid ${event} payload`, {
+        errors: error instanceof ValidationError ? error.errors : String(error),
       });
+      return;
+    }
+
+    this.eventHandlers.get(event)?.forEach((callback) => {
+      callback(data);
     });
   }
 
@@ -120,7 +134,7 @@ class SocketService {
       this.reconnectAttempts++;
       const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
       setTimeout(() => {
-        logger.log(`Reconnecting... Attempt ${this.reconnectAttempts}`);
+        logger.info(`Reconnecting... Attempt ${this.reconnectAttempts}`);
         this.connect();
       }, delay);
     } else {
@@ -136,40 +150,61 @@ class SocketService {
     }
   }
 
-  joinChat(chatId: string): void {
+  private emitRoom(action: 'join' | 'leave', room: SocketRoom, id: string): void {
     if (this.socket) {
-      this.socket.emit('join_chat', { chatId });
+      this.socket.emit(`${action}_${room}`, { [`${room}Id`]: id });
     }
   }
 
-  leaveChat(chatId: string): void {
-    if (this.socket) {
-      this.socket.emit('leave_chat', { chatId });
+  /**
+   * Subscribe to a room. Rooms are reference-counted: the server is only
+   * asked to leave once every subscriber has called `leaveRoom`.
+   */
+  joinRoom(room: SocketRoom, id: string): void {
+    const key = `${room}:${id}`;
+    const entry = this.rooms.get(key);
+    if (entry) {
+      entry.count += 1;
+      return;
     }
+    this.rooms.set(key, { room, id, count: 1 });
+    this.emitRoom('join', room, id);
   }
 
-  joinMatch(matchId: string): void {
-    if (this.socket) {
-      this.socket.emit('join_match', { matchId });
+  leaveRoom(room: SocketRoom, id: string): void {
+    const key = `${room}:${id}`;
+    const entry = this.rooms.get(key);
+    if (!entry) return;
+
+    entry.count -= 1;
+    if (entry.count === 0) {
+      this.rooms.delete(key);
+      this.emitRoom('leave', room, id);
     }
   }
 
+  joinChat(chatId: string): void {
+    this.joinRoom('chat', chatId);
+  }
+
+  leaveChat(chatId: string): void {
+    this.leaveRoom('chat', chatId);
+  }
+
+  joinMatch(matchId: string): void {
+    this.joinRoom('match', matchId);
+  }
+
   leaveMatch(matchId: string): void {
-    if (this.socket) {
-      this.socket.emit('leave_match', { matchId });
-    }
+    this.leaveRoom('match', matchId);
   }
 
   joinTournament(tournamentId: string): void {
-    if (this.socket) {
-      this.socket.emit('join_tournament', { tournamentId });
-    }
+    this.joinRoom('tournament', tournamentId);
   }
 
   leaveTournament(tournamentId: string): void {
-    if (this.socket) {
-      this.socket.emit('leave_tournament', { tournamentId });
-    }
+    this.leaveRoom('tournament', tournamentId);
   }
 
   sendMessage(chatId: string, content: string, type: 'text' | 'image' = 'text', replyTo?: string): void {
@@ -214,12 +249,11 @@ class SocketService {
   on(event: string, callback: SocketEventCallback): void {
     if (!this.eventHandlers.has(event)) {
       this.eventHandlers.set(event, new Set());
+      if (this.socket) {
+        this.socket.on(event, this.getListener(event));
+      }
     }
     this.eventHandlers.get(event)!.add(callback);
-
-    if (this.socket) {
-      this.socket.on(event, callback);
-    }
   }
 
    
@@ -233,23 +267,22 @@ class SocketService {
   // TypeScript method overload pattern - implementation signature
   // eslint-disable-next-line no-dupe-class-members
   off(event: string, callback?: SocketEventCallback): void {
-    if (callback) {
-      const handlers = this.eventHandlers.get(event);
-      if (handlers) {
-        handlers.delete(callback);
-        if (handlers.size === 0) {
-          this.eventHandlers.delete(event);
-        }
-      }
+    const handlers = this.eventHandlers.get(event);
+    if (!handlers) return;
 
-      if (this.socket) {
-        this.socket.off(event, callback);
-      }
+    if (callback) {
+      handlers.delete(callback);
     } else {
+      handlers.clear();
+    }
+
+    if (handlers.size === 0) {
       this.eventHandlers.delete(event);
-      if (this.socket) {
-        this.socket.off(event);
+      const listener = this.listeners.get(event);
+      if (this.socket && listener) {
+        this.socket.off(event, listener);
       }
+      this.listeners.delete(event);
     }
   }
 
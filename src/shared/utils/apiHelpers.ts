@@ -1,16 +1,21 @@
 import { ApiResponse } from '../types/api';
+import { parseResponse, ResponseSchema } from '../services/responseSchemas';
 
-export function unwrapApiResponse<T>(response: ApiResponse<T>): T {
-  return response.data as T;
+/**
+ * The response's data, checked against `schema` when one is given
+ */
+export function unwrapApiResponse<T>(response: ApiResponse<T>, schema?: ResponseSchema): T {
+  return schema ? parseResponse<T>(schema, response.data) : (response.data as T);
 }
 
 export function unwrapNestedData<T, K extends keyof T>(
   response: ApiResponse<T>,
-  key: K
+  key: K,
+  schema?: ResponseSchema
 ): T[K] {
   const data = response.data;
   if (!data) {
     throw new Error('API response data is undefined');
   }
-  return data[key];
+  return schema ? parseResponse<T[K]>(schema, data[key]) : data[key];
 }
@@ -123,16 +123,14 @@ export const getNetworkSpeed = async (): Promise<'slow' | 'medium' | 'fast' | 'u
       return 'unknown';
     }
     
-    const type = state.type;
-    const effectiveType = state.details?.cellularGeneration;
-    
     // WiFi is generally fast
-    if (type === 'wifi') {
+    if (state.type === 'wifi') {
       return 'fast';
     }
     
     // Cellular speeds
-    if (type === 'cellular') {
+    if (state.type === 'cellular') {
+      const effectiveType = state.details?.cellularGeneration;
       if (effectiveType === '5g') return 'fast';
       if (effectiveType === '4g') return 'medium';
       if (effectiveType === '3g') return 'slow';
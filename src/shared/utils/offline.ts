@@ -37,7 +37,7 @@ export const useNetworkStatus = () => {
  * Queues actions when offline and executes them when back online
  */
 
-interface QueuedAction {
+export interface QueuedAction {
   id: string;
   type: string;
   payload: any;
@@ -52,9 +52,10 @@ export class OfflineActionQueue {
   private static instance: OfflineActionQueue;
   private queue: QueuedAction[] = [];
   private isProcessing = false;
+  private loaded: Promise<void>;
 
   private constructor() {
-    this.loadQueue();
+    this.loaded = this.loadQueue();
   }
 
   static getInstance(): OfflineActionQueue {
@@ -71,7 +72,8 @@ export class OfflineActionQueue {
     try {
       const queueData = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
       if (queueData) {
-        this.queue = JSON.parse(queueData);
+        // Keep anything added while the saved queue was loading
+        this.queue = [...JSON.parse(queueData), ...this.queue];
       }
     } catch (error) {
       logger.error('Failed to load offline queue:', error instanceof Error ? error : undefined);
@@ -92,9 +94,9 @@ export class OfflineActionQueue {
   /**
    * Add action to queue
    */
-  async addAction(type: string, payload: any): Promise<string> {
+  async addAction(type: string, payload: any, id?: string): Promise<string> {
     const action: QueuedAction = {
-      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: id ?? `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type,
       payload,
       timestamp: Date.now(),
@@ -106,6 +108,22 @@ export class OfflineActionQueue {
     return action.id;
   }
 
+  /**
+   * Replace the payload of a queued action
+   */
+  async updateAction(id: string, payload: any): Promise<void> {
+    this.queue = this.queue.map(action => (action.id === id ? { ...action, payload } : action));
+    await this.saveQueue();
+  }
+
+  /**
+   * Remove an action from the queue
+   */
+  async removeAction(id: string): Promise<void> {
+    this.queue = this.queue.filter(action => action.id !== id);
+    await this.saveQueue();
+  }
+
   /**
    * Process queue when online
    */
@@ -173,6 +191,14 @@ export class OfflineActionQueue {
   getQueuedActions(): QueuedAction[] {
     return [...this.queue];
   }
+
+  /**
+   * Get all queued actions, including those saved by an earlier session
+   */
+  async getSavedActions(): Promise<QueuedAction[]> {
+    await this.loaded;
+    return this.getQueuedActions();
+  }
 }
 
 /**
@@ -229,6 +229,9 @@ export const STORAGE_KEYS = {
   SEARCH_HISTORY: 'search_history',
   FILTER_PREFERENCES: 'filter_preferences',
   ONBOARDING_COMPLETED: 'onboarding_completed',
+  CALENDAR_SYNC: 'calendar_sync',
+  MATCH_FILTER_PRESETS: 'match_filter_presets',
+  MOCK_SERVER: 'mock_server',
 } as const;
 
 /**
@@ -1,16 +1,19 @@
-import { configureStore, combineReducers } from '@reduxjs/toolkit';
+import { configureStore, combineReducers, isPlain } from '@reduxjs/toolkit';
 import { setupListeners } from '@reduxjs/toolkit/query';
 import {
   persistStore,
   persistReducer,
+  createMigrate,
   FLUSH,
   REHYDRATE,
   PAUSE,
   PERSIST,
   PURGE,
   REGISTER,
+  PersistConfig,
 } from 'redux-persist';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppError } from '@core/errors/AppError';
 import { authReducer } from '@features/auth/store';
 import { authApi } from '@features/auth/store';
 import { userApi } from '@features/auth/store';
@@ -22,12 +25,27 @@ import { venueApi, venuesReducer } from '@features/venues/store';
 import { chatApi } from '@features/chat/store';
 import { notificationApi } from '@features/notifications/store';
 import { paymentApi } from '@features/profile/store';
+import { ratingApi } from '@features/ratings/store';
+import { calendarApi } from '@features/calendar/store';
+import {
+  PERSIST_VERSION,
+  PERSISTED_API_PATHS,
+  persistMigrations,
+  queryCacheTransform,
+} from '@shared/services/queryCache';
+import { outboxMiddleware, queryCacheMiddleware } from './middleware';
+import { outboxReducer } from './slices';
 
-const persistConfig = {
+const persistConfig: PersistConfig<ReturnType<typeof rootReducer>> = {
   key: 'root',
-  version: 1,
+  version: PERSIST_VERSION,
   storage: AsyncStorage,
-  whitelist: ['auth'], // Only persist auth state
+  // Auth, plus the API responses chosen in QUERY_CACHE_POLICIES
+  whitelist: ['auth', ...PERSISTED_API_PATHS],
+  transforms: [queryCacheTransform],
+  migrate: createMigrate(persistMigrations),
+  // API state changes with every request; write at most once a second
+  throttle: 1000,
 };
 
 const rootReducer = combineReducers({
@@ -36,6 +54,8 @@ const rootReducer = combineReducers({
   teams: teamsReducer,
   tournaments: tournamentsReducer,
   venues: venuesReducer,
+  // Kept on the device by the outbox middleware rather than redux-persist
+  outbox: outboxReducer,
   [authApi.reducerPath]: authApi.reducer,
   [matchApi.reducerPath]: matchApi.reducer,
   [tournamentApi.reducerPath]: tournamentApi.reducer,
@@ -46,6 +66,8 @@ const rootReducer = combineReducers({
   [userApi.reducerPath]: userApi.reducer,
   [paymentApi.reducerPath]: paymentApi.reducer,
   [recommendationApi.reducerPath]: recommendationApi.reducer,
+  [ratingApi.reducerPath]: ratingApi.reducer,
+  [calendarApi.reducerPath]: calendarApi.reducer,
 });
 
 const persistedReducer = persistReducer(persistConfig, rootReducer);
@@ -56,6 +78,8 @@ export const store = configureStore({
     getDefaultMiddleware({
       serializableCheck: {
         ignoredActions: [FLUSH, REHYDRATE, PAUSE, PERSIST, PURGE, REGISTER],
+        // API errors are AppError instances from the shared base query
+        isSerializable: (value: unknown) => isPlain(value) || value instanceof AppError,
       },
     }).concat(
       authApi.middleware,
@@ -67,7 +91,11 @@ export const store = configureStore({
       notificationApi.middleware,
       userApi.middleware,
       paymentApi.middleware,
-      recommendationApi.middleware
+      recommendationApi.middleware,
+      ratingApi.middleware,
+      calendarApi.middleware,
+      outboxMiddleware,
+      queryCacheMiddleware
     ),
 });
 
@@ -1,3 +1,3 @@
 // Redux middleware
-// Custom middleware will be exported from here
-export {};
+export * from './outboxMiddleware';
+export * from './queryCacheMiddleware';
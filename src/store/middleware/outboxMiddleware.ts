@@ -0,0 +1,145 @@
+import type { Dispatch, Middleware, MiddlewareAPI, UnknownAction } from '@reduxjs/toolkit';
+import { NetworkError } from '@core/errors/AppError';
+import { logger } from '@core/types/ILogger';
+import { clearUser } from '@features/auth/store/authSlice';
+import { chatApi } from '@features/chat/store/chatApi';
+import { matchApi } from '@features/matches/store/matchApi';
+import { notificationApi } from '@features/notifications/store/notificationApi';
+import { venueApi } from '@features/venues/store/venueApi';
+import { baseQuery, IDEMPOTENCY_KEY_HEADER } from '@shared/services/baseQuery';
+import { OfflineActionQueue, QueuedAction } from '@shared/utils/offline';
+import {
+  OutboxEntry,
+  discardEntry,
+  entryQueued,
+  entryRemoved,
+  entryUpdated,
+  networkStatusChanged,
+  outboxCleared,
+  outboxRestored,
+  restoreOutbox,
+  retryEntry,
+  selectIsOnline,
+  selectOutboxEntries,
+} from '../slices/outboxSlice';
+
+/**
+ * Offline outbox middleware
+ *
+ * Saves outbox entries on the device with `OfflineActionQueue` and replays
+ * them one at a time, oldest first, whenever the device comes back online,
+ * an entry is queued while online or the user retries one. A replay that
+ * cannot reach the server stops the run and waits for the next one.
+ */
+
+// APIs with mutations marked for the outbox, refetched once a replay settles
+const OUTBOX_APIS = [matchApi, chatApi, notificationApi, venueApi];
+
+// The server turned the request down because the data changed meanwhile
+const CONFLICT_STATUSES = [409, 410];
+
+const queue = OfflineActionQueue.getInstance();
+let isFlushing = false;
+
+const toQueuedPayload = ({ id: _id, endpoint: _endpoint, ...payload }: OutboxEntry) => payload;
+
+const fromQueuedAction = ({ id, type, payload }: QueuedAction): OutboxEntry => ({ ...payload, id, endpoint: type });
+
+const refetchAffected = (dispatch: Dispatch, entry: OutboxEntry) => {
+  const api = OUTBOX_APIS.find(({ endpoints }) => entry.endpoint in endpoints);
+  if (api) {
+    dispatch((api.util.invalidateTags as (tags: string[]) => UnknownAction)(entry.invalidates));
+  }
+};
+
+const replay = ({ dispatch, getState }: MiddlewareAPI, entry: OutboxEntry) => {
+  const controller = new AbortController();
+  return baseQuery(
+    { ...entry.request, headers: { [IDEMPOTENCY_KEY_HEADER]: entry.id } },
+    {
+      signal: controller.signal,
+      abort: () => controller.abort(),
+      dispatch,
+      getState,
+      extra: undefined,
+      endpoint: entry.endpoint,
+      type: 'mutation',
+    },
+    {}
+  );
+};
+
+const flush = async (store: MiddlewareAPI) => {
+  if (isFlushing) return;
+  isFlushing = true;
+
+  try {
+    while (selectIsOnline(store.getState())) {
+      const entry = selectOutboxEntries(store.getState()).find(({ status }) => status === 'pending');
+      if (!entry) break;
+
+      store.dispatch(entryUpdated({ id: entry.id, changes: { status: 'sending' } }));
+      const { error, meta } = await replay(store, entry);
+
+      if (error instanceof NetworkError) {
+        store.dispatch(entryUpdated({ id: entry.id, changes: { status: 'pending' } }));
+        break;
+      }
+
+      if (error) {
+        const isConflict = CONFLICT_STATUSES.includes(meta?.response?.status ?? 0);
+        logger.warn('Outbox request failed', { endpoint: entry.endpoint, id: entry.id, isConflict });
+        store.dispatch(entryUpdated({ id: entry.id, changes: { status: 'failed', error: error.message, isConflict } }));
+      } else {
+        store.dispatch(entryRemoved(entry.id));
+      }
+      // Either way the cache catches up with the server, which also drops a rejected optimistic update
+      refetchAffected(store.dispatch, entry);
+    }
+  } catch (error) {
+    logger.error('Failed to replay the offline outbox', error as Error);
+  } finally {
+    isFlushing = false;
+  }
+};
+
+export const outboxMiddleware: Middleware = store => next => action => {
+  const discarded = discardEntry.match(action)
+    ? selectOutboxEntries(store.getState()).find(({ id }) => id === action.payload)
+    : undefined;
+  const result = next(action);
+
+  if (entryQueued.match(action)) {
+    const entry = action.payload;
+    queue.addAction(entry.endpoint, toQueuedPayload(entry), entry.id);
+    flush(store);
+  } else if (entryUpdated.match(action) || retryEntry.match(action)) {
+    const id = entryUpdated.match(action) ? action.payload.id : action.payload;
+    const entry = selectOutboxEntries(store.getState()).find(queued => queued.id === id);
+    if (entry) {
+      queue.updateAction(id, toQueuedPayload(entry));
+    }
+    if (retryEntry.match(action)) {
+      flush(store);
+    }
+  } else if (entryRemoved.match(action) || discardEntry.match(action)) {
+    queue.removeAction(action.payload);
+    // A discarded request takes its optimistic update with it
+    if (discarded) {
+      refetchAffected(store.dispatch, discarded);
+    }
+  } else if (networkStatusChanged.match(action) && action.payload) {
+    flush(store);
+  } else if (restoreOutbox.match(action)) {
+    queue.getSavedActions().then(actions => {
+      store.dispatch(outboxRestored(actions.map(fromQueuedAction)));
+      return flush(store);
+    });
+  } else if (clearUser.match(action)) {
+    // Queued requests belong to the signed-out user
+    store.dispatch(outboxCleared());
+    queue.clearQueue();
+  }
+
+  return result;
+};
@@ -0,0 +1,33 @@
+import type { Middleware } from '@reduxjs/toolkit';
+import { PURGE } from 'redux-persist';
+import { clearUser } from '@features/auth/store/authSlice';
+import { chatApi } from '@features/chat/store/chatApi';
+import { matchApi } from '@features/matches/store/matchApi';
+import { teamApi } from '@features/teams/store/teamApi';
+import { venueApi } from '@features/venues/store/venueApi';
+import { recordQueryUse } from '@shared/services/queryCache';
+
+/**
+ * Query cache middleware
+ *
+ * Notes when persisted queries are used, so the saved cache drops the least
+ * recently used entries first once it outgrows its size budget. Signing out
+ * resets the persisted APIs and purges the saved state, so the next user
+ * never sees the previous user's responses.
+ */
+
+// The APIs in QUERY_CACHE_POLICIES
+const PERSISTED_APIS = [matchApi, teamApi, venueApi, chatApi];
+
+export const queryCacheMiddleware: Middleware = store => next => action => {
+  recordQueryUse(action);
+  const result = next(action);
+
+  if (clearUser.match(action)) {
+    PERSISTED_APIS.forEach(api => store.dispatch(api.util.resetApiState()));
+    // Removes the saved copy now rather than on the next throttled write
+    store.dispatch({ type: PURGE, key: 'root', result: () => undefined });
+  }
+
+  return result;
+};
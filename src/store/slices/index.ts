@@ -1,4 +1,5 @@
 // Redux slices
-// All slices are now organized in their respective feature modules
-// Import from @features/<feature>/store instead
-export {};
+// Feature slices are organized in their respective feature modules
+// Import from @features/<feature>/store instead; only app-wide state lives here
+export { default as outboxReducer } from './outboxSlice';
+export * from './outboxSlice';
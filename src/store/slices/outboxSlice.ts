@@ -0,0 +1,107 @@
+import { createAction, createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+/**
+ * Offline outbox
+ *
+ * Mutations made while offline, waiting to be replayed in the order they
+ * were made. Requests the server turned down stay here as failed until the
+ * user retries or discards them.
+ */
+
+export type OutboxEntryStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxRequest {
+  url: string;
+  method?: string;
+  body?: unknown;
+}
+
+export interface OutboxEntry {
+  /** Also sent as the idempotency key, so the server applies a replay once */
+  id: string;
+  endpoint: string;
+  label: string;
+  request: OutboxRequest;
+  /** Tag types refetched once the request settles */
+  invalidates: string[];
+  status: OutboxEntryStatus;
+  error?: string;
+  /** Turned down with 409/410 because the data changed meanwhile; retrying won't help */
+  isConflict?: boolean;
+  createdAt: number;
+}
+
+export interface OutboxState {
+  isOnline: boolean;
+  entries: OutboxEntry[];
+}
+
+const initialState: OutboxState = {
+  isOnline: true,
+  entries: [],
+};
+
+// Handled by the outbox middleware, which loads the entries saved on the device
+export const restoreOutbox = createAction('outbox/restore');
+
+const outboxSlice = createSlice({
+  name: 'outbox',
+  initialState,
+  reducers: {
+    networkStatusChanged: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+    outboxRestored: (state, action: PayloadAction<OutboxEntry[]>) => {
+      // A send cut short by the app closing is tried again
+      state.entries = action.payload.map(entry =>
+        entry.status === 'sending' ? { ...entry, status: 'pending' } : entry
+      );
+    },
+    entryQueued: (state, action: PayloadAction<OutboxEntry>) => {
+      state.entries.push(action.payload);
+    },
+    entryUpdated: (state, action: PayloadAction<{ id: string; changes: Partial<OutboxEntry> }>) => {
+      const entry = state.entries.find(({ id }) => id === action.payload.id);
+      if (entry) {
+        Object.assign(entry, action.payload.changes);
+      }
+    },
+    entryRemoved: (state, action: PayloadAction<string>) => {
+      state.entries = state.entries.filter(({ id }) => id !== action.payload);
+    },
+    retryEntry: (state, action: PayloadAction<string>) => {
+      const entry = state.entries.find(({ id }) => id === action.payload);
+      if (entry) {
+        entry.status = 'pending';
+        entry.error = undefined;
+        entry.isConflict = undefined;
+      }
+    },
+    discardEntry: (state, action: PayloadAction<string>) => {
+      state.entries = state.entries.filter(({ id }) => id !== action.payload);
+    },
+    outboxCleared: (state) => {
+      state.entries = [];
+    },
+  },
+});
+
+export const {
+  networkStatusChanged,
+  outboxRestored,
+  entryQueued,
+  entryUpdated,
+  entryRemoved,
+  retryEntry,
+  discardEntry,
+  outboxCleared,
+} = outboxSlice.actions;
+
+// Selectors take any state so the shared base query can read the outbox too
+type WithOutbox = { outbox?: OutboxState };
+
+export const selectOutbox = (state: unknown): OutboxState => (state as WithOutbox)?.outbox ?? initialState;
+export const selectOutboxEntries = (state: unknown) => selectOutbox(state).entries;
+export const selectIsOnline = (state: unknown) => selectOutbox(state).isOnline;
+
+export default outboxSlice.reducer;